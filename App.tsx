@@ -40,28 +40,36 @@ import EventDivisionMatchesScreen from './src/screens/EventDivisionMatchesScreen
 import EventTeamMatchesScreen from './src/screens/EventTeamMatchesScreen';
 import EventTeamInfoScreen from './src/screens/EventTeamInfoScreen';
 import EventDivisionAwardsScreen from './src/screens/EventDivisionAwardsScreen';
+import AllianceSelectionScreen from './src/screens/AllianceSelectionScreen';
+import RefereeScreen from './src/screens/RefereeScreen';
 import FavoriteTeamsMatchesScreen from './src/screens/FavoriteTeamsMatchesScreen';
 import TeamInfoScreen from './src/screens/TeamInfoScreen';
 import { TeamEligibilityDetailScreen } from './src/screens/TeamEligibilityDetailScreen';
 import MatchNotesScreen from './src/screens/MatchNotesScreen';
+import ScoutingTemplatesScreen from './src/screens/ScoutingTemplatesScreen';
+import ScoutingSyncScreen from './src/screens/ScoutingSyncScreen';
 import WelcomeScreen from './src/screens/WelcomeScreen';                                  
 
 
 import ScoreCalculatorsHomeScreen from './src/screens/ScoreCalculatorsHomeScreen';
-import TeamworkScoreCalculatorScreen from './src/screens/TeamworkScoreCalculatorScreen';
-import PilotingSkillsCalculatorScreen from './src/screens/PilotingSkillsCalculatorScreen';
-import AutonomousFlightSkillsCalculatorScreen from './src/screens/AutonomousFlightSkillsCalculatorScreen';
-import VEXv5ScoreCalculatorScreen from './src/screens/VEXv5ScoreCalculatorScreen'; 
+import ScoreCalculatorScreen from './src/screens/ScoreCalculatorScreen';
+import CalculatorSessionsScreen from './src/screens/CalculatorSessionsScreen';
 
 
 import { SettingsProvider, useSettings } from './src/contexts/SettingsContext';
 import { FavoritesProvider } from './src/contexts/FavoritesContext';
 import { NotesProvider } from './src/contexts/NotesContext';
+import { CalculatorSessionsProvider } from './src/contexts/CalculatorSessionsContext';
+import { AllianceSelectionProvider } from './src/contexts/AllianceSelectionContext';
+import { RefereeProvider } from './src/contexts/RefereeContext';
+import { ScoutingTemplatesProvider } from './src/contexts/ScoutingTemplatesContext';
+import { LiveEventProvider } from './src/contexts/LiveEventContext';
 import { DataCacheProvider } from './src/contexts/DataCacheContext';
 import { TeamsProvider } from './src/contexts/TeamsContext';
 import LookupScreenSeparated from './src/screens/LookupScreenSeparated';
 import { shouldShowScoreCalculators, isProgramLimitedMode } from './src/utils/programMappings';
 import { robotEventsAPI } from './src/services/apiRouter';
+import { onBackupRestored } from './src/utils/appBackup';
 import { Alert } from 'react-native';
 
 // Define the navigation parameter types
@@ -366,6 +374,22 @@ const AppNavigator = () => {
             component={TeamEligibilityDetailScreen as any}
             options={{ headerShown: true }}
           />
+          <Stack.Screen
+            name="AllianceSelection"
+            component={AllianceSelectionScreen as any}
+            options={{ headerShown: true }}
+          />
+          <Stack.Screen
+            name="Referee"
+            component={RefereeScreen as any}
+            options={{ headerShown: true }}
+          />
+          {/* Game manual opened on a specific rule (e.g. from the referee log) */}
+          <Stack.Screen
+            name="GameManualRule"
+            component={GameManualScreen as any}
+            options={{ headerShown: true }}
+          />
 
           {/* Calculator screens */}
           <Stack.Screen
@@ -374,28 +398,28 @@ const AppNavigator = () => {
             options={{ headerShown: true }}
           />
           <Stack.Screen
-            name="TeamworkScoreCalculator"
-            component={TeamworkScoreCalculatorScreen}
+            name="ScoreCalculator"
+            component={ScoreCalculatorScreen as any}
             options={{ headerShown: true }}
           />
           <Stack.Screen
-            name="PilotingSkillsCalculator"
-            component={PilotingSkillsCalculatorScreen}
+            name="CalculatorSessions"
+            component={CalculatorSessionsScreen as any}
             options={{ headerShown: true }}
           />
           <Stack.Screen
-            name="AutonomousFlightSkillsCalculator"
-            component={AutonomousFlightSkillsCalculatorScreen}
+            name="MatchNotes"
+            component={MatchNotesScreen as any}
             options={{ headerShown: true }}
           />
           <Stack.Screen
-            name="VEXv5ScoreCalculator"
-            component={VEXv5ScoreCalculatorScreen}
+            name="ScoutingTemplates"
+            component={ScoutingTemplatesScreen as any}
             options={{ headerShown: true }}
           />
           <Stack.Screen
-            name="MatchNotes"
-            component={MatchNotesScreen as any}
+            name="ScoutingSync"
+            component={ScoutingSyncScreen as any}
             options={{ headerShown: true }}
           />
           <Stack.Screen
@@ -427,15 +451,29 @@ const AppNavigator = () => {
  * Think of this as the foundation that everything else is built on.
  */
 export default function App() {
+  // Restoring a backup rewrites storage underneath the providers, so they are remounted to reload it
+  const [restoreCount, setRestoreCount] = useState(0);
+  useEffect(() => onBackupRestored(() => setRestoreCount(count => count + 1)), []);
+
   return (
     /* Context Providers wrap the app to provide global state */
     /* These work like "layers" - inner components can access all outer providers */
-    <SettingsProvider>        {/* Provides app settings (colors, preferences, etc.) */}
+    <SettingsProvider key={restoreCount}>        {/* Provides app settings (colors, preferences, etc.) */}
       <DataCacheProvider>     {/* Provides cached API data for performance */}
         <TeamsProvider>       {/* Provides teams data with background loading */}
           <FavoritesProvider> {/* Provides user's favorite teams and events */}
             <NotesProvider>   {/* Provides user's match notes and team notes */}
-              <AppNavigator />{/* The actual app navigation and screens */}
+              <CalculatorSessionsProvider> {/* Provides saved score calculator sheets */}
+                <AllianceSelectionProvider> {/* Provides pick lists and alliance selection logs */}
+                  <RefereeProvider> {/* Provides referee violation logs */}
+                    <ScoutingTemplatesProvider> {/* Provides structured scouting templates for match notes */}
+                      <LiveEventProvider> {/* Polls live events and raises alerts for favorite teams */}
+                        <AppNavigator />{/* The actual app navigation and screens */}
+                      </LiveEventProvider>
+                    </ScoutingTemplatesProvider>
+                  </RefereeProvider>
+                </AllianceSelectionProvider>
+              </CalculatorSessionsProvider>
             </NotesProvider>
           </FavoritesProvider>
         </TeamsProvider>
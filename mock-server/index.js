@@ -0,0 +1,338 @@
+/**
+ * RoboNexus Mock RobotEvents Server
+ *
+ * Small stand-in for the RobotEvents v2 API (https://www.robotevents.com/api/v2)
+ * that serves the fixture corpus in src/data/fixtures. Point the app at it from
+ * Settings > Developer > Mock Server URL to exercise robotEventsApi.ts (request
+ * queue, pagination, 429 backoff) without API keys or internet access.
+ *
+ * Usage:
+ *   npm run mock-server -- [--port 4010] [--live] [--latency 250] [--rate-limit 60]
+ *
+ *   --port        Port to listen on (default 4010)
+ *   --live        Replay the fixture event as a live event: matches start and get
+ *                 scored over time, rankings are recomputed from scored matches
+ *   --latency     Artificial delay per request in milliseconds
+ *   --rate-limit  Requests allowed per minute before answering 429 with Retry-After
+ *
+ * No dependencies - plain Node.js.
+ */
+
+const http = require('http');
+const fs = require('fs');
+const path = require('path');
+
+const FIXTURE_DIR = path.join(__dirname, '..', 'src', 'data', 'fixtures');
+const DEFAULT_PER_PAGE = 25; // RobotEvents v2 default page size
+const QUALIFICATION_ROUND = 2;
+
+// Live replay timing (kept in sync with src/services/fixtureEventsAPI.ts)
+const SIMULATION_SPEEDUP = 4;
+const SIMULATION_LEAD_TIME_MS = 2 * 60 * 1000;
+const SIMULATED_MATCH_LENGTH_MS = 30 * 1000;
+
+// =============================================================================
+// OPTIONS
+// =============================================================================
+
+const readOption = (name, fallback) => {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1) return fallback;
+  const value = process.argv[index + 1];
+  return value === undefined || value.startsWith('--') ? true : value;
+};
+
+const options = {
+  port: parseInt(readOption('port', '4010'), 10),
+  live: readOption('live', false) === true,
+  latency: parseInt(readOption('latency', '0'), 10),
+  rateLimit: parseInt(readOption('rate-limit', '0'), 10),
+};
+
+// =============================================================================
+// FIXTURE CORPUS
+// =============================================================================
+
+const corpus = { programs: [], seasons: [], events: [], teams: [], matches: [], rankings: [], skills: [], awards: [] };
+
+fs.readdirSync(FIXTURE_DIR)
+  .filter(file => file.endsWith('.json'))
+  .forEach(file => {
+    const data = JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, file), 'utf8'));
+    Object.keys(corpus).forEach(key => {
+      if (Array.isArray(data[key])) corpus[key].push(...data[key]);
+    });
+  });
+
+const startedAt = Date.now();
+
+// =============================================================================
+// LIVE REPLAY
+// =============================================================================
+
+const firstScheduled = eventId => {
+  const times = corpus.matches
+    .filter(match => match.event.id === eventId && match.scheduled)
+    .map(match => Date.parse(match.scheduled));
+  return times.length > 0 ? Math.min(...times) : startedAt;
+};
+
+const toLiveTime = (eventId, recorded) =>
+  startedAt + SIMULATION_LEAD_TIME_MS + (Date.parse(recorded) - firstScheduled(eventId)) / SIMULATION_SPEEDUP;
+
+const liveMatch = match => {
+  if (!options.live || !match.scheduled) return match;
+  const now = Date.now();
+  const started = toLiveTime(match.event.id, match.started || match.scheduled);
+  const scored = now >= started + SIMULATED_MATCH_LENGTH_MS;
+  return {
+    ...match,
+    scheduled: new Date(toLiveTime(match.event.id, match.scheduled)).toISOString(),
+    started: now >= started ? new Date(started).toISOString() : null,
+    scored,
+    alliances: match.alliances.map(alliance => ({ ...alliance, score: scored ? alliance.score : 0 })),
+  };
+};
+
+const getMatches = () => corpus.matches.map(liveMatch);
+
+const eventComplete = eventId => getMatches().filter(match => match.event.id === eventId).every(match => match.scored);
+
+const liveEvent = event => {
+  if (!options.live) return event;
+  const day = new Date(startedAt);
+  day.setHours(0, 0, 0, 0);
+  return { ...event, start: day.toISOString(), end: day.toISOString(), ongoing: true, awards_finalized: eventComplete(event.id) };
+};
+
+const computeRankings = (eventId, divisionId) => {
+  const recorded = corpus.rankings.filter(ranking => ranking.event.id === eventId && ranking.division.id === divisionId);
+  if (!options.live) return recorded;
+
+  const stats = new Map(recorded.map(ranking => [ranking.team.id, {
+    ...ranking, wins: 0, losses: 0, ties: 0, wp: 0, ap: 0, sp: 0, high_score: 0, total_points: 0, played: 0,
+  }]));
+
+  getMatches()
+    .filter(match => match.event.id === eventId && match.division.id === divisionId && match.round === QUALIFICATION_ROUND && match.scored)
+    .forEach(match => match.alliances.forEach(alliance => {
+      const opponent = match.alliances.find(other => other.color !== alliance.color);
+      const opponentScore = opponent ? opponent.score : 0;
+      alliance.teams.forEach(({ team, sitting }) => {
+        const entry = stats.get(team.id);
+        if (!entry || sitting) return;
+        entry.played++;
+        entry.total_points += alliance.score;
+        entry.high_score = Math.max(entry.high_score, alliance.score);
+        entry.sp += Math.min(alliance.score, opponentScore);
+        if (alliance.score > opponentScore) { entry.wins++; entry.wp += 2; }
+        else if (alliance.score < opponentScore) { entry.losses++; }
+        else { entry.ties++; entry.wp += 1; }
+      });
+    }));
+
+  return Array.from(stats.values())
+    .sort((a, b) => b.wp - a.wp || b.ap - a.ap || b.sp - a.sp || b.high_score - a.high_score)
+    .map(({ played, ...ranking }, index) => ({
+      ...ranking,
+      rank: index + 1,
+      average_points: played > 0 ? Math.round((ranking.total_points / played) * 100) / 100 : 0,
+    }));
+};
+
+// =============================================================================
+// FILTERING AND PAGINATION
+// =============================================================================
+
+const hasTeam = (item, teamId) => {
+  if (item.alliances) return item.alliances.some(alliance => alliance.teams.some(entry => entry.team.id === teamId));
+  if (item.teamWinners) return item.teamWinners.some(winner => winner.team.id === teamId);
+  if (item.team) return item.team.id === teamId;
+  return item.id === teamId;
+};
+
+const teamEventIds = teamId =>
+  new Set(corpus.matches.filter(match => hasTeam(match, teamId)).map(match => match.event.id));
+
+// Query parameter -> accessor for the value it filters on
+const FILTERS = {
+  id: item => item.id,
+  sku: item => item.sku,
+  number: item => item.number,
+  grade: item => item.grade,
+  level: item => item.level,
+  round: item => item.round,
+  instance: item => item.instance,
+  matchnum: item => item.matchnum,
+  type: item => item.type,
+  rank: item => item.rank,
+  program: item => (item.program ? item.program.id : undefined),
+  season: item => (item.season ? item.season.id : undefined),
+  event: item => (item.event ? item.event.id : undefined),
+};
+
+const applyFilters = (items, query) => items.filter(item => {
+  for (const [param, accessor] of Object.entries(FILTERS)) {
+    const values = query.getAll(`${param}[]`).concat(query.getAll(param));
+    if (values.length === 0) continue;
+    const value = accessor(item);
+    if (value === undefined) continue;
+    if (!values.some(candidate => String(candidate).toUpperCase() === String(value).toUpperCase())) return false;
+  }
+  const teams = query.getAll('team[]').concat(query.getAll('team')).map(Number);
+  if (teams.length > 0 && !teams.some(teamId => hasTeam(item, teamId) || (item.sku && teamEventIds(teamId).has(item.id)))) {
+    return false;
+  }
+  return true;
+});
+
+const paginate = (items, url) => {
+  const perPage = Math.max(1, parseInt(url.searchParams.get('per_page') || `${DEFAULT_PER_PAGE}`, 10));
+  const lastPage = Math.max(1, Math.ceil(items.length / perPage));
+  const page = Math.min(Math.max(1, parseInt(url.searchParams.get('page') || '1', 10)), lastPage);
+  const offset = (page - 1) * perPage;
+  const data = items.slice(offset, offset + perPage);
+  const base = `http://${url.host}${url.pathname}`;
+  const pageUrl = target => `${base}?page=${target}`;
+
+  return {
+    meta: {
+      current_page: page,
+      first_page_url: pageUrl(1),
+      from: data.length > 0 ? offset + 1 : null,
+      last_page: lastPage,
+      last_page_url: pageUrl(lastPage),
+      next_page_url: page < lastPage ? pageUrl(page + 1) : null,
+      path: base,
+      per_page: perPage,
+      prev_page_url: page > 1 ? pageUrl(page - 1) : null,
+      to: data.length > 0 ? offset + data.length : null,
+      total: items.length,
+    },
+    data,
+  };
+};
+
+// =============================================================================
+// ROUTES
+// =============================================================================
+
+const eventTeams = eventId => {
+  const ids = new Set();
+  corpus.matches
+    .filter(match => match.event.id === eventId)
+    .forEach(match => match.alliances.forEach(alliance => alliance.teams.forEach(entry => ids.add(entry.team.id))));
+  return corpus.teams.filter(team => ids.has(team.id));
+};
+
+const visibleAwards = () => corpus.awards.filter(award => !options.live || eventComplete(award.event.id));
+
+// [pattern, handler returning a list (paginated) or a single object]
+const ROUTES = [
+  [/^\/programs$/, () => corpus.programs],
+  [/^\/programs\/(\d+)$/, ([id]) => ({ single: corpus.programs.find(program => program.id === id) })],
+  [/^\/seasons$/, () => corpus.seasons],
+  [/^\/seasons\/(\d+)$/, ([id]) => ({ single: corpus.seasons.find(season => season.id === id) })],
+  [/^\/seasons\/(\d+)\/events$/, ([id]) => corpus.events.map(liveEvent).filter(event => event.season.id === id)],
+  [/^\/events$/, () => corpus.events.map(liveEvent)],
+  [/^\/events\/(\d+)$/, ([id]) => ({ single: corpus.events.map(liveEvent).find(event => event.id === id) })],
+  [/^\/events\/(\d+)\/teams$/, ([id]) => eventTeams(id)],
+  [/^\/events\/(\d+)\/skills$/, ([id]) => corpus.skills.filter(skill => skill.event.id === id)],
+  [/^\/events\/(\d+)\/awards$/, ([id]) => visibleAwards().filter(award => award.event.id === id)],
+  [/^\/events\/(\d+)\/divisions\/(\d+)\/matches$/, ([id, division]) =>
+    getMatches().filter(match => match.event.id === id && match.division.id === division)],
+  [/^\/events\/(\d+)\/divisions\/(\d+)\/rankings$/, ([id, division]) => computeRankings(id, division)],
+  [/^\/events\/(\d+)\/divisions\/(\d+)\/finalistRankings$/, () => []],
+  [/^\/teams$/, () => corpus.teams],
+  [/^\/teams\/(\d+)$/, ([id]) => ({ single: corpus.teams.find(team => team.id === id) })],
+  [/^\/teams\/(\d+)\/events$/, ([id]) => corpus.events.map(liveEvent).filter(event => teamEventIds(id).has(event.id))],
+  [/^\/teams\/(\d+)\/matches$/, ([id]) => getMatches().filter(match => hasTeam(match, id))],
+  [/^\/teams\/(\d+)\/rankings$/, ([id]) => corpus.events
+    .flatMap(event => event.divisions.flatMap(division => computeRankings(event.id, division.id)))
+    .filter(ranking => ranking.team.id === id)],
+  [/^\/teams\/(\d+)\/skills$/, ([id]) => corpus.skills.filter(skill => skill.team.id === id)],
+  [/^\/teams\/(\d+)\/awards$/, ([id]) => visibleAwards().filter(award => hasTeam(award, id))],
+];
+
+// =============================================================================
+// SERVER
+// =============================================================================
+
+let windowStart = Date.now();
+let windowCount = 0;
+
+const isRateLimited = () => {
+  if (!options.rateLimit) return false;
+  if (Date.now() - windowStart >= 60 * 1000) {
+    windowStart = Date.now();
+    windowCount = 0;
+  }
+  windowCount++;
+  return windowCount > options.rateLimit;
+};
+
+const send = (res, status, body, headers = {}) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Authorization, Content-Type',
+    ...headers,
+  });
+  res.end(JSON.stringify(body));
+};
+
+const handle = (req, res) => {
+  const url = new URL(req.url, `http://${req.headers.host || 'localhost'}`);
+  const route = url.pathname.replace(/^\/api\/v2/, '').replace(/\/+$/, '') || '/';
+
+  if (req.method === 'OPTIONS') {
+    return send(res, 204, {});
+  }
+  if (req.method !== 'GET') {
+    return send(res, 405, { code: 405, message: 'Method not allowed' });
+  }
+  if (isRateLimited()) {
+    const retryAfter = Math.ceil((windowStart + 60 * 1000 - Date.now()) / 1000);
+    return send(res, 429, { code: 429, message: 'Too Many Requests' }, { 'Retry-After': String(retryAfter) });
+  }
+
+  for (const [pattern, handler] of ROUTES) {
+    const match = route.match(pattern);
+    if (!match) continue;
+
+    const result = handler(match.slice(1).map(Number));
+    if (Array.isArray(result)) {
+      return send(res, 200, paginate(applyFilters(result, url.searchParams), url));
+    }
+    if (result.single) {
+      return send(res, 200, result.single);
+    }
+    return send(res, 404, { code: 404, message: 'Not found' });
+  }
+
+  return send(res, 404, { code: 404, message: `No mock route for ${url.pathname}` });
+};
+
+http
+  .createServer((req, res) => {
+    const respond = () => {
+      try {
+        handle(req, res);
+      } catch (error) {
+        console.error('Mock server error:', error);
+        send(res, 500, { code: 500, message: String(error) });
+      }
+      console.log(`${new Date().toISOString()} ${req.method} ${req.url} -> ${res.statusCode}`);
+    };
+    if (options.latency > 0) {
+      setTimeout(respond, options.latency);
+    } else {
+      respond();
+    }
+  })
+  .listen(options.port, () => {
+    console.log(`Mock RobotEvents server listening on http://localhost:${options.port}`);
+    console.log(`Serving ${corpus.events.length} event(s), ${corpus.teams.length} teams, ${corpus.matches.length} matches`);
+    if (options.live) console.log('Live replay enabled - matches will be scored over time');
+    if (options.rateLimit) console.log(`Rate limiting to ${options.rateLimit} requests per minute`);
+  });
@@ -0,0 +1,231 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  Switch,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSettings } from '../contexts/SettingsContext';
+import { BackupSectionId, BackupSectionInfo } from '../utils/appBackup';
+
+interface BackupRestoreModalProps {
+  visible: boolean;
+  mode: 'backup' | 'restore';
+  sections: (BackupSectionInfo & { summary?: string })[];
+  createdAt?: string; // When the backup being restored was made
+  isWorking?: boolean;
+  onClose: () => void;
+  onConfirm: (sectionIds: BackupSectionId[]) => void;
+}
+
+const BackupRestoreModal: React.FC<BackupRestoreModalProps> = ({
+  visible,
+  mode,
+  sections,
+  createdAt,
+  isWorking = false,
+  onClose,
+  onConfirm,
+}) => {
+  const settings = useSettings();
+  const [selected, setSelected] = useState<Set<BackupSectionId>>(new Set());
+
+  // Everything starts selected each time the modal opens
+  useEffect(() => {
+    if (visible) {
+      setSelected(new Set(sections.map(section => section.id)));
+    }
+  }, [visible, sections]);
+
+  const toggleSection = (id: BackupSectionId) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const allSelected = selected.size === sections.length;
+  const toggleAll = () => {
+    setSelected(allSelected ? new Set() : new Set(sections.map(section => section.id)));
+  };
+
+  const handleConfirm = () => {
+    if (selected.size === 0 || isWorking) return;
+    onConfirm(sections.filter(section => selected.has(section.id)).map(section => section.id));
+  };
+
+  const isBackup = mode === 'backup';
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={false}
+      onRequestClose={onClose}
+    >
+      <View style={[styles.container, { backgroundColor: settings.backgroundColor }]}>
+        {/* Header */}
+        <View style={[styles.header, { backgroundColor: settings.topBarColor, borderBottomColor: settings.borderColor }]}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton} disabled={isWorking}>
+            <Ionicons name="close" size={28} color={settings.topBarContentColor} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: settings.topBarContentColor }]}>
+            {isBackup ? 'Back Up Data' : 'Restore Backup'}
+          </Text>
+          <TouchableOpacity
+            onPress={handleConfirm}
+            style={[styles.headerButton, styles.headerButtonRight]}
+            disabled={selected.size === 0 || isWorking}
+          >
+            {isWorking ? (
+              <ActivityIndicator color={settings.topBarContentColor} />
+            ) : (
+              <Text style={[
+                styles.headerButtonText,
+                { color: settings.topBarContentColor, opacity: selected.size === 0 ? 0.5 : 1 },
+              ]}>
+                {isBackup ? 'Share' : 'Restore'}
+              </Text>
+            )}
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+          <Text style={[styles.intro, { color: settings.secondaryTextColor }]}>
+            {isBackup
+              ? 'Choose what to include. Open the backup file on your new device from Settings → Restore From Backup.'
+              : `Backup from ${createdAt ? new Date(createdAt).toLocaleString() : 'an unknown date'}. Restored items replace what is on this device.`}
+          </Text>
+
+          <TouchableOpacity style={styles.selectAllRow} onPress={toggleAll}>
+            <Text style={[styles.selectAllText, { color: settings.buttonColor }]}>
+              {allSelected ? 'Deselect All' : 'Select All'}
+            </Text>
+          </TouchableOpacity>
+
+          {sections.map(section => (
+            <TouchableOpacity
+              key={section.id}
+              style={[styles.sectionRow, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor }]}
+              onPress={() => toggleSection(section.id)}
+              activeOpacity={0.7}
+            >
+              <View style={styles.sectionTextContainer}>
+                <Text style={[styles.sectionLabel, { color: settings.textColor }]}>{section.label}</Text>
+                {section.summary && (
+                  <Text style={[styles.sectionSummary, { color: settings.buttonColor }]}>{section.summary}</Text>
+                )}
+                <Text style={[styles.sectionDescription, { color: settings.secondaryTextColor }]}>{section.description}</Text>
+              </View>
+              <Switch
+                value={selected.has(section.id)}
+                onValueChange={() => toggleSection(section.id)}
+                trackColor={{ false: settings.switchTrackColorOff, true: settings.buttonColor }}
+                thumbColor={selected.has(section.id) ? settings.switchThumbColorOn : settings.switchThumbColorOff}
+              />
+            </TouchableOpacity>
+          ))}
+
+          {!isBackup && (
+            <Text style={[styles.footnote, { color: settings.secondaryTextColor }]}>
+              The app reloads after restoring so every screen picks up the restored data.
+            </Text>
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+  },
+  headerButton: {
+    padding: 4,
+    minWidth: 60,
+  },
+  headerButtonRight: {
+    alignItems: 'flex-end',
+  },
+  headerButtonText: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  selectAllRow: {
+    alignSelf: 'flex-end',
+    paddingVertical: 12,
+  },
+  selectAllText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  sectionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    borderWidth: 1,
+    marginBottom: 10,
+  },
+  sectionTextContainer: {
+    flex: 1,
+    marginRight: 12,
+  },
+  sectionLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  sectionSummary: {
+    fontSize: 13,
+    fontWeight: '500',
+    marginTop: 2,
+  },
+  sectionDescription: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  footnote: {
+    fontSize: 13,
+    marginTop: 8,
+    textAlign: 'center',
+  },
+});
+
+export default BackupRestoreModal;
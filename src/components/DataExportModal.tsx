@@ -11,6 +11,7 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useSettings } from '../contexts/SettingsContext';
+import { ExportFormat } from '../utils/exportFormats';
 
 interface ExportField {
   key: string;
@@ -18,14 +19,17 @@ interface ExportField {
   category: 'info' | 'performance' | 'skills' | 'history';
 }
 
+export type CalendarExportScope = 'event' | 'favoriteEvents' | 'favoriteTeamMatches';
+
 interface DataExportModalProps {
   visible: boolean;
   onClose: () => void;
-  onExport: (selectedFields: { [key: string]: boolean }, exportScope: 'event' | 'season' | 'season-by-event', eventAwardsScope?: 'event' | 'season') => void;
+  onExport: (selectedFields: { [key: string]: boolean }, exportScope: 'event' | 'season' | 'season-by-event', eventAwardsScope: 'event' | 'season', format: ExportFormat) => void;
+  onExportCalendar?: (scope: CalendarExportScope) => void;
   eventName: string;
   seasonName?: string;
   isExporting?: boolean;
-  exportProgress?: { current: number; total: number; startTime?: number };
+  exportProgress?: { current: number; total: number; startTime?: number; stage?: string };
 }
 
 const EXPORTABLE_FIELDS: ExportField[] = [
@@ -64,10 +68,39 @@ const EXPORTABLE_FIELDS: ExportField[] = [
   { key: 'Award Details', label: 'Award Names & Events', category: 'history' },
 ];
 
+const FORMAT_OPTIONS: { format: ExportFormat; icon: string; label: string; description: string }[] = [
+  { format: 'csv', icon: 'document-text-outline', label: 'CSV', description: 'Plain spreadsheet rows' },
+  { format: 'xlsx', icon: 'grid-outline', label: 'Excel', description: 'One sheet per division' },
+  { format: 'pdf', icon: 'document-outline', label: 'PDF', description: 'Scouting report with rankings, skills, awards and notes' },
+  { format: 'json', icon: 'code-slash-outline', label: 'JSON', description: 'Raw values for other tools' },
+];
+
+const CALENDAR_OPTIONS: { scope: CalendarExportScope; icon: string; title: string; description: (eventName: string) => string }[] = [
+  {
+    scope: 'event',
+    icon: 'calendar-outline',
+    title: 'Event Dates',
+    description: eventName => `Every day of ${eventName}, including league sessions`,
+  },
+  {
+    scope: 'favoriteEvents',
+    icon: 'heart-outline',
+    title: 'Favorite Events',
+    description: () => 'Every day of each favorited event',
+  },
+  {
+    scope: 'favoriteTeamMatches',
+    icon: 'time-outline',
+    title: 'Favorite Teams\' Matches',
+    description: eventName => `Match schedule for your favorite teams at ${eventName}`,
+  },
+];
+
 const DataExportModal: React.FC<DataExportModalProps> = ({
   visible,
   onClose,
   onExport,
+  onExportCalendar,
   eventName,
   seasonName,
   isExporting = false,
@@ -86,10 +119,11 @@ const DataExportModal: React.FC<DataExportModalProps> = ({
 
   const [exportScope, setExportScope] = useState<'event' | 'season' | 'season-by-event'>('event');
   const [eventAwardsScope, setEventAwardsScope] = useState<'event' | 'season'>('event');
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
 
   // Calculate estimated time remaining
   const getEstimatedTimeRemaining = (): string => {
-    if (!exportProgress || !exportProgress.startTime || exportProgress.current === 0) {
+    if (!exportProgress || !exportProgress.startTime || exportProgress.current === 0 || exportProgress.stage) {
       return 'Calculating...';
     }
 
@@ -155,7 +189,7 @@ const DataExportModal: React.FC<DataExportModalProps> = ({
       'This export will make API calls for each team and may take a few minutes to complete. Please do not leave this screen until the export finishes.\n\nAre you sure you want to continue?',
       [
         { text: 'Cancel', style: 'cancel' },
-        { text: 'Continue', onPress: () => onExport(selectedFields, exportScope, eventAwardsScope) },
+        { text: 'Continue', onPress: () => onExport(selectedFields, exportScope, eventAwardsScope, exportFormat) },
       ]
     );
   };
@@ -283,7 +317,9 @@ const DataExportModal: React.FC<DataExportModalProps> = ({
               </Text>
 
               <Text style={[styles.progressSubtitle, { color: settings.secondaryTextColor }]}>
-                Processing team {exportProgress.current} of {exportProgress.total}
+                {exportProgress.stage
+                  ? `${exportProgress.stage} (page ${exportProgress.current} of ${exportProgress.total})`
+                  : `Processing team ${exportProgress.current} of ${exportProgress.total}`}
               </Text>
 
               {/* Progress Bar */}
@@ -434,6 +470,42 @@ const DataExportModal: React.FC<DataExportModalProps> = ({
             )}
           </View>
 
+          {/* File Format */}
+          <View style={styles.sectionContainer}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="document-attach" size={20} color={settings.buttonColor} style={{ marginRight: 8 }} />
+              <Text style={[styles.sectionTitle, { color: settings.textColor }]}>Format</Text>
+            </View>
+            <Text style={[styles.sectionSubtitle, { color: settings.secondaryTextColor }]}>
+              {FORMAT_OPTIONS.find(option => option.format === exportFormat)?.description}
+            </Text>
+
+            <View style={styles.formatRow}>
+              {FORMAT_OPTIONS.map(option => {
+                const isSelected = exportFormat === option.format;
+                return (
+                  <TouchableOpacity
+                    key={option.format}
+                    style={[
+                      styles.formatOption,
+                      {
+                        backgroundColor: isSelected ? `${settings.buttonColor}15` : settings.cardBackgroundColor,
+                        borderColor: isSelected ? settings.buttonColor : settings.borderColor,
+                      }
+                    ]}
+                    onPress={() => setExportFormat(option.format)}
+                    activeOpacity={0.7}
+                  >
+                    <Ionicons name={option.icon as any} size={20} color={isSelected ? settings.buttonColor : settings.iconColor} />
+                    <Text style={[styles.formatLabel, { color: isSelected ? settings.buttonColor : settings.textColor }]}>
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
           {/* Awards Scope for Single Event */}
           {exportScope === 'event' && seasonName && (selectedFields['Total Awards'] || selectedFields['Award Details']) && (
             <View style={styles.sectionContainer}>
@@ -515,6 +587,49 @@ const DataExportModal: React.FC<DataExportModalProps> = ({
             </View>
           )}
 
+          {/* Calendar Export */}
+          {onExportCalendar && (
+            <View style={styles.sectionContainer}>
+              <View style={styles.sectionHeader}>
+                <Ionicons name="calendar-number" size={20} color={settings.buttonColor} style={{ marginRight: 8 }} />
+                <Text style={[styles.sectionTitle, { color: settings.textColor }]}>Add to Calendar</Text>
+              </View>
+              <Text style={[styles.sectionSubtitle, { color: settings.secondaryTextColor }]}>
+                Export an .ics file in the event's time zone
+              </Text>
+
+              {CALENDAR_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option.scope}
+                  style={[
+                    styles.scopeOption,
+                    {
+                      backgroundColor: settings.cardBackgroundColor,
+                      borderColor: settings.borderColor,
+                      shadowColor: settings.colorScheme === 'dark' ? '#FFFFFF' : '#000000',
+                    }
+                  ]}
+                  onPress={() => onExportCalendar(option.scope)}
+                  disabled={isExporting}
+                  activeOpacity={0.7}
+                >
+                  <View style={styles.scopeOptionContent}>
+                    <Ionicons name={option.icon as any} size={22} color={settings.buttonColor} />
+                    <View style={styles.scopeOptionText}>
+                      <Text style={[styles.scopeOptionTitle, { color: settings.textColor }]}>
+                        {option.title}
+                      </Text>
+                      <Text style={[styles.scopeOptionDescription, { color: settings.secondaryTextColor }]} numberOfLines={2}>
+                        {option.description(eventName)}
+                      </Text>
+                    </View>
+                    <Ionicons name="share-outline" size={20} color={settings.secondaryTextColor} />
+                  </View>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
           {/* Quick Actions */}
           <View style={styles.quickActions}>
             <TouchableOpacity
@@ -658,6 +773,22 @@ const styles = StyleSheet.create({
   scopeOptionDescription: {
     fontSize: 13,
   },
+  formatRow: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  formatOption: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 2,
+  },
+  formatLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 4,
+  },
   quickActions: {
     flexDirection: 'row',
     paddingHorizontal: 16,
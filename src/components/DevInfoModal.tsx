@@ -43,6 +43,7 @@ const DevInfoModal: React.FC<DevInfoModalProps> = ({ visible, onClose }) => {
   const [loading, setLoading] = useState(false);
   const [programSeasons, setProgramSeasons] = useState<ProgramSeasons>({});
   const [allPrograms, setAllPrograms] = useState<string[]>([]);
+  const [apiUsageStats, setApiUsageStats] = useState(() => robotEventsAPI.getApiUsageStats());
 
   useEffect(() => {
     if (visible) {
@@ -50,6 +51,16 @@ const DevInfoModal: React.FC<DevInfoModalProps> = ({ visible, onClose }) => {
     }
   }, [visible]);
 
+  // Poll API usage while the modal is open so queue activity is visible
+  useEffect(() => {
+    if (!visible) return;
+    setApiUsageStats(robotEventsAPI.getApiUsageStats());
+    const interval = setInterval(() => {
+      setApiUsageStats(robotEventsAPI.getApiUsageStats());
+    }, 1000);
+    return () => clearInterval(interval);
+  }, [visible]);
+
   const fetchAllProgramsAndSeasons = async () => {
     setLoading(true);
     try {
@@ -224,6 +235,24 @@ const DevInfoModal: React.FC<DevInfoModalProps> = ({ visible, onClose }) => {
               );
             })()}
 
+            {/* API Usage & Request Queue */}
+            <Text style={[styles.sectionTitle, { color: settings.textColor }]}>
+              API Usage
+            </Text>
+            {renderInfoRow('General Keys', `${apiUsageStats.general.totalKeys - apiUsageStats.general.failedKeys}/${apiUsageStats.general.totalKeys} active (key #${apiUsageStats.general.currentKeyIndex})`)}
+            {renderInfoRow('General Key Calls', apiUsageStats.general.usageCount.toString())}
+            {renderInfoRow('Team Browser Keys', `${apiUsageStats.teamBrowser.totalKeys - apiUsageStats.teamBrowser.failedKeys}/${apiUsageStats.teamBrowser.totalKeys} active`)}
+            {renderInfoRow('Team Browser Key Calls', apiUsageStats.teamBrowser.usageCount.toString())}
+            {renderInfoRow('Active Requests', `${apiUsageStats.queue.active}/${apiUsageStats.queue.maxConcurrent}`)}
+            {renderInfoRow('Queued (Foreground)', apiUsageStats.queue.queuedForeground.toString())}
+            {renderInfoRow('Queued (Background)', apiUsageStats.queue.queuedBackground.toString())}
+            {renderInfoRow('Completed / Failed', `${apiUsageStats.queue.completed} / ${apiUsageStats.queue.failed}`)}
+            {renderInfoRow('Coalesced Duplicates', apiUsageStats.queue.coalesced.toString())}
+            {renderInfoRow('Rate Limited (429)', apiUsageStats.queue.rateLimited.toString())}
+            {renderInfoRow('Backoff', apiUsageStats.queue.backoffUntil
+              ? `${Math.ceil((apiUsageStats.queue.backoffUntil - Date.now()) / 1000)}s remaining`
+              : 'None')}
+
             {/* All Programs Information */}
             <Text style={[styles.sectionTitle, { color: settings.textColor }]}>
               All Programs ({allPrograms.length})
@@ -408,6 +437,8 @@ const DevInfoModal: React.FC<DevInfoModalProps> = ({ visible, onClose }) => {
               Feature Flags
             </Text>
             {renderInfoRow('Live Event Simulation', settings.devLiveEventSimulation ? 'Enabled' : 'Disabled')}
+            {renderInfoRow('Fixture Data', settings.devFixtureMode ? 'Enabled' : 'Disabled')}
+            {renderInfoRow('Mock Server', settings.devMockServerUrl || 'None')}
             {renderInfoRow('All Around Eligibility', settings.allAroundEligibilityEnabled ? 'Enabled' : 'Disabled')}
             {renderInfoRow('Testing Eligibility', settings.testingEligibilityEnabled ? 'Enabled' : 'Disabled')}
             {renderInfoRow('Eligibility Warning Dismissed', settings.eligibilityWarningDismissed ? 'Yes' : 'No')}
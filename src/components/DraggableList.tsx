@@ -0,0 +1,171 @@
+/**
+ * Draggable List
+ *
+ * Fixed-height rows that can be reordered by dragging a handle. Built on
+ * PanResponder so it needs no extra native dependencies and works on web.
+ * Render it inside a ScrollView and disable scrolling while onDragStateChange
+ * reports a drag, otherwise the scroll view steals the gesture.
+ */
+
+import React, { useRef, useState } from 'react';
+import { View, Animated, PanResponder, GestureResponderHandlers, StyleSheet } from 'react-native';
+
+interface DraggableRowProps {
+  index: number;
+  height: number;
+  offset: number;
+  isDragging: boolean;
+  dragY: Animated.Value;
+  onDragStart: (index: number) => void;
+  onDragMove: (dy: number) => void;
+  onDragEnd: (dy: number) => void;
+  children: (handleProps: GestureResponderHandlers) => React.ReactNode;
+}
+
+const DraggableRow: React.FC<DraggableRowProps> = ({
+  index,
+  height,
+  offset,
+  isDragging,
+  dragY,
+  onDragStart,
+  onDragMove,
+  onDragEnd,
+  children,
+}) => {
+  // PanResponder is created once, so it reads the latest props through a ref
+  const callbacks = useRef({ index, onDragStart, onDragMove, onDragEnd });
+  callbacks.current = { index, onDragStart, onDragMove, onDragEnd };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: () => callbacks.current.onDragStart(callbacks.current.index),
+      onPanResponderMove: (_, gesture) => callbacks.current.onDragMove(gesture.dy),
+      onPanResponderRelease: (_, gesture) => callbacks.current.onDragEnd(gesture.dy),
+      onPanResponderTerminate: (_, gesture) => callbacks.current.onDragEnd(gesture.dy),
+    })
+  ).current;
+
+  return (
+    <Animated.View
+      style={[
+        { height },
+        isDragging
+          ? [styles.draggingRow, { transform: [{ translateY: dragY }] }]
+          : { transform: [{ translateY: offset }] },
+      ]}
+    >
+      {children(panResponder.panHandlers)}
+    </Animated.View>
+  );
+};
+
+interface DraggableListProps<T> {
+  items: T[];
+  itemHeight: number;
+  keyExtractor: (item: T) => string;
+  renderItem: (item: T, index: number, handleProps: GestureResponderHandlers, isDragging: boolean) => React.ReactNode;
+  onReorder: (items: T[]) => void;
+  onDragStateChange?: (dragging: boolean) => void;
+}
+
+function DraggableList<T>({
+  items,
+  itemHeight,
+  keyExtractor,
+  renderItem,
+  onReorder,
+  onDragStateChange,
+}: DraggableListProps<T>) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const dragIndexRef = useRef<number | null>(null);
+  const hoverIndexRef = useRef<number | null>(null);
+  const dragY = useRef(new Animated.Value(0)).current;
+
+  const getTargetIndex = (dy: number): number => {
+    const start = dragIndexRef.current ?? 0;
+    return Math.min(Math.max(start + Math.round(dy / itemHeight), 0), items.length - 1);
+  };
+
+  const handleDragStart = (index: number) => {
+    dragIndexRef.current = index;
+    hoverIndexRef.current = index;
+    dragY.setValue(0);
+    setDragIndex(index);
+    setHoverIndex(index);
+    onDragStateChange?.(true);
+  };
+
+  const handleDragMove = (dy: number) => {
+    dragY.setValue(dy);
+    const target = getTargetIndex(dy);
+    if (target !== hoverIndexRef.current) {
+      hoverIndexRef.current = target;
+      setHoverIndex(target);
+    }
+  };
+
+  const handleDragEnd = (dy: number) => {
+    const from = dragIndexRef.current;
+    const to = getTargetIndex(dy);
+
+    dragIndexRef.current = null;
+    hoverIndexRef.current = null;
+    dragY.setValue(0);
+    setDragIndex(null);
+    setHoverIndex(null);
+    onDragStateChange?.(false);
+
+    if (from !== null && from !== to) {
+      const reordered = [...items];
+      const [moved] = reordered.splice(from, 1);
+      reordered.splice(to, 0, moved);
+      onReorder(reordered);
+    }
+  };
+
+  // Rows between the dragged row and its hover position slide over to make room
+  const getOffset = (index: number): number => {
+    if (dragIndex === null || hoverIndex === null || index === dragIndex) return 0;
+    if (dragIndex < hoverIndex && index > dragIndex && index <= hoverIndex) return -itemHeight;
+    if (hoverIndex < dragIndex && index >= hoverIndex && index < dragIndex) return itemHeight;
+    return 0;
+  };
+
+  return (
+    <View>
+      {items.map((item, index) => (
+        <DraggableRow
+          key={keyExtractor(item)}
+          index={index}
+          height={itemHeight}
+          offset={getOffset(index)}
+          isDragging={index === dragIndex}
+          dragY={dragY}
+          onDragStart={handleDragStart}
+          onDragMove={handleDragMove}
+          onDragEnd={handleDragEnd}
+        >
+          {handleProps => renderItem(item, index, handleProps, index === dragIndex)}
+        </DraggableRow>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  draggingRow: {
+    zIndex: 10,
+    elevation: 6,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.2,
+    shadowRadius: 6,
+  },
+});
+
+export default DraggableList;
@@ -0,0 +1,273 @@
+/**
+ * Eligibility Simulator
+ *
+ * "What-if" panel for a single team's award eligibility. Users enter a hypothetical
+ * programming or driver skills score, or a projected final qualifier rank, and see
+ * the recalculated cutoffs, whether the team would become eligible, and the minimum
+ * skills score needed to cross each threshold.
+ */
+
+import React, { useMemo, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSettings } from '../contexts/SettingsContext';
+import { TeamSkills } from '../utils/eligibility/types';
+import { getDynamicLabel } from '../utils/eligibility/common';
+import {
+  EligibilitySimulationInput,
+  EligibilityScenario,
+  simulateEligibility,
+} from '../utils/eligibility/whatIfSimulator';
+
+interface EligibilitySimulatorProps {
+  teamSkills: TeamSkills;
+  input: EligibilitySimulationInput;
+}
+
+const parseScenarioValue = (text: string): number | undefined => {
+  const value = parseInt(text, 10);
+  return isNaN(value) || value < 0 ? undefined : value;
+};
+
+const formatRank = (rank: number): string => (rank < 0 ? 'N/A' : `#${rank}`);
+
+const EligibilitySimulator: React.FC<EligibilitySimulatorProps> = ({ teamSkills, input }) => {
+  const settings = useSettings();
+  const [programmingText, setProgrammingText] = useState('');
+  const [driverText, setDriverText] = useState('');
+  const [qualifierRankText, setQualifierRankText] = useState('');
+
+  const rules = input.programRules;
+  const progLabel = getDynamicLabel(rules, 'Programming');
+  const driverLabel = getDynamicLabel(rules, 'Driver');
+
+  const scenario: EligibilityScenario = {
+    teamId: teamSkills.team.id,
+    programmingScore: parseScenarioValue(programmingText),
+    driverScore: parseScenarioValue(driverText),
+    qualifierRank: parseScenarioValue(qualifierRankText) || undefined,
+  };
+  const hasScenario = scenario.programmingScore !== undefined ||
+    scenario.driverScore !== undefined ||
+    scenario.qualifierRank !== undefined;
+
+  const result = useMemo(
+    () => simulateEligibility(input, scenario),
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+    [input, scenario.teamId, scenario.programmingScore, scenario.driverScore, scenario.qualifierRank]
+  );
+
+  const resetScenario = () => {
+    setProgrammingText('');
+    setDriverText('');
+    setQualifierRankText('');
+  };
+
+  const renderInput = (label: string, value: string, onChange: (text: string) => void, placeholder: string) => (
+    <View style={styles.inputRow}>
+      <Text style={[styles.inputLabel, { color: settings.secondaryTextColor }]}>{label}</Text>
+      <TextInput
+        style={[
+          styles.input,
+          { color: settings.textColor, borderColor: settings.borderColor, backgroundColor: settings.backgroundColor },
+        ]}
+        value={value}
+        onChangeText={text => onChange(text.replace(/[^0-9]/g, ''))}
+        placeholder={placeholder}
+        placeholderTextColor={settings.secondaryTextColor}
+        keyboardType="numeric"
+        maxLength={4}
+      />
+    </View>
+  );
+
+  const renderComparisonRow = (label: string, current: string, simulated: string) => (
+    <View style={styles.comparisonRow} key={label}>
+      <Text style={[styles.comparisonLabel, { color: settings.secondaryTextColor }]}>{label}</Text>
+      <Text style={[styles.comparisonValue, { color: settings.textColor }]}>{current}</Text>
+      <Ionicons name="arrow-forward" size={14} color={settings.iconColor} />
+      <Text style={[
+        styles.comparisonValue,
+        { color: current !== simulated ? settings.buttonColor : settings.textColor },
+      ]}>
+        {simulated}
+      </Text>
+    </View>
+  );
+
+  const { baseline, simulated, thresholds } = result;
+  const current = baseline || teamSkills;
+  const formatCutoff = (cutoff: number) => (cutoff > 0 ? `#${cutoff}` : 'N/A');
+
+  return (
+    <View style={[styles.container, { backgroundColor: settings.cardBackgroundColor }]}>
+      <View style={styles.header}>
+        <Text style={[styles.title, { color: settings.buttonColor }]}>What-If Simulator</Text>
+        {hasScenario && (
+          <TouchableOpacity onPress={resetScenario} style={styles.resetButton}>
+            <Ionicons name="refresh" size={16} color={settings.iconColor} />
+            <Text style={[styles.resetText, { color: settings.secondaryTextColor }]}>Reset</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {renderInput(`${progLabel} Score`, programmingText, setProgrammingText, `${current.programmingScore}`)}
+      {renderInput(`${driverLabel} Score`, driverText, setDriverText, `${current.driverScore}`)}
+      {renderInput('Final Qualifier Rank', qualifierRankText, setQualifierRankText, formatRank(current.qualifierRank).replace('#', ''))}
+
+      {simulated ? (
+        <>
+          <View style={[styles.divider, { backgroundColor: settings.borderColor }]} />
+          {renderComparisonRow('Qualifier Rank', formatRank(current.qualifierRank), formatRank(simulated.qualifierRank))}
+          {renderComparisonRow('Qualifier Cutoff', formatCutoff(current.qualifierRankCutoff), formatCutoff(simulated.qualifierRankCutoff))}
+          {renderComparisonRow('Skills Rank', formatRank(current.skillsRank), formatRank(simulated.skillsRank))}
+          {renderComparisonRow('Skills Cutoff', formatCutoff(current.skillsRankCutoff), formatCutoff(simulated.skillsRankCutoff))}
+          {rules.requiresRankInPositiveProgrammingSkills && renderComparisonRow(
+            `${progLabel}-only Rank`,
+            formatRank(current.programmingOnlyRank),
+            formatRank(simulated.programmingOnlyRank)
+          )}
+
+          <View style={[
+            styles.outcome,
+            { backgroundColor: (simulated.eligible ? settings.successColor : settings.errorColor) + '20' },
+          ]}>
+            <Ionicons
+              name={simulated.eligible ? 'checkmark-circle' : 'close-circle'}
+              size={20}
+              color={simulated.eligible ? settings.successColor : settings.errorColor}
+            />
+            <Text style={[styles.outcomeText, { color: simulated.eligible ? settings.successColor : settings.errorColor }]}>
+              {simulated.eligible
+                ? (current.eligible ? 'Still eligible' : 'Would become eligible')
+                : (current.eligible ? 'Would lose eligibility' : 'Still not eligible')}
+            </Text>
+          </View>
+
+          <Text style={[styles.subtitle, { color: settings.textColor }]}>Minimum Scores Needed</Text>
+          {thresholds.map((threshold, index) => (
+            <View style={styles.thresholdRow} key={`${threshold.criterion}-${threshold.skillType}-${index}`}>
+              <Ionicons
+                name={threshold.alreadyMet ? 'checkmark-circle' : 'ellipse-outline'}
+                size={16}
+                color={threshold.alreadyMet ? settings.successColor : settings.iconColor}
+              />
+              <Text style={[styles.thresholdLabel, { color: settings.secondaryTextColor }]}>{threshold.label}</Text>
+              <Text style={[styles.thresholdValue, { color: settings.textColor }]}>
+                {threshold.minimumScore === null ? 'Not reachable' : threshold.minimumScore}
+              </Text>
+            </View>
+          ))}
+        </>
+      ) : (
+        <Text style={[styles.unavailableText, { color: settings.secondaryTextColor }]}>
+          This team needs a qualifier ranking to simulate eligibility. Enter a projected rank above.
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  resetButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  resetText: {
+    fontSize: 14,
+    marginLeft: 4,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 8,
+  },
+  inputLabel: {
+    fontSize: 14,
+    flex: 1,
+  },
+  input: {
+    width: 90,
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 14,
+    textAlign: 'right',
+  },
+  divider: {
+    height: 1,
+    marginVertical: 12,
+  },
+  comparisonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  comparisonLabel: {
+    fontSize: 14,
+    flex: 1,
+  },
+  comparisonValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    minWidth: 44,
+    textAlign: 'center',
+  },
+  outcome: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 8,
+    padding: 10,
+    marginTop: 12,
+  },
+  outcomeText: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  subtitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  thresholdRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  thresholdLabel: {
+    fontSize: 13,
+    flex: 1,
+    marginLeft: 8,
+  },
+  thresholdValue: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  unavailableText: {
+    fontSize: 13,
+    marginTop: 12,
+    fontStyle: 'italic',
+  },
+});
+
+export default EligibilitySimulator;
@@ -33,6 +33,7 @@ import { Ionicons } from '@expo/vector-icons';
 import { useFocusEffect } from '@react-navigation/native';
 import { location as Location, storage } from '../utils/webCompatibility';
 import { robotEventsAPI } from '../services/apiRouter';
+import { fetchAll } from '../services/pagination';
 import { useSettings } from '../contexts/SettingsContext';
 import { useFavorites } from '../contexts/FavoritesContext';
 import { Event } from '../types';
@@ -428,32 +429,18 @@ const EventLookup: React.FC<EventLookupProps> = ({ navigation, viewMode = 'list'
       });
 
       // Load all events for the season by paginating through all pages
-      let allAPIEvents: any[] = [];
-      let currentPage = 1;
-      let hasMorePages = true;
-      const pageSize = 250; // Maximum page size for RobotEvents API
-
-      while (hasMorePages) {
-        logger.debug('Fetching events page', currentPage, '(page size:', pageSize, ')');
-
-        const eventsResponse = await robotEventsAPI.getEvents({
-          program: [programId],
-          season: [seasonId],
-          page: currentPage,
-          per_page: pageSize,
-        });
-
-        if (eventsResponse.data && eventsResponse.data.length > 0) {
-          allAPIEvents = allAPIEvents.concat(eventsResponse.data);
-          logger.debug('Page', currentPage, ': Got', eventsResponse.data.length, 'events. Total so far:', allAPIEvents.length);
-
-          // Check if we have more pages
-          hasMorePages = eventsResponse.data.length === pageSize;
-          currentPage++;
-        } else {
-          logger.debug('Page', currentPage, ': No more events found. Stopping pagination.');
-          hasMorePages = false;
+      const eventsResult = await fetchAll(
+        filters => robotEventsAPI.getEvents({ ...filters, program: [programId], season: [seasonId] }),
+        {},
+        {
+          onProgress: ({ page, fetched }) => {
+            logger.debug('Page', page, ': Total events so far:', fetched);
+          },
         }
+      );
+      let allAPIEvents: any[] = eventsResult.data;
+      if (!eventsResult.complete) {
+        logger.warn('Event pagination incomplete, showing', allAPIEvents.length, 'events fetched so far');
       }
 
       logger.debug('Events returned for', selectedProgram || 'Unknown', ':', allAPIEvents.length);
@@ -3,7 +3,7 @@
  *
  * Displays searchable, filterable game rules with favorites support.
  * Features:
- * - Search rules by text, Rule Content, Categories
+ * - Ranked, typo-tolerant search over rule codes, titles and rule text
  * - Heart/unheart favorite rules
  * - Filter by category or favorites only
  * - Expandable rule cards with full text
@@ -31,9 +31,14 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useSettings } from '../contexts/SettingsContext';
-import { GameManual, Rule, RuleGroup } from '../types/gameManual';
+import { GameManual, ManualChangelogEntry, QnAData, Rule, RuleChange, RuleGroup } from '../types/gameManual';
 import { gameManualService } from '../services/gameManualService';
+import { RuleSearchResult, getRuleSearchIndex, searchRuleIndex, splitHighlights } from '../utils/ruleSearch';
+import { groupQnAByRule } from '../utils/ruleQnA';
 import GameManualQuickReferenceSkeleton from './GameManualQuickReferenceSkeleton';
+import ManualChangelogModal, { formatManualVersion } from './ManualChangelogModal';
+import QnAEntryCard from './QnAEntryCard';
+import QnAListModal from './QnAListModal';
 import { pdfCacheService, PDFDownloadProgress } from '../services/pdfCacheService';
 import Pdf from 'react-native-pdf';
 
@@ -41,13 +46,15 @@ interface Props {
   navigation?: any;
   program: string;
   season: string;
+  focusRuleId?: string; // Rule to expand once the manual is loaded (e.g. opened from a referee log)
 }
 
 export interface GameManualQuickReferenceRef {
   refresh: () => Promise<void>;
+  showChangelog: () => void;
 }
 
-const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(({ navigation, program, season }, ref) => {
+const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(({ navigation, program, season, focusRuleId }, ref) => {
   const settings = useSettings();
   const { filterResetTrigger } = settings;
 
@@ -64,6 +71,11 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
   const [refreshing, setRefreshing] = useState(false);
   const [enlargedImage, setEnlargedImage] = useState<string | number | null>(null);
   const [ruleReferenceModal, setRuleReferenceModal] = useState<Rule | null>(null);
+  const [changelog, setChangelog] = useState<ManualChangelogEntry[]>([]);
+  const [changelogVisible, setChangelogVisible] = useState(false);
+  const [qna, setQnA] = useState<QnAData | null>(null);
+  const [qnaLoading, setQnALoading] = useState(false);
+  const [qnaListVisible, setQnAListVisible] = useState(false);
 
   // PDF download states
   const [downloadedPDFs, setDownloadedPDFs] = useState<Set<string>>(new Set());
@@ -157,6 +169,12 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
       if (manual) {
         const favIds = await gameManualService.getFavoriteRuleIds(manual.program, manual.season);
         setFavorites(favIds);
+        setChangelog(await gameManualService.getChangelog(manual.program, manual.season));
+
+        // Q&A loads separately so a slow fetch does not hold up the rules
+        loadQnA(manual.season, forceRefresh);
+      } else {
+        setQnA(null);
       }
     } catch (error) {
       logger.error('Error loading manual:', error);
@@ -166,14 +184,81 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
     }
   };
 
+  // Uses the loaded manual's season, which differs from the prop after a fallback
+  const loadQnA = async (manualSeason: string, forceRefresh: boolean = false) => {
+    setQnALoading(true);
+    try {
+      setQnA(await gameManualService.getQnA(program, manualSeason, forceRefresh));
+    } catch (error) {
+      logger.error('Error loading Q&A:', error);
+    } finally {
+      setQnALoading(false);
+    }
+  };
+
   const handleRefresh = async () => {
     setRefreshing(true);
     await loadManual(true);
   };
 
-  // Expose refresh function to parent via ref
+  const markChangelogViewed = () => {
+    if (!manual || !changelog[0] || changelog[0].viewed) return;
+    setChangelog(prev => prev.map(entry => ({ ...entry, viewed: true })));
+    gameManualService.markChangelogViewed(manual.program, manual.season);
+  };
+
+  const handleShowChangelog = () => {
+    setChangelogVisible(true);
+    markChangelogViewed();
+  };
+
+  // Rules changed by the most recent manual update get a badge on their card
+  const latestChanges = useMemo(() => {
+    const changes = new Map<string, RuleChange>();
+    changelog[0]?.changes.forEach(change => changes.set(change.ruleId, change));
+    return changes;
+  }, [changelog]);
+
+  const latestFavoriteChangeCount = useMemo(
+    () => favorites.filter(ruleId => latestChanges.has(ruleId)).length,
+    [favorites, latestChanges]
+  );
+
+  // Q&A entries by the rule code they reference
+  const qnaByRule = useMemo(() => groupQnAByRule(qna?.entries || []), [qna]);
+  const hasQnAEntries = !!qna && qna.entries.length > 0;
+
+  // Jump from a Q&A entry to the rule it references
+  const handleSelectQnARule = (ruleCode: string) => {
+    const allRules = manual?.ruleGroups.flatMap(g => g.rules) || [];
+    const baseRuleCode = ruleCode.replace(/[a-z]+>$/, '>');
+    const targetRule = allRules.find(r => r.rule === ruleCode) || allRules.find(r => r.rule === baseRuleCode);
+    if (!targetRule) return;
+
+    setQnAListVisible(false);
+    focusRule(targetRule);
+  };
+
+  // Narrow the list down to a single rule and expand it
+  const focusRule = (rule: Rule) => {
+    setFilterRuleGroup(null);
+    setShowFavoritesOnly(false);
+    setSearchQuery(rule.rule.replace(/[<>]/g, ''));
+    setExpandedRules(prev => new Set(prev).add(rule.id));
+  };
+
+  useEffect(() => {
+    if (!manual || !focusRuleId) return;
+    const targetRule = manual.ruleGroups.flatMap(g => g.rules).find(r => r.id === focusRuleId);
+    if (targetRule) {
+      focusRule(targetRule);
+    }
+  }, [manual, focusRuleId]);
+
+  // Expose refresh and changelog to parent via ref
   useImperativeHandle(ref, () => ({
     refresh: handleRefresh,
+    showChangelog: handleShowChangelog,
   }));
 
   // Helper function to get field diagram image based on program
@@ -203,7 +288,7 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
   };
 
   // Parse formatted text and render with styles
-  const renderFormattedText = (text: string, highlightQuery?: string) => {
+  const renderFormattedText = (text: string, highlightTerms?: string[]) => {
     if (!text) return null;
 
     const elements = [];
@@ -220,7 +305,7 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
         const textBefore = text.substring(lastIndex, match.index);
         elements.push(
           <View key={`text-${key++}`}>
-            {renderTextContent(textBefore, highlightQuery)}
+            {renderTextContent(textBefore, highlightTerms)}
           </View>
         );
       }
@@ -231,10 +316,10 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
         elements.push(renderTable(match[1], key++));
       } else if (match[2]) {
         // It's a callout
-        elements.push(renderCallout(match[2], key++, highlightQuery));
+        elements.push(renderCallout(match[2], key++, highlightTerms));
       } else if (match[3]) {
         // It's violation notes
-        elements.push(renderViolationNotes(match[3], key++, highlightQuery));
+        elements.push(renderViolationNotes(match[3], key++, highlightTerms));
       } else if (match[4]) {
         // It's an image
         const imageUrl = match[4];
@@ -261,7 +346,7 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
       const textAfter = text.substring(lastIndex);
       elements.push(
         <View key={`text-${key++}`}>
-          {renderTextContent(textAfter, highlightQuery)}
+          {renderTextContent(textAfter, highlightTerms)}
         </View>
       );
     }
@@ -270,7 +355,7 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
   };
 
   // Render text content with formatting markers
-  const renderTextContent = (text: string, highlightQuery?: string) => {
+  const renderTextContent = (text: string, highlightTerms?: string[]) => {
     if (!text || !text.trim()) return null;
 
     // Split text into lines - keep empty lines for spacing but track them
@@ -298,7 +383,7 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
       // Reset empty line counter
       consecutiveEmptyLines = 0;
 
-      const formattedParts = parseFormattedLine(line, highlightQuery);
+      const formattedParts = parseFormattedLine(line, highlightTerms);
 
       // Wrap in a Text component to maintain proper text flow
       // Nested Text components with onPress will still work as long as they're direct children
@@ -313,7 +398,7 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
   };
 
   // Helper function to convert rule references to clickable buttons
-  const parseRuleReferences = (text: string, formatStack: string[], partKey: number, highlightQuery?: string, useBlueLinks?: boolean, baseColor?: string) => {
+  const parseRuleReferences = (text: string, formatStack: string[], partKey: number, highlightTerms?: string[], useBlueLinks?: boolean, baseColor?: string) => {
     const parts = [];
     // Match rule references like <SC1>, <VUR11>, <R3d>, etc.
     // Pattern: < followed by uppercase letters, digits, and optional lowercase letters >
@@ -329,7 +414,7 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
       // Add text before the rule reference
       if (match.index > lastIndex) {
         const textBefore = text.substring(lastIndex, match.index);
-        parts.push(renderStyledText(textBefore, formatStack, null, localKey++, highlightQuery, baseColor));
+        parts.push(renderStyledText(textBefore, formatStack, null, localKey++, highlightTerms, baseColor));
       }
 
       // Add the rule reference as a clickable button-styled text
@@ -371,14 +456,14 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
     // Add remaining text
     if (lastIndex < text.length) {
       const remaining = text.substring(lastIndex);
-      parts.push(renderStyledText(remaining, formatStack, null, localKey++, highlightQuery, baseColor));
+      parts.push(renderStyledText(remaining, formatStack, null, localKey++, highlightTerms, baseColor));
     }
 
-    return parts.length > 0 ? parts : [renderStyledText(text, formatStack, null, partKey, highlightQuery, baseColor)];
+    return parts.length > 0 ? parts : [renderStyledText(text, formatStack, null, partKey, highlightTerms, baseColor)];
   };
 
   // Parse a single line of formatted text
-  const parseFormattedLine = (line: string, highlightQuery?: string, useBlueLinks?: boolean, baseColor?: string) => {
+  const parseFormattedLine = (line: string, highlightTerms?: string[], useBlueLinks?: boolean, baseColor?: string) => {
     const parts = [];
     let currentPos = 0;
     let partKey = 0;
@@ -446,7 +531,7 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
       // Add text before next special position
       if (nextPos > currentPos) {
         const textContent = line.substring(currentPos, nextPos);
-        const parsedParts = parseRuleReferences(textContent, formatStack, partKey, highlightQuery, useBlueLinks, baseColor);
+        const parsedParts = parseRuleReferences(textContent, formatStack, partKey, highlightTerms, useBlueLinks, baseColor);
         parts.push(...parsedParts);
         partKey += parsedParts.length;
       }
@@ -469,7 +554,7 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
   };
 
   // Render text with accumulated styles
-  const renderStyledText = (text: string, formatStack: string[], linkUrl: string | null, key: number, highlightQuery?: string, baseColor?: string) => {
+  const renderStyledText = (text: string, formatStack: string[], linkUrl: string | null, key: number, highlightTerms?: string[], baseColor?: string) => {
     if (!text) return null;
 
     const style: any = { color: baseColor || settings.textColor };
@@ -505,25 +590,17 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
       );
     }
 
-    // Handle highlighting if query is provided
-    if (highlightQuery && highlightQuery.trim()) {
-      const query = highlightQuery.toLowerCase();
-      const lowerText = text.toLowerCase();
-      const index = lowerText.indexOf(query);
-
-      if (index !== -1) {
-        // Split text into before, match, and after
-        const before = text.substring(0, index);
-        const match = text.substring(index, index + query.length);
-        const after = text.substring(index + query.length);
-
+    // Highlight the words that matched the search
+    if (highlightTerms && highlightTerms.length > 0) {
+      const segments = splitHighlights(text, highlightTerms);
+      if (segments.some(segment => segment.highlighted)) {
         return (
           <Text key={key} style={style}>
-            {before}
-            <Text style={[style, styles.highlightedText, { backgroundColor: settings.buttonColor, color: '#FFFFFF' }]}>
-              {match}
-            </Text>
-            {after}
+            {segments.map((segment, index) => segment.highlighted ? (
+              <Text key={index} style={[style, styles.highlightedText, { backgroundColor: settings.buttonColor, color: '#FFFFFF' }]}>
+                {segment.text}
+              </Text>
+            ) : segment.text)}
           </Text>
         );
       }
@@ -543,21 +620,21 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
   };
 
   // Render a callout box (grey info box)
-  const renderCallout = (calloutText: string, key: number, highlightQuery?: string) => {
+  const renderCallout = (calloutText: string, key: number, highlightTerms?: string[]) => {
     return (
       <View key={`callout-${key}`} style={[styles.calloutContainer, {
         backgroundColor: settings.colorScheme === 'dark' ? 'rgba(200, 200, 200, 0.15)' : 'rgba(206, 206, 206, 0.3)',
         borderColor: settings.borderColor
       }]}>
         <Text style={[styles.calloutText, { color: settings.textColor, fontStyle: 'italic' }]}>
-          {renderTextContent(calloutText, highlightQuery)}
+          {renderTextContent(calloutText, highlightTerms)}
         </Text>
       </View>
     );
   };
 
   // Render violation notes (red italic text with spacing and blue links)
-  const renderViolationNotes = (violationText: string, key: number, highlightQuery?: string) => {
+  const renderViolationNotes = (violationText: string, key: number, highlightTerms?: string[]) => {
     if (!violationText || !violationText.trim()) return null;
 
     const lines = violationText.split('\n');
@@ -572,7 +649,7 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
       }
 
       // Parse the line, replacing rule references with blue clickable text
-      const formattedParts = parseFormattedLineForViolationNotes(line, highlightQuery);
+      const formattedParts = parseFormattedLineForViolationNotes(line, highlightTerms);
 
       renderedLines.push(
         <Text key={`vn-line-${lineIdx}`} style={[styles.fullText, { color: settings.errorColor, fontStyle: 'italic' as const, marginBottom: 2 }]}>
@@ -589,9 +666,9 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
   };
 
   // Parse formatted line for violation notes (blue rule references and red text)
-  const parseFormattedLineForViolationNotes = (line: string, highlightQuery?: string) => {
+  const parseFormattedLineForViolationNotes = (line: string, highlightTerms?: string[]) => {
     // Use the existing parseFormattedLine logic but override rule ref color to blue and base text color to red
-    return parseFormattedLine(line, highlightQuery, true, settings.errorColor);
+    return parseFormattedLine(line, highlightTerms, true, settings.errorColor);
   };
 
   // Render a table from formatted table text
@@ -706,6 +783,9 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
     'VAIRM Rules',               // VAIRM - 17
   ];
 
+  // Ranked search results are shown as one list instead of by group
+  const SEARCH_RESULTS_GROUP = 'Search Results';
+
   // Get display name for rule group section titles
   const getGroupDisplayName = (groupName: string): string => {
     const nameMap: { [key: string]: string } = {
@@ -738,8 +818,8 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
     return category;
   };
 
-  // Get filtered rules
-  const filteredGroups = useMemo(() => {
+  // Rule groups for the selected program, including the built-in resource groups
+  const programGroups = useMemo(() => {
     if (!manual) return [];
 
     let groups = manual.ruleGroups;
@@ -766,76 +846,6 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
     }
     // VURC and VAIRC show all rules - no filtering needed
 
-    // Filter by search query with prioritization
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-
-      // Helper to strip formatting markers for search
-      const stripMarkersForSearch = (text: string | undefined): string => {
-        if (!text) return '';
-        return text.replace(/\{\{[^}]+\}\}/g, '').toLowerCase();
-      };
-
-      // Filter rules and add priority score
-      const rulesWithPriority: Array<{ rule: Rule; group: RuleGroup; priority: number }> = [];
-
-      groups.forEach(group => {
-        group.rules.forEach(rule => {
-          let priority = 0;
-
-          // Priority 1: Rule number match (highest priority)
-          if (rule.rule.toLowerCase().includes(query)) {
-            priority = 4;
-          }
-          // Priority 2: Title match
-          else if (rule.title.toLowerCase().includes(query)) {
-            priority = 3;
-          }
-          // Priority 3: Category match
-          else if (rule.category.toLowerCase().includes(query)) {
-            priority = 2;
-          }
-          // Priority 4: Full text or description match (lowest priority)
-          else {
-            const descriptionText = stripMarkersForSearch(rule.description);
-            const fullTextStripped = stripMarkersForSearch(rule.fullText);
-            const completeTextStripped = stripMarkersForSearch(rule.completeText);
-
-            if (
-              descriptionText.includes(query) ||
-              fullTextStripped.includes(query) ||
-              completeTextStripped.includes(query)
-            ) {
-              priority = 1;
-            }
-          }
-
-          // If there's any match, add it
-          if (priority > 0) {
-            rulesWithPriority.push({ rule, group, priority });
-          }
-        });
-      });
-
-      // Sort by priority (highest first)
-      rulesWithPriority.sort((a, b) => b.priority - a.priority);
-
-      // Reconstruct groups maintaining priority order
-      const groupMap = new Map<string, Rule[]>();
-      rulesWithPriority.forEach(({ rule, group }) => {
-        if (!groupMap.has(group.name)) {
-          groupMap.set(group.name, []);
-        }
-        groupMap.get(group.name)!.push(rule);
-      });
-
-      // Build final groups array
-      groups = Array.from(groupMap.entries()).map(([name, rules]) => {
-        const originalGroup = groups.find(g => g.name === name)!;
-        return { ...originalGroup, rules };
-      });
-    }
-
     // Add Judging Resources group at the beginning (all programs)
     // These are universal resources that apply to all VEX Robotics programs
     if (manual) {
@@ -995,6 +1005,34 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
       }
     }
 
+    return groups;
+  }, [manual, program]);
+
+  // Ranked search results, best match first
+  const searchResults = useMemo((): RuleSearchResult[] | null => {
+    if (!searchQuery.trim()) return null;
+    return searchRuleIndex(getRuleSearchIndex(programGroups), searchQuery);
+  }, [programGroups, searchQuery]);
+
+  // Snippet and highlighted words for each matching rule
+  const searchResultsByRule = useMemo(
+    () => new Map((searchResults || []).map(result => [result.rule.id, result])),
+    [searchResults]
+  );
+
+  // Get filtered rules
+  const filteredGroups = useMemo(() => {
+    // Search results stay in rank order in a single list
+    if (searchResults) {
+      const rules = searchResults
+        .filter(result => !filterRuleGroup || result.group.name === filterRuleGroup)
+        .filter(result => !showFavoritesOnly || favorites.includes(result.rule.id))
+        .map(result => result.rule);
+      return rules.length > 0 ? [{ name: SEARCH_RESULTS_GROUP, programs: [program], rules }] : [];
+    }
+
+    let groups = programGroups;
+
     // Filter by rule group
     if (filterRuleGroup) {
       groups = groups.filter(group => group.name === filterRuleGroup);
@@ -1023,7 +1061,7 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
     });
 
     return sortedGroups;
-  }, [manual, program, searchQuery, filterRuleGroup, showFavoritesOnly, favorites]);
+  }, [programGroups, searchResults, program, filterRuleGroup, showFavoritesOnly, favorites]);
 
   // Get available rule groups for filtering based on program
   const availableRuleGroups = useMemo(() => {
@@ -1217,11 +1255,11 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
           )}
         </View>
 
-        {/* Q&A Link Button */}
-        {manual?.qnaUrl && (
+        {/* Q&A Button - the bundled list when there are entries, otherwise the official Q&A site */}
+        {(hasQnAEntries || manual?.qnaUrl) && (
           <TouchableOpacity
             style={[styles.qnaButton, { backgroundColor: settings.buttonColor }]}
-            onPress={() => manual.qnaUrl && openVexLink(manual.qnaUrl)}
+            onPress={() => (hasQnAEntries ? setQnAListVisible(true) : openVexLink(manual!.qnaUrl!))}
           >
             <Ionicons name="help-circle" size={20} color="#FFFFFF" />
             <Text style={styles.qnaButtonText}>Q&A</Text>
@@ -1297,6 +1335,37 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
         </ScrollView>
       </View>
 
+      {/* Season Fallback Notice */}
+      {manual && manual.season !== season && (
+        <View style={[styles.seasonNotice, { backgroundColor: settings.warningColor + '20', borderColor: settings.warningColor }]}>
+          <Ionicons name="information-circle-outline" size={18} color={settings.warningColor} />
+          <Text style={[styles.seasonNoticeText, { color: settings.textColor }]}>
+            No {season} manual is available. Showing {manual.season} instead.
+          </Text>
+        </View>
+      )}
+
+      {/* Manual Update Banner */}
+      {changelog[0] && !changelog[0].viewed && (
+        <View style={[styles.changelogBanner, { backgroundColor: settings.infoColor + '20', borderColor: settings.infoColor }]}>
+          <Ionicons name="git-compare-outline" size={20} color={settings.infoColor} />
+          <TouchableOpacity style={styles.changelogBannerTextContainer} onPress={handleShowChangelog}>
+            <Text style={[styles.changelogBannerTitle, { color: settings.textColor }]}>
+              Manual updated {formatManualVersion(changelog[0].toVersion)}
+            </Text>
+            <Text style={[styles.changelogBannerText, { color: settings.secondaryTextColor }]}>
+              {changelog[0].changes.length} {changelog[0].changes.length === 1 ? 'rule' : 'rules'} changed
+              {latestFavoriteChangeCount > 0 ? ` (${latestFavoriteChangeCount} ${latestFavoriteChangeCount === 1 ? 'favorite' : 'favorites'})` : ''}
+              {' · '}
+              <Text style={{ color: settings.buttonColor, fontWeight: '600' }}>View</Text>
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={markChangelogViewed} hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}>
+            <Ionicons name="close" size={20} color={settings.iconColor} />
+          </TouchableOpacity>
+        </View>
+      )}
+
       {/* Rules List */}
       <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
         {filteredGroups.length === 0 ? (
@@ -1309,12 +1378,19 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
         ) : (
           filteredGroups.map(group => (
             <View key={group.name} style={styles.ruleGroup}>
-              <Text style={[styles.groupTitle, { color: settings.textColor }]}>{getGroupDisplayName(group.name)}</Text>
+              <Text style={[styles.groupTitle, { color: settings.textColor }]}>
+                {group.name === SEARCH_RESULTS_GROUP
+                  ? `${group.rules.length} ${group.rules.length === 1 ? 'Result' : 'Results'}`
+                  : getGroupDisplayName(group.name)}
+              </Text>
 
               {group.rules.map(rule => {
                 const isExpanded = expandedRules.has(rule.id);
                 const isFavorited = favorites.includes(rule.id);
                 const isJudgingResource = rule.category === 'Judging Resources';
+                const searchResult = searchResultsByRule.get(rule.id);
+                const latestChange = latestChanges.get(rule.id);
+                const ruleQnA = qnaByRule.get(rule.rule);
 
                 return (
                   <TouchableOpacity
@@ -1328,7 +1404,31 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
                       <View style={styles.ruleHeaderLeft}>
                         {/* Only show red rule code for non-judging resources */}
                         {!isJudgingResource && (
-                          <Text style={[styles.ruleCode, { color: settings.buttonColor }]}>{rule.rule}</Text>
+                          <View style={styles.ruleCodeRow}>
+                            <Text style={[styles.ruleCode, { color: settings.buttonColor }]}>{rule.rule}</Text>
+                            {latestChange && (
+                              <TouchableOpacity
+                                onPress={(e) => {
+                                  e.stopPropagation();
+                                  handleShowChangelog();
+                                }}
+                                style={[
+                                  styles.changeBadge,
+                                  { backgroundColor: latestChange.type === 'added' ? settings.successColor : settings.warningColor },
+                                ]}
+                              >
+                                <Text style={styles.changeBadgeText}>
+                                  {latestChange.type === 'added' ? 'New' : 'Updated'}
+                                </Text>
+                              </TouchableOpacity>
+                            )}
+                            {ruleQnA && (
+                              <View style={styles.qnaCount}>
+                                <Ionicons name="chatbubbles-outline" size={14} color={settings.secondaryTextColor} />
+                                <Text style={[styles.qnaCountText, { color: settings.secondaryTextColor }]}>{ruleQnA.length}</Text>
+                              </View>
+                            )}
+                          </View>
                         )}
                         <Text style={[styles.ruleTitle, { color: settings.textColor }]}>{rule.title}</Text>
                       </View>
@@ -1467,6 +1567,15 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
                           </Text>
                         )}
 
+                        {/* Where the search matched, until the rule is expanded */}
+                        {!isExpanded && searchResult?.snippet && searchResult.match === 'body' && (
+                          <Text style={[styles.searchSnippet, { color: settings.secondaryTextColor }]} numberOfLines={3}>
+                            {splitHighlights(searchResult.snippet, searchResult.highlightTerms).map((segment, index) => segment.highlighted ? (
+                              <Text key={index} style={[styles.searchSnippetMatch, { color: settings.textColor }]}>{segment.text}</Text>
+                            ) : segment.text)}
+                          </Text>
+                        )}
+
                         {isExpanded && (
                           <View style={styles.expandedContent}>
                             {/* Check if this is a field diagram */}
@@ -1488,7 +1597,7 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
                               <>
                                 {/* Display complete text with formatting, or fallback to description */}
                                 {(rule.completeText || rule.fullText || rule.description) && (
-                                  renderFormattedText(rule.completeText || rule.fullText || rule.description, searchQuery)
+                                  renderFormattedText(rule.completeText || rule.fullText || rule.description, searchResult?.highlightTerms)
                                 )}
 
                                 {/* Optional: Still show link but make it secondary */}
@@ -1503,6 +1612,18 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
                                     <Ionicons name="open-outline" size={16} color={settings.buttonColor} />
                                   </TouchableOpacity>
                                 )}
+
+                                {/* Official Q&A rulings that reference this rule */}
+                                {ruleQnA && (
+                                  <View style={styles.ruleQnASection}>
+                                    <Text style={[styles.ruleQnATitle, { color: settings.textColor }]}>
+                                      Q&A Rulings ({ruleQnA.length})
+                                    </Text>
+                                    {ruleQnA.map(entry => (
+                                      <QnAEntryCard key={entry.id} entry={entry} compact />
+                                    ))}
+                                  </View>
+                                )}
                               </>
                             )}
                           </View>
@@ -1621,7 +1742,7 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
                 )}
                 <View style={styles.ruleRefModalBody}>
                   {(ruleReferenceModal.completeText || ruleReferenceModal.fullText || ruleReferenceModal.description) && (
-                    renderFormattedText(ruleReferenceModal.completeText || ruleReferenceModal.fullText || ruleReferenceModal.description, searchQuery)
+                    renderFormattedText(ruleReferenceModal.completeText || ruleReferenceModal.fullText || ruleReferenceModal.description, searchResultsByRule.get(ruleReferenceModal.id)?.highlightTerms)
                   )}
                 </View>
               </>
@@ -1630,6 +1751,22 @@ const GameManualQuickReference = forwardRef<GameManualQuickReferenceRef, Props>(
         </Animated.View>
       </Modal>
 
+      <QnAListModal
+        visible={qnaListVisible}
+        entries={qna?.entries || []}
+        loading={qnaLoading}
+        onClose={() => setQnAListVisible(false)}
+        onOpenOfficialQnA={manual?.qnaUrl ? () => openVexLink(manual.qnaUrl!) : undefined}
+        onSelectRule={handleSelectQnARule}
+      />
+
+      <ManualChangelogModal
+        visible={changelogVisible}
+        entries={changelog}
+        favoriteRuleIds={favorites}
+        onClose={() => setChangelogVisible(false)}
+      />
+
       {/* PDF Viewer Modal */}
       <Modal
         visible={pdfViewerVisible}
@@ -1804,12 +1941,80 @@ const styles = StyleSheet.create({
     flex: 1,
     marginRight: 12,
   },
+  ruleCodeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
   ruleCode: {
     fontSize: 14,
     fontWeight: '600',
     fontFamily: 'monospace',
     marginBottom: 4,
   },
+  changeBadge: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    marginBottom: 4,
+  },
+  changeBadgeText: {
+    color: '#FFFFFF',
+    fontSize: 10,
+    fontWeight: 'bold',
+  },
+  qnaCount: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    marginBottom: 4,
+  },
+  qnaCountText: {
+    fontSize: 12,
+  },
+  ruleQnASection: {
+    marginTop: 16,
+  },
+  ruleQnATitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  seasonNotice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginBottom: 8,
+    padding: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+    gap: 8,
+  },
+  seasonNoticeText: {
+    flex: 1,
+    fontSize: 13,
+  },
+  changelogBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginBottom: 8,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    gap: 10,
+  },
+  changelogBannerTextContainer: {
+    flex: 1,
+  },
+  changelogBannerTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  changelogBannerText: {
+    fontSize: 13,
+    marginTop: 2,
+  },
   ruleTitle: {
     fontSize: 16,
     fontWeight: '500',
@@ -1838,6 +2043,14 @@ const styles = StyleSheet.create({
   category: {
     fontSize: 12,
   },
+  searchSnippet: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginTop: 6,
+  },
+  searchSnippetMatch: {
+    fontWeight: '600',
+  },
   expandedContent: {
     marginTop: 12,
     paddingTop: 12,
@@ -0,0 +1,68 @@
+/**
+ * Last Updated Indicator
+ *
+ * Small status line showing when the displayed data was fetched.
+ * Switches to an offline warning when the API router served stale cached data.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSettings } from '../contexts/SettingsContext';
+import { ResponseCacheInfo } from '../services/responseCache';
+
+interface LastUpdatedIndicatorProps {
+  info: ResponseCacheInfo | null;
+}
+
+const formatAge = (timestamp: number): string => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} hr ago`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+const LastUpdatedIndicator: React.FC<LastUpdatedIndicatorProps> = ({ info }) => {
+  const settings = useSettings();
+
+  if (!info) {
+    return null;
+  }
+
+  const color = info.isStale ? settings.warningColor : settings.secondaryTextColor;
+  const label = info.isStale
+    ? `Offline - showing data from ${formatAge(info.fetchedAt)}`
+    : `Updated ${formatAge(info.fetchedAt)}`;
+
+  return (
+    <View style={[
+      styles.container,
+      info.isStale && { backgroundColor: settings.warningColor + '20' },
+    ]}>
+      <Ionicons
+        name={info.isStale ? 'cloud-offline-outline' : 'time-outline'}
+        size={12}
+        color={color}
+      />
+      <Text style={[styles.text, { color }]}>{label}</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+  },
+  text: {
+    fontSize: 12,
+    marginLeft: 4,
+  },
+});
+
+export default LastUpdatedIndicator;
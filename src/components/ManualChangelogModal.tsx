@@ -0,0 +1,332 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSettings } from '../contexts/SettingsContext';
+import { ManualChangelogEntry, RuleChange, RuleChangeType } from '../types/gameManual';
+
+interface ManualChangelogModalProps {
+  visible: boolean;
+  entries: ManualChangelogEntry[]; // Newest first
+  favoriteRuleIds: string[];
+  onClose: () => void;
+}
+
+const CHANGE_LABELS: Record<RuleChangeType, string> = {
+  added: 'New',
+  modified: 'Updated',
+  removed: 'Removed',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  code: 'Rule number',
+  title: 'Title',
+  text: 'Text',
+  severity: 'Severity',
+};
+
+/**
+ * Manual versions are YYYYMMDD strings; show them as dates when they parse
+ */
+export const formatManualVersion = (version: string | null | undefined): string => {
+  if (!version) return 'Unknown';
+  const match = version.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (!match) return version;
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  return date.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+};
+
+const ManualChangelogModal: React.FC<ManualChangelogModalProps> = ({
+  visible,
+  entries,
+  favoriteRuleIds,
+  onClose,
+}) => {
+  const settings = useSettings();
+  const [expandedChanges, setExpandedChanges] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (visible) {
+      setExpandedChanges(new Set());
+    }
+  }, [visible]);
+
+  const getChangeColor = (type: RuleChangeType) => {
+    switch (type) {
+      case 'added':
+        return settings.successColor;
+      case 'removed':
+        return settings.errorColor;
+      default:
+        return settings.warningColor;
+    }
+  };
+
+  const toggleChange = (key: string) => {
+    setExpandedChanges(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const renderChange = (entry: ManualChangelogEntry, change: RuleChange) => {
+    const key = `${entry.id}_${change.ruleId}`;
+    const isFavorited = favoriteRuleIds.includes(change.ruleId);
+    const isExpanded = expandedChanges.has(key);
+    const canExpand = !!change.textDiff;
+    const color = getChangeColor(change.type);
+
+    return (
+      <TouchableOpacity
+        key={key}
+        style={[styles.changeCard, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor }]}
+        onPress={() => canExpand && toggleChange(key)}
+        activeOpacity={canExpand ? 0.7 : 1}
+        disabled={!canExpand}
+      >
+        <View style={styles.changeHeader}>
+          <View style={[styles.changeBadge, { backgroundColor: color }]}>
+            <Text style={styles.changeBadgeText}>{CHANGE_LABELS[change.type]}</Text>
+          </View>
+          <Text style={[styles.changeCode, { color: settings.buttonColor }]}>{change.rule}</Text>
+          {isFavorited && <Ionicons name="heart" size={14} color={settings.errorColor} />}
+          <View style={styles.changeHeaderSpacer} />
+          {canExpand && (
+            <Ionicons
+              name={isExpanded ? 'chevron-up' : 'chevron-down'}
+              size={18}
+              color={settings.iconColor}
+            />
+          )}
+        </View>
+        <Text
+          style={[
+            styles.changeTitle,
+            { color: settings.textColor },
+            change.type === 'removed' && styles.removedText,
+          ]}
+          numberOfLines={isExpanded ? undefined : 2}
+        >
+          {change.title}
+        </Text>
+        {change.changedFields && change.changedFields.length > 0 && (
+          <Text style={[styles.changedFields, { color: settings.secondaryTextColor }]}>
+            Changed: {change.changedFields.map(field => FIELD_LABELS[field] || field).join(', ')}
+          </Text>
+        )}
+
+        {isExpanded && change.textDiff && (
+          <Text style={[styles.diffText, { color: settings.textColor, borderTopColor: settings.borderColor }]}>
+            {change.textDiff.map((segment, index) => (
+              <Text
+                key={index}
+                style={
+                  segment.type === 'added'
+                    ? [styles.diffAdded, { backgroundColor: settings.successColor + '33' }]
+                    : segment.type === 'removed'
+                      ? [styles.diffRemoved, { color: settings.errorColor }]
+                      : undefined
+                }
+              >
+                {segment.text}
+              </Text>
+            ))}
+          </Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEntry = (entry: ManualChangelogEntry) => {
+    // Favorited rules first, otherwise keep manual order
+    const changes = [...entry.changes].sort((a, b) =>
+      Number(favoriteRuleIds.includes(b.ruleId)) - Number(favoriteRuleIds.includes(a.ruleId))
+    );
+    const counts = entry.changes.reduce<Record<RuleChangeType, number>>(
+      (acc, change) => ({ ...acc, [change.type]: acc[change.type] + 1 }),
+      { added: 0, modified: 0, removed: 0 }
+    );
+
+    return (
+      <View key={entry.id} style={styles.entry}>
+        <Text style={[styles.entryTitle, { color: settings.textColor }]}>
+          {formatManualVersion(entry.fromVersion)} → {formatManualVersion(entry.toVersion)}
+        </Text>
+        <Text style={[styles.entrySubtitle, { color: settings.secondaryTextColor }]}>
+          Downloaded {new Date(entry.detectedAt).toLocaleDateString()}
+        </Text>
+        <View style={styles.countsRow}>
+          {(Object.keys(CHANGE_LABELS) as RuleChangeType[])
+            .filter(type => counts[type] > 0)
+            .map(type => (
+              <Text key={type} style={[styles.countText, { color: getChangeColor(type) }]}>
+                {counts[type]} {CHANGE_LABELS[type].toLowerCase()}
+              </Text>
+            ))}
+        </View>
+        {changes.map(change => renderChange(entry, change))}
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={false}
+      onRequestClose={onClose}
+    >
+      <View style={[styles.container, { backgroundColor: settings.backgroundColor }]}>
+        {/* Header */}
+        <View style={[styles.header, { backgroundColor: settings.topBarColor, borderBottomColor: settings.borderColor }]}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+            <Ionicons name="close" size={28} color={settings.topBarContentColor} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: settings.topBarContentColor }]}>What Changed</Text>
+          <View style={styles.headerButton} />
+        </View>
+
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+          {entries.length === 0 ? (
+            <View style={styles.emptyState}>
+              <Ionicons name="git-compare-outline" size={48} color={settings.secondaryTextColor} />
+              <Text style={[styles.emptyText, { color: settings.secondaryTextColor }]}>
+                No manual updates yet. Changes are listed here when a newer manual is downloaded.
+              </Text>
+            </View>
+          ) : (
+            entries.map(renderEntry)
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+  },
+  headerButton: {
+    padding: 4,
+    minWidth: 60,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 24,
+  },
+  emptyText: {
+    marginTop: 16,
+    fontSize: 15,
+    textAlign: 'center',
+  },
+  entry: {
+    marginBottom: 24,
+  },
+  entryTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  entrySubtitle: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  countsRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 6,
+    marginBottom: 12,
+  },
+  countText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  changeCard: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginBottom: 8,
+  },
+  changeHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
+  changeHeaderSpacer: {
+    flex: 1,
+  },
+  changeBadge: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+  },
+  changeBadgeText: {
+    color: '#FFFFFF',
+    fontSize: 10,
+    fontWeight: 'bold',
+  },
+  changeCode: {
+    fontSize: 14,
+    fontWeight: '600',
+    fontFamily: 'monospace',
+  },
+  changeTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  removedText: {
+    textDecorationLine: 'line-through',
+  },
+  changedFields: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  diffText: {
+    fontSize: 14,
+    lineHeight: 21,
+    marginTop: 10,
+    paddingTop: 10,
+    borderTopWidth: 1,
+  },
+  diffAdded: {
+    fontWeight: '600',
+  },
+  diffRemoved: {
+    textDecorationLine: 'line-through',
+  },
+});
+
+export default ManualChangelogModal;
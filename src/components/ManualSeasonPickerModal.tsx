@@ -0,0 +1,176 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSettings } from '../contexts/SettingsContext';
+import { createLogger } from '../utils/logger';
+import { gameManualService, ManualSeasonInfo } from '../services/gameManualService';
+
+const logger = createLogger('ManualSeasonPickerModal');
+
+interface ManualSeasonPickerModalProps {
+  visible: boolean;
+  program: string;
+  currentSeason: string; // Season resolved from settings
+  selectedSeason: string; // Season being shown
+  onClose: () => void;
+  onSelect: (season: string) => void;
+}
+
+const ManualSeasonPickerModal: React.FC<ManualSeasonPickerModalProps> = ({
+  visible,
+  program,
+  currentSeason,
+  selectedSeason,
+  onClose,
+  onSelect,
+}) => {
+  const settings = useSettings();
+  const [seasons, setSeasons] = useState<ManualSeasonInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!visible) return;
+
+    let cancelled = false;
+    setLoading(true);
+    gameManualService.getManualSeasons(program)
+      .then(result => {
+        if (cancelled) return;
+        // The resolved season is always listed, even if the API did not return it
+        setSeasons(result.some(info => info.season === currentSeason) || !currentSeason
+          ? result
+          : [{ season: currentSeason, bundled: false }, ...result]);
+      })
+      .catch(error => logger.error('Error loading manual seasons:', error))
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [visible, program, currentSeason]);
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={false}
+      onRequestClose={onClose}
+    >
+      <View style={[styles.container, { backgroundColor: settings.backgroundColor }]}>
+        {/* Header */}
+        <View style={[styles.header, { backgroundColor: settings.topBarColor, borderBottomColor: settings.borderColor }]}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+            <Ionicons name="close" size={28} color={settings.topBarContentColor} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: settings.topBarContentColor }]}>Manual Season</Text>
+          <View style={styles.headerButton} />
+        </View>
+
+        <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
+          <Text style={[styles.intro, { color: settings.secondaryTextColor }]}>
+            Browse the rules from previous seasons. Archived manuals that are not bundled with the app are downloaded when opened.
+          </Text>
+
+          {loading && seasons.length === 0 ? (
+            <ActivityIndicator style={styles.loading} color={settings.buttonColor} />
+          ) : (
+            seasons.map(({ season, bundled }) => {
+              const isSelected = season === selectedSeason;
+              const isCurrent = season === currentSeason;
+
+              return (
+                <TouchableOpacity
+                  key={season}
+                  style={[styles.seasonRow, { backgroundColor: settings.cardBackgroundColor, borderColor: isSelected ? settings.buttonColor : settings.borderColor }]}
+                  onPress={() => onSelect(season)}
+                  activeOpacity={0.7}
+                >
+                  <View style={styles.seasonTextContainer}>
+                    <Text style={[styles.seasonLabel, { color: settings.textColor }]}>{season}</Text>
+                    <Text style={[styles.seasonDescription, { color: settings.secondaryTextColor }]}>
+                      {[
+                        isCurrent ? 'Current season' : season > currentSeason ? 'Newer season' : 'Archived',
+                        bundled ? 'Available offline' : 'Download required',
+                      ].join(' · ')}
+                    </Text>
+                  </View>
+                  {isSelected && <Ionicons name="checkmark" size={22} color={settings.buttonColor} />}
+                </TouchableOpacity>
+              );
+            })
+          )}
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+  },
+  headerButton: {
+    padding: 4,
+    minWidth: 60,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  content: {
+    flex: 1,
+  },
+  contentContainer: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  intro: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginBottom: 16,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  seasonRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 14,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    borderWidth: 1,
+    marginBottom: 10,
+  },
+  seasonTextContainer: {
+    flex: 1,
+    marginRight: 12,
+  },
+  seasonLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+  },
+  seasonDescription: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+});
+
+export default ManualSeasonPickerModal;
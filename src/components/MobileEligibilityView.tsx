@@ -1,7 +1,9 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { View, Text, ScrollView, TouchableOpacity, StyleSheet } from 'react-native';
-import { TeamSkills, RobotProgram, ProgramRules } from '../utils/eligibility/types';
+import { TeamSkills, EligibilityConfig } from '../utils/eligibility/types';
 import { Ionicons } from '@expo/vector-icons';
+import EligibilitySimulator from './EligibilitySimulator';
+import { EligibilitySimulationInput } from '../utils/eligibility/whatIfSimulator';
 
 interface ThemeColors {
   backgroundColor: string;
@@ -16,8 +18,8 @@ interface ThemeColors {
 interface MobileEligibilityViewProps {
   eligibleRecords: TeamSkills[];
   ineligibleRecords: TeamSkills[];
-  selectedProgram?: RobotProgram;
-  programRules?: ProgramRules;
+  programRules?: EligibilityConfig;
+  simulationInput?: EligibilitySimulationInput; // Enables the inline what-if simulator
   onTeamPress?: (teamSkills: TeamSkills) => void;
   themeColors?: ThemeColors;
 }
@@ -25,11 +27,13 @@ interface MobileEligibilityViewProps {
 export const MobileEligibilityView: React.FC<MobileEligibilityViewProps> = ({
   eligibleRecords,
   ineligibleRecords,
-  selectedProgram,
   programRules,
+  simulationInput,
   onTeamPress,
   themeColors
 }) => {
+  const [simulatingTeamId, setSimulatingTeamId] = useState<number | null>(null);
+
   // Default theme colors if not provided
   const theme = themeColors || {
     backgroundColor: '#ffffff',
@@ -57,38 +61,57 @@ export const MobileEligibilityView: React.FC<MobileEligibilityViewProps> = ({
     const locationString = locationParts.join(', ');
 
     return (
-      <TouchableOpacity
-        key={team.id}
-        style={[styles.teamCard, { backgroundColor: theme.cardBackgroundColor }]}
-        onPress={() => onTeamPress?.(record)}
-        activeOpacity={0.7}
-      >
-        <View style={styles.teamRow}>
-          <Text style={[
-            styles.teamNumber,
-            { color: record.eligible ? '#22c55e' : theme.secondaryTextColor }
-          ]}>
-            {team.number}
-          </Text>
-
-          <View style={styles.teamInfo}>
-            <Text style={[styles.teamName, { color: theme.textColor }]} numberOfLines={1}>
-              {team.team_name}
+      <View key={team.id}>
+        <TouchableOpacity
+          style={[styles.teamCard, { backgroundColor: theme.cardBackgroundColor }]}
+          onPress={() => onTeamPress?.(record)}
+          activeOpacity={0.7}
+        >
+          <View style={styles.teamRow}>
+            <Text style={[
+              styles.teamNumber,
+              { color: record.eligible ? '#22c55e' : theme.secondaryTextColor }
+            ]}>
+              {team.number}
             </Text>
-            {locationString ? (
-              <Text style={[styles.locationText, { color: theme.secondaryTextColor }]} numberOfLines={1}>
-                {locationString}
+
+            <View style={styles.teamInfo}>
+              <Text style={[styles.teamName, { color: theme.textColor }]} numberOfLines={1}>
+                {team.team_name}
               </Text>
-            ) : null}
-          </View>
+              {locationString ? (
+                <Text style={[styles.locationText, { color: theme.secondaryTextColor }]} numberOfLines={1}>
+                  {locationString}
+                </Text>
+              ) : null}
+            </View>
 
-          <Ionicons
-            name={record.eligible ? "checkmark-circle-outline" : "close-circle-outline"}
-            size={20}
-            color={record.eligible ? '#22c55e' : '#ef4444'}
-          />
-        </View>
-      </TouchableOpacity>
+            {simulationInput && (
+              <TouchableOpacity
+                style={styles.simulateButton}
+                onPress={() => setSimulatingTeamId(simulatingTeamId === team.id ? null : team.id)}
+              >
+                <Ionicons
+                  name={simulatingTeamId === team.id ? "flask" : "flask-outline"}
+                  size={20}
+                  color={theme.iconColor}
+                />
+              </TouchableOpacity>
+            )}
+
+            <Ionicons
+              name={record.eligible ? "checkmark-circle-outline" : "close-circle-outline"}
+              size={20}
+              color={record.eligible ? '#22c55e' : '#ef4444'}
+            />
+          </View>
+        </TouchableOpacity>
+        {simulationInput && simulatingTeamId === team.id && (
+          <View style={styles.simulatorContainer}>
+            <EligibilitySimulator teamSkills={record} input={simulationInput} />
+          </View>
+        )}
+      </View>
     );
   };
 
@@ -196,6 +219,13 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: 2,
   },
+  simulateButton: {
+    padding: 4,
+    marginRight: 8,
+  },
+  simulatorContainer: {
+    paddingHorizontal: 8,
+  },
   divider: {
     paddingHorizontal: 16,
     paddingVertical: 8,
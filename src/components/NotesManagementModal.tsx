@@ -3,6 +3,8 @@
  *
  * Modal for managing all user notes, organized by teams and events.
  * Allows users to delete individual notes or all notes for a team/event.
+ * The Scouting tab rolls structured scouting responses up into per-team
+ * summaries for each event.
  */
 
 import React, { useState, useEffect } from 'react';
@@ -25,7 +27,11 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useSettings } from '../contexts/SettingsContext';
-import { useNotes } from '../contexts/NotesContext';
+import { useNotes, TeamMatchNote } from '../contexts/NotesContext';
+import { useScoutingTemplates } from '../contexts/ScoutingTemplatesContext';
+import ScoutingSummaryCard from './ScoutingSummaryCard';
+import { ScoutingData, ScoutingTemplate, TeamScoutingSummary } from '../types/scouting';
+import { formatScoutingValue, getUsedTemplateIds, hasScoutingData, summarizeEventScouting } from '../utils/scouting';
 
 interface Props {
   visible: boolean;
@@ -45,6 +51,14 @@ interface Note {
   time: string;
   createdAt?: string;
   imageUri?: string;
+  scouting?: ScoutingData;
+}
+
+interface ScoutingSection {
+  key: string;
+  eventName: string;
+  template: ScoutingTemplate;
+  summaries: TeamScoutingSummary[];
 }
 
 interface NotesSection {
@@ -57,8 +71,9 @@ interface NotesSection {
 const NotesManagementModal: React.FC<Props> = ({ visible, onClose }) => {
   const settings = useSettings();
   const { getAllNotes, deleteNote, deleteAllNotesForTeam, deleteAllNotesForEvent } = useNotes();
+  const { getTemplate } = useScoutingTemplates();
 
-  const [selectedTab, setSelectedTab] = useState<'teams' | 'events'>('teams');
+  const [selectedTab, setSelectedTab] = useState<'teams' | 'events' | 'scouting'>('teams');
   const [notes, setNotes] = useState<Note[]>([]);
   const [sections, setSections] = useState<NotesSection[]>([]);
   const [loading, setLoading] = useState(true);
@@ -108,7 +123,7 @@ const NotesManagementModal: React.FC<Props> = ({ visible, onClose }) => {
       let sectionTitle: string;
       let sectionType: 'team' | 'event';
 
-      if (selectedTab === 'teams') {
+      if (selectedTab !== 'events') {
         sectionKey = `team-${note.teamId}`;
         sectionTitle = `${note.teamNumber} - ${note.teamName}`;
         sectionType = 'team';
@@ -220,6 +235,104 @@ const NotesManagementModal: React.FC<Props> = ({ visible, onClose }) => {
 
 
 
+  // One section per event and template, listing every scouted team
+  const getScoutingSections = (): ScoutingSection[] => {
+    const query = searchQuery.trim().toLowerCase();
+    const notesByEvent = new Map<number, Note[]>();
+    notes.forEach(note => {
+      if (!hasScoutingData(note)) return;
+      const eventNotes = notesByEvent.get(note.eventId);
+      if (eventNotes) {
+        eventNotes.push(note);
+      } else {
+        notesByEvent.set(note.eventId, [note]);
+      }
+    });
+
+    const scoutingSections: ScoutingSection[] = [];
+    notesByEvent.forEach((eventNotes, eventId) => {
+      const matchNotes = eventNotes as TeamMatchNote[];
+      const eventName = eventNotes.find(note => note.eventName)?.eventName || `Event ${eventId}`;
+      getUsedTemplateIds(matchNotes).forEach(templateId => {
+        const template = getTemplate(templateId);
+        if (!template) return;
+        const summaries = summarizeEventScouting(matchNotes, template).filter(summary =>
+          !query ||
+          summary.teamNumber.toLowerCase().includes(query) ||
+          summary.teamName.toLowerCase().includes(query) ||
+          eventName.toLowerCase().includes(query)
+        );
+        if (summaries.length > 0) {
+          scoutingSections.push({ key: `${eventId}-${templateId}`, eventName, template, summaries });
+        }
+      });
+    });
+
+    return scoutingSections.sort((a, b) => a.eventName.localeCompare(b.eventName));
+  };
+
+  const renderScoutingSummaries = () => {
+    const scoutingSections = getScoutingSections();
+    if (scoutingSections.length === 0) {
+      return (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="clipboard-outline" size={64} color={settings.iconColor} />
+          <Text style={[styles.emptyTitle, { color: settings.textColor }]}>
+            {searchQuery.trim() ? 'No Results' : 'No Scouting Data'}
+          </Text>
+          <Text style={[styles.emptyMessage, { color: settings.secondaryTextColor }]}>
+            {searchQuery.trim()
+              ? `No scouted teams found matching "${searchQuery}"`
+              : 'Fill in the Scouting section of a match note to see team summaries here'}
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <ScrollView style={styles.list} showsVerticalScrollIndicator={false}>
+        {scoutingSections.map(section => (
+          <View key={section.key}>
+            <View style={[styles.sectionHeader, {
+              backgroundColor: settings.cardBackgroundColor,
+              borderBottomColor: settings.borderColor
+            }]}>
+              <View style={styles.sectionHeaderContent}>
+                <Text style={[styles.sectionTitle, { color: settings.textColor }]}>
+                  {section.eventName}
+                </Text>
+                <Text style={[styles.sectionCount, { color: settings.secondaryTextColor }]}>
+                  {section.summaries.length} team{section.summaries.length !== 1 ? 's' : ''} · {section.template.name}
+                </Text>
+              </View>
+            </View>
+            <View style={styles.summaryList}>
+              {section.summaries.map(summary => (
+                <ScoutingSummaryCard key={summary.teamId} summary={summary} template={section.template} showTeam />
+              ))}
+            </View>
+          </View>
+        ))}
+      </ScrollView>
+    );
+  };
+
+  const renderScoutingValues = (note: Note) => {
+    if (!note.scouting || !hasScoutingData(note)) return null;
+    const template = getTemplate(note.scouting.templateId);
+    if (!template) return null;
+
+    const values = note.scouting.values;
+    return (
+      <Text style={[styles.noteScouting, { color: settings.secondaryTextColor }]}>
+        {template.fields
+          .filter(field => values[field.id] !== undefined)
+          .map(field => `${field.label}: ${formatScoutingValue(field, values[field.id])}`)
+          .join(' · ')}
+      </Text>
+    );
+  };
+
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleDateString('en-US', {
@@ -289,9 +402,12 @@ const NotesManagementModal: React.FC<Props> = ({ visible, onClose }) => {
           <Ionicons name="trash" size={18} color="#ff4444" />
         </TouchableOpacity>
       </View>
-      <Text style={[styles.noteText, { color: settings.textColor }]}>
-        {item.note}
-      </Text>
+      {!!item.note && (
+        <Text style={[styles.noteText, { color: settings.textColor }]}>
+          {item.note}
+        </Text>
+      )}
+      {renderScoutingValues(item)}
       {item.imageUri && (
         <Image
           source={{ uri: item.imageUri }}
@@ -405,6 +521,22 @@ const NotesManagementModal: React.FC<Props> = ({ visible, onClose }) => {
               Events
             </Text>
           </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.tab, selectedTab === 'scouting' && { borderBottomColor: settings.buttonColor }]}
+            onPress={() => setSelectedTab('scouting')}
+          >
+            <Ionicons
+              name="clipboard"
+              size={20}
+              color={selectedTab === 'scouting' ? settings.buttonColor : settings.iconColor}
+            />
+            <Text style={[
+              styles.tabText,
+              { color: selectedTab === 'scouting' ? settings.buttonColor : settings.textColor }
+            ]}>
+              Scouting
+            </Text>
+          </TouchableOpacity>
         </View>
 
         {/* Content */}
@@ -415,6 +547,8 @@ const NotesManagementModal: React.FC<Props> = ({ visible, onClose }) => {
               Loading notes...
             </Text>
           </View>
+        ) : selectedTab === 'scouting' ? (
+          renderScoutingSummaries()
         ) : sections.length === 0 ? (
           renderEmptyState()
         ) : (
@@ -582,6 +716,14 @@ const styles = StyleSheet.create({
     fontSize: 14,
     lineHeight: 20,
   },
+  noteScouting: {
+    fontSize: 12,
+    lineHeight: 18,
+    marginTop: 4,
+  },
+  summaryList: {
+    padding: 12,
+  },
   noteInfoRow: {
     flexDirection: 'row',
     alignItems: 'center',
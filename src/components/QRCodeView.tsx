@@ -0,0 +1,70 @@
+/**
+ * QR Code View
+ *
+ * Draws a QR code with plain Views so it renders the same on native and web.
+ * Each row is drawn as runs of dark modules rather than one View per module to
+ * keep the view count manageable for larger codes.
+ */
+
+import React, { useMemo } from 'react';
+import { View, StyleSheet } from 'react-native';
+import QRCode from 'qrcode';
+
+interface QRCodeViewProps {
+  value: string;
+  size: number;
+}
+
+// Light modules around the code that scanners need to find its edges
+const QUIET_ZONE_MODULES = 2;
+
+const QRCodeView: React.FC<QRCodeViewProps> = ({ value, size }) => {
+  const rows = useMemo(() => {
+    const { modules } = QRCode.create(value, { errorCorrectionLevel: 'M' });
+    return Array.from({ length: modules.size }, (_, row) => {
+      const runs: { start: number; length: number }[] = [];
+      for (let col = 0; col < modules.size; col++) {
+        if (!modules.data[row * modules.size + col]) continue;
+        const lastRun = runs[runs.length - 1];
+        if (lastRun && lastRun.start + lastRun.length === col) {
+          lastRun.length++;
+        } else {
+          runs.push({ start: col, length: 1 });
+        }
+      }
+      return runs;
+    });
+  }, [value]);
+
+  // Whole-pixel modules avoid hairline gaps between rows; leftover space goes to the quiet zone
+  const moduleSize = Math.max(1, Math.floor(size / (rows.length + QUIET_ZONE_MODULES * 2)));
+  const padding = (size - moduleSize * rows.length) / 2;
+
+  return (
+    <View style={[styles.container, { width: size, height: size, padding }]}>
+      {rows.map((runs, row) => (
+        <View key={row} style={{ height: moduleSize }}>
+          {runs.map(run => (
+            <View
+              key={run.start}
+              style={[styles.run, { left: run.start * moduleSize, width: run.length * moduleSize, height: moduleSize }]}
+            />
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+  },
+  run: {
+    position: 'absolute',
+    top: 0,
+    backgroundColor: '#000',
+  },
+});
+
+export default QRCodeView;
@@ -0,0 +1,183 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Linking } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSettings } from '../contexts/SettingsContext';
+import { createLogger } from '../utils/logger';
+import { QnAEntry } from '../types/gameManual';
+
+const logger = createLogger('QnAEntryCard');
+
+interface QnAEntryCardProps {
+  entry: QnAEntry;
+  compact?: boolean; // Inside an expanded rule card: no border, rule chips hidden
+  onSelectRule?: (ruleCode: string) => void;
+}
+
+const formatDate = (date: string | undefined): string | null => {
+  if (!date) return null;
+  const parsed = new Date(date);
+  return isNaN(parsed.getTime()) ? date : parsed.toLocaleDateString();
+};
+
+const QnAEntryCard: React.FC<QnAEntryCardProps> = ({ entry, compact = false, onSelectRule }) => {
+  const settings = useSettings();
+  const [expanded, setExpanded] = useState(false);
+
+  const date = formatDate(entry.answeredDate || entry.askedDate);
+  const showQuestion = entry.question !== entry.title;
+
+  const openEntry = () => {
+    if (!entry.url) return;
+    Linking.openURL(entry.url).catch(err => {
+      logger.error('Failed to open Q&A link:', err);
+    });
+  };
+
+  return (
+    <TouchableOpacity
+      style={[
+        styles.card,
+        compact
+          ? [styles.compactCard, { borderTopColor: settings.borderColor }]
+          : { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor },
+      ]}
+      onPress={() => setExpanded(!expanded)}
+      activeOpacity={0.7}
+    >
+      <View style={styles.metaRow}>
+        <Text style={[styles.entryNumber, { color: settings.buttonColor }]}>Q&A {entry.id}</Text>
+        {date && <Text style={[styles.date, { color: settings.secondaryTextColor }]}>{date}</Text>}
+        {!entry.answer && !entry.fromManual && (
+          <Text style={[styles.pending, { color: settings.warningColor }]}>Unanswered</Text>
+        )}
+        <View style={styles.spacer} />
+        <Ionicons name={expanded ? 'chevron-up' : 'chevron-down'} size={16} color={settings.iconColor} />
+      </View>
+
+      <Text style={[styles.title, { color: settings.textColor }]} numberOfLines={expanded ? undefined : 2}>
+        {entry.title}
+      </Text>
+
+      {!compact && entry.ruleCodes.length > 0 && (
+        <View style={styles.ruleChips}>
+          {entry.ruleCodes.map(code => (
+            <TouchableOpacity
+              key={code}
+              style={[styles.ruleChip, { borderColor: settings.buttonColor }]}
+              onPress={() => onSelectRule?.(code)}
+              disabled={!onSelectRule}
+            >
+              <Text style={[styles.ruleChipText, { color: settings.buttonColor }]}>{code}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {expanded && (
+        <>
+          {showQuestion && (
+            <Text style={[styles.body, { color: settings.textColor }]}>{entry.question}</Text>
+          )}
+          {entry.fromManual && !entry.answer ? (
+            <Text style={[styles.body, { color: settings.secondaryTextColor }]}>
+              Cited as a significant ruling in the game manual. The full question and answer are on RobotEvents.
+            </Text>
+          ) : (
+            <>
+              <Text style={[styles.answerLabel, { color: settings.secondaryTextColor }]}>Answer</Text>
+              <Text style={[styles.body, { color: entry.answer ? settings.textColor : settings.secondaryTextColor }]}>
+                {entry.answer || 'This question has not been answered yet.'}
+              </Text>
+            </>
+          )}
+          {entry.url && (
+            <TouchableOpacity style={styles.linkRow} onPress={openEntry}>
+              <Text style={[styles.linkText, { color: settings.buttonColor }]}>View on RobotEvents</Text>
+              <Ionicons name="open-outline" size={14} color={settings.buttonColor} />
+            </TouchableOpacity>
+          )}
+        </>
+      )}
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginBottom: 8,
+  },
+  compactCard: {
+    paddingHorizontal: 0,
+    borderRadius: 0,
+    borderWidth: 0,
+    borderTopWidth: 1,
+    marginBottom: 0,
+  },
+  metaRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 4,
+  },
+  entryNumber: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  date: {
+    fontSize: 12,
+  },
+  pending: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  spacer: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  ruleChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginTop: 8,
+  },
+  ruleChip: {
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    borderWidth: 1,
+  },
+  ruleChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    fontFamily: 'monospace',
+  },
+  answerLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+    marginTop: 10,
+  },
+  body: {
+    fontSize: 14,
+    lineHeight: 20,
+    marginTop: 4,
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginTop: 10,
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
+
+export default QnAEntryCard;
@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  FlatList,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSettings } from '../contexts/SettingsContext';
+import { QnAEntry } from '../types/gameManual';
+import { searchQnA } from '../utils/ruleQnA';
+import QnAEntryCard from './QnAEntryCard';
+
+interface QnAListModalProps {
+  visible: boolean;
+  entries: QnAEntry[];
+  loading?: boolean;
+  onClose: () => void;
+  onOpenOfficialQnA?: () => void;
+  onSelectRule: (ruleCode: string) => void;
+}
+
+const QnAListModal: React.FC<QnAListModalProps> = ({
+  visible,
+  entries,
+  loading = false,
+  onClose,
+  onOpenOfficialQnA,
+  onSelectRule,
+}) => {
+  const settings = useSettings();
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setQuery('');
+    }
+  }, [visible]);
+
+  const results = useMemo(() => searchQnA(entries, query), [entries, query]);
+
+  const renderEmpty = () => {
+    if (loading) {
+      return <ActivityIndicator style={styles.loading} color={settings.buttonColor} />;
+    }
+    return (
+      <View style={styles.emptyState}>
+        <Ionicons name="chatbubbles-outline" size={48} color={settings.secondaryTextColor} />
+        <Text style={[styles.emptyText, { color: settings.secondaryTextColor }]}>
+          {entries.length === 0
+            ? 'No Q&A entries are available offline yet. Refresh the manual or open the official Q&A.'
+            : 'No Q&A entries match your search'}
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={false}
+      onRequestClose={onClose}
+    >
+      <View style={[styles.container, { backgroundColor: settings.backgroundColor }]}>
+        {/* Header */}
+        <View style={[styles.header, { backgroundColor: settings.topBarColor, borderBottomColor: settings.borderColor }]}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+            <Ionicons name="close" size={28} color={settings.topBarContentColor} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: settings.topBarContentColor }]}>Official Q&A</Text>
+          <View style={[styles.headerButton, styles.headerButtonRight]}>
+            {onOpenOfficialQnA && (
+              <TouchableOpacity onPress={onOpenOfficialQnA}>
+                <Ionicons name="open-outline" size={24} color={settings.topBarContentColor} />
+              </TouchableOpacity>
+            )}
+          </View>
+        </View>
+
+        <View style={[styles.searchContainer, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor }]}>
+          <Ionicons name="search" size={20} color={settings.iconColor} style={styles.searchIcon} />
+          <TextInput
+            style={[styles.searchInput, { color: settings.textColor }]}
+            placeholder="Search questions, answers, rule numbers..."
+            placeholderTextColor={settings.secondaryTextColor}
+            value={query}
+            onChangeText={setQuery}
+            autoCorrect={false}
+          />
+          {query.length > 0 && (
+            <TouchableOpacity onPress={() => setQuery('')}>
+              <Ionicons name="close-circle" size={20} color={settings.iconColor} />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        {entries.length > 0 && (
+          <Text style={[styles.resultCount, { color: settings.secondaryTextColor }]}>
+            {results.length} of {entries.length} {entries.length === 1 ? 'entry' : 'entries'}
+          </Text>
+        )}
+
+        <FlatList
+          data={results}
+          keyExtractor={entry => entry.id}
+          renderItem={({ item }) => <QnAEntryCard entry={item} onSelectRule={onSelectRule} />}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={renderEmpty}
+          keyboardShouldPersistTaps="handled"
+        />
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+  },
+  headerButton: {
+    padding: 4,
+    minWidth: 60,
+  },
+  headerButtonRight: {
+    alignItems: 'flex-end',
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: 16,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  searchIcon: {
+    marginRight: 8,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+  },
+  resultCount: {
+    fontSize: 13,
+    marginHorizontal: 16,
+    marginBottom: 8,
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 40,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 24,
+  },
+  emptyText: {
+    marginTop: 16,
+    fontSize: 15,
+    textAlign: 'center',
+  },
+});
+
+export default QnAListModal;
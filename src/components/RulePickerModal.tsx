@@ -0,0 +1,220 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  TextInput,
+  FlatList,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSettings } from '../contexts/SettingsContext';
+import { GameManual, Rule } from '../types/gameManual';
+import { getRuleSearchIndex, searchRuleIndex } from '../utils/ruleSearch';
+
+interface RulePickerModalProps {
+  visible: boolean;
+  manual: GameManual | null;
+  selectedRuleId?: string;
+  onClose: () => void;
+  onSelect: (rule: Rule) => void;
+}
+
+const RulePickerModal: React.FC<RulePickerModalProps> = ({
+  visible,
+  manual,
+  selectedRuleId,
+  onClose,
+  onSelect,
+}) => {
+  const settings = useSettings();
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setQuery('');
+    }
+  }, [visible]);
+
+  const allRules = useMemo(() => manual?.ruleGroups.flatMap(group => group.rules) || [], [manual]);
+
+  // Every rule in manual order until the user searches
+  const rules = useMemo(() => {
+    if (!manual || !query.trim()) return allRules;
+    return searchRuleIndex(getRuleSearchIndex(manual.ruleGroups), query).map(result => result.rule);
+  }, [manual, allRules, query]);
+
+  const getSeverityColor = (rule: Rule): string =>
+    rule.severity === 'major' ? settings.errorColor : settings.warningColor;
+
+  const renderRule = ({ item }: { item: Rule }) => {
+    const isSelected = item.id === selectedRuleId;
+
+    return (
+      <TouchableOpacity
+        style={[styles.ruleRow, { backgroundColor: settings.cardBackgroundColor, borderColor: isSelected ? settings.buttonColor : settings.borderColor }]}
+        onPress={() => onSelect(item)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.ruleTextContainer}>
+          <View style={styles.ruleCodeRow}>
+            <Text style={[styles.ruleCode, { color: settings.buttonColor }]}>{item.rule}</Text>
+            {(item.severity === 'minor' || item.severity === 'major') && (
+              <Text style={[styles.severityBadge, { color: getSeverityColor(item), borderColor: getSeverityColor(item) }]}>
+                {item.severity === 'major' ? 'MAJOR' : 'MINOR'}
+              </Text>
+            )}
+          </View>
+          <Text style={[styles.ruleTitle, { color: settings.textColor }]} numberOfLines={2}>{item.title}</Text>
+        </View>
+        {isSelected && <Ionicons name="checkmark" size={22} color={settings.buttonColor} />}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      transparent={false}
+      onRequestClose={onClose}
+    >
+      <View style={[styles.container, { backgroundColor: settings.backgroundColor }]}>
+        {/* Header */}
+        <View style={[styles.header, { backgroundColor: settings.topBarColor, borderBottomColor: settings.borderColor }]}>
+          <TouchableOpacity onPress={onClose} style={styles.headerButton}>
+            <Ionicons name="close" size={28} color={settings.topBarContentColor} />
+          </TouchableOpacity>
+          <Text style={[styles.headerTitle, { color: settings.topBarContentColor }]}>Select Rule</Text>
+          <View style={styles.headerButton} />
+        </View>
+
+        <View style={[styles.searchContainer, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor }]}>
+          <Ionicons name="search" size={20} color={settings.iconColor} style={styles.searchIcon} />
+          <TextInput
+            style={[styles.searchInput, { color: settings.textColor }]}
+            placeholder="Search rule numbers, titles, text..."
+            placeholderTextColor={settings.secondaryTextColor}
+            value={query}
+            onChangeText={setQuery}
+            autoCorrect={false}
+          />
+          {query.length > 0 && (
+            <TouchableOpacity onPress={() => setQuery('')}>
+              <Ionicons name="close-circle" size={20} color={settings.iconColor} />
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <FlatList
+          data={rules}
+          keyExtractor={rule => rule.id}
+          renderItem={renderRule}
+          contentContainerStyle={styles.listContent}
+          keyboardShouldPersistTaps="handled"
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Ionicons name="book-outline" size={48} color={settings.secondaryTextColor} />
+              <Text style={[styles.emptyText, { color: settings.secondaryTextColor }]}>
+                {allRules.length === 0 ? 'The game manual is not available' : 'No rules match your search'}
+              </Text>
+            </View>
+          }
+        />
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: 60,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+  },
+  headerButton: {
+    padding: 4,
+    minWidth: 60,
+  },
+  headerTitle: {
+    fontSize: 20,
+    fontWeight: 'bold',
+  },
+  searchContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    margin: 16,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  searchIcon: {
+    marginRight: 8,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+  },
+  listContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 40,
+  },
+  ruleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginBottom: 8,
+  },
+  ruleTextContainer: {
+    flex: 1,
+    marginRight: 12,
+  },
+  ruleCodeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 2,
+  },
+  ruleCode: {
+    fontSize: 14,
+    fontWeight: '700',
+    fontFamily: 'monospace',
+  },
+  severityBadge: {
+    fontSize: 10,
+    fontWeight: '700',
+    paddingHorizontal: 5,
+    paddingVertical: 1,
+    borderRadius: 4,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  ruleTitle: {
+    fontSize: 15,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 24,
+  },
+  emptyText: {
+    marginTop: 16,
+    fontSize: 15,
+    textAlign: 'center',
+  },
+});
+
+export default RulePickerModal;
@@ -0,0 +1,244 @@
+/**
+ * Save Calculator Session Modal
+ *
+ * Prompts for a name (and a team number for skills runs) before saving the current
+ * score sheet. When editing a previously saved session it can update it in place
+ * or save a copy.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  StyleSheet,
+  Modal,
+  TouchableOpacity,
+  ScrollView,
+  Platform,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSettings } from '../contexts/SettingsContext';
+import { useFavorites } from '../contexts/FavoritesContext';
+
+interface SaveCalculatorSessionModalProps {
+  visible: boolean;
+  sheetLabel: string;
+  score: number;
+  isSkills: boolean;
+  initialName?: string;
+  initialTeamNumber?: string;
+  canUpdate: boolean; // A saved session is loaded and can be overwritten
+  onClose: () => void;
+  onSave: (name: string, teamNumber: string | undefined, asNew: boolean) => void;
+}
+
+const SaveCalculatorSessionModal: React.FC<SaveCalculatorSessionModalProps> = ({
+  visible,
+  sheetLabel,
+  score,
+  isSkills,
+  initialName,
+  initialTeamNumber,
+  canUpdate,
+  onClose,
+  onSave,
+}) => {
+  const settings = useSettings();
+  const { favoriteTeams } = useFavorites();
+  const [name, setName] = useState('');
+  const [teamNumber, setTeamNumber] = useState('');
+
+  useEffect(() => {
+    if (visible) {
+      setName(initialName || `${sheetLabel} - ${new Date().toLocaleDateString()}`);
+      setTeamNumber(initialTeamNumber || (favoriteTeams.length === 1 ? favoriteTeams[0] : ''));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [visible]);
+
+  const trimmedName = name.trim();
+  const trimmedTeam = teamNumber.trim().toUpperCase();
+
+  const handleSave = (asNew: boolean) => {
+    if (!trimmedName) return;
+    onSave(trimmedName, trimmedTeam || undefined, asNew);
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <View style={styles.overlay}>
+        <View style={[styles.modalContainer, { backgroundColor: settings.cardBackgroundColor }]}>
+          <View style={styles.header}>
+            <Text style={[styles.title, { color: settings.textColor }]}>Save Score Sheet</Text>
+            <TouchableOpacity onPress={onClose}>
+              <Ionicons name="close" size={24} color={settings.iconColor} />
+            </TouchableOpacity>
+          </View>
+
+          <Text style={[styles.subtitle, { color: settings.secondaryTextColor }]}>
+            {sheetLabel} · {score} points
+          </Text>
+
+          <Text style={[styles.label, { color: settings.textColor }]}>Name</Text>
+          <TextInput
+            style={[styles.input, { color: settings.textColor, borderColor: settings.borderColor, backgroundColor: settings.backgroundColor }]}
+            value={name}
+            onChangeText={setName}
+            placeholder={isSkills ? 'e.g., Practice run 3' : 'e.g., Left side auton route'}
+            placeholderTextColor={settings.secondaryTextColor}
+            autoFocus
+          />
+
+          {isSkills && (
+            <>
+              <Text style={[styles.label, { color: settings.textColor }]}>Team Number</Text>
+              <TextInput
+                style={[styles.input, { color: settings.textColor, borderColor: settings.borderColor, backgroundColor: settings.backgroundColor }]}
+                value={teamNumber}
+                onChangeText={setTeamNumber}
+                placeholder="Adds this run to the team's skills log"
+                placeholderTextColor={settings.secondaryTextColor}
+                autoCapitalize="characters"
+              />
+              {favoriteTeams.length > 0 && (
+                <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chipRow}>
+                  {favoriteTeams.map(favorite => (
+                    <TouchableOpacity
+                      key={favorite}
+                      style={[
+                        styles.chip,
+                        { borderColor: settings.buttonColor },
+                        trimmedTeam === favorite && { backgroundColor: settings.buttonColor },
+                      ]}
+                      onPress={() => setTeamNumber(favorite)}
+                    >
+                      <Text style={[styles.chipText, { color: trimmedTeam === favorite ? '#fff' : settings.buttonColor }]}>
+                        {favorite}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+              )}
+            </>
+          )}
+
+          <View style={styles.buttonRow}>
+            {canUpdate && (
+              <TouchableOpacity
+                style={[styles.button, styles.secondaryButton, { borderColor: settings.buttonColor }]}
+                onPress={() => handleSave(true)}
+                disabled={!trimmedName}
+              >
+                <Text style={[styles.buttonText, { color: settings.buttonColor }]}>Save as New</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={[styles.button, { backgroundColor: settings.buttonColor }, !trimmedName && { opacity: 0.5 }]}
+              onPress={() => handleSave(false)}
+              disabled={!trimmedName}
+            >
+              <Text style={[styles.buttonText, { color: '#fff' }]}>{canUpdate ? 'Update' : 'Save'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalContainer: {
+    width: '100%',
+    maxWidth: 500,
+    borderRadius: 16,
+    padding: 24,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.25,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 8,
+      },
+      web: {
+        boxShadow: '0 4px 12px rgba(0, 0, 0, 0.15)',
+      },
+    }),
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+  },
+  subtitle: {
+    fontSize: 14,
+    marginTop: 4,
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  chipRow: {
+    marginBottom: 12,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 12,
+    marginTop: 8,
+  },
+  button: {
+    borderRadius: 10,
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+  },
+  secondaryButton: {
+    borderWidth: 1,
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default SaveCalculatorSessionModal;
@@ -0,0 +1,134 @@
+/**
+ * Score History Chart
+ *
+ * Bar chart of practice scores over time, oldest to newest, with best/average/latest
+ * summary. Built from plain Views so it renders the same on native and web.
+ */
+
+import React from 'react';
+import { View, Text, ScrollView, StyleSheet } from 'react-native';
+import { useSettings } from '../contexts/SettingsContext';
+
+export interface ScoreHistoryPoint {
+  id: string;
+  score: number;
+  date: string; // ISO date string
+}
+
+interface ScoreHistoryChartProps {
+  points: ScoreHistoryPoint[];
+  height?: number;
+}
+
+const BAR_WIDTH = 28;
+
+const formatShortDate = (date: string): string => {
+  const parsed = new Date(date);
+  return `${parsed.getMonth() + 1}/${parsed.getDate()}`;
+};
+
+const ScoreHistoryChart: React.FC<ScoreHistoryChartProps> = ({ points, height = 160 }) => {
+  const settings = useSettings();
+
+  if (points.length === 0) {
+    return (
+      <Text style={[styles.emptyText, { color: settings.secondaryTextColor }]}>
+        Save skills runs with a team number to chart practice scores.
+      </Text>
+    );
+  }
+
+  const scores = points.map(point => point.score);
+  const best = Math.max(...scores);
+  const average = scores.reduce((sum, score) => sum + score, 0) / scores.length;
+  const latest = scores[scores.length - 1];
+  const scale = best > 0 ? height / best : 0;
+
+  const renderSummary = (label: string, value: string) => (
+    <View style={styles.summaryItem} key={label}>
+      <Text style={[styles.summaryValue, { color: settings.textColor }]}>{value}</Text>
+      <Text style={[styles.summaryLabel, { color: settings.secondaryTextColor }]}>{label}</Text>
+    </View>
+  );
+
+  return (
+    <View>
+      <View style={styles.summaryRow}>
+        {renderSummary('Best', `${best}`)}
+        {renderSummary('Average', average.toFixed(1))}
+        {renderSummary('Latest', `${latest}`)}
+        {renderSummary('Runs', `${points.length}`)}
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        <View style={[styles.chart, { height: height + 40, borderBottomColor: settings.borderColor }]}>
+          {points.map(point => (
+            <View key={point.id} style={styles.barColumn}>
+              <Text style={[styles.barValue, { color: settings.secondaryTextColor }]}>{point.score}</Text>
+              <View
+                style={[
+                  styles.bar,
+                  {
+                    height: Math.max(point.score * scale, 2),
+                    backgroundColor: point.score === best ? settings.successColor : settings.buttonColor,
+                  },
+                ]}
+              />
+              <Text style={[styles.barDate, { color: settings.secondaryTextColor }]}>{formatShortDate(point.date)}</Text>
+            </View>
+          ))}
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginBottom: 12,
+  },
+  summaryItem: {
+    alignItems: 'center',
+  },
+  summaryValue: {
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  summaryLabel: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    paddingHorizontal: 4,
+  },
+  barColumn: {
+    width: BAR_WIDTH + 12,
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+  },
+  bar: {
+    width: BAR_WIDTH,
+    borderTopLeftRadius: 4,
+    borderTopRightRadius: 4,
+  },
+  barValue: {
+    fontSize: 11,
+    marginBottom: 2,
+  },
+  barDate: {
+    fontSize: 10,
+    marginTop: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    fontStyle: 'italic',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+});
+
+export default ScoreHistoryChart;
@@ -0,0 +1,197 @@
+/**
+ * Scouting Form
+ *
+ * Renders the fields of a scouting template as touch controls: steppers for
+ * numbers, Yes/No pills for booleans, option chips for enums and stars for
+ * ratings. Tapping the selected pill, chip or star again clears the response.
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSettings } from '../contexts/SettingsContext';
+import { ScoutingField, ScoutingTemplate, ScoutingValue } from '../types/scouting';
+import { DEFAULT_RATING_SCALE, normalizeScoutingValue } from '../utils/scouting/templates';
+
+interface ScoutingFormProps {
+  template: ScoutingTemplate;
+  values: Record<string, ScoutingValue>;
+  onChange: (fieldId: string, value: ScoutingValue | undefined) => void;
+  accentColor?: string;
+}
+
+const ScoutingForm: React.FC<ScoutingFormProps> = ({ template, values, onChange, accentColor }) => {
+  const settings = useSettings();
+  const accent = accentColor || settings.buttonColor;
+  const controlBackground = settings.colorScheme === 'dark' ? 'rgba(255, 255, 255, 0.15)' : 'rgba(255, 255, 255, 0.9)';
+
+  const setValue = (field: ScoutingField, value: ScoutingValue | undefined) => {
+    onChange(field.id, value === undefined ? undefined : normalizeScoutingValue(field, value));
+  };
+
+  const toggleValue = (field: ScoutingField, value: ScoutingValue) => {
+    setValue(field, values[field.id] === value ? undefined : value);
+  };
+
+  const renderNumberField = (field: ScoutingField) => {
+    const value = values[field.id];
+    const current = typeof value === 'number' ? value : undefined;
+    const min = field.min ?? 0;
+
+    return (
+      <View style={styles.stepper}>
+        <TouchableOpacity
+          style={[styles.stepperButton, { backgroundColor: controlBackground }]}
+          onPress={() => current !== undefined && (current <= min ? setValue(field, undefined) : setValue(field, current - 1))}
+          disabled={current === undefined}
+        >
+          <Ionicons name="remove" size={18} color={current === undefined ? settings.secondaryTextColor : settings.textColor} />
+        </TouchableOpacity>
+        <Text style={[styles.stepperValue, { color: current === undefined ? settings.secondaryTextColor : settings.textColor }]}>
+          {current ?? '-'}
+        </Text>
+        <TouchableOpacity
+          style={[styles.stepperButton, { backgroundColor: controlBackground }]}
+          onPress={() => setValue(field, current === undefined ? min : current + 1)}
+          disabled={current !== undefined && field.max !== undefined && current >= field.max}
+        >
+          <Ionicons name="add" size={18} color={settings.textColor} />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderBooleanField = (field: ScoutingField) => (
+    <View style={styles.chipRow}>
+      {[true, false].map(option => {
+        const selected = values[field.id] === option;
+        return (
+          <TouchableOpacity
+            key={String(option)}
+            style={[styles.chip, { backgroundColor: selected ? accent : controlBackground }]}
+            onPress={() => toggleValue(field, option)}
+          >
+            <Text style={[styles.chipText, { color: selected ? '#fff' : settings.textColor }]}>
+              {option ? 'Yes' : 'No'}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderEnumField = (field: ScoutingField) => (
+    <View style={styles.chipRow}>
+      {(field.options || []).map(option => {
+        const selected = values[field.id] === option.id;
+        return (
+          <TouchableOpacity
+            key={option.id}
+            style={[styles.chip, { backgroundColor: selected ? accent : controlBackground }]}
+            onPress={() => toggleValue(field, option.id)}
+          >
+            <Text style={[styles.chipText, { color: selected ? '#fff' : settings.textColor }]}>{option.label}</Text>
+          </TouchableOpacity>
+        );
+      })}
+    </View>
+  );
+
+  const renderRatingField = (field: ScoutingField) => {
+    const value = values[field.id];
+    const rating = typeof value === 'number' ? value : 0;
+    const scale = field.scale ?? DEFAULT_RATING_SCALE;
+
+    return (
+      <View style={styles.stars}>
+        {Array.from({ length: scale }, (_, index) => index + 1).map(star => (
+          <TouchableOpacity key={star} onPress={() => toggleValue(field, star)} style={styles.star}>
+            <Ionicons
+              name={star <= rating ? 'star' : 'star-outline'}
+              size={scale > 5 ? 18 : 24}
+              color={star <= rating ? settings.warningColor : settings.secondaryTextColor}
+            />
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {template.fields.map(field => (
+        <View key={field.id} style={styles.field}>
+          <View style={styles.fieldHeader}>
+            <Text style={[styles.fieldLabel, { color: settings.textColor }]}>{field.label}</Text>
+            {field.description && (
+              <Text style={[styles.fieldDescription, { color: settings.secondaryTextColor }]}>{field.description}</Text>
+            )}
+          </View>
+          {field.type === 'number' && renderNumberField(field)}
+          {field.type === 'boolean' && renderBooleanField(field)}
+          {field.type === 'enum' && renderEnumField(field)}
+          {field.type === 'rating' && renderRatingField(field)}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: 12,
+  },
+  field: {
+    gap: 6,
+  },
+  fieldHeader: {
+    gap: 2,
+  },
+  fieldLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  fieldDescription: {
+    fontSize: 12,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    width: 40,
+    height: 36,
+    borderRadius: 10,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperValue: {
+    fontSize: 18,
+    fontWeight: '600',
+    minWidth: 48,
+    textAlign: 'center',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  stars: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  star: {
+    padding: 2,
+  },
+});
+
+export default ScoutingForm;
@@ -0,0 +1,126 @@
+/**
+ * Scouting Summary Card
+ *
+ * Per-team roll-up of structured scouting responses for an event: averages and
+ * ranges, "yes" rates, most common enum options and a trend arrow that is green
+ * when the team is improving (taking lowerIsBetter fields into account).
+ */
+
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSettings } from '../contexts/SettingsContext';
+import { ScoutingFieldSummary, ScoutingTemplate, TeamScoutingSummary } from '../types/scouting';
+import { DEFAULT_RATING_SCALE } from '../utils/scouting/templates';
+
+interface ScoutingSummaryCardProps {
+  summary: TeamScoutingSummary;
+  template: ScoutingTemplate;
+  showTeam?: boolean;
+}
+
+const formatNumber = (value: number): string => {
+  return Number.isInteger(value) ? value.toString() : value.toFixed(1);
+};
+
+const ScoutingSummaryCard: React.FC<ScoutingSummaryCardProps> = ({ summary, template, showTeam = false }) => {
+  const settings = useSettings();
+
+  const describeField = (field: ScoutingFieldSummary): string => {
+    if (field.count === 0) return 'No responses';
+
+    switch (field.type) {
+      case 'rating': {
+        const scale = template.fields.find(f => f.id === field.fieldId)?.scale ?? DEFAULT_RATING_SCALE;
+        return `${formatNumber(field.average)}/${scale}`;
+      }
+      case 'number':
+        return field.min === field.max
+          ? formatNumber(field.average)
+          : `${formatNumber(field.average)} avg (${field.min}-${field.max})`;
+      case 'boolean':
+        return `${Math.round(field.rate * 100)}% yes (${field.trueCount}/${field.count})`;
+      case 'enum': {
+        const options = template.fields.find(f => f.id === field.fieldId)?.options || [];
+        return Object.entries(field.counts)
+          .sort((a, b) => b[1] - a[1])
+          .map(([optionId, count]) => `${options.find(o => o.id === optionId)?.label ?? optionId} ${count}`)
+          .join(' · ');
+      }
+    }
+  };
+
+  const renderTrend = (field: ScoutingFieldSummary) => {
+    if (field.type === 'enum' || field.trend === 'flat') return null;
+    return (
+      <Ionicons
+        name={field.trend === 'up' ? 'trending-up' : 'trending-down'}
+        size={16}
+        color={field.improving ? settings.successColor : settings.errorColor}
+        style={styles.trendIcon}
+      />
+    );
+  };
+
+  return (
+    <View style={[styles.card, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor }]}>
+      <View style={styles.header}>
+        {showTeam && (
+          <Text style={[styles.teamNumber, { color: settings.textColor }]}>{summary.teamNumber}</Text>
+        )}
+        <Text style={[styles.headerMeta, { color: settings.secondaryTextColor }]}>
+          {summary.matchesScouted} {summary.matchesScouted === 1 ? 'match' : 'matches'} scouted · {template.name}
+        </Text>
+      </View>
+      {summary.fields.map(field => (
+        <View key={field.fieldId} style={[styles.row, { borderTopColor: settings.borderColor }]}>
+          <Text style={[styles.label, { color: settings.secondaryTextColor }]}>{field.label}</Text>
+          <Text style={[styles.value, { color: settings.textColor }]} numberOfLines={2}>
+            {describeField(field)}
+          </Text>
+          {renderTrend(field)}
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  card: {
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 14,
+    marginBottom: 12,
+  },
+  header: {
+    marginBottom: 6,
+  },
+  teamNumber: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginBottom: 2,
+  },
+  headerMeta: {
+    fontSize: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  label: {
+    fontSize: 13,
+    width: 120,
+  },
+  value: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  trendIcon: {
+    marginLeft: 6,
+  },
+});
+
+export default ScoutingSummaryCard;
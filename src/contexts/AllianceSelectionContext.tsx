@@ -0,0 +1,166 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { createLogger } from '../utils/logger';
+import { storage } from '../utils/webCompatibility';
+import {
+  SelectionAction,
+  SuggestionWeights,
+  DEFAULT_SUGGESTION_WEIGHTS,
+} from '../utils/allianceSelection';
+
+const logger = createLogger('AllianceSelectionContext');
+
+export interface AllianceSelectionSession {
+  id: string; // `${eventId}_${divisionId}`
+  eventId: number;
+  eventName?: string;
+  divisionId: number;
+  pickList: number[]; // Team ids in preferred pick order
+  actions: SelectionAction[]; // Live selection log, replayed by computeSelectionState
+  allianceCount: number;
+  weights: SuggestionWeights;
+  createdAt: string; // ISO date string
+  updatedAt: string; // ISO date string
+}
+
+interface AllianceSelectionContextType {
+  sessions: AllianceSelectionSession[];
+  loadSessions: () => Promise<void>;
+  getSession: (eventId: number, divisionId: number) => AllianceSelectionSession | null;
+  saveSession: (
+    eventId: number,
+    divisionId: number,
+    sessionData: Partial<Omit<AllianceSelectionSession, 'id' | 'eventId' | 'divisionId' | 'createdAt' | 'updatedAt'>>
+  ) => Promise<AllianceSelectionSession>;
+  deleteSession: (eventId: number, divisionId: number) => Promise<void>;
+  clearAllSessions: () => Promise<void>;
+}
+
+const AllianceSelectionContext = createContext<AllianceSelectionContextType | undefined>(undefined);
+
+export const useAllianceSelection = () => {
+  const context = useContext(AllianceSelectionContext);
+  if (!context) {
+    throw new Error('useAllianceSelection must be used within an AllianceSelectionProvider');
+  }
+  return context;
+};
+
+interface AllianceSelectionProviderProps {
+  children: ReactNode;
+}
+
+export const SELECTION_STORAGE_KEY = 'alliance_selection_sessions';
+export const DEFAULT_ALLIANCE_COUNT = 8;
+
+const getSessionId = (eventId: number, divisionId: number): string => `${eventId}_${divisionId}`;
+
+export const AllianceSelectionProvider: React.FC<AllianceSelectionProviderProps> = ({ children }) => {
+  const [sessions, setSessions] = useState<AllianceSelectionSession[]>([]);
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const loadSessions = async (): Promise<void> => {
+    try {
+      const savedSessions = await storage.getItem(SELECTION_STORAGE_KEY);
+      if (savedSessions) {
+        const parsedSessions: AllianceSelectionSession[] = JSON.parse(savedSessions);
+        setSessions(parsedSessions);
+        logger.debug('Loaded', parsedSessions.length, 'alliance selection sessions from storage');
+      }
+    } catch (error) {
+      logger.error('Failed to load alliance selection sessions:', error);
+    }
+  };
+
+  const saveSessions = async (newSessions: AllianceSelectionSession[]): Promise<void> => {
+    try {
+      await storage.setItem(SELECTION_STORAGE_KEY, JSON.stringify(newSessions));
+      setSessions(newSessions);
+      logger.debug('Saved', newSessions.length, 'alliance selection sessions to storage');
+    } catch (error) {
+      logger.error('Failed to save alliance selection sessions:', error);
+      throw error;
+    }
+  };
+
+  const getSession = (eventId: number, divisionId: number): AllianceSelectionSession | null => {
+    const sessionId = getSessionId(eventId, divisionId);
+    return sessions.find(session => session.id === sessionId) || null;
+  };
+
+  // Creates the session on first save, otherwise merges into the existing one
+  const saveSession = async (
+    eventId: number,
+    divisionId: number,
+    sessionData: Partial<Omit<AllianceSelectionSession, 'id' | 'eventId' | 'divisionId' | 'createdAt' | 'updatedAt'>>
+  ): Promise<AllianceSelectionSession> => {
+    try {
+      const sessionId = getSessionId(eventId, divisionId);
+      const now = new Date().toISOString();
+      const existing = sessions.find(session => session.id === sessionId);
+
+      const session: AllianceSelectionSession = existing
+        ? { ...existing, ...sessionData, updatedAt: now }
+        : {
+            pickList: [],
+            actions: [],
+            allianceCount: DEFAULT_ALLIANCE_COUNT,
+            weights: DEFAULT_SUGGESTION_WEIGHTS,
+            ...sessionData,
+            id: sessionId,
+            eventId,
+            divisionId,
+            createdAt: now,
+            updatedAt: now,
+          };
+
+      const newSessions = existing
+        ? sessions.map(s => (s.id === sessionId ? session : s))
+        : [...sessions, session];
+      await saveSessions(newSessions);
+
+      return session;
+    } catch (error) {
+      logger.error('Failed to save alliance selection session:', error);
+      throw error;
+    }
+  };
+
+  const deleteSession = async (eventId: number, divisionId: number): Promise<void> => {
+    try {
+      const sessionId = getSessionId(eventId, divisionId);
+      await saveSessions(sessions.filter(session => session.id !== sessionId));
+      logger.debug('Deleted alliance selection session', sessionId);
+    } catch (error) {
+      logger.error('Failed to delete alliance selection session:', error);
+      throw error;
+    }
+  };
+
+  const clearAllSessions = async (): Promise<void> => {
+    try {
+      await saveSessions([]);
+      logger.debug('Cleared all alliance selection sessions');
+    } catch (error) {
+      logger.error('Failed to clear alliance selection sessions:', error);
+      throw error;
+    }
+  };
+
+  const value: AllianceSelectionContextType = {
+    sessions,
+    loadSessions,
+    getSession,
+    saveSession,
+    deleteSession,
+    clearAllSessions,
+  };
+
+  return (
+    <AllianceSelectionContext.Provider value={value}>
+      {children}
+    </AllianceSelectionContext.Provider>
+  );
+};
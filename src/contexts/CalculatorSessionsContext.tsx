@@ -0,0 +1,191 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { createLogger } from '../utils/logger';
+import { storage } from '../utils/webCompatibility';
+import { ScoreSheetState } from '../types/scoreCalculator';
+
+const logger = createLogger('CalculatorSessionsContext');
+
+export interface CalculatorSession {
+  id: string; // Generated unique ID
+  name: string; // User-provided name (e.g., "Left side auton route")
+  definitionId: string; // Score calculator definition (e.g., "v5rc-2025-2026")
+  sheetId: string; // Sheet within the definition (e.g., "skills")
+  sheetLabel: string; // Sheet label at save time, for display without loading the definition
+  category: 'match' | 'skills';
+  teamNumber?: string; // Team the run belongs to (skills run log)
+  state: ScoreSheetState; // Entered values
+  score: number; // Total score at save time
+  createdAt: string; // ISO date string
+  updatedAt: string; // ISO date string
+}
+
+interface CalculatorSessionsContextType {
+  sessions: CalculatorSession[];
+  loadSessions: () => Promise<void>;
+  getSession: (sessionId: string) => CalculatorSession | null;
+  getSessionsByDefinition: (definitionId: string) => CalculatorSession[];
+  getSkillsRuns: (teamNumber?: string) => CalculatorSession[];
+  createSession: (sessionData: Omit<CalculatorSession, 'id' | 'createdAt' | 'updatedAt'>) => Promise<CalculatorSession>;
+  updateSession: (sessionId: string, sessionData: Partial<CalculatorSession>) => Promise<CalculatorSession>;
+  deleteSession: (sessionId: string) => Promise<void>;
+  clearAllSessions: () => Promise<void>;
+}
+
+const CalculatorSessionsContext = createContext<CalculatorSessionsContextType | undefined>(undefined);
+
+export const useCalculatorSessions = () => {
+  const context = useContext(CalculatorSessionsContext);
+  if (!context) {
+    throw new Error('useCalculatorSessions must be used within a CalculatorSessionsProvider');
+  }
+  return context;
+};
+
+interface CalculatorSessionsProviderProps {
+  children: ReactNode;
+}
+
+export const SESSIONS_STORAGE_KEY = 'calculator_sessions';
+
+export const CalculatorSessionsProvider: React.FC<CalculatorSessionsProviderProps> = ({ children }) => {
+  const [sessions, setSessions] = useState<CalculatorSession[]>([]);
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const loadSessions = async (): Promise<void> => {
+    try {
+      const savedSessions = await storage.getItem(SESSIONS_STORAGE_KEY);
+      if (savedSessions) {
+        const parsedSessions: CalculatorSession[] = JSON.parse(savedSessions);
+        setSessions(parsedSessions);
+        logger.debug('Loaded', parsedSessions.length, 'calculator sessions from storage');
+      }
+    } catch (error) {
+      logger.error('Failed to load calculator sessions:', error);
+    }
+  };
+
+  const saveSessions = async (newSessions: CalculatorSession[]): Promise<void> => {
+    try {
+      await storage.setItem(SESSIONS_STORAGE_KEY, JSON.stringify(newSessions));
+      setSessions(newSessions);
+      logger.debug('Saved', newSessions.length, 'calculator sessions to storage');
+    } catch (error) {
+      logger.error('Failed to save calculator sessions:', error);
+      throw error;
+    }
+  };
+
+  const generateSessionId = (): string => {
+    return 'session_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
+  };
+
+  const getSession = (sessionId: string): CalculatorSession | null => {
+    return sessions.find(session => session.id === sessionId) || null;
+  };
+
+  const getSessionsByDefinition = (definitionId: string): CalculatorSession[] => {
+    return sessions.filter(session => session.definitionId === definitionId);
+  };
+
+  // Skills runs in chronological order, optionally for a single team
+  const getSkillsRuns = (teamNumber?: string): CalculatorSession[] => {
+    return sessions
+      .filter(session =>
+        session.category === 'skills' &&
+        (!teamNumber || session.teamNumber?.toUpperCase() === teamNumber.toUpperCase())
+      )
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  };
+
+  const createSession = async (
+    sessionData: Omit<CalculatorSession, 'id' | 'createdAt' | 'updatedAt'>
+  ): Promise<CalculatorSession> => {
+    try {
+      const now = new Date().toISOString();
+
+      const newSession: CalculatorSession = {
+        ...sessionData,
+        id: generateSessionId(),
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      await saveSessions([...sessions, newSession]);
+
+      logger.debug('Created calculator session', newSession.name, 'for', newSession.definitionId);
+      return newSession;
+    } catch (error) {
+      logger.error('Failed to create calculator session:', error);
+      throw error;
+    }
+  };
+
+  const updateSession = async (
+    sessionId: string,
+    sessionData: Partial<CalculatorSession>
+  ): Promise<CalculatorSession> => {
+    try {
+      const existingIndex = sessions.findIndex(session => session.id === sessionId);
+      if (existingIndex === -1) {
+        throw new Error('Calculator session not found');
+      }
+
+      const updatedSession: CalculatorSession = {
+        ...sessions[existingIndex],
+        ...sessionData,
+        updatedAt: new Date().toISOString(),
+      };
+
+      const newSessions = [...sessions];
+      newSessions[existingIndex] = updatedSession;
+      await saveSessions(newSessions);
+
+      logger.debug('Updated calculator session', sessionId);
+      return updatedSession;
+    } catch (error) {
+      logger.error('Failed to update calculator session:', error);
+      throw error;
+    }
+  };
+
+  const deleteSession = async (sessionId: string): Promise<void> => {
+    try {
+      await saveSessions(sessions.filter(session => session.id !== sessionId));
+      logger.debug('Deleted calculator session', sessionId);
+    } catch (error) {
+      logger.error('Failed to delete calculator session:', error);
+      throw error;
+    }
+  };
+
+  const clearAllSessions = async (): Promise<void> => {
+    try {
+      await saveSessions([]);
+      logger.debug('Cleared all calculator sessions');
+    } catch (error) {
+      logger.error('Failed to clear calculator sessions:', error);
+      throw error;
+    }
+  };
+
+  const value: CalculatorSessionsContextType = {
+    sessions,
+    loadSessions,
+    getSession,
+    getSessionsByDefinition,
+    getSkillsRuns,
+    createSession,
+    updateSession,
+    deleteSession,
+    clearAllSessions,
+  };
+
+  return (
+    <CalculatorSessionsContext.Provider value={value}>
+      {children}
+    </CalculatorSessionsContext.Provider>
+  );
+};
@@ -115,7 +115,7 @@ export const DataCacheProvider: React.FC<DataCacheProviderProps> = ({ children }
 
     try {
       logger.debug(`Pre-loading seasons for program ${programId}...`);
-      const seasonResponse = await robotEventsAPI.getSeasons({ program: [programId] });
+      const seasonResponse = await robotEventsAPI.getSeasons({ program: [programId] }, { priority: 'background' });
 
       setCachedData(prev => ({
         ...prev,
@@ -239,7 +239,7 @@ export const DataCacheProvider: React.FC<DataCacheProviderProps> = ({ children }
 
     try {
       logger.debug(`Pre-loading events for team ${teamId}...`);
-      const teamEventsResponse = await robotEventsAPI.getTeamEvents(teamId);
+      const teamEventsResponse = await robotEventsAPI.getTeamEvents(teamId, undefined, { priority: 'background' });
 
       // Transform API events to UI events (same as in TeamInfoScreen)
       const transformedEvents = teamEventsResponse.data.map(event => ({
@@ -300,7 +300,7 @@ export const DataCacheProvider: React.FC<DataCacheProviderProps> = ({ children }
 
     try {
       logger.debug(`Pre-loading awards for team ${teamId}...`);
-      const awardsResponse = await robotEventsAPI.getTeamAwards(teamId);
+      const awardsResponse = await robotEventsAPI.getTeamAwards(teamId, undefined, { priority: 'background' });
 
       setCachedData(prev => ({
         ...prev,
@@ -502,6 +502,7 @@ export const DataCacheProvider: React.FC<DataCacheProviderProps> = ({ children }
   const forceRefreshTeamEvents = useCallback(async (teamId: number): Promise<void> => {
     const key = teamId.toString();
     logger.debug(`Force refreshing events for team ${teamId}...`);
+    robotEventsAPI.invalidateTeam(teamId);
 
     // Clear cache for this team by removing the key entirely
     setCachedData(prev => {
@@ -523,6 +524,7 @@ export const DataCacheProvider: React.FC<DataCacheProviderProps> = ({ children }
   const forceRefreshTeamAwards = useCallback(async (teamId: number): Promise<void> => {
     const key = teamId.toString();
     logger.debug(`Force refreshing awards for team ${teamId}...`);
+    robotEventsAPI.invalidateTeam(teamId);
 
     // Clear cache for this team by removing the key entirely
     setCachedData(prev => {
@@ -38,8 +38,12 @@ interface FavoritesContextType {
   loadFavorites: () => Promise<void>;
   reorderTeams: (teamNumbers: string[]) => Promise<void>;
   reorderEvents: (eventSkus: string[]) => Promise<void>;
+  getAllFavorites: () => FavoriteItem[]; // Favorites across every program
+  importFavorites: (items: FavoriteItem[]) => Promise<void>;
 }
 
+export const FAVORITES_STORAGE_KEY = 'favorites';
+
 const FavoritesContext = createContext<FavoritesContextType | undefined>(undefined);
 
 export const useFavorites = () => {
@@ -117,7 +121,7 @@ export const FavoritesProvider: React.FC<FavoritesProviderProps> = ({ children }
     try {
       logger.debug('Loading favorites from storage...');
       setFavoritesLoading(true);
-      const savedFavorites = await storage.getItem('favorites');
+      const savedFavorites = await storage.getItem(FAVORITES_STORAGE_KEY);
       if (savedFavorites) {
         const parsedFavorites: FavoriteItem[] = JSON.parse(savedFavorites);
         logger.debug('Loaded', parsedFavorites.length, 'favorites from storage');
@@ -144,7 +148,7 @@ export const FavoritesProvider: React.FC<FavoritesProviderProps> = ({ children }
         });
 
         if (needsSave) {
-          await storage.setItem('favorites', JSON.stringify(migratedFavorites));
+          await storage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify(migratedFavorites));
         }
       } else {
         logger.debug('No saved favorites found in storage');
@@ -160,7 +164,7 @@ export const FavoritesProvider: React.FC<FavoritesProviderProps> = ({ children }
 
   const saveFavorites = async (newAllFavorites: FavoriteItem[]) => {
     try {
-      await storage.setItem('favorites', JSON.stringify(newAllFavorites));
+      await storage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify(newAllFavorites));
       setAllFavorites(newAllFavorites);
     } catch (error) {
       logger.error('Failed to save favorites:', error);
@@ -395,6 +399,25 @@ export const FavoritesProvider: React.FC<FavoritesProviderProps> = ({ children }
     }
   };
 
+  const getAllFavorites = (): FavoriteItem[] => {
+    return allFavorites;
+  };
+
+  // Adds favorites from another device, skipping any that are already favorited
+  const importFavorites = async (items: FavoriteItem[]) => {
+    try {
+      const existingIds = new Set(allFavorites.map(item => item.id));
+      const newItems = items.filter(item => !existingIds.has(item.id));
+      if (newItems.length === 0) return;
+
+      await saveFavorites([...allFavorites, ...newItems]);
+      logger.debug('Imported', newItems.length, 'favorites');
+    } catch (error) {
+      logger.error('Failed to import favorites:', error);
+      throw error;
+    }
+  };
+
   const value: FavoritesContextType = {
     favoriteTeams,
     favoriteEvents,
@@ -411,6 +434,8 @@ export const FavoritesProvider: React.FC<FavoritesProviderProps> = ({ children }
     loadFavorites,
     reorderTeams,
     reorderEvents,
+    getAllFavorites,
+    importFavorites,
   };
 
   return (
@@ -0,0 +1,339 @@
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { AppState } from 'react-native';
+import { createLogger } from '../utils/logger';
+import { storage } from '../utils/webCompatibility';
+import { robotEventsAPI } from '../services/apiRouter';
+import { useSettings } from './SettingsContext';
+import { useFavorites } from './FavoritesContext';
+import { localNotifications } from '../utils/notifications';
+import {
+  LiveEventSnapshot,
+  LIVE_EVENT_POLL_INTERVALS,
+  diffLiveEventSnapshots,
+  getLiveEventPollInterval,
+  getScheduledMatchReminders,
+  getSnapshotSignature,
+} from '../utils/liveEvent';
+
+const logger = createLogger('LiveEventContext');
+
+interface LiveEventContextType {
+  snapshots: Record<number, LiveEventSnapshot>; // Latest poll per event ID
+  subscribe: (eventId: number, onChange?: () => void) => () => void;
+  refreshEvent: (eventId: number) => Promise<void>;
+}
+
+const LiveEventContext = createContext<LiveEventContextType | undefined>(undefined);
+
+export const useLiveEvent = () => {
+  const context = useContext(LiveEventContext);
+  if (!context) {
+    throw new Error('useLiveEvent must be used within a LiveEventProvider');
+  }
+  return context;
+};
+
+/**
+ * Keeps the given events polled while the calling screen is mounted. onChange
+ * runs whenever a poll brings new matches, rankings, skills or awards, by which
+ * time the API response cache already holds the fresh data.
+ */
+export const useLiveEventPolling = (eventIds: number[], onChange: () => void) => {
+  const { subscribe } = useLiveEvent();
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const eventKey = eventIds.join(',');
+
+  useEffect(() => {
+    const unsubscribes = eventIds.map(eventId => subscribe(eventId, () => onChangeRef.current()));
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [eventKey, subscribe]);
+};
+
+interface LiveEventProviderProps {
+  children: ReactNode;
+}
+
+const NOTIFIED_STORAGE_KEY = 'live_event_notified';
+const MAX_NOTIFIED_KEYS = 300;
+const SCHEDULED_STORAGE_KEY = 'live_event_scheduled_reminders';
+const MAX_SCHEDULED_REMINDERS = 50; // iOS keeps at most 64 pending local notifications per app
+
+interface Subscriber {
+  onChange?: () => void;
+}
+
+interface ScheduledReminder {
+  id: string; // Notification identifier
+  key: string; // Change key, marked as notified once the reminder has fired
+  triggerAt: number;
+}
+
+export const LiveEventProvider: React.FC<LiveEventProviderProps> = ({ children }) => {
+  const settings = useSettings();
+  const { getAllFavorites } = useFavorites();
+  const [snapshots, setSnapshots] = useState<Record<number, LiveEventSnapshot>>({});
+
+  // Poller state lives in refs so timers always see the latest values
+  const subscribersRef = useRef(new Map<number, Set<Subscriber>>());
+  const timersRef = useRef(new Map<number, ReturnType<typeof setTimeout>>());
+  const inFlightRef = useRef(new Set<number>());
+  const snapshotsRef = useRef<Record<number, LiveEventSnapshot>>({});
+  const signaturesRef = useRef(new Map<number, string>());
+  const notifiedKeysRef = useRef<string[]>([]);
+  const scheduledRemindersRef = useRef<ScheduledReminder[]>([]);
+  const appActiveRef = useRef(AppState.currentState === 'active');
+
+  const alertSettingsRef = useRef({ enabled: settings.liveEventAlertsEnabled, matches: settings.liveEventAlertMatches });
+  alertSettingsRef.current = { enabled: settings.liveEventAlertsEnabled, matches: settings.liveEventAlertMatches };
+
+  const favoriteTeamNumbersRef = useRef<string[]>([]);
+  favoriteTeamNumbersRef.current = getAllFavorites()
+    .filter(item => item.type === 'team' && item.number)
+    .map(item => item.number!);
+
+  useEffect(() => {
+    Promise.all([storage.getItem(NOTIFIED_STORAGE_KEY), storage.getItem(SCHEDULED_STORAGE_KEY)])
+      .then(([savedNotified, savedScheduled]) => {
+        if (savedNotified) notifiedKeysRef.current = JSON.parse(savedNotified);
+        // Reminders left over from a session that ended in the background
+        if (savedScheduled) scheduledRemindersRef.current = JSON.parse(savedScheduled);
+        return clearScheduledReminders();
+      })
+      .catch(error => logger.error('Failed to load notified live event changes:', error));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const markNotified = async (keys: string[]) => {
+    notifiedKeysRef.current = [...notifiedKeysRef.current, ...keys].slice(-MAX_NOTIFIED_KEYS);
+    await storage.setItem(NOTIFIED_STORAGE_KEY, JSON.stringify(notifiedKeysRef.current));
+  };
+
+  const fetchSnapshot = async (eventId: number, previous: LiveEventSnapshot | null): Promise<LiveEventSnapshot | null> => {
+    const event = await robotEventsAPI.getEventById(eventId);
+    if (!event) return null;
+
+    const divisions = event.divisions || [];
+    // Division requests run at background priority so they don't hold up the screen being viewed
+    const [matchResults, rankingResults, skillsResult, awardsResult] = await Promise.all([
+      Promise.allSettled(divisions.map(division =>
+        robotEventsAPI.getEventDivisionMatches(eventId, division.id, undefined, { priority: 'background' })
+      )),
+      Promise.allSettled(divisions.map(division =>
+        robotEventsAPI.getEventDivisionRankings(eventId, division.id, undefined, { priority: 'background' })
+      )),
+      robotEventsAPI.getEventSkills(eventId).catch(() => null),
+      robotEventsAPI.getEventAwards(eventId).catch(() => null),
+    ]);
+
+    // A failed request keeps the previous poll's data so it does not show up as a change
+    const matchesFailed = matchResults.some(result => result.status === 'rejected');
+    const rankingsFailed = rankingResults.some(result => result.status === 'rejected');
+
+    return {
+      eventId,
+      eventName: event.name,
+      fetchedAt: Date.now(),
+      matches: matchesFailed && previous
+        ? previous.matches
+        : matchResults.flatMap(result => (result.status === 'fulfilled' ? result.value.data : [])),
+      rankings: rankingsFailed && previous
+        ? previous.rankings
+        : rankingResults.flatMap(result => (result.status === 'fulfilled' ? result.value.data : [])),
+      skills: skillsResult?.data ?? previous?.skills ?? [],
+      awards: awardsResult?.data ?? previous?.awards ?? [],
+    };
+  };
+
+  const notifyChanges = async (previous: LiveEventSnapshot | null, snapshot: LiveEventSnapshot) => {
+    const { enabled, matches } = alertSettingsRef.current;
+    if (!enabled || favoriteTeamNumbersRef.current.length === 0) return;
+
+    const changes = diffLiveEventSnapshots(previous, snapshot, favoriteTeamNumbersRef.current, matches)
+      .filter(change => !notifiedKeysRef.current.includes(change.key));
+    if (changes.length === 0) return;
+
+    await markNotified(changes.map(change => change.key));
+
+    for (const change of changes) {
+      logger.debug('Live event change:', change.type, change.title);
+      await localNotifications.present(change.title, change.body, { eventId: change.eventId, type: change.type });
+    }
+  };
+
+  /**
+   * The app cannot poll in the background, so upcoming match alerts for the
+   * polled events are scheduled ahead of time from the match schedule.
+   * Scores, rank changes and awards are reported by the first poll after the
+   * app returns to the foreground.
+   */
+  const scheduleBackgroundReminders = async () => {
+    const { enabled, matches } = alertSettingsRef.current;
+    if (!enabled || favoriteTeamNumbersRef.current.length === 0) return;
+
+    const now = Date.now();
+    const reminders = Array.from(subscribersRef.current.keys())
+      .map(eventId => snapshotsRef.current[eventId])
+      .filter(Boolean)
+      .flatMap(snapshot => getScheduledMatchReminders(snapshot, favoriteTeamNumbersRef.current, matches, now))
+      .filter(reminder => !notifiedKeysRef.current.includes(reminder.key))
+      .sort((a, b) => a.triggerAt - b.triggerAt)
+      .slice(0, MAX_SCHEDULED_REMINDERS);
+
+    const scheduled: ScheduledReminder[] = [];
+    for (const reminder of reminders) {
+      const id = await localNotifications.scheduleAt(
+        reminder.title,
+        reminder.body,
+        new Date(reminder.triggerAt),
+        { eventId: reminder.eventId, type: 'upcomingMatch' }
+      );
+      if (id) scheduled.push({ id, key: reminder.key, triggerAt: reminder.triggerAt });
+    }
+
+    scheduledRemindersRef.current = scheduled;
+    await storage.setItem(SCHEDULED_STORAGE_KEY, JSON.stringify(scheduled));
+    logger.debug('Scheduled', scheduled.length, 'background match reminders');
+  };
+
+  // Reminders that already fired are not repeated by the next poll; the rest give way to polling
+  const clearScheduledReminders = async () => {
+    const scheduled = scheduledRemindersRef.current;
+    if (scheduled.length === 0) return;
+    scheduledRemindersRef.current = [];
+
+    const now = Date.now();
+    const fired = scheduled.filter(reminder => reminder.triggerAt <= now);
+    if (fired.length > 0) {
+      await markNotified(fired.map(reminder => reminder.key));
+    }
+    await localNotifications.cancel(scheduled.filter(reminder => reminder.triggerAt > now).map(reminder => reminder.id));
+    await storage.removeItem(SCHEDULED_STORAGE_KEY);
+  };
+
+  const scheduleNextPoll = (eventId: number) => {
+    const existing = timersRef.current.get(eventId);
+    if (existing) clearTimeout(existing);
+    timersRef.current.delete(eventId);
+
+    if (!subscribersRef.current.has(eventId) || !appActiveRef.current) return;
+
+    const snapshot = snapshotsRef.current[eventId];
+    const delay = snapshot
+      ? getLiveEventPollInterval(snapshot, favoriteTeamNumbersRef.current, alertSettingsRef.current.matches)
+      : LIVE_EVENT_POLL_INTERVALS.idle;
+    timersRef.current.set(eventId, setTimeout(() => pollEvent(eventId), delay));
+  };
+
+  const pollEvent = async (eventId: number): Promise<void> => {
+    if (inFlightRef.current.has(eventId)) return;
+    inFlightRef.current.add(eventId);
+
+    try {
+      const previous = snapshotsRef.current[eventId] || null;
+      const snapshot = await fetchSnapshot(eventId, previous);
+      if (!snapshot) {
+        logger.warn('Could not poll live event', eventId);
+        return;
+      }
+
+      snapshotsRef.current = { ...snapshotsRef.current, [eventId]: snapshot };
+      await notifyChanges(previous, snapshot);
+
+      const signature = getSnapshotSignature(snapshot);
+      if (signature !== signaturesRef.current.get(eventId)) {
+        signaturesRef.current.set(eventId, signature);
+        setSnapshots(snapshotsRef.current);
+        logger.debug('Live event', eventId, 'updated');
+
+        // The first poll only establishes a baseline for screens that just loaded
+        if (previous) {
+          subscribersRef.current.get(eventId)?.forEach(subscriber => subscriber.onChange?.());
+        }
+      }
+    } catch (error) {
+      logger.error('Failed to poll live event', eventId, ':', error);
+    } finally {
+      inFlightRef.current.delete(eventId);
+      scheduleNextPoll(eventId);
+    }
+  };
+
+  const subscribe = useCallback((eventId: number, onChange?: () => void) => {
+    const subscriber: Subscriber = { onChange };
+    const existing = subscribersRef.current.get(eventId);
+
+    if (existing) {
+      existing.add(subscriber);
+    } else {
+      subscribersRef.current.set(eventId, new Set([subscriber]));
+      logger.debug('Started polling live event', eventId);
+
+      // Reuse a recent poll (e.g. when moving between screens for the same event)
+      const snapshot = snapshotsRef.current[eventId];
+      if (snapshot && Date.now() - snapshot.fetchedAt < LIVE_EVENT_POLL_INTERVALS.teamUpNext) {
+        scheduleNextPoll(eventId);
+      } else {
+        pollEvent(eventId);
+      }
+    }
+
+    return () => {
+      const subscribers = subscribersRef.current.get(eventId);
+      if (!subscribers) return;
+      subscribers.delete(subscriber);
+      if (subscribers.size === 0) {
+        subscribersRef.current.delete(eventId);
+        const timer = timersRef.current.get(eventId);
+        if (timer) clearTimeout(timer);
+        timersRef.current.delete(eventId);
+        logger.debug('Stopped polling live event', eventId);
+      }
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Pause while the app is in the background and catch up when it returns
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      const isActive = state === 'active';
+      if (isActive === appActiveRef.current) return;
+      appActiveRef.current = isActive;
+
+      if (isActive) {
+        clearScheduledReminders()
+          .catch(error => logger.error('Failed to clear background match reminders:', error))
+          .finally(() => subscribersRef.current.forEach((_, eventId) => pollEvent(eventId)));
+      } else {
+        timersRef.current.forEach(timer => clearTimeout(timer));
+        timersRef.current.clear();
+        scheduleBackgroundReminders()
+          .catch(error => logger.error('Failed to schedule background match reminders:', error));
+      }
+    });
+
+    return () => {
+      subscription.remove();
+      timersRef.current.forEach(timer => clearTimeout(timer));
+      timersRef.current.clear();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const refreshEvent = async (eventId: number): Promise<void> => {
+    await pollEvent(eventId);
+  };
+
+  const value: LiveEventContextType = {
+    snapshots,
+    subscribe,
+    refreshEvent,
+  };
+
+  return (
+    <LiveEventContext.Provider value={value}>
+      {children}
+    </LiveEventContext.Provider>
+  );
+};
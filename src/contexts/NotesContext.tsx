@@ -1,6 +1,8 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { createLogger } from '../utils/logger';
 import { storage } from '../utils/webCompatibility';
+import { ScoutingData } from '../types/scouting';
+import { hasScoutingData } from '../utils/scouting/summary';
 
 const logger = createLogger('NotesContext');
 
@@ -21,6 +23,7 @@ export interface TeamMatchNote {
   createdAt: string; // ISO date string
   updatedAt: string; // ISO date string
   imageUri?: string; // Optional image attachment
+  scouting?: ScoutingData; // Optional structured scouting responses
 }
 
 interface NotesContextType {
@@ -39,6 +42,7 @@ interface NotesContextType {
   deleteEmptyNotes: () => Promise<void>;
   clearAllNotes: () => Promise<void>;
   getAllNotes: () => TeamMatchNote[];
+  importNotes: (upserts: TeamMatchNote[], removedIds?: string[]) => Promise<void>;
 }
 
 const NotesContext = createContext<NotesContextType | undefined>(undefined);
@@ -55,7 +59,7 @@ interface NotesProviderProps {
   children: ReactNode;
 }
 
-const NOTES_STORAGE_KEY = 'team_match_notes';
+export const NOTES_STORAGE_KEY = 'team_match_notes';
 
 export const NotesProvider: React.FC<NotesProviderProps> = ({ children }) => {
   const [notes, setNotes] = useState<TeamMatchNote[]>([]);
@@ -100,7 +104,7 @@ export const NotesProvider: React.FC<NotesProviderProps> = ({ children }) => {
     return notes.filter(note => {
       const matchesTeam = note.teamId === teamId;
       const matchesEvent = eventId ? note.eventId === eventId : true;
-      return matchesTeam && matchesEvent && note.note.trim() !== '';
+      return matchesTeam && matchesEvent && (note.note.trim() !== '' || hasScoutingData(note));
     });
   };
 
@@ -108,7 +112,7 @@ export const NotesProvider: React.FC<NotesProviderProps> = ({ children }) => {
     return notes.filter(note =>
       note.eventId === eventId &&
       note.matchId === matchId &&
-      (note.note.trim() !== '' || note.imageUri)
+      (note.note.trim() !== '' || note.imageUri || hasScoutingData(note))
     );
   };
 
@@ -141,6 +145,7 @@ export const NotesProvider: React.FC<NotesProviderProps> = ({ children }) => {
         createdAt: now,
         updatedAt: now,
         imageUri: noteData.imageUri,
+        scouting: noteData.scouting,
       };
 
       const newNotes = [...notes, newNote];
@@ -246,7 +251,7 @@ export const NotesProvider: React.FC<NotesProviderProps> = ({ children }) => {
 
   const deleteEmptyNotes = async (): Promise<void> => {
     try {
-      const nonEmptyNotes = notes.filter(note => note.note.trim() !== '');
+      const nonEmptyNotes = notes.filter(note => note.note.trim() !== '' || hasScoutingData(note));
       const deletedCount = notes.length - nonEmptyNotes.length;
 
       if (deletedCount > 0) {
@@ -273,6 +278,28 @@ export const NotesProvider: React.FC<NotesProviderProps> = ({ children }) => {
     return notes;
   };
 
+  // Saves notes from another device as-is (keeping their IDs and timestamps)
+  const importNotes = async (upserts: TeamMatchNote[], removedIds: string[] = []): Promise<void> => {
+    try {
+      const upsertsById = new Map(upserts.map(note => [note.id, note]));
+      const newNotes = notes
+        .filter(note => !removedIds.includes(note.id))
+        .map(note => upsertsById.get(note.id) || note);
+      const existingIds = new Set(newNotes.map(note => note.id));
+      upserts.forEach(note => {
+        if (!existingIds.has(note.id)) {
+          newNotes.push(note);
+        }
+      });
+
+      await saveNotes(newNotes);
+      logger.debug('Imported', upserts.length, 'notes, removed', removedIds.length);
+    } catch (error) {
+      logger.error('Failed to import notes:', error);
+      throw error;
+    }
+  };
+
   const value: NotesContextType = {
     notes,
     loadNotes,
@@ -289,6 +316,7 @@ export const NotesProvider: React.FC<NotesProviderProps> = ({ children }) => {
     deleteEmptyNotes,
     clearAllNotes,
     getAllNotes,
+    importNotes,
   };
 
   return (
@@ -0,0 +1,188 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { createLogger } from '../utils/logger';
+import { storage } from '../utils/webCompatibility';
+import { RefereeMatchTeam, ViolationEntry } from '../utils/refereeLog';
+
+const logger = createLogger('RefereeContext');
+
+export interface RefereeMatchLog {
+  id: string; // `${eventId}_${divisionId}_${matchId}`
+  eventId: number;
+  eventName?: string;
+  divisionId: number;
+  matchId: number;
+  matchName: string;
+  program: string; // Manual the rules were picked from
+  season: string;
+  teams: RefereeMatchTeam[];
+  violations: ViolationEntry[]; // In the order they were logged
+  createdAt: string; // ISO date string
+  updatedAt: string; // ISO date string
+}
+
+export type RefereeMatchInfo = Omit<RefereeMatchLog, 'id' | 'violations' | 'createdAt' | 'updatedAt'>;
+
+interface RefereeContextType {
+  matchLogs: RefereeMatchLog[];
+  loadMatchLogs: () => Promise<void>;
+  getMatchLog: (eventId: number, divisionId: number, matchId: number) => RefereeMatchLog | null;
+  getDivisionLogs: (eventId: number, divisionId: number) => RefereeMatchLog[];
+  addViolation: (
+    match: RefereeMatchInfo,
+    violation: Omit<ViolationEntry, 'id' | 'timestamp'>
+  ) => Promise<ViolationEntry>;
+  removeViolation: (logId: string, violationId: string) => Promise<void>;
+  deleteMatchLog: (logId: string) => Promise<void>;
+  clearAllMatchLogs: () => Promise<void>;
+}
+
+const RefereeContext = createContext<RefereeContextType | undefined>(undefined);
+
+export const useReferee = () => {
+  const context = useContext(RefereeContext);
+  if (!context) {
+    throw new Error('useReferee must be used within a RefereeProvider');
+  }
+  return context;
+};
+
+interface RefereeProviderProps {
+  children: ReactNode;
+}
+
+export const REFEREE_STORAGE_KEY = 'referee_match_logs';
+
+const getMatchLogId = (eventId: number, divisionId: number, matchId: number): string =>
+  `${eventId}_${divisionId}_${matchId}`;
+
+export const RefereeProvider: React.FC<RefereeProviderProps> = ({ children }) => {
+  const [matchLogs, setMatchLogs] = useState<RefereeMatchLog[]>([]);
+
+  useEffect(() => {
+    loadMatchLogs();
+  }, []);
+
+  const loadMatchLogs = async (): Promise<void> => {
+    try {
+      const savedLogs = await storage.getItem(REFEREE_STORAGE_KEY);
+      if (savedLogs) {
+        const parsedLogs: RefereeMatchLog[] = JSON.parse(savedLogs);
+        setMatchLogs(parsedLogs);
+        logger.debug('Loaded', parsedLogs.length, 'referee match logs from storage');
+      }
+    } catch (error) {
+      logger.error('Failed to load referee match logs:', error);
+    }
+  };
+
+  const saveMatchLogs = async (newLogs: RefereeMatchLog[]): Promise<void> => {
+    try {
+      await storage.setItem(REFEREE_STORAGE_KEY, JSON.stringify(newLogs));
+      setMatchLogs(newLogs);
+      logger.debug('Saved', newLogs.length, 'referee match logs to storage');
+    } catch (error) {
+      logger.error('Failed to save referee match logs:', error);
+      throw error;
+    }
+  };
+
+  const generateViolationId = (): string => {
+    return 'violation_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
+  };
+
+  const getMatchLog = (eventId: number, divisionId: number, matchId: number): RefereeMatchLog | null => {
+    const logId = getMatchLogId(eventId, divisionId, matchId);
+    return matchLogs.find(log => log.id === logId) || null;
+  };
+
+  const getDivisionLogs = (eventId: number, divisionId: number): RefereeMatchLog[] => {
+    return matchLogs.filter(log => log.eventId === eventId && log.divisionId === divisionId);
+  };
+
+  // Creates the match log on the first violation, otherwise appends to it
+  const addViolation = async (
+    match: RefereeMatchInfo,
+    violation: Omit<ViolationEntry, 'id' | 'timestamp'>
+  ): Promise<ViolationEntry> => {
+    try {
+      const logId = getMatchLogId(match.eventId, match.divisionId, match.matchId);
+      const now = new Date();
+      const entry: ViolationEntry = { ...violation, id: generateViolationId(), timestamp: now.getTime() };
+      const existing = matchLogs.find(log => log.id === logId);
+
+      const matchLog: RefereeMatchLog = existing
+        ? { ...existing, ...match, violations: [...existing.violations, entry], updatedAt: now.toISOString() }
+        : {
+            ...match,
+            id: logId,
+            violations: [entry],
+            createdAt: now.toISOString(),
+            updatedAt: now.toISOString(),
+          };
+
+      const newLogs = existing
+        ? matchLogs.map(log => (log.id === logId ? matchLog : log))
+        : [...matchLogs, matchLog];
+      await saveMatchLogs(newLogs);
+
+      return entry;
+    } catch (error) {
+      logger.error('Failed to log violation:', error);
+      throw error;
+    }
+  };
+
+  // Removing a Minor also clears the escalation link from any Major that pointed at it
+  const removeViolation = async (logId: string, violationId: string): Promise<void> => {
+    try {
+      const newLogs = matchLogs.map(log => log.id !== logId ? log : {
+        ...log,
+        violations: log.violations
+          .filter(entry => entry.id !== violationId)
+          .map(entry => entry.escalatedFromId === violationId ? { ...entry, escalatedFromId: undefined } : entry),
+        updatedAt: new Date().toISOString(),
+      });
+      await saveMatchLogs(newLogs);
+    } catch (error) {
+      logger.error('Failed to remove violation:', error);
+      throw error;
+    }
+  };
+
+  const deleteMatchLog = async (logId: string): Promise<void> => {
+    try {
+      await saveMatchLogs(matchLogs.filter(log => log.id !== logId));
+      logger.debug('Deleted referee match log', logId);
+    } catch (error) {
+      logger.error('Failed to delete referee match log:', error);
+      throw error;
+    }
+  };
+
+  const clearAllMatchLogs = async (): Promise<void> => {
+    try {
+      await saveMatchLogs([]);
+      logger.debug('Cleared all referee match logs');
+    } catch (error) {
+      logger.error('Failed to clear referee match logs:', error);
+      throw error;
+    }
+  };
+
+  const value: RefereeContextType = {
+    matchLogs,
+    loadMatchLogs,
+    getMatchLog,
+    getDivisionLogs,
+    addViolation,
+    removeViolation,
+    deleteMatchLog,
+    clearAllMatchLogs,
+  };
+
+  return (
+    <RefereeContext.Provider value={value}>
+      {children}
+    </RefereeContext.Provider>
+  );
+};
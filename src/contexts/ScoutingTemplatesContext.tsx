@@ -0,0 +1,211 @@
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import { createLogger } from '../utils/logger';
+import { storage } from '../utils/webCompatibility';
+import { ScoutingTemplate } from '../types/scouting';
+import { BUILT_IN_SCOUTING_TEMPLATES, getBuiltInScoutingTemplates } from '../utils/scouting/templates';
+
+const logger = createLogger('ScoutingTemplatesContext');
+
+interface ScoutingTemplatesContextType {
+  customTemplates: ScoutingTemplate[];
+  loadTemplates: () => Promise<void>;
+  getTemplate: (templateId: string) => ScoutingTemplate | null;
+  getTemplatesForProgram: (programShortName: string) => ScoutingTemplate[];
+  getActiveTemplate: (programShortName: string) => ScoutingTemplate | null;
+  setActiveTemplate: (programShortName: string, templateId: string) => Promise<void>;
+  saveTemplate: (templateData: Omit<ScoutingTemplate, 'id' | 'builtIn' | 'createdAt' | 'updatedAt'> & { id?: string }) => Promise<ScoutingTemplate>;
+  duplicateTemplate: (templateId: string, programShortName: string) => Promise<ScoutingTemplate>;
+  deleteTemplate: (templateId: string) => Promise<void>;
+  importTemplates: (templates: ScoutingTemplate[]) => Promise<void>;
+}
+
+const ScoutingTemplatesContext = createContext<ScoutingTemplatesContextType | undefined>(undefined);
+
+export const useScoutingTemplates = () => {
+  const context = useContext(ScoutingTemplatesContext);
+  if (!context) {
+    throw new Error('useScoutingTemplates must be used within a ScoutingTemplatesProvider');
+  }
+  return context;
+};
+
+interface ScoutingTemplatesProviderProps {
+  children: ReactNode;
+}
+
+export const TEMPLATES_STORAGE_KEY = 'scouting_templates';
+export const ACTIVE_TEMPLATES_STORAGE_KEY = 'scouting_active_templates';
+
+export const ScoutingTemplatesProvider: React.FC<ScoutingTemplatesProviderProps> = ({ children }) => {
+  const [customTemplates, setCustomTemplates] = useState<ScoutingTemplate[]>([]);
+  // Program short name -> template ID
+  const [activeTemplateIds, setActiveTemplateIds] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const loadTemplates = async (): Promise<void> => {
+    try {
+      const [savedTemplates, savedActive] = await Promise.all([
+        storage.getItem(TEMPLATES_STORAGE_KEY),
+        storage.getItem(ACTIVE_TEMPLATES_STORAGE_KEY),
+      ]);
+      if (savedTemplates) {
+        const parsedTemplates: ScoutingTemplate[] = JSON.parse(savedTemplates);
+        setCustomTemplates(parsedTemplates);
+        logger.debug('Loaded', parsedTemplates.length, 'custom scouting templates from storage');
+      }
+      if (savedActive) {
+        setActiveTemplateIds(JSON.parse(savedActive));
+      }
+    } catch (error) {
+      logger.error('Failed to load scouting templates:', error);
+    }
+  };
+
+  const saveTemplates = async (newTemplates: ScoutingTemplate[]): Promise<void> => {
+    try {
+      await storage.setItem(TEMPLATES_STORAGE_KEY, JSON.stringify(newTemplates));
+      setCustomTemplates(newTemplates);
+      logger.debug('Saved', newTemplates.length, 'custom scouting templates to storage');
+    } catch (error) {
+      logger.error('Failed to save scouting templates:', error);
+      throw error;
+    }
+  };
+
+  const generateTemplateId = (): string => {
+    return 'template_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
+  };
+
+  const getTemplate = (templateId: string): ScoutingTemplate | null => {
+    return BUILT_IN_SCOUTING_TEMPLATES.find(template => template.id === templateId)
+      || customTemplates.find(template => template.id === templateId)
+      || null;
+  };
+
+  const getTemplatesForProgram = (programShortName: string): ScoutingTemplate[] => {
+    return [
+      ...getBuiltInScoutingTemplates(programShortName),
+      ...customTemplates.filter(template => template.programs.includes(programShortName)),
+    ];
+  };
+
+  // Falls back to the program's first template when none has been chosen (or it was deleted)
+  const getActiveTemplate = (programShortName: string): ScoutingTemplate | null => {
+    const templates = getTemplatesForProgram(programShortName);
+    const activeId = activeTemplateIds[programShortName];
+    return templates.find(template => template.id === activeId) || templates[0] || null;
+  };
+
+  const setActiveTemplate = async (programShortName: string, templateId: string): Promise<void> => {
+    try {
+      const newActiveIds = { ...activeTemplateIds, [programShortName]: templateId };
+      await storage.setItem(ACTIVE_TEMPLATES_STORAGE_KEY, JSON.stringify(newActiveIds));
+      setActiveTemplateIds(newActiveIds);
+      logger.debug('Set active scouting template for', programShortName, 'to', templateId);
+    } catch (error) {
+      logger.error('Failed to set active scouting template:', error);
+      throw error;
+    }
+  };
+
+  // Creates a template when no ID is given, otherwise updates the custom template with that ID
+  const saveTemplate = async (
+    templateData: Omit<ScoutingTemplate, 'id' | 'builtIn' | 'createdAt' | 'updatedAt'> & { id?: string }
+  ): Promise<ScoutingTemplate> => {
+    try {
+      const now = new Date().toISOString();
+      const existing = templateData.id
+        ? customTemplates.find(template => template.id === templateData.id)
+        : undefined;
+
+      if (templateData.id && !existing) {
+        throw new Error('Template not found');
+      }
+
+      const template: ScoutingTemplate = {
+        name: templateData.name,
+        programs: templateData.programs,
+        fields: templateData.fields,
+        id: existing ? existing.id : generateTemplateId(),
+        createdAt: existing?.createdAt || now,
+        updatedAt: now,
+      };
+
+      const newTemplates = existing
+        ? customTemplates.map(t => (t.id === template.id ? template : t))
+        : [...customTemplates, template];
+      await saveTemplates(newTemplates);
+
+      logger.debug(existing ? 'Updated' : 'Created', 'scouting template', template.name);
+      return template;
+    } catch (error) {
+      logger.error('Failed to save scouting template:', error);
+      throw error;
+    }
+  };
+
+  const duplicateTemplate = async (templateId: string, programShortName: string): Promise<ScoutingTemplate> => {
+    const source = getTemplate(templateId);
+    if (!source) {
+      throw new Error('Template not found');
+    }
+
+    return saveTemplate({
+      name: `${source.name} (Copy)`,
+      programs: [programShortName],
+      fields: source.fields.map(field => ({ ...field, options: field.options?.map(option => ({ ...option })) })),
+    });
+  };
+
+  const deleteTemplate = async (templateId: string): Promise<void> => {
+    try {
+      await saveTemplates(customTemplates.filter(template => template.id !== templateId));
+      logger.debug('Deleted scouting template', templateId);
+    } catch (error) {
+      logger.error('Failed to delete scouting template:', error);
+      throw error;
+    }
+  };
+
+  // Saves templates from another device as-is, replacing custom templates with the same ID
+  const importTemplates = async (templates: ScoutingTemplate[]): Promise<void> => {
+    try {
+      const incoming = templates.filter(template => !template.builtIn);
+      const incomingById = new Map(incoming.map(template => [template.id, template]));
+      const newTemplates = customTemplates.map(template => incomingById.get(template.id) || template);
+      incoming.forEach(template => {
+        if (!customTemplates.some(t => t.id === template.id)) {
+          newTemplates.push(template);
+        }
+      });
+
+      await saveTemplates(newTemplates);
+      logger.debug('Imported', incoming.length, 'scouting templates');
+    } catch (error) {
+      logger.error('Failed to import scouting templates:', error);
+      throw error;
+    }
+  };
+
+  const value: ScoutingTemplatesContextType = {
+    customTemplates,
+    loadTemplates,
+    getTemplate,
+    getTemplatesForProgram,
+    getActiveTemplate,
+    setActiveTemplate,
+    saveTemplate,
+    duplicateTemplate,
+    deleteTemplate,
+    importTemplates,
+  };
+
+  return (
+    <ScoutingTemplatesContext.Provider value={value}>
+      {children}
+    </ScoutingTemplatesContext.Provider>
+  );
+};
@@ -87,6 +87,8 @@ interface SettingsContextType {
   globalSeasonEnabled: boolean;
   devLiveEventSimulation: boolean;
   devTestEventId: string;
+  devFixtureMode: boolean;
+  devMockServerUrl: string;
   developerTabEnabled: boolean;
   devOnlyProgramsEnabled: boolean;
   scoringCalculatorsEnabled: boolean;
@@ -110,6 +112,12 @@ interface SettingsContextType {
   setStoredDeveloperCode: (code: string) => void;
   trueSkillEnabled: boolean;
   setTrueSkillEnabled: (enabled: boolean) => void;
+  matchPredictionsEnabled: boolean;
+  setMatchPredictionsEnabled: (enabled: boolean) => void;
+  liveEventAlertsEnabled: boolean;
+  setLiveEventAlertsEnabled: (enabled: boolean) => void;
+  liveEventAlertMatches: number; // Alert when a favorite team's match is this many matches away
+  setLiveEventAlertMatches: (matches: number) => void;
   autoLocationCountryFilter: boolean;
   setAutoLocationCountryFilter: (enabled: boolean) => void;
   setCompactViewAll: (enabled: boolean) => void;
@@ -174,6 +182,8 @@ interface SettingsContextType {
   setGlobalSeasonEnabled: (enabled: boolean) => void;
   setDevLiveEventSimulation: (enabled: boolean) => void;
   setDevTestEventId: (eventId: string) => void;
+  setDevFixtureMode: (enabled: boolean) => void;
+  setDevMockServerUrl: (url: string) => void;
   setDeveloperTabEnabled: (enabled: boolean) => void;
   setDevOnlyProgramsEnabled: (enabled: boolean) => void;
   setScoringCalculatorsEnabled: (enabled: boolean) => void;
@@ -189,7 +199,7 @@ interface SettingsContextType {
 
 const SettingsContext = createContext<SettingsContextType | undefined>(undefined);
 
-const STORAGE_KEYS = {
+export const STORAGE_KEYS = {
   selectedProgram: 'selectedProgram',
   selectedSeason: 'selectedSeason',
   enableHaptics: 'enableHaptics',
@@ -205,6 +215,8 @@ const STORAGE_KEYS = {
   globalSeasonEnabled: 'globalSeasonEnabled',
   devLiveEventSimulation: 'devLiveEventSimulation',
   devTestEventId: 'devTestEventId',
+  devFixtureMode: 'devFixtureMode',
+  devMockServerUrl: 'devMockServerUrl',
   developerTabEnabled: 'developerTabEnabled',
   devOnlyProgramsEnabled: 'devOnlyProgramsEnabled',
   scoringCalculatorsEnabled: 'scoringCalculatorsEnabled',
@@ -229,6 +241,9 @@ const STORAGE_KEYS = {
   programColorOverrides: 'programColorOverrides',
   globalSeasonMigrated: 'globalSeasonMigrated', // One-time migration flag
   trueSkillEnabled: 'trueSkillEnabled',
+  matchPredictionsEnabled: 'matchPredictionsEnabled',
+  liveEventAlertsEnabled: 'liveEventAlertsEnabled',
+  liveEventAlertMatches: 'liveEventAlertMatches',
   colorblindMode: 'colorblindMode',
   autoLocationCountryFilter: 'autoLocationCountryFilter',
 };
@@ -370,6 +385,8 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
   const [globalSeasonEnabled, setGlobalSeasonEnabledState] = useState(true);
   const [devLiveEventSimulation, setDevLiveEventSimulationState] = useState(false);
   const [devTestEventId, setDevTestEventIdState] = useState('');
+  const [devFixtureMode, setDevFixtureModeState] = useState(false);
+  const [devMockServerUrl, setDevMockServerUrlState] = useState('');
   const [developerTabEnabled, setDeveloperTabEnabledState] = useState(false);
   const [devOnlyProgramsEnabled, setDevOnlyProgramsEnabledState] = useState(false);
   const [scoringCalculatorsEnabled, setScoringCalculatorsEnabledState] = useState(false);
@@ -392,6 +409,9 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
   const [scrollBarTeamBrowser, setScrollBarTeamBrowserState] = useState(false);
   const [storedDeveloperCode, setStoredDeveloperCodeState] = useState('');
   const [trueSkillEnabled, setTrueSkillEnabledState] = useState(true);
+  const [matchPredictionsEnabled, setMatchPredictionsEnabledState] = useState(true);
+  const [liveEventAlertsEnabled, setLiveEventAlertsEnabledState] = useState(false);
+  const [liveEventAlertMatches, setLiveEventAlertMatchesState] = useState(3);
   const [autoLocationCountryFilter, setAutoLocationCountryFilterState] = useState(false);
   const [deviceColorScheme, setDeviceColorScheme] = useState<ColorSchemeName>(Appearance.getColorScheme());
   const [previewProgram, setPreviewProgramState] = useState<ProgramType | null>(null);
@@ -543,6 +563,8 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
         const savedGlobalSeason = await storage.getItem(STORAGE_KEYS.globalSeasonEnabled);
         const savedDevLiveEventSimulation = await storage.getItem(STORAGE_KEYS.devLiveEventSimulation);
         const savedDevTestEventId = await storage.getItem(STORAGE_KEYS.devTestEventId);
+        const savedDevFixtureMode = await storage.getItem(STORAGE_KEYS.devFixtureMode);
+        const savedDevMockServerUrl = await storage.getItem(STORAGE_KEYS.devMockServerUrl);
         const savedDeveloperTabEnabled = await storage.getItem(STORAGE_KEYS.developerTabEnabled);
         const savedDevOnlyProgramsEnabled = await storage.getItem(STORAGE_KEYS.devOnlyProgramsEnabled);
         const savedScoringCalculatorsEnabled = await storage.getItem(STORAGE_KEYS.scoringCalculatorsEnabled);
@@ -564,6 +586,9 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
         const savedScrollBarTeamBrowser = await storage.getItem(STORAGE_KEYS.scrollBarTeamBrowser);
         const savedStoredDeveloperCode = await storage.getItem(STORAGE_KEYS.storedDeveloperCode);
         const savedTrueSkillEnabled = await storage.getItem(STORAGE_KEYS.trueSkillEnabled);
+        const savedMatchPredictionsEnabled = await storage.getItem(STORAGE_KEYS.matchPredictionsEnabled);
+        const savedLiveEventAlertsEnabled = await storage.getItem(STORAGE_KEYS.liveEventAlertsEnabled);
+        const savedLiveEventAlertMatches = await storage.getItem(STORAGE_KEYS.liveEventAlertMatches);
         const savedAutoLocationCountryFilter = await storage.getItem(STORAGE_KEYS.autoLocationCountryFilter);
         const savedProgramColorOverrides = await storage.getItem(STORAGE_KEYS.programColorOverrides);
         const globalSeasonMigrated = await storage.getItem(STORAGE_KEYS.globalSeasonMigrated);
@@ -605,6 +630,8 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
 
         if (savedDevLiveEventSimulation) setDevLiveEventSimulationState(JSON.parse(savedDevLiveEventSimulation));
         if (savedDevTestEventId) setDevTestEventIdState(savedDevTestEventId);
+        if (savedDevFixtureMode) setDevFixtureModeState(JSON.parse(savedDevFixtureMode));
+        if (savedDevMockServerUrl) setDevMockServerUrlState(savedDevMockServerUrl);
         if (savedDeveloperTabEnabled) setDeveloperTabEnabledState(JSON.parse(savedDeveloperTabEnabled));
         if (savedDevOnlyProgramsEnabled) setDevOnlyProgramsEnabledState(JSON.parse(savedDevOnlyProgramsEnabled));
         if (savedScoringCalculatorsEnabled) setScoringCalculatorsEnabledState(JSON.parse(savedScoringCalculatorsEnabled));
@@ -628,6 +655,9 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
         if (savedScrollBarTeamBrowser) setScrollBarTeamBrowserState(JSON.parse(savedScrollBarTeamBrowser));
         if (savedStoredDeveloperCode) setStoredDeveloperCodeState(savedStoredDeveloperCode);
         if (savedTrueSkillEnabled !== null) setTrueSkillEnabledState(JSON.parse(savedTrueSkillEnabled));
+        if (savedMatchPredictionsEnabled !== null) setMatchPredictionsEnabledState(JSON.parse(savedMatchPredictionsEnabled));
+        if (savedLiveEventAlertsEnabled !== null) setLiveEventAlertsEnabledState(JSON.parse(savedLiveEventAlertsEnabled));
+        if (savedLiveEventAlertMatches !== null) setLiveEventAlertMatchesState(JSON.parse(savedLiveEventAlertMatches));
         if (savedAutoLocationCountryFilter !== null) setAutoLocationCountryFilterState(JSON.parse(savedAutoLocationCountryFilter));
         if (savedProgramColorOverrides) setProgramColorOverridesState(JSON.parse(savedProgramColorOverrides));
 
@@ -658,6 +688,12 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     robotEventsAPI.setSelectedProgram(selectedProgram);
   }, [selectedProgram]);
 
+  // Route API requests to fixture data or a local mock server in developer mode
+  useEffect(() => {
+    robotEventsAPI.setFixtureMode(isDeveloperMode && devFixtureMode, devLiveEventSimulation);
+    robotEventsAPI.setMockServerUrl(isDeveloperMode ? devMockServerUrl : null);
+  }, [isDeveloperMode, devFixtureMode, devLiveEventSimulation, devMockServerUrl]);
+
   // Update game manual service when bundled setting changes
   useEffect(() => {
     setGameManualServiceBundled(useBundledGameManuals);
@@ -783,6 +819,16 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     await storage.setItem(STORAGE_KEYS.devTestEventId, eventId);
   };
 
+  const setDevFixtureMode = async (enabled: boolean) => {
+    setDevFixtureModeState(enabled);
+    await storage.setItem(STORAGE_KEYS.devFixtureMode, JSON.stringify(enabled));
+  };
+
+  const setDevMockServerUrl = async (url: string) => {
+    setDevMockServerUrlState(url);
+    await storage.setItem(STORAGE_KEYS.devMockServerUrl, url);
+  };
+
   const setDeveloperTabEnabled = async (enabled: boolean) => {
     setDeveloperTabEnabledState(enabled);
     await storage.setItem(STORAGE_KEYS.developerTabEnabled, JSON.stringify(enabled));
@@ -956,6 +1002,21 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     await storage.setItem(STORAGE_KEYS.trueSkillEnabled, JSON.stringify(enabled));
   };
 
+  const setMatchPredictionsEnabled = async (enabled: boolean) => {
+    setMatchPredictionsEnabledState(enabled);
+    await storage.setItem(STORAGE_KEYS.matchPredictionsEnabled, JSON.stringify(enabled));
+  };
+
+  const setLiveEventAlertsEnabled = async (enabled: boolean) => {
+    setLiveEventAlertsEnabledState(enabled);
+    await storage.setItem(STORAGE_KEYS.liveEventAlertsEnabled, JSON.stringify(enabled));
+  };
+
+  const setLiveEventAlertMatches = async (matches: number) => {
+    setLiveEventAlertMatchesState(matches);
+    await storage.setItem(STORAGE_KEYS.liveEventAlertMatches, JSON.stringify(matches));
+  };
+
   const setAutoLocationCountryFilter = async (enabled: boolean) => {
     setAutoLocationCountryFilterState(enabled);
     await storage.setItem(STORAGE_KEYS.autoLocationCountryFilter, JSON.stringify(enabled));
@@ -1071,6 +1132,8 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     globalSeasonEnabled,
     devLiveEventSimulation,
     devTestEventId,
+    devFixtureMode,
+    devMockServerUrl,
     developerTabEnabled,
     devOnlyProgramsEnabled,
     scoringCalculatorsEnabled,
@@ -1094,6 +1157,12 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     setStoredDeveloperCode,
     trueSkillEnabled,
     setTrueSkillEnabled,
+    matchPredictionsEnabled,
+    setMatchPredictionsEnabled,
+    liveEventAlertsEnabled,
+    setLiveEventAlertsEnabled,
+    liveEventAlertMatches,
+    setLiveEventAlertMatches,
     autoLocationCountryFilter,
     setAutoLocationCountryFilter,
     programColorOverrides,
@@ -1161,6 +1230,8 @@ export const SettingsProvider: React.FC<{ children: ReactNode }> = ({ children }
     setGlobalSeasonEnabled,
     setDevLiveEventSimulation,
     setDevTestEventId,
+    setDevFixtureMode,
+    setDevMockServerUrl,
     setDeveloperTabEnabled,
     setDevOnlyProgramsEnabled,
     setScoringCalculatorsEnabled,
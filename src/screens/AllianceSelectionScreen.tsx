@@ -0,0 +1,859 @@
+/**
+ * Alliance Selection Screen
+ *
+ * Description:
+ * Pick-list builder and live alliance selection assistant for a division. Teams
+ * are ordered into a pick list ahead of time, then accepts and declines are
+ * recorded live while the assistant tracks which captain is on the clock and
+ * suggests the best partner still available.
+ *
+ * Navigation:
+ * Accessed from the pick list button on the division rankings tab (2v2 programs).
+ *
+ * Key Features:
+ * - Drag-to-reorder pick list with picked/declined/captain status
+ * - Live selection log with undo: current captain, upcoming captains, formed alliances
+ * - Partner suggestions weighted by OPR, event skills score and #tags from match notes
+ * - Per-division pick lists and selection logs saved on the device
+ */
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Vibration,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSettings } from '../contexts/SettingsContext';
+import { useNotes } from '../contexts/NotesContext';
+import { useAllianceSelection, DEFAULT_ALLIANCE_COUNT } from '../contexts/AllianceSelectionContext';
+import { robotEventsAPI } from '../services/apiRouter';
+import { Ranking, Skill } from '../types/api';
+import { calculateMatchAnalytics } from '../utils/matchAnalytics';
+import {
+  computeSelectionState,
+  getTeamNoteTags,
+  suggestPartners,
+  SelectionAction,
+  SuggestionWeights,
+  TeamSelectionData,
+  DEFAULT_SUGGESTION_WEIGHTS,
+} from '../utils/allianceSelection';
+import DraggableList from '../components/DraggableList';
+import { alerts } from '../utils/webCompatibility';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('AllianceSelectionScreen');
+
+const PICK_ROW_HEIGHT = 60;
+const ALLIANCE_COUNT_OPTIONS = [4, 8, 12, 16];
+const WEIGHT_STEP = 0.5;
+const MAX_SUGGESTIONS = 5;
+
+interface AllianceSelectionScreenProps {
+  navigation: any;
+  route: {
+    params: {
+      event: { id: number; name: string };
+      division: { id: number; name: string };
+      teamsMap?: { [key: string]: string };
+    };
+  };
+}
+
+type SelectionTab = 'selection' | 'pickList' | 'weights';
+
+type TeamStatus = 'captain' | 'picked' | 'declined' | 'onClock' | 'available';
+
+const AllianceSelectionScreen: React.FC<AllianceSelectionScreenProps> = ({ navigation, route }) => {
+  const { event, division, teamsMap = {} } = route.params;
+  const settings = useSettings();
+  const { getNotesByEvent } = useNotes();
+  const { getSession, saveSession, deleteSession } = useAllianceSelection();
+
+  const [activeTab, setActiveTab] = useState<SelectionTab>('selection');
+  const [loading, setLoading] = useState(true);
+  const [rankings, setRankings] = useState<Ranking[]>([]);
+  const [teamData, setTeamData] = useState<Record<number, TeamSelectionData>>({});
+  const [dragging, setDragging] = useState(false);
+
+  const session = getSession(event.id, division.id);
+  const pickList = session?.pickList ?? [];
+  const actions = session?.actions ?? [];
+  const allianceCount = session?.allianceCount ?? DEFAULT_ALLIANCE_COUNT;
+  const weights = session?.weights ?? DEFAULT_SUGGESTION_WEIGHTS;
+
+  const rankedTeamIds = useMemo(() => rankings.map(ranking => ranking.team.id), [rankings]);
+  const rankByTeam = useMemo(
+    () => new Map(rankings.map(ranking => [ranking.team.id, ranking.rank])),
+    [rankings]
+  );
+
+  const selectionState = useMemo(
+    () => computeSelectionState(rankedTeamIds, actions, Math.min(allianceCount, Math.floor(rankedTeamIds.length / 2))),
+    [rankedTeamIds, actions, allianceCount]
+  );
+
+  const suggestions = useMemo(
+    () => suggestPartners(selectionState.availableTeamIds, teamData, weights),
+    [selectionState.availableTeamIds, teamData, weights]
+  );
+
+  // Tags found in this event's notes, most used first
+  const noteTags = useMemo(() => {
+    const counts: Record<string, number> = {};
+    Object.values(teamData).forEach(data => {
+      Object.keys(data.tags).forEach(tag => { counts[tag] = (counts[tag] || 0) + 1; });
+    });
+    return Object.entries(counts).sort((a, b) => b[1] - a[1]).map(([tag, count]) => ({ tag, count }));
+  }, [teamData]);
+
+  useEffect(() => {
+    navigation.setOptions({
+      title: 'Alliance Selection',
+      headerStyle: {
+        backgroundColor: settings.topBarColor,
+      },
+      headerTintColor: settings.topBarContentColor,
+      headerTitleAlign: 'center',
+      headerTitleStyle: {
+        fontWeight: '500',
+        fontSize: 19,
+      },
+      headerRight: () => session ? (
+        <TouchableOpacity onPress={handleReset} style={styles.headerButton}>
+          <Ionicons name="trash-outline" size={22} color={settings.topBarContentColor} />
+        </TouchableOpacity>
+      ) : null,
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [navigation, settings.topBarColor, settings.topBarContentColor, session]);
+
+  useEffect(() => {
+    fetchData();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [event.id, division.id]);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const [rankingsResponse, matchesResponse, skillsResult] = await Promise.all([
+        robotEventsAPI.getEventDivisionRankings(event.id, division.id),
+        robotEventsAPI.getEventDivisionMatches(event.id, division.id),
+        robotEventsAPI.getEventSkills(event.id).catch(error => {
+          logger.debug('Skills unavailable for suggestions:', error);
+          return { data: [] as Skill[] };
+        }),
+      ]);
+
+      const rankingsData = (Array.isArray(rankingsResponse.data) ? rankingsResponse.data : [])
+        .filter(ranking => ranking?.team?.id && ranking.rank > 0)
+        .sort((a, b) => a.rank - b.rank);
+      const matchesData = Array.isArray(matchesResponse.data) ? matchesResponse.data : [];
+      const analytics = calculateMatchAnalytics(matchesData);
+
+      // Best driver + best programming run per team
+      const bestRuns: Record<number, { driver: number; programming: number }> = {};
+      (Array.isArray(skillsResult.data) ? skillsResult.data : []).forEach(skill => {
+        if (skill.type !== 'driver' && skill.type !== 'programming') return;
+        const runs = bestRuns[skill.team.id] || (bestRuns[skill.team.id] = { driver: 0, programming: 0 });
+        runs[skill.type] = Math.max(runs[skill.type], skill.score);
+      });
+
+      const tagShares = getTeamNoteTags(getNotesByEvent(event.id));
+      const data: Record<number, TeamSelectionData> = {};
+      rankingsData.forEach(ranking => {
+        const teamId = ranking.team.id;
+        const runs = bestRuns[teamId];
+        data[teamId] = {
+          teamId,
+          opr: analytics.ratings[teamId]?.opr,
+          skillsScore: runs ? runs.driver + runs.programming : undefined,
+          tags: tagShares[teamId] || {},
+        };
+      });
+
+      setRankings(rankingsData);
+      setTeamData(data);
+    } catch (error) {
+      logger.error('Failed to load alliance selection data:', error);
+      alerts.showAlert('Error', 'Failed to load rankings for alliance selection. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getTeamNumber = (teamId: number): string => {
+    const ranking = rankings.find(r => r.team.id === teamId);
+    return teamsMap[teamId.toString()] || ranking?.team.name || teamId.toString();
+  };
+
+  const getTeamStatus = (teamId: number): TeamStatus => {
+    if (teamId === selectionState.currentCaptainId) return 'onClock';
+    const alliance = selectionState.alliances.find(a => a.captainId === teamId || a.partnerIds.includes(teamId));
+    if (alliance) return alliance.captainId === teamId ? 'captain' : 'picked';
+    if (selectionState.declinedTeamIds.includes(teamId)) return 'declined';
+    return 'available';
+  };
+
+  const statusStyles: Record<TeamStatus, { label: string; color: string }> = {
+    onClock: { label: 'Picking', color: settings.warningColor },
+    captain: { label: 'Captain', color: settings.buttonColor },
+    picked: { label: 'Picked', color: settings.successColor },
+    declined: { label: 'Declined', color: settings.errorColor },
+    available: { label: 'Available', color: settings.secondaryTextColor },
+  };
+
+  const haptic = () => {
+    if (settings.enableHaptics) {
+      Vibration.vibrate(15);
+    }
+  };
+
+  const updateSession = async (sessionData: Parameters<typeof saveSession>[2]) => {
+    try {
+      await saveSession(event.id, division.id, { eventName: event.name, ...sessionData });
+    } catch (error) {
+      alerts.showAlert('Error', 'Failed to save alliance selection.');
+    }
+  };
+
+  const recordAction = (type: SelectionAction['type'], teamId: number) => {
+    if (selectionState.currentCaptainId === null) return;
+    haptic();
+    updateSession({ actions: [...actions, { type, captainId: selectionState.currentCaptainId, teamId }] });
+  };
+
+  const handleUndo = () => {
+    if (actions.length === 0) return;
+    haptic();
+    updateSession({ actions: actions.slice(0, -1) });
+  };
+
+  const handleReset = async () => {
+    const confirmed = await alerts.showDestructiveConfirm(
+      'Reset Alliance Selection',
+      `Clear the pick list and selection log for ${division.name}?`,
+      'Reset'
+    );
+    if (confirmed) {
+      await deleteSession(event.id, division.id);
+    }
+  };
+
+  const adjustWeight = (key: 'opr' | 'skills', delta: number) => {
+    updateSession({ weights: { ...weights, [key]: Math.max(0, weights[key] + delta) } });
+  };
+
+  const adjustTagWeight = (tag: string, delta: number) => {
+    const value = (weights.tags[tag] || 0) + delta;
+    const tags: SuggestionWeights['tags'] = { ...weights.tags, [tag]: value };
+    if (value === 0) delete tags[tag];
+    updateSession({ weights: { ...weights, tags } });
+  };
+
+  const renderStatusBadge = (teamId: number) => {
+    const status = statusStyles[getTeamStatus(teamId)];
+    return (
+      <View style={[styles.statusBadge, { borderColor: status.color }]}>
+        <Text style={[styles.statusBadgeText, { color: status.color }]}>{status.label}</Text>
+      </View>
+    );
+  };
+
+  const renderTeamStats = (teamId: number) => {
+    const data = teamData[teamId];
+    const parts = [`Rank ${rankByTeam.get(teamId) ?? '-'}`];
+    if (data?.opr !== undefined) parts.push(`OPR ${data.opr.toFixed(1)}`);
+    if (data?.skillsScore !== undefined) parts.push(`Skills ${data.skillsScore}`);
+    const tags = Object.keys(data?.tags || {});
+    if (tags.length > 0) parts.push(tags.slice(0, 3).map(tag => `#${tag}`).join(' '));
+    return parts.join(' · ');
+  };
+
+  const renderStepper = (value: number, onChange: (delta: number) => void, allowNegative: boolean = false) => (
+    <View style={styles.stepper}>
+      <TouchableOpacity
+        style={[styles.stepperButton, { borderColor: settings.borderColor }]}
+        onPress={() => onChange(-WEIGHT_STEP)}
+        disabled={!allowNegative && value <= 0}
+      >
+        <Ionicons name="remove" size={16} color={settings.textColor} />
+      </TouchableOpacity>
+      <Text style={[styles.stepperValue, { color: settings.textColor }]}>{value.toFixed(1)}</Text>
+      <TouchableOpacity
+        style={[styles.stepperButton, { borderColor: settings.borderColor }]}
+        onPress={() => onChange(WEIGHT_STEP)}
+      >
+        <Ionicons name="add" size={16} color={settings.textColor} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderSelectionTab = () => {
+    const { currentCaptainId, currentAllianceNumber, upcomingCaptainIds, alliances, complete } = selectionState;
+    const nextOnPickList = pickList.find(teamId => selectionState.availableTeamIds.includes(teamId));
+    const upcoming = upcomingCaptainIds.filter(teamId => teamId !== currentCaptainId).slice(0, 3);
+
+    return (
+      <>
+        <View style={[styles.card, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor }]}>
+          {complete || currentCaptainId === null ? (
+            <Text style={[styles.cardTitle, { color: settings.textColor }]}>Alliance selection complete</Text>
+          ) : (
+            <>
+              <Text style={[styles.cardLabel, { color: settings.secondaryTextColor }]}>
+                Alliance {currentAllianceNumber} captain on the clock
+              </Text>
+              <Text style={[styles.captainText, { color: settings.textColor }]}>
+                #{rankByTeam.get(currentCaptainId)} {getTeamNumber(currentCaptainId)}
+              </Text>
+              {upcoming.length > 0 && (
+                <Text style={[styles.cardMeta, { color: settings.secondaryTextColor }]}>
+                  Up next: {upcoming.map(teamId => getTeamNumber(teamId)).join(', ')}
+                </Text>
+              )}
+              {nextOnPickList !== undefined && (
+                <Text style={[styles.cardMeta, { color: settings.buttonColor }]}>
+                  Top of your pick list: {getTeamNumber(nextOnPickList)}
+                </Text>
+              )}
+            </>
+          )}
+          <TouchableOpacity
+            style={[styles.undoButton, actions.length === 0 && { opacity: 0.4 }]}
+            onPress={handleUndo}
+            disabled={actions.length === 0}
+          >
+            <Ionicons name="arrow-undo" size={16} color={settings.buttonColor} />
+            <Text style={[styles.undoText, { color: settings.buttonColor }]}>Undo</Text>
+          </TouchableOpacity>
+        </View>
+
+        {!complete && suggestions.length > 0 && (
+          <>
+            <Text style={[styles.sectionTitle, { color: settings.textColor }]}>Suggested Partners</Text>
+            {suggestions.slice(0, MAX_SUGGESTIONS).map((suggestion, index) => (
+              <View
+                key={suggestion.teamId}
+                style={[styles.teamRow, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor }]}
+              >
+                <Text style={[styles.suggestionIndex, { color: settings.buttonColor }]}>{index + 1}</Text>
+                <View style={styles.teamInfo}>
+                  <Text style={[styles.teamNumber, { color: settings.textColor }]}>{getTeamNumber(suggestion.teamId)}</Text>
+                  <Text style={[styles.teamMeta, { color: settings.secondaryTextColor }]} numberOfLines={1}>
+                    {renderTeamStats(suggestion.teamId)}
+                  </Text>
+                </View>
+                <Text style={[styles.suggestionScore, { color: settings.textColor }]}>{suggestion.score.toFixed(2)}</Text>
+              </View>
+            ))}
+          </>
+        )}
+
+        {!complete && (
+          <>
+            <Text style={[styles.sectionTitle, { color: settings.textColor }]}>Record Invitation</Text>
+            {selectionState.availableTeamIds
+              .filter(teamId => teamId !== currentCaptainId)
+              .map(teamId => (
+                <View
+                  key={teamId}
+                  style={[styles.teamRow, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor }]}
+                >
+                  <View style={styles.teamInfo}>
+                    <Text style={[styles.teamNumber, { color: settings.textColor }]}>{getTeamNumber(teamId)}</Text>
+                    <Text style={[styles.teamMeta, { color: settings.secondaryTextColor }]} numberOfLines={1}>
+                      {renderTeamStats(teamId)}
+                    </Text>
+                  </View>
+                  <TouchableOpacity
+                    style={[styles.actionButton, { backgroundColor: settings.successColor }]}
+                    onPress={() => recordAction('accept', teamId)}
+                  >
+                    <Ionicons name="checkmark" size={18} color="#fff" />
+                  </TouchableOpacity>
+                  <TouchableOpacity
+                    style={[styles.actionButton, { backgroundColor: settings.errorColor }]}
+                    onPress={() => recordAction('decline', teamId)}
+                  >
+                    <Ionicons name="close" size={18} color="#fff" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+          </>
+        )}
+
+        {alliances.length > 0 && (
+          <>
+            <Text style={[styles.sectionTitle, { color: settings.textColor }]}>Alliances</Text>
+            {alliances.map(alliance => (
+              <View
+                key={alliance.number}
+                style={[styles.teamRow, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor }]}
+              >
+                <Text style={[styles.suggestionIndex, { color: settings.buttonColor }]}>A{alliance.number}</Text>
+                <Text style={[styles.teamNumber, { color: settings.textColor, flex: 1 }]}>
+                  {[alliance.captainId, ...alliance.partnerIds].map(teamId => getTeamNumber(teamId)).join(' + ')}
+                  {alliance.partnerIds.length === 0 ? ' (picking)' : ''}
+                </Text>
+              </View>
+            ))}
+          </>
+        )}
+      </>
+    );
+  };
+
+  const renderPickListTab = () => {
+    const unlisted = rankedTeamIds.filter(teamId => !pickList.includes(teamId));
+
+    return (
+      <>
+        <View style={styles.toolbar}>
+          <Text style={[styles.toolbarText, { color: settings.secondaryTextColor }]}>
+            {pickList.length > 0 ? 'Drag the handle to reorder' : 'Add teams in the order you would pick them'}
+          </Text>
+          <TouchableOpacity
+            style={styles.toolbarButton}
+            onPress={() => updateSession({
+              pickList: [...pickList, ...suggestPartners(unlisted, teamData, weights).map(s => s.teamId)],
+            })}
+            disabled={unlisted.length === 0}
+          >
+            <Ionicons name="sparkles-outline" size={16} color={settings.buttonColor} />
+            <Text style={[styles.toolbarButtonText, { color: settings.buttonColor }]}>Auto-fill</Text>
+          </TouchableOpacity>
+        </View>
+
+        <DraggableList
+          items={pickList}
+          itemHeight={PICK_ROW_HEIGHT}
+          keyExtractor={teamId => teamId.toString()}
+          onReorder={newOrder => updateSession({ pickList: newOrder })}
+          onDragStateChange={isDragging => {
+            setDragging(isDragging);
+            if (isDragging) haptic();
+          }}
+          renderItem={(teamId, index, handleProps, isDragging) => {
+            const status = getTeamStatus(teamId);
+            const unavailable = status === 'picked' || status === 'declined' || status === 'captain';
+            return (
+              <View
+                style={[
+                  styles.pickRow,
+                  {
+                    backgroundColor: settings.cardBackgroundColor,
+                    borderColor: isDragging ? settings.buttonColor : settings.borderColor,
+                    opacity: unavailable && !isDragging ? 0.5 : 1,
+                  },
+                ]}
+              >
+                <View {...handleProps} style={styles.dragHandle}>
+                  <Ionicons name="reorder-three" size={24} color={settings.iconColor} />
+                </View>
+                <Text style={[styles.pickIndex, { color: settings.secondaryTextColor }]}>{index + 1}</Text>
+                <View style={styles.teamInfo}>
+                  <Text
+                    style={[
+                      styles.teamNumber,
+                      { color: settings.textColor },
+                      unavailable && { textDecorationLine: 'line-through' },
+                    ]}
+                  >
+                    {getTeamNumber(teamId)}
+                  </Text>
+                  <Text style={[styles.teamMeta, { color: settings.secondaryTextColor }]} numberOfLines={1}>
+                    {renderTeamStats(teamId)}
+                  </Text>
+                </View>
+                {renderStatusBadge(teamId)}
+                <TouchableOpacity
+                  style={styles.removeButton}
+                  onPress={() => updateSession({ pickList: pickList.filter(id => id !== teamId) })}
+                >
+                  <Ionicons name="close-circle-outline" size={20} color={settings.iconColor} />
+                </TouchableOpacity>
+              </View>
+            );
+          }}
+        />
+
+        {unlisted.length > 0 && (
+          <>
+            <Text style={[styles.sectionTitle, { color: settings.textColor }]}>Add to Pick List</Text>
+            {unlisted.map(teamId => (
+              <TouchableOpacity
+                key={teamId}
+                style={[styles.teamRow, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor }]}
+                onPress={() => updateSession({ pickList: [...pickList, teamId] })}
+              >
+                <View style={styles.teamInfo}>
+                  <Text style={[styles.teamNumber, { color: settings.textColor }]}>{getTeamNumber(teamId)}</Text>
+                  <Text style={[styles.teamMeta, { color: settings.secondaryTextColor }]} numberOfLines={1}>
+                    {renderTeamStats(teamId)}
+                  </Text>
+                </View>
+                <Ionicons name="add-circle-outline" size={22} color={settings.buttonColor} />
+              </TouchableOpacity>
+            ))}
+          </>
+        )}
+      </>
+    );
+  };
+
+  const renderWeightsTab = () => (
+    <>
+      <View style={[styles.card, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor }]}>
+        <Text style={[styles.cardTitle, { color: settings.textColor }]}>Number of Alliances</Text>
+        <View style={styles.chipRow}>
+          {ALLIANCE_COUNT_OPTIONS.map(count => (
+            <TouchableOpacity
+              key={count}
+              style={[
+                styles.chip,
+                { borderColor: settings.buttonColor },
+                allianceCount === count && { backgroundColor: settings.buttonColor },
+              ]}
+              onPress={() => updateSession({ allianceCount: count })}
+            >
+              <Text style={[styles.chipText, { color: allianceCount === count ? '#fff' : settings.buttonColor }]}>{count}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+
+      <View style={[styles.card, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor }]}>
+        <Text style={[styles.cardTitle, { color: settings.textColor }]}>Suggestion Weights</Text>
+        <Text style={[styles.cardMeta, { color: settings.secondaryTextColor }]}>
+          OPR and skills are scaled from 0 to 1 across the teams still available.
+        </Text>
+        <View style={styles.weightRow}>
+          <Text style={[styles.weightLabel, { color: settings.textColor }]}>OPR</Text>
+          {renderStepper(weights.opr, delta => adjustWeight('opr', delta))}
+        </View>
+        <View style={styles.weightRow}>
+          <Text style={[styles.weightLabel, { color: settings.textColor }]}>Skills Score</Text>
+          {renderStepper(weights.skills, delta => adjustWeight('skills', delta))}
+        </View>
+      </View>
+
+      <View style={[styles.card, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor }]}>
+        <Text style={[styles.cardTitle, { color: settings.textColor }]}>Note Tags</Text>
+        <Text style={[styles.cardMeta, { color: settings.secondaryTextColor }]}>
+          Add #tags to match notes (e.g. #defense, #reliable). A negative weight steers suggestions away from a tag.
+        </Text>
+        {noteTags.length === 0 ? (
+          <Text style={[styles.emptyText, { color: settings.secondaryTextColor }]}>No tags in this event's notes yet.</Text>
+        ) : (
+          noteTags.map(({ tag, count }) => (
+            <View key={tag} style={styles.weightRow}>
+              <Text style={[styles.weightLabel, { color: settings.textColor }]}>
+                #{tag} <Text style={{ color: settings.secondaryTextColor }}>({count} {count === 1 ? 'team' : 'teams'})</Text>
+              </Text>
+              {renderStepper(weights.tags[tag] || 0, delta => adjustTagWeight(tag, delta), true)}
+            </View>
+          ))
+        )}
+      </View>
+    </>
+  );
+
+  if (loading) {
+    return (
+      <View style={[styles.loadingContainer, { backgroundColor: settings.backgroundColor }]}>
+        <ActivityIndicator size="large" color={settings.buttonColor} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: settings.backgroundColor }]}>
+      <View style={[styles.tabBar, { backgroundColor: settings.cardBackgroundColor, borderBottomColor: settings.borderColor }]}>
+        {([
+          { id: 'selection', label: 'Selection', icon: 'people-outline' },
+          { id: 'pickList', label: 'Pick List', icon: 'list-outline' },
+          { id: 'weights', label: 'Weights', icon: 'options-outline' },
+        ] as const).map(tab => {
+          const isActive = activeTab === tab.id;
+          return (
+            <TouchableOpacity
+              key={tab.id}
+              style={[styles.tabButton, isActive && { borderBottomWidth: 2, borderBottomColor: settings.buttonColor }]}
+              onPress={() => setActiveTab(tab.id)}
+            >
+              <Ionicons
+                name={tab.icon}
+                size={20}
+                color={isActive ? settings.buttonColor : settings.secondaryTextColor}
+                style={styles.tabIcon}
+              />
+              <Text style={[styles.tabText, { color: isActive ? settings.buttonColor : settings.secondaryTextColor }]}>
+                {tab.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {rankings.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="people-outline" size={64} color={settings.secondaryTextColor} />
+          <Text style={[styles.emptyTitle, { color: settings.textColor }]}>No Rankings Yet</Text>
+          <Text style={[styles.emptyText, { color: settings.secondaryTextColor }]}>
+            Alliance selection follows the qualification rankings, which appear once matches are played.
+          </Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          scrollEnabled={!dragging}
+        >
+          {activeTab === 'selection' && renderSelectionTab()}
+          {activeTab === 'pickList' && renderPickListTab()}
+          {activeTab === 'weights' && renderWeightsTab()}
+        </ScrollView>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  tabBar: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+  },
+  tabButton: {
+    flex: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    flexDirection: 'row',
+  },
+  tabIcon: {
+    marginRight: 6,
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  card: {
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 14,
+    marginBottom: 16,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    marginBottom: 6,
+  },
+  cardLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    textTransform: 'uppercase',
+  },
+  cardMeta: {
+    fontSize: 13,
+    marginTop: 4,
+  },
+  captainText: {
+    fontSize: 24,
+    fontWeight: '700',
+    marginTop: 4,
+  },
+  undoButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-end',
+    marginTop: 8,
+  },
+  undoText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    marginTop: 4,
+    marginBottom: 10,
+  },
+  teamRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 10,
+    borderWidth: 1,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 8,
+  },
+  teamInfo: {
+    flex: 1,
+    marginRight: 8,
+  },
+  teamNumber: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  teamMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  suggestionIndex: {
+    fontSize: 16,
+    fontWeight: '700',
+    minWidth: 32,
+  },
+  suggestionScore: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  actionButton: {
+    width: 34,
+    height: 34,
+    borderRadius: 17,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginLeft: 8,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  toolbarText: {
+    fontSize: 14,
+    flex: 1,
+  },
+  toolbarButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  toolbarButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  pickRow: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 10,
+    borderWidth: 1,
+    paddingRight: 8,
+    marginBottom: 6,
+  },
+  dragHandle: {
+    paddingHorizontal: 10,
+    alignSelf: 'stretch',
+    justifyContent: 'center',
+  },
+  pickIndex: {
+    fontSize: 14,
+    fontWeight: '600',
+    minWidth: 24,
+  },
+  statusBadge: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+  },
+  statusBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+  },
+  removeButton: {
+    padding: 4,
+    marginLeft: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 6,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  weightRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  weightLabel: {
+    fontSize: 15,
+    flex: 1,
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 8,
+    borderWidth: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepperValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    minWidth: 44,
+    textAlign: 'center',
+  },
+  emptyContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+  },
+  emptyTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginTop: 8,
+  },
+});
+
+export default AllianceSelectionScreen;
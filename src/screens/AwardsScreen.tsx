@@ -103,7 +103,7 @@ const AwardsScreen: React.FC<Props> = ({ navigation }) => {
     }
   };
 
-  const loadAwardsData = async () => {
+  const loadAwardsData = async (forceRefresh = false) => {
     try {
       setLoading(true);
       // Use selected season if available, otherwise get current season
@@ -120,6 +120,9 @@ const AwardsScreen: React.FC<Props> = ({ navigation }) => {
         try {
           // Get basic team info (use program from favorite item to ensure correct API)
           const teamInfo = await robotEventsAPI.getTeamByNumber(team.number, team.program);
+          if (forceRefresh) {
+            robotEventsAPI.invalidateTeam(teamInfo!.id);
+          }
 
           // Get team awards for current season
           const awardsResponse = await robotEventsAPI.getTeamAwards(teamInfo!.id, { season: [targetSeasonId] });
@@ -241,7 +244,7 @@ const AwardsScreen: React.FC<Props> = ({ navigation }) => {
 
   const onRefresh = () => {
     setRefreshing(true);
-    loadAwardsData();
+    loadAwardsData(true);
   };
 
   const formatDate = (dateString: string) => {
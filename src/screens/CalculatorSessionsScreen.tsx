@@ -0,0 +1,569 @@
+/**
+ * Calculator Sessions Screen
+ *
+ * Description:
+ * Lists score sheets saved from the score calculators (autonomous route plans,
+ * skills run attempts) and the skills run log that charts a team's practice
+ * scores over time.
+ *
+ * Navigation:
+ * Accessed from the Score Calculators home screen or the folder button in a score
+ * calculator's header (which filters the list to that calculator).
+ *
+ * Key Features:
+ * - Saved score sheets with name, team, timestamp and score
+ * - Side-by-side comparison of up to three saved sheets
+ * - CSV export through DataExporter
+ * - Skills run log chart per team and skills type
+ * - Reopen a saved sheet in its calculator, or delete it
+ */
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSettings } from '../contexts/SettingsContext';
+import { useCalculatorSessions, CalculatorSession } from '../contexts/CalculatorSessionsContext';
+import ScoreHistoryChart from '../components/ScoreHistoryChart';
+import { DataExporter } from '../utils/dataExporter';
+import { alerts } from '../utils/webCompatibility';
+import { createLogger } from '../utils/logger';
+import {
+  getScoreCalculatorDefinition,
+  getSheetElements,
+  getElementPoints,
+} from '../utils/scoreCalculator';
+
+const logger = createLogger('CalculatorSessionsScreen');
+
+const MAX_COMPARE = 3;
+
+interface CalculatorSessionsScreenProps {
+  navigation: any;
+  route: {
+    params?: {
+      definitionId?: string;
+    };
+  };
+}
+
+type SessionsTab = 'sheets' | 'skillsLog';
+
+const CalculatorSessionsScreen: React.FC<CalculatorSessionsScreenProps> = ({ navigation, route }) => {
+  const settings = useSettings();
+  const { sessions, getSkillsRuns, deleteSession } = useCalculatorSessions();
+  const definitionId = route.params?.definitionId;
+
+  const [activeTab, setActiveTab] = useState<SessionsTab>('sheets');
+  const [compareMode, setCompareMode] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [selectedTeam, setSelectedTeam] = useState<string | null>(null);
+
+  // Newest first
+  const visibleSessions = useMemo(
+    () => sessions
+      .filter(session => !definitionId || session.definitionId === definitionId)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt)),
+    [sessions, definitionId]
+  );
+
+  const skillsTeams = useMemo(() => {
+    const teams = new Set<string>();
+    getSkillsRuns().forEach(run => {
+      if (run.teamNumber && (!definitionId || run.definitionId === definitionId)) {
+        teams.add(run.teamNumber);
+      }
+    });
+    return Array.from(teams).sort();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sessions, definitionId]);
+
+  useEffect(() => {
+    if (!selectedTeam || !skillsTeams.includes(selectedTeam)) {
+      setSelectedTeam(skillsTeams[0] || null);
+    }
+  }, [skillsTeams, selectedTeam]);
+
+  const handleExport = async () => {
+    const toExport = compareMode && selectedIds.length > 0
+      ? visibleSessions.filter(session => selectedIds.includes(session.id))
+      : visibleSessions;
+
+    try {
+      await DataExporter.exportCalculatorSessionsToCSV(toExport);
+    } catch (error) {
+      logger.error('Failed to export score sheets:', error);
+      alerts.showAlert('Export Failed', error instanceof Error ? error.message : 'Unable to export score sheets.');
+    }
+  };
+
+  useEffect(() => {
+    navigation.setOptions({
+      title: 'Saved Score Sheets',
+      headerStyle: {
+        backgroundColor: settings.topBarColor,
+      },
+      headerTintColor: settings.topBarContentColor,
+      headerTitleAlign: 'center',
+      headerTitleStyle: {
+        fontWeight: '500',
+        fontSize: 19,
+      },
+      headerRight: () => visibleSessions.length > 0 ? (
+        <TouchableOpacity onPress={handleExport} style={styles.headerButton}>
+          <Ionicons name="share-outline" size={24} color={settings.topBarContentColor} />
+        </TouchableOpacity>
+      ) : null,
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [navigation, settings.topBarColor, settings.topBarContentColor, visibleSessions, compareMode, selectedIds]);
+
+  const toggleSelected = (sessionId: string) => {
+    setSelectedIds(prev => {
+      if (prev.includes(sessionId)) {
+        return prev.filter(id => id !== sessionId);
+      }
+      return prev.length >= MAX_COMPARE ? prev : [...prev, sessionId];
+    });
+  };
+
+  const confirmDelete = async (session: CalculatorSession) => {
+    const confirmed = await alerts.showDestructiveConfirm(
+      'Delete Score Sheet',
+      `Delete "${session.name}"? This cannot be undone.`
+    );
+    if (!confirmed) return;
+
+    try {
+      await deleteSession(session.id);
+      setSelectedIds(prev => prev.filter(id => id !== session.id));
+    } catch (error) {
+      logger.error('Failed to delete score sheet:', error);
+    }
+  };
+
+  const openSession = (session: CalculatorSession) => {
+    navigation.push('ScoreCalculator', {
+      definitionId: session.definitionId,
+      sessionId: session.id,
+    });
+  };
+
+  const formatTimestamp = (date: string) => new Date(date).toLocaleString();
+
+  const renderSessionCard = (session: CalculatorSession) => {
+    const isSelected = selectedIds.includes(session.id);
+
+    return (
+      <TouchableOpacity
+        key={session.id}
+        style={[
+          styles.sessionCard,
+          {
+            backgroundColor: settings.cardBackgroundColor,
+            borderColor: isSelected ? settings.buttonColor : settings.borderColor,
+          },
+        ]}
+        onPress={() => (compareMode ? toggleSelected(session.id) : openSession(session))}
+        onLongPress={() => confirmDelete(session)}
+        activeOpacity={0.7}
+      >
+        {compareMode && (
+          <Ionicons
+            name={isSelected ? 'checkbox' : 'square-outline'}
+            size={22}
+            color={isSelected ? settings.buttonColor : settings.iconColor}
+            style={styles.checkbox}
+          />
+        )}
+        <View style={styles.sessionInfo}>
+          <Text style={[styles.sessionName, { color: settings.textColor }]} numberOfLines={1}>
+            {session.name}
+          </Text>
+          <Text style={[styles.sessionMeta, { color: settings.secondaryTextColor }]}>
+            {session.sheetLabel}{session.teamNumber ? ` · ${session.teamNumber}` : ''}
+          </Text>
+          <Text style={[styles.sessionMeta, { color: settings.secondaryTextColor }]}>
+            {formatTimestamp(session.updatedAt)}
+          </Text>
+        </View>
+        <View style={[styles.scoreBadge, { backgroundColor: settings.buttonColor }]}>
+          <Text style={styles.scoreBadgeText}>{session.score}</Text>
+        </View>
+        {!compareMode && (
+          <TouchableOpacity onPress={() => confirmDelete(session)} style={styles.deleteButton}>
+            <Ionicons name="trash-outline" size={20} color={settings.errorColor} />
+          </TouchableOpacity>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderComparison = () => {
+    const compared = selectedIds
+      .map(id => visibleSessions.find(session => session.id === id))
+      .filter((session): session is CalculatorSession => !!session);
+    if (compared.length < 2) return null;
+
+    // Union of scoring elements across the compared sheets, keyed by label
+    const rows: { label: string; cells: string[] }[] = [];
+    compared.forEach((session, column) => {
+      const sheet = getScoreCalculatorDefinition(session.definitionId)
+        ?.sheets.find(s => s.id === session.sheetId);
+      (sheet ? getSheetElements(sheet) : []).forEach(element => {
+        let row = rows.find(r => r.label === element.label);
+        if (!row) {
+          row = { label: element.label, cells: compared.map(() => '–') };
+          rows.push(row);
+        }
+        const value = session.state[element.id];
+        const display = typeof value === 'boolean'
+          ? (value ? 'Yes' : 'No')
+          : element.options?.find(option => option.id === value)?.label ?? String(value ?? 0);
+        row.cells[column] = `${display} (${getElementPoints(element, value)})`;
+      });
+    });
+
+    const bestScore = Math.max(...compared.map(session => session.score));
+
+    return (
+      <View style={[styles.compareCard, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor }]}>
+        <Text style={[styles.sectionTitle, { color: settings.textColor }]}>Comparison</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          <View>
+            <View style={[styles.compareRow, { borderBottomColor: settings.borderColor }]}>
+              <Text style={[styles.compareLabel, { color: settings.secondaryTextColor }]} />
+              {compared.map(session => (
+                <Text key={session.id} style={[styles.compareHeader, { color: settings.textColor }]} numberOfLines={2}>
+                  {session.name}
+                </Text>
+              ))}
+            </View>
+            {rows.map(row => (
+              <View key={row.label} style={[styles.compareRow, { borderBottomColor: settings.borderColor }]}>
+                <Text style={[styles.compareLabel, { color: settings.secondaryTextColor }]}>{row.label}</Text>
+                {row.cells.map((cell, index) => (
+                  <Text key={index} style={[styles.compareCell, { color: settings.textColor }]}>{cell}</Text>
+                ))}
+              </View>
+            ))}
+            <View style={styles.compareRow}>
+              <Text style={[styles.compareLabel, styles.compareTotalLabel, { color: settings.textColor }]}>Total</Text>
+              {compared.map(session => (
+                <Text
+                  key={session.id}
+                  style={[
+                    styles.compareCell,
+                    styles.compareTotal,
+                    { color: session.score === bestScore ? settings.successColor : settings.textColor },
+                  ]}
+                >
+                  {session.score}
+                </Text>
+              ))}
+            </View>
+          </View>
+        </ScrollView>
+      </View>
+    );
+  };
+
+  const renderSheetsTab = () => (
+    <>
+      <View style={styles.toolbar}>
+        <Text style={[styles.toolbarText, { color: settings.secondaryTextColor }]}>
+          {compareMode
+            ? `Select up to ${MAX_COMPARE} sheets (${selectedIds.length} selected)`
+            : `${visibleSessions.length} saved sheet${visibleSessions.length === 1 ? '' : 's'}`}
+        </Text>
+        <TouchableOpacity
+          onPress={() => {
+            setCompareMode(!compareMode);
+            setSelectedIds([]);
+          }}
+          style={styles.toolbarButton}
+        >
+          <Ionicons name={compareMode ? 'close' : 'git-compare-outline'} size={18} color={settings.buttonColor} />
+          <Text style={[styles.toolbarButtonText, { color: settings.buttonColor }]}>
+            {compareMode ? 'Done' : 'Compare'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+
+      {compareMode && renderComparison()}
+      {visibleSessions.map(renderSessionCard)}
+    </>
+  );
+
+  const renderSkillsLogTab = () => {
+    const runs = selectedTeam
+      ? getSkillsRuns(selectedTeam).filter(run => !definitionId || run.definitionId === definitionId)
+      : [];
+    const sheetLabels = Array.from(new Set(runs.map(run => run.sheetLabel)));
+
+    return (
+      <>
+        {skillsTeams.length > 0 && (
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.teamChips}>
+            {skillsTeams.map(team => (
+              <TouchableOpacity
+                key={team}
+                style={[
+                  styles.teamChip,
+                  { borderColor: settings.buttonColor },
+                  selectedTeam === team && { backgroundColor: settings.buttonColor },
+                ]}
+                onPress={() => setSelectedTeam(team)}
+              >
+                <Text style={[styles.teamChipText, { color: selectedTeam === team ? '#fff' : settings.buttonColor }]}>
+                  {team}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </ScrollView>
+        )}
+
+        {sheetLabels.length > 0 ? (
+          sheetLabels.map(label => (
+            <View
+              key={label}
+              style={[styles.chartCard, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor }]}
+            >
+              <Text style={[styles.sectionTitle, { color: settings.textColor }]}>{label}</Text>
+              <ScoreHistoryChart
+                points={runs
+                  .filter(run => run.sheetLabel === label)
+                  .map(run => ({ id: run.id, score: run.score, date: run.createdAt }))}
+              />
+            </View>
+          ))
+        ) : (
+          <View style={[styles.chartCard, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor }]}>
+            <ScoreHistoryChart points={[]} />
+          </View>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: settings.backgroundColor }]}>
+      <View style={[styles.tabBar, { backgroundColor: settings.cardBackgroundColor, borderBottomColor: settings.borderColor }]}>
+        {([
+          { id: 'sheets', label: 'Saved Sheets', icon: 'document-text-outline' },
+          { id: 'skillsLog', label: 'Skills Log', icon: 'stats-chart-outline' },
+        ] as const).map(tab => {
+          const isActive = activeTab === tab.id;
+          return (
+            <TouchableOpacity
+              key={tab.id}
+              style={[styles.tabButton, isActive && { borderBottomWidth: 2, borderBottomColor: settings.buttonColor }]}
+              onPress={() => setActiveTab(tab.id)}
+            >
+              <Ionicons
+                name={tab.icon}
+                size={20}
+                color={isActive ? settings.buttonColor : settings.secondaryTextColor}
+                style={styles.tabIcon}
+              />
+              <Text style={[styles.tabText, { color: isActive ? settings.buttonColor : settings.secondaryTextColor }]}>
+                {tab.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {visibleSessions.length === 0 ? (
+        <View style={styles.emptyContainer}>
+          <Ionicons name="save-outline" size={64} color={settings.secondaryTextColor} />
+          <Text style={[styles.emptyTitle, { color: settings.textColor }]}>No Saved Score Sheets</Text>
+          <Text style={[styles.emptyText, { color: settings.secondaryTextColor }]}>
+            Use the save button in a score calculator to keep route plans and skills runs.
+          </Text>
+        </View>
+      ) : (
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+          {activeTab === 'sheets' ? renderSheetsTab() : renderSkillsLogTab()}
+        </ScrollView>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  headerButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  tabBar: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+  },
+  tabButton: {
+    flex: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    flexDirection: 'row',
+  },
+  tabIcon: {
+    marginRight: 6,
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  toolbarText: {
+    fontSize: 14,
+    flex: 1,
+  },
+  toolbarButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  toolbarButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+  sessionCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 14,
+    marginBottom: 12,
+  },
+  checkbox: {
+    marginRight: 12,
+  },
+  sessionInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  sessionName: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  sessionMeta: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  scoreBadge: {
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    minWidth: 52,
+    alignItems: 'center',
+  },
+  scoreBadgeText: {
+    color: '#fff',
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  deleteButton: {
+    padding: 6,
+    marginLeft: 8,
+  },
+  compareCard: {
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 14,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    marginBottom: 12,
+  },
+  compareRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  compareLabel: {
+    width: 150,
+    fontSize: 13,
+  },
+  compareHeader: {
+    width: 110,
+    fontSize: 13,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  compareCell: {
+    width: 110,
+    fontSize: 13,
+    textAlign: 'center',
+  },
+  compareTotalLabel: {
+    fontWeight: '700',
+  },
+  compareTotal: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  teamChips: {
+    marginBottom: 12,
+  },
+  teamChip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    marginRight: 8,
+  },
+  teamChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  chartCard: {
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 14,
+    marginBottom: 16,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 8,
+    textAlign: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    textAlign: 'center',
+    lineHeight: 24,
+  },
+});
+
+export default CalculatorSessionsScreen;
@@ -37,6 +37,7 @@ import { useFocusEffect } from '@react-navigation/native';
 import { useFavorites } from '../contexts/FavoritesContext';
 import { useSettings } from '../contexts/SettingsContext';
 import { useDataCache } from '../contexts/DataCacheContext';
+import { useLiveEventPolling } from '../contexts/LiveEventContext';
 import { robotEventsAPI } from '../services/apiRouter';
 import WelcomeScreen from './WelcomeScreen';
 import EventCard from '../components/EventCard';
@@ -44,6 +45,7 @@ import DashboardTeamCardSkeleton from '../components/DashboardTeamCardSkeleton';
 import ContextMenu, { ContextMenuOption } from '../components/ContextMenu';
 import { isProgramLimitedMode, getLimitedModeMessage, programHasScoreCalculators, getProgramId, getAvailableGrades } from '../utils/programMappings';
 import { filterLiveEvents, selectCurrentLiveEvent } from '../utils/eventUtils';
+import { MatchTimeEstimate, estimateMatchTimes, formatQueueCountdown } from '../utils/matchSchedule';
 
 interface TeamDashboardData {
   teamNumber: string;
@@ -69,6 +71,7 @@ interface TeamDashboardData {
     eventId: number;
     nextMatchNumber?: string | null;
     nextMatchAlliance?: 'red' | 'blue' | null;
+    nextMatchEstimate?: MatchTimeEstimate | null;
     eventRank?: number | null;
     eventSkillsRank?: number | null;
     divisionName?: string | null;
@@ -97,7 +100,7 @@ const DashboardScreen: React.FC<Props> = ({ navigation }) => {
   const [contextMenuOptions, setContextMenuOptions] = useState<ContextMenuOption[]>([]);
   const [contextMenuTitle, setContextMenuTitle] = useState<string>('');
   const [eventsManuallyOrdered, setEventsManuallyOrdered] = useState(false);
-  const intervalRef = useRef<NodeJS.Timeout | null>(null);
+  const [now, setNow] = useState(Date.now());
   const isMountedRef = useRef(true);
 
   // Memoize filtered favorites to prevent unnecessary recalculations
@@ -324,6 +327,11 @@ const DashboardScreen: React.FC<Props> = ({ navigation }) => {
             };
           }
 
+          // Favorites are stored by number, so a refresh drops each team's cached responses here
+          if (forceRefresh) {
+            robotEventsAPI.invalidateTeam(teamInfo.id);
+          }
+
            logger.debug('Team info for', team.number || 'Unknown', ':', {
              id: teamInfo.id,
              team_name: teamInfo.team_name,
@@ -485,6 +493,7 @@ const DashboardScreen: React.FC<Props> = ({ navigation }) => {
                 // Initialize variables for all data we want to collect
                 let nextMatchNumber = undefined;
                 let nextMatchAlliance: 'red' | 'blue' | undefined = undefined;
+                let nextMatchEstimate: MatchTimeEstimate | undefined = undefined;
                 let eventRank = undefined;
                 let eventSkillsRank = undefined;
                 let divisionId = undefined;
@@ -649,6 +658,7 @@ const DashboardScreen: React.FC<Props> = ({ navigation }) => {
                   if (upcomingMatches.length > 0) {
                     const nextMatch = upcomingMatches[0];
                     nextMatchNumber = nextMatch.name;
+                    nextMatchEstimate = estimateMatchTimes(allEventMatches).get(nextMatch.id);
 
                     // Determine alliance color
                     if (nextMatch.alliances && nextMatch.alliances.length > 0) {
@@ -696,6 +706,7 @@ const DashboardScreen: React.FC<Props> = ({ navigation }) => {
                 eventId: liveEvent.id,
                 nextMatchNumber: nextMatchNumber || null,
                 nextMatchAlliance: nextMatchAlliance || null,
+                nextMatchEstimate: nextMatchEstimate || null,
                 eventRank: eventRank || null,
                 eventSkillsRank: eventSkillsRank || null,
                 divisionName: divisionName,
@@ -825,39 +836,30 @@ const DashboardScreen: React.FC<Props> = ({ navigation }) => {
     }
   }, [favoriteTeams, favoriteEvents, selectedSeason, favoritesLoading, settings.selectedProgram, loadDashboardData]);
 
-  // Set up 3-minute interval for refetching data for teams at events
-  useEffect(() => {
-    const startRefetchInterval = () => {
-      // Clear existing interval
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-      }
-
-      // Set up new interval
-      intervalRef.current = setInterval(() => {
-        if (!isMountedRef.current) return;
-
-        const teamsAtEvents = teamData.filter(team => team.isAtEvent);
-        if (teamsAtEvents.length > 0) {
-          logger.debug('Auto-refreshing data for', teamsAtEvents.length, 'teams at events');
-          loadDashboardData(); // Soft refresh for auto-updates
-        }
-      }, 3 * 60 * 1000); // 3 minutes
-    };
+  // Live events that favorite teams are at, polled by the shared live event poller
+  const liveEventIds = useMemo(
+    () => Array.from(new Set(
+      teamData
+        .filter(team => team.isAtEvent && team.currentEvent)
+        .map(team => team.currentEvent!.eventId)
+    )).sort((a, b) => a - b),
+    [teamData]
+  );
 
-    // Start interval when we have team data
-    if (teamData.length > 0) {
-      startRefetchInterval();
-    }
+  useLiveEventPolling(liveEventIds, () => {
+    if (!isMountedRef.current) return;
+    logger.debug('Live event data changed - soft refresh for', liveEventIds.length, 'events');
+    loadDashboardData(); // Soft refresh for auto-updates
+  });
 
-    // Cleanup interval on unmount or when teamData changes
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
-    };
-  }, [teamData]);
+  // Keep queue countdowns ticking between polls
+  const hasMatchEstimates = teamData.some(team => team.currentEvent?.nextMatchEstimate);
+  useEffect(() => {
+    if (!hasMatchEstimates) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, [hasMatchEstimates]);
 
   // Handle screen focus to refetch data when returning to dashboard
   useFocusEffect(
@@ -892,10 +894,6 @@ const DashboardScreen: React.FC<Props> = ({ navigation }) => {
     isMountedRef.current = true;
     return () => {
       isMountedRef.current = false;
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
     };
   }, []);
 
@@ -1233,6 +1231,11 @@ const DashboardScreen: React.FC<Props> = ({ navigation }) => {
                 ]} numberOfLines={1} adjustsFontSizeToFit>
                   {team.currentEvent?.nextMatchNumber || '--'}
                 </Text>
+                {team.currentEvent?.nextMatchEstimate && (
+                  <Text style={[styles.queueCountdown, { color: settings.secondaryTextColor }]} numberOfLines={1}>
+                    {formatQueueCountdown(team.currentEvent.nextMatchEstimate, now)}
+                  </Text>
+                )}
               </View>
             </>
           ) : (
@@ -1856,6 +1859,10 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginBottom: 4,
   },
+  queueCountdown: {
+    fontSize: 11,
+    marginTop: 2,
+  },
   statValueContainer: {
     alignItems: 'center',
   },
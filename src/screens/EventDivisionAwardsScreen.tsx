@@ -44,12 +44,11 @@ import { robotEventsAPI } from '../services/apiRouter';
 import { Event, Division, Team } from '../types';
 import {
   TeamSkills,
-  RawSkill,
-  RobotProgram,
-  ProgramRules,
-  PROGRAM_RULES,
-  PROGRAM_CONFIGS
+  RawSkill
 } from '../utils/eligibility/types';
+import { getEligibilityRuleSet, getSeasonKey } from '../utils/eligibility/ruleSets';
+import { EligibilitySimulationInput } from '../utils/eligibility/whatIfSimulator';
+import EligibilitySimulator from '../components/EligibilitySimulator';
 import { calculateEligibility, sortTeamSkills, getProgramRequirements } from '../utils/eligibility/eligibilityCalculator';
 import { detectAwardType, getDynamicLabel } from '../utils/eligibility/common';
 
@@ -122,28 +121,31 @@ const EventDivisionAwardsScreen = ({ route, navigation }: Props) => {
   const [shouldReopenModal, setShouldReopenModal] = useState(false);
   const [isNavigatingToTeamDetail, setIsNavigatingToTeamDetail] = useState(false);
 
-  // Detect program and awards
-  const currentProgram = detectCurrentProgram();
-  const programRules = currentProgram ? PROGRAM_RULES[currentProgram] : null;
-  const programConfig = currentProgram ? PROGRAM_CONFIGS[currentProgram] : null;
-
-  function detectCurrentProgram(): RobotProgram | null {
-    if (selectedProgram === 'Aerial Drone Competition') {
-      return RobotProgram.ADC;
-    } else if (selectedProgram === 'VEX V5 Robotics Competition') {
-      return RobotProgram.V5RC;
-    } else if (selectedProgram === 'VEX IQ Robotics Competition') {
-      return RobotProgram.VIQRC;
-    }
-    return null;
-  }
+  // Eligibility rules for the selected program and event season (null if the program has none)
+  const ruleSet = getEligibilityRuleSet(selectedProgram, getSeasonKey(event.season?.name));
+  const programRules = ruleSet?.eligibility ?? null;
+  const isAllAroundChampion = programRules?.isAllAroundChampion ?? false;
+
+  // Event data for the what-if simulator (same inputs used to calculate teamSkills)
+  const simulationInput = useMemo((): EligibilitySimulationInput | null => {
+    if (!programRules) return null;
+    return {
+      teams,
+      rawRankings,
+      rawSkills,
+      awards,
+      programRules,
+      eventHasSplitGradeAwards: detectSplitGradeAwards(awards),
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [teams, rawRankings, rawSkills, awards, programRules]);
 
   function detectSplitGradeAwards(awardsData: Award[]): boolean {
-    if (!programRules?.hasMiddleSchoolHighSchoolDivisions || !programRules.splitAwardGrades) {
+    if (!programRules?.hasGradeSplitAwards || !programRules.splitAwardGrades) {
       return false;
     }
 
-    const baseAwardName = programConfig?.awardName?.toLowerCase() || '';
+    const baseAwardName = programRules.awardTitle.toLowerCase();
     return programRules.splitAwardGrades.every(gradeLevel => {
       const lowerGrade = gradeLevel.toLowerCase();
       return awardsData.some(award => {
@@ -161,7 +163,7 @@ const EventDivisionAwardsScreen = ({ route, navigation }: Props) => {
     //    - OR testingEligibilityEnabled is true (for testing on any event)
     //    - OR there are All-Around Champion awards with no winners yet
 
-    if (selectedProgram !== 'Aerial Drone Competition') {
+    if (!programRules || !isAllAroundChampion) {
       return false; // All Around Champion is only for ADC
     }
 
@@ -177,7 +179,7 @@ const EventDivisionAwardsScreen = ({ route, navigation }: Props) => {
 
     // Show if there are All-Around Champion awards with no winners yet
     const hasEmptyAllAroundAwards = awards.some(award =>
-      award.title.includes('All-Around Champion') && award.teamWinners.length === 0
+      award.title.includes(programRules.awardTitle) && award.teamWinners.length === 0
     );
 
     return hasEmptyAllAroundAwards;
@@ -191,12 +193,8 @@ const EventDivisionAwardsScreen = ({ route, navigation }: Props) => {
     //    - OR there are excellence awards with no winners yet
     // 3. AND program is not VEX AI
 
-    if (selectedProgram === 'Aerial Drone Competition') {
-      return false; // ADC uses All Around Champion, not Excellence
-    }
-
-    if (selectedProgram === 'VEX AI Robotics Competition') {
-      return false; // VEX AI doesn't have Excellence awards
+    if (!programRules || isAllAroundChampion) {
+      return false; // ADC uses All Around Champion, VEX AI has no eligibility rules
     }
 
     // Show if testing is enabled (allows verification on any event)
@@ -222,7 +220,7 @@ const EventDivisionAwardsScreen = ({ route, navigation }: Props) => {
       return false;
     }
 
-    if (selectedProgram === 'Aerial Drone Competition' || selectedProgram === 'VEX AI Robotics Competition') {
+    if (!programRules || isAllAroundChampion) {
       return false;
     }
 
@@ -248,7 +246,7 @@ const EventDivisionAwardsScreen = ({ route, navigation }: Props) => {
     // Get the appropriate disclaimer message based on program
     let disclaimerMessage = '';
 
-    if (currentProgram === RobotProgram.ADC) {
+    if (isAllAroundChampion) {
       // ADC (All Around Champion) disclaimer
       disclaimerMessage = 'This is Unofficial, and is only accurate after both Qualification and Skills matches finish. It will no longer be accurate after Alliance Selection is completed. Please keep in mind that there are other factors that the app cannot calculate – this is solely based on field performance.';
     } else {
@@ -270,7 +268,7 @@ const EventDivisionAwardsScreen = ({ route, navigation }: Props) => {
   };
 
   const openEligibilityModalForGrade = (gradeLevel: string | null) => {
-    if (!currentProgram || !programConfig) {
+    if (!programRules) {
       alerts.showAlert('Error', 'Unable to determine program type for eligibility checking.');
       return;
     }
@@ -1009,14 +1007,14 @@ const EventDivisionAwardsScreen = ({ route, navigation }: Props) => {
       setRawSkills(formattedSkills);
 
       // Calculate eligibility if program is detected
-      if (currentProgram && programRules) {
+      if (programRules) {
         const eventHasSplitGradeAwards = detectSplitGradeAwards(awardsData.data);
         const calculatedTeamSkills = calculateEligibility(
           uiTeams,
           rankingsData.data,
           formattedSkills,
           awardsData.data,
-          currentProgram,
+          programRules,
           eventHasSplitGradeAwards
         );
         setTeamSkills(calculatedTeamSkills);
@@ -1028,7 +1026,7 @@ const EventDivisionAwardsScreen = ({ route, navigation }: Props) => {
     } finally {
       setShowLoading(false);
     }
-  }, [event.id, division.id, currentProgram, programRules]);
+  }, [event.id, division.id, programRules]);
 
   // Load data when component mounts
   useEffect(() => {
@@ -1057,12 +1055,13 @@ const EventDivisionAwardsScreen = ({ route, navigation }: Props) => {
 
   const handleRefresh = useCallback(async () => {
     setRefreshing(true);
+    robotEventsAPI.invalidateEvent(event.id);
     await loadAllData();
     setRefreshing(false);
   }, [loadAllData]);
 
   const openEligibilityModal = () => {
-    if (!currentProgram || !programConfig) {
+    if (!programRules) {
       alerts.showAlert('Error', 'Unable to determine program type for eligibility checking.');
       return;
     }
@@ -1076,22 +1075,22 @@ const EventDivisionAwardsScreen = ({ route, navigation }: Props) => {
   };
 
   const openRequirementsModal = () => {
-    if (!currentProgram) {
+    if (!programRules) {
       alerts.showAlert('Error', 'Unable to determine program type.');
       return;
     }
 
-    const requirements = getProgramRequirements(currentProgram);
+    const requirements = getProgramRequirements(programRules);
     setSelectedRequirements(requirements);
     setShowRequirementsModal(true);
   };
 
   const handleTeamPress = useCallback((teamSkillsData: TeamSkills) => {
-    if (!currentProgram || !programRules) return;
+    if (!programRules) return;
 
     // Show team details within the modal
     setSelectedTeamSkills(teamSkillsData);
-  }, [currentProgram, programRules]);
+  }, [programRules]);
 
 
   const getFilteredAndSortedTeams = useMemo((): TeamSkills[] => {
@@ -1289,20 +1288,20 @@ const EventDivisionAwardsScreen = ({ route, navigation }: Props) => {
               {item.skillsRank > 0 ? `#${item.skillsRank}` : 'N/A'}
             </Text>
           </View>
-          {currentProgram && programRules?.requiresProgrammingSkills && (
+          {programRules?.requiresProgrammingSkills && (
             <View style={styles.statItem}>
               <Text style={[styles.statLabel, { color: secondaryTextColor }]}>
-                {getDynamicLabel(currentProgram, 'Programming')}
+                {getDynamicLabel(programRules, 'Programming')}
               </Text>
               <Text style={[styles.statValue, { color: textColor }]}>
                 {item.programmingScore}
               </Text>
             </View>
           )}
-          {currentProgram && programRules?.requiresDriverSkills && (
+          {programRules?.requiresDriverSkills && (
             <View style={styles.statItem}>
               <Text style={[styles.statLabel, { color: secondaryTextColor }]}>
-                {getDynamicLabel(currentProgram, 'Driver')}
+                {getDynamicLabel(programRules, 'Driver')}
               </Text>
               <Text style={[styles.statValue, { color: textColor }]}>
                 {item.driverScore}
@@ -1315,10 +1314,9 @@ const EventDivisionAwardsScreen = ({ route, navigation }: Props) => {
   };
 
   const renderTeamDetailView = () => {
-    if (!selectedTeamSkills || !currentProgram || !programRules) return null;
+    if (!selectedTeamSkills || !programRules) return null;
 
     const team = selectedTeamSkills.team;
-    const programConfig = PROGRAM_CONFIGS[currentProgram];
 
     // Build location string
     const locationParts: string[] = [];
@@ -1363,7 +1361,7 @@ const EventDivisionAwardsScreen = ({ route, navigation }: Props) => {
     // Programming requirement
     if (programRules.requiresProgrammingSkills) {
       const progMet = selectedTeamSkills.programmingScore > 0;
-      const progLabel = getDynamicLabel(currentProgram, 'Programming');
+      const progLabel = getDynamicLabel(programRules, 'Programming');
       requirements.push({
         label: `${progLabel} score above zero required`,
         met: progMet,
@@ -1374,7 +1372,7 @@ const EventDivisionAwardsScreen = ({ route, navigation }: Props) => {
     // Driver requirement
     if (programRules.requiresDriverSkills) {
       const driverMet = selectedTeamSkills.driverScore > 0;
-      const driverLabel = getDynamicLabel(currentProgram, 'Driver');
+      const driverLabel = getDynamicLabel(programRules, 'Driver');
       requirements.push({
         label: `${driverLabel} score above zero required`,
         met: driverMet,
@@ -1385,7 +1383,7 @@ const EventDivisionAwardsScreen = ({ route, navigation }: Props) => {
     // Programming-only rank requirement
     if (programRules.requiresRankInPositiveProgrammingSkills) {
       const progOnlyMet = selectedTeamSkills.meetsProgrammingOnlyRankCriterion;
-      const progLabel = getDynamicLabel(currentProgram, 'Programming');
+      const progLabel = getDynamicLabel(programRules, 'Programming');
       const progOnlyDetail = selectedTeamSkills.programmingOnlyRankCutoff > 0
         ? `Rank: ${formatRank(selectedTeamSkills.programmingOnlyRank)} (cutoff: #${selectedTeamSkills.programmingOnlyRankCutoff})`
         : `Rank: ${formatRank(selectedTeamSkills.programmingOnlyRank)}`;
@@ -1454,7 +1452,7 @@ const EventDivisionAwardsScreen = ({ route, navigation }: Props) => {
           {programRules.requiresProgrammingSkills && (
             <View style={styles.detailStatRow}>
               <Text style={[styles.detailStatLabel, { color: secondaryTextColor }]}>
-                {getDynamicLabel(currentProgram, 'Programming')} Score:
+                {getDynamicLabel(programRules, 'Programming')} Score:
               </Text>
               <Text style={[styles.detailStatValue, { color: textColor }]}>
                 {formatScore(selectedTeamSkills.programmingScore, selectedTeamSkills.programmingAttempts)}
@@ -1464,7 +1462,7 @@ const EventDivisionAwardsScreen = ({ route, navigation }: Props) => {
           {programRules.requiresDriverSkills && (
             <View style={styles.detailStatRow}>
               <Text style={[styles.detailStatLabel, { color: secondaryTextColor }]}>
-                {getDynamicLabel(currentProgram, 'Driver')} Score:
+                {getDynamicLabel(programRules, 'Driver')} Score:
               </Text>
               <Text style={[styles.detailStatValue, { color: textColor }]}>
                 {formatScore(selectedTeamSkills.driverScore, selectedTeamSkills.driverAttempts)}
@@ -1497,13 +1495,40 @@ const EventDivisionAwardsScreen = ({ route, navigation }: Props) => {
               </View>
             </View>
           ))}
+          {ruleSet && Object.keys(ruleSet.citations).length > 0 && (
+            <TouchableOpacity
+              style={[styles.backButton, { backgroundColor: buttonColor + '20', marginTop: 12, marginBottom: 0 }]}
+              onPress={() => {
+                // Close the modal while the detail screen is shown, reopen on return
+                const unsubscribe = navigation.addListener('focus', () => {
+                  unsubscribe();
+                  setShouldReopenModal(true);
+                });
+                setShowEligibilityModal(false);
+                navigation.navigate('TeamEligibilityDetail', {
+                  teamSkills: selectedTeamSkills,
+                  ruleSet,
+                  simulationInput,
+                  fromModal: true,
+                });
+              }}
+            >
+              <Ionicons name="book-outline" size={20} color={buttonColor} />
+              <Text style={[styles.backButtonText, { color: buttonColor }]}>View Rule Citations</Text>
+            </TouchableOpacity>
+          )}
         </View>
+
+        {/* What-If Simulator */}
+        {simulationInput && (
+          <EligibilitySimulator teamSkills={selectedTeamSkills} input={simulationInput} />
+        )}
       </ScrollView>
     );
   };
 
   const renderEligibilityModal = () => {
-    if (!currentProgram || !programConfig) return null;
+    if (!programRules) return null;
 
     const filteredTeams = getFilteredAndSortedTeams;
     const eligibleTeams = filteredTeams.filter(ts => ts.eligible);
@@ -1531,7 +1556,7 @@ const EventDivisionAwardsScreen = ({ route, navigation }: Props) => {
           <View style={styles.modalHeader}>
             <View style={styles.modalTitleContainer}>
               <Text style={styles.modalTitle}>
-                {programConfig.awardName} Eligibility
+                {programRules.awardName} Eligibility
               </Text>
               {selectedGradeLevel && (
                 <Text style={styles.modalSubtitle}>
@@ -1611,9 +1636,9 @@ const EventDivisionAwardsScreen = ({ route, navigation }: Props) => {
               </View>
             ))}
           </View>
-          {currentProgram && (
+          {programRules && (
             <Text style={styles.requirementNote}>
-              These requirements apply to {PROGRAM_CONFIGS[currentProgram]?.name} events.
+              These requirements apply to {selectedProgram} events.
               {detectSplitGradeAwards(awards) ? ' Split grade awards detected for this event.' : ''}
             </Text>
           )}
@@ -16,6 +16,8 @@
  * - Team alliance information with color-coded displays
  * - Match notes integration and note-taking capabilities
  * - Refresh functionality for live match updates
+ * - Win predictions for unplayed matches from locally computed OPR/DPR/Elo ratings
+ * - Referee mode for logging rule violations per match
  * - Navigation to individual match details and team information
  */
 import React, { useState, useEffect, useRef, useMemo } from 'react';
@@ -40,8 +42,11 @@ import { useNotes } from '../contexts/NotesContext';
 import { robotEventsAPI } from '../services/apiRouter';
 import { Event, Division } from '../types';
 import { is2v0Format, getCompetitionType, useThemedScoreColors } from '../utils/programMappings';
+import { calculateMatchAnalytics, predictMatchOutcome, MatchAnalytics, MatchPrediction } from '../utils/matchAnalytics';
 import AnimatedScrollBar from '../components/AnimatedScrollBar';
 import MatchCardSkeleton from '../components/MatchCardSkeleton';
+import LastUpdatedIndicator from '../components/LastUpdatedIndicator';
+import { ResponseCacheInfo } from '../services/responseCache';
 
 type EventDivisionMatchesScreenRouteProp = RouteProp<any, any>;
 
@@ -60,7 +65,7 @@ interface Match {
   alliances: {
     color: 'red' | 'blue';
     score: number;
-    teams: { team: { id: number; name: string } }[];
+    teams: { team: { id: number; name: string }; sitting?: boolean }[];
   }[];
   started?: string;
   scheduled?: string;
@@ -72,6 +77,8 @@ interface MatchListItem {
   displayName: string;
   redTeams: string[];
   blueTeams: string[];
+  redTeamIds: number[]; // Playing (non-sitting) teams, used for predictions
+  blueTeamIds: number[];
   redScore: number | null;
   blueScore: number | null;
   time: string;
@@ -111,6 +118,10 @@ const EventDivisionMatchesScreen = ({ route, navigation }: Props) => {
 
   // Create styles early to avoid hoisting issues
   const styles = StyleSheet.create({
+  headerButton: {
+    padding: 8,
+    marginRight: 8,
+  },
     container: {
       flex: 1,
       backgroundColor: backgroundColor,
@@ -378,6 +389,32 @@ const EventDivisionMatchesScreen = ({ route, navigation }: Props) => {
       fontSize: 14,
       fontWeight: '600',
     },
+    predictionContainer: {
+      marginTop: 6,
+      gap: 4,
+    },
+    predictionBarRow: {
+      flexDirection: 'row',
+      alignItems: 'center',
+      gap: 8,
+    },
+    predictionPercent: {
+      fontSize: 12,
+      fontWeight: '700',
+      minWidth: 34,
+    },
+    predictionBar: {
+      flex: 1,
+      height: 6,
+      borderRadius: 3,
+      flexDirection: 'row',
+      overflow: 'hidden',
+    },
+    predictionDetails: {
+      fontSize: 11,
+      color: secondaryTextColor,
+      textAlign: 'center',
+    },
   });
 
   // Early return if essential params are missing
@@ -431,8 +468,10 @@ const EventDivisionMatchesScreen = ({ route, navigation }: Props) => {
   };
 
   const [matches, setMatches] = useState<MatchListItem[]>([]);
+  const [analytics, setAnalytics] = useState<MatchAnalytics | null>(null);
   const [showLoading, setShowLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [lastUpdated, setLastUpdated] = useState<ResponseCacheInfo | null>(null);
   const [scrollY, setScrollY] = useState(0);
   const [contentHeight, setContentHeight] = useState(0);
   const [viewportHeight, setViewportHeight] = useState(0);
@@ -450,6 +489,15 @@ const EventDivisionMatchesScreen = ({ route, navigation }: Props) => {
         fontWeight: '500',
         fontSize: 19,
       },
+      headerRight: () => (
+        <TouchableOpacity
+          onPress={() => navigation.navigate('Referee', { event, division, teamsMap })}
+          style={styles.headerButton}
+          accessibilityLabel="Referee mode"
+        >
+          <Ionicons name="flag-outline" size={22} color={topBarContentColor} />
+        </TouchableOpacity>
+      ),
     });
   }, [division.name, topBarColor, topBarContentColor]);
 
@@ -544,6 +592,9 @@ const EventDivisionMatchesScreen = ({ route, navigation }: Props) => {
           return teamNumber;
         }) || [];
 
+        const playingTeamIds = (teams: { team: { id: number }; sitting?: boolean }[] = []) =>
+          teams.filter(t => !t.sitting).map(t => t.team.id);
+
         const scheduledDate = match.scheduled ? new Date(match.scheduled) : undefined;
         const startedDate = match.started ? new Date(match.started) : undefined;
         const time = formatTime(startedDate || scheduledDate);
@@ -553,6 +604,8 @@ const EventDivisionMatchesScreen = ({ route, navigation }: Props) => {
           displayName: formatMatchName(match.name),
           redTeams,
           blueTeams,
+          redTeamIds: playingTeamIds(redAlliance?.teams),
+          blueTeamIds: playingTeamIds(blueAlliance?.teams),
           redScore: redAlliance?.score ?? null,
           blueScore: blueAlliance?.score ?? null,
           time,
@@ -584,6 +637,9 @@ const EventDivisionMatchesScreen = ({ route, navigation }: Props) => {
       });
 
       setMatches(matchListItems);
+      // Cooperative scores are shared by both alliances, so there is nothing to predict
+      setAnalytics(isCooperative ? null : calculateMatchAnalytics(safeMatchesData));
+      setLastUpdated(robotEventsAPI.getLastUpdated('getEventDivisionMatches', { eventId: event.id, divisionId: division.id }));
       logger.debug('Fetch complete –', matchListItems.length, 'matches loaded.');
     } catch (error) {
       logger.error('Failed to fetch division matches:', error);
@@ -596,6 +652,7 @@ const EventDivisionMatchesScreen = ({ route, navigation }: Props) => {
 
   const handleRefresh = async () => {
     setRefreshing(true);
+    robotEventsAPI.invalidateEvent(event.id);
     await fetchMatches();
   };
 
@@ -610,6 +667,37 @@ const EventDivisionMatchesScreen = ({ route, navigation }: Props) => {
     }, [event.id, division.id])
   );
 
+  // Predictions are only shown for head-to-head matches that have not been played yet
+  const getPrediction = (item: MatchListItem): MatchPrediction | null => {
+    if (!settings.matchPredictionsEnabled || isCooperative || !analytics) return null;
+    if (getWinningAlliance(item) !== null) return null;
+    return predictMatchOutcome(analytics, item.redTeamIds, item.blueTeamIds);
+  };
+
+  const renderPrediction = (item: MatchListItem) => {
+    const prediction = getPrediction(item);
+    if (!prediction) return null;
+
+    const redPercent = Math.round(prediction.redWinProbability * 100);
+    const bluePercent = 100 - redPercent;
+
+    return (
+      <View style={styles.predictionContainer}>
+        <View style={styles.predictionBarRow}>
+          <Text style={[styles.predictionPercent, { color: settings.redAllianceColor }]}>{redPercent}%</Text>
+          <View style={[styles.predictionBar, { backgroundColor: settings.blueAllianceColor }]}>
+            <View style={{ width: `${redPercent}%`, backgroundColor: settings.redAllianceColor }} />
+          </View>
+          <Text style={[styles.predictionPercent, { color: settings.blueAllianceColor, textAlign: 'right' }]}>{bluePercent}%</Text>
+        </View>
+        <Text style={styles.predictionDetails}>
+          Projected {Math.round(prediction.predictedRedScore)} - {Math.round(prediction.predictedBlueScore)}
+          {prediction.confidence === 'low' ? ' · Low confidence' : ''}
+        </Text>
+      </View>
+    );
+  };
+
   const renderCompactMatchItem = ({ item }: { item: MatchListItem }) => {
     // Use the same winner detection logic as regular mode
     const winner = getWinningAlliance(item);
@@ -747,6 +835,8 @@ const EventDivisionMatchesScreen = ({ route, navigation }: Props) => {
             ))}
           </View>
         </View>
+
+        {renderPrediction(item)}
       </TouchableOpacity>
     );
   };
@@ -969,6 +1059,8 @@ const EventDivisionMatchesScreen = ({ route, navigation }: Props) => {
                 </Text>
               </View>
             </View>
+
+            {renderPrediction(item)}
           </>
         )}
       </View>
@@ -1001,6 +1093,7 @@ const EventDivisionMatchesScreen = ({ route, navigation }: Props) => {
 
   return (
     <View style={styles.container}>
+      <LastUpdatedIndicator info={lastUpdated} />
       <View style={{ flex: 1 }}>
         <FlatList
           ref={flatListRef}
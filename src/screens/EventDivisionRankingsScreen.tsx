@@ -17,6 +17,7 @@
  * - Sortable ranking display with multiple criteria
  * - Team navigation and detailed team performance access
  * - Real-time ranking updates with refresh capability
+ * - Projected final rankings from Monte Carlo simulation of remaining qualification matches
  */
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { createLogger } from '../utils/logger';
@@ -32,17 +33,34 @@ import {
   Alert,
   RefreshControl,
   TextInput,
+  InteractionManager,
 } from 'react-native';
 import { RouteProp, useFocusEffect } from '@react-navigation/native';
 import { StackNavigationProp } from '@react-navigation/stack';
 import { Ionicons } from '@expo/vector-icons';
 import { useSettings } from '../contexts/SettingsContext';
 import { robotEventsAPI } from '../services/apiRouter';
+import { fetchAll } from '../services/pagination';
 import { Event, Team, Division } from '../types';
+import { Match } from '../types/api';
 import { getMatchDisplayConfig } from '../utils/matchDisplay';
 import { getCompetitionType, is2v0Format, getProgramConfig } from '../utils/programMappings';
+import { getEventStatus } from '../utils/eventUtils';
+import {
+  calculateMatchAnalytics,
+  projectRankings,
+  getTopNProbability,
+  toAnalyticsMatches,
+  QUALIFICATION_ROUND,
+  RankingProjection,
+  TeamRankProjection,
+} from '../utils/matchAnalytics';
+import { getEligibilityRuleSet, getSeasonKey } from '../utils/eligibility/ruleSets';
+import { applyEligibilityRounding } from '../utils/eligibility/common';
 import AnimatedScrollBar from '../components/AnimatedScrollBar';
 import RankingCardSkeleton from '../components/RankingCardSkeleton';
+import LastUpdatedIndicator from '../components/LastUpdatedIndicator';
+import { ResponseCacheInfo } from '../services/responseCache';
 
 type EventDivisionRankingsScreenRouteProp = RouteProp<any, any>;
 
@@ -87,6 +105,7 @@ const EventDivisionRankingsScreen = ({ route, navigation }: Props) => {
   const [teamNumberQuery, setTeamNumberQuery] = useState('');
   const [showLoading, setShowLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [lastUpdated, setLastUpdated] = useState<ResponseCacheInfo | null>(null);
   const [scrollY, setScrollY] = useState(0);
   const [contentHeight, setContentHeight] = useState(0);
   const [viewportHeight, setViewportHeight] = useState(0);
@@ -94,6 +113,11 @@ const EventDivisionRankingsScreen = ({ route, navigation }: Props) => {
   const [showFinalistRankings, setShowFinalistRankings] = useState(false);
   const [hasFinalistRankings, setHasFinalistRankings] = useState(false);
   const [showAverageStats, setShowAverageStats] = useState(true);
+  const [divisionMatches, setDivisionMatches] = useState<Match[] | null>(null); // null until projections first fetch it
+  const [showProjections, setShowProjections] = useState(false);
+  const showProjectionsRef = useRef(false);
+  const [projectionTopN, setProjectionTopN] = useState(8);
+  const [projection, setProjection] = useState<RankingProjection | null>(null);
 
   // Use format-aware logic instead of hardcoded program checks
   const matchDisplayConfig = getMatchDisplayConfig(selectedProgram || 'VEX V5 Robotics Competition');
@@ -117,6 +141,55 @@ const EventDivisionRankingsScreen = ({ route, navigation }: Props) => {
     return matchDisplayConfig.scoreLabel;
   };
 
+  // Projections need head-to-head qualification results (WP/AP/SP)
+  const canProjectRankings = !showSimplifiedStats && !showFinalistRankings;
+
+  const remainingQualificationMatches = useMemo(() => {
+    if (!divisionMatches) return null;
+    return toAnalyticsMatches(divisionMatches)
+      .filter(match => match.round === QUALIFICATION_ROUND && !match.played).length;
+  }, [divisionMatches]);
+
+  // Offered until the schedule shows every qualification match has been played
+  const projectionsAvailable = canProjectRankings &&
+    getEventStatus(event).status !== 'completed' &&
+    remainingQualificationMatches !== 0;
+
+  // The simulation takes a noticeable moment on large divisions, so it runs after
+  // interactions settle and writes state instead of running during render
+  useEffect(() => {
+    if (!showProjections || !projectionsAvailable || !divisionMatches || rankings.length === 0) {
+      setProjection(null);
+      return;
+    }
+
+    const task = InteractionManager.runAfterInteractions(() => {
+      const analytics = calculateMatchAnalytics(divisionMatches);
+      setProjection(projectRankings(
+        rankings.map(ranking => ({
+          teamId: ranking.team.id,
+          rank: ranking.rank,
+          wins: ranking.wins || 0,
+          losses: ranking.losses || 0,
+          ties: ranking.ties || 0,
+          wp: ranking.wp || 0,
+          ap: ranking.ap || 0,
+          sp: ranking.sp || 0,
+        })),
+        divisionMatches,
+        analytics
+      ));
+    });
+    return () => task.cancel();
+  }, [showProjections, projectionsAvailable, rankings, divisionMatches]);
+
+  // Qualifier rank cutoff for Excellence (or the program's equivalent award). Only the
+  // division-wide rank criterion - skills requirements and grade splits are not projected.
+  const eligibilityRules = getEligibilityRuleSet(selectedProgram, getSeasonKey(event.season?.name))?.eligibility ?? null;
+  const excellenceRankCutoff = eligibilityRules && projection
+    ? Math.max(1, applyEligibilityRounding(projection.teamCount * eligibilityRules.threshold, eligibilityRules.rounding))
+    : null;
+
   useEffect(() => {
     navigation.setOptions({
       title: `${division.name} Rankings`,
@@ -165,6 +238,10 @@ const EventDivisionRankingsScreen = ({ route, navigation }: Props) => {
       const rankingsResponse = fetchFinalist
         ? await robotEventsAPI.getEventDivisionFinalistRankings(event.id, division.id)
         : await robotEventsAPI.getEventDivisionRankings(event.id, division.id);
+      setLastUpdated(robotEventsAPI.getLastUpdated(
+        fetchFinalist ? 'getEventDivisionFinalistRankings' : 'getEventDivisionRankings',
+        { eventId: event.id, divisionId: division.id }
+      ));
 
       // Ensure rankingsData is an array and handle undefined/null cases
       const safeRankingsData = Array.isArray(rankingsResponse.data) ? rankingsResponse.data : [];
@@ -185,23 +262,8 @@ const EventDivisionRankingsScreen = ({ route, navigation }: Props) => {
 
       try {
         // Fetch ALL event teams with pagination
-        let allEventTeams: Team[] = [];
-        let page = 1;
-        let hasMorePages = true;
-
-        while (hasMorePages) {
-          const teamsResponse = await robotEventsAPI.getEventTeams(event.id, { page, per_page: 250 });
-          const pageTeams = Array.isArray(teamsResponse.data) ? teamsResponse.data : [];
-
-          allEventTeams = allEventTeams.concat(pageTeams as Team[]);
-
-          // Check if there are more pages
-          if (pageTeams.length < 250) {
-            hasMorePages = false;
-          } else {
-            page++;
-          }
-        }
+        const eventTeamsResult = await fetchAll(filters => robotEventsAPI.getEventTeams(event.id, filters));
+        const allEventTeams = eventTeamsResult.data as Team[];
 
         eventTeamsMap = allEventTeams.reduce((acc, team) => {
           if (team && team.id) {
@@ -292,6 +354,11 @@ const EventDivisionRankingsScreen = ({ route, navigation }: Props) => {
       setRankings(sortedRankings);
       setFilteredRankings(sortedRankings);
 
+      // Keep the schedule in step with the rankings while projections are shown
+      if (showProjectionsRef.current && !fetchFinalist && !showSimplifiedStats) {
+        await fetchDivisionMatches();
+      }
+
       // Check if finalist rankings exist (only if program supports them and we're fetching qualification rankings)
       if (programSupportsFinalistRankings && !fetchFinalist) {
         try {
@@ -312,8 +379,20 @@ const EventDivisionRankingsScreen = ({ route, navigation }: Props) => {
     }
   };
 
+  // Division schedule for ranking projections, only fetched once projections are turned on
+  const fetchDivisionMatches = async () => {
+    try {
+      const matchesResponse = await robotEventsAPI.getEventDivisionMatches(event.id, division.id);
+      setDivisionMatches(Array.isArray(matchesResponse.data) ? matchesResponse.data : []);
+    } catch (error) {
+      logger.debug('Failed to fetch division matches for projections:', error);
+      setDivisionMatches([]);
+    }
+  };
+
   const handleRefresh = async () => {
     setRefreshing(true);
+    robotEventsAPI.invalidateEvent(event.id);
     await fetchRankings(showFinalistRankings);
   };
 
@@ -327,6 +406,21 @@ const EventDivisionRankingsScreen = ({ route, navigation }: Props) => {
     fetchRankings(showFinalistRankings);
   }, [event.id, division.id]);
 
+  useEffect(() => {
+    showProjectionsRef.current = showProjections;
+    if (showProjections && canProjectRankings) {
+      fetchDivisionMatches();
+    }
+  }, [showProjections, canProjectRankings, event.id, division.id]);
+
+  // The toggle is shown before the schedule is known; turn projections back off if nothing is left to simulate
+  useEffect(() => {
+    if (showProjections && remainingQualificationMatches === 0) {
+      setShowProjections(false);
+      Alert.alert('Projections Unavailable', 'Every qualification match in this division has been played.');
+    }
+  }, [showProjections, remainingQualificationMatches]);
+
   // Refresh data when tab becomes focused
   useFocusEffect(
     React.useCallback(() => {
@@ -358,11 +452,109 @@ const EventDivisionRankingsScreen = ({ route, navigation }: Props) => {
     });
   };
 
+  const formatOrdinal = (n: number): string => {
+    const lastTwo = n % 100;
+    if (lastTwo >= 11 && lastTwo <= 13) return `${n}th`;
+    return `${n}${['th', 'st', 'nd', 'rd'][n % 10] || 'th'}`;
+  };
+
+  const formatPercent = (probability: number): string => {
+    const percent = probability * 100;
+    if (percent > 0 && percent < 1) return '<1%';
+    if (percent < 100 && percent > 99) return '>99%';
+    return `${Math.round(percent)}%`;
+  };
+
+  const renderProjectionSummary = () => {
+    if (!projection) {
+      if (!showProjections || !projectionsAvailable) return null;
+      return (
+        <View style={[styles.projectionSummary, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor }]}>
+          <Text style={[styles.projectionSummaryText, { color: settings.secondaryTextColor }]}>
+            Simulating remaining qualification matches...
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <View style={[styles.projectionSummary, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor }]}>
+        <Text style={[styles.projectionSummaryText, { color: settings.secondaryTextColor }]}>
+          {projection.simulations.toLocaleString()} simulations of {projection.remainingMatches} remaining qualification matches
+        </Text>
+        <View style={styles.topNRow}>
+          <Text style={[styles.projectionSummaryText, { color: settings.textColor }]}>Top</Text>
+          {[4, 8, 12, 16].filter(n => n < projection.teamCount).map(n => (
+            <TouchableOpacity
+              key={n}
+              style={[
+                styles.topNChip,
+                { borderColor: settings.buttonColor },
+                projectionTopN === n && { backgroundColor: settings.buttonColor },
+              ]}
+              onPress={() => setProjectionTopN(n)}
+            >
+              <Text style={[styles.topNChipText, { color: projectionTopN === n ? '#FFFFFF' : settings.buttonColor }]}>{n}</Text>
+            </TouchableOpacity>
+          ))}
+          {excellenceRankCutoff !== null && eligibilityRules && (
+            <Text style={[styles.projectionSummaryText, { color: settings.secondaryTextColor }]}>
+              · {eligibilityRules.awardName} rank criterion: top {excellenceRankCutoff}
+            </Text>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  const getProjectionStats = (teamProjection: TeamRankProjection) => {
+    const items = [
+      { label: 'Proj. Rank', value: `${teamProjection.averageRank.toFixed(1)} (${teamProjection.bestRank}-${teamProjection.worstRank})` },
+      { label: `Top ${projectionTopN}`, value: formatPercent(getTopNProbability(teamProjection, projectionTopN)) },
+      ...(excellenceRankCutoff !== null && eligibilityRules
+        ? [{ label: 'Award Rank', value: formatPercent(getTopNProbability(teamProjection, excellenceRankCutoff)) }]
+        : []),
+    ];
+    return items;
+  };
+
+  const renderRankDistribution = (teamProjection: TeamRankProjection) => {
+    const maxProbability = Math.max(...teamProjection.rankProbabilities);
+    if (maxProbability === 0) return null;
+
+    return (
+      <View style={styles.distributionContainer}>
+        <View style={styles.distributionBars}>
+          {teamProjection.rankProbabilities.map((probability, index) => (
+            <View
+              key={index}
+              style={[
+                styles.distributionBar,
+                {
+                  height: Math.max((probability / maxProbability) * 32, probability > 0 ? 2 : 0),
+                  backgroundColor: index < projectionTopN ? settings.buttonColor : settings.secondaryTextColor,
+                  opacity: index + 1 === teamProjection.currentRank ? 1 : 0.7,
+                },
+              ]}
+            />
+          ))}
+        </View>
+        <View style={styles.distributionAxis}>
+          <Text style={[styles.distributionAxisText, { color: settings.secondaryTextColor }]}>1st</Text>
+          <Text style={[styles.distributionAxisText, { color: settings.secondaryTextColor }]}>
+            {formatOrdinal(teamProjection.rankProbabilities.length)}
+          </Text>
+        </View>
+      </View>
+    );
+  };
+
   const renderCompactRankingItem = ({ item }: { item: TeamRanking }) => {
     try {
       const teamNumber = teamsMap[item.team.id.toString()] || item.team.number || '';
       const teamName = item.team.team_name || '';
       const matchesPlayed = calculateMatchesPlayed(item);
+      const teamProjection = projection?.teams[item.team.id];
 
       return (
         <TouchableOpacity
@@ -403,6 +595,15 @@ const EventDivisionRankingsScreen = ({ route, navigation }: Props) => {
               </>
             )}
           </View>
+          {teamProjection && (
+            <View style={styles.compactStatsRow}>
+              {getProjectionStats(teamProjection).map(stat => (
+                <Text key={stat.label} style={[styles.compactStat, { color: settings.buttonColor }]}>
+                  {stat.label}: {stat.value}
+                </Text>
+              ))}
+            </View>
+          )}
         </TouchableOpacity>
       );
     } catch (error) {
@@ -417,6 +618,7 @@ const EventDivisionRankingsScreen = ({ route, navigation }: Props) => {
       const teamName = item.team.team_name || '';
       const isFavorite = false;
       const matchesPlayed = calculateMatchesPlayed(item);
+      const teamProjection = projection?.teams[item.team.id];
 
       return (
         <TouchableOpacity
@@ -488,6 +690,19 @@ const EventDivisionRankingsScreen = ({ route, navigation }: Props) => {
                   </Text>
                 </View>
               </View>
+              {teamProjection && (
+                <View style={[styles.projectionContainer, { borderTopColor: settings.borderColor }]}>
+                  <View style={styles.projectionStatsRow}>
+                    {getProjectionStats(teamProjection).map(stat => (
+                      <View key={stat.label} style={styles.statCard}>
+                        <Text style={[styles.statLabel, { color: settings.secondaryTextColor }]}>{stat.label}</Text>
+                        <Text style={[styles.projectionValue, { color: settings.buttonColor }]}>{stat.value}</Text>
+                      </View>
+                    ))}
+                  </View>
+                  {renderRankDistribution(teamProjection)}
+                </View>
+              )}
             </>
         )}
         </TouchableOpacity>
@@ -567,8 +782,46 @@ const EventDivisionRankingsScreen = ({ route, navigation }: Props) => {
             </Text>
           </TouchableOpacity>
         )}
+
+        {/* Projection Toggle - Only while qualification matches remain */}
+        {projectionsAvailable && (
+          <TouchableOpacity
+            style={[styles.toggleButton, {
+              backgroundColor: showProjections ? settings.buttonColor : settings.cardBackgroundColor,
+              borderColor: settings.borderColor,
+            }]}
+            onPress={() => setShowProjections(!showProjections)}
+          >
+            <Ionicons
+              name={showProjections ? "analytics" : "analytics-outline"}
+              size={18}
+              color={showProjections ? '#FFFFFF' : settings.textColor}
+            />
+            <Text style={[styles.toggleButtonText, {
+              color: showProjections ? '#FFFFFF' : settings.textColor
+            }]}>
+              Projected
+            </Text>
+          </TouchableOpacity>
+        )}
+
+        {/* Alliance Selection - 2v2 programs only */}
+        {programConfig.matchFormat === '2v2' && !showFinalistRankings && rankings.length > 0 && (
+          <TouchableOpacity
+            style={[styles.toggleButton, {
+              backgroundColor: settings.cardBackgroundColor,
+              borderColor: settings.borderColor,
+            }]}
+            onPress={() => navigation.navigate('AllianceSelection', { event, division, teamsMap })}
+            accessibilityLabel="Alliance selection"
+          >
+            <Ionicons name="people-outline" size={18} color={settings.textColor} />
+          </TouchableOpacity>
+        )}
       </View>
 
+      {renderProjectionSummary()}
+      <LastUpdatedIndicator info={lastUpdated} />
       <View style={{ flex: 1 }}>
         <FlatList
           ref={flatListRef}
@@ -837,6 +1090,71 @@ const styles = StyleSheet.create({
     fontSize: 10,
     marginHorizontal: 4,
   },
+  // Projection Styles
+  projectionSummary: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+    padding: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    gap: 6,
+  },
+  projectionSummaryText: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+  topNRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  topNChip: {
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 3,
+  },
+  topNChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  projectionContainer: {
+    borderTopWidth: 1,
+    paddingTop: 12,
+    marginTop: 12,
+  },
+  projectionStatsRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  projectionValue: {
+    fontSize: 14,
+    fontWeight: '700',
+    textAlign: 'center',
+  },
+  distributionContainer: {
+    marginTop: 10,
+  },
+  distributionBars: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: 32,
+    gap: 1,
+  },
+  distributionBar: {
+    flex: 1,
+    borderTopLeftRadius: 1,
+    borderTopRightRadius: 1,
+  },
+  distributionAxis: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 2,
+  },
+  distributionAxisText: {
+    fontSize: 10,
+  },
 });
 
 export default EventDivisionRankingsScreen;
\ No newline at end of file
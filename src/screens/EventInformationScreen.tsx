@@ -393,6 +393,7 @@ const EventInformationScreen = ({ route, navigation }: EventInformationScreenPro
   };
 
   const onRefresh = () => {
+    robotEventsAPI.invalidateEvent(event.id);
     fetchEventData();
   };
 
@@ -432,6 +432,9 @@ const EventMainView = ({ route, navigation }: EventMainViewProps) => {
   };
 
   const onRefresh = useCallback(() => {
+    if (event) {
+      robotEventsAPI.invalidateEvent(event.id);
+    }
     fetchEventData(true);
   }, [event]);
 
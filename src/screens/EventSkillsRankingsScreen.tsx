@@ -46,7 +46,6 @@ import {
 } from '../utils/matchDisplay';
 import { getCompetitionType, getProgramConfig, useThemedScoreColors } from '../utils/programMappings';
 import { getDynamicLabel } from '../utils/eligibility/common';
-import { RobotProgram } from '../utils/eligibility/types';
 import type { ProgramType } from '../contexts/SettingsContext';
 
 type EventSkillsRankingsScreenRouteProp = RouteProp<
@@ -93,18 +92,6 @@ interface SkillsRanking {
   driver_attempts: number;
 }
 
-// Helper function to convert ProgramType to RobotProgram
-const programToRobotProgram = (program: ProgramType): RobotProgram | null => {
-  if (program.includes('VEX V5') || program.includes('VEX U')) {
-    return RobotProgram.V5RC;
-  } else if (program.includes('VEX IQ')) {
-    return RobotProgram.VIQRC;
-  } else if (program.includes('Aerial Drone')) {
-    return RobotProgram.ADC;
-  }
-  return null;
-};
-
 const EventSkillsRankingsScreen = ({ route, navigation }: Props) => {
   const { event, teamsMap = {} } = route.params || {};
   const settings = useSettings();
@@ -132,7 +119,6 @@ const EventSkillsRankingsScreen = ({ route, navigation }: Props) => {
   // Use enhanced format-aware system for skills display
   const skillsDisplayInfo = getSkillsDisplayInfo(selectedProgram);
   const competitionType = getCompetitionType(selectedProgram);
-  const robotProgram = programToRobotProgram(selectedProgram);
   const programConfig = getProgramConfig(selectedProgram);
 
   // Get proper labels using program-specific mappings
@@ -517,6 +503,7 @@ const EventSkillsRankingsScreen = ({ route, navigation }: Props) => {
 
   const handleRefresh = async () => {
     setRefreshing(true);
+    robotEventsAPI.invalidateEvent(event.id);
     await fetchSkillsRankings();
   };
 
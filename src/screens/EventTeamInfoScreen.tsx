@@ -829,6 +829,8 @@ const EventTeamInfoScreen = ({ route, navigation }: Props) => {
 
     try {
       logger.debug('Starting pull-to-refresh...');
+      robotEventsAPI.invalidateTeam(currentTeam.id);
+      robotEventsAPI.invalidateEvent(event.id);
 
       // Get program and season info for refresh
       const programId = getProgramId(selectedProgram);
@@ -880,6 +882,7 @@ const EventTeamInfoScreen = ({ route, navigation }: Props) => {
   }, [
     team,
     teamData,
+    event.id,
     selectedProgram,
     selectedSeason,
     forceRefreshSeasons,
@@ -39,11 +39,15 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { Ionicons } from '@expo/vector-icons';
 import { useSettings } from '../contexts/SettingsContext';
 import { useFavorites } from '../contexts/FavoritesContext';
+import { useNotes } from '../contexts/NotesContext';
 import { robotEventsAPI } from '../services/apiRouter';
+import { fetchAll, PaginationProgress } from '../services/pagination';
 import { Event, Team, Division } from '../types';
 import AnimatedScrollBar from '../components/AnimatedScrollBar';
 import { DataExporter } from '../utils/dataExporter';
-import DataExportModal from '../components/DataExportModal';
+import { EXPORT_FORMAT_INFO, ExportFormat } from '../utils/exportFormats';
+import DataExportModal, { CalendarExportScope } from '../components/DataExportModal';
+import { buildEventsCalendar, buildMatchScheduleCalendar, getCalendarFileName } from '../utils/calendarExport';
 import { getProgramId } from '../utils/programMappings';
 import TeamCardSkeleton from '../components/TeamCardSkeleton';
 
@@ -74,12 +78,13 @@ interface TeamListItem {
 const EventTeamListScreen = ({ route, navigation }: Props) => {
   const { event, division } = route.params;
   const settings = useSettings();
-  const { addTeam, removeTeam, isTeamFavorited } = useFavorites();
+  const { addTeam, removeTeam, isTeamFavorited, favorites, favoriteTeams } = useFavorites();
+  const { getNotesByEvent } = useNotes();
 
   const [teams, setTeams] = useState<TeamListItem[]>([]);
   const [filteredTeams, setFilteredTeams] = useState<TeamListItem[]>([]);
   const [isExporting, setIsExporting] = useState(false);
-  const [exportProgress, setExportProgress] = useState<{ current: number; total: number; startTime?: number } | undefined>(undefined);
+  const [exportProgress, setExportProgress] = useState<{ current: number; total: number; startTime?: number; stage?: string } | undefined>(undefined);
   const [fullTeamsData, setFullTeamsData] = useState<Team[]>([]);
   const [teamNumberQuery, setTeamNumberQuery] = useState('');
   const [showLoading, setShowLoading] = useState(true);
@@ -88,6 +93,8 @@ const EventTeamListScreen = ({ route, navigation }: Props) => {
   const [viewportHeight, setViewportHeight] = useState(0);
   const flatListRef = useRef<any>(null);
   const [showExportModal, setShowExportModal] = useState(false);
+  const fetchAbortRef = useRef<AbortController | null>(null);
+  const exportAbortRef = useRef<AbortController | null>(null);
 
   const handleExportModalOpen = () => {
     if (fullTeamsData.length === 0) {
@@ -97,13 +104,23 @@ const EventTeamListScreen = ({ route, navigation }: Props) => {
     setShowExportModal(true);
   };
 
-  const handleExport = async (selectedFields: { [key: string]: boolean }, exportScope: 'event' | 'season' | 'season-by-event', eventAwardsScope?: 'event' | 'season') => {
+  const handleExport = async (selectedFields: { [key: string]: boolean }, exportScope: 'event' | 'season' | 'season-by-event', eventAwardsScope: 'event' | 'season', format: ExportFormat) => {
     setIsExporting(true);
     const startTime = Date.now();
     setExportProgress({ current: 0, total: 0, startTime });
+    const exportAbort = new AbortController();
+    exportAbortRef.current = exportAbort;
 
     try {
-      const teamsToExport = fullTeamsData;
+      // Reload the complete team list (all pages) so the export isn't missing anyone
+      const teamsToExport = await fetchEventTeams(progress => {
+        setExportProgress({
+          current: progress.page,
+          total: progress.lastPage ?? progress.page,
+          startTime,
+          stage: 'Loading teams',
+        });
+      }, exportAbort);
       const exportEventName = event.name;
       const exportDivisionName = division?.name || 'All Divisions';
 
@@ -122,12 +139,15 @@ const EventTeamListScreen = ({ route, navigation }: Props) => {
         eventId: exportScope === 'event' ? event.id : undefined,
         divisionId: division?.id,
         seasonId: event.season.id,
-        exportScope: exportScope // Pass the full scope to the exporter
+        exportScope: exportScope, // Pass the full scope to the exporter
+        sourceEventId: event.id,
+        divisions: event.divisions,
+        notes: format === 'pdf' ? getNotesByEvent(event.id) : undefined,
       };
 
-      await DataExporter.exportTeamsWithStatsToCSV(
+      await DataExporter.exportTeamsWithStats(
         exportData,
-        { selectedFields, eventAwardsScope },
+        { selectedFields, eventAwardsScope, format },
         (current, total) => {
           logger.debug(`Exporting team ${current} of ${total}`);
           setExportProgress({ current, total, startTime });
@@ -135,17 +155,79 @@ const EventTeamListScreen = ({ route, navigation }: Props) => {
       );
 
       setShowExportModal(false);
-      Alert.alert('Success', `Exported data for ${teamsToExport.length} teams successfully!`);
+      Alert.alert('Success', `Exported ${EXPORT_FORMAT_INFO[format].label} data for ${teamsToExport.length} teams successfully!`);
     } catch (error) {
-      logger.error('Export error:', error);
       setShowExportModal(false);
+      if (exportAbort.signal.aborted) {
+        logger.debug('Export cancelled while loading teams');
+        Alert.alert('Export Cancelled', 'The team list stopped loading before the export finished. No file was created.');
+      } else {
+        logger.error('Export error:', error);
+        Alert.alert(
+          'Export Failed',
+          error instanceof Error ? error.message : 'An unknown error occurred'
+        );
+      }
+    } finally {
+      if (exportAbortRef.current === exportAbort) {
+        exportAbortRef.current = null;
+      }
+      setIsExporting(false);
+      setExportProgress(undefined);
+    }
+  };
+
+  const handleExportCalendar = async (scope: CalendarExportScope) => {
+    setIsExporting(true);
+    try {
+      if (scope === 'event') {
+        await DataExporter.shareCalendarData(buildEventsCalendar([event]), getCalendarFileName(event.name));
+      } else if (scope === 'favoriteEvents') {
+        // Favorites only keep the first and last day, so reload each event for its league sessions
+        const favoriteEventIds = favorites
+          .filter(item => item.type === 'event' && item.eventApiId)
+          .map(item => item.eventApiId!);
+        if (favoriteEventIds.length === 0) {
+          Alert.alert('No Favorite Events', 'Favorite an event to add it to your calendar.');
+          return;
+        }
+        const results = await Promise.allSettled(favoriteEventIds.map(id => robotEventsAPI.getEventById(id)));
+        const events = results.flatMap(result => (result.status === 'fulfilled' && result.value ? [result.value] : []));
+        if (events.length === 0) {
+          throw new Error('Could not load your favorite events');
+        }
+        await DataExporter.shareCalendarData(buildEventsCalendar(events), getCalendarFileName('Favorite Events'));
+      } else {
+        if (favoriteTeams.length === 0) {
+          Alert.alert('No Favorite Teams', 'Favorite a team to export its match schedule.');
+          return;
+        }
+        const divisions = event.divisions?.length ? event.divisions : division ? [division] : [];
+        const responses = await Promise.all(divisions.map(d => robotEventsAPI.getEventDivisionMatches(event.id, d.id)));
+        const { ics, exported, skipped } = buildMatchScheduleCalendar(
+          event,
+          responses.flatMap(response => response.data),
+          favoriteTeams
+        );
+        if (exported === 0) {
+          Alert.alert(
+            'No Scheduled Matches',
+            skipped > 0
+              ? 'Your favorite teams\' matches at this event do not have times yet.'
+              : 'None of your favorite teams have matches at this event yet.'
+          );
+          return;
+        }
+        await DataExporter.shareCalendarData(ics, getCalendarFileName(`${event.name} Matches`));
+      }
+    } catch (error) {
+      logger.error('Calendar export error:', error);
       Alert.alert(
         'Export Failed',
         error instanceof Error ? error.message : 'An unknown error occurred'
       );
     } finally {
       setIsExporting(false);
-      setExportProgress(undefined);
     }
   };
 
@@ -182,15 +264,46 @@ const EventTeamListScreen = ({ route, navigation }: Props) => {
     return locationArray.join(', ');
   };
 
-  const fetchEventTeams = async () => {
+  const fetchEventTeams = async (
+    onPageProgress?: (progress: PaginationProgress) => void,
+    exportAbort?: AbortController
+  ): Promise<Team[]> => {
+    // Screen loads cancel any in-progress load before starting a new one. An export
+    // brings its own controller so a refresh during the export cannot cancel it.
+    let abortController = exportAbort;
+    if (!abortController) {
+      fetchAbortRef.current?.abort();
+      abortController = new AbortController();
+      fetchAbortRef.current = abortController;
+    }
+
     try {
-      setShowLoading(true);
+      if (!onPageProgress) {
+        setShowLoading(true);
+      }
 
-      // Fetch real event teams data from API
-      const eventTeamsResponse = await robotEventsAPI.getEventTeams(event.id);
+      // Fetch every page of event teams from API
+      const eventTeamsResult = await fetchAll(
+        filters => robotEventsAPI.getEventTeams(event.id, filters),
+        {},
+        { signal: abortController.signal, onProgress: onPageProgress }
+      );
+
+      if (eventTeamsResult.cancelled) {
+        if (exportAbort) {
+          throw new Error('Loading teams for the export was cancelled');
+        }
+        return [];
+      }
+      if (!eventTeamsResult.complete) {
+        if (eventTeamsResult.data.length === 0) {
+          throw eventTeamsResult.error || new Error('Failed to load event teams');
+        }
+        logger.warn(`Only loaded ${eventTeamsResult.data.length} event teams before a page failed`);
+      }
 
       // Transform API teams to UI teams (ensure organization is not undefined and program has code)
-      const uiTeams = eventTeamsResponse.data.map(team => ({
+      const uiTeams = eventTeamsResult.data.map(team => ({
         ...team,
         organization: team.organization || '',
         program: {
@@ -271,18 +384,36 @@ const EventTeamListScreen = ({ route, navigation }: Props) => {
 
       setTeams(teamListItems);
       setFilteredTeams(teamListItems);
+      return teamsToDisplay;
     } catch (error) {
       logger.error('Failed to fetch event teams:', error);
+      if (onPageProgress) {
+        throw error;
+      }
       Alert.alert('Error', 'Failed to load event teams. Please try again.');
+      return [];
     } finally {
       setShowLoading(false);
     }
   };
 
+  const handleRefresh = () => {
+    robotEventsAPI.invalidateEvent(event.id);
+    fetchEventTeams();
+  };
+
   useEffect(() => {
     fetchEventTeams();
   }, [event.id, division]);
 
+  // Stop paging through teams when leaving the screen
+  useEffect(() => {
+    return () => {
+      fetchAbortRef.current?.abort();
+      exportAbortRef.current?.abort();
+    };
+  }, []);
+
   // Refresh data when tab becomes focused
   useFocusEffect(
     React.useCallback(() => {
@@ -489,7 +620,7 @@ const EventTeamListScreen = ({ route, navigation }: Props) => {
           scrollEventThrottle={16}
           ref={flatListRef}
           refreshing={showLoading}
-          onRefresh={fetchEventTeams}
+          onRefresh={handleRefresh}
         />
         <AnimatedScrollBar
           scrollY={scrollY}
@@ -505,6 +636,7 @@ const EventTeamListScreen = ({ route, navigation }: Props) => {
         visible={showExportModal}
         onClose={() => setShowExportModal(false)}
         onExport={handleExport}
+        onExportCalendar={handleExportCalendar}
         eventName={event.name}
         seasonName={event.season?.name}
         isExporting={isExporting}
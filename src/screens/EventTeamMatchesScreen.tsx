@@ -16,6 +16,8 @@
  * - Alliance partner identification and team collaboration details
  * - Match notes integration with note-taking capabilities
  * - Win-loss tracking and team performance statistics
+ * - Estimated start times and queue countdowns for upcoming matches at live events
+ * - Calendar (.ics) export of the team's match schedule
  * - Navigation to detailed match information and opponent analysis
  */
 import React, { useState, useEffect, useMemo } from 'react';
@@ -39,9 +41,14 @@ import { StackNavigationProp } from '@react-navigation/stack';
 import { Ionicons } from '@expo/vector-icons';
 import { useSettings } from '../contexts/SettingsContext';
 import { useNotes, TeamMatchNote } from '../contexts/NotesContext';
+import { useLiveEvent, useLiveEventPolling } from '../contexts/LiveEventContext';
 import { robotEventsAPI } from '../services/apiRouter';
 import { Event, Division, Team } from '../types';
 import { getMatchDisplayConfig } from '../utils/matchDisplay';
+import { filterLiveEvents } from '../utils/eventUtils';
+import { DataExporter } from '../utils/dataExporter';
+import { buildMatchScheduleCalendar, getCalendarFileName } from '../utils/calendarExport';
+import { MatchTimeEstimate, estimateMatchTimes, formatEstimatedStart, formatQueueCountdown } from '../utils/matchSchedule';
 import { isTeamVsTeamFormat, is2v0Format, useThemedScoreColors } from '../utils/programMappings';
 import MatchCardSkeleton from '../components/MatchCardSkeleton';
 
@@ -112,6 +119,7 @@ const EventTeamMatchesScreen = ({ route, navigation }: Props) => {
     buttonColor,
   } = settings;
   const { getNotesByTeam, deleteEmptyNotes } = useNotes();
+  const { snapshots } = useLiveEvent();
 
   // Get match display configuration based on the current program
   const matchDisplayConfig = getMatchDisplayConfig(settings.selectedProgram);
@@ -127,6 +135,8 @@ const EventTeamMatchesScreen = ({ route, navigation }: Props) => {
   const [refreshing, setRefreshing] = useState(false);
   const [showingTeamNotes, setShowingTeamNotes] = useState(false);
   const [teamMatchNotes, setTeamMatchNotes] = useState<TeamMatchNote[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const [exportingCalendar, setExportingCalendar] = useState(false);
 
   useEffect(() => {
     navigation.setOptions({
@@ -140,8 +150,21 @@ const EventTeamMatchesScreen = ({ route, navigation }: Props) => {
         fontWeight: '500',
         fontSize: 19,
       },
+      headerRight: () => (
+        <TouchableOpacity
+          style={{ marginRight: 16 }}
+          onPress={handleExportCalendar}
+          disabled={exportingCalendar || matches.length === 0}
+        >
+          {exportingCalendar ? (
+            <ActivityIndicator size="small" color={settings.topBarContentColor} />
+          ) : (
+            <Ionicons name="calendar-outline" size={24} color={settings.topBarContentColor} />
+          )}
+        </TouchableOpacity>
+      ),
     });
-  }, [teamNumber, settings.topBarColor, settings.topBarContentColor]);
+  }, [teamNumber, settings.topBarColor, settings.topBarContentColor, exportingCalendar, matches.length]);
 
   const formatTime = (date?: Date): string => {
     if (!date) return ' ';
@@ -241,7 +264,7 @@ const EventTeamMatchesScreen = ({ route, navigation }: Props) => {
     }
   };
 
-  const fetchTeamMatches = async () => {
+  const fetchTeamMatches = async (showErrors = true) => {
     try {
       logger.debug('Fetching matches for team:', teamNumber, 'ID:', teamId);
 
@@ -318,13 +341,39 @@ const EventTeamMatchesScreen = ({ route, navigation }: Props) => {
       setMatches(matchListItems);
     } catch (error) {
       logger.error('Failed to fetch team matches:', error);
-      Alert.alert('Error', 'Failed to load team matches. Please try again.');
+      if (showErrors) {
+        Alert.alert('Error', 'Failed to load team matches. Please try again.');
+      }
     } finally {
       setShowLoading(false);
       setRefreshing(false);
     }
   };
 
+  const handleExportCalendar = async () => {
+    setExportingCalendar(true);
+    try {
+      // Schedule times come from the division match lists, which refresh faster than the team's own list
+      const divisionIds = Array.from(new Set(
+        matches.map(item => item.rawMatch?.division?.id).filter((id): id is number => typeof id === 'number')
+      ));
+      if (divisionIds.length === 0 && division) divisionIds.push(division.id);
+
+      const responses = await Promise.all(divisionIds.map(id => robotEventsAPI.getEventDivisionMatches(event.id, id)));
+      const { ics, exported } = buildMatchScheduleCalendar(event, responses.flatMap(response => response.data), [teamNumber]);
+      if (exported === 0) {
+        Alert.alert('No Scheduled Matches', `${teamNumber}'s matches at this event do not have times yet.`);
+        return;
+      }
+      await DataExporter.shareCalendarData(ics, getCalendarFileName(`${teamNumber} ${event.name}`));
+    } catch (error) {
+      logger.error('Failed to export match calendar:', error);
+      Alert.alert('Export Failed', 'Could not create the match calendar. Please try again.');
+    } finally {
+      setExportingCalendar(false);
+    }
+  };
+
   const fetchTeamNotes = async () => {
     try {
       // Fetch team notes using the notes context
@@ -338,9 +387,45 @@ const EventTeamMatchesScreen = ({ route, navigation }: Props) => {
 
   const handleRefresh = async () => {
     setRefreshing(true);
+    robotEventsAPI.invalidateEvent(event.id);
     await fetchTeamMatches();
   };
 
+  // Update quietly while the event is live
+  const isLiveEvent = filterLiveEvents([event], {
+    devLiveEventSimulation: settings.devLiveEventSimulation,
+    isDeveloperMode: settings.isDeveloperMode,
+    devTestEventId: settings.devTestEventId,
+  }).length > 0;
+  useLiveEventPolling(isLiveEvent ? [event.id] : [], () => {
+    // The poller refreshed the division matches; this screen reads the team's own match list
+    robotEventsAPI.invalidateTeam(teamId);
+    fetchTeamMatches(false);
+  });
+
+  // Start times are learned from every division's matches, which the poller already holds
+  const liveSnapshot = isLiveEvent ? snapshots[event.id] : undefined;
+  const matchEstimates = useMemo(
+    () => (liveSnapshot ? estimateMatchTimes(liveSnapshot.matches, now) : new Map<number, MatchTimeEstimate>()),
+    [liveSnapshot, now]
+  );
+
+  // Keep queue countdowns ticking between polls
+  const hasLiveSnapshot = !!liveSnapshot;
+  useEffect(() => {
+    if (!hasLiveSnapshot) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, [hasLiveSnapshot]);
+
+  const getEstimateText = (item: MatchListItem): string | null => {
+    const estimate = matchEstimates.get(item.id);
+    if (!estimate) return null;
+    if (estimate.basis === 'started') return formatQueueCountdown(estimate, now);
+    return `~${formatEstimatedStart(estimate)} · ${formatQueueCountdown(estimate, now)}`;
+  };
+
   useEffect(() => {
     fetchTeamMatches();
     fetchTeamNotes();
@@ -407,6 +492,10 @@ const EventTeamMatchesScreen = ({ route, navigation }: Props) => {
       fontSize: 14,
       color: secondaryTextColor,
     },
+    estimateText: {
+      fontSize: 12,
+      marginTop: 2,
+    },
     matchContent: {
       gap: 4,
     },
@@ -779,6 +868,9 @@ const EventTeamMatchesScreen = ({ route, navigation }: Props) => {
               <Text style={[dynamicStyles.compactMatchTime, { color: settings.textColor, fontWeight: '600' }]}>{item.field}</Text>
             )}
             <Text style={[dynamicStyles.compactMatchTime, { color: settings.secondaryTextColor }]}>{item.time}</Text>
+            {getEstimateText(item) && (
+              <Text style={[dynamicStyles.compactMatchTime, { color: buttonColor }]}>{getEstimateText(item)}</Text>
+            )}
           </View>
         </View>
 
@@ -889,6 +981,9 @@ const EventTeamMatchesScreen = ({ route, navigation }: Props) => {
             <Text style={[dynamicStyles.matchTime, { fontWeight: '600' }]}>{item.field}</Text>
           )}
           <Text style={dynamicStyles.matchTime}>{item.time}</Text>
+          {getEstimateText(item) && (
+            <Text style={[dynamicStyles.estimateText, { color: buttonColor }]}>{getEstimateText(item)}</Text>
+          )}
         </View>
       </View>
 
@@ -36,6 +36,8 @@ import { Ionicons } from '@expo/vector-icons';
 import { robotEventsAPI } from '../services/apiRouter';
 import { useSettings } from '../contexts/SettingsContext';
 import { useFavorites } from '../contexts/FavoritesContext';
+import { useLiveEventPolling } from '../contexts/LiveEventContext';
+import { filterLiveEvents } from '../utils/eventUtils';
 import { Event, Team } from '../types';
 import { is2v0Format, useThemedScoreColors } from '../utils/programMappings';
 import MatchCardSkeleton from '../components/MatchCardSkeleton';
@@ -480,9 +482,11 @@ const FavoriteTeamsMatchesScreen = ({ route, navigation }: Props) => {
     }
   };
 
-  const fetchFavoriteTeamsMatches = async () => {
+  const fetchFavoriteTeamsMatches = async (showLoading = true) => {
     try {
-      setLoading(true);
+      if (showLoading) {
+        setLoading(true);
+      }
 
       // Get favorite team IDs for quick lookup
       const favoriteTeamIds = favoriteEventTeams.map(team => team.id);
@@ -633,7 +637,9 @@ const FavoriteTeamsMatchesScreen = ({ route, navigation }: Props) => {
 
     } catch (error) {
       logger.error('Failed to fetch favorite teams matches:', error);
-      Alert.alert('Error', 'Failed to load matches. Please try again.');
+      if (showLoading) {
+        Alert.alert('Error', 'Failed to load matches. Please try again.');
+      }
     } finally {
       setLoading(false);
       setRefreshing(false);
@@ -642,9 +648,18 @@ const FavoriteTeamsMatchesScreen = ({ route, navigation }: Props) => {
 
   const handleRefresh = async () => {
     setRefreshing(true);
+    robotEventsAPI.invalidateEvent(event.id);
     await fetchFavoriteTeamsMatches();
   };
 
+  // Update quietly while the event is live
+  const isLiveEvent = filterLiveEvents([event], {
+    devLiveEventSimulation: settings.devLiveEventSimulation,
+    isDeveloperMode: settings.isDeveloperMode,
+    devTestEventId: settings.devTestEventId,
+  }).length > 0;
+  useLiveEventPolling(isLiveEvent ? [event.id] : [], () => fetchFavoriteTeamsMatches(false));
+
   const renderCompactMatchItem = ({ item }: { item: MatchListItem }) => {
     // Use the same winner detection logic as regular mode
     const winner = getWinningAlliance(item);
@@ -14,6 +14,9 @@
  * - WebView integration with loading states and error handling
  * - External browser opening capability via header button
  * - Refresh functionality for manual reloading
+ * - "What changed" view listing rules added, updated or removed by manual updates
+ * - Manual season follows the season selected in settings, with archived seasons browsable
+ * - Can be opened on a single rule (e.g. from a referee violation log)
  * - Fallback URL support for improved reliability
  * - Cross-platform compatibility (native and web)
  */
@@ -33,10 +36,19 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { useSettings } from '../contexts/SettingsContext';
 import GameManualQuickReference, { GameManualQuickReferenceRef } from '../components/GameManualQuickReference';
+import ManualSeasonPickerModal from '../components/ManualSeasonPickerModal';
+import { gameManualService } from '../services/gameManualService';
 import { WebView } from 'react-native-webview';
 
 interface Props {
   navigation: any;
+  route?: {
+    params?: {
+      ruleId?: string; // Rule to open in the quick reference
+      program?: string; // Manual the rule belongs to
+      season?: string;
+    };
+  };
 }
 
 // Web-compatible component for displaying manuals
@@ -65,11 +77,21 @@ const WebManualViewer: React.FC<{ url: string; title: string }> = ({ url, title
 
 type TabType = 'quickref' | 'pdf';
 
-const GameManualScreen: React.FC<Props> = ({ navigation }) => {
+const GameManualScreen: React.FC<Props> = ({ navigation, route }) => {
   const settings = useSettings();
-  const { selectedProgram } = settings;
-  // Use current season name for game manual (not the season ID from settings)
-  const currentSeasonName = '2025-2026';
+  const { selectedProgram, selectedSeason } = settings;
+  const focusRuleId = route?.params?.ruleId;
+  const manualProgram = route?.params?.program || selectedProgram;
+  // Manual season key (e.g., "2025-2026") for the season ID selected in settings.
+  // Starts at the newest bundled season so the quick reference loads immediately.
+  const [currentSeasonName, setCurrentSeasonName] = useState(
+    () => gameManualService.getBundledSeasons(selectedProgram)[0] || ''
+  );
+  // Archived season being browsed, if any
+  const [browsingSeason, setBrowsingSeason] = useState<string | null>(route?.params?.season || null);
+  const hasResolvedSeason = useRef(false);
+  const [seasonPickerVisible, setSeasonPickerVisible] = useState(false);
+  const manualSeason = browsingSeason || currentSeasonName;
   const webViewRef = useRef<WebView>(null);
   const quickRefRef = useRef<GameManualQuickReferenceRef>(null);
   const [usesFallback, setUsesFallback] = useState(false);
@@ -128,6 +150,24 @@ const GameManualScreen: React.FC<Props> = ({ navigation }) => {
     setUsesFallback(false);
   }, [selectedProgram]);
 
+  // Resolve the manual season whenever the program or selected season changes
+  useEffect(() => {
+    let cancelled = false;
+    // Keep a season passed in with the route until the settings change
+    if (hasResolvedSeason.current) {
+      setBrowsingSeason(null);
+    }
+    hasResolvedSeason.current = true;
+    gameManualService.resolveSeason(selectedProgram, selectedSeason).then(season => {
+      if (!cancelled && season) {
+        setCurrentSeasonName(season);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedProgram, selectedSeason]);
+
   const manual = getManualData();
 
   // Check if this program supports Quick Reference (flipbook type doesn't)
@@ -136,14 +176,26 @@ const GameManualScreen: React.FC<Props> = ({ navigation }) => {
   // Set up navigation header with buttons
   useEffect(() => {
     navigation.setOptions({
+      ...(focusRuleId && {
+        title: 'Game Manual',
+        headerStyle: { backgroundColor: settings.topBarColor },
+        headerTintColor: settings.topBarContentColor,
+        headerTitleStyle: { fontWeight: '500', fontSize: 19 },
+      }),
       headerTitleAlign: 'center',
-      headerLeft: activeTab === 'pdf' ? () => (
+      // Pushed on the stack from a rule link, keep the back button
+      headerLeft: activeTab === 'pdf' && !focusRuleId ? () => (
         <TouchableOpacity onPress={openInExternalBrowser} style={{ marginLeft: 16 }}>
           <Ionicons name="open-outline" size={24} color={settings.topBarContentColor || '#007AFF'} />
         </TouchableOpacity>
       ) : undefined,
       headerRight: () => (
         <View style={{ flexDirection: 'row', alignItems: 'center', marginRight: 16 }}>
+          {supportsQuickRef && activeTab === 'quickref' && (
+            <TouchableOpacity onPress={() => quickRefRef.current?.showChangelog()} style={{ marginRight: 16 }}>
+              <Ionicons name="git-compare-outline" size={24} color={settings.topBarContentColor || '#007AFF'} />
+            </TouchableOpacity>
+          )}
           <TouchableOpacity onPress={handleRefresh} style={{ marginRight: 16 }}>
             <Ionicons name="refresh" size={24} color={settings.topBarContentColor || '#007AFF'} />
           </TouchableOpacity>
@@ -153,7 +205,7 @@ const GameManualScreen: React.FC<Props> = ({ navigation }) => {
         </View>
       ),
     });
-  }, [navigation, settings.topBarContentColor, activeTab, supportsQuickRef]);
+  }, [navigation, settings.topBarColor, settings.topBarContentColor, activeTab, supportsQuickRef, focusRuleId]);
 
 
   const handleRefresh = () => {
@@ -236,16 +288,44 @@ const GameManualScreen: React.FC<Props> = ({ navigation }) => {
         </View>
       )}
 
+      {/* Season Selector */}
+      {supportsQuickRef && activeTab === 'quickref' && !!manualSeason && (
+        <TouchableOpacity
+          style={[styles.seasonBar, { backgroundColor: settings.cardBackgroundColor, borderBottomColor: settings.borderColor }]}
+          onPress={() => setSeasonPickerVisible(true)}
+        >
+          <Ionicons name="calendar-outline" size={16} color={settings.iconColor} />
+          <Text style={[styles.seasonBarText, { color: settings.textColor }]}>{manualSeason} Manual</Text>
+          {!!browsingSeason && browsingSeason !== currentSeasonName && (
+            <Text style={[styles.archivedBadge, { backgroundColor: settings.secondaryTextColor }]}>ARCHIVED</Text>
+          )}
+          <Ionicons name="chevron-down" size={16} color={settings.iconColor} />
+        </TouchableOpacity>
+      )}
+
       {/* Tab Content */}
-      {supportsQuickRef && activeTab === 'quickref' ? (
+      {supportsQuickRef && activeTab === 'quickref' && !!manualSeason ? (
         <GameManualQuickReference
           ref={quickRefRef}
           navigation={navigation}
-          program={selectedProgram}
-          season={currentSeasonName}
+          program={manualProgram}
+          season={manualSeason}
+          focusRuleId={focusRuleId}
         />
       ) : null}
 
+      <ManualSeasonPickerModal
+        visible={seasonPickerVisible}
+        program={manualProgram}
+        currentSeason={currentSeasonName}
+        selectedSeason={manualSeason}
+        onClose={() => setSeasonPickerVisible(false)}
+        onSelect={(season) => {
+          setBrowsingSeason(season === currentSeasonName ? null : season);
+          setSeasonPickerVisible(false);
+        }}
+      />
+
       {/* PDF/WebView - always render to preload, hide when Quick Ref is active */}
       <View style={[
         styles.webviewContainer,
@@ -327,6 +407,27 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
   },
+  seasonBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    gap: 6,
+  },
+  seasonBarText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  archivedBadge: {
+    fontSize: 10,
+    fontWeight: 'bold',
+    color: '#FFFFFF',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
   webviewContainer: {
     flex: 1,
   },
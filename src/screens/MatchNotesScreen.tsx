@@ -21,6 +21,8 @@
  * - Filter options for won/lost matches
  * - Win/loss indicators and score display
  * - Multi-line text input with proper keyboard handling
+ * - Structured scouting form from the program's active scouting template
+ * - Per-team and event-wide scouting summaries (averages, trends)
  */
 import React, { useState, useEffect, useRef } from 'react';
 import { createLogger } from '../utils/logger';
@@ -45,6 +47,18 @@ import { Ionicons } from '@expo/vector-icons';
 import * as ImagePicker from 'expo-image-picker';
 import { useSettings } from '../contexts/SettingsContext';
 import { useNotes, TeamMatchNote } from '../contexts/NotesContext';
+import { useScoutingTemplates } from '../contexts/ScoutingTemplatesContext';
+import ScoutingForm from '../components/ScoutingForm';
+import ScoutingSummaryCard from '../components/ScoutingSummaryCard';
+import { ScoutingData, ScoutingTemplate, ScoutingValue } from '../types/scouting';
+import {
+  formatScoutingValue,
+  getUsedTemplateIds,
+  hasScoutingData,
+  summarizeEventScouting,
+  summarizeTeamScouting,
+} from '../utils/scouting';
+import { getProgramShortName } from '../utils/programMappings';
 import { robotEventsAPI } from '../services/apiRouter';
 import { Event, Team } from '../types';
 
@@ -66,6 +80,7 @@ interface TeamNotesProps {
   teamAlliance: 'red' | 'blue';
   onShowStats: () => void;
   onShowTeamNotes: () => void;
+  onEditTemplates: () => void;
 }
 
 const MAX_NOTE_LENGTH = 500;
@@ -77,17 +92,28 @@ const TeamNotes: React.FC<TeamNotesProps> = ({
   teamAlliance,
   onShowStats,
   onShowTeamNotes,
+  onEditTemplates,
 }) => {
   const settings = useSettings();
   const styles = createStyles(settings);
   const { getNote, createOrUpdateNote, deleteEmptyNotes, deleteNote, getNotesByTeam } = useNotes();
+  const { getTemplate, getActiveTemplate } = useScoutingTemplates();
   const [noteText, setNoteText] = useState('');
   const [currentNote, setCurrentNote] = useState<TeamMatchNote | null>(null);
   const [imageUri, setImageUri] = useState<string | undefined>(undefined);
   const [isSaving, setIsSaving] = useState(false);
   const [saveTimeout, setSaveTimeout] = useState<NodeJS.Timeout | null>(null);
   const [otherNotesCount, setOtherNotesCount] = useState(0);
+  const [scoutingValues, setScoutingValues] = useState<Record<string, ScoutingValue>>({});
+  const [showScouting, setShowScouting] = useState(false);
   const isMountedRef = useRef(true);
+  // Debounced text saves read the latest responses from here instead of a stale closure
+  const scoutingRef = useRef<ScoutingData | undefined>(undefined);
+
+  // Keep filling in the template a note was started with, even if the active template changed
+  const activeTemplate = getActiveTemplate(getProgramShortName(settings.selectedProgram));
+  const scoutingTemplate: ScoutingTemplate | null =
+    (currentNote?.scouting && getTemplate(currentNote.scouting.templateId)) || activeTemplate;
 
   useEffect(() => {
     isMountedRef.current = true;
@@ -117,6 +143,9 @@ const TeamNotes: React.FC<TeamNotesProps> = ({
       setCurrentNote(existingNote);
       setNoteText(existingNote.note);
       setImageUri(existingNote.imageUri);
+      setScoutingValues(existingNote.scouting?.values || {});
+      setShowScouting(hasScoutingData(existingNote));
+      scoutingRef.current = existingNote.scouting;
     } else {
       // Create new note structure
       const newNoteData = {
@@ -137,6 +166,9 @@ const TeamNotes: React.FC<TeamNotesProps> = ({
       setCurrentNote(newNoteData as TeamMatchNote);
       setNoteText('');
       setImageUri(undefined);
+      setScoutingValues({});
+      setShowScouting(false);
+      scoutingRef.current = undefined;
     }
 
     // Check for other notes for this team
@@ -195,6 +227,7 @@ const TeamNotes: React.FC<TeamNotesProps> = ({
             ...currentNote,
             note: text,
             imageUri: imageUri,
+            scouting: scoutingRef.current,
           });
           if (isMountedRef.current) {
             setCurrentNote(updatedNote);
@@ -216,11 +249,42 @@ const TeamNotes: React.FC<TeamNotesProps> = ({
 
   const handleBlur = async () => {
     // Clean up empty notes when user finishes editing
-    if (noteText.trim() === '' && !imageUri) {
+    if (noteText.trim() === '' && !imageUri && !scoutingRef.current) {
       await deleteEmptyNotes();
     }
   };
 
+  const handleScoutingChange = async (fieldId: string, value: ScoutingValue | undefined) => {
+    if (!scoutingTemplate || !currentNote) return;
+
+    const newValues = { ...scoutingValues };
+    if (value === undefined) {
+      delete newValues[fieldId];
+    } else {
+      newValues[fieldId] = value;
+    }
+    setScoutingValues(newValues);
+
+    const scouting = Object.keys(newValues).length > 0
+      ? { templateId: scoutingTemplate.id, values: newValues }
+      : undefined;
+    scoutingRef.current = scouting;
+
+    try {
+      const updatedNote = await createOrUpdateNote({
+        ...currentNote,
+        note: noteText,
+        imageUri: imageUri,
+        scouting,
+      });
+      if (isMountedRef.current) {
+        setCurrentNote(updatedNote);
+      }
+    } catch (error) {
+      logger.error('Failed to save scouting responses:', error);
+    }
+  };
+
   const handleImagePicker = async () => {
     if (Platform.OS === 'ios') {
       ActionSheetIOS.showActionSheetWithOptions(
@@ -312,6 +376,7 @@ const TeamNotes: React.FC<TeamNotesProps> = ({
         const updatedNote = await createOrUpdateNote({
           ...currentNote,
           imageUri: undefined,
+          scouting: scoutingRef.current,
         });
         setCurrentNote(updatedNote);
       } catch (error) {
@@ -327,6 +392,7 @@ const TeamNotes: React.FC<TeamNotesProps> = ({
           ...currentNote,
           note: noteText,
           imageUri: uri,
+          scouting: scoutingRef.current,
         });
         setCurrentNote(updatedNote);
       } catch (error) {
@@ -458,6 +524,32 @@ const TeamNotes: React.FC<TeamNotesProps> = ({
           )}
         </View>
       </View>
+
+      {/* Structured scouting form */}
+      {scoutingTemplate && (
+        <View style={styles.scoutingContainer}>
+          <View style={styles.scoutingHeader}>
+            <TouchableOpacity style={styles.scoutingToggle} onPress={() => setShowScouting(!showScouting)}>
+              <Ionicons name={showScouting ? 'chevron-down' : 'chevron-forward'} size={18} color={settings.textColor} />
+              <Text style={styles.scoutingTitle}>Scouting</Text>
+              <Text style={[styles.scoutingMeta, { color: settings.secondaryTextColor }]}>
+                {Object.keys(scoutingValues).length}/{scoutingTemplate.fields.length} · {scoutingTemplate.name}
+              </Text>
+            </TouchableOpacity>
+            <TouchableOpacity onPress={onEditTemplates} style={styles.scoutingSettingsButton}>
+              <Ionicons name="options-outline" size={18} color={settings.textColor} />
+            </TouchableOpacity>
+          </View>
+          {showScouting && (
+            <ScoutingForm
+              template={scoutingTemplate}
+              values={scoutingValues}
+              onChange={handleScoutingChange}
+              accentColor={allianceColor}
+            />
+          )}
+        </View>
+      )}
     </View>
   );
 };
@@ -466,9 +558,12 @@ const MatchNotesScreen = ({ route, navigation }: Props) => {
   const { event, match, teamsMap } = route.params;
   const settings = useSettings();
   const { getNotesByEvent, getNotesByTeam, deleteNote } = useNotes();
+  const { getTemplate, getActiveTemplate } = useScoutingTemplates();
   const [showTeamNotesModal, setShowTeamNotesModal] = useState(false);
   const [selectedTeam, setSelectedTeam] = useState<Team | null>(null);
   const [filterType, setFilterType] = useState<'all' | 'won' | 'lost'>('all');
+  const [showEventSummary, setShowEventSummary] = useState(false);
+  const [summaryTemplateId, setSummaryTemplateId] = useState<string | null>(null);
 
   useEffect(() => {
     navigation.setOptions({
@@ -482,8 +577,18 @@ const MatchNotesScreen = ({ route, navigation }: Props) => {
         fontWeight: '500',
         fontSize: 19,
       },
+      headerRight: () => (
+        <View style={{ flexDirection: 'row', alignItems: 'center', marginRight: 16 }}>
+          <TouchableOpacity onPress={() => navigation.navigate('ScoutingSync', { eventId: event.id })} style={{ marginRight: 16 }}>
+            <Ionicons name="share-outline" size={22} color="#fff" />
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => setShowEventSummary(true)}>
+            <Ionicons name="stats-chart-outline" size={22} color="#fff" />
+          </TouchableOpacity>
+        </View>
+      ),
     });
-  }, [navigation, settings.buttonColor, match.name]);
+  }, [navigation, settings.buttonColor, match.name, event.id]);
 
   const getTeamsFromMatch = (): { redTeams: Team[]; blueTeams: Team[] } => {
     const redTeams: Team[] = [];
@@ -575,6 +680,34 @@ const MatchNotesScreen = ({ route, navigation }: Props) => {
     setShowTeamNotesModal(true);
   };
 
+  const handleEditTemplates = () => {
+    navigation.navigate('ScoutingTemplates');
+  };
+
+  // Templates used by a set of notes, most used first, that still exist
+  const getSummaryTemplates = (notes: TeamMatchNote[]): ScoutingTemplate[] => {
+    return getUsedTemplateIds(notes)
+      .map(templateId => getTemplate(templateId))
+      .filter((template): template is ScoutingTemplate => template !== null);
+  };
+
+  const renderScoutingValues = (note: TeamMatchNote) => {
+    if (!note.scouting || !hasScoutingData(note)) return null;
+    const template = getTemplate(note.scouting.templateId);
+    if (!template) return null;
+
+    const values = note.scouting.values;
+    const parts = template.fields
+      .filter(field => values[field.id] !== undefined)
+      .map(field => `${field.label}: ${formatScoutingValue(field, values[field.id])}`);
+
+    return (
+      <Text style={[styles.noteScouting, { color: settings.secondaryTextColor }]}>
+        {parts.join(' · ')}
+      </Text>
+    );
+  };
+
   const handleDeleteNote = (noteId: string) => {
     Alert.alert(
       'Delete Note',
@@ -611,7 +744,7 @@ const MatchNotesScreen = ({ route, navigation }: Props) => {
     if (!selectedTeam) return null;
 
     const teamNotes = getNotesByTeam(selectedTeam.id, event.id);
-    let filteredNotes = teamNotes.filter(note => note.note.trim() !== '' || note.imageUri);
+    let filteredNotes = teamNotes.filter(note => note.note.trim() !== '' || note.imageUri || hasScoutingData(note));
 
     // Apply filter
     if (filterType === 'won') {
@@ -694,6 +827,12 @@ const MatchNotesScreen = ({ route, navigation }: Props) => {
           </View>
 
           <ScrollView style={styles.modalContent}>
+            {getSummaryTemplates(teamNotes).map(template => {
+              const summary = summarizeTeamScouting(teamNotes, template);
+              return summary ? (
+                <ScoutingSummaryCard key={template.id} summary={summary} template={template} />
+              ) : null;
+            })}
             {filteredNotes.length === 0 ? (
               <Text style={[styles.noNotesText, { color: settings.secondaryTextColor }]}>
                 {filterType === 'all' ? 'No notes for this team.' : `No ${filterType} matches with notes.`}
@@ -738,11 +877,13 @@ const MatchNotesScreen = ({ route, navigation }: Props) => {
                     />
                   )}
 
-                  {note.note && (
+                  {!!note.note && (
                     <Text style={[styles.noteText, { color: settings.textColor }]}>
                       {note.note}
                     </Text>
                   )}
+
+                  {renderScoutingValues(note)}
                 </View>
               ))
             )}
@@ -752,6 +893,74 @@ const MatchNotesScreen = ({ route, navigation }: Props) => {
     );
   };
 
+  const renderEventSummaryModal = () => {
+    const eventNotes = getNotesByEvent(event.id);
+    const templates = getSummaryTemplates(eventNotes);
+    const activeTemplate = getActiveTemplate(getProgramShortName(settings.selectedProgram));
+    const template = templates.find(t => t.id === summaryTemplateId)
+      || templates.find(t => t.id === activeTemplate?.id)
+      || templates[0];
+    const summaries = template ? summarizeEventScouting(eventNotes, template) : [];
+
+    return (
+      <Modal
+        visible={showEventSummary}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowEventSummary(false)}
+      >
+        <View style={[styles.modalContainer, { backgroundColor: settings.backgroundColor }]}>
+          <View style={[styles.modalHeader, { borderBottomColor: settings.borderColor }]}>
+            <Text style={[styles.modalTitle, { color: settings.textColor }]}>
+              Event Scouting Summary
+            </Text>
+            <TouchableOpacity
+              onPress={() => setShowEventSummary(false)}
+              style={styles.modalCloseButton}
+            >
+              <Ionicons name="close" size={24} color={settings.textColor} />
+            </TouchableOpacity>
+          </View>
+
+          {templates.length > 1 && (
+            <View style={styles.filterContainer}>
+              {templates.map(t => (
+                <TouchableOpacity
+                  key={t.id}
+                  style={[
+                    styles.filterButton,
+                    { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor },
+                    t.id === template?.id && { backgroundColor: settings.buttonColor }
+                  ]}
+                  onPress={() => setSummaryTemplateId(t.id)}
+                >
+                  <Text
+                    style={[styles.filterButtonText, { color: t.id === template?.id ? '#fff' : settings.textColor }]}
+                    numberOfLines={1}
+                  >
+                    {t.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+
+          <ScrollView style={styles.modalContent}>
+            {summaries.length === 0 ? (
+              <Text style={[styles.noNotesText, { color: settings.secondaryTextColor }]}>
+                No scouting responses for this event yet. Open the Scouting section on a team's match note to fill one in.
+              </Text>
+            ) : (
+              summaries.map(summary => (
+                <ScoutingSummaryCard key={summary.teamId} summary={summary} template={template!} showTeam />
+              ))
+            )}
+          </ScrollView>
+        </View>
+      </Modal>
+    );
+  };
+
   const styles = createStyles(settings);
 
   return (
@@ -774,6 +983,7 @@ const MatchNotesScreen = ({ route, navigation }: Props) => {
               teamAlliance="red"
               onShowStats={() => handleShowStats(team)}
               onShowTeamNotes={() => handleShowTeamNotes(team)}
+              onEditTemplates={handleEditTemplates}
             />
           ))}
 
@@ -787,12 +997,14 @@ const MatchNotesScreen = ({ route, navigation }: Props) => {
               teamAlliance="blue"
               onShowStats={() => handleShowStats(team)}
               onShowTeamNotes={() => handleShowTeamNotes(team)}
+              onEditTemplates={handleEditTemplates}
             />
           ))}
         </View>
       </ScrollView>
 
       {renderTeamNotesModal()}
+      {renderEventSummaryModal()}
     </KeyboardAvoidingView>
   );
 };
@@ -940,6 +1152,33 @@ const createStyles = (settings: any) => StyleSheet.create({
     fontSize: 12,
     fontStyle: 'italic',
   },
+  scoutingContainer: {
+    marginTop: 12,
+    gap: 10,
+  },
+  scoutingHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  scoutingToggle: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  scoutingTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: settings.textColor,
+  },
+  scoutingMeta: {
+    fontSize: 12,
+    flexShrink: 1,
+  },
+  scoutingSettingsButton: {
+    padding: 4,
+  },
   modalContainer: {
     flex: 1,
   },
@@ -1018,6 +1257,11 @@ const createStyles = (settings: any) => StyleSheet.create({
     fontSize: 15,
     lineHeight: 21,
   },
+  noteScouting: {
+    fontSize: 13,
+    lineHeight: 19,
+    marginTop: 8,
+  },
 });
 
 export default MatchNotesScreen;
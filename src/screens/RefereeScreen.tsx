@@ -0,0 +1,805 @@
+/**
+ * Referee Screen
+ *
+ * Description:
+ * Violation tracker for head referees and scouts. A match is picked from the
+ * division schedule, then each violation is logged against a team and a rule
+ * from the game manual with the time it was called. Majors logged after a
+ * Minor of the same rule, or Minors escalated directly, count as escalations.
+ *
+ * Navigation:
+ * Accessed from the referee button in the header of the division match list.
+ *
+ * Key Features:
+ * - Division match list with the number of violations logged per match
+ * - Team, rule and Minor/Major selection with searchable game manual rules
+ * - Timestamped entries with their offset from the first call in the match
+ * - Minor-to-Major escalation tracking per team
+ * - Per-match violation summary export (CSV)
+ * - Every entry opens its rule text in the game manual quick reference
+ */
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  FlatList,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSettings } from '../contexts/SettingsContext';
+import { useReferee, RefereeMatchInfo } from '../contexts/RefereeContext';
+import { robotEventsAPI } from '../services/apiRouter';
+import { gameManualService } from '../services/gameManualService';
+import { Match } from '../types/api';
+import { GameManual, Rule } from '../types/gameManual';
+import {
+  formatViolationOffset,
+  getEscalationSource,
+  countEscalations,
+  summarizeViolations,
+  RefereeMatchTeam,
+  ViolationEntry,
+  ViolationSeverity,
+} from '../utils/refereeLog';
+import { getSeasonKey } from '../utils/eligibility/ruleSets';
+import { DataExporter } from '../utils/dataExporter';
+import RulePickerModal from '../components/RulePickerModal';
+import { alerts } from '../utils/webCompatibility';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('RefereeScreen');
+
+interface RefereeScreenProps {
+  navigation: any;
+  route: {
+    params: {
+      event: { id: number; name: string; season?: { name?: string } };
+      division: { id: number; name: string };
+      teamsMap?: { [key: string]: string };
+    };
+  };
+}
+
+const formatClockTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    second: '2-digit',
+    hour12: true,
+  });
+
+const RefereeScreen: React.FC<RefereeScreenProps> = ({ navigation, route }) => {
+  const { event, division, teamsMap = {} } = route.params;
+  const settings = useSettings();
+  const { selectedProgram, selectedSeason } = settings;
+  const { matchLogs, getMatchLog, getDivisionLogs, addViolation, removeViolation } = useReferee();
+
+  const [loading, setLoading] = useState(true);
+  const [matches, setMatches] = useState<Match[]>([]);
+  const [manual, setManual] = useState<GameManual | null>(null);
+  const [selectedMatchId, setSelectedMatchId] = useState<number | null>(null);
+  const [selectedTeamId, setSelectedTeamId] = useState<number | null>(null);
+  const [selectedRule, setSelectedRule] = useState<Rule | null>(null);
+  const [severity, setSeverity] = useState<ViolationSeverity>('minor');
+  const [rulePickerVisible, setRulePickerVisible] = useState(false);
+
+  const selectedMatch = matches.find(match => match.id === selectedMatchId) || null;
+  const matchLog = selectedMatch ? getMatchLog(event.id, division.id, selectedMatch.id) : null;
+  const violations = matchLog?.violations ?? [];
+
+  // Violation count per match, for the match list
+  const violationCounts = useMemo(() => {
+    const counts: Record<number, number> = {};
+    getDivisionLogs(event.id, division.id).forEach(log => {
+      counts[log.matchId] = log.violations.length;
+    });
+    return counts;
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [matchLogs, event.id, division.id]);
+
+  const getMatchTeams = (match: Match): RefereeMatchTeam[] =>
+    match.alliances.flatMap(alliance =>
+      (alliance.teams || [])
+        .filter(t => !t.sitting)
+        .map(t => ({
+          teamId: t.team.id,
+          teamNumber: teamsMap[t.team.id.toString()] || t.team.name || t.team.id.toString(),
+          alliance: alliance.color,
+        }))
+    );
+
+  const matchTeams = selectedMatch ? getMatchTeams(selectedMatch) : [];
+  const selectedTeam = matchTeams.find(team => team.teamId === selectedTeamId) || null;
+
+  const summaries = summarizeViolations(matchTeams, violations);
+
+  useEffect(() => {
+    navigation.setOptions({
+      title: selectedMatch ? selectedMatch.name : 'Referee',
+      headerStyle: {
+        backgroundColor: settings.topBarColor,
+      },
+      headerTintColor: settings.topBarContentColor,
+      headerTitleAlign: 'center',
+      headerTitleStyle: {
+        fontWeight: '500',
+        fontSize: 19,
+      },
+      headerRight: () => matchLog && matchLog.violations.length > 0 ? (
+        <TouchableOpacity onPress={handleExport} style={styles.headerButton}>
+          <Ionicons name="share-outline" size={22} color={settings.topBarContentColor} />
+        </TouchableOpacity>
+      ) : null,
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [navigation, settings.topBarColor, settings.topBarContentColor, selectedMatch, matchLog]);
+
+  useEffect(() => {
+    fetchData();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [event.id, division.id, selectedProgram]);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      // Rules come from the manual for the event's season, not the one selected in settings
+      const season = getSeasonKey(event.season?.name)
+        || await gameManualService.resolveSeason(selectedProgram, selectedSeason);
+      const [matchesResponse, loadedManual] = await Promise.all([
+        robotEventsAPI.getEventDivisionMatches(event.id, division.id),
+        gameManualService.getManual(selectedProgram, season).catch(error => {
+          logger.error('Failed to load game manual for referee mode:', error);
+          return null;
+        }),
+      ]);
+
+      const matchesData = (Array.isArray(matchesResponse.data) ? matchesResponse.data : [])
+        .sort((a, b) => {
+          const timeA = a.scheduled ? new Date(a.scheduled).getTime() : 0;
+          const timeB = b.scheduled ? new Date(b.scheduled).getTime() : 0;
+
+          if (timeA && timeB && timeA !== timeB) return timeA - timeB;
+          if (timeA && !timeB) return -1;
+          if (!timeA && timeB) return 1;
+          return a.id - b.id;
+        });
+
+      setMatches(matchesData);
+      setManual(loadedManual);
+    } catch (error) {
+      logger.error('Failed to load referee data:', error);
+      alerts.showAlert('Error', 'Failed to load matches for this division. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectMatch = (matchId: number | null) => {
+    setSelectedMatchId(matchId);
+    setSelectedTeamId(null);
+    setSelectedRule(null);
+    setSeverity('minor');
+  };
+
+  const selectRule = (rule: Rule) => {
+    setSelectedRule(rule);
+    setSeverity(rule.severity === 'major' ? 'major' : 'minor');
+    setRulePickerVisible(false);
+  };
+
+  const getMatchInfo = (match: Match): RefereeMatchInfo | null => {
+    if (!manual) return null;
+    return {
+      eventId: event.id,
+      eventName: event.name,
+      divisionId: division.id,
+      matchId: match.id,
+      matchName: match.name,
+      program: selectedProgram,
+      season: manual.season,
+      teams: getMatchTeams(match),
+    };
+  };
+
+  const logViolation = async (
+    team: RefereeMatchTeam,
+    rule: { id: string; rule: string; title: string },
+    entrySeverity: ViolationSeverity,
+    escalatedFromId?: string
+  ): Promise<boolean> => {
+    const matchInfo = selectedMatch ? getMatchInfo(selectedMatch) : null;
+    if (!matchInfo) return false;
+
+    try {
+      await addViolation(matchInfo, {
+        teamId: team.teamId,
+        teamNumber: team.teamNumber,
+        alliance: team.alliance,
+        ruleId: rule.id,
+        ruleCode: rule.rule,
+        ruleTitle: rule.title,
+        severity: entrySeverity,
+        escalatedFromId,
+      });
+      return true;
+    } catch (error) {
+      alerts.showAlert('Error', 'Failed to save the violation. Please try again.');
+      return false;
+    }
+  };
+
+  const handleLog = async () => {
+    if (!selectedTeam || !selectedRule) return;
+
+    // A Major after an open Minor of the same rule is an escalation of that Minor
+    const source = severity === 'major'
+      ? getEscalationSource(violations, selectedTeam.teamId, selectedRule.id)
+      : null;
+
+    const logged = await logViolation(selectedTeam, selectedRule, severity, source?.id);
+    if (logged) {
+      setSelectedTeamId(null);
+      setSelectedRule(null);
+      setSeverity('minor');
+    }
+  };
+
+  const handleEscalate = async (entry: ViolationEntry) => {
+    const team = matchTeams.find(t => t.teamId === entry.teamId)
+      || { teamId: entry.teamId, teamNumber: entry.teamNumber, alliance: entry.alliance };
+    await logViolation(team, { id: entry.ruleId, rule: entry.ruleCode, title: entry.ruleTitle }, 'major', entry.id);
+  };
+
+  const handleRemove = async (entry: ViolationEntry) => {
+    if (!matchLog) return;
+
+    const confirmed = await alerts.showDestructiveConfirm(
+      'Remove Violation',
+      `Remove the ${entry.severity === 'major' ? 'Major' : 'Minor'} ${entry.ruleCode} for ${entry.teamNumber}?`,
+      'Remove'
+    );
+    if (!confirmed) return;
+
+    try {
+      await removeViolation(matchLog.id, entry.id);
+    } catch (error) {
+      alerts.showAlert('Error', 'Failed to remove the violation. Please try again.');
+    }
+  };
+
+  const handleExport = async () => {
+    if (!matchLog) return;
+
+    try {
+      await DataExporter.exportRefereeMatchLog(matchLog);
+    } catch (error) {
+      logger.error('Failed to export referee log:', error);
+      alerts.showAlert('Export Failed', error instanceof Error ? error.message : 'Failed to export the violation summary.');
+    }
+  };
+
+  const openRule = (entry: ViolationEntry) => {
+    navigation.navigate('GameManualRule', {
+      ruleId: entry.ruleId,
+      program: matchLog?.program,
+      season: matchLog?.season,
+    });
+  };
+
+  const getAllianceColor = (alliance: 'red' | 'blue'): string =>
+    alliance === 'red' ? settings.redAllianceColor : settings.blueAllianceColor;
+
+  const getSeverityColor = (entrySeverity: ViolationSeverity): string =>
+    entrySeverity === 'major' ? settings.errorColor : settings.warningColor;
+
+  const renderMatch = ({ item }: { item: Match }) => {
+    const count = violationCounts[item.id] || 0;
+    const teams = getMatchTeams(item);
+
+    return (
+      <TouchableOpacity
+        style={[styles.matchRow, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor }]}
+        onPress={() => selectMatch(item.id)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.matchInfo}>
+          <Text style={[styles.matchName, { color: settings.textColor }]}>{item.name}</Text>
+          <View style={styles.matchTeams}>
+            {(['red', 'blue'] as const).map(color => (
+              <Text key={color} style={[styles.matchTeamsText, { color: getAllianceColor(color) }]}>
+                {teams.filter(team => team.alliance === color).map(team => team.teamNumber).join(' ') || '—'}
+              </Text>
+            ))}
+          </View>
+        </View>
+        {count > 0 && (
+          <View style={[styles.countBadge, { backgroundColor: settings.warningColor }]}>
+            <Ionicons name="flag" size={12} color="#fff" />
+            <Text style={styles.countBadgeText}>{count}</Text>
+          </View>
+        )}
+        <Ionicons name="chevron-forward" size={18} color={settings.iconColor} />
+      </TouchableOpacity>
+    );
+  };
+
+  const renderEntry = (entry: ViolationEntry) => {
+    const isEscalated = violations.some(v => v.escalatedFromId === entry.id);
+
+    return (
+      <View key={entry.id} style={[styles.entryRow, { borderTopColor: settings.borderColor }]}>
+        <View style={styles.entryTime}>
+          <Text style={[styles.entryOffset, { color: settings.textColor }]}>
+            {formatViolationOffset(entry, violations)}
+          </Text>
+          <Text style={[styles.entryClock, { color: settings.secondaryTextColor }]}>{formatClockTime(entry.timestamp)}</Text>
+        </View>
+        <View style={styles.entryDetails}>
+          <View style={styles.entryHeader}>
+            <Text style={[styles.entryTeam, { color: getAllianceColor(entry.alliance) }]}>{entry.teamNumber}</Text>
+            <TouchableOpacity onPress={() => openRule(entry)} style={styles.ruleLink}>
+              <Text style={[styles.entryRuleCode, { color: settings.linkColor }]}>{entry.ruleCode}</Text>
+              <Ionicons name="book-outline" size={12} color={settings.linkColor} />
+            </TouchableOpacity>
+            <Text style={[styles.severityBadge, { color: getSeverityColor(entry.severity), borderColor: getSeverityColor(entry.severity) }]}>
+              {entry.severity === 'major' ? 'MAJOR' : 'MINOR'}
+            </Text>
+          </View>
+          <Text style={[styles.entryTitle, { color: settings.secondaryTextColor }]} numberOfLines={1}>{entry.ruleTitle}</Text>
+          {entry.escalatedFromId && (
+            <Text style={[styles.entryNote, { color: settings.errorColor }]}>Escalated from Minor</Text>
+          )}
+          {isEscalated && (
+            <Text style={[styles.entryNote, { color: settings.secondaryTextColor }]}>Escalated to Major</Text>
+          )}
+        </View>
+        <View style={styles.entryActions}>
+          {entry.severity === 'minor' && !isEscalated && (
+            <TouchableOpacity onPress={() => handleEscalate(entry)} style={styles.entryAction}>
+              <Ionicons name="arrow-up-circle-outline" size={22} color={settings.errorColor} />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity onPress={() => handleRemove(entry)} style={styles.entryAction}>
+            <Ionicons name="trash-outline" size={20} color={settings.iconColor} />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderMatchView = (match: Match) => {
+    const minorCount = violations.filter(v => v.severity === 'minor').length;
+    const majorCount = violations.length - minorCount;
+
+    return (
+      <ScrollView contentContainerStyle={styles.matchContent} keyboardShouldPersistTaps="handled">
+        <TouchableOpacity style={styles.backRow} onPress={() => selectMatch(null)}>
+          <Ionicons name="chevron-back" size={18} color={settings.buttonColor} />
+          <Text style={[styles.backText, { color: settings.buttonColor }]}>All Matches</Text>
+        </TouchableOpacity>
+
+        {/* New violation */}
+        <View style={[styles.card, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor }]}>
+          <Text style={[styles.sectionTitle, { color: settings.textColor }]}>Log Violation</Text>
+
+          {(['red', 'blue'] as const).map(color => (
+            <View key={color} style={styles.teamRow}>
+              {matchTeams.filter(team => team.alliance === color).map(team => {
+                const isSelected = team.teamId === selectedTeamId;
+                const allianceColor = getAllianceColor(color);
+                return (
+                  <TouchableOpacity
+                    key={team.teamId}
+                    style={[styles.teamButton, { borderColor: allianceColor, backgroundColor: isSelected ? allianceColor : 'transparent' }]}
+                    onPress={() => setSelectedTeamId(isSelected ? null : team.teamId)}
+                  >
+                    <Text style={[styles.teamButtonText, { color: isSelected ? '#fff' : allianceColor }]}>{team.teamNumber}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          ))}
+
+          <TouchableOpacity
+            style={[styles.ruleSelector, { borderColor: settings.borderColor, backgroundColor: settings.backgroundColor }]}
+            onPress={() => setRulePickerVisible(true)}
+            disabled={!manual}
+          >
+            <Ionicons name="book-outline" size={18} color={settings.iconColor} />
+            <Text
+              style={[styles.ruleSelectorText, { color: selectedRule ? settings.textColor : settings.secondaryTextColor }]}
+              numberOfLines={1}
+            >
+              {selectedRule
+                ? `${selectedRule.rule} ${selectedRule.title}`
+                : manual ? 'Select a rule' : 'Game manual unavailable'}
+            </Text>
+            <Ionicons name="chevron-down" size={16} color={settings.iconColor} />
+          </TouchableOpacity>
+
+          <View style={styles.severityRow}>
+            {(['minor', 'major'] as const).map(option => {
+              const isSelected = severity === option;
+              const color = getSeverityColor(option);
+              return (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.severityButton, { borderColor: color, backgroundColor: isSelected ? color : 'transparent' }]}
+                  onPress={() => setSeverity(option)}
+                >
+                  <Text style={[styles.severityButtonText, { color: isSelected ? '#fff' : color }]}>
+                    {option === 'major' ? 'Major' : 'Minor'}
+                  </Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+
+          <TouchableOpacity
+            style={[styles.logButton, { backgroundColor: settings.buttonColor, opacity: selectedTeam && selectedRule ? 1 : 0.5 }]}
+            onPress={handleLog}
+            disabled={!selectedTeam || !selectedRule}
+          >
+            <Ionicons name="flag" size={18} color="#fff" />
+            <Text style={styles.logButtonText}>Log Violation</Text>
+          </TouchableOpacity>
+        </View>
+
+        {/* Summary */}
+        {violations.length > 0 && (
+          <View style={[styles.card, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor }]}>
+            <Text style={[styles.sectionTitle, { color: settings.textColor }]}>Summary</Text>
+            <View style={styles.totalsRow}>
+              <Text style={[styles.totalText, { color: settings.warningColor }]}>{minorCount} Minor</Text>
+              <Text style={[styles.totalText, { color: settings.errorColor }]}>{majorCount} Major</Text>
+              <Text style={[styles.totalText, { color: settings.textColor }]}>
+                {countEscalations(violations)} Escalated
+              </Text>
+            </View>
+            {summaries.map(summary => (
+              <View key={summary.teamId} style={[styles.summaryRow, { borderTopColor: settings.borderColor }]}>
+                <Text style={[styles.summaryTeam, { color: getAllianceColor(summary.alliance) }]}>{summary.teamNumber}</Text>
+                <Text style={[styles.summaryCounts, { color: settings.textColor }]}>
+                  {summary.minor}m · {summary.major}M{summary.escalations > 0 ? ` · ${summary.escalations}↑` : ''}
+                </Text>
+                <Text style={[styles.summaryRules, { color: settings.secondaryTextColor }]} numberOfLines={1}>
+                  {summary.ruleCodes.join(' ')}
+                </Text>
+              </View>
+            ))}
+          </View>
+        )}
+
+        {/* Entries, latest first */}
+        {violations.length > 0 && (
+          <View style={[styles.card, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor }]}>
+            <Text style={[styles.sectionTitle, { color: settings.textColor }]}>Violations ({violations.length})</Text>
+            {[...violations].reverse().map(renderEntry)}
+          </View>
+        )}
+
+        {violations.length === 0 && (
+          <Text style={[styles.emptyText, { color: settings.secondaryTextColor }]}>
+            No violations logged for {match.name} yet
+          </Text>
+        )}
+      </ScrollView>
+    );
+  };
+
+  if (loading) {
+    return (
+      <View style={[styles.centered, { backgroundColor: settings.backgroundColor }]}>
+        <ActivityIndicator size="large" color={settings.buttonColor} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={[styles.container, { backgroundColor: settings.backgroundColor }]}>
+      {!manual && (
+        <View style={[styles.notice, { backgroundColor: settings.warningColor + '20', borderColor: settings.warningColor }]}>
+          <Ionicons name="warning-outline" size={18} color={settings.warningColor} />
+          <Text style={[styles.noticeText, { color: settings.textColor }]}>
+            The game manual could not be loaded, so violations cannot be logged.
+          </Text>
+        </View>
+      )}
+
+      {selectedMatch ? (
+        renderMatchView(selectedMatch)
+      ) : (
+        <FlatList
+          data={matches}
+          keyExtractor={match => match.id.toString()}
+          renderItem={renderMatch}
+          contentContainerStyle={styles.listContent}
+          ListEmptyComponent={
+            <View style={styles.emptyState}>
+              <Ionicons name="flag-outline" size={48} color={settings.secondaryTextColor} />
+              <Text style={[styles.emptyText, { color: settings.secondaryTextColor }]}>
+                No matches have been scheduled for this division yet
+              </Text>
+            </View>
+          }
+        />
+      )}
+
+      <RulePickerModal
+        visible={rulePickerVisible}
+        manual={manual}
+        selectedRuleId={selectedRule?.id}
+        onClose={() => setRulePickerVisible(false)}
+        onSelect={selectRule}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  headerButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  notice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    margin: 16,
+    marginBottom: 0,
+    padding: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  noticeText: {
+    flex: 1,
+    fontSize: 14,
+  },
+  listContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  matchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 12,
+    paddingHorizontal: 14,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginBottom: 8,
+  },
+  matchInfo: {
+    flex: 1,
+  },
+  matchName: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  matchTeams: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 4,
+  },
+  matchTeamsText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  countBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 10,
+  },
+  countBadgeText: {
+    color: '#fff',
+    fontSize: 12,
+    fontWeight: '700',
+  },
+  matchContent: {
+    padding: 16,
+    paddingBottom: 40,
+  },
+  backRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  backText: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  card: {
+    padding: 14,
+    borderRadius: 10,
+    borderWidth: 1,
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 12,
+  },
+  teamRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginBottom: 8,
+  },
+  teamButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 2,
+  },
+  teamButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  ruleSelector: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    borderWidth: 1,
+    marginTop: 4,
+  },
+  ruleSelectorText: {
+    flex: 1,
+    fontSize: 15,
+  },
+  severityRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 12,
+  },
+  severityButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderRadius: 8,
+    borderWidth: 2,
+  },
+  severityButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  logButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    paddingVertical: 14,
+    borderRadius: 8,
+    marginTop: 16,
+  },
+  logButtonText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  totalsRow: {
+    flexDirection: 'row',
+    gap: 16,
+    marginBottom: 8,
+  },
+  totalText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+    borderTopWidth: 1,
+  },
+  summaryTeam: {
+    width: 70,
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  summaryCounts: {
+    fontSize: 14,
+  },
+  summaryRules: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: 'monospace',
+    textAlign: 'right',
+  },
+  entryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 10,
+    borderTopWidth: 1,
+  },
+  entryTime: {
+    width: 64,
+  },
+  entryOffset: {
+    fontSize: 15,
+    fontWeight: '600',
+    fontFamily: 'monospace',
+  },
+  entryClock: {
+    fontSize: 11,
+    marginTop: 2,
+  },
+  entryDetails: {
+    flex: 1,
+  },
+  entryHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  entryTeam: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  ruleLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 3,
+  },
+  entryRuleCode: {
+    fontSize: 14,
+    fontWeight: '600',
+    fontFamily: 'monospace',
+    textDecorationLine: 'underline',
+  },
+  severityBadge: {
+    fontSize: 10,
+    fontWeight: '700',
+    paddingHorizontal: 5,
+    paddingVertical: 1,
+    borderRadius: 4,
+    borderWidth: 1,
+    overflow: 'hidden',
+  },
+  entryTitle: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  entryNote: {
+    fontSize: 12,
+    fontWeight: '500',
+    marginTop: 2,
+  },
+  entryActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  entryAction: {
+    padding: 6,
+  },
+  emptyState: {
+    alignItems: 'center',
+    paddingVertical: 60,
+    paddingHorizontal: 24,
+  },
+  emptyText: {
+    marginTop: 16,
+    fontSize: 15,
+    textAlign: 'center',
+  },
+});
+
+export default RefereeScreen;
@@ -0,0 +1,675 @@
+/**
+ * Score Calculator Screen
+ *
+ * Description:
+ * Generic score calculator that renders any bundled score calculator definition
+ * (src/data/scoreCalculators). Scoring elements, point values, limits, constraints
+ * and bonuses all come from the definition, so new games ship as data files.
+ *
+ * Navigation:
+ * Accessed from the Score Calculators home screen. Expects a definitionId route
+ * param and optionally a sheetId to show a single sheet (e.g., Teamwork only),
+ * or a sessionId to reopen a saved score sheet.
+ *
+ * Key Features:
+ * - Tabs for each score sheet (match, skills, etc.)
+ * - Counter, toggle and choice inputs clamped to game limits
+ * - Per-period score breakdown with automatic bonuses
+ * - Warnings when entered values break a game constraint
+ * - Save named score sheets and reopen them from Saved Score Sheets
+ * - Reset functionality with haptic feedback
+ */
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Vibration,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSettings } from '../contexts/SettingsContext';
+import { useCalculatorSessions, CalculatorSession } from '../contexts/CalculatorSessionsContext';
+import SaveCalculatorSessionModal from '../components/SaveCalculatorSessionModal';
+import { alerts } from '../utils/webCompatibility';
+import { createLogger } from '../utils/logger';
+import {
+  ScoreSheet,
+  ScoreSheetState,
+  ScoringElement,
+  ScoringValue,
+} from '../types/scoreCalculator';
+import {
+  getScoreCalculatorDefinition,
+  getDefinitionSheets,
+  createInitialState,
+  calculateSheetScore,
+  getElementLimit,
+  getElementPoints,
+  setElementValue,
+  validateSheetState,
+} from '../utils/scoreCalculator';
+
+const logger = createLogger('ScoreCalculatorScreen');
+
+interface ScoreCalculatorScreenProps {
+  navigation: any;
+  route: {
+    params: {
+      definitionId: string;
+      sheetId?: string;
+      title?: string;
+      sessionId?: string;
+    };
+  };
+}
+
+const ScoreCalculatorScreen: React.FC<ScoreCalculatorScreenProps> = ({ navigation, route }) => {
+  const settings = useSettings();
+  const { getSession, createSession, updateSession } = useCalculatorSessions();
+  const { definitionId, sheetId, title, sessionId } = route.params;
+  const initialSession = sessionId ? getSession(sessionId) : null;
+
+  const definition = getScoreCalculatorDefinition(definitionId);
+  const sheets = useMemo(
+    () => (definition ? getDefinitionSheets(definition, sheetId) : []),
+    [definition, sheetId]
+  );
+
+  const [activeSheetId, setActiveSheetId] = useState(initialSession?.sheetId || sheets[0]?.id);
+  const [sheetStates, setSheetStates] = useState<Record<string, ScoreSheetState>>(() => {
+    const initial: Record<string, ScoreSheetState> = {};
+    sheets.forEach(sheet => {
+      initial[sheet.id] = createInitialState(sheet);
+    });
+    // Restore a saved session on top of the defaults (keeps elements added since it was saved)
+    if (initialSession && initial[initialSession.sheetId]) {
+      initial[initialSession.sheetId] = { ...initial[initialSession.sheetId], ...initialSession.state };
+    }
+    return initial;
+  });
+  // Saved session each sheet was loaded from or last saved to
+  const [sheetSessionIds, setSheetSessionIds] = useState<Record<string, string>>(
+    initialSession ? { [initialSession.sheetId]: initialSession.id } : {}
+  );
+  const [showSaveModal, setShowSaveModal] = useState(false);
+
+  const activeSheet = sheets.find(sheet => sheet.id === activeSheetId);
+  const activeState = activeSheet ? sheetStates[activeSheet.id] : undefined;
+
+  const triggerHaptics = () => {
+    if (settings.enableHaptics) {
+      Vibration.vibrate(15);
+    }
+  };
+
+  // Reset the sheet currently on screen (a fresh sheet is no longer tied to a saved session)
+  const clearInputs = () => {
+    if (!activeSheet) return;
+    setSheetStates(prev => ({ ...prev, [activeSheet.id]: createInitialState(activeSheet) }));
+    setSheetSessionIds(prev => {
+      const { [activeSheet.id]: _removed, ...rest } = prev;
+      return rest;
+    });
+    triggerHaptics();
+  };
+
+  useEffect(() => {
+    navigation.setOptions({
+      title: title || (definition ? `${definition.title} Calculator` : 'Score Calculator'),
+      headerStyle: {
+        backgroundColor: settings.topBarColor,
+      },
+      headerTintColor: settings.topBarContentColor,
+      headerTitleAlign: 'center',
+      headerTitleStyle: {
+        fontWeight: '500',
+        fontSize: 19,
+      },
+      headerRight: () => (
+        <View style={styles.headerButtons}>
+          <TouchableOpacity
+            onPress={() => navigation.navigate('CalculatorSessions', { definitionId })}
+            style={styles.headerButton}
+          >
+            <Ionicons name="folder-open-outline" size={24} color={settings.topBarContentColor} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => setShowSaveModal(true)}
+            style={styles.headerButton}
+          >
+            <Ionicons name="save-outline" size={24} color={settings.topBarContentColor} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={clearInputs}
+            style={styles.headerButton}
+          >
+            <Ionicons name="trash" size={24} color={settings.topBarContentColor} />
+          </TouchableOpacity>
+        </View>
+      ),
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [navigation, settings.topBarColor, settings.topBarContentColor, activeSheetId, title, definition]);
+
+  // Element colors are either hex values or settings color keys (e.g., "bonusColor")
+  const resolveColor = (color?: string): string => {
+    if (!color) return settings.buttonColor;
+    if (color.startsWith('#')) return color;
+    const themeColor = (settings as any)[color];
+    return typeof themeColor === 'string' ? themeColor : settings.buttonColor;
+  };
+
+  const updateElement = (sheet: ScoreSheet, elementId: string, value: ScoringValue) => {
+    const current = sheetStates[sheet.id];
+    const next = setElementValue(sheet, current, elementId, value);
+    if (next !== current) {
+      setSheetStates(prev => ({ ...prev, [sheet.id]: next }));
+      triggerHaptics();
+    }
+  };
+
+  if (!activeSheet || !activeState) {
+    return (
+      <View style={[styles.container, styles.emptyContainer, { backgroundColor: settings.backgroundColor }]}>
+        <Ionicons name="calculator-outline" size={64} color={settings.secondaryTextColor} />
+        <Text style={[styles.emptyText, { color: settings.secondaryTextColor }]}>
+          This score calculator is not available.
+        </Text>
+      </View>
+    );
+  }
+
+  const score = calculateSheetScore(activeSheet, activeState);
+  const activeSessionId = sheetSessionIds[activeSheet.id];
+  const activeSession = activeSessionId ? getSession(activeSessionId) : null;
+  const isSkillsSheet = activeSheet.category === 'skills';
+
+  const saveSession = async (name: string, teamNumber: string | undefined, asNew: boolean) => {
+    try {
+      const sessionData: Omit<CalculatorSession, 'id' | 'createdAt' | 'updatedAt'> = {
+        name,
+        definitionId,
+        sheetId: activeSheet.id,
+        sheetLabel: activeSheet.label,
+        category: activeSheet.category || 'match',
+        teamNumber: isSkillsSheet ? teamNumber : undefined,
+        state: activeState,
+        score: score.total,
+      };
+
+      const saved = activeSession && !asNew
+        ? await updateSession(activeSession.id, sessionData)
+        : await createSession(sessionData);
+
+      setSheetSessionIds(prev => ({ ...prev, [activeSheet.id]: saved.id }));
+      setShowSaveModal(false);
+      triggerHaptics();
+    } catch (error) {
+      logger.error('Failed to save score sheet:', error);
+      alerts.showAlert('Save Failed', 'Unable to save this score sheet. Please try again.');
+    }
+  };
+  const violations = validateSheetState(activeSheet, activeState);
+  const violatingElements = new Set(violations.flatMap(violation => violation.elements));
+
+  const renderCounter = (element: ScoringElement) => {
+    const count = activeState[element.id] as number;
+    const limit = getElementLimit(activeSheet, activeState, element.id);
+    const atLimit = limit !== undefined && count >= limit;
+    const accentColor = resolveColor(element.color);
+    const step = element.longPressStep;
+
+    return (
+      <View
+        key={element.id}
+        style={[
+          styles.elementCard,
+          { backgroundColor: settings.backgroundColor },
+          violatingElements.has(element.id) && { borderColor: settings.errorColor, borderWidth: 1 },
+        ]}
+      >
+        <Text style={[styles.elementTitle, { color: accentColor }]}>{element.label}</Text>
+        {element.description && (
+          <Text style={[styles.elementDescription, { color: settings.secondaryTextColor }]}>{element.description}</Text>
+        )}
+        <View style={styles.counterControls}>
+          <TouchableOpacity
+            onPress={() => updateElement(activeSheet, element.id, count - 1)}
+            onLongPress={() => updateElement(activeSheet, element.id, step ? count - step : 0)}
+            disabled={count <= 0}
+            delayLongPress={500}
+          >
+            <Ionicons name="remove-circle" size={32} color={count <= 0 ? settings.secondaryTextColor : settings.errorColor} />
+          </TouchableOpacity>
+          <View style={styles.counterValueContainer}>
+            <Text style={[styles.counterValue, { color: settings.textColor }]}>{count}</Text>
+            {element.max !== undefined && (
+              <Text style={[styles.counterMax, { color: settings.secondaryTextColor }]}>/ {element.max}</Text>
+            )}
+          </View>
+          <TouchableOpacity
+            onPress={() => updateElement(activeSheet, element.id, count + 1)}
+            onLongPress={() => {
+              if (step) {
+                updateElement(activeSheet, element.id, count + step);
+              } else if (limit !== undefined) {
+                updateElement(activeSheet, element.id, limit);
+              }
+            }}
+            disabled={atLimit}
+            delayLongPress={500}
+          >
+            <Ionicons name="add-circle" size={32} color={atLimit ? settings.secondaryTextColor : settings.successColor} />
+          </TouchableOpacity>
+        </View>
+        {!!(element.points || element.pointsTable) && (
+          <Text style={[styles.elementPoints, { color: settings.secondaryTextColor }]}>
+            {getElementPoints(element, count)} pts
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  const renderToggle = (element: ScoringElement) => {
+    const isSelected = activeState[element.id] === true;
+
+    return (
+      <TouchableOpacity
+        key={element.id}
+        style={[
+          styles.toggleCard,
+          {
+            backgroundColor: isSelected ? resolveColor(element.color) : settings.backgroundColor,
+            borderColor: settings.borderColor,
+          },
+        ]}
+        onPress={() => updateElement(activeSheet, element.id, !isSelected)}
+      >
+        <View style={styles.toggleContent}>
+          <Text style={[styles.toggleTitle, { color: isSelected ? '#fff' : settings.textColor }]}>
+            {element.label}
+          </Text>
+          <Text style={[styles.togglePoints, { color: isSelected ? '#fff' : settings.secondaryTextColor }]}>
+            {element.description || `${element.points || 0} points`}
+          </Text>
+        </View>
+        <Ionicons
+          name={isSelected ? 'checkmark-circle' : 'radio-button-off'}
+          size={24}
+          color={isSelected ? '#fff' : settings.iconColor}
+        />
+      </TouchableOpacity>
+    );
+  };
+
+  const renderChoice = (element: ScoringElement) => {
+    const accentColor = resolveColor(element.color);
+
+    return (
+      <View
+        key={element.id}
+        style={[styles.choiceCard, { backgroundColor: settings.backgroundColor, borderColor: accentColor }]}
+      >
+        <Text style={[styles.elementTitle, { color: accentColor }]}>{element.label}</Text>
+        <View style={styles.choiceGrid}>
+          {(element.options || []).map(option => {
+            const isSelected = activeState[element.id] === option.id;
+            return (
+              <TouchableOpacity
+                key={option.id}
+                style={[
+                  styles.choiceButton,
+                  { backgroundColor: settings.cardBackgroundColor },
+                  isSelected && { backgroundColor: accentColor + '99' },
+                ]}
+                onPress={() => updateElement(activeSheet, element.id, option.id)}
+              >
+                <Text style={[styles.choiceText, { color: isSelected ? '#fff' : accentColor }]}>
+                  {option.label}
+                </Text>
+                <Text style={[styles.choicePoints, { color: isSelected ? '#fff' : settings.secondaryTextColor }]}>
+                  {option.points} pts
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+    );
+  };
+
+  const renderElement = (element: ScoringElement) => {
+    switch (element.type) {
+      case 'toggle':
+        return renderToggle(element);
+      case 'choice':
+        return renderChoice(element);
+      default:
+        return renderCounter(element);
+    }
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: settings.backgroundColor }]}>
+      {/* Sheet Tabs */}
+      {sheets.length > 1 && (
+        <View style={[styles.tabBar, { backgroundColor: settings.cardBackgroundColor, borderBottomColor: settings.borderColor }]}>
+          {sheets.map(sheet => {
+            const isActive = sheet.id === activeSheet.id;
+            return (
+              <TouchableOpacity
+                key={sheet.id}
+                style={[styles.tabButton, isActive && { borderBottomWidth: 2, borderBottomColor: settings.buttonColor }]}
+                onPress={() => setActiveSheetId(sheet.id)}
+              >
+                {sheet.icon && (
+                  <Ionicons
+                    name={sheet.icon as any}
+                    size={20}
+                    color={isActive ? settings.buttonColor : settings.secondaryTextColor}
+                    style={styles.tabIcon}
+                  />
+                )}
+                <Text style={[styles.tabText, { color: isActive ? settings.buttonColor : settings.secondaryTextColor }]}>
+                  {sheet.label}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      <SaveCalculatorSessionModal
+        visible={showSaveModal}
+        sheetLabel={activeSheet.label}
+        score={score.total}
+        isSkills={isSkillsSheet}
+        initialName={activeSession?.name}
+        initialTeamNumber={activeSession?.teamNumber}
+        canUpdate={!!activeSession}
+        onClose={() => setShowSaveModal(false)}
+        onSave={saveSession}
+      />
+
+      {/* Fixed Score View */}
+      <View style={styles.scoreView}>
+        <View style={[styles.scoreContainer, { backgroundColor: settings.buttonColor }]}>
+          <Text style={styles.scoreText}>Score: {score.total}</Text>
+          {activeSheet.description && (
+            <Text style={styles.sheetDescription}>{activeSheet.description}</Text>
+          )}
+          {activeSession && (
+            <Text style={styles.sheetDescription}>Editing "{activeSession.name}"</Text>
+          )}
+          {score.periods.length > 1 && (
+            <View style={styles.breakdownRow}>
+              {score.periods.map(period => (
+                <Text key={period.id} style={styles.breakdownText}>
+                  {period.label}: {period.points}
+                </Text>
+              ))}
+            </View>
+          )}
+        </View>
+      </View>
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        {/* Constraint Warnings */}
+        {violations.map((violation, index) => (
+          <View key={index} style={[styles.warningBanner, { backgroundColor: settings.errorColor + '20' }]}>
+            <Ionicons name="warning" size={18} color={settings.errorColor} />
+            <Text style={[styles.warningText, { color: settings.errorColor }]}>{violation.message}</Text>
+          </View>
+        ))}
+
+        {activeSheet.periods.map(period => (
+          <View
+            key={period.id}
+            style={[styles.periodCard, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor }]}
+          >
+            <Text style={[styles.periodTitle, { color: settings.textColor }]}>{period.label}</Text>
+            {period.elements.map(renderElement)}
+            {(period.bonuses || []).map(bonus => {
+              const earned = score.periods
+                .find(p => p.id === period.id)?.bonuses
+                .some(b => b.id === bonus.id);
+              return (
+                <View key={bonus.id} style={styles.bonusRow}>
+                  <Ionicons
+                    name={earned ? 'checkmark-circle' : 'ellipse-outline'}
+                    size={18}
+                    color={earned ? settings.bonusColor : settings.iconColor}
+                  />
+                  <Text style={[styles.bonusText, { color: earned ? settings.bonusColor : settings.secondaryTextColor }]}>
+                    {bonus.label} ({bonus.points} pts)
+                  </Text>
+                </View>
+              );
+            })}
+          </View>
+        ))}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  headerButtons: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerButton: {
+    padding: 8,
+    marginRight: 4,
+  },
+  emptyContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 40,
+  },
+  emptyText: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  tabBar: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+  },
+  tabButton: {
+    flex: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    flexDirection: 'row',
+  },
+  tabIcon: {
+    marginRight: 6,
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  scoreView: {
+    padding: 16,
+  },
+  scoreContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 15,
+    padding: 20,
+    elevation: 5,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+  },
+  scoreText: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  sheetDescription: {
+    fontSize: 13,
+    color: '#fff',
+    opacity: 0.9,
+    marginTop: 4,
+  },
+  breakdownRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginTop: 8,
+  },
+  breakdownText: {
+    fontSize: 13,
+    color: '#fff',
+    opacity: 0.9,
+    marginHorizontal: 8,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingHorizontal: 12,
+    paddingBottom: 20,
+  },
+  warningBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 12,
+  },
+  warningText: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    marginLeft: 8,
+  },
+  periodCard: {
+    borderRadius: 15,
+    padding: 16,
+    marginBottom: 16,
+    borderWidth: 1,
+    elevation: 3,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 3.84,
+  },
+  periodTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 16,
+    textAlign: 'center',
+  },
+  elementCard: {
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    alignItems: 'center',
+  },
+  elementTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  elementDescription: {
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: -4,
+    marginBottom: 8,
+  },
+  elementPoints: {
+    fontSize: 12,
+    marginTop: 6,
+  },
+  counterControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    width: '100%',
+  },
+  counterValueContainer: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+  },
+  counterValue: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    minWidth: 30,
+    textAlign: 'center',
+  },
+  counterMax: {
+    fontSize: 12,
+    marginLeft: 2,
+  },
+  toggleCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 12,
+    borderWidth: 1,
+  },
+  toggleContent: {
+    flex: 1,
+  },
+  toggleTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  togglePoints: {
+    fontSize: 14,
+  },
+  choiceCard: {
+    borderRadius: 12,
+    padding: 12,
+    marginBottom: 12,
+    borderWidth: 2,
+  },
+  choiceGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  choiceButton: {
+    width: '48%',
+    borderRadius: 8,
+    padding: 10,
+    marginBottom: 6,
+    alignItems: 'center',
+  },
+  choiceText: {
+    fontSize: 13,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  choicePoints: {
+    fontSize: 11,
+    marginTop: 2,
+  },
+  bonusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+  bonusText: {
+    fontSize: 14,
+    marginLeft: 8,
+  },
+});
+
+export default ScoreCalculatorScreen;
@@ -17,6 +17,7 @@
  * - Visual calculator cards with descriptive information
  * - Theme-aware interface with proper navigation integration
  * - Support for different competition formats and rule sets
+ * - Access to saved score sheets and the skills run log
  */
 import React, { useEffect } from 'react';
 import {
@@ -29,6 +30,7 @@ import {
 import { Ionicons } from '@expo/vector-icons';
 import { useSettings } from '../contexts/SettingsContext';
 import {
+  CalculatorScreenConfig,
   getCalculatorScreens,
   shouldShowScoreCalculators
 } from '../utils/programMappings';
@@ -75,8 +77,8 @@ const ScoreCalculatorsHomeScreen: React.FC<ScoreCalculatorsHomeScreenProps> = ({
     });
   }, [navigation, topBarColor, topBarContentColor]);
 
-  const navigateToCalculator = (screenName: string) => {
-    navigation.navigate(screenName);
+  const navigateToCalculator = (calculator: CalculatorScreenConfig) => {
+    navigation.navigate(calculator.screenName, calculator.params);
   };
 
   const styles = StyleSheet.create({
@@ -193,7 +195,7 @@ const ScoreCalculatorsHomeScreen: React.FC<ScoreCalculatorsHomeScreenProps> = ({
             <TouchableOpacity
               key={index}
               style={styles.calculatorCard}
-              onPress={() => navigateToCalculator(calculator.screenName)}
+              onPress={() => navigateToCalculator(calculator)}
               activeOpacity={0.7}
             >
               <View style={styles.calculatorButton}>
@@ -221,6 +223,25 @@ const ScoreCalculatorsHomeScreen: React.FC<ScoreCalculatorsHomeScreenProps> = ({
             </Text>
           </View>
         )}
+
+        {/* Saved score sheets and skills run log */}
+        {showCalculators && availableCalculators.length > 0 && (
+          <TouchableOpacity
+            style={styles.calculatorCard}
+            onPress={() => navigation.navigate('CalculatorSessions')}
+            activeOpacity={0.7}
+          >
+            <View style={styles.calculatorButton}>
+              <View style={styles.calculatorLeft}>
+                <Text style={styles.calculatorTitle}>Saved Score Sheets</Text>
+                <Text style={styles.calculatorDescription}>
+                  Compare and export saved route plans, and chart skills practice runs
+                </Text>
+              </View>
+              <Ionicons name="folder-open-outline" size={24} color={buttonColor} />
+            </View>
+          </TouchableOpacity>
+        )}
       </ScrollView>
     </View>
   );
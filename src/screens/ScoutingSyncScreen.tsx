@@ -0,0 +1,938 @@
+/**
+ * Scouting Sync Screen
+ *
+ * Description:
+ * Moves scouting data between teammates' phones without a server. Notes for the
+ * chosen events and teams (plus optional favorites and scouting templates) are
+ * bundled, compressed and shown as a sequence of QR codes or shared as a file.
+ * The receiving phone scans the codes or opens the file, previews what will
+ * change and resolves conflicting notes before anything is saved.
+ *
+ * Navigation:
+ * Accessed from the Notes section of Settings, or the share button in the Match
+ * Notes header (which preselects that event).
+ *
+ * Key Features:
+ * - Export notes by event and team, with favorites and templates
+ * - Multi-part QR codes with auto-advance, file sharing and clipboard copy
+ * - Import by camera scan, file or paste
+ * - Merge preview with Mine / Theirs / Combine conflict resolution
+ */
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Switch,
+  Modal,
+  Vibration,
+  useWindowDimensions,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { CameraView, useCameraPermissions, BarcodeScanningResult } from 'expo-camera';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import * as ExpoClipboard from 'expo-clipboard';
+import { useSettings } from '../contexts/SettingsContext';
+import { useNotes, TeamMatchNote } from '../contexts/NotesContext';
+import { useFavorites } from '../contexts/FavoritesContext';
+import { useScoutingTemplates } from '../contexts/ScoutingTemplatesContext';
+import QRCodeView from '../components/QRCodeView';
+import { alerts, clipboard, fileDownload, isWeb } from '../utils/webCompatibility';
+import { createLogger } from '../utils/logger';
+import { getUsedTemplateIds } from '../utils/scouting';
+import {
+  ImportPlan,
+  NoteConflict,
+  NoteConflictChoice,
+  QR_CHUNK_SIZE,
+  QrScanProgress,
+  SyncBundle,
+  SyncBundleError,
+  collectQrChunk,
+  createSyncBundle,
+  createSyncFileContent,
+  decodeSyncBundle,
+  encodeSyncBundle,
+  getCollectedPayload,
+  getScannedCount,
+  parseQrChunk,
+  parseSyncText,
+  planImport,
+  resolveNoteMerge,
+  splitPayloadForQr,
+} from '../utils/scoutingSync';
+
+const logger = createLogger('ScoutingSyncScreen');
+
+const QR_AUTO_ADVANCE_MS = 1500;
+
+interface ScoutingSyncScreenProps {
+  navigation: any;
+  route: {
+    params?: {
+      eventId?: number;
+    };
+  };
+}
+
+type SyncTab = 'export' | 'import';
+
+const CONFLICT_CHOICES: { id: NoteConflictChoice; label: string }[] = [
+  { id: 'local', label: 'Mine' },
+  { id: 'incoming', label: 'Theirs' },
+  { id: 'combine', label: 'Combine' },
+];
+
+const ScoutingSyncScreen: React.FC<ScoutingSyncScreenProps> = ({ navigation, route }) => {
+  const settings = useSettings();
+  const { notes, importNotes } = useNotes();
+  const { getAllFavorites, importFavorites } = useFavorites();
+  const { customTemplates, importTemplates } = useScoutingTemplates();
+  const [cameraPermission, requestCameraPermission] = useCameraPermissions();
+  const { width: windowWidth } = useWindowDimensions();
+
+  const [activeTab, setActiveTab] = useState<SyncTab>('export');
+
+  // Export selection
+  const [selectedEventIds, setSelectedEventIds] = useState<number[]>(() => {
+    const eventId = route.params?.eventId;
+    return eventId !== undefined && notes.some(note => note.eventId === eventId) ? [eventId] : [];
+  });
+  const [selectedTeams, setSelectedTeams] = useState<string[]>([]); // Empty means every team
+  const [includeFavorites, setIncludeFavorites] = useState(false);
+  const [includeTemplates, setIncludeTemplates] = useState(true);
+  const [qrParts, setQrParts] = useState<string[] | null>(null);
+  const [qrIndex, setQrIndex] = useState(0);
+  const [qrAutoAdvance, setQrAutoAdvance] = useState(true);
+
+  // Import
+  const [scanning, setScanning] = useState(false);
+  const [scanProgress, setScanProgress] = useState<QrScanProgress | null>(null);
+  const scanProgressRef = useRef<QrScanProgress | null>(null);
+  const [importPlan, setImportPlan] = useState<ImportPlan | null>(null);
+  const [conflictChoices, setConflictChoices] = useState<Record<string, NoteConflictChoice>>({});
+  const [importing, setImporting] = useState(false);
+
+  useEffect(() => {
+    navigation.setOptions({
+      title: 'Share Scouting Data',
+      headerStyle: {
+        backgroundColor: settings.topBarColor,
+      },
+      headerTintColor: settings.topBarContentColor,
+      headerTitleAlign: 'center',
+      headerTitleStyle: {
+        fontWeight: '500',
+        fontSize: 19,
+      },
+    });
+  }, [navigation, settings.topBarColor, settings.topBarContentColor]);
+
+  // Events that have notes, newest activity first; event 0 holds notes not tied to an event
+  const noteEvents = useMemo(() => {
+    const events = new Map<number, { eventId: number; name: string; count: number; lastUpdated: string }>();
+    notes.forEach(note => {
+      const existing = events.get(note.eventId);
+      if (existing) {
+        existing.count++;
+        if (note.updatedAt > existing.lastUpdated) existing.lastUpdated = note.updatedAt;
+      } else {
+        events.set(note.eventId, {
+          eventId: note.eventId,
+          name: note.eventId === 0 ? 'General Notes' : note.eventName || `Event ${note.eventId}`,
+          count: 1,
+          lastUpdated: note.updatedAt,
+        });
+      }
+    });
+    return Array.from(events.values()).sort((a, b) => b.lastUpdated.localeCompare(a.lastUpdated));
+  }, [notes]);
+
+  const eventNotes = useMemo(
+    () => notes.filter(note => selectedEventIds.includes(note.eventId)),
+    [notes, selectedEventIds]
+  );
+
+  const eventTeams = useMemo(
+    () => Array.from(new Set(eventNotes.map(note => note.teamNumber))).sort((a, b) => a.localeCompare(b, undefined, { numeric: true })),
+    [eventNotes]
+  );
+
+  const exportBundle = useMemo((): SyncBundle => {
+    const exportNotes = eventNotes.filter(note => selectedTeams.length === 0 || selectedTeams.includes(note.teamNumber));
+
+    // Custom templates used by the exported notes always travel with them so responses can be read
+    const usedTemplateIds = getUsedTemplateIds(exportNotes);
+    const templates = customTemplates.filter(template => includeTemplates || usedTemplateIds.includes(template.id));
+
+    return createSyncBundle({
+      notes: exportNotes,
+      favorites: includeFavorites ? getAllFavorites() : [],
+      templates,
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [eventNotes, selectedTeams, customTemplates, includeTemplates, includeFavorites]);
+
+  const exportPayload = useMemo(() => encodeSyncBundle(exportBundle), [exportBundle]);
+  const hasExportData = exportBundle.notes.length > 0 || exportBundle.favorites.length > 0 || exportBundle.templates.length > 0;
+  const qrCount = Math.max(1, Math.ceil(exportPayload.length / QR_CHUNK_SIZE));
+
+  useEffect(() => {
+    if (!qrParts || qrParts.length < 2 || !qrAutoAdvance) return;
+    const interval = setInterval(() => {
+      setQrIndex(index => (index + 1) % qrParts.length);
+    }, QR_AUTO_ADVANCE_MS);
+    return () => clearInterval(interval);
+  }, [qrParts, qrAutoAdvance]);
+
+  const toggleEvent = (eventId: number) => {
+    setSelectedEventIds(prev => (prev.includes(eventId) ? prev.filter(id => id !== eventId) : [...prev, eventId]));
+    setSelectedTeams([]);
+  };
+
+  const toggleTeam = (teamNumber: string) => {
+    setSelectedTeams(prev => (prev.includes(teamNumber) ? prev.filter(team => team !== teamNumber) : [...prev, teamNumber]));
+  };
+
+  const showQrCodes = () => {
+    setQrParts(splitPayloadForQr(exportPayload));
+    setQrIndex(0);
+  };
+
+  const shareFile = async () => {
+    const fileName = `robonexus-scouting-${new Date().toISOString().split('T')[0]}.json`;
+    const content = createSyncFileContent(exportBundle);
+
+    try {
+      if (isWeb) {
+        fileDownload.downloadText(content, fileName, 'application/json');
+        return;
+      }
+
+      const file = new FileSystem.File(FileSystem.Paths.cache, fileName);
+      await file.write(content);
+
+      if (await Sharing.isAvailableAsync()) {
+        await Sharing.shareAsync(file.uri, {
+          mimeType: 'application/json',
+          dialogTitle: 'Share Scouting Data',
+          UTI: 'public.json',
+        });
+      } else {
+        alerts.showAlert('Sharing Unavailable', 'Sharing is not available on this device.');
+      }
+    } catch (error) {
+      logger.error('Failed to share scouting data:', error);
+      alerts.showAlert('Share Failed', 'Unable to share scouting data.');
+    }
+  };
+
+  const copyToClipboard = async () => {
+    const success = await clipboard.setString(createSyncFileContent(exportBundle));
+    if (success) {
+      alerts.showAlert('Copied', 'Scouting data copied. Paste it on the Import tab of another device.');
+    } else {
+      alerts.showAlert('Copy Failed', 'Unable to copy scouting data to the clipboard.');
+    }
+  };
+
+  // Import
+
+  const previewBundle = (bundle: SyncBundle) => {
+    const plan = planImport(bundle, { notes, templates: customTemplates, favorites: getAllFavorites() });
+    setImportPlan(plan);
+    setConflictChoices({});
+    logger.debug('Planned import:', plan.notes.added.length, 'new notes,', plan.notes.conflicts.length, 'conflicts');
+  };
+
+  const handleImportError = (error: unknown) => {
+    if (error instanceof SyncBundleError) {
+      alerts.showAlert('Import Failed', error.message);
+    } else {
+      logger.error('Failed to read scouting data:', error);
+      alerts.showAlert('Import Failed', 'Unable to read scouting data.');
+    }
+  };
+
+  const importFromText = (text: string) => {
+    try {
+      previewBundle(parseSyncText(text));
+    } catch (error) {
+      handleImportError(error);
+    }
+  };
+
+  const openScanner = async () => {
+    if (!cameraPermission?.granted) {
+      const result = await requestCameraPermission();
+      if (!result.granted) {
+        alerts.showAlert('Camera Access Needed', 'Allow camera access in your device settings to scan QR codes.');
+        return;
+      }
+    }
+    scanProgressRef.current = null;
+    setScanProgress(null);
+    setScanning(true);
+  };
+
+  const handleBarcodeScanned = ({ data }: BarcodeScanningResult) => {
+    const chunk = parseQrChunk(data);
+    if (!chunk) return;
+
+    const previous = scanProgressRef.current;
+    const progress = collectQrChunk(previous, chunk);
+    if (progress === previous) return; // Already have this part
+
+    scanProgressRef.current = progress;
+    setScanProgress(progress);
+    if (settings.enableHaptics) {
+      Vibration.vibrate(15);
+    }
+
+    const payload = getCollectedPayload(progress);
+    if (payload) {
+      setScanning(false);
+      try {
+        previewBundle(decodeSyncBundle(payload));
+      } catch (error) {
+        handleImportError(error);
+      }
+    }
+  };
+
+  const openFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/json', 'text/plain', '*/*'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets?.[0]) return;
+
+      const asset = result.assets[0];
+      const text = isWeb && asset.file
+        ? await asset.file.text()
+        : await new FileSystem.File(asset.uri).text();
+      importFromText(text);
+    } catch (error) {
+      handleImportError(error);
+    }
+  };
+
+  const pasteFromClipboard = async () => {
+    try {
+      const text = await ExpoClipboard.getStringAsync();
+      if (!text.trim()) {
+        alerts.showAlert('Clipboard Empty', 'Copy scouting data on another device first.');
+        return;
+      }
+      importFromText(text);
+    } catch (error) {
+      handleImportError(error);
+    }
+  };
+
+  const setAllConflictChoices = (choice: NoteConflictChoice) => {
+    if (!importPlan) return;
+    setConflictChoices(Object.fromEntries(importPlan.notes.conflicts.map(conflict => [conflict.incoming.id, choice])));
+  };
+
+  const applyImport = async () => {
+    if (!importPlan) return;
+
+    setImporting(true);
+    try {
+      const { upserts, removedIds } = resolveNoteMerge(importPlan.notes, conflictChoices);
+      const templates = [...importPlan.templates.added, ...importPlan.templates.updated];
+
+      if (upserts.length > 0 || removedIds.length > 0) {
+        await importNotes(upserts, removedIds);
+      }
+      if (templates.length > 0) {
+        await importTemplates(templates);
+      }
+      if (importPlan.favorites.added.length > 0) {
+        await importFavorites(importPlan.favorites.added);
+      }
+
+      const summary = [
+        `${upserts.length} note${upserts.length === 1 ? '' : 's'} saved`,
+        templates.length > 0 ? `${templates.length} template${templates.length === 1 ? '' : 's'}` : null,
+        importPlan.favorites.added.length > 0 ? `${importPlan.favorites.added.length} favorites` : null,
+      ].filter(Boolean).join(', ');
+
+      setImportPlan(null);
+      setConflictChoices({});
+      alerts.showAlert('Import Complete', `${summary}.`);
+    } catch (error) {
+      logger.error('Failed to import scouting data:', error);
+      alerts.showAlert('Import Failed', 'Unable to save the imported scouting data.');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  // Rendering
+
+  const cardStyle = [styles.card, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor }];
+
+  const renderSwitchRow = (label: string, description: string, value: boolean, onValueChange: (value: boolean) => void) => (
+    <View style={styles.switchRow}>
+      <View style={styles.switchInfo}>
+        <Text style={[styles.rowTitle, { color: settings.textColor }]}>{label}</Text>
+        <Text style={[styles.rowMeta, { color: settings.secondaryTextColor }]}>{description}</Text>
+      </View>
+      <Switch
+        value={value}
+        onValueChange={onValueChange}
+        trackColor={{ false: settings.switchTrackColorOff, true: settings.buttonColor }}
+        thumbColor={value ? settings.switchThumbColorOn : settings.switchThumbColorOff}
+      />
+    </View>
+  );
+
+  const renderActionButton = (icon: keyof typeof Ionicons.glyphMap, label: string, onPress: () => void, disabled = false) => (
+    <TouchableOpacity
+      key={label}
+      style={[styles.actionButton, { backgroundColor: settings.buttonColor, opacity: disabled ? 0.4 : 1 }]}
+      onPress={onPress}
+      disabled={disabled}
+    >
+      <Ionicons name={icon} size={20} color="#fff" />
+      <Text style={styles.actionButtonText}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  const renderExportTab = () => (
+    <>
+      <Text style={[styles.sectionTitle, { color: settings.textColor }]}>Events</Text>
+      {noteEvents.length === 0 ? (
+        <Text style={[styles.hint, { color: settings.secondaryTextColor }]}>No match notes to share yet.</Text>
+      ) : (
+        <View style={cardStyle}>
+          {noteEvents.map((event, index) => {
+            const isSelected = selectedEventIds.includes(event.eventId);
+            return (
+              <TouchableOpacity
+                key={event.eventId}
+                style={[styles.listRow, index > 0 && { borderTopWidth: StyleSheet.hairlineWidth, borderTopColor: settings.borderColor }]}
+                onPress={() => toggleEvent(event.eventId)}
+              >
+                <Ionicons
+                  name={isSelected ? 'checkbox' : 'square-outline'}
+                  size={22}
+                  color={isSelected ? settings.buttonColor : settings.iconColor}
+                  style={styles.checkbox}
+                />
+                <Text style={[styles.rowTitle, styles.flex, { color: settings.textColor }]} numberOfLines={2}>{event.name}</Text>
+                <Text style={[styles.rowMeta, { color: settings.secondaryTextColor }]}>
+                  {event.count} {event.count === 1 ? 'note' : 'notes'}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      {eventTeams.length > 0 && (
+        <>
+          <Text style={[styles.sectionTitle, { color: settings.textColor }]}>Teams</Text>
+          <Text style={[styles.hint, { color: settings.secondaryTextColor }]}>
+            {selectedTeams.length === 0 ? 'All teams are included. Tap teams to share only those.' : `${selectedTeams.length} selected`}
+          </Text>
+          <View style={styles.chipRow}>
+            {eventTeams.map(team => {
+              const isSelected = selectedTeams.includes(team);
+              return (
+                <TouchableOpacity
+                  key={team}
+                  style={[styles.chip, { borderColor: settings.buttonColor }, isSelected && { backgroundColor: settings.buttonColor }]}
+                  onPress={() => toggleTeam(team)}
+                >
+                  <Text style={[styles.chipText, { color: isSelected ? '#fff' : settings.buttonColor }]}>{team}</Text>
+                </TouchableOpacity>
+              );
+            })}
+          </View>
+        </>
+      )}
+
+      <Text style={[styles.sectionTitle, { color: settings.textColor }]}>Also Include</Text>
+      <View style={cardStyle}>
+        {renderSwitchRow('Favorites', 'Favorite teams and events for every program', includeFavorites, setIncludeFavorites)}
+        {renderSwitchRow(
+          'Scouting Templates',
+          'Custom templates (ones used by the shared notes are always included)',
+          includeTemplates,
+          setIncludeTemplates
+        )}
+      </View>
+
+      <View style={cardStyle}>
+        <Text style={[styles.rowTitle, { color: settings.textColor }]}>
+          {exportBundle.notes.length} notes · {exportBundle.favorites.length} favorites · {exportBundle.templates.length} templates
+        </Text>
+        <Text style={[styles.rowMeta, { color: settings.secondaryTextColor }]}>
+          {hasExportData ? `${qrCount} QR ${qrCount === 1 ? 'code' : 'codes'} · photos are not shared` : 'Select something to share'}
+        </Text>
+        <View style={styles.actionRow}>
+          {renderActionButton('qr-code-outline', 'QR Codes', showQrCodes, !hasExportData)}
+          {renderActionButton('share-outline', 'Share File', shareFile, !hasExportData)}
+          {renderActionButton('copy-outline', 'Copy', copyToClipboard, !hasExportData)}
+        </View>
+      </View>
+    </>
+  );
+
+  const renderConflict = (conflict: NoteConflict) => {
+    const choice = conflictChoices[conflict.incoming.id] || 'combine';
+    const describe = (note: TeamMatchNote) => [
+      note.note.trim() || 'No text',
+      note.scouting ? `${Object.keys(note.scouting.values).length} scouting responses` : null,
+    ].filter(Boolean).join(' · ');
+
+    return (
+      <View key={conflict.incoming.id} style={cardStyle}>
+        <Text style={[styles.rowTitle, { color: settings.textColor }]}>
+          {conflict.local.teamNumber} · {conflict.local.matchName}
+        </Text>
+        {!!conflict.local.eventName && (
+          <Text style={[styles.rowMeta, { color: settings.secondaryTextColor }]}>{conflict.local.eventName}</Text>
+        )}
+        <Text style={[styles.conflictLabel, { color: settings.secondaryTextColor }]}>Mine</Text>
+        <Text style={[styles.conflictText, { color: settings.textColor }]} numberOfLines={3}>{describe(conflict.local)}</Text>
+        <Text style={[styles.conflictLabel, { color: settings.secondaryTextColor }]}>Theirs</Text>
+        <Text style={[styles.conflictText, { color: settings.textColor }]} numberOfLines={3}>{describe(conflict.incoming)}</Text>
+        <View style={styles.chipRow}>
+          {CONFLICT_CHOICES.map(option => (
+            <TouchableOpacity
+              key={option.id}
+              style={[styles.chip, { borderColor: settings.buttonColor }, choice === option.id && { backgroundColor: settings.buttonColor }]}
+              onPress={() => setConflictChoices(prev => ({ ...prev, [conflict.incoming.id]: option.id }))}
+            >
+              <Text style={[styles.chipText, { color: choice === option.id ? '#fff' : settings.buttonColor }]}>{option.label}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  const renderImportPreview = (plan: ImportPlan) => {
+    const { notes: notePlan, templates: templatePlan, favorites: favoritePlan } = plan;
+    const rows = [
+      { label: 'New notes', value: notePlan.added.length },
+      { label: 'Updated notes', value: notePlan.updated.length },
+      { label: 'Conflicting notes', value: notePlan.conflicts.length },
+      { label: 'Already up to date', value: notePlan.unchanged },
+      { label: 'New or updated templates', value: templatePlan.added.length + templatePlan.updated.length },
+      { label: 'New favorites', value: favoritePlan.added.length },
+    ];
+    const hasChanges = notePlan.added.length + notePlan.updated.length + notePlan.conflicts.length
+      + templatePlan.added.length + templatePlan.updated.length + favoritePlan.added.length > 0;
+
+    return (
+      <>
+        <View style={cardStyle}>
+          <Text style={[styles.rowTitle, { color: settings.textColor }]}>Ready to Import</Text>
+          <Text style={[styles.rowMeta, { color: settings.secondaryTextColor }]}>
+            Exported {new Date(plan.bundle.createdAt).toLocaleString()}
+          </Text>
+          {rows.map(row => (
+            <View key={row.label} style={[styles.summaryRow, { borderTopColor: settings.borderColor }]}>
+              <Text style={[styles.rowMeta, styles.flex, { color: settings.secondaryTextColor }]}>{row.label}</Text>
+              <Text style={[styles.summaryValue, { color: settings.textColor }]}>{row.value}</Text>
+            </View>
+          ))}
+        </View>
+
+        {notePlan.conflicts.length > 0 && (
+          <>
+            <Text style={[styles.sectionTitle, { color: settings.textColor }]}>Conflicts</Text>
+            <Text style={[styles.hint, { color: settings.secondaryTextColor }]}>
+              These matches were scouted on both devices. Keep yours, take theirs, or combine both notes.
+            </Text>
+            <View style={[styles.chipRow, styles.bulkRow]}>
+              {CONFLICT_CHOICES.map(option => (
+                <TouchableOpacity
+                  key={option.id}
+                  style={[styles.chip, { borderColor: settings.buttonColor }]}
+                  onPress={() => setAllConflictChoices(option.id)}
+                >
+                  <Text style={[styles.chipText, { color: settings.buttonColor }]}>All {option.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            {notePlan.conflicts.map(renderConflict)}
+          </>
+        )}
+
+        <View style={styles.actionRow}>
+          <TouchableOpacity
+            style={[styles.actionButton, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor, borderWidth: 1 }]}
+            onPress={() => setImportPlan(null)}
+          >
+            <Text style={[styles.actionButtonText, { color: settings.textColor }]}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.actionButton, { backgroundColor: settings.buttonColor, opacity: !hasChanges || importing ? 0.4 : 1 }]}
+            onPress={applyImport}
+            disabled={!hasChanges || importing}
+          >
+            <Ionicons name="download-outline" size={20} color="#fff" />
+            <Text style={styles.actionButtonText}>{importing ? 'Importing...' : 'Import'}</Text>
+          </TouchableOpacity>
+        </View>
+      </>
+    );
+  };
+
+  const renderImportTab = () => {
+    if (importPlan) return renderImportPreview(importPlan);
+
+    return (
+      <>
+        <Text style={[styles.hint, { color: settings.secondaryTextColor }]}>
+          Scan the QR codes shown on a teammate's phone, or open a shared scouting file. Nothing is saved until you
+          review the changes.
+        </Text>
+        <View style={styles.importActions}>
+          {renderActionButton('camera-outline', 'Scan QR Codes', openScanner)}
+          {renderActionButton('document-outline', 'Open File', openFile)}
+          {renderActionButton('clipboard-outline', 'Paste', pasteFromClipboard)}
+        </View>
+      </>
+    );
+  };
+
+  const renderQrModal = () => {
+    if (!qrParts) return null;
+    const qrSize = Math.min(windowWidth - 48, 360);
+
+    return (
+      <Modal visible animationType="slide" presentationStyle="pageSheet" onRequestClose={() => setQrParts(null)}>
+        <View style={[styles.container, { backgroundColor: settings.backgroundColor }]}>
+          <View style={[styles.modalHeader, { backgroundColor: settings.topBarColor, borderBottomColor: settings.borderColor }]}>
+            <View style={styles.modalHeaderButton} />
+            <Text style={[styles.modalTitle, { color: settings.topBarContentColor }]}>Scan to Import</Text>
+            <TouchableOpacity onPress={() => setQrParts(null)} style={styles.modalHeaderButton}>
+              <Text style={[styles.modalHeaderButtonText, { color: settings.topBarContentColor }]}>Done</Text>
+            </TouchableOpacity>
+          </View>
+          <View style={styles.qrContainer}>
+            <QRCodeView value={qrParts[qrIndex]} size={qrSize} />
+            <Text style={[styles.qrCounter, { color: settings.textColor }]}>
+              {qrIndex + 1} of {qrParts.length}
+            </Text>
+            {qrParts.length > 1 && (
+              <View style={styles.qrControls}>
+                <TouchableOpacity
+                  onPress={() => {
+                    setQrAutoAdvance(false);
+                    setQrIndex(index => (index - 1 + qrParts.length) % qrParts.length);
+                  }}
+                  style={styles.qrControlButton}
+                >
+                  <Ionicons name="chevron-back" size={28} color={settings.buttonColor} />
+                </TouchableOpacity>
+                <TouchableOpacity onPress={() => setQrAutoAdvance(!qrAutoAdvance)} style={styles.qrControlButton}>
+                  <Ionicons name={qrAutoAdvance ? 'pause' : 'play'} size={28} color={settings.buttonColor} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  onPress={() => {
+                    setQrAutoAdvance(false);
+                    setQrIndex(index => (index + 1) % qrParts.length);
+                  }}
+                  style={styles.qrControlButton}
+                >
+                  <Ionicons name="chevron-forward" size={28} color={settings.buttonColor} />
+                </TouchableOpacity>
+              </View>
+            )}
+            <Text style={[styles.hint, styles.centeredText, { color: settings.secondaryTextColor }]}>
+              On the other device, open Share Scouting Data › Import › Scan QR Codes. Codes can be scanned in any order.
+            </Text>
+          </View>
+        </View>
+      </Modal>
+    );
+  };
+
+  const renderScannerModal = () => {
+    if (!scanning) return null;
+    const scanned = getScannedCount(scanProgress);
+
+    return (
+      <Modal visible animationType="slide" presentationStyle="pageSheet" onRequestClose={() => setScanning(false)}>
+        <View style={[styles.container, { backgroundColor: settings.backgroundColor }]}>
+          <View style={[styles.modalHeader, { backgroundColor: settings.topBarColor, borderBottomColor: settings.borderColor }]}>
+            <TouchableOpacity onPress={() => setScanning(false)} style={styles.modalHeaderButton}>
+              <Text style={[styles.modalHeaderButtonText, { color: settings.topBarContentColor }]}>Cancel</Text>
+            </TouchableOpacity>
+            <Text style={[styles.modalTitle, { color: settings.topBarContentColor }]}>Scan QR Codes</Text>
+            <View style={styles.modalHeaderButton} />
+          </View>
+          <CameraView
+            style={styles.camera}
+            facing="back"
+            barcodeScannerSettings={{ barcodeTypes: ['qr'] }}
+            onBarcodeScanned={handleBarcodeScanned}
+          />
+          <View style={styles.scanStatus}>
+            <Text style={[styles.rowTitle, { color: settings.textColor }]}>
+              {scanProgress ? `${scanned} of ${scanProgress.parts.length} scanned` : 'Point the camera at a RoboNexus QR code'}
+            </Text>
+            {scanProgress && (
+              <View style={[styles.progressTrack, { backgroundColor: settings.borderColor }]}>
+                <View
+                  style={[
+                    styles.progressFill,
+                    { backgroundColor: settings.successColor, width: `${(scanned / scanProgress.parts.length) * 100}%` },
+                  ]}
+                />
+              </View>
+            )}
+          </View>
+        </View>
+      </Modal>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: settings.backgroundColor }]}>
+      <View style={[styles.tabBar, { backgroundColor: settings.cardBackgroundColor, borderBottomColor: settings.borderColor }]}>
+        {([
+          { id: 'export', label: 'Export', icon: 'arrow-up-circle-outline' },
+          { id: 'import', label: 'Import', icon: 'arrow-down-circle-outline' },
+        ] as const).map(tab => {
+          const isActive = activeTab === tab.id;
+          return (
+            <TouchableOpacity
+              key={tab.id}
+              style={[styles.tabButton, isActive && { borderBottomWidth: 2, borderBottomColor: settings.buttonColor }]}
+              onPress={() => setActiveTab(tab.id)}
+            >
+              <Ionicons
+                name={tab.icon}
+                size={20}
+                color={isActive ? settings.buttonColor : settings.secondaryTextColor}
+                style={styles.tabIcon}
+              />
+              <Text style={[styles.tabText, { color: isActive ? settings.buttonColor : settings.secondaryTextColor }]}>
+                {tab.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        {activeTab === 'export' ? renderExportTab() : renderImportTab()}
+      </ScrollView>
+
+      {renderQrModal()}
+      {renderScannerModal()}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  flex: {
+    flex: 1,
+  },
+  tabBar: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+  },
+  tabButton: {
+    flex: 1,
+    paddingVertical: 12,
+    paddingHorizontal: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+    flexDirection: 'row',
+  },
+  tabIcon: {
+    marginRight: 6,
+  },
+  tabText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    marginTop: 8,
+    marginBottom: 10,
+  },
+  hint: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginBottom: 12,
+  },
+  centeredText: {
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  card: {
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 14,
+    marginBottom: 16,
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  checkbox: {
+    marginRight: 12,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  rowMeta: {
+    fontSize: 13,
+    marginTop: 2,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 16,
+  },
+  bulkRow: {
+    marginBottom: 12,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+  },
+  chipText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  switchInfo: {
+    flex: 1,
+    marginRight: 12,
+  },
+  actionRow: {
+    flexDirection: 'row',
+    gap: 8,
+    marginTop: 14,
+  },
+  importActions: {
+    gap: 12,
+  },
+  actionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    borderRadius: 10,
+    paddingVertical: 12,
+    paddingHorizontal: 8,
+  },
+  actionButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+    marginTop: 6,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
+  summaryValue: {
+    fontSize: 15,
+    fontWeight: '700',
+  },
+  conflictLabel: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginTop: 10,
+    textTransform: 'uppercase',
+  },
+  conflictText: {
+    fontSize: 14,
+    marginTop: 2,
+    marginBottom: 4,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 8,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+  },
+  modalHeaderButton: {
+    padding: 8,
+    minWidth: 64,
+  },
+  modalHeaderButtonText: {
+    fontSize: 16,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  qrContainer: {
+    flex: 1,
+    alignItems: 'center',
+    padding: 24,
+  },
+  qrCounter: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginTop: 16,
+  },
+  qrControls: {
+    flexDirection: 'row',
+    gap: 24,
+    marginTop: 12,
+  },
+  qrControlButton: {
+    padding: 8,
+  },
+  camera: {
+    flex: 1,
+  },
+  scanStatus: {
+    padding: 20,
+    gap: 12,
+  },
+  progressTrack: {
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+  },
+});
+
+export default ScoutingSyncScreen;
@@ -0,0 +1,775 @@
+/**
+ * Scouting Templates Screen
+ *
+ * Description:
+ * Lists the structured scouting templates available for the selected program and
+ * lets users pick the one used for new match notes. Bundled templates are
+ * read-only; duplicating one creates an editable copy.
+ *
+ * Navigation:
+ * Accessed from Settings > Notes or the options button in the Scouting section of
+ * a match note.
+ *
+ * Key Features:
+ * - Active template selection per program
+ * - Duplicate, edit and delete custom templates
+ * - Field editor for number, yes/no, option and rating fields
+ * - Field reordering with move up/down
+ */
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Modal,
+  Switch,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useSettings } from '../contexts/SettingsContext';
+import { useScoutingTemplates } from '../contexts/ScoutingTemplatesContext';
+import { ScoutingField, ScoutingFieldType, ScoutingTemplate } from '../types/scouting';
+import { DEFAULT_RATING_SCALE, generateFieldId } from '../utils/scouting';
+import { getProgramShortName } from '../utils/programMappings';
+import { alerts } from '../utils/webCompatibility';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('ScoutingTemplatesScreen');
+
+const FIELD_TYPES: { type: ScoutingFieldType; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+  { type: 'number', label: 'Number', icon: 'calculator-outline' },
+  { type: 'boolean', label: 'Yes/No', icon: 'checkmark-circle-outline' },
+  { type: 'enum', label: 'Options', icon: 'list-outline' },
+  { type: 'rating', label: 'Rating', icon: 'star-outline' },
+];
+
+const RATING_SCALES = [3, 5, 10];
+
+interface ScoutingTemplatesScreenProps {
+  navigation: any;
+}
+
+// Template being edited; id is undefined for a new template
+interface TemplateDraft {
+  id?: string;
+  name: string;
+  fields: ScoutingField[];
+}
+
+// Field form state; numbers and options are edited as text
+interface FieldDraft {
+  index: number | null; // null when adding a field
+  label: string;
+  type: ScoutingFieldType;
+  description: string;
+  min: string;
+  max: string;
+  options: string; // Comma separated labels
+  scale: number;
+  lowerIsBetter: boolean;
+}
+
+const EMPTY_FIELD_DRAFT: FieldDraft = {
+  index: null,
+  label: '',
+  type: 'number',
+  description: '',
+  min: '0',
+  max: '',
+  options: '',
+  scale: DEFAULT_RATING_SCALE,
+  lowerIsBetter: false,
+};
+
+const describeField = (field: ScoutingField): string => {
+  switch (field.type) {
+    case 'number':
+      return field.max !== undefined ? `Number (${field.min ?? 0}-${field.max})` : `Number (from ${field.min ?? 0})`;
+    case 'boolean':
+      return 'Yes/No';
+    case 'enum':
+      return `Options: ${(field.options || []).map(option => option.label).join(', ')}`;
+    case 'rating':
+      return `Rating (1-${field.scale ?? DEFAULT_RATING_SCALE})`;
+  }
+};
+
+const ScoutingTemplatesScreen: React.FC<ScoutingTemplatesScreenProps> = ({ navigation }) => {
+  const settings = useSettings();
+  const {
+    getTemplatesForProgram,
+    getActiveTemplate,
+    setActiveTemplate,
+    saveTemplate,
+    duplicateTemplate,
+    deleteTemplate,
+  } = useScoutingTemplates();
+  const programShortName = getProgramShortName(settings.selectedProgram);
+  const templates = getTemplatesForProgram(programShortName);
+  const activeTemplate = getActiveTemplate(programShortName);
+
+  const [templateDraft, setTemplateDraft] = useState<TemplateDraft | null>(null);
+  const [fieldDraft, setFieldDraft] = useState<FieldDraft | null>(null);
+
+  useEffect(() => {
+    navigation.setOptions({
+      title: 'Scouting Templates',
+      headerStyle: {
+        backgroundColor: settings.topBarColor,
+      },
+      headerTintColor: settings.topBarContentColor,
+      headerTitleAlign: 'center',
+      headerTitleStyle: {
+        fontWeight: '500',
+        fontSize: 19,
+      },
+      headerRight: () => (
+        <TouchableOpacity onPress={() => setTemplateDraft({ name: '', fields: [] })} style={styles.headerButton}>
+          <Ionicons name="add" size={26} color={settings.topBarContentColor} />
+        </TouchableOpacity>
+      ),
+    });
+  }, [navigation, settings.topBarColor, settings.topBarContentColor]);
+
+  const handleDuplicate = async (template: ScoutingTemplate) => {
+    try {
+      const copy = await duplicateTemplate(template.id, programShortName);
+      setTemplateDraft({ id: copy.id, name: copy.name, fields: copy.fields });
+    } catch (error) {
+      logger.error('Failed to duplicate scouting template:', error);
+      alerts.showAlert('Error', 'Failed to duplicate template.');
+    }
+  };
+
+  const handleDelete = async (template: ScoutingTemplate) => {
+    const confirmed = await alerts.showDestructiveConfirm(
+      'Delete Template',
+      `Delete "${template.name}"? Responses already saved on notes are kept, but won't appear in summaries.`,
+      'Delete'
+    );
+    if (!confirmed) return;
+
+    try {
+      await deleteTemplate(template.id);
+    } catch (error) {
+      alerts.showAlert('Error', 'Failed to delete template.');
+    }
+  };
+
+  const handleSaveTemplate = async () => {
+    if (!templateDraft) return;
+
+    if (!templateDraft.name.trim()) {
+      alerts.showAlert('Name Required', 'Please enter a name for this template.');
+      return;
+    }
+    if (templateDraft.fields.length === 0) {
+      alerts.showAlert('No Fields', 'Add at least one field to this template.');
+      return;
+    }
+
+    try {
+      const saved = await saveTemplate({
+        id: templateDraft.id,
+        name: templateDraft.name.trim(),
+        programs: [programShortName],
+        fields: templateDraft.fields,
+      });
+      if (!templateDraft.id) {
+        await setActiveTemplate(programShortName, saved.id);
+      }
+      setTemplateDraft(null);
+      setFieldDraft(null);
+    } catch (error) {
+      alerts.showAlert('Error', 'Failed to save template.');
+    }
+  };
+
+  const handleCloseEditor = async () => {
+    if (fieldDraft) {
+      setFieldDraft(null);
+      return;
+    }
+    const confirmed = await alerts.showConfirm('Discard Changes', 'Close the editor without saving?', 'Discard');
+    if (confirmed) {
+      setTemplateDraft(null);
+    }
+  };
+
+  const openFieldDraft = (field: ScoutingField | null, index: number | null) => {
+    if (!field) {
+      setFieldDraft(EMPTY_FIELD_DRAFT);
+      return;
+    }
+    setFieldDraft({
+      index,
+      label: field.label,
+      type: field.type,
+      description: field.description || '',
+      min: (field.min ?? 0).toString(),
+      max: field.max !== undefined ? field.max.toString() : '',
+      options: (field.options || []).map(option => option.label).join(', '),
+      scale: field.scale ?? DEFAULT_RATING_SCALE,
+      lowerIsBetter: !!field.lowerIsBetter,
+    });
+  };
+
+  const handleSaveField = () => {
+    if (!templateDraft || !fieldDraft) return;
+
+    const label = fieldDraft.label.trim();
+    if (!label) {
+      alerts.showAlert('Label Required', 'Please enter a label for this field.');
+      return;
+    }
+
+    const existing = fieldDraft.index !== null ? templateDraft.fields[fieldDraft.index] : undefined;
+    const otherIds = templateDraft.fields.filter(field => field !== existing).map(field => field.id);
+    const field: ScoutingField = {
+      // Keep the ID of an existing field so saved responses still line up
+      id: existing?.id ?? generateFieldId(label, otherIds),
+      label,
+      type: fieldDraft.type,
+    };
+    if (fieldDraft.description.trim()) {
+      field.description = fieldDraft.description.trim();
+    }
+
+    if (fieldDraft.type === 'number') {
+      const min = parseInt(fieldDraft.min, 10);
+      const max = parseInt(fieldDraft.max, 10);
+      field.min = isNaN(min) ? 0 : min;
+      if (!isNaN(max)) {
+        if (max <= field.min) {
+          alerts.showAlert('Invalid Range', 'The maximum must be greater than the minimum.');
+          return;
+        }
+        field.max = max;
+      }
+    } else if (fieldDraft.type === 'enum') {
+      const labels = Array.from(new Set(fieldDraft.options.split(',').map(option => option.trim()).filter(Boolean)));
+      if (labels.length < 2) {
+        alerts.showAlert('Options Required', 'Enter at least two options, separated by commas.');
+        return;
+      }
+      const optionIds: string[] = [];
+      field.options = labels.map(optionLabel => {
+        const id = existing?.options?.find(option => option.label === optionLabel)?.id
+          ?? generateFieldId(optionLabel, optionIds);
+        optionIds.push(id);
+        return { id, label: optionLabel };
+      });
+    } else if (fieldDraft.type === 'rating') {
+      field.scale = fieldDraft.scale;
+    }
+
+    if (fieldDraft.type !== 'enum' && fieldDraft.lowerIsBetter) {
+      field.lowerIsBetter = true;
+    }
+
+    const fields = [...templateDraft.fields];
+    if (fieldDraft.index !== null) {
+      fields[fieldDraft.index] = field;
+    } else {
+      fields.push(field);
+    }
+    setTemplateDraft({ ...templateDraft, fields });
+    setFieldDraft(null);
+  };
+
+  const moveField = (index: number, direction: -1 | 1) => {
+    if (!templateDraft) return;
+    const target = index + direction;
+    if (target < 0 || target >= templateDraft.fields.length) return;
+
+    const fields = [...templateDraft.fields];
+    [fields[index], fields[target]] = [fields[target], fields[index]];
+    setTemplateDraft({ ...templateDraft, fields });
+  };
+
+  const removeField = (index: number) => {
+    if (!templateDraft) return;
+    setTemplateDraft({ ...templateDraft, fields: templateDraft.fields.filter((_, i) => i !== index) });
+  };
+
+  const renderTemplateCard = (template: ScoutingTemplate) => {
+    const isActive = template.id === activeTemplate?.id;
+
+    return (
+      <TouchableOpacity
+        key={template.id}
+        style={[
+          styles.card,
+          { backgroundColor: settings.cardBackgroundColor, borderColor: isActive ? settings.buttonColor : settings.borderColor },
+        ]}
+        onPress={() => setActiveTemplate(programShortName, template.id)}
+      >
+        <View style={styles.cardHeader}>
+          <Ionicons
+            name={isActive ? 'radio-button-on' : 'radio-button-off'}
+            size={22}
+            color={isActive ? settings.buttonColor : settings.iconColor}
+          />
+          <View style={styles.cardInfo}>
+            <Text style={[styles.cardTitle, { color: settings.textColor }]}>{template.name}</Text>
+            <Text style={[styles.cardMeta, { color: settings.secondaryTextColor }]}>
+              {template.fields.length} field{template.fields.length !== 1 ? 's' : ''} · {template.builtIn ? 'Built-in' : 'Custom'}
+            </Text>
+          </View>
+          <TouchableOpacity style={styles.iconButton} onPress={() => handleDuplicate(template)}>
+            <Ionicons name="copy-outline" size={20} color={settings.iconColor} />
+          </TouchableOpacity>
+          {!template.builtIn && (
+            <>
+              <TouchableOpacity
+                style={styles.iconButton}
+                onPress={() => setTemplateDraft({ id: template.id, name: template.name, fields: template.fields })}
+              >
+                <Ionicons name="create-outline" size={20} color={settings.iconColor} />
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.iconButton} onPress={() => handleDelete(template)}>
+                <Ionicons name="trash-outline" size={20} color={settings.errorColor} />
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+        <Text style={[styles.fieldSummary, { color: settings.secondaryTextColor }]} numberOfLines={2}>
+          {template.fields.map(field => field.label).join(' · ')}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderFieldEditor = () => {
+    if (!fieldDraft) return null;
+    const inputStyle = [
+      styles.input,
+      { color: settings.textColor, borderColor: settings.borderColor, backgroundColor: settings.backgroundColor },
+    ];
+
+    return (
+      <View style={[styles.card, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.buttonColor }]}>
+        <Text style={[styles.cardTitle, { color: settings.textColor }]}>
+          {fieldDraft.index !== null ? 'Edit Field' : 'New Field'}
+        </Text>
+
+        <Text style={[styles.inputLabel, { color: settings.secondaryTextColor }]}>Label</Text>
+        <TextInput
+          style={inputStyle}
+          value={fieldDraft.label}
+          onChangeText={label => setFieldDraft({ ...fieldDraft, label })}
+          placeholder="e.g. Defense"
+          placeholderTextColor={settings.secondaryTextColor}
+        />
+
+        <Text style={[styles.inputLabel, { color: settings.secondaryTextColor }]}>Type</Text>
+        <View style={styles.chipRow}>
+          {FIELD_TYPES.map(({ type, label, icon }) => {
+            const selected = fieldDraft.type === type;
+            return (
+              <TouchableOpacity
+                key={type}
+                style={[styles.chip, { borderColor: settings.buttonColor }, selected && { backgroundColor: settings.buttonColor }]}
+                onPress={() => setFieldDraft({ ...fieldDraft, type })}
+              >
+                <Ionicons name={icon} size={14} color={selected ? '#fff' : settings.buttonColor} />
+                <Text style={[styles.chipText, { color: selected ? '#fff' : settings.buttonColor }]}>{label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        {fieldDraft.type === 'number' && (
+          <View style={styles.rangeRow}>
+            <View style={styles.rangeInput}>
+              <Text style={[styles.inputLabel, { color: settings.secondaryTextColor }]}>Minimum</Text>
+              <TextInput
+                style={inputStyle}
+                value={fieldDraft.min}
+                onChangeText={min => setFieldDraft({ ...fieldDraft, min })}
+                keyboardType="number-pad"
+              />
+            </View>
+            <View style={styles.rangeInput}>
+              <Text style={[styles.inputLabel, { color: settings.secondaryTextColor }]}>Maximum</Text>
+              <TextInput
+                style={inputStyle}
+                value={fieldDraft.max}
+                onChangeText={max => setFieldDraft({ ...fieldDraft, max })}
+                keyboardType="number-pad"
+                placeholder="No limit"
+                placeholderTextColor={settings.secondaryTextColor}
+              />
+            </View>
+          </View>
+        )}
+
+        {fieldDraft.type === 'enum' && (
+          <>
+            <Text style={[styles.inputLabel, { color: settings.secondaryTextColor }]}>Options (comma separated)</Text>
+            <TextInput
+              style={inputStyle}
+              value={fieldDraft.options}
+              onChangeText={options => setFieldDraft({ ...fieldDraft, options })}
+              placeholder="e.g. None, Attempted, Scored"
+              placeholderTextColor={settings.secondaryTextColor}
+            />
+          </>
+        )}
+
+        {fieldDraft.type === 'rating' && (
+          <>
+            <Text style={[styles.inputLabel, { color: settings.secondaryTextColor }]}>Stars</Text>
+            <View style={styles.chipRow}>
+              {RATING_SCALES.map(scale => {
+                const selected = fieldDraft.scale === scale;
+                return (
+                  <TouchableOpacity
+                    key={scale}
+                    style={[styles.chip, { borderColor: settings.buttonColor }, selected && { backgroundColor: settings.buttonColor }]}
+                    onPress={() => setFieldDraft({ ...fieldDraft, scale })}
+                  >
+                    <Text style={[styles.chipText, { color: selected ? '#fff' : settings.buttonColor }]}>{scale}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </>
+        )}
+
+        <Text style={[styles.inputLabel, { color: settings.secondaryTextColor }]}>Description (optional)</Text>
+        <TextInput
+          style={inputStyle}
+          value={fieldDraft.description}
+          onChangeText={description => setFieldDraft({ ...fieldDraft, description })}
+          placeholder="Shown under the label"
+          placeholderTextColor={settings.secondaryTextColor}
+        />
+
+        {fieldDraft.type !== 'enum' && (
+          <View style={styles.switchRow}>
+            <View style={styles.switchText}>
+              <Text style={[styles.switchLabel, { color: settings.textColor }]}>Lower is better</Text>
+              <Text style={[styles.cardMeta, { color: settings.secondaryTextColor }]}>
+                Trends improve when this goes down (e.g. penalties)
+              </Text>
+            </View>
+            <Switch
+              value={fieldDraft.lowerIsBetter}
+              onValueChange={lowerIsBetter => setFieldDraft({ ...fieldDraft, lowerIsBetter })}
+              trackColor={{ false: settings.switchTrackColorOff, true: settings.buttonColor }}
+              thumbColor={fieldDraft.lowerIsBetter ? settings.switchThumbColorOn : settings.switchThumbColorOff}
+            />
+          </View>
+        )}
+
+        <View style={styles.buttonRow}>
+          <TouchableOpacity
+            style={[styles.secondaryButton, { borderColor: settings.borderColor }]}
+            onPress={() => setFieldDraft(null)}
+          >
+            <Text style={[styles.buttonText, { color: settings.textColor }]}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.primaryButton, { backgroundColor: settings.buttonColor }]} onPress={handleSaveField}>
+            <Text style={[styles.buttonText, { color: '#fff' }]}>{fieldDraft.index !== null ? 'Update Field' : 'Add Field'}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderTemplateEditor = () => {
+    if (!templateDraft) return null;
+
+    return (
+      <Modal
+        visible
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={handleCloseEditor}
+      >
+        <View style={[styles.container, { backgroundColor: settings.backgroundColor }]}>
+          <View style={[styles.modalHeader, { backgroundColor: settings.topBarColor, borderBottomColor: settings.borderColor }]}>
+            <TouchableOpacity onPress={handleCloseEditor} style={styles.modalHeaderButton}>
+              <Text style={[styles.modalHeaderButtonText, { color: settings.topBarContentColor }]}>Cancel</Text>
+            </TouchableOpacity>
+            <Text style={[styles.modalTitle, { color: settings.topBarContentColor }]}>
+              {templateDraft.id ? 'Edit Template' : 'New Template'}
+            </Text>
+            <TouchableOpacity onPress={handleSaveTemplate} style={styles.modalHeaderButton} disabled={!!fieldDraft}>
+              <Text style={[
+                styles.modalHeaderButtonText,
+                { color: settings.topBarContentColor, fontWeight: '700', opacity: fieldDraft ? 0.4 : 1 },
+              ]}>
+                Save
+              </Text>
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+            <Text style={[styles.inputLabel, { color: settings.secondaryTextColor }]}>Template Name</Text>
+            <TextInput
+              style={[
+                styles.input,
+                { color: settings.textColor, borderColor: settings.borderColor, backgroundColor: settings.cardBackgroundColor },
+              ]}
+              value={templateDraft.name}
+              onChangeText={name => setTemplateDraft({ ...templateDraft, name })}
+              placeholder="e.g. Worlds Scouting"
+              placeholderTextColor={settings.secondaryTextColor}
+            />
+
+            <Text style={[styles.sectionTitle, { color: settings.textColor }]}>Fields</Text>
+            {templateDraft.fields.length === 0 && !fieldDraft && (
+              <Text style={[styles.emptyText, { color: settings.secondaryTextColor }]}>No fields yet.</Text>
+            )}
+            {templateDraft.fields.map((field, index) => (
+              <View
+                key={field.id}
+                style={[styles.fieldRow, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor }]}
+              >
+                <View style={styles.cardInfo}>
+                  <Text style={[styles.fieldLabel, { color: settings.textColor }]}>{field.label}</Text>
+                  <Text style={[styles.cardMeta, { color: settings.secondaryTextColor }]} numberOfLines={1}>
+                    {describeField(field)}{field.lowerIsBetter ? ' · lower is better' : ''}
+                  </Text>
+                </View>
+                <TouchableOpacity style={styles.iconButton} onPress={() => moveField(index, -1)} disabled={index === 0}>
+                  <Ionicons name="arrow-up" size={18} color={index === 0 ? settings.borderColor : settings.iconColor} />
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={styles.iconButton}
+                  onPress={() => moveField(index, 1)}
+                  disabled={index === templateDraft.fields.length - 1}
+                >
+                  <Ionicons
+                    name="arrow-down"
+                    size={18}
+                    color={index === templateDraft.fields.length - 1 ? settings.borderColor : settings.iconColor}
+                  />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.iconButton} onPress={() => openFieldDraft(field, index)}>
+                  <Ionicons name="create-outline" size={18} color={settings.iconColor} />
+                </TouchableOpacity>
+                <TouchableOpacity style={styles.iconButton} onPress={() => removeField(index)}>
+                  <Ionicons name="trash-outline" size={18} color={settings.errorColor} />
+                </TouchableOpacity>
+              </View>
+            ))}
+
+            {fieldDraft ? renderFieldEditor() : (
+              <TouchableOpacity
+                style={[styles.addFieldButton, { borderColor: settings.buttonColor }]}
+                onPress={() => openFieldDraft(null, null)}
+              >
+                <Ionicons name="add-circle-outline" size={20} color={settings.buttonColor} />
+                <Text style={[styles.buttonText, { color: settings.buttonColor }]}>Add Field</Text>
+              </TouchableOpacity>
+            )}
+          </ScrollView>
+        </View>
+      </Modal>
+    );
+  };
+
+  return (
+    <View style={[styles.container, { backgroundColor: settings.backgroundColor }]}>
+      <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+        <Text style={[styles.hint, { color: settings.secondaryTextColor }]}>
+          The selected template is used for new {programShortName} match notes. Notes keep the template they were
+          started with.
+        </Text>
+        {templates.length === 0 ? (
+          <Text style={[styles.emptyText, { color: settings.secondaryTextColor }]}>
+            No templates for {programShortName} yet. Tap + to create one.
+          </Text>
+        ) : (
+          templates.map(renderTemplateCard)
+        )}
+      </ScrollView>
+      {renderTemplateEditor()}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  headerButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: 16,
+  },
+  hint: {
+    fontSize: 13,
+    lineHeight: 18,
+    marginBottom: 16,
+  },
+  card: {
+    borderRadius: 12,
+    borderWidth: 1,
+    padding: 14,
+    marginBottom: 12,
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+  },
+  cardInfo: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  cardMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  fieldSummary: {
+    fontSize: 13,
+    marginTop: 8,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 8,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+  },
+  modalHeaderButton: {
+    padding: 8,
+    minWidth: 64,
+  },
+  modalHeaderButtonText: {
+    fontSize: 16,
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    marginTop: 20,
+    marginBottom: 10,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 10,
+    borderWidth: 1,
+    paddingLeft: 12,
+    paddingRight: 4,
+    paddingVertical: 8,
+    marginBottom: 8,
+  },
+  fieldLabel: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  inputLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 12,
+    marginBottom: 6,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  rangeInput: {
+    flex: 1,
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 16,
+  },
+  switchText: {
+    flex: 1,
+    marginRight: 12,
+  },
+  switchLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+    marginTop: 16,
+  },
+  primaryButton: {
+    flex: 1,
+    borderRadius: 10,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  secondaryButton: {
+    flex: 1,
+    borderRadius: 10,
+    borderWidth: 1,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  addFieldButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderRadius: 10,
+    paddingVertical: 12,
+    marginTop: 4,
+  },
+  emptyText: {
+    fontSize: 14,
+    textAlign: 'center',
+    marginVertical: 16,
+  },
+});
+
+export default ScoutingTemplatesScreen;
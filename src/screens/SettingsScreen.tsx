@@ -15,6 +15,7 @@
  * - Developer mode and debug features
  * - App version and build information
  * - Data cache management
+ * - Backup and restore of app data for moving to a new device
  */
 
 import React, { useState, useEffect, useRef, useMemo } from 'react';
@@ -44,10 +45,28 @@ import NotesManagementModal from '../components/NotesManagementModal';
 import DevInfoModal from '../components/DevInfoModal';
 import ColorOverrideModal from '../components/ColorOverrideModal';
 import DeveloperModeDisableModal from '../components/DeveloperModeDisableModal';
+import BackupRestoreModal from '../components/BackupRestoreModal';
 import { robotEventsAPI } from '../services/apiRouter';
+import { fixtureEventsAPI } from '../services/fixtureEventsAPI';
 import * as Application from 'expo-application';
+import * as DocumentPicker from 'expo-document-picker';
+import * as FileSystem from 'expo-file-system';
 import { getProgramId, PROGRAM_CONFIGS, getAllProgramNames, isProgramLimitedMode, getProgramConfig } from '../utils/programMappings';
-import { alerts } from '../utils/webCompatibility';
+import { alerts, device, isWeb } from '../utils/webCompatibility';
+import { DataExporter } from '../utils/dataExporter';
+import {
+  AppBackup,
+  BackupError,
+  BackupSectionId,
+  createBackup,
+  describeBackup,
+  getBackupFileName,
+  getBackupSections,
+  parseBackup,
+  restoreBackup,
+  serializeBackup,
+} from '../utils/appBackup';
+import { localNotifications } from '../utils/notifications';
 
 interface SettingsScreenProps {
   onShowWelcome?: () => void;
@@ -68,6 +87,11 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onShowWelcome, navigati
   const [showDevInfoModal, setShowDevInfoModal] = useState(false);
   const [showColorOverrideModal, setShowColorOverrideModal] = useState(false);
   const [showDeveloperModeDisableModal, setShowDeveloperModeDisableModal] = useState(false);
+  const [backupModalMode, setBackupModalMode] = useState<'backup' | 'restore' | null>(null);
+  const [pendingBackup, setPendingBackup] = useState<AppBackup | null>(null);
+  const [isBackupWorking, setIsBackupWorking] = useState(false);
+  // Edited locally and applied on blur/submit - changing the URL clears the response cache
+  const [mockServerUrlDraft, setMockServerUrlDraft] = useState(settings.devMockServerUrl);
   const scrollViewRef = useRef<ScrollView>(null);
 
   // Check if current program supports TrueSkill
@@ -88,6 +112,19 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onShowWelcome, navigati
   // Check if the selected program is in limited mode
   const isLimitedMode = isProgramLimitedMode(selectedProgram);
 
+  // Pick up the saved URL once settings finish loading from storage
+  useEffect(() => {
+    setMockServerUrlDraft(settings.devMockServerUrl);
+  }, [settings.devMockServerUrl]);
+
+  const applyMockServerUrl = () => {
+    const url = mockServerUrlDraft.trim();
+    setMockServerUrlDraft(url);
+    if (url !== settings.devMockServerUrl) {
+      settings.setDevMockServerUrl(url);
+    }
+  };
+
   // Format season options
   const formatSeasonOption = (raw: string) => {
     // Return the full season name without any shortening
@@ -183,6 +220,86 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onShowWelcome, navigati
     );
   };
 
+  const handleLiveEventAlertsChange = async (enabled: boolean) => {
+    if (enabled) {
+      const granted = await localNotifications.requestPermission();
+      if (!granted) {
+        alerts.showAlert('Notifications Disabled', 'Allow notifications for RoboNexus in your device settings to get live event alerts.');
+        return;
+      }
+    }
+    settings.setLiveEventAlertsEnabled(enabled);
+  };
+
+  const backupSections = useMemo(() => getBackupSections(), []);
+  const pendingBackupSections = useMemo(() => (pendingBackup ? describeBackup(pendingBackup) : []), [pendingBackup]);
+
+  const handleCreateBackup = async (sectionIds: BackupSectionId[]) => {
+    setIsBackupWorking(true);
+    try {
+      const backup = await createBackup(sectionIds);
+      await DataExporter.shareBackupData(serializeBackup(backup), getBackupFileName());
+      setBackupModalMode(null);
+    } catch (error) {
+      logger.error('Failed to create backup:', error);
+      alerts.showAlert('Backup Failed', error instanceof Error ? error.message : 'The backup could not be created.');
+    } finally {
+      setIsBackupWorking(false);
+    }
+  };
+
+  const handleOpenBackupFile = async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/json', 'text/plain', '*/*'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets?.[0]) return;
+
+      const asset = result.assets[0];
+      const text = isWeb && asset.file
+        ? await asset.file.text()
+        : await new FileSystem.File(asset.uri).text();
+      const backup = parseBackup(text);
+      if (describeBackup(backup).length === 0) {
+        alerts.showAlert('Nothing to Restore', 'This backup does not contain any data.');
+        return;
+      }
+      setPendingBackup(backup);
+      setBackupModalMode('restore');
+    } catch (error) {
+      logger.error('Failed to open backup:', error);
+      alerts.showAlert('Cannot Restore', error instanceof BackupError ? error.message : 'The backup file could not be read.');
+    }
+  };
+
+  const handleRestoreBackup = async (sectionIds: BackupSectionId[]) => {
+    if (!pendingBackup) return;
+    const labels = pendingBackupSections
+      .filter(section => sectionIds.includes(section.id))
+      .map(section => section.label)
+      .join(', ');
+    const confirmed = await alerts.showDestructiveConfirm(
+      'Restore Backup',
+      `Replace ${labels} on this device with the backup? This cannot be undone.`,
+      'Restore'
+    );
+    if (!confirmed) return;
+
+    setIsBackupWorking(true);
+    try {
+      await restoreBackup(pendingBackup, sectionIds);
+      setBackupModalMode(null);
+      setPendingBackup(null);
+      alerts.showAlert('Backup Restored', `Restored ${labels}.`);
+    } catch (error) {
+      logger.error('Failed to restore backup:', error);
+      alerts.showAlert('Restore Failed', 'Some data could not be restored. Please try again.');
+    } finally {
+      setIsBackupWorking(false);
+    }
+  };
+
   const handleApplyChanges = () => {
     Alert.alert(
       'Apply Changes',
@@ -479,6 +596,65 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onShowWelcome, navigati
             />
           </View>
         )}
+
+        {/* Match Predictions Toggle */}
+        <View style={[styles.optionRow, { backgroundColor: settings.cardBackgroundColor, borderBottomColor: settings.borderColor }]}>
+          <View style={styles.optionTextContainer}>
+            <Text style={[styles.optionText, { color: settings.textColor }]}>Match Predictions</Text>
+            <Text style={[styles.optionSubtext, { color: settings.secondaryTextColor }]}>
+              Show win chances for upcoming matches, calculated from OPR and match results
+            </Text>
+          </View>
+          <Switch
+            value={settings.matchPredictionsEnabled}
+            onValueChange={settings.setMatchPredictionsEnabled}
+            trackColor={{ false: settings.switchTrackColorOff, true: settings.buttonColor }}
+            thumbColor={settings.matchPredictionsEnabled ? settings.switchThumbColorOn : settings.switchThumbColorOff}
+          />
+        </View>
+
+        {/* Live Event Alerts - local notifications are not available on web */}
+        {device.supportsNotifications && (
+          <View style={[styles.optionRow, { backgroundColor: settings.cardBackgroundColor, borderBottomColor: settings.borderColor }]}>
+            <View style={styles.optionTextContainer}>
+              <Text style={[styles.optionText, { color: settings.textColor }]}>Live Event Alerts</Text>
+              <Text style={[styles.optionSubtext, { color: settings.secondaryTextColor }]}>
+                Notify about upcoming matches, scores, rank changes and awards for favorite teams at live events. While the app is closed, only match reminders are sent, timed from the schedule; other alerts arrive when you reopen the app
+              </Text>
+            </View>
+            <Switch
+              value={settings.liveEventAlertsEnabled}
+              onValueChange={handleLiveEventAlertsChange}
+              trackColor={{ false: settings.switchTrackColorOff, true: settings.buttonColor }}
+              thumbColor={settings.liveEventAlertsEnabled ? settings.switchThumbColorOn : settings.switchThumbColorOff}
+            />
+          </View>
+        )}
+        {device.supportsNotifications && settings.liveEventAlertsEnabled && (
+          <View style={[styles.optionRow, { backgroundColor: settings.cardBackgroundColor, borderBottomColor: settings.borderColor }]}>
+            <View style={styles.optionTextContainer}>
+              <Text style={[styles.optionText, { color: settings.textColor }]}>Match Reminder</Text>
+              <Text style={[styles.optionSubtext, { color: settings.secondaryTextColor }]}>
+                Alert when a favorite team is {settings.liveEventAlertMatches} {settings.liveEventAlertMatches === 1 ? 'match' : 'matches'} away
+              </Text>
+            </View>
+            <View style={styles.stepperContainer}>
+              <TouchableOpacity
+                style={[styles.stepperButton, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor, borderWidth: 1 }]}
+                onPress={() => settings.setLiveEventAlertMatches(Math.max(0, settings.liveEventAlertMatches - 1))}
+              >
+                <Ionicons name="remove" size={18} color={settings.buttonColor} />
+              </TouchableOpacity>
+              <Text style={[styles.stepperValue, { color: settings.textColor }]}>{settings.liveEventAlertMatches}</Text>
+              <TouchableOpacity
+                style={[styles.stepperButton, { backgroundColor: settings.cardBackgroundColor, borderColor: settings.borderColor, borderWidth: 1 }]}
+                onPress={() => settings.setLiveEventAlertMatches(Math.min(10, settings.liveEventAlertMatches + 1))}
+              >
+                <Ionicons name="add" size={18} color={settings.buttonColor} />
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
       </View>
 
       {/* Notes */}
@@ -489,12 +665,32 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onShowWelcome, navigati
       }]}>
         <Text style={[styles.sectionTitle, { color: settings.secondaryTextColor }]}>Notes</Text>
         <TouchableOpacity
-          style={[styles.optionRow, styles.lastOptionRow, { backgroundColor: settings.cardBackgroundColor }]}
+          style={[styles.optionRow, { backgroundColor: settings.cardBackgroundColor, borderBottomColor: settings.borderColor }]}
           onPress={() => setShowNotesModal(true)}
         >
           <View style={styles.optionTextContainer}>
             <Text style={[styles.optionText, { color: settings.textColor }]}>Manage Notes</Text>
-            <Text style={[styles.optionSubtext, { color: settings.secondaryTextColor }]}>View and delete individual notes by team or event</Text>
+            <Text style={[styles.optionSubtext, { color: settings.secondaryTextColor }]}>View and delete notes, and review scouting summaries</Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color={settings.iconColor} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.optionRow, { backgroundColor: settings.cardBackgroundColor, borderBottomColor: settings.borderColor }]}
+          onPress={() => navigation?.navigate('ScoutingTemplates')}
+        >
+          <View style={styles.optionTextContainer}>
+            <Text style={[styles.optionText, { color: settings.textColor }]}>Scouting Templates</Text>
+            <Text style={[styles.optionSubtext, { color: settings.secondaryTextColor }]}>Choose or customize the scouting form used in match notes</Text>
+          </View>
+          <Ionicons name="chevron-forward" size={20} color={settings.iconColor} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.optionRow, styles.lastOptionRow, { backgroundColor: settings.cardBackgroundColor }]}
+          onPress={() => navigation?.navigate('ScoutingSync')}
+        >
+          <View style={styles.optionTextContainer}>
+            <Text style={[styles.optionText, { color: settings.textColor }]}>Share Scouting Data</Text>
+            <Text style={[styles.optionSubtext, { color: settings.secondaryTextColor }]}>Sync notes, favorites and templates with teammates by QR code or file</Text>
           </View>
           <Ionicons name="chevron-forward" size={20} color={settings.iconColor} />
         </TouchableOpacity>
@@ -569,6 +765,35 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onShowWelcome, navigati
         </View>
       </View>
 
+      {/* Backup & Restore */}
+      <View style={[styles.section, {
+        backgroundColor: settings.cardBackgroundColor,
+        borderTopColor: settings.borderColor,
+        borderBottomColor: settings.borderColor
+      }]}>
+        <Text style={[styles.sectionTitle, { color: settings.secondaryTextColor }]}>Backup & Restore</Text>
+        <TouchableOpacity
+          style={[styles.optionRow, { backgroundColor: settings.cardBackgroundColor, borderBottomColor: settings.borderColor }]}
+          onPress={() => setBackupModalMode('backup')}
+        >
+          <View style={styles.optionTextContainer}>
+            <Text style={[styles.optionText, { color: settings.textColor }]}>Back Up App Data</Text>
+            <Text style={[styles.optionSubtext, { color: settings.secondaryTextColor }]}>Save settings, favorites, notes and more to a file for a new device</Text>
+          </View>
+          <Ionicons name="cloud-upload-outline" size={20} color={settings.iconColor} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.optionRow, styles.lastOptionRow, { backgroundColor: settings.cardBackgroundColor }]}
+          onPress={handleOpenBackupFile}
+        >
+          <View style={styles.optionTextContainer}>
+            <Text style={[styles.optionText, { color: settings.textColor }]}>Restore From Backup</Text>
+            <Text style={[styles.optionSubtext, { color: settings.secondaryTextColor }]}>Open a backup file and choose what to restore</Text>
+          </View>
+          <Ionicons name="cloud-download-outline" size={20} color={settings.iconColor} />
+        </TouchableOpacity>
+      </View>
+
       {/* Danger */}
       <View style={[styles.section, {
         backgroundColor: settings.cardBackgroundColor,
@@ -803,6 +1028,64 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onShowWelcome, navigati
               </View>
             </View>
 
+            {/* Fixture Data Toggle */}
+            <View style={[styles.optionRow, { backgroundColor: settings.cardBackgroundColor, borderBottomColor: settings.borderColor }]}>
+              <View style={styles.optionTextContainer}>
+                <Text style={[styles.optionText, { color: settings.textColor }]}>Fixture Data</Text>
+                <Text style={[styles.optionSubtext, { color: settings.secondaryTextColor }]}>
+                  Serve a bundled recorded event (ID {fixtureEventsAPI.getFixtureEventIds().join(', ')}) instead of live API data. With Live Event Simulation on, its matches are scored over time
+                </Text>
+              </View>
+              <Switch
+                value={settings.devFixtureMode}
+                onValueChange={settings.setDevFixtureMode}
+                trackColor={{ false: settings.switchTrackColorOff, true: settings.buttonColor }}
+                thumbColor={settings.devFixtureMode ? settings.switchThumbColorOn : settings.switchThumbColorOff}
+              />
+            </View>
+
+            {/* Mock Server URL Input */}
+            <View style={[styles.optionRow, { backgroundColor: settings.cardBackgroundColor, borderBottomColor: settings.borderColor, flexDirection: 'column', alignItems: 'stretch' }]}>
+              <View style={styles.optionTextContainer}>
+                <Text style={[styles.optionText, { color: settings.textColor }]}>Mock Server URL</Text>
+                <Text style={[styles.optionSubtext, { color: settings.secondaryTextColor }]}>
+                  Send API requests to a local mock server (npm run mock-server) instead of RobotEvents (leave empty to use the real API)
+                </Text>
+              </View>
+              <View style={{ position: 'relative', marginTop: 8 }}>
+                <TextInput
+                  style={[styles.textInput, {
+                    backgroundColor: settings.backgroundColor,
+                    color: settings.textColor,
+                    borderColor: settings.borderColor,
+                    paddingRight: mockServerUrlDraft.length > 0 ? 40 : 16
+                  }]}
+                  placeholder="http://192.168.1.10:4010"
+                  placeholderTextColor={settings.secondaryTextColor}
+                  value={mockServerUrlDraft}
+                  onChangeText={setMockServerUrlDraft}
+                  onBlur={applyMockServerUrl}
+                  onSubmitEditing={applyMockServerUrl}
+                  returnKeyType="done"
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  keyboardType="url"
+                />
+                {mockServerUrlDraft.length > 0 && (
+                  <TouchableOpacity
+                    onPress={() => {
+                      setMockServerUrlDraft('');
+                      settings.setDevMockServerUrl('');
+                    }}
+                    style={styles.clearButtonInInput}
+                    hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+                  >
+                    <Ionicons name="close-circle" size={20} color={settings.secondaryTextColor} />
+                  </TouchableOpacity>
+                )}
+              </View>
+            </View>
+
             {/* Developer Tab Toggle */}
             <View style={[styles.optionRow, { backgroundColor: settings.cardBackgroundColor, borderBottomColor: settings.borderColor }]}>
               <View style={styles.optionTextContainer}>
@@ -953,6 +1236,20 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ onShowWelcome, navigati
         onClose={() => setShowDevInfoModal(false)}
       />
 
+      {/* Backup & Restore Modal */}
+      <BackupRestoreModal
+        visible={backupModalMode !== null}
+        mode={backupModalMode || 'backup'}
+        sections={backupModalMode === 'restore' ? pendingBackupSections : backupSections}
+        createdAt={pendingBackup?.createdAt}
+        isWorking={isBackupWorking}
+        onClose={() => {
+          setBackupModalMode(null);
+          setPendingBackup(null);
+        }}
+        onConfirm={backupModalMode === 'restore' ? handleRestoreBackup : handleCreateBackup}
+      />
+
       {/* Color Override Modal */}
       <ColorOverrideModal
         visible={showColorOverrideModal}
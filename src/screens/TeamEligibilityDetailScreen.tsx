@@ -17,26 +17,41 @@
  * - Program-specific award requirements and thresholds
  * - Dynamic labeling for different competition types
  * - Color-coded requirement status with detailed explanations
+ * - Game manual rule citations for each requirement (season-versioned)
+ * - What-if simulator for hypothetical skills scores and qualifier ranks
  */
-import React from 'react';
-import { View, Text, ScrollView, StyleSheet, SafeAreaView } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { View, Text, ScrollView, StyleSheet, SafeAreaView, TouchableOpacity } from 'react-native';
 import { StackScreenProps } from '@react-navigation/stack';
-import { TeamSkills, RobotProgram, ProgramRules, PROGRAM_CONFIGS } from '../utils/eligibility/types';
+import { TeamSkills, EligibilityReason } from '../utils/eligibility/types';
 import { getDynamicLabel } from '../utils/eligibility/common';
+import { getEligibilityResult } from '../utils/eligibility/eligibilityCalculator';
+import { EligibilityRuleSet } from '../utils/eligibility/ruleSets';
+import { EligibilitySimulationInput } from '../utils/eligibility/whatIfSimulator';
+import EligibilitySimulator from '../components/EligibilitySimulator';
+import { gameManualService } from '../services/gameManualService';
+import { GameManual } from '../types/gameManual';
 import { Ionicons } from '@expo/vector-icons';
 import { useSettings } from '../contexts/SettingsContext';
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('TeamEligibilityDetailScreen');
 
 interface TeamEligibilityDetailParams {
   teamSkills: TeamSkills;
-  selectedProgram: RobotProgram;
-  programRules: ProgramRules;
+  ruleSet: EligibilityRuleSet;
+  simulationInput?: EligibilitySimulationInput | null;
   fromModal?: boolean;
 }
 
+// Strip the manual's {{BOLD}}/{{ITALIC}} formatting markers for plain display
+const stripRuleMarkers = (text: string): string => text.replace(/\{\{[^}]+\}\}/g, '').trim();
+
 type Props = StackScreenProps<{ TeamEligibilityDetail: TeamEligibilityDetailParams }, 'TeamEligibilityDetail'>;
 
 export const TeamEligibilityDetailScreen = ({ route, navigation }: Props) => {
-  const { teamSkills, selectedProgram, programRules, fromModal } = route.params;
+  const { teamSkills, ruleSet, simulationInput } = route.params;
+  const programRules = ruleSet.eligibility;
   const settings = useSettings();
   const {
     backgroundColor,
@@ -47,11 +62,30 @@ export const TeamEligibilityDetailScreen = ({ route, navigation }: Props) => {
     borderColor,
   } = settings;
   const team = teamSkills.team;
-  const programConfig = PROGRAM_CONFIGS[selectedProgram];
+  const [manual, setManual] = useState<GameManual | null>(null);
+  const [expandedRuleId, setExpandedRuleId] = useState<string | null>(null);
+
+  // Load the season's manual so requirement citations can show the rule text
+  useEffect(() => {
+    if (!ruleSet.season || Object.keys(ruleSet.citations).length === 0) {
+      return;
+    }
+
+    let cancelled = false;
+    gameManualService.getManual(ruleSet.program, ruleSet.season)
+      .then(loadedManual => {
+        if (!cancelled) setManual(loadedManual);
+      })
+      .catch(error => logger.error('Failed to load game manual for rule citations:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [ruleSet]);
 
   React.useLayoutEffect(() => {
     navigation.setOptions({
-      title: `${team.number} - ${programConfig?.awardName || 'Eligibility'}`,
+      title: `${team.number} - ${programRules.awardName}`,
       headerStyle: {
         backgroundColor: settings.topBarColor,
       },
@@ -62,12 +96,14 @@ export const TeamEligibilityDetailScreen = ({ route, navigation }: Props) => {
         color: settings.topBarContentColor,
       },
     });
-  }, [navigation, team.number, programConfig, settings.topBarColor, settings.topBarContentColor]);
+  }, [navigation, team.number, programRules, settings.topBarColor, settings.topBarContentColor]);
 
   const formatRank = (rank: number): string => {
     return rank < 0 ? 'N/A' : `#${rank}`;
   };
 
+  const result = getEligibilityResult(teamSkills, ruleSet);
+
   const formatScore = (score: number, attempts: number): string => {
     return `${score} (${attempts} attempts)`;
   };
@@ -142,24 +178,51 @@ export const TeamEligibilityDetailScreen = ({ route, navigation }: Props) => {
     </View>
   );
 
-  const buildRequirementRow = (requirement: string, met: boolean, details?: string, index?: number) => (
+  const buildRuleCitation = (ruleId: string) => {
+    const rule = manual ? gameManualService.getRuleById(manual, ruleId) : null;
+    if (!rule) return null;
+
+    const isExpanded = expandedRuleId === ruleId;
+    const ruleText = stripRuleMarkers(rule.fullText || rule.description);
+
+    return (
+      <TouchableOpacity
+        style={[styles.ruleCitation, { borderLeftColor: settings.buttonColor }]}
+        onPress={() => setExpandedRuleId(isExpanded ? null : ruleId)}
+        activeOpacity={0.7}
+      >
+        <Text style={[styles.ruleCitationTitle, { color: settings.buttonColor }]}>
+          {rule.rule} {rule.title}
+        </Text>
+        <Text
+          style={[styles.ruleCitationText, { color: secondaryTextColor }]}
+          numberOfLines={isExpanded ? undefined : 3}
+        >
+          {ruleText}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const buildRequirementRow = (reason: EligibilityReason, index: number) => (
     <View style={dynamicStyles.requirementRow} key={index}>
       <Ionicons
-        name={met ? "checkmark-circle" : "close-circle"}
+        name={reason.met ? "checkmark-circle" : "close-circle"}
         size={20}
-        color={met ? settings.successColor : settings.errorColor}
+        color={reason.met ? settings.successColor : settings.errorColor}
         style={styles.requirementIcon}
       />
       <View style={styles.requirementText}>
         <Text style={[
           styles.requirementLabel,
-          { color: met ? settings.successColor : settings.errorColor }
+          { color: reason.met ? settings.successColor : settings.errorColor }
         ]}>
-          {requirement}
+          {reason.label}
         </Text>
-        {details && (
-          <Text style={dynamicStyles.requirementDetails}>{details}</Text>
-        )}
+        {reason.details ? (
+          <Text style={dynamicStyles.requirementDetails}>{reason.details}</Text>
+        ) : null}
+        {reason.ruleId && buildRuleCitation(reason.ruleId)}
       </View>
     </View>
   );
@@ -171,67 +234,6 @@ export const TeamEligibilityDetailScreen = ({ route, navigation }: Props) => {
   if (team.location?.country) locationParts.push(team.location.country);
   const locationString = locationParts.join(', ');
 
-  // Calculate requirement details
-  const requirements = [];
-
-  // Qualifier rank requirement
-  const qualMet = teamSkills.inRank;
-  const qualDetail = teamSkills.qualifierRankCutoff > 0
-    ? `Rank: ${formatRank(teamSkills.qualifierRank)} (cutoff: #${teamSkills.qualifierRankCutoff})`
-    : `Rank: ${formatRank(teamSkills.qualifierRank)}`;
-  requirements.push({
-    label: `Top ${(programRules.threshold * 100).toFixed(0)}% of qualification rankings`,
-    met: qualMet,
-    details: qualDetail
-  });
-
-  // Skills rank requirement
-  const skillsMet = teamSkills.inSkill;
-  const skillsDetail = teamSkills.skillsRankCutoff > 0
-    ? `Rank: ${formatRank(teamSkills.skillsRank)} (cutoff: #${teamSkills.skillsRankCutoff})`
-    : `Rank: ${formatRank(teamSkills.skillsRank)}`;
-  requirements.push({
-    label: `Top ${(programRules.threshold * 100).toFixed(0)}% of combined skills rankings`,
-    met: skillsMet,
-    details: skillsDetail
-  });
-
-  // Programming requirement
-  if (programRules.requiresProgrammingSkills) {
-    const progMet = teamSkills.programmingScore > 0;
-    const progLabel = getDynamicLabel(selectedProgram, 'Programming');
-    requirements.push({
-      label: `${progLabel} score above zero required`,
-      met: progMet,
-      details: formatScore(teamSkills.programmingScore, teamSkills.programmingAttempts)
-    });
-  }
-
-  // Driver requirement
-  if (programRules.requiresDriverSkills) {
-    const driverMet = teamSkills.driverScore > 0;
-    const driverLabel = getDynamicLabel(selectedProgram, 'Driver');
-    requirements.push({
-      label: `${driverLabel} score above zero required`,
-      met: driverMet,
-      details: formatScore(teamSkills.driverScore, teamSkills.driverAttempts)
-    });
-  }
-
-  // Programming-only rank requirement
-  if (programRules.requiresRankInPositiveProgrammingSkills) {
-    const progOnlyMet = teamSkills.meetsProgrammingOnlyRankCriterion;
-    const progLabel = getDynamicLabel(selectedProgram, 'Programming');
-    const progOnlyDetail = teamSkills.programmingOnlyRankCutoff > 0
-      ? `Rank: ${formatRank(teamSkills.programmingOnlyRank)} (cutoff: #${teamSkills.programmingOnlyRankCutoff})`
-      : `Rank: ${formatRank(teamSkills.programmingOnlyRank)}`;
-    requirements.push({
-      label: `Top ${(programRules.programmingSkillsRankThreshold * 100).toFixed(0)}% of ${progLabel.toLowerCase()}-only rankings`,
-      met: progOnlyMet,
-      details: progOnlyDetail
-    });
-  }
-
   return (
     <SafeAreaView style={[styles.container, { backgroundColor: settings.backgroundColor }]}>
       <ScrollView style={styles.scrollView} contentContainerStyle={styles.contentContainer}>
@@ -294,18 +296,18 @@ export const TeamEligibilityDetailScreen = ({ route, navigation }: Props) => {
               teamSkills.inSkill
             )}
             {buildInfoRow(
-              getDynamicLabel(selectedProgram, 'Programming'),
+              getDynamicLabel(programRules, 'Programming'),
               formatScore(teamSkills.programmingScore, teamSkills.programmingAttempts),
               teamSkills.programmingScore > 0
             )}
             {buildInfoRow(
-              getDynamicLabel(selectedProgram, 'Driver'),
+              getDynamicLabel(programRules, 'Driver'),
               formatScore(teamSkills.driverScore, teamSkills.driverAttempts),
               teamSkills.driverScore > 0
             )}
             {programRules.requiresRankInPositiveProgrammingSkills && (
               buildInfoRow(
-                `${getDynamicLabel(selectedProgram, 'Programming')}-only Rank`,
+                `${getDynamicLabel(programRules, 'Programming')}-only Rank`,
                 formatRank(teamSkills.programmingOnlyRank),
                 teamSkills.meetsProgrammingOnlyRankCriterion
               )
@@ -316,15 +318,18 @@ export const TeamEligibilityDetailScreen = ({ route, navigation }: Props) => {
         {/* Eligibility Requirements */}
         <View style={dynamicStyles.section}>
           <Text style={dynamicStyles.sectionTitle}>
-            {programConfig?.awardName || 'Award'} Requirements
+            {programRules.awardName} Requirements
           </Text>
           <View style={styles.sectionContent}>
-            {requirements.map((req, index) =>
-              buildRequirementRow(req.label, req.met, req.details, index)
-            )}
+            {result.reasons.map((reason, index) => buildRequirementRow(reason, index))}
           </View>
         </View>
 
+        {/* What-If Simulator */}
+        {simulationInput && (
+          <EligibilitySimulator teamSkills={teamSkills} input={simulationInput} />
+        )}
+
         {/* Overall Result */}
         <View style={[
           styles.resultCard,
@@ -341,8 +346,8 @@ export const TeamEligibilityDetailScreen = ({ route, navigation }: Props) => {
               { color: teamSkills.eligible ? settings.successColor : settings.errorColor }
             ]}>
               {teamSkills.eligible
-                ? `Team ${team.number} is eligible for ${programConfig?.awardName || 'the award'}!`
-                : `Team ${team.number} is not eligible for ${programConfig?.awardName || 'the award'}.`
+                ? `Team ${team.number} is eligible for ${programRules.awardName}!`
+                : `Team ${team.number} is not eligible for ${programRules.awardName}.`
               }
             </Text>
           </View>
@@ -476,6 +481,20 @@ const styles = StyleSheet.create({
   requirementDetails: {
     fontSize: 12,
   },
+  ruleCitation: {
+    borderLeftWidth: 3,
+    paddingLeft: 8,
+    marginTop: 6,
+  },
+  ruleCitationTitle: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  ruleCitationText: {
+    fontSize: 12,
+    lineHeight: 16,
+  },
   resultCard: {
     borderRadius: 12,
     padding: 16,
@@ -832,6 +832,7 @@ const TeamInfoScreen = ({ route, navigation }: Props) => {
 
     try {
       logger.debug('Starting pull-to-refresh...');
+      robotEventsAPI.invalidateTeam(team.id);
 
       // Get program and season info for refresh
       const programId = getProgramId(selectedProgram);
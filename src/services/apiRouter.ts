@@ -10,12 +10,18 @@
  *
  * This provides a unified interface that automatically routes requests
  * to the appropriate API service while maintaining complete backward compatibility.
+ *
+ * In developer mode, requests can instead be served from the bundled fixture
+ * corpus (fixtureEventsAPI) or sent to a local mock server via a base URL override.
  */
 
 import { createLogger } from '../utils/logger';
 import { comprehensiveRobotEventsAPI } from './robotEventsApi';
 import { recfEventsAPI } from './recfEventsAPI';
+import { fixtureEventsAPI } from './fixtureEventsAPI';
 import { vrcDataAnalysisAPI } from './vrcDataAnalysisAPI';
+import { responseCache, ResponseCacheInfo } from './responseCache';
+import { RequestOptions } from './requestQueue';
 
 const logger = createLogger('apiRouter');
 import {
@@ -57,6 +63,8 @@ class APIRouter {
   private cacheMisses: number = 0;
   private enableDetailedLogging: boolean = true; // Set to true to enable detailed API call logging
   private enableDetailedErrorLogging: boolean = false; // Set to true to enable detailed error logging with stack traces
+  private fixtureMode: boolean = false; // Developer mode: serve bundled fixture data for every program
+  private mockServerUrl: string | null = null; // Developer mode: base URL of a local mock server
 
   constructor() {
     logger.info('Initialized with default program: VEX V5 Robotics Competition');
@@ -126,9 +134,20 @@ class APIRouter {
   }
 
   /**
-   * Wraps API calls with error logging
+   * Wraps API calls with error logging and the persistent response cache.
+   * Fresh cached responses are returned without a network call; if the network
+   * call fails, the last good response is served as stale data instead.
    */
   private async wrapAPICall<T>(method: string, params: any, apiCall: () => Promise<T>): Promise<T> {
+    await responseCache.ready();
+    const cacheKey = responseCache.buildKey(method, this.selectedProgram, params);
+    const cached = responseCache.get<T>(cacheKey);
+
+    if (cached && responseCache.isFresh(cached)) {
+      responseCache.recordHit(cacheKey, cached);
+      return cached.data;
+    }
+
     try {
       const result = await apiCall();
 
@@ -147,10 +166,27 @@ class APIRouter {
         }
       }
 
+      if (responseCache.isFailedResponse(result)) {
+        // Underlying services swallow network errors and return empty placeholders
+        if (cached) {
+          responseCache.recordStale(cacheKey, cached);
+          return cached.data;
+        }
+        responseCache.recordMiss(cacheKey);
+        return result;
+      }
+
+      responseCache.set(method, this.selectedProgram, params, result);
+      responseCache.recordMiss(cacheKey);
       return result;
     } catch (error: any) {
       // Log the error with full context
       this.logAPIError(method, params, error, error.response);
+
+      if (cached) {
+        responseCache.recordStale(cacheKey, cached);
+        return cached.data;
+      }
       throw error; // Re-throw so normal error handling continues
     }
   }
@@ -196,6 +232,10 @@ class APIRouter {
    * Gets the appropriate API service based on the program (optimized with caching)
    */
   private getAPIService(program?: string) {
+    if (this.fixtureMode) {
+      return fixtureEventsAPI;
+    }
+
     const targetProgram = program || this.selectedProgram;
 
     if (targetProgram !== this.lastCachedProgram) {
@@ -234,12 +274,57 @@ class APIRouter {
     // Set the program on both APIs
     comprehensiveRobotEventsAPI.setSelectedProgram(program);
     recfEventsAPI.setSelectedProgram(program);
+    fixtureEventsAPI.setSelectedProgram(program);
   }
 
   public getSelectedProgram(): string {
     return this.selectedProgram;
   }
 
+  /**
+   * Serve all requests from the bundled fixture corpus instead of the network
+   * (developer mode). With liveSimulation, the fixture event plays out as a live
+   * event with matches being scored over time.
+   */
+  public setFixtureMode(enabled: boolean, liveSimulation: boolean = false): void {
+    const simulate = enabled && liveSimulation;
+    const changed = this.fixtureMode !== enabled || fixtureEventsAPI.isLiveSimulationActive() !== simulate;
+
+    this.fixtureMode = enabled;
+    fixtureEventsAPI.setLiveSimulation(simulate);
+
+    if (changed) {
+      logger.info('Fixture mode', enabled ? 'enabled' : 'disabled', simulate ? '(live simulation)' : '');
+      // Fixture and network responses share cache keys, so start from a clean cache
+      responseCache.clear();
+    }
+  }
+
+  public isFixtureMode(): boolean {
+    return this.fixtureMode;
+  }
+
+  /**
+   * Send RobotEvents/RECF requests to a local mock server (developer mode).
+   * Pass null or an empty string to go back to the production APIs.
+   */
+  public setMockServerUrl(url: string | null): void {
+    const normalized = url && url.trim() ? url.trim().replace(/\/+$/, '') : null;
+    if (normalized === this.mockServerUrl) {
+      return;
+    }
+
+    this.mockServerUrl = normalized;
+    comprehensiveRobotEventsAPI.setBaseUrlOverride(normalized);
+    recfEventsAPI.setBaseUrlOverride(normalized);
+    responseCache.clear();
+    logger.info('Mock server URL set to:', normalized || 'none');
+  }
+
+  public getMockServerUrl(): string | null {
+    return this.mockServerUrl;
+  }
+
   public getApiKeyStatus(): APIKeyStatus {
     const service = this.getAPIService();
     return service.getApiKeyStatus();
@@ -318,10 +403,10 @@ class APIRouter {
   // SEASONS API
   // =============================================================================
 
-  public async getSeasons(filters?: SeasonFilters): Promise<SeasonsResponse> {
+  public async getSeasons(filters?: SeasonFilters, options?: RequestOptions): Promise<SeasonsResponse> {
     return this.wrapAPICall('getSeasons', filters, async () => {
       const service = this.getAPIService();
-      return service.getSeasons(filters);
+      return service.getSeasons(filters, options);
     });
   }
 
@@ -385,17 +470,17 @@ class APIRouter {
     });
   }
 
-  public async getEventDivisionMatches(eventId: number, divisionId: number, filters?: MatchFilters): Promise<MatchesResponse> {
+  public async getEventDivisionMatches(eventId: number, divisionId: number, filters?: MatchFilters, options?: RequestOptions): Promise<MatchesResponse> {
     return this.wrapAPICall('getEventDivisionMatches', { eventId, divisionId, ...filters }, async () => {
       const service = this.getAPIService();
-      return service.getEventDivisionMatches(eventId, divisionId, filters);
+      return service.getEventDivisionMatches(eventId, divisionId, filters, options);
     });
   }
 
-  public async getEventDivisionRankings(eventId: number, divisionId: number, filters?: RankingFilters): Promise<RankingsResponse> {
+  public async getEventDivisionRankings(eventId: number, divisionId: number, filters?: RankingFilters, options?: RequestOptions): Promise<RankingsResponse> {
     return this.wrapAPICall('getEventDivisionRankings', { eventId, divisionId, ...filters }, async () => {
       const service = this.getAPIService();
-      return service.getEventDivisionRankings(eventId, divisionId, filters);
+      return service.getEventDivisionRankings(eventId, divisionId, filters, options);
     });
   }
 
@@ -431,10 +516,10 @@ class APIRouter {
     });
   }
 
-  public async getTeamEvents(teamId: number, filters?: EventFilters): Promise<EventsResponse> {
+  public async getTeamEvents(teamId: number, filters?: EventFilters, options?: RequestOptions): Promise<EventsResponse> {
     return this.wrapAPICall('getTeamEvents', { teamId, ...filters }, async () => {
       const service = this.getAPIService();
-      return service.getTeamEvents(teamId, filters);
+      return service.getTeamEvents(teamId, filters, options);
     });
   }
 
@@ -453,13 +538,17 @@ class APIRouter {
   }
 
   public async getTeamSkills(teamId: number, filters?: SkillFilters): Promise<SkillsResponse> {
-    const service = this.getAPIService();
-    return service.getTeamSkills(teamId, filters);
+    return this.wrapAPICall('getTeamSkills', { teamId, ...filters }, async () => {
+      const service = this.getAPIService();
+      return service.getTeamSkills(teamId, filters);
+    });
   }
 
-  public async getTeamAwards(teamId: number, filters?: AwardFilters): Promise<AwardsResponse> {
-    const service = this.getAPIService();
-    return service.getTeamAwards(teamId, filters);
+  public async getTeamAwards(teamId: number, filters?: AwardFilters, options?: RequestOptions): Promise<AwardsResponse> {
+    return this.wrapAPICall('getTeamAwards', { teamId, ...filters }, async () => {
+      const service = this.getAPIService();
+      return service.getTeamAwards(teamId, filters, options);
+    });
   }
 
   /**
@@ -496,9 +585,42 @@ class APIRouter {
   public clearCache(): void {
     comprehensiveRobotEventsAPI.clearCache();
     recfEventsAPI.clearCache();
+    responseCache.clear();
     logger.info('Cache cleared for both APIs');
   }
 
+  /**
+   * Drop cached responses for an event so the next call goes to the network.
+   * Call before re-fetching on pull-to-refresh.
+   */
+  public invalidateEvent(eventId: number): void {
+    responseCache.invalidateEvent(eventId);
+  }
+
+  /**
+   * Drop cached responses for a team so the next call goes to the network.
+   * Call before re-fetching on pull-to-refresh.
+   */
+  public invalidateTeam(teamId: number): void {
+    responseCache.invalidateTeam(teamId);
+  }
+
+  /**
+   * Get "last updated" information for the most recent response of a call.
+   * Params must match the ones the router passes for that method
+   * (e.g. { eventId, divisionId } for getEventDivisionMatches).
+   */
+  public getLastUpdated(method: string, params?: any): ResponseCacheInfo | null {
+    return responseCache.getInfo(responseCache.buildKey(method, this.selectedProgram, params));
+  }
+
+  /**
+   * Get response cache statistics for developer mode
+   */
+  public getResponseCacheStats() {
+    return responseCache.getStats();
+  }
+
   // =============================================================================
   // CONVENIENCE METHODS (Legacy compatibility)
   // =============================================================================
@@ -528,6 +650,8 @@ class APIRouter {
     robotEventsApiStatus: APIKeyStatus;
     recfEventsApiStatus: APIKeyStatus;
     usingFallback: boolean;
+    fixtureMode: boolean;
+    mockServerUrl: string | null;
   } {
     const shouldUseRECF = this.shouldUseRECFAPI();
     const apiType = getAPIType(this.selectedProgram);
@@ -540,7 +664,9 @@ class APIRouter {
       supportedPrograms: this.getSupportedPrograms(),
       robotEventsApiStatus: comprehensiveRobotEventsAPI.getApiKeyStatus(),
       recfEventsApiStatus: recfEventsAPI.getApiKeyStatus(),
-      usingFallback
+      usingFallback,
+      fixtureMode: this.fixtureMode,
+      mockServerUrl: this.mockServerUrl
     };
   }
 
@@ -0,0 +1,607 @@
+/**
+ * Fixture Events API Service
+ *
+ * Serves a recorded RobotEvents v2 corpus (src/data/fixtures) through the same
+ * interface as comprehensiveRobotEventsAPI and recfEventsAPI, so the app can be
+ * exercised without API keys or network access. Enabled from the developer
+ * settings via APIRouter.setFixtureMode().
+ *
+ * With live simulation enabled the fixture event is moved to the current day and
+ * its qualification matches start and get scored over time. Rankings are
+ * recomputed from the scored matches and awards appear once every match is done.
+ */
+
+import { createLogger } from '../utils/logger';
+import { getProgramId } from '../utils/programMappings';
+import {
+  APIKeyStatus,
+  EventFilters,
+  TeamFilters,
+  SeasonFilters,
+  ProgramFilters,
+  MatchFilters,
+  RankingFilters,
+  SkillFilters,
+  AwardFilters,
+  EventTeamFilters,
+  Event,
+  Team,
+  Season,
+  Program,
+  Match,
+  Ranking,
+  Skill,
+  Award,
+  PaginatedResponse,
+  EventsResponse,
+  TeamsResponse,
+  SeasonsResponse,
+  ProgramsResponse,
+  MatchesResponse,
+  RankingsResponse,
+  SkillsResponse,
+  AwardsResponse,
+} from '../types/api';
+import { WorldSkillsResponse } from '../types';
+import fixtureCorpus from '../data/fixtures/v5rc-fixture-event.json';
+
+const logger = createLogger('fixtureEventsAPI');
+
+export interface FixtureCorpus {
+  programs: Program[];
+  seasons: Season[];
+  events: Event[];
+  teams: Team[];
+  matches: Match[];
+  rankings: Ranking[];
+  skills: Skill[];
+  awards: Award[];
+}
+
+// JSON imports widen string unions (e.g. Event.level), so cast to the API shapes
+const corpus = fixtureCorpus as unknown as FixtureCorpus;
+
+const FIXTURE_BASE_PATH = 'fixture://robotevents/api/v2';
+const DEFAULT_PER_PAGE = 250; // Matches the per_page default of the real services
+
+// Simulation timing
+const SIMULATION_SPEEDUP = 4; // Recorded 8 minute cycle time plays back as 2 minutes
+const SIMULATION_LEAD_TIME_MS = 2 * 60 * 1000; // First match starts shortly after enabling
+const SIMULATED_MATCH_LENGTH_MS = 30 * 1000; // Time between a match starting and being scored
+
+const QUALIFICATION_ROUND = 2;
+
+/**
+ * Build a paginated response with complete PageMeta, mirroring RobotEvents v2
+ */
+const paginate = <T>(items: T[], endpoint: string, filters?: { page?: number; per_page?: number }): PaginatedResponse<T> => {
+  const perPage = Math.max(1, filters?.per_page || DEFAULT_PER_PAGE);
+  const lastPage = Math.max(1, Math.ceil(items.length / perPage));
+  const currentPage = Math.min(Math.max(1, filters?.page || 1), lastPage);
+  const offset = (currentPage - 1) * perPage;
+  const data = items.slice(offset, offset + perPage);
+  const path = `${FIXTURE_BASE_PATH}${endpoint}`;
+  const pageUrl = (page: number) => `${path}?page=${page}`;
+
+  return {
+    data,
+    meta: {
+      current_page: currentPage,
+      first_page_url: pageUrl(1),
+      from: data.length > 0 ? offset + 1 : 0,
+      last_page: lastPage,
+      last_page_url: pageUrl(lastPage),
+      next_page_url: currentPage < lastPage ? pageUrl(currentPage + 1) : null,
+      path,
+      per_page: perPage,
+      prev_page_url: currentPage > 1 ? pageUrl(currentPage - 1) : null,
+      to: offset + data.length,
+      total: items.length,
+    },
+  };
+};
+
+/**
+ * True when the filter list is unset/empty or contains the value
+ */
+const matchesFilter = <T>(values: T[] | undefined, value: T): boolean => {
+  return !values || values.length === 0 || values.includes(value);
+};
+
+const matchHasTeam = (match: Match, teamId: number): boolean => {
+  return match.alliances.some(alliance => alliance.teams.some(allianceTeam => allianceTeam.team.id === teamId));
+};
+
+/**
+ * Compute qualification rankings from scored matches.
+ * WP: 2 per win, 1 per tie. SP: the losing alliance score of each match played.
+ */
+const computeFixtureRankings = (matches: Match[], template: Ranking[]): Ranking[] => {
+  const stats = new Map<number, Ranking>();
+  const played = new Map<number, number>();
+
+  template.forEach(ranking => {
+    stats.set(ranking.team.id, {
+      ...ranking,
+      rank: 0,
+      wins: 0,
+      losses: 0,
+      ties: 0,
+      wp: 0,
+      ap: 0,
+      sp: 0,
+      high_score: 0,
+      average_points: 0,
+      total_points: 0,
+    });
+    played.set(ranking.team.id, 0);
+  });
+
+  matches
+    .filter(match => match.round === QUALIFICATION_ROUND && match.scored)
+    .forEach(match => {
+      match.alliances.forEach(alliance => {
+        const opponent = match.alliances.find(other => other.color !== alliance.color);
+        const opponentScore = opponent ? opponent.score : 0;
+
+        alliance.teams.forEach(allianceTeam => {
+          const ranking = stats.get(allianceTeam.team.id);
+          if (!ranking || allianceTeam.sitting) return;
+
+          played.set(allianceTeam.team.id, (played.get(allianceTeam.team.id) || 0) + 1);
+          ranking.total_points += alliance.score;
+          ranking.high_score = Math.max(ranking.high_score, alliance.score);
+          ranking.sp += Math.min(alliance.score, opponentScore);
+
+          if (alliance.score > opponentScore) {
+            ranking.wins++;
+            ranking.wp += 2;
+          } else if (alliance.score < opponentScore) {
+            ranking.losses++;
+          } else {
+            ranking.ties++;
+            ranking.wp += 1;
+          }
+        });
+      });
+    });
+
+  return Array.from(stats.values())
+    .map(ranking => {
+      const count = played.get(ranking.team.id) || 0;
+      ranking.average_points = count > 0 ? Math.round((ranking.total_points / count) * 100) / 100 : 0;
+      return ranking;
+    })
+    .sort((a, b) => b.wp - a.wp || b.ap - a.ap || b.sp - a.sp || b.high_score - a.high_score)
+    .map((ranking, index) => ({ ...ranking, rank: index + 1 }));
+};
+
+class FixtureEventsAPI {
+  private selectedProgram: string = 'VEX V5 Robotics Competition';
+  private simulationStartedAt: number | null = null;
+
+  // =============================================================================
+  // CONFIGURATION METHODS
+  // =============================================================================
+
+  public setSelectedProgram(program: string): void {
+    this.selectedProgram = program;
+  }
+
+  /**
+   * Start or stop the live event simulation. The simulated schedule is anchored
+   * to the moment it is enabled, so toggling it off and on restarts the event.
+   */
+  public setLiveSimulation(enabled: boolean): void {
+    if (enabled && this.simulationStartedAt === null) {
+      this.simulationStartedAt = Date.now();
+      logger.info('Live event simulation started');
+    } else if (!enabled && this.simulationStartedAt !== null) {
+      this.simulationStartedAt = null;
+      logger.info('Live event simulation stopped');
+    }
+  }
+
+  public isLiveSimulationActive(): boolean {
+    return this.simulationStartedAt !== null;
+  }
+
+  /**
+   * IDs of the events in the fixture corpus (useful as a Test Event ID)
+   */
+  public getFixtureEventIds(): number[] {
+    return corpus.events.map(event => event.id);
+  }
+
+  public getApiKeyStatus(): APIKeyStatus {
+    return { total: 0, active: 0, failed: 0, current: 0 };
+  }
+
+  // =============================================================================
+  // SIMULATION
+  // =============================================================================
+
+  /**
+   * Map a recorded timestamp for an event onto the simulated timeline
+   */
+  private toSimulatedTime(eventId: number, recorded: string): number {
+    const firstScheduled = this.getFirstScheduledTime(eventId);
+    const elapsed = Date.parse(recorded) - firstScheduled;
+    return (this.simulationStartedAt as number) + SIMULATION_LEAD_TIME_MS + elapsed / SIMULATION_SPEEDUP;
+  }
+
+  private getFirstScheduledTime(eventId: number): number {
+    const times = corpus.matches
+      .filter(match => match.event.id === eventId && match.scheduled)
+      .map(match => Date.parse(match.scheduled as string));
+    return times.length > 0 ? Math.min(...times) : Date.now();
+  }
+
+  private simulateMatch(match: Match): Match {
+    if (this.simulationStartedAt === null || !match.scheduled) {
+      return match;
+    }
+
+    const now = Date.now();
+    const scheduled = this.toSimulatedTime(match.event.id, match.scheduled);
+    const started = this.toSimulatedTime(match.event.id, match.started || match.scheduled);
+    const hasStarted = now >= started;
+    const isScored = now >= started + SIMULATED_MATCH_LENGTH_MS;
+
+    return {
+      ...match,
+      scheduled: new Date(scheduled).toISOString(),
+      started: hasStarted ? new Date(started).toISOString() : undefined,
+      scored: isScored,
+      alliances: match.alliances.map(alliance => ({
+        ...alliance,
+        score: isScored ? alliance.score : 0,
+      })),
+    };
+  }
+
+  private simulateEvent(event: Event): Event {
+    if (this.simulationStartedAt === null) {
+      return event;
+    }
+
+    const day = new Date(this.simulationStartedAt);
+    day.setHours(0, 0, 0, 0);
+
+    return {
+      ...event,
+      start: day.toISOString(),
+      end: day.toISOString(),
+      ongoing: true,
+      awards_finalized: this.isEventComplete(event.id),
+    };
+  }
+
+  private isEventComplete(eventId: number): boolean {
+    return this.getMatches(eventId).every(match => match.scored);
+  }
+
+  private getMatches(eventId?: number, divisionId?: number): Match[] {
+    return corpus.matches
+      .filter(match => eventId === undefined || match.event.id === eventId)
+      .filter(match => divisionId === undefined || match.division.id === divisionId)
+      .map(match => this.simulateMatch(match));
+  }
+
+  private getRankings(eventId: number, divisionId: number): Ranking[] {
+    const recorded = corpus.rankings.filter(ranking =>
+      ranking.event.id === eventId && ranking.division.id === divisionId
+    );
+    if (this.simulationStartedAt === null) {
+      return recorded;
+    }
+    return computeFixtureRankings(this.getMatches(eventId, divisionId), recorded);
+  }
+
+  private getAwards(eventId?: number): Award[] {
+    return corpus.awards.filter(award => {
+      if (eventId !== undefined && award.event.id !== eventId) return false;
+      // Awards are handed out once the simulated event has finished
+      return this.simulationStartedAt === null || this.isEventComplete(award.event.id);
+    });
+  }
+
+  private getSimulatedEvents(): Event[] {
+    return corpus.events.map(event => this.simulateEvent(event));
+  }
+
+  private getTeamEventIds(teamId: number): number[] {
+    return corpus.events
+      .filter(event => corpus.matches.some(match => match.event.id === event.id && matchHasTeam(match, teamId)))
+      .map(event => event.id);
+  }
+
+  // =============================================================================
+  // PROGRAMS API
+  // =============================================================================
+
+  public async getPrograms(filters?: ProgramFilters): Promise<ProgramsResponse> {
+    const programs = corpus.programs.filter(program => matchesFilter(filters?.id, program.id));
+    return paginate(programs, '/programs', filters);
+  }
+
+  public async getProgramById(programId: number): Promise<Program | null> {
+    return corpus.programs.find(program => program.id === programId) || null;
+  }
+
+  // =============================================================================
+  // SEASONS API
+  // =============================================================================
+
+  public async getSeasons(filters?: SeasonFilters): Promise<SeasonsResponse> {
+    const seasons = corpus.seasons.filter(season =>
+      matchesFilter(filters?.id, season.id) && matchesFilter(filters?.program, season.program.id)
+    );
+    return paginate(seasons, '/seasons', filters);
+  }
+
+  public async getSeasonById(seasonId: number): Promise<Season | null> {
+    return corpus.seasons.find(season => season.id === seasonId) || null;
+  }
+
+  public async getSeasonEvents(seasonId: number, filters?: EventFilters): Promise<EventsResponse> {
+    return this.filterEvents({ ...filters, season: [seasonId] }, `/seasons/${seasonId}/events`);
+  }
+
+  public async getCurrentSeasonId(program?: string): Promise<number> {
+    const programId = getProgramId(program || this.selectedProgram);
+    const seasons = corpus.seasons
+      .filter(season => season.program.id === programId)
+      .sort((a, b) => b.years_start - a.years_start);
+    return (seasons[0] || corpus.seasons[0]).id;
+  }
+
+  // =============================================================================
+  // EVENTS API
+  // =============================================================================
+
+  public async getEvents(filters?: EventFilters): Promise<EventsResponse> {
+    return this.filterEvents(filters, '/events');
+  }
+
+  private filterEvents(filters: EventFilters | undefined, endpoint: string): EventsResponse {
+    const search = filters?.search?.toLowerCase();
+    const events = this.getSimulatedEvents().filter(event =>
+      matchesFilter(filters?.id, event.id) &&
+      matchesFilter(filters?.sku, event.sku) &&
+      matchesFilter(filters?.season, event.season.id) &&
+      matchesFilter(filters?.program, event.program.id) &&
+      matchesFilter(filters?.level, event.level) &&
+      matchesFilter(filters?.eventTypes, event.event_type) &&
+      (!filters?.team || filters.team.some(teamId => this.getTeamEventIds(teamId).includes(event.id))) &&
+      (!filters?.start || Date.parse(event.end) >= Date.parse(filters.start)) &&
+      (!filters?.end || Date.parse(event.start) <= Date.parse(filters.end)) &&
+      (!search || event.name.toLowerCase().includes(search) || event.sku.toLowerCase().includes(search))
+    );
+    return paginate(events, endpoint, filters);
+  }
+
+  public async getEventById(eventId: number): Promise<Event | null> {
+    return this.getSimulatedEvents().find(event => event.id === eventId) || null;
+  }
+
+  public async getEventTeams(eventId: number, filters?: EventTeamFilters): Promise<TeamsResponse> {
+    const teamIds = new Set<number>();
+    corpus.matches
+      .filter(match => match.event.id === eventId)
+      .forEach(match => match.alliances.forEach(alliance =>
+        alliance.teams.forEach(allianceTeam => teamIds.add(allianceTeam.team.id))
+      ));
+
+    const teams = corpus.teams.filter(team =>
+      teamIds.has(team.id) &&
+      matchesFilter(filters?.number, team.number) &&
+      matchesFilter(filters?.grade, team.grade) &&
+      matchesFilter(filters?.country, team.location.country) &&
+      (filters?.registered === undefined || team.registered === filters.registered)
+    );
+    return paginate(teams, `/events/${eventId}/teams`, filters);
+  }
+
+  public async getEventSkills(eventId: number, filters?: SkillFilters): Promise<SkillsResponse> {
+    const skills = corpus.skills.filter(skill =>
+      skill.event.id === eventId &&
+      matchesFilter(filters?.team, skill.team.id) &&
+      matchesFilter(filters?.type, skill.type)
+    );
+    return paginate(skills, `/events/${eventId}/skills`, filters);
+  }
+
+  public async getEventAwards(eventId: number, filters?: AwardFilters): Promise<AwardsResponse> {
+    const awards = this.getAwards(eventId).filter(award =>
+      !filters?.team || award.teamWinners.some(winner => filters.team!.includes(winner.team.id))
+    );
+    return paginate(awards, `/events/${eventId}/awards`, filters);
+  }
+
+  public async getEventDivisionMatches(eventId: number, divisionId: number, filters?: MatchFilters): Promise<MatchesResponse> {
+    const matches = this.getMatches(eventId, divisionId).filter(match =>
+      (!filters?.team || filters.team.some(teamId => matchHasTeam(match, teamId))) &&
+      matchesFilter(filters?.round, match.round) &&
+      matchesFilter(filters?.instance, match.instance) &&
+      matchesFilter(filters?.matchnum, match.matchnum)
+    );
+    return paginate(matches, `/events/${eventId}/divisions/${divisionId}/matches`, filters);
+  }
+
+  public async getEventDivisionRankings(eventId: number, divisionId: number, filters?: RankingFilters): Promise<RankingsResponse> {
+    const rankings = this.getRankings(eventId, divisionId).filter(ranking =>
+      matchesFilter(filters?.team, ranking.team.id) &&
+      matchesFilter(filters?.rank, ranking.rank)
+    );
+    return paginate(rankings, `/events/${eventId}/divisions/${divisionId}/rankings`, filters);
+  }
+
+  public async getEventDivisionFinalistRankings(eventId: number, divisionId: number, filters?: RankingFilters): Promise<RankingsResponse> {
+    // The fixture corpus is a V5RC event, which has no finalist rankings
+    return paginate<Ranking>([], `/events/${eventId}/divisions/${divisionId}/finalistRankings`, filters);
+  }
+
+  // =============================================================================
+  // TEAMS API
+  // =============================================================================
+
+  public async getTeams(filters?: TeamFilters): Promise<TeamsResponse> {
+    const teams = corpus.teams.filter(team =>
+      matchesFilter(filters?.id, team.id) &&
+      (!filters?.number || filters.number.some(number => number.toUpperCase() === team.number.toUpperCase())) &&
+      matchesFilter(filters?.program, team.program.id) &&
+      matchesFilter(filters?.grade, team.grade) &&
+      matchesFilter(filters?.country, team.location.country) &&
+      (!filters?.event || filters.event.some(eventId => this.getTeamEventIds(team.id).includes(eventId))) &&
+      (filters?.registered === undefined || team.registered === filters.registered)
+    );
+    return paginate(teams, '/teams', filters);
+  }
+
+  public async getTeamsForBrowser(filters?: TeamFilters): Promise<TeamsResponse> {
+    return this.getTeams(filters);
+  }
+
+  public async getTeamById(teamId: number): Promise<Team | null> {
+    return corpus.teams.find(team => team.id === teamId) || null;
+  }
+
+  public async getTeamByNumber(teamNumber: string, program?: string): Promise<Team | null> {
+    const programId = getProgramId(program || this.selectedProgram);
+    return corpus.teams.find(team =>
+      team.number.toUpperCase() === teamNumber.trim().toUpperCase() && team.program.id === programId
+    ) || null;
+  }
+
+  public async getTeamEvents(teamId: number, filters?: EventFilters): Promise<EventsResponse> {
+    return this.filterEvents({ ...filters, team: [teamId] }, `/teams/${teamId}/events`);
+  }
+
+  public async getTeamMatches(teamId: number, filters?: MatchFilters): Promise<MatchesResponse> {
+    const matches = this.getMatches().filter(match =>
+      matchHasTeam(match, teamId) &&
+      matchesFilter(filters?.event, match.event.id) &&
+      matchesFilter(filters?.round, match.round) &&
+      matchesFilter(filters?.instance, match.instance) &&
+      matchesFilter(filters?.matchnum, match.matchnum)
+    );
+    return paginate(matches, `/teams/${teamId}/matches`, filters);
+  }
+
+  public async getTeamRankings(teamId: number, filters?: RankingFilters): Promise<RankingsResponse> {
+    const rankings: Ranking[] = [];
+    corpus.events
+      .filter(event => matchesFilter(filters?.event, event.id))
+      .forEach(event => event.divisions.forEach(division => {
+        rankings.push(...this.getRankings(event.id, division.id).filter(ranking => ranking.team.id === teamId));
+      }));
+    return paginate(rankings, `/teams/${teamId}/rankings`, filters);
+  }
+
+  public async getTeamSkills(teamId: number, filters?: SkillFilters): Promise<SkillsResponse> {
+    const skills = corpus.skills.filter(skill =>
+      skill.team.id === teamId &&
+      matchesFilter(filters?.event, skill.event.id) &&
+      matchesFilter(filters?.season, skill.season.id) &&
+      matchesFilter(filters?.type, skill.type)
+    );
+    return paginate(skills, `/teams/${teamId}/skills`, filters);
+  }
+
+  public async getTeamAwards(teamId: number, filters?: AwardFilters): Promise<AwardsResponse> {
+    const awards = this.getAwards().filter(award =>
+      award.teamWinners.some(winner => winner.team.id === teamId) &&
+      matchesFilter(filters?.event, award.event.id)
+    );
+    return paginate(awards, `/teams/${teamId}/awards`, filters);
+  }
+
+  // =============================================================================
+  // WORLD SKILLS API
+  // =============================================================================
+
+  /**
+   * Build world skills standings from the fixture skills runs (best combined score per team)
+   */
+  public async getWorldSkillsRankings(seasonId: number, gradeLevel: string): Promise<WorldSkillsResponse[]> {
+    const byTeam = new Map<number, { driver: number; programming: number; event: Skill['event'] }>();
+
+    corpus.skills
+      .filter(skill => skill.season.id === seasonId)
+      .forEach(skill => {
+        const entry = byTeam.get(skill.team.id) || { driver: 0, programming: 0, event: skill.event };
+        if (skill.type === 'driver') {
+          entry.driver = Math.max(entry.driver, skill.score);
+        } else if (skill.type === 'programming') {
+          entry.programming = Math.max(entry.programming, skill.score);
+        }
+        byTeam.set(skill.team.id, entry);
+      });
+
+    return Array.from(byTeam.entries())
+      .map(([teamId, scores]) => ({ team: corpus.teams.find(team => team.id === teamId), scores }))
+      .filter(({ team }) => team && team.grade === gradeLevel)
+      .sort((a, b) => (b.scores.driver + b.scores.programming) - (a.scores.driver + a.scores.programming))
+      .map(({ team, scores }, index) => ({
+        id: `${team!.id}`,
+        rank: index + 1,
+        team: {
+          id: team!.id,
+          team: team!.number,
+          teamName: team!.team_name,
+          organization: team!.organization || '',
+          city: team!.location.city,
+          region: team!.location.region,
+          country: team!.location.country,
+          grade: team!.grade,
+        },
+        scores: {
+          score: scores.driver + scores.programming,
+          programming: scores.programming,
+          driver: scores.driver,
+          maxProgramming: scores.programming,
+          maxDriver: scores.driver,
+          tier: '',
+        },
+        event: {
+          id: scores.event.id,
+          name: scores.event.name,
+          code: scores.event.code || '',
+        },
+      }));
+  }
+
+  // =============================================================================
+  // CACHING METHODS
+  // =============================================================================
+
+  public async initializeCache(): Promise<void> {
+    // Fixture data is bundled, nothing to load
+  }
+
+  public clearCache(): void {
+    logger.debug('Fixture API has no cache to clear');
+  }
+
+  // =============================================================================
+  // CONVENIENCE METHODS (Legacy compatibility)
+  // =============================================================================
+
+  public async searchTeams(query: string, program?: string, seasonId?: number): Promise<Team[]> {
+    const response = await this.getTeams({
+      number: [query],
+      program: program ? [getProgramId(program)] : undefined,
+    });
+    return response.data;
+  }
+
+  public async searchEvents(filters?: EventFilters): Promise<Event[]> {
+    const response = await this.getEvents(filters);
+    return response.data;
+  }
+}
+
+// Export singleton instance
+export const fixtureEventsAPI = new FixtureEventsAPI();
+export default fixtureEventsAPI;
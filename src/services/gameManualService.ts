@@ -7,8 +7,21 @@
 
 import { createLogger } from '../utils/logger';
 import { storage } from '../utils/webCompatibility';
-import { GameManual, Rule, FavoriteRuleStorage } from '../types/gameManual';
-import { getProgramShortName } from '../utils/programMappings';
+import {
+  GameManual,
+  Rule,
+  FavoriteRuleStorage,
+  ManualChangelogEntry,
+  ManualChangelogStorage,
+  QnAData,
+} from '../types/gameManual';
+import { getProgramId, getProgramShortName } from '../utils/programMappings';
+import { getSeasonKey } from '../utils/eligibility/ruleSets';
+import { robotEventsAPI } from './apiRouter';
+import { Season } from '../types/api';
+import { getRuleSearchIndex, searchRuleIndex } from '../utils/ruleSearch';
+import { diffManuals } from '../utils/manualDiff';
+import { parseQnAData } from '../utils/ruleQnA';
 
 const logger = createLogger('gameManualService');
 
@@ -26,18 +39,52 @@ import VURC_2025_2026 from '../data/gameManuals/vurc-2025-2026.json';
 import VAIRC_2025_2026 from '../data/gameManuals/vairc-2025-2026.json';
 import VIQRC_2025_2026 from '../data/gameManuals/viqrc-2025-2026.json';
 
+// Import bundled Q&A data
+import V5RC_QNA_2025_2026 from '../data/qna/v5rc-2025-2026.json';
+import VURC_QNA_2025_2026 from '../data/qna/vurc-2025-2026.json';
+import VAIRC_QNA_2025_2026 from '../data/qna/vairc-2025-2026.json';
+import VIQRC_QNA_2025_2026 from '../data/qna/viqrc-2025-2026.json';
+
+// Bundled data by program short name, then season. Add new seasons here when
+// their JSON files are bundled; older seasons stay available as archives.
+const BUNDLED_MANUALS: { [program: string]: { [season: string]: GameManual } } = {
+  V5RC: { '2025-2026': V5RC_2025_2026 as GameManual },
+  VURC: { '2025-2026': VURC_2025_2026 as GameManual },
+  VAIRC: { '2025-2026': VAIRC_2025_2026 as GameManual },
+  VIQRC: { '2025-2026': VIQRC_2025_2026 as GameManual },
+};
+
+const BUNDLED_QNA: { [program: string]: { [season: string]: unknown } } = {
+  V5RC: { '2025-2026': V5RC_QNA_2025_2026 },
+  VURC: { '2025-2026': VURC_QNA_2025_2026 },
+  VAIRC: { '2025-2026': VAIRC_QNA_2025_2026 },
+  VIQRC: { '2025-2026': VIQRC_QNA_2025_2026 },
+};
+
+export interface ManualSeasonInfo {
+  season: string;                  // Season key (e.g., "2025-2026")
+  bundled: boolean;                // Available offline without a download
+}
+
 // GitHub configuration for remote game manual updates
 const GITHUB_BASE_URL = 'https://raw.githubusercontent.com/Skylerclagg/Robonexus-gamemanual-json-files/main';
 const CACHE_DURATION = 24 * 60 * 60 * 1000; // 24 hours
+const MAX_CHANGELOG_ENTRIES = 20; // Per program/season
 
 class GameManualService {
   private readonly FAVORITES_KEY = 'game_manual_favorites';
   private readonly CACHE_KEY_PREFIX = 'game_manual_cache_';
   private readonly CACHE_TIMESTAMP_PREFIX = 'game_manual_timestamp_';
+  private readonly CHANGELOG_KEY = 'game_manual_changelog';
+  private readonly QNA_CACHE_KEY_PREFIX = 'game_manual_qna_cache_';
+  private readonly QNA_TIMESTAMP_PREFIX = 'game_manual_qna_timestamp_';
 
   // Cache for loaded manuals
   private manualsCache: Map<string, GameManual> = new Map();
 
+  // Cache for loaded Q&A data
+  private qnaCache: Map<string, QnAData> = new Map();
+
   // Cache for favorites
   private favoritesCache: FavoriteRuleStorage | null = null;
 
@@ -61,6 +108,19 @@ class GameManualService {
     program: string,
     season: string,
     onProgress?: (progress: number, total: number) => void
+  ): Promise<GameManual | null> {
+    return this.loadManual(program, season, null);
+  }
+
+  /**
+   * Resolve the manual to use. `previousManual` is the version the user was
+   * last shown, when it is no longer in the storage cache (see refreshManual);
+   * a newer GitHub version is diffed against it for the changelog.
+   */
+  private async loadManual(
+    program: string,
+    season: string,
+    previousManual: GameManual | null
   ): Promise<GameManual | null> {
     const cacheKey = `${program}_${season}`;
 
@@ -80,8 +140,9 @@ class GameManualService {
       logger.debug(`Bundled-only mode enabled - using bundled data`);
       if (bundledManual) {
         this.manualsCache.set(cacheKey, bundledManual);
+        return bundledManual;
       }
-      return bundledManual;
+      return this.loadNearestBundledManual(program, season);
     }
 
     // Check cached version
@@ -104,6 +165,14 @@ class GameManualService {
       // Only use GitHub version if it's newer than bundled
       if (githubManual && this.isNewerVersion(githubVersion, bundledVersion)) {
         logger.debug(`Using GitHub manual (v${githubVersion}) - newer than bundled (v${bundledVersion})`);
+
+        // Diff against whichever version was in use before this download
+        const candidates = [previousManual, cachedManual].filter((m): m is GameManual => m !== null);
+        const baseline = candidates.find(m => this.isNewerVersion(m.version, bundledVersion)) || bundledManual;
+        if (baseline && this.isNewerVersion(githubVersion, baseline.version)) {
+          await this.recordChangelog(program, season, baseline, githubManual);
+        }
+
         await this.cacheManual(program, season, githubManual);
         this.manualsCache.set(cacheKey, githubManual);
         return githubManual;
@@ -118,9 +187,29 @@ class GameManualService {
     if (bundledManual) {
       logger.debug(`Using bundled data (v${bundledVersion})`);
       this.manualsCache.set(cacheKey, bundledManual);
+      return bundledManual;
     }
 
-    return bundledManual;
+    // Not bundled: an expired download is still the right season
+    if (cachedManual) {
+      logger.debug(`Using expired cached manual (v${cachedVersion}) for ${program} ${season}`);
+      this.manualsCache.set(cacheKey, cachedManual);
+      return cachedManual;
+    }
+
+    return this.loadNearestBundledManual(program, season);
+  }
+
+  /**
+   * Fallback when a season has no manual (e.g., a new season before its
+   * manual is published). The returned manual's season shows which one it is.
+   */
+  private async loadNearestBundledManual(program: string, season: string): Promise<GameManual | null> {
+    const nearestSeason = this.getNearestBundledSeason(program, season);
+    if (!nearestSeason || nearestSeason === season) return null;
+
+    logger.debug(`No ${season} manual for ${program} - falling back to ${nearestSeason}`);
+    return this.getManual(program, nearestSeason);
   }
 
   /**
@@ -206,19 +295,86 @@ class GameManualService {
    * Load manual from local bundled data
    */
   private loadLocalManual(program: string, season: string): GameManual | null {
-    const shortName = getProgramShortName(program);
+    return BUNDLED_MANUALS[getProgramShortName(program)]?.[season] || null;
+  }
+
+  /**
+   * Get the bundled seasons for a program, newest first
+   */
+  public getBundledSeasons(program: string): string[] {
+    return Object.keys(BUNDLED_MANUALS[getProgramShortName(program)] || {}).sort().reverse();
+  }
 
-    // Map of available local manuals
-    const localManuals: { [key: string]: GameManual } = {
-      // 2025-2026 Season (Current)
-      'V5RC_2025-2026': V5RC_2025_2026 as GameManual,
-      'VURC_2025-2026': VURC_2025_2026 as GameManual,
-      'VAIRC_2025-2026': VAIRC_2025_2026 as GameManual,
-      'VIQRC_2025-2026': VIQRC_2025_2026 as GameManual,
-    };
+  /**
+   * Get the bundled season closest to a season key, preferring the newer one on a tie
+   */
+  private getNearestBundledSeason(program: string, season: string): string | null {
+    const target = parseInt(season);
+    const seasons = this.getBundledSeasons(program);
+    if (isNaN(target)) return seasons[0] || null;
+
+    return seasons.reduce<string | null>((nearest, candidate) => {
+      if (!nearest) return candidate;
+      return Math.abs(parseInt(candidate) - target) < Math.abs(parseInt(nearest) - target) ? candidate : nearest;
+    }, null);
+  }
 
-    const key = `${shortName}_${season}`;
-    return localManuals[key] || null;
+  /**
+   * Season key for a RobotEvents season (e.g., "2025-2026")
+   */
+  private getSeasonKeyFor(season: Season): string | null {
+    if (season.years_start && season.years_end) {
+      return `${season.years_start}-${season.years_end}`;
+    }
+    return getSeasonKey(season.name);
+  }
+
+  /**
+   * Resolve the manual season for a RobotEvents season ID (e.g., the selected
+   * season in settings), or the program's current season when no ID is given.
+   * Falls back to the newest bundled season if the API can't be reached.
+   */
+  public async resolveSeason(program: string, seasonId?: string | number | null): Promise<string> {
+    const fallback = this.getBundledSeasons(program)[0] || '';
+
+    try {
+      const id = seasonId ? Number(seasonId) : await robotEventsAPI.getCurrentSeasonId(program);
+      if (!id || isNaN(id)) return fallback;
+
+      const season = await robotEventsAPI.getSeasonById(id);
+      const seasonKey = season ? this.getSeasonKeyFor(season) : null;
+      logger.debug(`Resolved season ${id} for ${program} to ${seasonKey || `fallback ${fallback}`}`);
+      return seasonKey || fallback;
+    } catch (error) {
+      logger.warn(`Failed to resolve season for ${program}, using ${fallback}:`, error);
+      return fallback;
+    }
+  }
+
+  /**
+   * Seasons with a game manual that can be browsed, newest first. Seasons
+   * come from the API so archived manuals published on GitHub are listed too.
+   */
+  public async getManualSeasons(program: string): Promise<ManualSeasonInfo[]> {
+    const bundled = new Set(this.getBundledSeasons(program));
+    const seasons = new Set(bundled);
+
+    if (!USE_BUNDLED_ONLY) {
+      try {
+        const response = await robotEventsAPI.getSeasons({ program: [getProgramId(program)] });
+        response.data.forEach(season => {
+          const seasonKey = this.getSeasonKeyFor(season);
+          if (seasonKey) seasons.add(seasonKey);
+        });
+      } catch (error) {
+        logger.warn(`Failed to load seasons for ${program}:`, error);
+      }
+    }
+
+    return Array.from(seasons)
+      .sort()
+      .reverse()
+      .map(season => ({ season, bundled: bundled.has(season) }));
   }
 
   /**
@@ -234,38 +390,14 @@ class GameManualService {
    * Get current season's manual for a program
    */
   public async getCurrentSeasonManual(program: string): Promise<GameManual | null> {
-    // TODO: Determine current season dynamically
-    return this.getManual(program, '2024-2025');
+    return this.getManual(program, await this.resolveSeason(program));
   }
 
   /**
-   * Search rules by query string
+   * Search rules by query string, best matches first
    */
   public searchRules(manual: GameManual, query: string): Rule[] {
-    if (!query || query.trim().length === 0) {
-      return [];
-    }
-
-    const lowerQuery = query.toLowerCase();
-    const results: Rule[] = [];
-
-    manual.ruleGroups.forEach(group => {
-      group.rules.forEach(rule => {
-        const matches =
-          rule.rule.toLowerCase().includes(lowerQuery) ||
-          rule.title.toLowerCase().includes(lowerQuery) ||
-          rule.description.toLowerCase().includes(lowerQuery) ||
-          (rule.tags && rule.tags.some(tag => tag.toLowerCase().includes(lowerQuery))) ||
-          rule.category.toLowerCase().includes(lowerQuery) ||
-          (rule.fullText && rule.fullText.toLowerCase().includes(lowerQuery));
-
-        if (matches) {
-          results.push(rule);
-        }
-      });
-    });
-
-    return results;
+    return searchRuleIndex(getRuleSearchIndex(manual.ruleGroups), query).map(result => result.rule);
   }
 
   /**
@@ -433,12 +565,215 @@ class GameManualService {
     await this.saveFavorites(favorites);
   }
 
+  /**
+   * Get favorites for every program/season (used for backups)
+   */
+  public async getAllFavorites(): Promise<FavoriteRuleStorage> {
+    return { ...(await this.loadFavorites()) };
+  }
+
+  /**
+   * Replace favorites for every program/season (used when restoring a backup)
+   */
+  public async replaceAllFavorites(favorites: FavoriteRuleStorage): Promise<void> {
+    await this.saveFavorites({ ...favorites });
+  }
+
+  // ============================================================================
+  // Q&A
+  // ============================================================================
+
+  /**
+   * Load Q&A from local bundled data
+   */
+  private loadLocalQnA(program: string, season: string): QnAData | null {
+    const shortName = getProgramShortName(program);
+    const raw = BUNDLED_QNA[shortName]?.[season];
+    return raw ? parseQnAData(raw, shortName, season) : null;
+  }
+
+  /**
+   * Fetch Q&A from GitHub (published next to the manual JSONs)
+   */
+  private async fetchQnAFromGitHub(program: string, season: string): Promise<QnAData | null> {
+    const shortName = getProgramShortName(program);
+    const filename = `${shortName.toLowerCase()}-${season.replace(/\//g, '-')}.json`;
+    const url = `${GITHUB_BASE_URL}/qna/${filename}`;
+
+    logger.debug(`Fetching Q&A from ${url}`);
+
+    const response = await fetch(url, {
+      headers: {
+        'Accept': 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`GitHub Q&A fetch failed: ${response.status} ${response.statusText}`);
+    }
+
+    return parseQnAData(await response.json(), shortName, season);
+  }
+
+  /**
+   * Get Q&A entries for a specific program and season
+   * Uses the same bundled -> cache -> GitHub order as getManual
+   */
+  public async getQnA(program: string, season: string, forceRefresh: boolean = false): Promise<QnAData | null> {
+    const cacheKey = `${program}_${season}`;
+    if (!forceRefresh && this.qnaCache.has(cacheKey)) {
+      return this.qnaCache.get(cacheKey)!;
+    }
+
+    const bundledQnA = this.loadLocalQnA(program, season);
+    if (USE_BUNDLED_ONLY) {
+      if (bundledQnA) {
+        this.qnaCache.set(cacheKey, bundledQnA);
+      }
+      return bundledQnA;
+    }
+
+    const shortName = getProgramShortName(program);
+    const storageKey = `${this.QNA_CACHE_KEY_PREFIX}${shortName}_${season}`;
+    const timestampKey = `${this.QNA_TIMESTAMP_PREFIX}${shortName}_${season}`;
+
+    let cachedQnA: QnAData | null = null;
+    try {
+      const [cached, timestamp] = await Promise.all([
+        storage.getItem(storageKey),
+        storage.getItem(timestampKey),
+      ]);
+      cachedQnA = cached ? parseQnAData(JSON.parse(cached), shortName, season) : null;
+      const cacheValid = !!timestamp && Date.now() - parseInt(timestamp) < CACHE_DURATION;
+
+      if (!forceRefresh && cachedQnA && cacheValid && this.isNewerVersion(cachedQnA.version, bundledQnA?.version)) {
+        this.qnaCache.set(cacheKey, cachedQnA);
+        return cachedQnA;
+      }
+    } catch (error) {
+      logger.error('Error loading cached Q&A:', error);
+    }
+
+    try {
+      const githubQnA = await this.fetchQnAFromGitHub(program, season);
+      if (githubQnA && this.isNewerVersion(githubQnA.version, bundledQnA?.version)) {
+        logger.debug(`Using GitHub Q&A (v${githubQnA.version}) with ${githubQnA.entries.length} entries`);
+        await storage.setItem(storageKey, JSON.stringify(githubQnA));
+        await storage.setItem(timestampKey, Date.now().toString());
+        this.qnaCache.set(cacheKey, githubQnA);
+        return githubQnA;
+      }
+    } catch (error) {
+      logger.warn(`Failed to fetch Q&A from GitHub:`, error);
+    }
+
+    // An expired cache is still better than the bundled copy if it is newer
+    const fallback = cachedQnA && this.isNewerVersion(cachedQnA.version, bundledQnA?.version) ? cachedQnA : bundledQnA;
+    if (fallback) {
+      this.qnaCache.set(cacheKey, fallback);
+    }
+    return fallback;
+  }
+
+  // ============================================================================
+  // CHANGELOG
+  // ============================================================================
+
+  /**
+   * Get changelog storage key for program/season
+   */
+  private getChangelogKey(program: string, season: string): string {
+    return `${getProgramShortName(program)}_${season}`;
+  }
+
+  /**
+   * Load the changelog history for every program/season
+   */
+  private async loadChangelogs(): Promise<ManualChangelogStorage> {
+    try {
+      const stored = await storage.getItem(this.CHANGELOG_KEY);
+      if (stored) {
+        return JSON.parse(stored);
+      }
+    } catch (error) {
+      logger.error('Error loading manual changelog:', error);
+    }
+    return {};
+  }
+
+  /**
+   * Diff two manual versions and store the result, newest first
+   */
+  private async recordChangelog(
+    program: string,
+    season: string,
+    previous: GameManual,
+    next: GameManual
+  ): Promise<void> {
+    try {
+      const key = this.getChangelogKey(program, season);
+      const id = `${previous.version || 'unknown'}->${next.version || 'unknown'}`;
+      const changelogs = await this.loadChangelogs();
+      const entries = changelogs[key] || [];
+
+      if (entries.some(entry => entry.id === id)) return;
+
+      const changes = diffManuals(previous, next);
+      if (changes.length === 0) {
+        logger.debug(`Manual ${id} for ${program} ${season} has no rule changes`);
+        return;
+      }
+
+      const entry: ManualChangelogEntry = {
+        id,
+        program: getProgramShortName(program),
+        season,
+        fromVersion: previous.version || null,
+        toVersion: next.version || null,
+        detectedAt: Date.now(),
+        changes,
+      };
+      changelogs[key] = [entry, ...entries].slice(0, MAX_CHANGELOG_ENTRIES);
+      await storage.setItem(this.CHANGELOG_KEY, JSON.stringify(changelogs));
+
+      logger.debug(`Recorded ${changes.length} rule changes for ${program} ${season} (${id})`);
+    } catch (error) {
+      logger.error('Error recording manual changelog:', error);
+    }
+  }
+
+  /**
+   * Get the changelog history for a program/season, newest first
+   */
+  public async getChangelog(program: string, season: string): Promise<ManualChangelogEntry[]> {
+    const changelogs = await this.loadChangelogs();
+    return changelogs[this.getChangelogKey(program, season)] || [];
+  }
+
+  /**
+   * Mark every changelog entry for a program/season as viewed
+   */
+  public async markChangelogViewed(program: string, season: string): Promise<void> {
+    try {
+      const key = this.getChangelogKey(program, season);
+      const changelogs = await this.loadChangelogs();
+      const entries = changelogs[key];
+      if (!entries || entries.every(entry => entry.viewed)) return;
+
+      changelogs[key] = entries.map(entry => ({ ...entry, viewed: true }));
+      await storage.setItem(this.CHANGELOG_KEY, JSON.stringify(changelogs));
+    } catch (error) {
+      logger.error('Error updating manual changelog:', error);
+    }
+  }
+
   /**
    * Clear all favorites cache (force reload)
    */
   public clearCache(): void {
     this.favoritesCache = null;
     this.manualsCache.clear();
+    this.qnaCache.clear();
   }
 
   /**
@@ -466,9 +801,11 @@ class GameManualService {
     logger.debug(`Cleared cache for ${program} ${season}, fetching fresh data from GitHub...`);
 
     try {
-      const manual = await this.getManual(program, season, onProgress);
+      const previousManual = oldCachedData ? JSON.parse(oldCachedData) as GameManual : null;
+      const manual = await this.loadManual(program, season, previousManual);
 
-      if (!manual && oldCachedData) {
+      // A fallback to another season means the download failed too
+      if ((!manual || manual.season !== season) && oldCachedData) {
         logger.debug(`Failed to fetch new data, restoring previous cache for ${program} ${season}`);
         await storage.setItem(storageCacheKey, oldCachedData);
         if (oldTimestamp) {
@@ -0,0 +1,176 @@
+/**
+ * Pagination Helpers
+ *
+ * Generic helpers for walking every page of a PaginatedResponse endpoint.
+ * Works with any list method on the API router, comprehensiveRobotEventsAPI or
+ * recfEventsAPI by passing a fetcher that accepts page/per_page filters:
+ *
+ *   const { data } = await fetchAll(filters => robotEventsAPI.getEventTeams(eventId, filters));
+ *
+ * Pages are followed using meta.next_page_url / meta.last_page. The walk can be
+ * cancelled with an AbortSignal, reports progress after every page, and keeps
+ * whatever was fetched if a later page fails.
+ */
+
+import { createLogger } from '../utils/logger';
+import { PaginatedResponse } from '../types/api';
+
+const logger = createLogger('pagination');
+
+const DEFAULT_PER_PAGE = 250; // Maximum allowed by RobotEvents API
+const DEFAULT_MAX_PAGES = 200; // Safety limit to prevent infinite loops
+
+export interface PaginationFilters {
+  page?: number;
+  per_page?: number;
+}
+
+export type PageFetcher<T, F extends PaginationFilters> = (filters: F) => Promise<PaginatedResponse<T>>;
+
+export interface PaginationProgress {
+  page: number;
+  lastPage: number | null;
+  fetched: number;
+  total: number | null;
+}
+
+export interface PaginationOptions {
+  perPage?: number;
+  maxPages?: number;
+  signal?: AbortSignal;
+  onProgress?: (progress: PaginationProgress) => void;
+}
+
+export interface FetchAllResult<T> {
+  data: T[];
+  complete: boolean; // false when cancelled or a page failed
+  cancelled: boolean;
+  pagesFetched: number;
+  lastPage: number | null;
+  total: number | null;
+  error?: unknown;
+}
+
+export class PageFetchError extends Error {
+  page: number;
+
+  constructor(page: number, cause?: unknown) {
+    super(`Failed to fetch page ${page}${cause instanceof Error ? `: ${cause.message}` : ''}`);
+    this.name = 'PageFetchError';
+    this.page = page;
+  }
+}
+
+/**
+ * The API services swallow request errors and return { data: [], meta: {} }.
+ * A real page always carries pagination metadata.
+ */
+const isFailedPage = (response: PaginatedResponse<any> | null | undefined): boolean => {
+  if (!response || !Array.isArray(response.data)) {
+    return true;
+  }
+  const meta = response.meta as Partial<PaginatedResponse<any>['meta']> | undefined;
+  return response.data.length === 0 && (!meta || meta.current_page === undefined);
+};
+
+const hasNextPage = (response: PaginatedResponse<any>, page: number, perPage: number): boolean => {
+  const meta = response.meta;
+  if (meta && meta.current_page !== undefined) {
+    if (meta.next_page_url !== undefined) {
+      return meta.next_page_url !== null;
+    }
+    if (meta.last_page !== undefined) {
+      return page < meta.last_page;
+    }
+  }
+  // No usable metadata - a full page suggests there may be more
+  return response.data.length >= perPage;
+};
+
+/**
+ * Async iterator over every page of a paginated endpoint. Yields each page's items.
+ * Throws PageFetchError if a page fails; stops quietly when the signal is aborted.
+ */
+export async function* paginate<T, F extends PaginationFilters>(
+  fetchPage: PageFetcher<T, F>,
+  filters: F = {} as F,
+  options: PaginationOptions = {}
+): AsyncGenerator<T[], void, undefined> {
+  const perPage = options.perPage ?? filters.per_page ?? DEFAULT_PER_PAGE;
+  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+  let page = filters.page ?? 1;
+  let fetched = 0;
+
+  for (let pagesWalked = 0; pagesWalked < maxPages; pagesWalked++) {
+    if (options.signal?.aborted) {
+      logger.debug('Pagination cancelled before page', page);
+      return;
+    }
+
+    let response: PaginatedResponse<T>;
+    try {
+      response = await fetchPage({ ...filters, page, per_page: perPage });
+    } catch (error) {
+      throw new PageFetchError(page, error);
+    }
+
+    if (isFailedPage(response)) {
+      // An empty first page with no metadata may simply mean no results
+      if (pagesWalked === 0 && response && Array.isArray(response.data)) {
+        return;
+      }
+      throw new PageFetchError(page);
+    }
+
+    fetched += response.data.length;
+    options.onProgress?.({
+      page,
+      lastPage: response.meta?.last_page ?? null,
+      fetched,
+      total: response.meta?.total ?? null,
+    });
+
+    yield response.data;
+
+    if (response.data.length === 0 || !hasNextPage(response, page, perPage)) {
+      return;
+    }
+    page++;
+  }
+
+  logger.warn('Reached maximum page limit (', maxPages, '), stopping pagination');
+}
+
+/**
+ * Fetch every page of a paginated endpoint into a single array.
+ * Never throws for page failures or cancellation - check `complete` instead.
+ */
+export async function fetchAll<T, F extends PaginationFilters>(
+  fetchPage: PageFetcher<T, F>,
+  filters: F = {} as F,
+  options: PaginationOptions = {}
+): Promise<FetchAllResult<T>> {
+  const data: T[] = [];
+  let pagesFetched = 0;
+  let lastPage: number | null = null;
+  let total: number | null = null;
+
+  const trackProgress = (progress: PaginationProgress) => {
+    lastPage = progress.lastPage;
+    total = progress.total;
+    options.onProgress?.(progress);
+  };
+
+  try {
+    for await (const items of paginate(fetchPage, filters, { ...options, onProgress: trackProgress })) {
+      data.push(...items);
+      pagesFetched++;
+    }
+  } catch (error) {
+    logger.error('Pagination stopped early after', pagesFetched, 'pages:', error);
+    return { data, complete: false, cancelled: false, pagesFetched, lastPage, total, error };
+  }
+
+  const cancelled = options.signal?.aborted ?? false;
+  return { data, complete: !cancelled, cancelled, pagesFetched, lastPage, total };
+}
@@ -249,6 +249,24 @@ class PDFCacheService {
     return Array.from(this.downloadCache.values());
   }
 
+  /**
+   * Download PDFs that were cached on another device, e.g. after restoring a
+   * backup. Already cached URLs are skipped; returns how many were downloaded.
+   */
+  public async restoreCachedPDFs(urls: string[]): Promise<number> {
+    let restored = 0;
+    for (const url of urls) {
+      if (this.isCached(url) || this.isDownloading(url)) continue;
+      try {
+        await this.downloadPDF(url);
+        restored++;
+      } catch (error) {
+        logger.error('Failed to restore cached PDF:', url, error);
+      }
+    }
+    return restored;
+  }
+
   /**
    * Clear all cached PDFs
    */
@@ -44,6 +44,7 @@ const logger = createLogger('recfEventsAPI');
  */
 class RECFEventsAPI {
   private baseUrl = 'https://api.recf.org/v1';
+  private baseUrlOverride: string | null = null; // Set in developer mode to use a local mock server
   private selectedProgram: string = 'Aerial Drone Competition';
 
   // API key management
@@ -220,7 +221,7 @@ class RECFEventsAPI {
     }
     this.lastRequestTime = Date.now();
 
-    const url = new URL(`${this.baseUrl}${endpoint}`);
+    const url = new URL(`${this.baseUrlOverride || this.baseUrl}${endpoint}`);
 
     // Add pagination defaults for list endpoints
     const isListEndpoint = endpoint.includes('/teams') || endpoint.includes('/events') ||
@@ -355,6 +356,15 @@ class RECFEventsAPI {
     return this.selectedProgram;
   }
 
+  /**
+   * Send requests to a different server instead of the production API
+   * (e.g. the local mock server). Pass null to restore the default.
+   */
+  public setBaseUrlOverride(url: string | null): void {
+    this.baseUrlOverride = url;
+    logger.info('Base URL override set to:', url || 'none');
+  }
+
   public getApiKeyStatus(): APIKeyStatus {
     return {
       total: this.apiKeys.length,
@@ -0,0 +1,169 @@
+/**
+ * Request Queue Service
+ *
+ * Coalesces identical in-flight requests and limits how many network requests
+ * run at once. Foreground requests (the screen the user is looking at) are
+ * dispatched before background work such as DataCacheContext preloads.
+ *
+ * When the server rate limits us, the queue can be paused until the
+ * Retry-After window has passed so queued requests do not burn more quota.
+ */
+
+import { createLogger } from '../utils/logger';
+
+const logger = createLogger('requestQueue');
+
+export type RequestPriority = 'foreground' | 'background';
+
+// Per-call request options, passed down explicitly from the API router
+export interface RequestOptions {
+  priority?: RequestPriority;      // Defaults to 'foreground'
+}
+
+export interface RequestQueueStats {
+  maxConcurrent: number;
+  active: number;
+  queuedForeground: number;
+  queuedBackground: number;
+  inFlight: number;
+  completed: number;
+  failed: number;
+  coalesced: number;
+  rateLimited: number;
+  backoffUntil: number | null;
+}
+
+interface QueuedTask {
+  run: () => void;
+}
+
+export class RequestQueue {
+  private maxConcurrent: number;
+  private active = 0;
+  private foregroundQueue: QueuedTask[] = [];
+  private backgroundQueue: QueuedTask[] = [];
+  private inFlight: Map<string, Promise<any>> = new Map();
+  private backoffUntil = 0;
+  private backoffTimer: ReturnType<typeof setTimeout> | null = null;
+
+  // Statistics
+  private completedCount = 0;
+  private failedCount = 0;
+  private coalescedCount = 0;
+  private rateLimitedCount = 0;
+
+  constructor(maxConcurrent: number = 4) {
+    this.maxConcurrent = maxConcurrent;
+  }
+
+  /**
+   * Run a request through the queue. If a request with the same key is already
+   * in flight, its promise is shared instead of issuing a duplicate call.
+   */
+  public enqueue<T>(key: string, priority: RequestPriority, task: () => Promise<T>): Promise<T> {
+    const existing = this.inFlight.get(key);
+    if (existing) {
+      this.coalescedCount++;
+      logger.debug('Coalescing duplicate request:', key);
+      return existing;
+    }
+
+    const promise = new Promise<T>((resolve, reject) => {
+      const queued: QueuedTask = {
+        run: () => {
+          this.active++;
+          task()
+            .then(result => {
+              this.completedCount++;
+              resolve(result);
+            })
+            .catch(error => {
+              this.failedCount++;
+              reject(error);
+            })
+            .finally(() => {
+              this.active--;
+              this.inFlight.delete(key);
+              this.dispatch();
+            });
+        },
+      };
+
+      if (priority === 'foreground') {
+        this.foregroundQueue.push(queued);
+      } else {
+        this.backgroundQueue.push(queued);
+      }
+    });
+
+    this.inFlight.set(key, promise);
+    this.dispatch();
+    return promise;
+  }
+
+  /**
+   * Start queued tasks while there is free capacity and no active backoff
+   */
+  private dispatch(): void {
+    const now = Date.now();
+    if (this.backoffUntil > now) {
+      this.scheduleResume(this.backoffUntil - now);
+      return;
+    }
+
+    while (this.active < this.maxConcurrent) {
+      const next = this.foregroundQueue.shift() || this.backgroundQueue.shift();
+      if (!next) break;
+      next.run();
+    }
+  }
+
+  private scheduleResume(delay: number): void {
+    if (this.backoffTimer) return;
+    this.backoffTimer = setTimeout(() => {
+      this.backoffTimer = null;
+      this.dispatch();
+    }, delay);
+  }
+
+  /**
+   * Hold all queued requests for the given duration (e.g. after a 429 response)
+   */
+  public backoff(durationMs: number): void {
+    this.rateLimitedCount++;
+    const until = Date.now() + durationMs;
+    if (until > this.backoffUntil) {
+      this.backoffUntil = until;
+      logger.warn('Pausing request queue for', durationMs, 'ms');
+    }
+  }
+
+  /**
+   * Milliseconds remaining in the current backoff window (0 when not paused)
+   */
+  public getBackoffRemaining(): number {
+    return Math.max(0, this.backoffUntil - Date.now());
+  }
+
+  public getStats(): RequestQueueStats {
+    return {
+      maxConcurrent: this.maxConcurrent,
+      active: this.active,
+      queuedForeground: this.foregroundQueue.length,
+      queuedBackground: this.backgroundQueue.length,
+      inFlight: this.inFlight.size,
+      completed: this.completedCount,
+      failed: this.failedCount,
+      coalesced: this.coalescedCount,
+      rateLimited: this.rateLimitedCount,
+      backoffUntil: this.backoffUntil > Date.now() ? this.backoffUntil : null,
+    };
+  }
+
+  public resetStats(): void {
+    this.completedCount = 0;
+    this.failedCount = 0;
+    this.coalescedCount = 0;
+    this.rateLimitedCount = 0;
+  }
+}
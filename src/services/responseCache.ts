@@ -0,0 +1,430 @@
+/**
+ * API Response Cache Service
+ *
+ * Persistent, TTL-aware cache that sits underneath the API router. Every routed
+ * call is keyed by method name, program and parameters so that repeat requests
+ * can be answered locally and previously fetched data survives an app restart.
+ *
+ * When the network is unavailable (or the underlying API swallows an error and
+ * returns an empty placeholder), the last good response is served as stale data
+ * so screens keep working at venues with poor connectivity.
+ *
+ * Each response is persisted under its own storage key, with a small index of
+ * keys in recency order. Android reads AsyncStorage values through a ~2 MB
+ * CursorWindow, so one combined value would stop loading once the cache grew.
+ */
+
+import { createLogger } from '../utils/logger';
+import { storage } from '../utils/webCompatibility';
+
+const logger = createLogger('responseCache');
+
+const RESPONSE_CACHE_INDEX_KEY = 'api_response_cache_index';
+const RESPONSE_CACHE_ENTRY_PREFIX = 'api_response_cache:';
+
+// Single-value format used before entries were stored separately
+const LEGACY_STORAGE_KEY = 'api_response_cache';
+
+// Serialized size of all entries; beyond this they are evicted oldest-first
+const MAX_CACHE_BYTES = 4 * 1024 * 1024;
+
+// Responses larger than this are not cached, keeping every value well under the CursorWindow
+const MAX_ENTRY_BYTES = 512 * 1024;
+
+// Delay before flushing changes to storage so bursts of requests share one write
+const SAVE_DEBOUNCE_MS = 1000;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+
+/**
+ * Time-to-live per router method. Live event data (matches, rankings, skills)
+ * expires quickly, reference data (programs, seasons) is kept for a day.
+ */
+const METHOD_TTLS: Record<string, number> = {
+  getPrograms: 24 * HOUR,
+  getProgramById: 24 * HOUR,
+  getSeasons: 24 * HOUR,
+  getSeasonById: 24 * HOUR,
+  getCurrentSeasonId: 12 * HOUR,
+  getSeasonEvents: HOUR,
+  getEvents: 30 * MINUTE,
+  getEventById: 30 * MINUTE,
+  getEventTeams: 30 * MINUTE,
+  getEventSkills: 2 * MINUTE,
+  getEventAwards: 5 * MINUTE,
+  getEventDivisionMatches: MINUTE,
+  getEventDivisionRankings: 2 * MINUTE,
+  getEventDivisionFinalistRankings: 2 * MINUTE,
+  getTeams: HOUR,
+  getTeamById: 6 * HOUR,
+  getTeamByNumber: 6 * HOUR,
+  getTeamEvents: 30 * MINUTE,
+  getTeamMatches: 2 * MINUTE,
+  getTeamRankings: 5 * MINUTE,
+  getTeamSkills: 5 * MINUTE,
+  getTeamAwards: 10 * MINUTE,
+};
+
+const DEFAULT_TTL = 5 * MINUTE;
+
+export interface CachedResponse<T = any> {
+  key: string;
+  method: string;
+  program: string;
+  data: T;
+  fetchedAt: number;
+  expiresAt: number;
+  eventIds: number[];
+  teamIds: number[];
+}
+
+/**
+ * Freshness information for the most recent response served for a key.
+ * Screens use this to render "last updated" and offline indicators.
+ */
+export interface ResponseCacheInfo {
+  fetchedAt: number;
+  isStale: boolean;
+  fromCache: boolean;
+}
+
+export interface ResponseCacheStats {
+  entries: number;
+  bytes: number;
+  hits: number;
+  misses: number;
+  staleServed: number;
+  oldestEntry: number | null;
+}
+
+class ResponseCacheService {
+  private entries: Map<string, CachedResponse> = new Map();
+  private entrySizes: Map<string, number> = new Map();
+  private totalBytes = 0;
+  private pendingWrites: Map<string, string> = new Map();
+  private removedKeys: Set<string> = new Set();
+  private servedInfo: Map<string, ResponseCacheInfo> = new Map();
+  private loadPromise: Promise<void> | null = null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+  private hits = 0;
+  private misses = 0;
+  private staleServed = 0;
+
+  /**
+   * Load persisted entries from storage (only runs once)
+   */
+  public ready(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = this.loadFromStorage();
+    }
+    return this.loadPromise;
+  }
+
+  private async loadFromStorage(): Promise<void> {
+    try {
+      const storedIndex = await storage.getItem(RESPONSE_CACHE_INDEX_KEY);
+      const keys: string[] = storedIndex ? JSON.parse(storedIndex) : [];
+      const stored = await Promise.all(
+        keys.map(key => storage.getItem(RESPONSE_CACHE_ENTRY_PREFIX + key).catch(() => null))
+      );
+      stored.forEach(value => {
+        if (!value) return;
+        try {
+          const entry: CachedResponse = JSON.parse(value);
+          this.addEntry(entry, value.length);
+        } catch (error) {
+          logger.warn('Skipping unreadable cached API response:', error);
+        }
+      });
+      logger.debug('Loaded', this.entries.size, 'cached API responses from storage');
+
+      // Drop the old single-value cache, which may be too large to read on Android
+      await storage.removeItem(LEGACY_STORAGE_KEY);
+    } catch (error) {
+      logger.error('Failed to load response cache from storage:', error);
+    }
+  }
+
+  private addEntry(entry: CachedResponse, size: number): void {
+    this.deleteEntry(entry.key);
+    this.removedKeys.delete(entry.key);
+    this.entries.set(entry.key, entry);
+    this.entrySizes.set(entry.key, size);
+    this.totalBytes += size;
+  }
+
+  private deleteEntry(key: string): void {
+    if (!this.entries.has(key)) return;
+    this.totalBytes -= this.entrySizes.get(key) || 0;
+    this.entries.delete(key);
+    this.entrySizes.delete(key);
+    this.pendingWrites.delete(key);
+    this.removedKeys.add(key);
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.saveToStorage();
+    }, SAVE_DEBOUNCE_MS);
+  }
+
+  private async saveToStorage(): Promise<void> {
+    try {
+      await this.flushChanges();
+    } catch (error) {
+      // Most likely a storage quota error - drop the older half and try once more
+      logger.warn('Failed to save response cache, evicting older entries:', error);
+      this.evictToFit(this.totalBytes / 2);
+      try {
+        await this.flushChanges();
+      } catch (retryError) {
+        logger.error('Failed to save response cache after eviction:', retryError);
+      }
+    }
+  }
+
+  /**
+   * Write changed entries, remove evicted ones, then rewrite the index
+   */
+  private async flushChanges(): Promise<void> {
+    const writes = Array.from(this.pendingWrites);
+    const removals = Array.from(this.removedKeys);
+    this.pendingWrites.clear();
+    this.removedKeys.clear();
+
+    try {
+      await Promise.all(removals.map(key => storage.removeItem(RESPONSE_CACHE_ENTRY_PREFIX + key)));
+      for (const [key, value] of writes) {
+        await storage.setItem(RESPONSE_CACHE_ENTRY_PREFIX + key, value);
+      }
+      await storage.setItem(RESPONSE_CACHE_INDEX_KEY, JSON.stringify(Array.from(this.entries.keys())));
+    } catch (error) {
+      // Requeue whatever was not superseded so the retry writes it
+      removals.forEach(key => {
+        if (!this.entries.has(key)) this.removedKeys.add(key);
+      });
+      writes.forEach(([key, value]) => {
+        if (this.entries.has(key) && !this.pendingWrites.has(key)) this.pendingWrites.set(key, value);
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Evict oldest-first until the cache fits. Map order is recency since set() re-inserts.
+   */
+  private evictToFit(maxBytes: number): void {
+    for (const key of Array.from(this.entries.keys())) {
+      if (this.totalBytes <= maxBytes) break;
+      this.deleteEntry(key);
+    }
+  }
+
+  /**
+   * Serialize params with sorted keys so equivalent requests share a key
+   */
+  private stableStringify(value: any): string {
+    if (value === null || value === undefined) {
+      return '';
+    }
+    if (Array.isArray(value)) {
+      return `[${value.map(item => this.stableStringify(item)).join(',')}]`;
+    }
+    if (typeof value === 'object') {
+      return `{${Object.keys(value)
+        .filter(key => value[key] !== undefined && value[key] !== null)
+        .sort()
+        .map(key => `${key}:${this.stableStringify(value[key])}`)
+        .join(',')}}`;
+    }
+    return String(value);
+  }
+
+  public buildKey(method: string, program: string, params?: any): string {
+    return `${program}|${method}|${this.stableStringify(params)}`;
+  }
+
+  /**
+   * Collect IDs from request params so entries can be invalidated per event or team
+   */
+  private extractIds(params: any, singleKey: string, listKey: string): number[] {
+    if (!params) return [];
+    const ids: number[] = [];
+    if (typeof params[singleKey] === 'number') {
+      ids.push(params[singleKey]);
+    }
+    const list = params[listKey];
+    if (typeof list === 'number') {
+      ids.push(list);
+    } else if (Array.isArray(list)) {
+      list.forEach((id: any) => {
+        if (typeof id === 'number') ids.push(id);
+      });
+    }
+    return ids;
+  }
+
+  public getTTL(method: string): number {
+    return METHOD_TTLS[method] ?? DEFAULT_TTL;
+  }
+
+  /**
+   * Get a cached entry regardless of whether it has expired
+   */
+  public get<T>(key: string): CachedResponse<T> | undefined {
+    return this.entries.get(key);
+  }
+
+  public isFresh(entry: CachedResponse): boolean {
+    return Date.now() < entry.expiresAt;
+  }
+
+  public set<T>(method: string, program: string, params: any, data: T): void {
+    const key = this.buildKey(method, program, params);
+    const now = Date.now();
+    const entry: CachedResponse<T> = {
+      key,
+      method,
+      program,
+      data,
+      fetchedAt: now,
+      expiresAt: now + this.getTTL(method),
+      eventIds: this.extractIds(params, 'eventId', 'event'),
+      teamIds: this.extractIds(params, 'teamId', 'team'),
+    };
+    const serialized = JSON.stringify(entry);
+
+    if (serialized.length > MAX_ENTRY_BYTES) {
+      logger.debug('Not caching', method, 'response of', serialized.length, 'bytes');
+      this.deleteEntry(key);
+    } else {
+      // Re-insert so Map iteration order reflects recency
+      this.addEntry(entry, serialized.length);
+      this.pendingWrites.set(key, serialized);
+      this.evictToFit(MAX_CACHE_BYTES);
+    }
+
+    this.scheduleSave();
+  }
+
+  /**
+   * Determine whether a response is the empty placeholder the API services
+   * return after swallowing a network error, rather than real data
+   */
+  public isFailedResponse(result: any): boolean {
+    if (result === null || result === undefined) {
+      return true;
+    }
+    if (typeof result === 'object' && !Array.isArray(result) && 'data' in result && 'meta' in result) {
+      const meta = result.meta;
+      return Array.isArray(result.data) && result.data.length === 0 &&
+        (!meta || Object.keys(meta).length === 0);
+    }
+    return false;
+  }
+
+  public recordHit(key: string, entry: CachedResponse): void {
+    this.hits++;
+    this.servedInfo.set(key, { fetchedAt: entry.fetchedAt, isStale: false, fromCache: true });
+  }
+
+  public recordMiss(key: string): void {
+    this.misses++;
+    this.servedInfo.set(key, { fetchedAt: Date.now(), isStale: false, fromCache: false });
+  }
+
+  public recordStale(key: string, entry: CachedResponse): void {
+    this.staleServed++;
+    this.servedInfo.set(key, { fetchedAt: entry.fetchedAt, isStale: true, fromCache: true });
+    logger.warn('Serving stale', entry.method, 'response from', new Date(entry.fetchedAt).toISOString());
+  }
+
+  /**
+   * Get freshness information for the last response served for a key
+   */
+  public getInfo(key: string): ResponseCacheInfo | null {
+    return this.servedInfo.get(key) || null;
+  }
+
+  private removeWhere(predicate: (entry: CachedResponse) => boolean): number {
+    let removed = 0;
+    Array.from(this.entries.values()).forEach(entry => {
+      if (predicate(entry)) {
+        this.deleteEntry(entry.key);
+        this.servedInfo.delete(entry.key);
+        removed++;
+      }
+    });
+    if (removed > 0) {
+      this.scheduleSave();
+    }
+    return removed;
+  }
+
+  /**
+   * Drop every cached response that belongs to an event (pull-to-refresh)
+   */
+  public invalidateEvent(eventId: number): void {
+    const removed = this.removeWhere(entry => entry.eventIds.includes(eventId));
+    logger.debug('Invalidated', removed, 'cached responses for event', eventId);
+  }
+
+  /**
+   * Drop every cached response that belongs to a team (pull-to-refresh)
+   */
+  public invalidateTeam(teamId: number): void {
+    const removed = this.removeWhere(entry => entry.teamIds.includes(teamId));
+    logger.debug('Invalidated', removed, 'cached responses for team', teamId);
+  }
+
+  public invalidateMethod(method: string): void {
+    const removed = this.removeWhere(entry => entry.method === method);
+    logger.debug('Invalidated', removed, 'cached', method, 'responses');
+  }
+
+  public async clear(): Promise<void> {
+    const storedKeys = [...Array.from(this.entries.keys()), ...Array.from(this.removedKeys)];
+    this.entries.clear();
+    this.entrySizes.clear();
+    this.totalBytes = 0;
+    this.pendingWrites.clear();
+    this.removedKeys.clear();
+    this.servedInfo.clear();
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    try {
+      await Promise.all(storedKeys.map(key => storage.removeItem(RESPONSE_CACHE_ENTRY_PREFIX + key)));
+      await storage.removeItem(RESPONSE_CACHE_INDEX_KEY);
+    } catch (error) {
+      logger.error('Failed to clear response cache storage:', error);
+    }
+    logger.debug('Response cache cleared');
+  }
+
+  public getStats(): ResponseCacheStats {
+    let oldest: number | null = null;
+    this.entries.forEach(entry => {
+      if (oldest === null || entry.fetchedAt < oldest) {
+        oldest = entry.fetchedAt;
+      }
+    });
+    return {
+      entries: this.entries.size,
+      bytes: this.totalBytes,
+      hits: this.hits,
+      misses: this.misses,
+      staleServed: this.staleServed,
+      oldestEntry: oldest,
+    };
+  }
+}
+
+// Export singleton instance
+export const responseCache = new ResponseCacheService();
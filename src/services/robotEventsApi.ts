@@ -30,6 +30,7 @@ import {
 import { WorldSkillsResponse } from '../types';
 import { getProgramId } from '../utils/programMappings';
 import { createLogger } from '../utils/logger';
+import { RequestQueue, RequestOptions } from './requestQueue';
 
 const logger = createLogger('robotEventsApi');
 /**
@@ -47,6 +48,7 @@ const logger = createLogger('robotEventsApi');
  */
 class ComprehensiveRobotEventsAPI {
   private baseUrl = 'https://www.robotevents.com/api/v2';
+  private baseUrlOverride: string | null = null; // Set in developer mode to use a local mock server
   private selectedProgram: string = 'VEX V5 Robotics Competition';
 
   // API key management - General pool
@@ -90,6 +92,12 @@ class ComprehensiveRobotEventsAPI {
   // Rate limiting
   private lastRequestTime = 0;
   private requestDelay = 100; // Minimum delay between requests in milliseconds
+  private readonly MAX_RATE_LIMIT_RETRIES = 3; // Give up after this many consecutive 429s
+  private readonly DEFAULT_RETRY_AFTER_MS = 5000; // Used when 429 has no Retry-After header
+  private readonly MAX_RETRY_AFTER_MS = 60 * 1000;
+
+  // Request queue - coalesces duplicate calls, bounds concurrency, prioritizes foreground work
+  private requestQueue = new RequestQueue(4);
 
   constructor() {
     this.initializeApiKeys();
@@ -398,6 +406,7 @@ class ComprehensiveRobotEventsAPI {
         failedKeys: this.teamBrowserFailedKeys.size,
         usageCount: this.teamBrowserKeyUsageCount,
       },
+      queue: this.requestQueue.getStats(),
     };
   }
 
@@ -407,6 +416,7 @@ class ComprehensiveRobotEventsAPI {
   public resetApiUsageStats(): void {
     this.generalKeyUsageCount = 0;
     this.teamBrowserKeyUsageCount = 0;
+    this.requestQueue.resetStats();
     logger.debug('API usage statistics reset');
   }
 
@@ -599,20 +609,11 @@ class ComprehensiveRobotEventsAPI {
     }
   }
 
-  // Core request method with authentication and retry logic
-  private async request<T>(endpoint: string, params: Record<string, any> = {}, retryCount: number = 0): Promise<T> {
-
-    // Rate limiting
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    if (timeSinceLastRequest < this.requestDelay) {
-      const delayNeeded = this.requestDelay - timeSinceLastRequest;
-      logger.debug('Rate limiting: waiting', delayNeeded, 'ms before request');
-      await new Promise(resolve => setTimeout(resolve, delayNeeded));
-    }
-    this.lastRequestTime = Date.now();
-
-    const url = new URL(`${this.baseUrl}${endpoint}`);
+  /**
+   * Build the full request URL with pagination defaults and array parameters
+   */
+  private buildRequestUrl(endpoint: string, params: Record<string, any>): URL {
+    const url = new URL(`${this.baseUrlOverride || this.baseUrl}${endpoint}`);
 
     // Add pagination defaults for list endpoints
     const isListEndpoint = endpoint.includes('/teams') || endpoint.includes('/events') ||
@@ -639,6 +640,56 @@ class ComprehensiveRobotEventsAPI {
       }
     });
 
+    return url;
+  }
+
+  /**
+   * Enforce the minimum spacing between requests
+   */
+  private async waitForRequestSlot(logPrefix: string = ''): Promise<void> {
+    const now = Date.now();
+    const timeSinceLastRequest = now - this.lastRequestTime;
+    if (timeSinceLastRequest < this.requestDelay) {
+      const delayNeeded = this.requestDelay - timeSinceLastRequest;
+      logger.debug(`${logPrefix}Rate limiting: waiting`, delayNeeded, 'ms before request');
+      await new Promise(resolve => setTimeout(resolve, delayNeeded));
+    }
+    this.lastRequestTime = Date.now();
+  }
+
+  /**
+   * Work out how long to wait after a 429 response.
+   * Honors Retry-After (seconds or HTTP date), otherwise backs off exponentially.
+   */
+  private getRetryAfterMs(response: Response, attempt: number): number {
+    const retryAfter = response.headers.get('Retry-After');
+    if (retryAfter) {
+      const seconds = parseInt(retryAfter, 10);
+      if (!isNaN(seconds)) {
+        return Math.min(Math.max(seconds, 0) * 1000, this.MAX_RETRY_AFTER_MS);
+      }
+      const retryDate = Date.parse(retryAfter);
+      if (!isNaN(retryDate)) {
+        return Math.min(Math.max(retryDate - Date.now(), 0), this.MAX_RETRY_AFTER_MS);
+      }
+    }
+    return Math.min(this.DEFAULT_RETRY_AFTER_MS * Math.pow(2, attempt), this.MAX_RETRY_AFTER_MS);
+  }
+
+  // Core request method - coalesces identical calls and runs them through the request queue
+  private async request<T>(endpoint: string, params: Record<string, any> = {}, options: RequestOptions = {}): Promise<T> {
+    const url = this.buildRequestUrl(endpoint, params);
+    return this.requestQueue.enqueue(`general:${url.toString()}`, options.priority ?? 'foreground', () =>
+      this.performRequest<T>(endpoint, url)
+    );
+  }
+
+  // Executes a queued request with authentication and retry logic
+  private async performRequest<T>(endpoint: string, url: URL, retryCount: number = 0, rateLimitRetries: number = 0): Promise<T> {
+
+    // Rate limiting
+    await this.waitForRequestSlot();
+
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
     };
@@ -656,11 +707,14 @@ class ComprehensiveRobotEventsAPI {
 
       // Handle rate limiting responses
       if (response.status === 429) {
-        const retryAfter = response.headers.get('Retry-After');
-        const waitTime = retryAfter ? parseInt(retryAfter) * 1000 : 5000;
+        if (rateLimitRetries >= this.MAX_RATE_LIMIT_RETRIES) {
+          throw new Error(`HTTP error! status: 429, rate limit retries exhausted for ${endpoint}`);
+        }
+        const waitTime = this.getRetryAfterMs(response, rateLimitRetries);
         logger.warn('Rate limited! Waiting', waitTime, 'ms before retry');
+        this.requestQueue.backoff(waitTime);
         await new Promise(resolve => setTimeout(resolve, waitTime));
-        return this.request(endpoint, params, retryCount);
+        return this.performRequest(endpoint, url, retryCount, rateLimitRetries + 1);
       }
 
       if (!response.ok) {
@@ -675,7 +729,7 @@ class ComprehensiveRobotEventsAPI {
           // Retry with next key if we haven't exceeded retry limit
           if (retryCount < this.apiKeys.length - 1) {
             logger.debug('Retrying with next API key (attempt', retryCount + 1, ')');
-            return this.request(endpoint, params, retryCount + 1);
+            return this.performRequest(endpoint, url, retryCount + 1, rateLimitRetries);
           }
 
           throw new Error(`API Authentication failed - all API keys may be expired or invalid`);
@@ -704,7 +758,7 @@ class ComprehensiveRobotEventsAPI {
           // Retry with next key if we haven't exceeded retry limit
           if (retryCount < this.apiKeys.length - 1) {
             logger.debug('Retrying with next API key (attempt', retryCount + 1, ')');
-            return this.request(endpoint, params, retryCount + 1);
+            return this.performRequest(endpoint, url, retryCount + 1, rateLimitRetries);
           }
 
           throw new Error(`JSON parse error - received HTML instead of JSON, all API keys failed: ${parseError}`);
@@ -724,44 +778,17 @@ class ComprehensiveRobotEventsAPI {
    * Team Browser request method - uses dedicated team browser API keys
    * Identical to regular request but uses team browser key pool
    */
-  private async teamBrowserRequest<T>(endpoint: string, params: Record<string, any> = {}, retryCount: number = 0): Promise<T> {
-
-    // Rate limiting
-    const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    if (timeSinceLastRequest < this.requestDelay) {
-      const delayNeeded = this.requestDelay - timeSinceLastRequest;
-      logger.debug('[Team Browser] Rate limiting: waiting', delayNeeded, 'ms before request');
-      await new Promise(resolve => setTimeout(resolve, delayNeeded));
-    }
-    this.lastRequestTime = Date.now();
-
-    const url = new URL(`${this.baseUrl}${endpoint}`);
-
-    // Add pagination defaults for list endpoints
-    const isListEndpoint = endpoint.includes('/teams') || endpoint.includes('/events') ||
-                          endpoint.includes('/rankings') || endpoint.includes('/awards') ||
-                          endpoint.includes('/skills') || endpoint.includes('/matches') ||
-                          endpoint.includes('/seasons') || endpoint.includes('/programs');
-    const isSingleResource = /\/\d+$/.test(endpoint);
+  private async teamBrowserRequest<T>(endpoint: string, params: Record<string, any> = {}, options: RequestOptions = {}): Promise<T> {
+    const url = this.buildRequestUrl(endpoint, params);
+    return this.requestQueue.enqueue(`teamBrowser:${url.toString()}`, options.priority ?? 'foreground', () =>
+      this.performTeamBrowserRequest<T>(endpoint, url)
+    );
+  }
 
-    if (!params.per_page && isListEndpoint && !isSingleResource) {
-      params.per_page = 250; // Maximum allowed by API
-    }
+  private async performTeamBrowserRequest<T>(endpoint: string, url: URL, retryCount: number = 0, rateLimitRetries: number = 0): Promise<T> {
 
-    // Build URL parameters
-    Object.keys(params).forEach(key => {
-      if (params[key] !== undefined && params[key] !== null) {
-        if (Array.isArray(params[key])) {
-          // Handle array parameters properly for API
-          params[key].forEach((value: any) => {
-            url.searchParams.append(key + '[]', value.toString());
-          });
-        } else {
-          url.searchParams.append(key, params[key].toString());
-        }
-      }
-    });
+    // Rate limiting
+    await this.waitForRequestSlot('[Team Browser] ');
 
     const headers: Record<string, string> = {
       'Content-Type': 'application/json',
@@ -788,11 +815,14 @@ class ComprehensiveRobotEventsAPI {
 
       // Handle rate limiting responses
       if (response.status === 429) {
-        const retryAfter = response.headers.get('Retry-After');
-        const waitTime = retryAfter ? parseInt(retryAfter) * 1000 : 5000;
+        if (rateLimitRetries >= this.MAX_RATE_LIMIT_RETRIES) {
+          throw new Error(`[Team Browser] HTTP error! status: 429, rate limit retries exhausted for ${endpoint}`);
+        }
+        const waitTime = this.getRetryAfterMs(response, rateLimitRetries);
         logger.warn('[Team Browser] Rate limited! Waiting', waitTime, 'ms before retry');
+        this.requestQueue.backoff(waitTime);
         await new Promise(resolve => setTimeout(resolve, waitTime));
-        return this.teamBrowserRequest(endpoint, params, retryCount);
+        return this.performTeamBrowserRequest(endpoint, url, retryCount, rateLimitRetries + 1);
       }
 
       if (!response.ok) {
@@ -808,7 +838,7 @@ class ComprehensiveRobotEventsAPI {
           const maxRetries = this.teamBrowserApiKeys.length > 0 ? this.teamBrowserApiKeys.length - 1 : this.apiKeys.length - 1;
           if (retryCount < maxRetries) {
             logger.debug('[Team Browser] Retrying with next API key (attempt', retryCount + 1, ')');
-            return this.teamBrowserRequest(endpoint, params, retryCount + 1);
+            return this.performTeamBrowserRequest(endpoint, url, retryCount + 1, rateLimitRetries);
           }
 
           throw new Error(`[Team Browser] API Authentication failed - all API keys may be expired or invalid`);
@@ -837,7 +867,7 @@ class ComprehensiveRobotEventsAPI {
           const maxRetries = this.teamBrowserApiKeys.length > 0 ? this.teamBrowserApiKeys.length - 1 : this.apiKeys.length - 1;
           if (retryCount < maxRetries) {
             logger.debug('[Team Browser] Retrying with next API key (attempt', retryCount + 1, ')');
-            return this.teamBrowserRequest(endpoint, params, retryCount + 1);
+            return this.performTeamBrowserRequest(endpoint, url, retryCount + 1, rateLimitRetries);
           }
 
           throw new Error(`[Team Browser] JSON parse error - received HTML instead of JSON, all API keys failed: ${parseError}`);
@@ -866,6 +896,15 @@ class ComprehensiveRobotEventsAPI {
     return this.selectedProgram;
   }
 
+  /**
+   * Send requests to a different server instead of the production API
+   * (e.g. the local mock server). Pass null to restore the default.
+   */
+  public setBaseUrlOverride(url: string | null): void {
+    this.baseUrlOverride = url;
+    logger.info('Base URL override set to:', url || 'none');
+  }
+
   public getApiKeyStatus(): APIKeyStatus {
     return {
       total: this.apiKeys.length,
@@ -921,7 +960,7 @@ class ComprehensiveRobotEventsAPI {
    * Get all seasons
    * GET /seasons
    */
-  public async getSeasons(filters?: SeasonFilters): Promise<SeasonsResponse> {
+  public async getSeasons(filters?: SeasonFilters, options?: RequestOptions): Promise<SeasonsResponse> {
     try {
       const params: Record<string, any> = {};
 
@@ -934,7 +973,7 @@ class ComprehensiveRobotEventsAPI {
       if (filters?.page) params.page = filters.page;
       if (filters?.per_page) params.per_page = filters.per_page;
 
-      const response = await this.request<SeasonsResponse>('/seasons', params);
+      const response = await this.request<SeasonsResponse>('/seasons', params, options);
       return response;
     } catch (error) {
       logger.error('Failed to get seasons:', error);
@@ -1120,7 +1159,7 @@ class ComprehensiveRobotEventsAPI {
    * Get matches for a division in an event
    * GET /events/{id}/divisions/{div}/matches
    */
-  public async getEventDivisionMatches(eventId: number, divisionId: number, filters?: MatchFilters): Promise<MatchesResponse> {
+  public async getEventDivisionMatches(eventId: number, divisionId: number, filters?: MatchFilters, options?: RequestOptions): Promise<MatchesResponse> {
     try {
       const params: Record<string, any> = {};
 
@@ -1131,7 +1170,7 @@ class ComprehensiveRobotEventsAPI {
       if (filters?.page) params.page = filters.page;
       if (filters?.per_page) params.per_page = filters.per_page;
 
-      const response = await this.request<MatchesResponse>(`/events/${eventId}/divisions/${divisionId}/matches`, params);
+      const response = await this.request<MatchesResponse>(`/events/${eventId}/divisions/${divisionId}/matches`, params, options);
       return response;
     } catch (error) {
       logger.error('Failed to get matches for event', eventId || 'Unknown', ', division', divisionId || 'Unknown', ':', error);
@@ -1164,7 +1203,7 @@ class ComprehensiveRobotEventsAPI {
    * Get rankings for a division in an event
    * GET /events/{id}/divisions/{div}/rankings
    */
-  public async getEventDivisionRankings(eventId: number, divisionId: number, filters?: RankingFilters): Promise<RankingsResponse> {
+  public async getEventDivisionRankings(eventId: number, divisionId: number, filters?: RankingFilters, options?: RequestOptions): Promise<RankingsResponse> {
     try {
       let allRankings: Ranking[] = [];
       let currentPage = 1;
@@ -1179,7 +1218,7 @@ class ComprehensiveRobotEventsAPI {
         if (filters?.team) params.team = filters.team;
         if (filters?.rank) params.rank = filters.rank;
 
-        const response = await this.request<RankingsResponse>(`/events/${eventId}/divisions/${divisionId}/rankings`, params);
+        const response = await this.request<RankingsResponse>(`/events/${eventId}/divisions/${divisionId}/rankings`, params, options);
 
         if (!response.data || response.data.length === 0) {
           hasMorePages = false;
@@ -1374,7 +1413,7 @@ class ComprehensiveRobotEventsAPI {
    * Get events for a team
    * GET /teams/{id}/events
    */
-  public async getTeamEvents(teamId: number, filters?: EventFilters): Promise<EventsResponse> {
+  public async getTeamEvents(teamId: number, filters?: EventFilters, options?: RequestOptions): Promise<EventsResponse> {
     try {
       const params: Record<string, any> = {};
 
@@ -1386,7 +1425,7 @@ class ComprehensiveRobotEventsAPI {
       if (filters?.page) params.page = filters.page;
       if (filters?.per_page) params.per_page = filters.per_page;
 
-      const response = await this.request<EventsResponse>(`/teams/${teamId}/events`, params);
+      const response = await this.request<EventsResponse>(`/teams/${teamId}/events`, params, options);
       return response;
     } catch (error) {
       logger.error('Failed to get events for team', teamId || 'Unknown', ':', error);
@@ -1466,7 +1505,7 @@ class ComprehensiveRobotEventsAPI {
    * Get awards for a team
    * GET /teams/{id}/awards
    */
-  public async getTeamAwards(teamId: number, filters?: AwardFilters): Promise<AwardsResponse> {
+  public async getTeamAwards(teamId: number, filters?: AwardFilters, options?: RequestOptions): Promise<AwardsResponse> {
     try {
       const params: Record<string, any> = {};
 
@@ -1475,7 +1514,7 @@ class ComprehensiveRobotEventsAPI {
       if (filters?.page) params.page = filters.page;
       if (filters?.per_page) params.per_page = filters.per_page;
 
-      const response = await this.request<AwardsResponse>(`/teams/${teamId}/awards`, params);
+      const response = await this.request<AwardsResponse>(`/teams/${teamId}/awards`, params, options);
       return response;
     } catch (error) {
       logger.error('Failed to get awards for team', teamId || 'Unknown', ':', error);
@@ -45,3 +45,53 @@ export interface GameManual {
 export interface FavoriteRuleStorage {
   [programSeason: string]: string[]; // program_season -> array of rule IDs
 }
+
+export type RuleChangeType = 'added' | 'removed' | 'modified';
+
+export interface TextDiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface RuleChange {
+  ruleId: string;                  // Rule.id the change is keyed by
+  rule: string;                    // Rule code at the time of the change
+  title: string;
+  type: RuleChangeType;
+  changedFields?: string[];        // For modified rules (e.g. "title", "text", "severity")
+  textDiff?: TextDiffSegment[];    // Word-level diff of the rule text, for modified rules
+}
+
+export interface ManualChangelogEntry {
+  id: string;                      // "<fromVersion>-><toVersion>"
+  program: string;                 // Program short name (e.g., "V5RC")
+  season: string;
+  fromVersion: string | null;
+  toVersion: string | null;
+  detectedAt: number;              // When the update was downloaded (epoch ms)
+  viewed?: boolean;                // Set once the user has opened the changelog
+  changes: RuleChange[];
+}
+
+export interface ManualChangelogStorage {
+  [programSeason: string]: ManualChangelogEntry[]; // program_season -> newest first
+}
+
+export interface QnAEntry {
+  id: string;                      // Q&A number on RobotEvents (e.g., "2431")
+  title: string;                   // Short question title
+  question: string;
+  answer: string | null;           // null while the question is unanswered
+  askedDate?: string;              // ISO date
+  answeredDate?: string;           // ISO date
+  url?: string;                    // Link to the official Q&A page
+  ruleCodes: string[];             // Referenced rules with brackets (e.g., ["<SG1>", "<R3>"])
+  fromManual?: boolean;            // Summary from the manual's "Significant Q&As" list; full text is on RobotEvents
+}
+
+export interface QnAData {
+  program: string;                 // Program short name (e.g., "V5RC")
+  season: string;
+  version?: string;                // YYYYMMDD, compared like GameManual.version
+  entries: QnAEntry[];
+}
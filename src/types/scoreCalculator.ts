@@ -0,0 +1,115 @@
+/**
+ * Score Calculator Types
+ *
+ * Type definitions for declarative score calculator definitions. Each game ships
+ * as a JSON file in src/data/scoreCalculators (one per program/season, like the
+ * game manuals) and is rendered by the generic ScoreCalculatorScreen.
+ */
+
+export type ScoringElementType = 'counter' | 'toggle' | 'choice';
+
+export interface ScoringOption {
+  id: string;                      // Option identifier (e.g., "bullseye")
+  label: string;                   // Display label (e.g., "Bullseye")
+  points: number;                  // Points awarded when selected
+}
+
+export interface ScoringElement {
+  id: string;                      // Unique within a sheet (e.g., "blocksScored")
+  label: string;                   // Display label (e.g., "Blocks Scored")
+  type: ScoringElementType;
+  points?: number;                 // Points per count (counter) or when on (toggle)
+  pointsTable?: number[];          // Points by count, overrides points (e.g., [0, 8, 30])
+  max?: number;                    // Maximum count for counters (omit for unlimited)
+  options?: ScoringOption[];       // Options for choice elements
+  defaultOption?: string;          // Initially selected option ID (defaults to the first option)
+  longPressStep?: number;          // Long press changes a counter by this step (defaults to jumping to max/0)
+  color?: string;                  // Hex color or settings color key (e.g., "redAllianceColor")
+  description?: string;            // Optional helper text shown under the label
+}
+
+export interface ScoringBonusCondition {
+  element: string;                 // Element ID in the same sheet
+  min?: number;                    // Counter/toggle value must be at least this (toggle on = 1)
+  option?: string;                 // Choice element must have this option selected
+}
+
+export interface ScoringBonus {
+  id: string;
+  label: string;
+  points: number;
+  conditions: ScoringBonusCondition[];  // All conditions must be met
+}
+
+export interface ScoringPeriod {
+  id: string;                      // e.g., "autonomous", "endOfMatch"
+  label: string;
+  elements: ScoringElement[];
+  bonuses?: ScoringBonus[];        // Awarded automatically when their conditions are met
+}
+
+export interface ScoringConstraint {
+  type: 'maxTotal';                // Combined count of elements may not exceed a limit
+  elements: string[];              // Counter element IDs that share the limit
+  max?: number;                    // Fixed limit
+  maxElement?: string;             // Or the current value of another counter
+  message: string;                 // Shown when the constraint is violated
+}
+
+export interface ScoreSheet {
+  id: string;                      // e.g., "match", "skills"
+  label: string;                   // Tab label
+  icon?: string;                   // Ionicons name for the tab
+  category?: 'match' | 'skills';   // Skills sheets feed the skills run log (defaults to match)
+  description?: string;
+  periods: ScoringPeriod[];
+  constraints?: ScoringConstraint[];
+}
+
+export interface ScoreCalculatorDefinition {
+  id: string;                      // e.g., "v5rc-2025-2026"
+  program: string;                 // Program short name (e.g., "V5RC")
+  season: string;                  // Season (e.g., "2025-2026")
+  title: string;                   // Game name (e.g., "Push Back")
+  sheets: ScoreSheet[];
+}
+
+/**
+ * Definition as written in JSON. Elements used by several sheets can be defined
+ * once in `elements` and referenced from a period by ID, so their point values
+ * and limits stay in step. The registry resolves references on load.
+ */
+export interface ScoringPeriodSource extends Omit<ScoringPeriod, 'elements'> {
+  elements: (ScoringElement | string)[];
+}
+
+export interface ScoreSheetSource extends Omit<ScoreSheet, 'periods'> {
+  periods: ScoringPeriodSource[];
+}
+
+export interface ScoreCalculatorSource extends Omit<ScoreCalculatorDefinition, 'sheets'> {
+  elements?: ScoringElement[];     // Shared elements, referenced by ID
+  sheets: ScoreSheetSource[];
+}
+
+// Counter: number, toggle: boolean, choice: selected option ID
+export type ScoringValue = number | boolean | string;
+
+export type ScoreSheetState = Record<string, ScoringValue>;
+
+export interface ScoringViolation {
+  elements: string[];
+  message: string;
+}
+
+export interface PeriodScore {
+  id: string;
+  label: string;
+  points: number;                  // Element points plus earned bonuses
+  bonuses: { id: string; label: string; points: number }[];
+}
+
+export interface SheetScore {
+  total: number;
+  periods: PeriodScore[];
+}
@@ -0,0 +1,88 @@
+/**
+ * Scouting Types
+ *
+ * Type definitions for structured scouting templates. Bundled templates live in
+ * src/data/scoutingTemplates; users can duplicate and edit them per program.
+ * Responses are stored on the TeamMatchNote alongside the free-text note.
+ */
+
+export type ScoutingFieldType = 'number' | 'boolean' | 'enum' | 'rating';
+
+export interface ScoutingFieldOption {
+  id: string;                      // Option identifier (e.g., "winPoint")
+  label: string;                   // Display label (e.g., "Win Point")
+}
+
+export interface ScoutingField {
+  id: string;                      // Unique within a template (e.g., "defense")
+  label: string;                   // Display label (e.g., "Defense")
+  type: ScoutingFieldType;
+  description?: string;            // Optional helper text shown under the label
+  min?: number;                    // Number fields: lowest allowed value (defaults to 0)
+  max?: number;                    // Number fields: highest allowed value (omit for unlimited)
+  options?: ScoutingFieldOption[]; // Enum fields: selectable options
+  scale?: number;                  // Rating fields: number of stars (defaults to 5)
+  lowerIsBetter?: boolean;         // Trends read as improving when the value goes down (e.g., penalties)
+}
+
+export interface ScoutingTemplate {
+  id: string;                      // e.g., "robotics-default" or "template_<timestamp>_<random>"
+  name: string;
+  programs: string[];              // Program short names the template applies to (e.g., ["V5RC", "VURC"])
+  builtIn?: boolean;               // Bundled templates are read-only; duplicate them to customize
+  fields: ScoutingField[];
+  createdAt?: string;              // ISO date string (custom templates)
+  updatedAt?: string;              // ISO date string (custom templates)
+}
+
+// Number/rating: number, boolean: boolean, enum: selected option ID
+export type ScoutingValue = number | boolean | string;
+
+export interface ScoutingData {
+  templateId: string;
+  values: Record<string, ScoutingValue>;
+}
+
+export type ScoutingTrend = 'up' | 'down' | 'flat';
+
+export interface NumericFieldSummary {
+  fieldId: string;
+  label: string;
+  type: 'number' | 'rating';
+  count: number;
+  average: number;
+  min: number;
+  max: number;
+  trend: ScoutingTrend;            // Direction of the values over the event, oldest to newest
+  improving: boolean | null;       // Trend read through lowerIsBetter, null when flat
+}
+
+export interface BooleanFieldSummary {
+  fieldId: string;
+  label: string;
+  type: 'boolean';
+  count: number;
+  trueCount: number;
+  rate: number;                    // Share of responses that were "yes" (0-1)
+  trend: ScoutingTrend;
+  improving: boolean | null;
+}
+
+export interface EnumFieldSummary {
+  fieldId: string;
+  label: string;
+  type: 'enum';
+  count: number;
+  counts: Record<string, number>;  // Option ID -> responses
+  mostCommon: string | null;       // Option ID
+}
+
+export type ScoutingFieldSummary = NumericFieldSummary | BooleanFieldSummary | EnumFieldSummary;
+
+export interface TeamScoutingSummary {
+  teamId: number;
+  teamNumber: string;
+  teamName: string;
+  matchesScouted: number;
+  fields: ScoutingFieldSummary[];
+}
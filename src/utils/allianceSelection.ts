@@ -0,0 +1,203 @@
+/**
+ * ALLIANCE SELECTION UTILITIES
+ *
+ * Replays the actions taken during alliance selection to work out who is picking,
+ * which alliances have formed and which teams are still available, and ranks the
+ * available teams as partner suggestions.
+ *
+ * Selection follows the V5RC procedure: the highest ranked team not yet on an
+ * alliance is the captain on the clock. A team that declines an invitation can no
+ * longer be picked, but can still become a captain when its turn comes.
+ */
+
+import { TeamMatchNote } from '../contexts/NotesContext';
+
+export type SelectionActionType = 'accept' | 'decline';
+
+export interface SelectionAction {
+  type: SelectionActionType;
+  captainId: number;
+  teamId: number; // Invited team
+}
+
+export interface FormedAlliance {
+  number: number; // 1-based alliance seed
+  captainId: number;
+  partnerIds: number[];
+}
+
+export interface SelectionState {
+  alliances: FormedAlliance[];
+  currentCaptainId: number | null; // Captain on the clock, null when selection is complete
+  currentAllianceNumber: number | null;
+  upcomingCaptainIds: number[]; // Next captains if nobody below them is picked
+  availableTeamIds: number[]; // Teams the current captain may invite, in rank order
+  declinedTeamIds: number[];
+  complete: boolean;
+}
+
+export interface SuggestionWeights {
+  opr: number;
+  skills: number;
+  tags: Record<string, number>; // Note tag (without '#') -> weight, negative to avoid
+}
+
+export const DEFAULT_SUGGESTION_WEIGHTS: SuggestionWeights = {
+  opr: 1,
+  skills: 0.5,
+  tags: {},
+};
+
+export interface TeamSelectionData {
+  teamId: number;
+  opr?: number;
+  skillsScore?: number;
+  tags: Record<string, number>; // Tag -> share of the team's notes that use it (0-1)
+}
+
+export interface PartnerSuggestion {
+  teamId: number;
+  score: number;
+  oprScore: number; // Each component is normalized to 0-1 across the candidates
+  skillsScore: number;
+  tagScore: number;
+}
+
+/**
+ * Replay selection actions against the qualification rank order
+ * @param rankedTeamIds Team ids ordered by qualification rank
+ * @param actions Accepts and declines in the order they happened
+ * @param allianceCount Number of alliances to form
+ * @param partnersPerAlliance Teams each captain picks (1 for 2-team alliances)
+ */
+export const computeSelectionState = (
+  rankedTeamIds: number[],
+  actions: SelectionAction[],
+  allianceCount: number,
+  partnersPerAlliance: number = 1
+): SelectionState => {
+  const alliances: FormedAlliance[] = [];
+  const onAlliance = new Set<number>();
+  const declined = new Set<number>();
+  let openAlliance: FormedAlliance | null = null;
+
+  const nextCaptain = (): number | null =>
+    rankedTeamIds.find(teamId => !onAlliance.has(teamId)) ?? null;
+
+  const openNextAlliance = () => {
+    if (openAlliance || alliances.length >= allianceCount) return;
+    const captainId = nextCaptain();
+    if (captainId === null) return;
+    openAlliance = { number: alliances.length + 1, captainId, partnerIds: [] };
+    alliances.push(openAlliance);
+    onAlliance.add(captainId);
+  };
+
+  openNextAlliance();
+  actions.forEach(action => {
+    const alliance = openAlliance as FormedAlliance | null;
+    if (!alliance || alliance.captainId !== action.captainId) return; // Stale action
+
+    if (action.type === 'decline') {
+      declined.add(action.teamId);
+      return;
+    }
+
+    if (onAlliance.has(action.teamId) || declined.has(action.teamId)) return;
+    alliance.partnerIds.push(action.teamId);
+    onAlliance.add(action.teamId);
+
+    if (alliance.partnerIds.length >= partnersPerAlliance) {
+      openAlliance = null;
+      openNextAlliance();
+    }
+  });
+
+  const current = openAlliance as FormedAlliance | null;
+  const availableTeamIds = rankedTeamIds.filter(teamId => !onAlliance.has(teamId) && !declined.has(teamId));
+  const remainingAlliances = allianceCount - alliances.length;
+  const upcomingCaptainIds = remainingAlliances > 0
+    ? rankedTeamIds.filter(teamId => !onAlliance.has(teamId)).slice(0, remainingAlliances)
+    : [];
+
+  return {
+    alliances,
+    currentCaptainId: current?.captainId ?? null,
+    currentAllianceNumber: current?.number ?? null,
+    upcomingCaptainIds,
+    availableTeamIds,
+    declinedTeamIds: Array.from(declined),
+    complete: current === null,
+  };
+};
+
+/**
+ * Tags written in a note as hashtags, e.g. "great #defense, #reliable drivetrain"
+ */
+export const extractNoteTags = (text: string): string[] => {
+  const matches = text.match(/#[\w-]+/g) || [];
+  return Array.from(new Set(matches.map(tag => tag.slice(1).toLowerCase())));
+};
+
+/**
+ * Share of each team's notes that use each tag
+ */
+export const getTeamNoteTags = (notes: TeamMatchNote[]): Record<number, Record<string, number>> => {
+  const counts: Record<number, { notes: number; tags: Record<string, number> }> = {};
+
+  notes.forEach(note => {
+    if (!note.note.trim()) return;
+    const entry = counts[note.teamId] || (counts[note.teamId] = { notes: 0, tags: {} });
+    entry.notes++;
+    extractNoteTags(note.note).forEach(tag => {
+      entry.tags[tag] = (entry.tags[tag] || 0) + 1;
+    });
+  });
+
+  const shares: Record<number, Record<string, number>> = {};
+  Object.entries(counts).forEach(([teamId, entry]) => {
+    shares[Number(teamId)] = Object.fromEntries(
+      Object.entries(entry.tags).map(([tag, count]) => [tag, count / entry.notes])
+    );
+  });
+  return shares;
+};
+
+const normalize = (values: (number | undefined)[]): number[] => {
+  const known = values.filter((value): value is number => value !== undefined);
+  if (known.length === 0) return values.map(() => 0);
+  const min = Math.min(...known);
+  const max = Math.max(...known);
+  // Missing data counts as the weakest candidate rather than average
+  return values.map(value => value === undefined ? 0 : max === min ? 1 : (value - min) / (max - min));
+};
+
+/**
+ * Rank candidate partners by weighted OPR, skills score and note tags
+ */
+export const suggestPartners = (
+  candidateIds: number[],
+  data: Record<number, TeamSelectionData>,
+  weights: SuggestionWeights
+): PartnerSuggestion[] => {
+  const oprScores = normalize(candidateIds.map(teamId => data[teamId]?.opr));
+  const skillsScores = normalize(candidateIds.map(teamId => data[teamId]?.skillsScore));
+
+  return candidateIds
+    .map((teamId, index) => {
+      const tags = data[teamId]?.tags || {};
+      const tagScore = Object.entries(weights.tags)
+        .reduce((sum, [tag, weight]) => sum + weight * (tags[tag] || 0), 0);
+      const oprScore = oprScores[index];
+      const skillsScore = skillsScores[index];
+
+      return {
+        teamId,
+        score: weights.opr * oprScore + weights.skills * skillsScore + tagScore,
+        oprScore,
+        skillsScore,
+        tagScore,
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+};
@@ -0,0 +1,372 @@
+/**
+ * APP BACKUP UTILITIES
+ *
+ * Moves everything a user has set up to another device in one file. A backup
+ * is split into sections (settings, favorites, notes, ...) that each know which
+ * storage keys or services hold their data, so a restore can bring back only
+ * the sections the user picks. Restoring a section replaces what is on the
+ * device; nothing is merged, except that restored notes keep the photos of
+ * matching notes already on the device.
+ *
+ * Backups are versioned. Files from older versions are upgraded step by step
+ * through MIGRATIONS before they are restored.
+ */
+
+import { Platform } from 'react-native';
+import * as Application from 'expo-application';
+import { STORAGE_KEYS as SETTINGS_STORAGE_KEYS } from '../contexts/SettingsContext';
+import { FAVORITES_STORAGE_KEY, FavoriteItem } from '../contexts/FavoritesContext';
+import { NOTES_STORAGE_KEY, TeamMatchNote } from '../contexts/NotesContext';
+import { TEMPLATES_STORAGE_KEY, ACTIVE_TEMPLATES_STORAGE_KEY } from '../contexts/ScoutingTemplatesContext';
+import { SESSIONS_STORAGE_KEY } from '../contexts/CalculatorSessionsContext';
+import { SELECTION_STORAGE_KEY } from '../contexts/AllianceSelectionContext';
+import { REFEREE_STORAGE_KEY } from '../contexts/RefereeContext';
+import { gameManualService } from '../services/gameManualService';
+import { pdfCacheService } from '../services/pdfCacheService';
+import { FavoriteRuleStorage } from '../types/gameManual';
+import { createLogger } from './logger';
+import { isWeb, storage } from './webCompatibility';
+
+const logger = createLogger('appBackup');
+
+export const BACKUP_FORMAT = 'robonexus-backup';
+export const BACKUP_VERSION = 1;
+
+export type BackupSectionId =
+  | 'settings'
+  | 'favorites'
+  | 'notes'
+  | 'scoutingTemplates'
+  | 'calculatorSessions'
+  | 'allianceSelection'
+  | 'refereeLogs'
+  | 'ruleFavorites'
+  | 'pdfCache';
+
+// Section contents keyed by storage key (or by field for service-backed sections)
+export type BackupSectionData = Record<string, unknown>;
+
+export interface AppBackup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string; // ISO date string
+  appVersion: string | null;
+  platform: string;
+  sections: Partial<Record<BackupSectionId, BackupSectionData>>;
+}
+
+export interface BackupSectionInfo {
+  id: BackupSectionId;
+  label: string;
+  description: string;
+}
+
+interface BackupSection extends BackupSectionInfo {
+  read: () => Promise<BackupSectionData>;
+  write: (data: BackupSectionData) => Promise<void>;
+  summarize: (data: BackupSectionData) => string;
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+// Settings that belong to this device rather than the user
+const DEVICE_SETTINGS_KEYS: string[] = [
+  SETTINGS_STORAGE_KEYS.isDeveloperMode,
+  SETTINGS_STORAGE_KEYS.storedDeveloperCode,
+  SETTINGS_STORAGE_KEYS.developerTabEnabled,
+  SETTINGS_STORAGE_KEYS.devOnlyProgramsEnabled,
+  SETTINGS_STORAGE_KEYS.devLiveEventSimulation,
+  SETTINGS_STORAGE_KEYS.devTestEventId,
+  SETTINGS_STORAGE_KEYS.devFixtureMode,
+  SETTINGS_STORAGE_KEYS.devMockServerUrl,
+  SETTINGS_STORAGE_KEYS.lastWelcomeVersion,
+];
+
+const BACKUP_SETTINGS_KEYS = Object.values(SETTINGS_STORAGE_KEYS).filter(key => !DEVICE_SETTINGS_KEYS.includes(key));
+
+const plural = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+/**
+ * Read storage keys into a section. Settings are stored as plain strings;
+ * everything else is JSON and is parsed so the backup stays readable.
+ */
+const readKeys = async (keys: string[], encoding: 'text' | 'json'): Promise<BackupSectionData> => {
+  const data: BackupSectionData = {};
+  for (const key of keys) {
+    const value = await storage.getItem(key);
+    if (value === null) continue;
+    if (encoding === 'text') {
+      data[key] = value;
+      continue;
+    }
+    try {
+      data[key] = JSON.parse(value);
+    } catch (error) {
+      logger.warn('Skipping unreadable storage key in backup:', key);
+    }
+  }
+  return data;
+};
+
+/**
+ * Write a section back to storage. Keys missing from the section were empty on
+ * the device that made the backup, so they are cleared here too.
+ */
+const writeKeys = async (keys: string[], data: BackupSectionData, encoding: 'text' | 'json'): Promise<void> => {
+  for (const key of keys) {
+    const value = data[key];
+    if (value === undefined || value === null) {
+      await storage.removeItem(key);
+    } else {
+      await storage.setItem(key, encoding === 'json' ? JSON.stringify(value) : String(value));
+    }
+  }
+};
+
+const storageSection = (
+  info: BackupSectionInfo,
+  keys: string[],
+  encoding: 'text' | 'json',
+  summarize: (data: BackupSectionData) => string
+): BackupSection => ({
+  ...info,
+  read: () => readKeys(keys, encoding),
+  write: data => writeKeys(keys, data, encoding),
+  summarize,
+});
+
+const BACKUP_SECTIONS: BackupSection[] = [
+  storageSection(
+    { id: 'settings', label: 'Settings', description: 'Program, season, theme, custom colors and display preferences' },
+    BACKUP_SETTINGS_KEYS,
+    'text',
+    data => {
+      const count = Object.keys(data).length;
+      return data[SETTINGS_STORAGE_KEYS.programColorOverrides]
+        ? `${plural(count, 'preference')}, custom colors`
+        : plural(count, 'preference');
+    }
+  ),
+  {
+    id: 'favorites',
+    label: 'Favorites',
+    description: 'Favorite teams and events for every program',
+    read: () => readKeys([FAVORITES_STORAGE_KEY], 'json'),
+    write: data => writeKeys([FAVORITES_STORAGE_KEY], data, 'json'),
+    summarize: data => {
+      const items = asArray(data[FAVORITES_STORAGE_KEY]) as FavoriteItem[];
+      const teams = items.filter(item => item.type === 'team').length;
+      return `${plural(teams, 'team')}, ${plural(items.length - teams, 'event')}`;
+    },
+  },
+  {
+    id: 'notes',
+    label: 'Notes',
+    description: 'Match notes, team notes and scouting data. Photos stay on this device.',
+    // Image URIs only resolve on the device that took the photo
+    read: async () => {
+      const data = await readKeys([NOTES_STORAGE_KEY], 'json');
+      if (Array.isArray(data[NOTES_STORAGE_KEY])) {
+        data[NOTES_STORAGE_KEY] = (data[NOTES_STORAGE_KEY] as TeamMatchNote[]).map(({ imageUri, ...note }) => note);
+      }
+      return data;
+    },
+    // Restored notes keep the photo of the local note with the same id
+    write: async data => {
+      const restored = data[NOTES_STORAGE_KEY];
+      if (Array.isArray(restored)) {
+        const local = await readKeys([NOTES_STORAGE_KEY], 'json');
+        const localImages = new Map<string, string>();
+        for (const note of asArray(local[NOTES_STORAGE_KEY]) as TeamMatchNote[]) {
+          if (note?.imageUri) localImages.set(note.id, note.imageUri);
+        }
+        data = {
+          ...data,
+          [NOTES_STORAGE_KEY]: (restored as TeamMatchNote[]).map(note =>
+            note.imageUri || !localImages.has(note.id) ? note : { ...note, imageUri: localImages.get(note.id) }
+          ),
+        };
+      }
+      await writeKeys([NOTES_STORAGE_KEY], data, 'json');
+    },
+    summarize: data => plural(asArray(data[NOTES_STORAGE_KEY]).length, 'note'),
+  },
+  storageSection(
+    { id: 'scoutingTemplates', label: 'Scouting Templates', description: 'Custom templates and the active template for each program' },
+    [TEMPLATES_STORAGE_KEY, ACTIVE_TEMPLATES_STORAGE_KEY],
+    'json',
+    data => plural(asArray(data[TEMPLATES_STORAGE_KEY]).length, 'template')
+  ),
+  storageSection(
+    { id: 'calculatorSessions', label: 'Score Calculator Sheets', description: 'Saved score calculator sessions' },
+    [SESSIONS_STORAGE_KEY],
+    'json',
+    data => plural(asArray(data[SESSIONS_STORAGE_KEY]).length, 'sheet')
+  ),
+  storageSection(
+    { id: 'allianceSelection', label: 'Alliance Selection', description: 'Pick lists and alliance selection logs' },
+    [SELECTION_STORAGE_KEY],
+    'json',
+    data => plural(asArray(data[SELECTION_STORAGE_KEY]).length, 'session')
+  ),
+  storageSection(
+    { id: 'refereeLogs', label: 'Referee Logs', description: 'Violations logged in referee mode' },
+    [REFEREE_STORAGE_KEY],
+    'json',
+    data => plural(asArray(data[REFEREE_STORAGE_KEY]).length, 'match log')
+  ),
+  {
+    id: 'ruleFavorites',
+    label: 'Favorite Rules',
+    description: 'Starred game manual rules for every program and season',
+    read: async () => ({ favorites: await gameManualService.getAllFavorites() }),
+    write: data => gameManualService.replaceAllFavorites((data.favorites || {}) as FavoriteRuleStorage),
+    summarize: data => {
+      const favorites = (data.favorites || {}) as FavoriteRuleStorage;
+      return plural(Object.values(favorites).reduce((total, ruleIds) => total + asArray(ruleIds).length, 0), 'rule');
+    },
+  },
+  {
+    id: 'pdfCache',
+    label: 'Offline PDFs',
+    description: 'Judging resources saved for offline use. They are downloaded again after restoring.',
+    // Only the URLs travel; local file paths are meaningless on another device
+    read: async () => ({ urls: pdfCacheService.getAllCachedPDFs().map(pdf => pdf.url) }),
+    write: async data => {
+      const urls = asArray(data.urls).filter((url): url is string => typeof url === 'string');
+      if (isWeb || urls.length === 0) return;
+      // Downloads can take a while, so they finish in the background
+      pdfCacheService.restoreCachedPDFs(urls).then(restored => {
+        logger.debug('Restored', restored, 'of', urls.length, 'cached PDFs');
+      });
+    },
+    summarize: data => plural(asArray(data.urls).length, 'PDF'),
+  },
+];
+
+export const getBackupSections = (): BackupSectionInfo[] =>
+  BACKUP_SECTIONS.map(({ id, label, description }) => ({ id, label, description }));
+
+/**
+ * Upgrades a backup from `version` to `version + 1`. Add an entry whenever
+ * BACKUP_VERSION is bumped so files made by older app versions still restore.
+ */
+const MIGRATIONS: Record<number, (backup: AppBackup) => AppBackup> = {};
+
+export const migrateBackup = (backup: AppBackup): AppBackup => {
+  let migrated = backup;
+  while (migrated.version < BACKUP_VERSION) {
+    const migrate = MIGRATIONS[migrated.version];
+    if (!migrate) {
+      throw new BackupError(`Backups from version ${migrated.version} can no longer be restored.`);
+    }
+    migrated = { ...migrate(migrated), version: migrated.version + 1 };
+  }
+  return migrated;
+};
+
+/**
+ * Collect the chosen sections (all of them by default) into a backup
+ */
+export const createBackup = async (
+  sectionIds: BackupSectionId[] = BACKUP_SECTIONS.map(section => section.id)
+): Promise<AppBackup> => {
+  const sections: AppBackup['sections'] = {};
+  for (const section of BACKUP_SECTIONS) {
+    if (!sectionIds.includes(section.id)) continue;
+    sections[section.id] = await section.read();
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: new Date().toISOString(),
+    appVersion: Application.nativeApplicationVersion,
+    platform: Platform.OS,
+    sections,
+  };
+};
+
+export const serializeBackup = (backup: AppBackup): string => JSON.stringify(backup, null, 2);
+
+/**
+ * Parse a backup file and bring it up to the current version
+ */
+export const parseBackup = (text: string): AppBackup => {
+  let backup: any;
+  try {
+    backup = JSON.parse(text.trim());
+  } catch (error) {
+    backup = null;
+  }
+
+  if (!backup || backup.format !== BACKUP_FORMAT) {
+    throw new BackupError('This is not a RoboNexus backup file.');
+  }
+  if (typeof backup.version !== 'number' || backup.version < 1) {
+    throw new BackupError('This backup file is damaged.');
+  }
+  if (backup.version > BACKUP_VERSION) {
+    throw new BackupError('This backup was made by a newer version of RoboNexus. Update the app to restore it.');
+  }
+  if (!backup.sections || typeof backup.sections !== 'object') {
+    throw new BackupError('This backup file is damaged.');
+  }
+
+  return migrateBackup(backup as AppBackup);
+};
+
+/**
+ * Sections present in a backup with a short description of their contents
+ */
+export const describeBackup = (backup: AppBackup): (BackupSectionInfo & { summary: string })[] =>
+  BACKUP_SECTIONS
+    .filter(section => backup.sections[section.id])
+    .map(section => ({
+      id: section.id,
+      label: section.label,
+      description: section.description,
+      summary: section.summarize(backup.sections[section.id]!),
+    }));
+
+export const getBackupFileName = (date: Date = new Date()): string =>
+  `RoboNexus_Backup_${date.toISOString().slice(0, 10)}.json`;
+
+type RestoreListener = () => void;
+const restoreListeners = new Set<RestoreListener>();
+
+/**
+ * Called after a restore has written to storage. Contexts only read storage
+ * when they mount, so the app uses this to remount them.
+ */
+export const onBackupRestored = (listener: RestoreListener): (() => void) => {
+  restoreListeners.add(listener);
+  return () => {
+    restoreListeners.delete(listener);
+  };
+};
+
+/**
+ * Replace the chosen sections on this device with the backup's contents.
+ * Returns the sections that were restored.
+ */
+export const restoreBackup = async (backup: AppBackup, sectionIds: BackupSectionId[]): Promise<BackupSectionId[]> => {
+  const restored: BackupSectionId[] = [];
+  for (const section of BACKUP_SECTIONS) {
+    const data = backup.sections[section.id];
+    if (!data || !sectionIds.includes(section.id)) continue;
+    await section.write(data);
+    restored.push(section.id);
+  }
+
+  logger.debug('Restored backup sections:', restored.join(', '));
+  restoreListeners.forEach(listener => listener());
+  return restored;
+};
@@ -0,0 +1,247 @@
+/**
+ * Calendar (.ics) export
+ *
+ * Builds iCalendar files for favorited events and for a team's match schedule.
+ * Event days are written as all-day entries taken straight from the event's own
+ * dates, so they land on the right day wherever the calendar is opened. Match
+ * times keep the UTC offset the API reports for the event, declared as a fixed
+ * offset time zone, so calendars show them in event time.
+ */
+
+import { Event, Location, Match } from '../types/api';
+import { getTeamNumbersInMatch } from './liveEvent';
+
+export type CalendarEvent = Pick<Event, 'id' | 'sku' | 'name' | 'start' | 'end' | 'location' | 'locations'>;
+
+// Length of the calendar block for a match; the API has no end time
+const MATCH_DURATION_MINUTES = 10;
+
+// Reminder ahead of each match so the team has time to queue
+const MATCH_REMINDER_MINUTES = 15;
+
+const PRODUCT_ID = '-//RoboNexus//Calendar Export//EN';
+const UID_DOMAIN = 'robonexus';
+
+interface EventDateTime {
+  date: string; // YYYYMMDD in event time
+  time: string; // HHMMSS in event time
+  offset: string | null; // +HHMM, or null when the API sent no offset
+}
+
+const DATE_TIME_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?(Z|[+-]\d{2}:?\d{2})?)?$/;
+
+/**
+ * Splits an API timestamp into its wall-clock parts without converting it to
+ * the device's time zone
+ */
+const parseEventDateTime = (value: string): EventDateTime | null => {
+  const match = DATE_TIME_PATTERN.exec(value);
+  if (!match) return null;
+  const [, year, month, day, hours = '00', minutes = '00', seconds = '00', zone] = match;
+  const offset = !zone ? null : zone === 'Z' ? '+0000' : zone.replace(':', '');
+  return { date: `${year}${month}${day}`, time: `${hours}${minutes}${seconds}`, offset };
+};
+
+const addDays = (date: string, days: number): string => {
+  const shifted = new Date(Date.UTC(+date.slice(0, 4), +date.slice(4, 6) - 1, +date.slice(6, 8) + days));
+  return shifted.toISOString().slice(0, 10).replace(/-/g, '');
+};
+
+const formatUTC = (date: Date): string => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (value: string): string =>
+  value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+
+/**
+ * Content lines are limited to 75 octets; longer ones continue on lines that
+ * start with a space
+ */
+const foldLine = (line: string): string => {
+  const parts: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of line) {
+    const bytes = encodeURIComponent(char).replace(/%[0-9A-F]{2}/g, 'x').length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (currentBytes + bytes > limit) {
+      parts.push(current);
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += bytes;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const formatLocation = (location?: Location): string =>
+  location
+    ? [location.venue, location.address_1, location.city, location.region, location.country].filter(Boolean).join(', ')
+    : '';
+
+// Kept free of ':' so it can be used as an unquoted TZID parameter
+const getTimeZoneId = (offset: string): string => `UTC${offset}`;
+
+const buildTimeZone = (offset: string): string[] => [
+  'BEGIN:VTIMEZONE',
+  `TZID:${getTimeZoneId(offset)}`,
+  'BEGIN:STANDARD',
+  'DTSTART:19700101T000000',
+  `TZOFFSETFROM:${offset}`,
+  `TZOFFSETTO:${offset}`,
+  `TZNAME:${getTimeZoneId(offset)}`,
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+const buildCalendar = (name: string, entries: string[][], offsets: string[] = []): string => {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    ...Array.from(new Set(offsets)).flatMap(buildTimeZone),
+    ...entries.flat(),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+/**
+ * All-day entries for each event: one per league session date, otherwise one
+ * spanning the event's first to last day
+ */
+export const buildEventsCalendar = (events: CalendarEvent[], now: Date = new Date()): string => {
+  const stamp = formatUTC(now);
+
+  const entries = events.flatMap(event => {
+    const url = `https://www.robotevents.com/${event.sku}.html`;
+    const sessionDates = event.locations ? Object.keys(event.locations).sort() : [];
+
+    if (sessionDates.length > 1) {
+      return sessionDates.flatMap((sessionDate, index) => {
+        const date = parseEventDateTime(sessionDate);
+        if (!date) return [];
+        return [[
+          'BEGIN:VEVENT',
+          `UID:event-${event.id}-${date.date}@${UID_DOMAIN}`,
+          `DTSTAMP:${stamp}`,
+          `DTSTART;VALUE=DATE:${date.date}`,
+          `DTEND;VALUE=DATE:${addDays(date.date, 1)}`,
+          `SUMMARY:${escapeText(`${event.name} - Session ${index + 1}`)}`,
+          `LOCATION:${escapeText(formatLocation(event.locations![sessionDate]))}`,
+          `DESCRIPTION:${escapeText(`${event.sku}\n${url}`)}`,
+          `URL:${url}`,
+          'END:VEVENT',
+        ]];
+      });
+    }
+
+    const start = parseEventDateTime(event.start);
+    const end = parseEventDateTime(event.end) || start;
+    if (!start || !end) return [];
+
+    return [[
+      'BEGIN:VEVENT',
+      `UID:event-${event.id}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${start.date}`,
+      `DTEND;VALUE=DATE:${addDays(end.date < start.date ? start.date : end.date, 1)}`,
+      `SUMMARY:${escapeText(event.name)}`,
+      `LOCATION:${escapeText(formatLocation(event.location))}`,
+      `DESCRIPTION:${escapeText(`${event.sku}\n${url}`)}`,
+      `URL:${url}`,
+      'END:VEVENT',
+    ]];
+  });
+
+  return buildCalendar(events.length === 1 ? events[0].name : 'Favorite Events', entries);
+};
+
+const describeMatch = (match: Match, teamNumber: string): string => {
+  const alliance = match.alliances?.find(a => a.teams?.some(team => team.team?.name === teamNumber));
+  const names = (color: 'red' | 'blue') =>
+    match.alliances?.find(a => a.color === color)?.teams?.map(team => team.team?.name).filter(Boolean).join(', ') || '';
+
+  return [
+    alliance ? `${alliance.color === 'red' ? 'Red' : 'Blue'} alliance` : null,
+    `Red: ${names('red')}`,
+    names('blue') ? `Blue: ${names('blue')}` : null,
+    match.field ? `Field: ${match.field}` : null,
+    match.division?.name ? `Division: ${match.division.name}` : null,
+  ].filter(Boolean).join('\n');
+};
+
+/**
+ * Timed entries for the given teams' matches at an event. Matches without a
+ * scheduled (or started) time are skipped and counted.
+ */
+export const buildMatchScheduleCalendar = (
+  event: CalendarEvent,
+  matches: Match[],
+  teamNumbers: string[],
+  now: Date = new Date()
+): { ics: string; exported: number; skipped: number } => {
+  const stamp = formatUTC(now);
+  const offsets: string[] = [];
+  let skipped = 0;
+
+  const entries = matches.flatMap(match => {
+    const teamsInMatch = getTeamNumbersInMatch(match).filter(number => teamNumbers.includes(number));
+    if (teamsInMatch.length === 0) return [];
+
+    const time = match.scheduled || match.started;
+    const parsed = time ? parseEventDateTime(time) : null;
+    if (!time || !parsed) {
+      skipped++;
+      return [];
+    }
+
+    const startInstant = new Date(time);
+    const endInstant = new Date(startInstant.getTime() + MATCH_DURATION_MINUTES * 60 * 1000);
+    let start: string;
+    let end: string;
+    if (parsed.offset) {
+      // Shift the end by the offset so it is written in the same event time as the start
+      const sign = parsed.offset.startsWith('-') ? -1 : 1;
+      const offsetMs = sign * (parseInt(parsed.offset.slice(1, 3), 10) * 60 + parseInt(parsed.offset.slice(3), 10)) * 60 * 1000;
+      const tzid = getTimeZoneId(parsed.offset);
+      offsets.push(parsed.offset);
+      start = `DTSTART;TZID=${tzid}:${parsed.date}T${parsed.time}`;
+      end = `DTEND;TZID=${tzid}:${formatUTC(new Date(endInstant.getTime() + offsetMs)).replace('Z', '')}`;
+    } else {
+      start = `DTSTART:${formatUTC(startInstant)}`;
+      end = `DTEND:${formatUTC(endInstant)}`;
+    }
+
+    return [[
+      'BEGIN:VEVENT',
+      `UID:match-${match.id}-${teamsInMatch.join('-')}@${UID_DOMAIN}`,
+      `DTSTAMP:${stamp}`,
+      start,
+      end,
+      `SUMMARY:${escapeText(`${teamsInMatch.join(', ')} · ${match.name}`)}`,
+      `LOCATION:${escapeText([match.field, event.name].filter(Boolean).join(' · '))}`,
+      `DESCRIPTION:${escapeText(teamsInMatch.map(number => describeMatch(match, number)).join('\n\n'))}`,
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(`${match.name} in ${MATCH_REMINDER_MINUTES} minutes`)}`,
+      `TRIGGER:-PT${MATCH_REMINDER_MINUTES}M`,
+      'END:VALARM',
+      'END:VEVENT',
+    ]];
+  });
+
+  const calendarName = teamNumbers.length === 1 ? `${teamNumbers[0]} · ${event.name}` : `${event.name} Matches`;
+  return { ics: buildCalendar(calendarName, entries, offsets), exported: entries.length, skipped };
+};
+
+export const getCalendarFileName = (name: string): string =>
+  `${name.replace(/[^a-z0-9]+/gi, '_').replace(/^_+|_+$/g, '') || 'Calendar'}.ics`;
@@ -1,10 +1,28 @@
 import { createLogger } from './logger';
-import { Team, WorldSkillsResponse } from '../types';
+import { Division, Team, WorldSkillsResponse } from '../types';
 import { Alert, Platform } from 'react-native';
 import { fileDownload, isWeb } from './webCompatibility';
 import * as Sharing from 'expo-sharing';
 import * as FileSystem from 'expo-file-system';
+import * as Print from 'expo-print';
 import { robotEventsAPI } from '../services/apiRouter';
+import { CalculatorSession } from '../contexts/CalculatorSessionsContext';
+import { TeamMatchNote } from '../contexts/NotesContext';
+import { RefereeMatchLog } from '../contexts/RefereeContext';
+import { formatViolationOffset, summarizeViolations } from './refereeLog';
+import { getScoreCalculatorDefinition, getSheetElements } from './scoreCalculator';
+import {
+  EXPORT_FORMAT_INFO,
+  EventReportSection,
+  ExportFormat,
+  ExportValue,
+  TeamExportRow,
+  TeamExportTable,
+  formatTableRows,
+  renderEventReportHTML,
+  renderTableJSON,
+  renderTableXLSX,
+} from './exportFormats';
 
 const logger = createLogger('dataExporter');
 
@@ -17,6 +35,10 @@ export interface ExportData {
   divisionId?: number;
   seasonId?: number;
   exportScope?: 'event' | 'season' | 'season-by-event';
+  // The event the export was started from; eventId is only set for single event exports
+  sourceEventId?: number;
+  divisions?: Division[]; // Divisions of the source event, for XLSX sheets and PDF rankings
+  notes?: TeamMatchNote[]; // Scouting notes for the PDF report
 }
 
 // Field selection for customizable export (matching Swift version)
@@ -31,8 +53,23 @@ export interface ExportOptions {
   selectedFields?: { [key: string]: boolean };
   includeAllData?: boolean;
   eventAwardsScope?: 'event' | 'season'; // For single event exports: show event awards or season awards
+  format?: ExportFormat; // Defaults to CSV
 }
 
+interface ShareFormat {
+  label: string;
+  webMimeType: string;
+  mimeType: string;
+  UTI: string;
+}
+
+const PERFORMANCE_FIELDS = [
+  'Total Matches', 'Total Wins', 'Total Losses', 'Total Ties', 'Winrate', 'WP', 'AP', 'SP',
+  'High Score', 'Average Points', 'Total Points', 'Event Rank',
+];
+const SKILLS_FIELDS = ['Skills Ranking', 'Combined Skills', 'Programming Skills', 'Driver Skills'];
+const AWARD_FIELDS = ['Total Awards', 'Award Details'];
+
 // Match statistics data from rankings
 export interface TeamMatchStats {
   totalMatches: number;
@@ -84,42 +121,192 @@ export class DataExporter {
   }
 
   static async shareCSVData(csvContent: string, fileName: string): Promise<void> {
+    await this.shareFile(csvContent, fileName, {
+      label: 'CSV',
+      webMimeType: 'text/csv;charset=utf-8;',
+      mimeType: 'text/csv',
+      UTI: 'public.comma-separated-values-text',
+    });
+  }
+
+  /**
+   * Share an iCalendar file so it can be opened in the device's calendar app
+   */
+  static async shareCalendarData(icsContent: string, fileName: string): Promise<void> {
+    await this.shareFile(icsContent, fileName, {
+      label: 'Calendar',
+      webMimeType: 'text/calendar;charset=utf-8;',
+      mimeType: 'text/calendar',
+      UTI: 'public.calendar-event',
+    });
+  }
+
+  /**
+   * Share an app backup file so it can be moved to another device
+   */
+  static async shareBackupData(json: string, fileName: string): Promise<void> {
+    await this.shareFile(json, fileName, {
+      label: 'Backup',
+      webMimeType: 'application/json;charset=utf-8;',
+      mimeType: 'application/json',
+      UTI: 'public.json',
+    });
+  }
+
+  private static async shareFile(content: string | Uint8Array, fileName: string, format: ShareFormat): Promise<void> {
     try {
       if (isWeb) {
         // Use web compatibility utility for download
-        fileDownload.downloadText(csvContent, fileName, 'text/csv;charset=utf-8;');
+        if (typeof content === 'string') {
+          fileDownload.downloadText(content, fileName, format.webMimeType);
+        } else {
+          fileDownload.downloadBytes(content, fileName, format.webMimeType);
+        }
 
         Alert.alert(
           'Download Started',
-          `CSV file "${fileName}" download has been started. Check your downloads folder.`,
+          `${format.label} file "${fileName}" download has been started. Check your downloads folder.`,
           [{ text: 'OK' }]
         );
       } else {
         // Native implementation using Expo file system and sharing
         const file = new FileSystem.File(FileSystem.Paths.cache, fileName);
-        await file.write(csvContent);
+        await file.write(content);
         const filePath = file.uri;
 
         const isAvailable = await Sharing.isAvailableAsync();
 
         if (isAvailable) {
           await Sharing.shareAsync(filePath, {
-            mimeType: 'text/csv',
+            mimeType: format.mimeType,
             dialogTitle: `Export ${fileName}`,
-            UTI: 'public.comma-separated-values-text'
+            UTI: format.UTI
           });
         } else {
           Alert.alert(
             'File Created',
-            `CSV file "${fileName}" has been created successfully.\n\nFile location: ${filePath}`,
+            `${format.label} file "${fileName}" has been created successfully.\n\nFile location: ${filePath}`,
             [{ text: 'OK' }]
           );
         }
       }
     } catch (error) {
       logger.error('Export error:', error);
-      throw new Error(`Failed to create CSV file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to create ${format.label} file: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Write the team table in the requested format and hand it to the share sheet
+   * (or a download on web)
+   */
+  private static async shareTeamTable(
+    table: TeamExportTable,
+    data: ExportData,
+    options: ExportOptions | undefined,
+    baseFileName: string
+  ): Promise<void> {
+    const format = options?.format || 'csv';
+    const info = EXPORT_FORMAT_INFO[format];
+    const fileName = `${baseFileName}.${info.extension}`;
+    const shareFormat: ShareFormat = { label: info.label, webMimeType: info.mimeType, mimeType: info.mimeType, UTI: info.UTI };
+
+    switch (format) {
+      case 'csv':
+        await this.shareCSVData(formatTableRows(table).map(row => this.formatCSVRow(row)).join('\n'), fileName);
+        break;
+      case 'json':
+        await this.shareFile(renderTableJSON(table), fileName, shareFormat);
+        break;
+      case 'xlsx':
+        await this.shareFile(renderTableXLSX(table), fileName, shareFormat);
+        break;
+      case 'pdf': {
+        const report = await this.fetchEventReport(data, options?.selectedFields || this.getDefaultFields());
+        const subtitle = [data.divisionName, data.eventDate ? new Date(data.eventDate).toLocaleDateString() : null]
+          .filter(Boolean).join(' · ');
+        const html = renderEventReportHTML(table, report, subtitle);
+
+        if (isWeb) {
+          // Browsers cannot render a PDF file directly; their print dialog offers Save as PDF.
+          // expo-print on web ignores `html` and prints the current page, so print the report itself.
+          await fileDownload.printHTML(html);
+        } else {
+          const printed = await Print.printToFileAsync({ html, width: 842, height: 595 }); // A4 landscape
+          const bytes = await new FileSystem.File(printed.uri).bytes();
+          await this.shareFile(bytes, fileName, shareFormat);
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Division name for each team at the source event, from the division rankings
+   * or, before any rankings exist, the division match lists
+   */
+  private static async getTeamDivisions(data: ExportData): Promise<Map<number, string>> {
+    const teamDivisions = new Map<number, string>();
+    const eventId = data.sourceEventId ?? data.eventId;
+    if (!eventId || !data.divisions || data.divisions.length < 2) return teamDivisions;
+
+    for (const division of data.divisions) {
+      try {
+        const rankings = await robotEventsAPI.getEventDivisionRankings(eventId, division.id);
+        rankings.data.forEach(ranking => teamDivisions.set(ranking.team.id, division.name));
+
+        if (rankings.data.length === 0) {
+          const matches = await robotEventsAPI.getEventDivisionMatches(eventId, division.id);
+          matches.data.forEach(match => match.alliances.forEach(alliance =>
+            alliance.teams.forEach(allianceTeam => teamDivisions.set(allianceTeam.team.id, division.name))
+          ));
+        }
+      } catch (error) {
+        logger.error(`Error fetching teams for division ${division.name}:`, error);
+      }
     }
+    return teamDivisions;
+  }
+
+  /**
+   * Event-wide sections of the PDF report, limited to the selected field categories
+   */
+  private static async fetchEventReport(data: ExportData, selectedFields: { [key: string]: boolean }): Promise<EventReportSection> {
+    const report: EventReportSection = { divisionRankings: [], skills: [], awards: [], notes: [] };
+    const eventId = data.sourceEventId ?? data.eventId;
+    if (!eventId) return report;
+
+    const isSelected = (fields: string[]) => fields.some(field => selectedFields[field]);
+
+    if (isSelected(PERFORMANCE_FIELDS)) {
+      for (const division of data.divisions || []) {
+        try {
+          const rankings = await robotEventsAPI.getEventDivisionRankings(eventId, division.id);
+          report.divisionRankings.push({ division: division.name, rankings: rankings.data });
+        } catch (error) {
+          logger.error(`Error fetching rankings for division ${division.name}:`, error);
+        }
+      }
+    }
+
+    if (isSelected(SKILLS_FIELDS)) {
+      try {
+        report.skills = (await robotEventsAPI.getEventSkills(eventId)).data;
+      } catch (error) {
+        logger.error('Error fetching event skills for report:', error);
+      }
+    }
+
+    if (isSelected(AWARD_FIELDS)) {
+      try {
+        report.awards = (await robotEventsAPI.getEventAwards(eventId)).data;
+      } catch (error) {
+        logger.error('Error fetching event awards for report:', error);
+      }
+    }
+
+    report.notes = (data.notes || []).filter(note => note.eventId === eventId);
+    return report;
   }
 
   // Default field selection - all fields enabled
@@ -349,7 +536,7 @@ export class DataExporter {
     }
   }
 
-  static async exportTeamsWithStatsToCSV(
+  static async exportTeamsWithStats(
     data: ExportData,
     options?: ExportOptions,
     onProgress?: (current: number, total: number) => void
@@ -380,12 +567,13 @@ export class DataExporter {
       }
     }
 
-    const rows = [this.formatCSVRow(headers)];
+    const rows: TeamExportRow[] = [];
+    const teamDivisions = options?.format === 'xlsx' ? await this.getTeamDivisions(data) : new Map<number, string>();
 
     // Process each team
     for (let i = 0; i < teams.length; i++) {
       const team = teams[i];
-      const row: (string | number)[] = [team.number];
+      const values: Record<string, ExportValue> = { 'Team Number': team.number };
 
       // Fetch additional data if needed
       let matchStats: TeamMatchStats | null = null;
@@ -489,57 +677,55 @@ export class DataExporter {
         }
       }
 
-      // Add each field if selected (in the order they appear in EXPORTABLE_FIELDS)
-      if (selectedFields['Team Name']) row.push(team.team_name);
-      if (selectedFields['Robot Name']) row.push(team.robot_name || '');
-      if (selectedFields['Organization']) row.push(team.organization || '');
-      if (selectedFields['Team Location']) row.push(this.generateLocation(team));
-      if (selectedFields['Grade Level']) row.push(team.grade || '');
-      if (selectedFields['Event Name']) row.push(eventId ? eventName : 'N/A'); // Show event name for single event, N/A for season
-      if (selectedFields['Total Matches']) row.push(matchStats?.totalMatches ?? 0);
-      if (selectedFields['Total Wins']) row.push(matchStats?.totalWins ?? 0);
-      if (selectedFields['Total Losses']) row.push(matchStats?.totalLosses ?? 0);
-      if (selectedFields['Total Ties']) row.push(matchStats?.totalTies ?? 0);
-      if (selectedFields['Winrate']) row.push(matchStats ? (matchStats.winrate * 100).toFixed(1) + '%' : '0%');
-      if (selectedFields['WP']) row.push(matchStats?.wp?.toFixed(2) ?? '0.00');
-      if (selectedFields['AP']) row.push(matchStats?.ap?.toFixed(2) ?? '0.00');
-      if (selectedFields['SP']) row.push(matchStats?.sp?.toFixed(2) ?? '0.00');
-      if (selectedFields['High Score']) row.push(matchStats?.highScore ?? 0);
-      if (selectedFields['Average Points']) row.push(matchStats?.averagePoints?.toFixed(2) ?? '0.00');
-      if (selectedFields['Total Points']) row.push(matchStats?.totalPoints ?? 0);
+      // Raw values for each selected field; formatting happens per export format
+      if (selectedFields['Team Name']) values['Team Name'] = team.team_name;
+      if (selectedFields['Robot Name']) values['Robot Name'] = team.robot_name || '';
+      if (selectedFields['Organization']) values['Organization'] = team.organization || '';
+      if (selectedFields['Team Location']) values['Team Location'] = this.generateLocation(team);
+      if (selectedFields['Grade Level']) values['Grade Level'] = team.grade || '';
+      if (selectedFields['Event Name']) values['Event Name'] = eventId ? eventName : null; // Event name for single event, N/A for season
+      if (selectedFields['Total Matches']) values['Total Matches'] = matchStats?.totalMatches ?? 0;
+      if (selectedFields['Total Wins']) values['Total Wins'] = matchStats?.totalWins ?? 0;
+      if (selectedFields['Total Losses']) values['Total Losses'] = matchStats?.totalLosses ?? 0;
+      if (selectedFields['Total Ties']) values['Total Ties'] = matchStats?.totalTies ?? 0;
+      if (selectedFields['Winrate']) values['Winrate'] = matchStats?.winrate ?? 0;
+      if (selectedFields['WP']) values['WP'] = matchStats?.wp ?? 0;
+      if (selectedFields['AP']) values['AP'] = matchStats?.ap ?? 0;
+      if (selectedFields['SP']) values['SP'] = matchStats?.sp ?? 0;
+      if (selectedFields['High Score']) values['High Score'] = matchStats?.highScore ?? 0;
+      if (selectedFields['Average Points']) values['Average Points'] = matchStats?.averagePoints ?? 0;
+      if (selectedFields['Total Points']) values['Total Points'] = matchStats?.totalPoints ?? 0;
       // Only include Event Rank for event-scoped exports
-      if (selectedFields['Event Rank'] && eventId) row.push(eventRank ?? 'N/A');
+      if (selectedFields['Event Rank'] && eventId) values['Event Rank'] = eventRank;
 
       // Skills columns - populate with event skills OR world skills based on export type
       if (eventId) {
         // Single event export: use event skills data
         if (selectedFields['Skills Ranking']) {
           // For event skills, we'll show the combined rank (average of driver and programming ranks)
-          const avgRank = eventSkills?.driverRank && eventSkills?.programmingRank
+          values['Skills Ranking'] = eventSkills?.driverRank && eventSkills?.programmingRank
             ? Math.round((eventSkills.driverRank + eventSkills.programmingRank) / 2)
-            : (eventSkills?.driverRank || eventSkills?.programmingRank || 'N/A');
-          row.push(avgRank);
+            : (eventSkills?.driverRank || eventSkills?.programmingRank || null);
         }
         if (selectedFields['Combined Skills']) {
           // Combined = driver + programming scores
-          const combined = (eventSkills?.driverScore ?? 0) + (eventSkills?.programmingScore ?? 0);
-          row.push(combined);
+          values['Combined Skills'] = (eventSkills?.driverScore ?? 0) + (eventSkills?.programmingScore ?? 0);
         }
-        if (selectedFields['Programming Skills']) row.push(eventSkills?.programmingScore ?? 0);
-        if (selectedFields['Driver Skills']) row.push(eventSkills?.driverScore ?? 0);
+        if (selectedFields['Programming Skills']) values['Programming Skills'] = eventSkills?.programmingScore ?? 0;
+        if (selectedFields['Driver Skills']) values['Driver Skills'] = eventSkills?.driverScore ?? 0;
       } else {
         // Season export: use world skills data
-        if (selectedFields['Skills Ranking']) row.push(worldSkills?.ranking || 'N/A');
-        if (selectedFields['Combined Skills']) row.push(worldSkills?.combined ?? 0);
-        if (selectedFields['Programming Skills']) row.push(worldSkills?.programming ?? 0);
-        if (selectedFields['Driver Skills']) row.push(worldSkills?.driver ?? 0);
+        if (selectedFields['Skills Ranking']) values['Skills Ranking'] = worldSkills?.ranking || null;
+        if (selectedFields['Combined Skills']) values['Combined Skills'] = worldSkills?.combined ?? 0;
+        if (selectedFields['Programming Skills']) values['Programming Skills'] = worldSkills?.programming ?? 0;
+        if (selectedFields['Driver Skills']) values['Driver Skills'] = worldSkills?.driver ?? 0;
       }
-      if (selectedFields['Average Qualifiers Ranking']) row.push(avgRanking?.toFixed(2) || 'N/A');
-      if (selectedFields['Total Events Attended']) row.push(totalEvents ?? 0);
-      if (selectedFields['Total Awards']) row.push(totalAwards ?? 0);
-      if (selectedFields['Award Details']) row.push(awardDetails || 'None');
+      if (selectedFields['Average Qualifiers Ranking']) values['Average Qualifiers Ranking'] = avgRanking || null;
+      if (selectedFields['Total Events Attended']) values['Total Events Attended'] = totalEvents ?? 0;
+      if (selectedFields['Total Awards']) values['Total Awards'] = totalAwards ?? 0;
+      if (selectedFields['Award Details']) values['Award Details'] = awardDetails || null;
 
-      rows.push(this.formatCSVRow(row));
+      rows.push({ team, division: teamDivisions.get(team.id), values });
 
       // Report progress
       if (onProgress) {
@@ -547,10 +733,12 @@ export class DataExporter {
       }
     }
 
-    const csvContent = rows.join('\n');
-    const fileName = `${eventName}_${divisionName}_Teams_${new Date().toISOString().split('T')[0]}.csv`;
-
-    await this.shareCSVData(csvContent, fileName);
+    await this.shareTeamTable(
+      { title: eventName, scope: exportScope || (eventId ? 'event' : 'season'), headers, rows },
+      data,
+      options,
+      `${eventName}_${divisionName}_Teams_${new Date().toISOString().split('T')[0]}`
+    );
   }
 
   // Export teams with one row per event (season-by-event breakdown)
@@ -581,8 +769,8 @@ export class DataExporter {
       }
     }
 
-    const rows = [this.formatCSVRow(headers)];
-    let totalRows = 0;
+    const rows: TeamExportRow[] = [];
+    const teamDivisions = options?.format === 'xlsx' ? await this.getTeamDivisions(data) : new Map<number, string>();
 
     // Process each team
     for (let i = 0; i < teams.length; i++) {
@@ -597,36 +785,36 @@ export class DataExporter {
 
         // Create one row per event
         for (const ranking of rankings) {
-          const row: (string | number)[] = [team.number];
+          const values: Record<string, ExportValue> = { 'Team Number': team.number };
 
           // Add event name if selected
           if (selectedFields['Event Name']) {
-            row.push(ranking.event.name || 'Unknown Event');
+            values['Event Name'] = ranking.event.name || 'Unknown Event';
           }
 
           // Basic team info
-          if (selectedFields['Team Name']) row.push(team.team_name);
-          if (selectedFields['Robot Name']) row.push(team.robot_name || '');
-          if (selectedFields['Organization']) row.push(team.organization || '');
-          if (selectedFields['Team Location']) row.push(this.generateLocation(team));
-          if (selectedFields['Grade Level']) row.push(team.grade || '');
+          if (selectedFields['Team Name']) values['Team Name'] = team.team_name;
+          if (selectedFields['Robot Name']) values['Robot Name'] = team.robot_name || '';
+          if (selectedFields['Organization']) values['Organization'] = team.organization || '';
+          if (selectedFields['Team Location']) values['Team Location'] = this.generateLocation(team);
+          if (selectedFields['Grade Level']) values['Grade Level'] = team.grade || '';
 
           // Performance stats from this event's ranking
           const matches = ranking.wins + ranking.losses + ranking.ties;
           const winrate = matches > 0 ? ranking.wins / matches : 0;
 
-          if (selectedFields['Total Matches']) row.push(matches);
-          if (selectedFields['Total Wins']) row.push(ranking.wins);
-          if (selectedFields['Total Losses']) row.push(ranking.losses);
-          if (selectedFields['Total Ties']) row.push(ranking.ties);
-          if (selectedFields['Winrate']) row.push((winrate * 100).toFixed(1) + '%');
-          if (selectedFields['WP']) row.push(ranking.wp.toFixed(2));
-          if (selectedFields['AP']) row.push(ranking.ap.toFixed(2));
-          if (selectedFields['SP']) row.push(ranking.sp.toFixed(2));
-          if (selectedFields['High Score']) row.push(ranking.high_score);
-          if (selectedFields['Average Points']) row.push(ranking.average_points.toFixed(2));
-          if (selectedFields['Total Points']) row.push(ranking.total_points);
-          if (selectedFields['Event Rank']) row.push(ranking.rank);
+          if (selectedFields['Total Matches']) values['Total Matches'] = matches;
+          if (selectedFields['Total Wins']) values['Total Wins'] = ranking.wins;
+          if (selectedFields['Total Losses']) values['Total Losses'] = ranking.losses;
+          if (selectedFields['Total Ties']) values['Total Ties'] = ranking.ties;
+          if (selectedFields['Winrate']) values['Winrate'] = winrate;
+          if (selectedFields['WP']) values['WP'] = ranking.wp;
+          if (selectedFields['AP']) values['AP'] = ranking.ap;
+          if (selectedFields['SP']) values['SP'] = ranking.sp;
+          if (selectedFields['High Score']) values['High Score'] = ranking.high_score;
+          if (selectedFields['Average Points']) values['Average Points'] = ranking.average_points;
+          if (selectedFields['Total Points']) values['Total Points'] = ranking.total_points;
+          if (selectedFields['Event Rank']) values['Event Rank'] = ranking.rank;
 
           // Skills columns for individual event rows - use event skills
           if (selectedFields['Skills Ranking'] || selectedFields['Combined Skills'] ||
@@ -636,23 +824,21 @@ export class DataExporter {
 
               if (selectedFields['Skills Ranking']) {
                 // For event skills, show average of driver and programming ranks
-                const avgRank = eventSkills?.driverRank && eventSkills?.programmingRank
+                values['Skills Ranking'] = eventSkills?.driverRank && eventSkills?.programmingRank
                   ? Math.round((eventSkills.driverRank + eventSkills.programmingRank) / 2)
-                  : (eventSkills?.driverRank || eventSkills?.programmingRank || 'N/A');
-                row.push(avgRank);
+                  : (eventSkills?.driverRank || eventSkills?.programmingRank || null);
               }
               if (selectedFields['Combined Skills']) {
-                const combined = (eventSkills?.driverScore ?? 0) + (eventSkills?.programmingScore ?? 0);
-                row.push(combined);
+                values['Combined Skills'] = (eventSkills?.driverScore ?? 0) + (eventSkills?.programmingScore ?? 0);
               }
-              if (selectedFields['Programming Skills']) row.push(eventSkills?.programmingScore ?? 0);
-              if (selectedFields['Driver Skills']) row.push(eventSkills?.driverScore ?? 0);
+              if (selectedFields['Programming Skills']) values['Programming Skills'] = eventSkills?.programmingScore ?? 0;
+              if (selectedFields['Driver Skills']) values['Driver Skills'] = eventSkills?.driverScore ?? 0;
             } catch (error) {
               logger.error(`Error fetching event skills for team ${team.number}:`, error);
-              if (selectedFields['Skills Ranking']) row.push('N/A');
-              if (selectedFields['Combined Skills']) row.push(0);
-              if (selectedFields['Programming Skills']) row.push(0);
-              if (selectedFields['Driver Skills']) row.push(0);
+              if (selectedFields['Skills Ranking']) values['Skills Ranking'] = null;
+              if (selectedFields['Combined Skills']) values['Combined Skills'] = 0;
+              if (selectedFields['Programming Skills']) values['Programming Skills'] = 0;
+              if (selectedFields['Driver Skills']) values['Driver Skills'] = 0;
             }
           }
 
@@ -668,11 +854,11 @@ export class DataExporter {
               const avgRanking = await this.calculateAverageRanking(team.id);
               (team as any)._avgRanking = avgRanking;
             }
-            row.push((team as any)._avgRanking?.toFixed(2) || 'N/A');
+            values['Average Qualifiers Ranking'] = (team as any)._avgRanking || null;
           }
 
           if (selectedFields['Total Events Attended']) {
-            row.push(rankings.length);
+            values['Total Events Attended'] = rankings.length;
           }
 
           if (selectedFields['Total Awards'] || selectedFields['Award Details']) {
@@ -681,38 +867,36 @@ export class DataExporter {
               const eventAwardsResponse = await robotEventsAPI.getTeamAwards(team.id, { event: [ranking.event.id] });
               const eventAwardsCount = eventAwardsResponse.data.length;
 
-              if (selectedFields['Total Awards']) row.push(eventAwardsCount);
+              if (selectedFields['Total Awards']) values['Total Awards'] = eventAwardsCount;
 
               if (selectedFields['Award Details']) {
-                const eventAwardDetails = await this.getAwardDetails(team.id, ranking.event.id);
-                row.push(eventAwardDetails);
+                values['Award Details'] = await this.getAwardDetails(team.id, ranking.event.id);
               }
             } catch (error) {
               logger.error(`Error fetching event awards for team ${team.number}:`, error);
-              if (selectedFields['Total Awards']) row.push(0);
-              if (selectedFields['Award Details']) row.push('Error');
+              if (selectedFields['Total Awards']) values['Total Awards'] = 0;
+              if (selectedFields['Award Details']) values['Award Details'] = 'Error';
             }
           }
 
-          rows.push(this.formatCSVRow(row));
-          totalRows++;
+          rows.push({ team, division: teamDivisions.get(team.id), values });
         }
 
         // Add a season totals row for this team
         if (rankings.length > 0) {
-          const seasonRow: (string | number)[] = [team.number];
+          const seasonValues: Record<string, ExportValue> = { 'Team Number': team.number };
 
           // Add "SEASON TOTAL" as event name
           if (selectedFields['Event Name']) {
-            seasonRow.push('SEASON TOTAL');
+            seasonValues['Event Name'] = 'SEASON TOTAL';
           }
 
           // Basic team info
-          if (selectedFields['Team Name']) seasonRow.push(team.team_name);
-          if (selectedFields['Robot Name']) seasonRow.push(team.robot_name || '');
-          if (selectedFields['Organization']) seasonRow.push(team.organization || '');
-          if (selectedFields['Team Location']) seasonRow.push(this.generateLocation(team));
-          if (selectedFields['Grade Level']) seasonRow.push(team.grade || '');
+          if (selectedFields['Team Name']) seasonValues['Team Name'] = team.team_name;
+          if (selectedFields['Robot Name']) seasonValues['Robot Name'] = team.robot_name || '';
+          if (selectedFields['Organization']) seasonValues['Organization'] = team.organization || '';
+          if (selectedFields['Team Location']) seasonValues['Team Location'] = this.generateLocation(team);
+          if (selectedFields['Grade Level']) seasonValues['Grade Level'] = team.grade || '';
 
           // Aggregate performance stats across all events
           let totalWins = 0;
@@ -741,32 +925,32 @@ export class DataExporter {
           const seasonWinrate = totalMatches > 0 ? totalWins / totalMatches : 0;
           const numEvents = rankings.length;
 
-          if (selectedFields['Total Matches']) seasonRow.push(totalMatches);
-          if (selectedFields['Total Wins']) seasonRow.push(totalWins);
-          if (selectedFields['Total Losses']) seasonRow.push(totalLosses);
-          if (selectedFields['Total Ties']) seasonRow.push(totalTies);
-          if (selectedFields['Winrate']) seasonRow.push((seasonWinrate * 100).toFixed(1) + '%');
-          if (selectedFields['WP']) seasonRow.push((totalWP / numEvents).toFixed(2));
-          if (selectedFields['AP']) seasonRow.push((totalAP / numEvents).toFixed(2));
-          if (selectedFields['SP']) seasonRow.push((totalSP / numEvents).toFixed(2));
-          if (selectedFields['High Score']) seasonRow.push(maxHighScore);
-          if (selectedFields['Average Points']) seasonRow.push((sumAveragePoints / numEvents).toFixed(2));
-          if (selectedFields['Total Points']) seasonRow.push(sumTotalPoints);
-          if (selectedFields['Event Rank']) seasonRow.push('N/A'); // No single rank for season
+          if (selectedFields['Total Matches']) seasonValues['Total Matches'] = totalMatches;
+          if (selectedFields['Total Wins']) seasonValues['Total Wins'] = totalWins;
+          if (selectedFields['Total Losses']) seasonValues['Total Losses'] = totalLosses;
+          if (selectedFields['Total Ties']) seasonValues['Total Ties'] = totalTies;
+          if (selectedFields['Winrate']) seasonValues['Winrate'] = seasonWinrate;
+          if (selectedFields['WP']) seasonValues['WP'] = totalWP / numEvents;
+          if (selectedFields['AP']) seasonValues['AP'] = totalAP / numEvents;
+          if (selectedFields['SP']) seasonValues['SP'] = totalSP / numEvents;
+          if (selectedFields['High Score']) seasonValues['High Score'] = maxHighScore;
+          if (selectedFields['Average Points']) seasonValues['Average Points'] = sumAveragePoints / numEvents;
+          if (selectedFields['Total Points']) seasonValues['Total Points'] = sumTotalPoints;
+          if (selectedFields['Event Rank']) seasonValues['Event Rank'] = null; // No single rank for season
 
           // Skills columns for SEASON TOTAL row - use world skills
           const worldSkills = (team as any)._worldSkills;
-          if (selectedFields['Skills Ranking']) seasonRow.push(worldSkills?.ranking || 'N/A');
-          if (selectedFields['Combined Skills']) seasonRow.push(worldSkills?.combined ?? 0);
-          if (selectedFields['Programming Skills']) seasonRow.push(worldSkills?.programming ?? 0);
-          if (selectedFields['Driver Skills']) seasonRow.push(worldSkills?.driver ?? 0);
+          if (selectedFields['Skills Ranking']) seasonValues['Skills Ranking'] = worldSkills?.ranking || null;
+          if (selectedFields['Combined Skills']) seasonValues['Combined Skills'] = worldSkills?.combined ?? 0;
+          if (selectedFields['Programming Skills']) seasonValues['Programming Skills'] = worldSkills?.programming ?? 0;
+          if (selectedFields['Driver Skills']) seasonValues['Driver Skills'] = worldSkills?.driver ?? 0;
 
           // Season-level stats
           if (selectedFields['Average Qualifiers Ranking']) {
-            seasonRow.push((team as any)._avgRanking?.toFixed(2) || 'N/A');
+            seasonValues['Average Qualifiers Ranking'] = (team as any)._avgRanking || null;
           }
           if (selectedFields['Total Events Attended']) {
-            seasonRow.push(rankings.length);
+            seasonValues['Total Events Attended'] = rankings.length;
           }
 
           // For SEASON TOTAL row, fetch season awards
@@ -775,21 +959,19 @@ export class DataExporter {
               const seasonAwardsResponse = await robotEventsAPI.getTeamAwards(team.id, { season: [seasonId] });
               const seasonAwardsCount = seasonAwardsResponse.data.length;
 
-              if (selectedFields['Total Awards']) seasonRow.push(seasonAwardsCount);
+              if (selectedFields['Total Awards']) seasonValues['Total Awards'] = seasonAwardsCount;
 
               if (selectedFields['Award Details']) {
-                const seasonAwardDetails = await this.getAwardDetails(team.id, undefined, seasonId);
-                seasonRow.push(seasonAwardDetails);
+                seasonValues['Award Details'] = await this.getAwardDetails(team.id, undefined, seasonId);
               }
             } catch (error) {
               logger.error(`Error fetching season awards for team ${team.number}:`, error);
-              if (selectedFields['Total Awards']) seasonRow.push(0);
-              if (selectedFields['Award Details']) seasonRow.push('Error');
+              if (selectedFields['Total Awards']) seasonValues['Total Awards'] = 0;
+              if (selectedFields['Award Details']) seasonValues['Award Details'] = 'Error';
             }
           }
 
-          rows.push(this.formatCSVRow(seasonRow));
-          totalRows++;
+          rows.push({ team, division: teamDivisions.get(team.id), values: seasonValues });
         }
 
       } catch (error) {
@@ -802,9 +984,112 @@ export class DataExporter {
       }
     }
 
-    const csvContent = rows.join('\n');
-    const fileName = `${eventName}_${divisionName}_ByEvent_${new Date().toISOString().split('T')[0]}.csv`;
+    await this.shareTeamTable(
+      { title: eventName, scope: 'season-by-event', headers, rows },
+      data,
+      options,
+      `${eventName}_${divisionName}_ByEvent_${new Date().toISOString().split('T')[0]}`
+    );
+  }
+
+  /**
+   * Export saved score calculator sessions (route plans, skills runs) to CSV.
+   * Each scoring element becomes a column; sessions from other sheets leave it blank.
+   */
+  static async exportCalculatorSessionsToCSV(sessions: CalculatorSession[]): Promise<void> {
+    if (!sessions || sessions.length === 0) {
+      throw new Error('No calculator sessions available for export');
+    }
+
+    const elementLabels: string[] = [];
+    const rowsValues = sessions.map(session => {
+      const definition = getScoreCalculatorDefinition(session.definitionId);
+      const sheet = definition?.sheets.find(s => s.id === session.sheetId);
+      const values: { [label: string]: string | number } = {};
+
+      (sheet ? getSheetElements(sheet) : []).forEach(element => {
+        if (!elementLabels.includes(element.label)) {
+          elementLabels.push(element.label);
+        }
+        const value = session.state[element.id];
+        values[element.label] = typeof value === 'boolean'
+          ? (value ? 'Yes' : 'No')
+          : element.options?.find(option => option.id === value)?.label ?? value;
+      });
 
-    await this.shareCSVData(csvContent, fileName);
+      return {
+        session,
+        calculator: definition ? `${definition.program} ${definition.title}` : session.definitionId,
+        values,
+      };
+    });
+
+    const rows: string[] = [
+      this.formatCSVRow(['Name', 'Calculator', 'Sheet', 'Team', 'Saved', 'Score', ...elementLabels]),
+    ];
+
+    rowsValues.forEach(({ session, calculator, values }) => {
+      rows.push(this.formatCSVRow([
+        session.name,
+        calculator,
+        session.sheetLabel,
+        session.teamNumber,
+        new Date(session.createdAt).toLocaleString(),
+        session.score,
+        ...elementLabels.map(label => values[label]),
+      ]));
+    });
+
+    const fileName = `Score_Sheets_${new Date().toISOString().split('T')[0]}.csv`;
+    await this.shareCSVData(rows.join('\n'), fileName);
   }
-}
\ No newline at end of file
+
+  static async exportRefereeMatchLog(log: RefereeMatchLog): Promise<void> {
+    if (!log || log.violations.length === 0) {
+      throw new Error('No violations logged for this match');
+    }
+
+    // Per-team summary first, followed by every entry in the order it was logged
+    const rows: string[] = [
+      this.formatCSVRow(['Event', log.eventName || log.eventId]),
+      this.formatCSVRow(['Match', log.matchName]),
+      this.formatCSVRow(['Manual', `${log.program} ${log.season}`]),
+      '',
+      this.formatCSVRow(['Team', 'Alliance', 'Minor', 'Major', 'Escalations', 'Rules']),
+    ];
+
+    summarizeViolations(log.teams, log.violations).forEach(summary => {
+      rows.push(this.formatCSVRow([
+        summary.teamNumber,
+        summary.alliance === 'red' ? 'Red' : 'Blue',
+        summary.minor,
+        summary.major,
+        summary.escalations,
+        summary.ruleCodes.join(' '),
+      ]));
+    });
+
+    rows.push('');
+    rows.push(this.formatCSVRow(['Time', 'Offset', 'Team', 'Alliance', 'Rule', 'Title', 'Severity', 'Escalated From']));
+
+    log.violations.forEach(violation => {
+      const source = violation.escalatedFromId
+        ? log.violations.find(entry => entry.id === violation.escalatedFromId)
+        : undefined;
+      rows.push(this.formatCSVRow([
+        new Date(violation.timestamp).toLocaleTimeString(),
+        formatViolationOffset(violation, log.violations),
+        violation.teamNumber,
+        violation.alliance === 'red' ? 'Red' : 'Blue',
+        violation.ruleCode,
+        violation.ruleTitle,
+        violation.severity === 'major' ? 'Major' : 'Minor',
+        source ? `Minor at ${formatViolationOffset(source, log.violations)}` : '',
+      ]));
+    });
+
+    const matchName = log.matchName.replace(/[^a-zA-Z0-9]+/g, '_');
+    const fileName = `Referee_${matchName}_${new Date().toISOString().split('T')[0]}.csv`;
+    await this.shareCSVData(rows.join('\n'), fileName);
+  }
+}
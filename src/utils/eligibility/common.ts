@@ -1,4 +1,4 @@
-import { RobotProgram, TeamRanking, GradeLevel } from './types';
+import { TeamRanking, GradeLevel, EligibilityConfig, EligibilityRounding } from './types';
 
 // Exact Dart rounding helper functions
 export const roundHalfUp = (value: number): number => {
@@ -21,8 +21,8 @@ export const roundHalfToEven = (value: number): number => {
   return Math.round(value);
 };
 
-export const applyProgramSpecificRounding = (calculatedValue: number, program: RobotProgram): number => {
-  if (program === RobotProgram.ADC) {
+export const applyEligibilityRounding = (calculatedValue: number, rounding: EligibilityRounding): number => {
+  if (rounding === 'halfToEven') {
     return roundHalfToEven(calculatedValue);
   } else {
     return roundHalfUp(calculatedValue);
@@ -62,17 +62,14 @@ export const detectAwardType = (awardTitle: string): { isCombined: boolean; grad
   return { isCombined: true };
 };
 
-// Helper to get dynamic label based on program
-export const getDynamicLabel = (program: RobotProgram, baseLabel: string): string => {
-  if (program === RobotProgram.ADC) {
-    switch (baseLabel) {
-      case 'Programming':
-        return 'Auton';
-      case 'Driver':
-        return 'Pilot';
-      default:
-        return baseLabel;
-    }
+// Helper to get the program-specific name for a skills type label
+export const getDynamicLabel = (eligibility: EligibilityConfig, baseLabel: string): string => {
+  switch (baseLabel) {
+    case 'Programming':
+      return eligibility.programmingLabel;
+    case 'Driver':
+      return eligibility.driverLabel;
+    default:
+      return baseLabel;
   }
-  return baseLabel;
 };
\ No newline at end of file
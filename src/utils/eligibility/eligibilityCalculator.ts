@@ -2,35 +2,35 @@ import { createLogger } from '../logger';
 import {
   TeamSkills,
   RawSkill,
-  TeamRanking,
-  RobotProgram,
-  ProgramRules,
-  PROGRAM_RULES,
-  PROGRAM_CONFIGS
+  EligibilityConfig,
+  EligibilityReason,
+  EligibilityResult
 } from './types';
 import { Team } from '../../types';
-import { applyProgramSpecificRounding, getDynamicLabel } from './common';
+import { applyEligibilityRounding, getDynamicLabel } from './common';
+import { EligibilityRuleSet } from './ruleSets';
 
 const logger = createLogger('eligibilityCalculator');
 
 /**
- * Main eligibility calculation function that mirrors the Dart tableRecords getter exactly
+ * Main eligibility calculation function that mirrors the Dart tableRecords getter exactly.
+ * Rules come from the program's ProgramConfig (see getEligibilityConfig in programMappings).
  */
 export const calculateEligibility = (
   teams: Team[],
   rawRankings: any[],
   rawSkills: RawSkill[],
   awards: any[],
-  selectedProgram: RobotProgram,
+  programRules: EligibilityConfig | null,
   eventHasSplitGradeAwards: boolean
 ): TeamSkills[] => {
-  const programRules = PROGRAM_RULES[selectedProgram];
-  const programConfig = PROGRAM_CONFIGS[selectedProgram];
-
-  if (!programRules || !programConfig || teams.length === 0) {
+  if (!programRules || teams.length === 0) {
     return [];
   }
 
+  const roundCutoff = (value: number): number =>
+    Math.max(1, applyEligibilityRounding(value, programRules.rounding));
+
   const attendingTeams = teams.filter(team => {
     // Check if team has a qualification ranking (indicating they attended)
     return rawRankings.some(ranking => (ranking.team?.id || ranking.teamId) === team.id && ranking.rank > 0);
@@ -94,7 +94,7 @@ export const calculateEligibility = (
   const gradeSkillsRankingsMap = new Map<string, Array<{teamId: number, rank: number}>>();
   const gradeProgrammingOnlyRankingsMap = new Map<string, Array<{teamId: number, rank: number}>>();
 
-  const isCombinedDivisionEvent = !programRules.hasMiddleSchoolHighSchoolDivisions || !eventHasSplitGradeAwards;
+  const isCombinedDivisionEvent = !programRules.hasGradeSplitAwards || !eventHasSplitGradeAwards;
   const checkProgRankRule = programRules.requiresRankInPositiveProgrammingSkills;
 
   if (!isCombinedDivisionEvent || checkProgRankRule) {
@@ -207,10 +207,10 @@ export const calculateEligibility = (
 
     if (isCombinedDivisionEvent) {
       const totalRankedTeamsInDivision = rawRankings.filter(r => r.rank > 0).length;
-      qualCutoffValue = Math.max(1, applyProgramSpecificRounding(totalRankedTeamsInDivision * programRules.threshold, selectedProgram));
+      qualCutoffValue = roundCutoff(totalRankedTeamsInDivision * programRules.threshold);
       isInQualifyingRank = displayQualRank > 0 && displayQualRank <= qualCutoffValue;
 
-      skillsCutoffValue = Math.max(1, applyProgramSpecificRounding(totalRankedTeamsInDivision * programRules.threshold, selectedProgram));
+      skillsCutoffValue = roundCutoff(totalRankedTeamsInDivision * programRules.threshold);
       isInSkillsRank = displaySkillsRank > 0 && displaySkillsRank <= skillsCutoffValue;
 
       if (programRules.requiresRankInPositiveProgrammingSkills) {
@@ -219,7 +219,7 @@ export const calculateEligibility = (
           const teamEntryInPool = progOnlyPool.find(e => e.teamId === team.id);
           teamProgrammingOnlyRank = teamEntryInPool?.rank || -1;
 
-          programmingOnlyRankCutoffValue = Math.max(1, applyProgramSpecificRounding(totalRankedTeamsInDivision * programRules.programmingSkillsRankThreshold, selectedProgram));
+          programmingOnlyRankCutoffValue = roundCutoff(totalRankedTeamsInDivision * programRules.programmingSkillsRankThreshold);
           meetsProgOnlyRankCriterion = teamProgrammingOnlyRank > 0 && teamProgrammingOnlyRank <= programmingOnlyRankCutoffValue;
         } else {
           meetsProgOnlyRankCriterion = false;
@@ -233,13 +233,13 @@ export const calculateEligibility = (
       if (teamGrade && gradeQualifierRankingsMap.has(teamGrade)) {
         const gradeQualifiers = gradeQualifierRankingsMap.get(teamGrade)!;
         const gradeSpecificQualifierCount = gradeQualifiers.length;
-        qualCutoffValue = Math.max(1, applyProgramSpecificRounding(gradeSpecificQualifierCount * programRules.threshold, selectedProgram));
+        qualCutoffValue = roundCutoff(gradeSpecificQualifierCount * programRules.threshold);
 
         const teamIndexInGradeQual = gradeQualifiers.findIndex(r => (r.team?.id || r.teamId) === team.id);
         displayQualRank = (teamIndexInGradeQual !== -1) ? teamIndexInGradeQual + 1 : -1;
         isInQualifyingRank = displayQualRank > 0 && displayQualRank <= qualCutoffValue;
 
-        skillsCutoffValue = Math.max(1, applyProgramSpecificRounding(gradeSpecificQualifierCount * programRules.threshold, selectedProgram));
+        skillsCutoffValue = roundCutoff(gradeSpecificQualifierCount * programRules.threshold);
 
         const gradeSkillsRankList = gradeSkillsRankingsMap.get(teamGrade);
         const gradeSkillEntryForTeam = gradeSkillsRankList?.find(s => s.teamId === team.id);
@@ -252,7 +252,7 @@ export const calculateEligibility = (
             const teamEntryInPool = progOnlyPool.find(e => e.teamId === team.id);
             teamProgrammingOnlyRank = teamEntryInPool?.rank || -1;
 
-            programmingOnlyRankCutoffValue = Math.max(1, applyProgramSpecificRounding(gradeSpecificQualifierCount * programRules.programmingSkillsRankThreshold, selectedProgram));
+            programmingOnlyRankCutoffValue = roundCutoff(gradeSpecificQualifierCount * programRules.programmingSkillsRankThreshold);
             meetsProgOnlyRankCriterion = teamProgrammingOnlyRank > 0 && teamProgrammingOnlyRank <= programmingOnlyRankCutoffValue;
           } else {
             meetsProgOnlyRankCriterion = false;
@@ -355,11 +355,8 @@ export const sortTeamSkills = (teams: TeamSkills[], sortColumn?: string, sortAsc
 /**
  * Get program requirements description
  */
-export const getProgramRequirements = (program: RobotProgram): string[] => {
-  const rules = PROGRAM_RULES[program];
-  const config = PROGRAM_CONFIGS[program];
-
-  if (!rules || !config) return [];
+export const getProgramRequirements = (rules: EligibilityConfig | null): string[] => {
+  if (!rules) return [];
 
   const requirements: string[] = [];
 
@@ -367,16 +364,92 @@ export const getProgramRequirements = (program: RobotProgram): string[] => {
   requirements.push(`Top ${(rules.threshold * 100).toFixed(0)}% of combined skills rankings`);
 
   if (rules.requiresProgrammingSkills) {
-    requirements.push(`${getDynamicLabel(program, 'Programming')} score above zero required`);
+    requirements.push(`${getDynamicLabel(rules, 'Programming')} score above zero required`);
   }
 
   if (rules.requiresDriverSkills) {
-    requirements.push(`${getDynamicLabel(program, 'Driver')} score above zero required`);
+    requirements.push(`${getDynamicLabel(rules, 'Driver')} score above zero required`);
   }
 
   if (rules.requiresRankInPositiveProgrammingSkills) {
-    requirements.push(`Top ${(rules.programmingSkillsRankThreshold * 100).toFixed(0)}% of ${getDynamicLabel(program, 'Programming').toLowerCase()}-only rankings`);
+    requirements.push(`Top ${(rules.programmingSkillsRankThreshold * 100).toFixed(0)}% of ${getDynamicLabel(rules, 'Programming').toLowerCase()}-only rankings`);
   }
 
   return requirements;
-};
\ No newline at end of file
+};
+
+/**
+ * Explain a team's eligibility, one reason per requirement.
+ * Each reason cites the governing game manual rule from the season's rule set.
+ */
+export const getEligibilityResult = (teamSkills: TeamSkills, ruleSet: EligibilityRuleSet): EligibilityResult => {
+  const rules = ruleSet.eligibility;
+  const { citations } = ruleSet;
+
+  const formatRank = (rank: number, cutoff: number): string => {
+    const rankText = rank < 0 ? 'N/A' : `#${rank}`;
+    return cutoff > 0 ? `Rank: ${rankText} (cutoff: #${cutoff})` : `Rank: ${rankText}`;
+  };
+
+  const formatScore = (score: number, attempts: number): string => {
+    return `${score} (${attempts} attempts)`;
+  };
+
+  const reasons: EligibilityReason[] = [
+    {
+      criterion: 'qualifierRank',
+      met: teamSkills.inRank,
+      label: `Top ${(rules.threshold * 100).toFixed(0)}% of qualification rankings`,
+      details: formatRank(teamSkills.qualifierRank, teamSkills.qualifierRankCutoff),
+      ruleId: citations.qualifierRank,
+    },
+    {
+      criterion: 'skillsRank',
+      met: teamSkills.inSkill,
+      label: `Top ${(rules.threshold * 100).toFixed(0)}% of combined skills rankings`,
+      details: formatRank(teamSkills.skillsRank, teamSkills.skillsRankCutoff),
+      ruleId: citations.skillsRank,
+    },
+  ];
+
+  if (rules.requiresProgrammingSkills) {
+    reasons.push({
+      criterion: 'programmingScore',
+      met: teamSkills.programmingScore > 0,
+      label: `${getDynamicLabel(rules, 'Programming')} score above zero required`,
+      details: formatScore(teamSkills.programmingScore, teamSkills.programmingAttempts),
+      ruleId: citations.programmingScore,
+    });
+  }
+
+  if (rules.requiresDriverSkills) {
+    reasons.push({
+      criterion: 'driverScore',
+      met: teamSkills.driverScore > 0,
+      label: `${getDynamicLabel(rules, 'Driver')} score above zero required`,
+      details: formatScore(teamSkills.driverScore, teamSkills.driverAttempts),
+      ruleId: citations.driverScore,
+    });
+  }
+
+  if (rules.requiresRankInPositiveProgrammingSkills) {
+    reasons.push({
+      criterion: 'programmingOnlyRank',
+      met: teamSkills.meetsProgrammingOnlyRankCriterion,
+      label: `Top ${(rules.programmingSkillsRankThreshold * 100).toFixed(0)}% of ${getDynamicLabel(rules, 'Programming').toLowerCase()}-only rankings`,
+      details: formatRank(teamSkills.programmingOnlyRank, teamSkills.programmingOnlyRankCutoff),
+      ruleId: citations.programmingOnlyRank,
+    });
+  }
+
+  return {
+    team: teamSkills.team,
+    isEligible: teamSkills.eligible,
+    reasons,
+    qualifierRank: teamSkills.qualifierRank > 0 ? teamSkills.qualifierRank : undefined,
+    skillsRank: teamSkills.skillsRank > 0 ? teamSkills.skillsRank : undefined,
+    programmingScore: teamSkills.programmingScore,
+    driverScore: teamSkills.driverScore,
+    autoSkillsRank: teamSkills.programmingOnlyRank > 0 ? teamSkills.programmingOnlyRank : undefined,
+  };
+};
@@ -2,6 +2,8 @@
 export * from './types';
 export * from './common';
 export * from './eligibilityCalculator';
+export * from './ruleSets';
+export * from './whatIfSimulator';
 
 // Re-export old interfaces for backward compatibility
 export type { EligibilityResult } from './types';
@@ -0,0 +1,114 @@
+/**
+ * Season-Versioned Eligibility Rule Sets
+ *
+ * ProgramConfig.eligibility holds each program's default award criteria. The
+ * game manual changes between seasons, so each season can override any of those
+ * fields here and cite the manual rules that govern each criterion.
+ *
+ * Citations are rule IDs from the bundled game manual JSON (src/data/gameManuals)
+ * and are resolved with gameManualService.getRuleById. When a season has no rule
+ * set, the most recent earlier season is used; programs without any rule set fall
+ * back to their ProgramConfig defaults with no citations.
+ *
+ * To add a new season:
+ * 1. Add an entry to RULE_SET_DEFINITIONS with the manual season key
+ * 2. Override only the criteria that changed
+ * 3. Point each citation at the rule ID in that season's bundled manual
+ */
+
+import { ProgramType } from '../../contexts/SettingsContext';
+import { getEligibilityConfig } from '../programMappings';
+import { EligibilityConfig, EligibilityCriterion } from './types';
+
+export type EligibilityCitations = Partial<Record<EligibilityCriterion, string>>;
+
+export interface EligibilityRuleSet {
+  program: ProgramType;
+  season: string | null;           // Manual season key (e.g., "2025-2026"), null for program defaults
+  eligibility: EligibilityConfig;
+  citations: EligibilityCitations;
+}
+
+interface EligibilityRuleSetDefinition {
+  program: ProgramType;
+  season: string;
+  overrides?: Partial<EligibilityConfig>;
+  citations: EligibilityCitations;
+}
+
+const RULE_SET_DEFINITIONS: EligibilityRuleSetDefinition[] = [
+  // 2025-2026 Season (Push Back / Mix & Match)
+  {
+    program: 'VEX V5 Robotics Competition',
+    season: '2025-2026',
+    citations: {
+      qualifierRank: 'v5rc_t12',
+      skillsRank: 'v5rc_t22',
+      programmingScore: 'v5rc_rsc2',
+      driverScore: 'v5rc_rsc2',
+      programmingOnlyRank: 'v5rc_t22',
+    },
+  },
+  {
+    program: 'VEX IQ Robotics Competition',
+    season: '2025-2026',
+    citations: {
+      qualifierRank: 'viqrc_t10',
+      skillsRank: 'viqrc_t17',
+      programmingScore: 'viqrc_rsc6',
+      driverScore: 'viqrc_rsc2',
+      programmingOnlyRank: 'viqrc_t17',
+    },
+  },
+];
+
+// Resolved rule sets are cached so screens get a stable object per program/season
+const resolvedRuleSets: Map<string, EligibilityRuleSet | null> = new Map();
+
+/**
+ * Extract the manual season key from a RobotEvents season name
+ * @param seasonName Season name (e.g., "VEX V5 Robotics Competition 2025-2026: Push Back")
+ * @returns Season key (e.g., "2025-2026"), or null if the name has no year range
+ */
+export const getSeasonKey = (seasonName: string | null | undefined): string | null => {
+  const match = seasonName?.match(/(\d{4})\s*-\s*(\d{4})/);
+  return match ? `${match[1]}-${match[2]}` : null;
+};
+
+/**
+ * Get the eligibility rule set for a program and season
+ * @param program Program name
+ * @param season Manual season key (e.g., "2025-2026"); omit for the latest rule set
+ * @returns Resolved rule set, or null if the program has no eligibility calculator
+ */
+export const getEligibilityRuleSet = (
+  program: ProgramType,
+  season?: string | null
+): EligibilityRuleSet | null => {
+  const cacheKey = `${program}|${season || 'latest'}`;
+  if (resolvedRuleSets.has(cacheKey)) {
+    return resolvedRuleSets.get(cacheKey)!;
+  }
+
+  const defaults = getEligibilityConfig(program);
+  let resolved: EligibilityRuleSet | null = null;
+
+  if (defaults) {
+    // Latest definition at or before the requested season (season keys sort as strings)
+    const definition = RULE_SET_DEFINITIONS
+      .filter(def => def.program === program && (!season || def.season <= season))
+      .sort((a, b) => b.season.localeCompare(a.season))[0];
+
+    resolved = definition
+      ? {
+          program,
+          season: definition.season,
+          eligibility: { ...defaults, ...definition.overrides },
+          citations: definition.citations,
+        }
+      : { program, season: null, eligibility: defaults, citations: {} };
+  }
+
+  resolvedRuleSets.set(cacheKey, resolved);
+  return resolved;
+};
@@ -1,5 +1,8 @@
 import { Team } from '../../types';
 
+// Eligibility rules live in each program's ProgramConfig (utils/programMappings.ts)
+export type { EligibilityConfig, EligibilityRounding } from '../programMappings';
+
 export interface TeamRanking {
   team: Team;
   rank: number;
@@ -39,86 +42,27 @@ export interface TeamSkills {
   meetsProgrammingOnlyRankCriterion: boolean;
 }
 
-export interface ProgramRules {
-  threshold: number;
-  requiresProgrammingSkills: boolean;
-  requiresDriverSkills: boolean;
-  requiresRankInPositiveProgrammingSkills: boolean;
-  programmingSkillsRankThreshold: number;
-  hasMiddleSchoolHighSchoolDivisions: boolean;
-  splitAwardGrades?: string[];
-}
+export type GradeLevel = 'Elementary' | 'Middle School' | 'High School';
 
-export enum RobotProgram {
-  ADC = 'adc',
-  V5RC = 'v5rc',
-  VIQRC = 'viqrc'
-}
+export type EligibilityCriterion =
+  | 'qualifierRank'
+  | 'skillsRank'
+  | 'programmingScore'
+  | 'driverScore'
+  | 'programmingOnlyRank';
 
-export interface ProgramInfo {
-  id: number;
-  name: string;
-  awardName: string;
-  skuPrefix: string;
+export interface EligibilityReason {
+  criterion: EligibilityCriterion;
+  met: boolean;
+  label: string;    // Requirement description (e.g., "Top 40% of qualification rankings")
+  details: string;  // Team's standing against the requirement
+  ruleId?: string;  // Governing rule ID in the bundled game manual (e.g., "v5rc_t22")
 }
 
-export const PROGRAM_CONFIGS: Record<RobotProgram, ProgramInfo> = {
-  [RobotProgram.ADC]: {
-    id: 37,
-    name: 'Aerial Drone Competition',
-    awardName: 'All Around Champion',
-    skuPrefix: 'RE-ADC-'
-  },
-  [RobotProgram.V5RC]: {
-    id: 1,
-    name: 'VEX Robotics Competition',
-    awardName: 'Excellence Award',
-    skuPrefix: 'RE-V5RC-'
-  },
-  [RobotProgram.VIQRC]: {
-    id: 41,
-    name: 'VEX IQ Robotics Competition',
-    awardName: 'Excellence Award',
-    skuPrefix: 'RE-VIQRC-'
-  }
-};
-
-export const PROGRAM_RULES: Record<RobotProgram, ProgramRules> = {
-  [RobotProgram.ADC]: {
-    threshold: 0.5,
-    requiresProgrammingSkills: true,
-    requiresDriverSkills: false,
-    requiresRankInPositiveProgrammingSkills: false,
-    programmingSkillsRankThreshold: 0.0,
-    hasMiddleSchoolHighSchoolDivisions: false,
-    splitAwardGrades: undefined
-  },
-  [RobotProgram.V5RC]: {
-    threshold: 0.4,
-    requiresProgrammingSkills: true,
-    requiresDriverSkills: true,
-    requiresRankInPositiveProgrammingSkills: true,
-    programmingSkillsRankThreshold: 0.4,
-    hasMiddleSchoolHighSchoolDivisions: true,
-    splitAwardGrades: ['High School', 'Middle School']
-  },
-  [RobotProgram.VIQRC]: {
-    threshold: 0.4,
-    requiresProgrammingSkills: true,
-    requiresDriverSkills: true,
-    requiresRankInPositiveProgrammingSkills: true,
-    programmingSkillsRankThreshold: 0.4,
-    hasMiddleSchoolHighSchoolDivisions: true,
-    splitAwardGrades: ['High School', 'Middle School', 'Elementary']
-  }
-};
-
-export type GradeLevel = 'Elementary' | 'Middle School' | 'High School';
-
 export interface EligibilityResult {
   team: Team;
   isEligible: boolean;
-  reasons: string[];
+  reasons: EligibilityReason[];
   qualifierRank?: number;
   skillsRank?: number;
   programmingScore: number;
@@ -0,0 +1,232 @@
+/**
+ * What-If Eligibility Simulator
+ *
+ * Re-runs calculateEligibility with hypothetical values for one team so users can
+ * see how an in-progress event could play out: a new programming or driver skills
+ * score, or a projected final qualifier rank. The rest of the event data is left
+ * untouched, so cutoffs shift exactly as they would if the hypothetical happened.
+ *
+ * Also searches for the minimum skills score needed to cross each skills threshold.
+ */
+
+import {
+  TeamSkills,
+  RawSkill,
+  EligibilityConfig,
+  EligibilityCriterion
+} from './types';
+import { Team } from '../../types';
+import { calculateEligibility } from './eligibilityCalculator';
+import { getDynamicLabel } from './common';
+
+/**
+ * Event data needed to recalculate eligibility (same inputs as calculateEligibility)
+ */
+export interface EligibilitySimulationInput {
+  teams: Team[];
+  rawRankings: any[];
+  rawSkills: RawSkill[];
+  awards: any[];
+  programRules: EligibilityConfig;
+  eventHasSplitGradeAwards: boolean;
+}
+
+/**
+ * Hypothetical values for a single team. Omitted values keep the team's current data.
+ */
+export interface EligibilityScenario {
+  teamId: number;
+  programmingScore?: number;
+  driverScore?: number;
+  qualifierRank?: number;
+}
+
+export interface SkillsThreshold {
+  criterion: EligibilityCriterion;
+  skillType: 'programming' | 'driver';
+  label: string;
+  alreadyMet: boolean;
+  minimumScore: number | null; // null when no score can meet the threshold
+}
+
+export interface EligibilitySimulationResult {
+  baseline: TeamSkills | null;
+  simulated: TeamSkills | null;
+  thresholds: SkillsThreshold[];
+}
+
+const getRankingTeamId = (ranking: any): number => ranking.team?.id || ranking.teamId;
+
+/**
+ * Replace a team's runs of one skills type with a single hypothetical run
+ */
+const applySkillsScore = (
+  rawSkills: RawSkill[],
+  teamId: number,
+  type: 'programming' | 'driver',
+  score: number
+): RawSkill[] => {
+  const existingRuns = rawSkills.filter(s => s.teamId === teamId && s.type === type);
+  const attempts = Math.max(1, ...existingRuns.map(s => s.attempts));
+
+  return [
+    ...rawSkills.filter(s => !(s.teamId === teamId && s.type === type)),
+    { teamId, type, score, attempts },
+  ];
+};
+
+/**
+ * Move a team to a projected qualifier rank, shifting the other ranked teams
+ */
+const applyQualifierRank = (rawRankings: any[], team: Team, rank: number): any[] => {
+  const ranked = rawRankings
+    .filter(r => r.rank > 0 && getRankingTeamId(r) !== team.id)
+    .sort((a, b) => a.rank - b.rank);
+  const unranked = rawRankings.filter(r => !(r.rank > 0) && getRankingTeamId(r) !== team.id);
+  const existing = rawRankings.find(r => getRankingTeamId(r) === team.id);
+
+  const position = Math.min(Math.max(rank, 1), ranked.length + 1) - 1;
+  ranked.splice(position, 0, existing || { team: { id: team.id, name: team.number }, rank });
+
+  return [
+    ...ranked.map((r, index) => ({ ...r, rank: index + 1 })),
+    ...unranked,
+  ];
+};
+
+const runCalculation = (
+  input: EligibilitySimulationInput,
+  rawRankings: any[],
+  rawSkills: RawSkill[],
+  teamId: number
+): TeamSkills | null => {
+  const results = calculateEligibility(
+    input.teams,
+    rawRankings,
+    rawSkills,
+    input.awards,
+    input.programRules,
+    input.eventHasSplitGradeAwards
+  );
+  return results.find(ts => ts.team.id === teamId) || null;
+};
+
+/**
+ * Binary search for the lowest score that satisfies a threshold.
+ * Every threshold is monotonic in score: a higher score never lowers a skills rank.
+ */
+const findMinimumScore = (
+  meetsThreshold: (score: number) => boolean,
+  upperBound: number
+): number | null => {
+  if (!meetsThreshold(upperBound)) {
+    return null;
+  }
+
+  let low = 1;
+  let high = upperBound;
+  while (low < high) {
+    const mid = Math.floor((low + high) / 2);
+    if (meetsThreshold(mid)) {
+      high = mid;
+    } else {
+      low = mid + 1;
+    }
+  }
+  return low;
+};
+
+/**
+ * Simulate eligibility for one team under a hypothetical scenario
+ */
+export const simulateEligibility = (
+  input: EligibilitySimulationInput,
+  scenario: EligibilityScenario
+): EligibilitySimulationResult => {
+  const { teamId } = scenario;
+  const rules = input.programRules;
+  const team = input.teams.find(t => t.id === teamId);
+
+  const baseline = runCalculation(input, input.rawRankings, input.rawSkills, teamId);
+  if (!team) {
+    return { baseline, simulated: null, thresholds: [] };
+  }
+
+  // Apply the scenario on top of the current event data
+  let rawSkills = input.rawSkills;
+  if (scenario.programmingScore !== undefined) {
+    rawSkills = applySkillsScore(rawSkills, teamId, 'programming', scenario.programmingScore);
+  }
+  if (scenario.driverScore !== undefined) {
+    rawSkills = applySkillsScore(rawSkills, teamId, 'driver', scenario.driverScore);
+  }
+  const rawRankings = scenario.qualifierRank !== undefined
+    ? applyQualifierRank(input.rawRankings, team, scenario.qualifierRank)
+    : input.rawRankings;
+
+  const simulated = runCalculation(input, rawRankings, rawSkills, teamId);
+  if (!simulated) {
+    return { baseline, simulated, thresholds: [] };
+  }
+
+  // A score above every combined score at the event is always rank 1 if rank 1 is reachable
+  const maxCombinedScore = input.teams.reduce((max, t) => {
+    const best = (type: 'programming' | 'driver') =>
+      Math.max(0, ...rawSkills.filter(s => s.teamId === t.id && s.type === type).map(s => s.score));
+    return Math.max(max, best('programming') + best('driver'));
+  }, 0);
+  const upperBound = maxCombinedScore + 1;
+
+  const evaluate = (type: 'programming' | 'driver', score: number): TeamSkills | null =>
+    runCalculation(input, rawRankings, applySkillsScore(rawSkills, teamId, type, score), teamId);
+
+  const progLabel = getDynamicLabel(rules, 'Programming');
+  const driverLabel = getDynamicLabel(rules, 'Driver');
+  const thresholds: SkillsThreshold[] = [];
+
+  // Combined skills rank, reached by improving either skills type alone
+  (['programming', 'driver'] as const).forEach(type => {
+    thresholds.push({
+      criterion: 'skillsRank',
+      skillType: type,
+      label: `${type === 'programming' ? progLabel : driverLabel} score for top ${(rules.threshold * 100).toFixed(0)}% of skills rankings`,
+      alreadyMet: simulated.inSkill,
+      minimumScore: findMinimumScore(score => evaluate(type, score)?.inSkill === true, upperBound),
+    });
+  });
+
+  if (rules.requiresProgrammingSkills) {
+    thresholds.push({
+      criterion: 'programmingScore',
+      skillType: 'programming',
+      label: `${progLabel} score above zero`,
+      alreadyMet: simulated.programmingScore > 0,
+      minimumScore: 1,
+    });
+  }
+
+  if (rules.requiresDriverSkills) {
+    thresholds.push({
+      criterion: 'driverScore',
+      skillType: 'driver',
+      label: `${driverLabel} score above zero`,
+      alreadyMet: simulated.driverScore > 0,
+      minimumScore: 1,
+    });
+  }
+
+  if (rules.requiresRankInPositiveProgrammingSkills) {
+    thresholds.push({
+      criterion: 'programmingOnlyRank',
+      skillType: 'programming',
+      label: `${progLabel} score for top ${(rules.programmingSkillsRankThreshold * 100).toFixed(0)}% of ${progLabel.toLowerCase()}-only rankings`,
+      alreadyMet: simulated.meetsProgrammingOnlyRankCriterion,
+      minimumScore: findMinimumScore(
+        score => evaluate('programming', score)?.meetsProgrammingOnlyRankCriterion === true,
+        upperBound
+      ),
+    });
+  }
+
+  return { baseline, simulated, thresholds };
+};
@@ -278,7 +278,7 @@ export const filterLiveEvents = (
  * Helper function to check if a match has been played using the same logic as match lists
  * Checks for real scores, non-zero scores, and if any later match in the same division has been scored
  */
-const isMatchPlayed = (match: any, allMatches: any[]): boolean => {
+export const isMatchPlayed = (match: any, allMatches: any[]): boolean => {
   const hasStarted = match.started && match.started !== null;
   const hasRealScores = match.alliances && match.alliances.some((alliance: any) => alliance.score > 0);
   const hasNonZeroScores = match.alliances && !match.alliances.every((alliance: any) =>
@@ -0,0 +1,236 @@
+/**
+ * Export formats
+ *
+ * Renders the team table built by DataExporter into each supported file format.
+ * Rows keep raw values (numbers stay numbers, missing data is null) so JSON is
+ * lossless; CSV, XLSX and PDF format them the same way the CSV export always has.
+ * CSV itself is written by DataExporter, which owns the CSV escaping rules.
+ */
+
+import * as XLSX from 'xlsx';
+import { Team } from '../types';
+import { Award, Ranking, Skill } from '../types/api';
+import { TeamMatchNote } from '../contexts/NotesContext';
+
+export type ExportFormat = 'csv' | 'xlsx' | 'pdf' | 'json';
+
+export type ExportValue = string | number | null;
+
+export interface TeamExportRow {
+  team: Team;
+  division?: string; // Division at the source event, used for XLSX sheets
+  values: Record<string, ExportValue>; // Keyed by header
+}
+
+export interface TeamExportTable {
+  title: string; // Event or export name shown in reports
+  scope: 'event' | 'season' | 'season-by-event';
+  headers: string[]; // 'Team Number' followed by the selected fields
+  rows: TeamExportRow[];
+}
+
+export interface EventReportSection {
+  divisionRankings: { division: string; rankings: Ranking[] }[];
+  skills: Skill[];
+  awards: Award[];
+  notes: TeamMatchNote[];
+}
+
+export const EXPORT_FORMAT_INFO: Record<ExportFormat, { label: string; extension: string; mimeType: string; UTI: string }> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv', UTI: 'public.comma-separated-values-text' },
+  xlsx: {
+    label: 'Excel',
+    extension: 'xlsx',
+    mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    UTI: 'org.openxmlformats.spreadsheetml.sheet',
+  },
+  pdf: { label: 'PDF', extension: 'pdf', mimeType: 'application/pdf', UTI: 'com.adobe.pdf' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json', UTI: 'public.json' },
+};
+
+// Bump when the JSON layout changes so consumers can tell versions apart
+const JSON_EXPORT_VERSION = 1;
+
+const PERCENT_FIELDS = ['Winrate'];
+const DECIMAL_FIELDS = ['WP', 'AP', 'SP', 'Average Points', 'Average Qualifiers Ranking'];
+const EMPTY_TEXT: Record<string, string> = { 'Award Details': 'None' };
+
+/**
+ * Display text for a raw value, matching the original CSV export
+ */
+export const formatExportValue = (field: string, value: ExportValue | undefined): string | number => {
+  if (value === null || value === undefined) return EMPTY_TEXT[field] ?? 'N/A';
+  if (typeof value !== 'number') return value;
+  if (PERCENT_FIELDS.includes(field)) return `${(value * 100).toFixed(1)}%`;
+  if (DECIMAL_FIELDS.includes(field)) return value.toFixed(2);
+  return value;
+};
+
+const formatRow = (table: TeamExportTable, row: TeamExportRow) =>
+  table.headers.map(header => formatExportValue(header, row.values[header]));
+
+/**
+ * Header row followed by the formatted rows, for delimited text formats
+ */
+export const formatTableRows = (table: TeamExportTable): (string | number)[][] =>
+  [table.headers, ...table.rows.map(row => formatRow(table, row))];
+
+export const renderTableJSON = (table: TeamExportTable, exportedAt: Date = new Date()): string =>
+  JSON.stringify({
+    type: 'robonexus.teams',
+    version: JSON_EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    title: table.title,
+    scope: table.scope,
+    fields: table.headers,
+    rows: table.rows.map(row => ({
+      team: { id: row.team.id, number: row.team.number },
+      ...(row.division ? { division: row.division } : {}),
+      values: row.values,
+    })),
+  }, null, 2);
+
+// Excel limits sheet names to 31 characters without []:*?/\
+const toSheetName = (name: string, used: Set<string>): string => {
+  const base = name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet';
+  let sheetName = base;
+  for (let i = 2; used.has(sheetName.toLowerCase()); i++) {
+    sheetName = `${base.slice(0, 31 - String(i).length - 1)} ${i}`;
+  }
+  used.add(sheetName.toLowerCase());
+  return sheetName;
+};
+
+/**
+ * Workbook with one sheet per division (a single sheet when rows have no division)
+ */
+export const renderTableXLSX = (table: TeamExportTable): Uint8Array => {
+  const workbook = XLSX.utils.book_new();
+  const usedNames = new Set<string>();
+
+  const groups = new Map<string, TeamExportRow[]>();
+  table.rows.forEach(row => {
+    const key = row.division || 'Teams';
+    groups.set(key, [...(groups.get(key) || []), row]);
+  });
+  if (groups.size === 0) groups.set('Teams', []);
+
+  groups.forEach((rows, division) => {
+    const sheet = XLSX.utils.aoa_to_sheet([table.headers, ...rows.map(row => formatRow(table, row))]);
+    sheet['!cols'] = table.headers.map(header => ({ wch: Math.max(10, Math.min(40, header.length + 2)) }));
+    XLSX.utils.book_append_sheet(workbook, sheet, toSheetName(division, usedNames));
+  });
+
+  return new Uint8Array(XLSX.write(workbook, { type: 'array', bookType: 'xlsx' }));
+};
+
+const escapeHTML = (value: string | number): string =>
+  String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const renderHTMLTable = (headers: string[], rows: (string | number)[][]): string => `
+  <table>
+    <thead><tr>${headers.map(header => `<th>${escapeHTML(header)}</th>`).join('')}</tr></thead>
+    <tbody>${rows.map(row => `<tr>${row.map(value => `<td>${escapeHTML(value)}</td>`).join('')}</tr>`).join('')}</tbody>
+  </table>`;
+
+const renderSkillsRows = (skills: Skill[]): (string | number)[][] => {
+  const byTeam = new Map<string, { driver: number; programming: number }>();
+  skills.forEach(skill => {
+    const teamNumber = skill.team?.name;
+    if (!teamNumber || (skill.type !== 'driver' && skill.type !== 'programming')) return;
+    const entry = byTeam.get(teamNumber) || { driver: 0, programming: 0 };
+    entry[skill.type] = Math.max(entry[skill.type], skill.score);
+    byTeam.set(teamNumber, entry);
+  });
+  return Array.from(byTeam.entries())
+    .sort(([, a], [, b]) => (b.driver + b.programming) - (a.driver + a.programming))
+    .map(([teamNumber, entry], index) => [index + 1, teamNumber, entry.driver + entry.programming, entry.driver, entry.programming]);
+};
+
+/**
+ * Printable scouting report: the selected team fields followed by the event's
+ * rankings, skills, awards and the user's notes
+ */
+export const renderEventReportHTML = (
+  table: TeamExportTable,
+  report: EventReportSection,
+  subtitle: string,
+  generatedAt: Date = new Date()
+): string => {
+  const sections: string[] = [];
+
+  if (table.rows.length > 0) {
+    sections.push(`<h2>Teams</h2>${renderHTMLTable(table.headers, table.rows.map(row => formatRow(table, row)))}`);
+  }
+
+  report.divisionRankings.forEach(({ division, rankings }) => {
+    if (rankings.length === 0) return;
+    const rows = [...rankings]
+      .sort((a, b) => a.rank - b.rank)
+      .map(ranking => [
+        ranking.rank,
+        ranking.team?.name ?? '',
+        `${ranking.wins}-${ranking.losses}-${ranking.ties}`,
+        ranking.wp,
+        ranking.ap,
+        ranking.sp,
+        ranking.high_score,
+        ranking.average_points.toFixed(2),
+      ]);
+    const title = report.divisionRankings.length > 1 ? `Rankings · ${division}` : 'Rankings';
+    sections.push(`<h2>${escapeHTML(title)}</h2>${renderHTMLTable(['Rank', 'Team', 'W-L-T', 'WP', 'AP', 'SP', 'High', 'Avg'], rows)}`);
+  });
+
+  const skillsRows = renderSkillsRows(report.skills);
+  if (skillsRows.length > 0) {
+    sections.push(`<h2>Skills</h2>${renderHTMLTable(['Rank', 'Team', 'Combined', 'Driver', 'Programming'], skillsRows)}`);
+  }
+
+  const awardRows = report.awards
+    .filter(award => award.teamWinners.length > 0 || award.individualWinners.length > 0)
+    .sort((a, b) => a.order - b.order)
+    .map(award => [
+      award.title,
+      [...award.teamWinners.map(winner => winner.team?.name), ...award.individualWinners].filter(Boolean).join(', '),
+    ]);
+  if (awardRows.length > 0) {
+    sections.push(`<h2>Awards</h2>${renderHTMLTable(['Award', 'Winners'], awardRows)}`);
+  }
+
+  const notes = report.notes.filter(note => note.note.trim() !== '');
+  if (notes.length > 0) {
+    const rows = [...notes]
+      .sort((a, b) => a.teamNumber.localeCompare(b.teamNumber, undefined, { numeric: true }) || a.matchName.localeCompare(b.matchName, undefined, { numeric: true }))
+      .map(note => [note.teamNumber, note.matchName, note.note]);
+    sections.push(`<h2>Notes</h2>${renderHTMLTable(['Team', 'Match', 'Note'], rows)}`);
+  }
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8" />
+  <title>${escapeHTML(table.title)}</title>
+  <style>
+    @page { size: landscape; margin: 12mm; }
+    body { font-family: -apple-system, Helvetica, Arial, sans-serif; color: #1c1c1e; font-size: 10px; }
+    h1 { font-size: 20px; margin: 0 0 2px; }
+    h2 { font-size: 14px; margin: 18px 0 6px; border-bottom: 2px solid #1c1c1e; padding-bottom: 2px; }
+    .subtitle { color: #6e6e73; margin-bottom: 8px; }
+    table { width: 100%; border-collapse: collapse; page-break-inside: auto; }
+    tr { page-break-inside: avoid; }
+    th { background: #f2f2f7; text-align: left; font-weight: 600; }
+    th, td { border: 1px solid #d1d1d6; padding: 3px 5px; vertical-align: top; }
+    tbody tr:nth-child(even) { background: #fafafa; }
+  </style>
+</head>
+<body>
+  <h1>${escapeHTML(table.title)}</h1>
+  <div class="subtitle">${escapeHTML(subtitle)} · Generated ${escapeHTML(generatedAt.toLocaleString())}</div>
+  ${sections.join('\n')}
+</body>
+</html>`;
+};
@@ -0,0 +1,280 @@
+/**
+ * Live event utilities
+ *
+ * Pure helpers behind the live event poller: where a team sits in the match
+ * queue, what changed between two polls of an event and how soon to poll again.
+ * Teams are identified by team number (the `name` of API team references) so
+ * favorites, which only store numbers, can be matched directly.
+ */
+
+import { Award, Match, Ranking, Skill } from '../types/api';
+import { isMatchPlayed } from './eventUtils';
+
+export interface LiveEventSnapshot {
+  eventId: number;
+  eventName: string;
+  fetchedAt: number;
+  matches: Match[]; // Every division
+  rankings: Ranking[]; // Qualification rankings, every division
+  skills: Skill[];
+  awards: Award[];
+}
+
+export type LiveEventChangeType = 'upcomingMatch' | 'matchScored' | 'rankChanged' | 'awardWon';
+
+export interface LiveEventChange {
+  key: string; // Stable across polls so a change is only reported once
+  type: LiveEventChangeType;
+  eventId: number;
+  teamNumber: string;
+  title: string;
+  body: string;
+}
+
+export interface QueuePosition {
+  match: Match;
+  matchesAway: number; // Unplayed matches in the division before this one
+}
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+/**
+ * Poll intervals. A favorite team about to play is polled as often as the
+ * response cache allows, an event with matches running every couple of minutes
+ * and a quiet event (lunch, between days, before the first match) rarely.
+ */
+export const LIVE_EVENT_POLL_INTERVALS = {
+  teamUpNext: MINUTE,
+  matchesRunning: 2 * MINUTE,
+  idle: 5 * MINUTE,
+};
+
+// An event counts as running when a match started within this window
+const RECENT_ACTIVITY_WINDOW = 20 * MINUTE;
+
+export const getTeamNumbersInMatch = (match: Match): string[] =>
+  (match.alliances || []).flatMap(alliance => (alliance.teams || []).map(team => team.team?.name).filter(Boolean));
+
+const getAllianceForTeam = (match: Match, teamNumber: string) =>
+  (match.alliances || []).find(alliance => alliance.teams?.some(team => team.team?.name === teamNumber));
+
+const hasResult = (match: Match): boolean =>
+  (match.alliances || []).some(alliance => alliance.score > 0);
+
+/**
+ * Play order within an event: scheduled time when both have one, then round,
+ * instance and match number
+ */
+export const compareMatchOrder = (a: Match, b: Match): number => {
+  if (a.scheduled && b.scheduled && a.scheduled !== b.scheduled) {
+    return new Date(a.scheduled).getTime() - new Date(b.scheduled).getTime();
+  }
+  return (a.round - b.round) || (a.instance - b.instance) || (a.matchnum - b.matchnum);
+};
+
+/**
+ * The team's next unplayed match and how many matches in its division come first
+ */
+export const getQueuePosition = (matches: Match[], teamNumber: string): QueuePosition | null => {
+  const unplayed = matches
+    .filter(match => !isMatchPlayed(match, matches))
+    .sort(compareMatchOrder);
+
+  const next = unplayed.find(match => getTeamNumbersInMatch(match).includes(teamNumber));
+  if (!next) return null;
+
+  const matchesAway = unplayed
+    .filter(match => match.division?.id === next.division?.id)
+    .indexOf(next);
+  return { match: next, matchesAway };
+};
+
+export const formatMatchResult = (match: Match, teamNumber: string): string => {
+  const red = match.alliances.find(alliance => alliance.color === 'red');
+  const blue = match.alliances.find(alliance => alliance.color === 'blue');
+  const score = `Red ${red?.score ?? 0} - Blue ${blue?.score ?? 0}`;
+
+  const teamAlliance = getAllianceForTeam(match, teamNumber);
+  if (!teamAlliance || !red || !blue || blue.teams.length === 0) {
+    return score; // Cooperative formats have no opponent
+  }
+  const opponent = teamAlliance.color === 'red' ? blue : red;
+  const outcome = teamAlliance.score > opponent.score ? 'Won' : teamAlliance.score < opponent.score ? 'Lost' : 'Tied';
+  return `${outcome} ${score}`;
+};
+
+const describeMatchesAway = (matchesAway: number): string => {
+  if (matchesAway === 0) return 'up next';
+  return `${matchesAway} ${matchesAway === 1 ? 'match' : 'matches'} away`;
+};
+
+/**
+ * Changes worth telling the user about for the watched teams. Upcoming matches
+ * are reported from the first poll; scores, rank changes and awards need a
+ * previous poll to compare against.
+ */
+export const diffLiveEventSnapshots = (
+  previous: LiveEventSnapshot | null,
+  next: LiveEventSnapshot,
+  teamNumbers: string[],
+  upcomingMatchThreshold: number
+): LiveEventChange[] => {
+  const changes: LiveEventChange[] = [];
+  const base = { eventId: next.eventId };
+
+  teamNumbers.forEach(teamNumber => {
+    const position = getQueuePosition(next.matches, teamNumber);
+    if (position && position.matchesAway <= upcomingMatchThreshold) {
+      const { match, matchesAway } = position;
+      const alliance = getAllianceForTeam(match, teamNumber)?.color;
+      changes.push({
+        ...base,
+        key: `upcoming-${match.id}-${teamNumber}`,
+        type: 'upcomingMatch',
+        teamNumber,
+        title: `${teamNumber}: ${match.name} ${describeMatchesAway(matchesAway)}`,
+        body: [alliance ? `${alliance === 'red' ? 'Red' : 'Blue'} alliance` : null, match.field, next.eventName]
+          .filter(Boolean).join(' · '),
+      });
+    }
+  });
+
+  if (!previous) return changes;
+
+  // Matches that have a result now but did not last time
+  const previousMatches = new Map(previous.matches.map(match => [match.id, match]));
+  next.matches.forEach(match => {
+    const before = previousMatches.get(match.id);
+    if (!hasResult(match) || (before && hasResult(before))) return;
+    getTeamNumbersInMatch(match)
+      .filter(teamNumber => teamNumbers.includes(teamNumber))
+      .forEach(teamNumber => {
+        changes.push({
+          ...base,
+          key: `scored-${match.id}-${teamNumber}`,
+          type: 'matchScored',
+          teamNumber,
+          title: `${teamNumber}: ${match.name} scored`,
+          body: formatMatchResult(match, teamNumber),
+        });
+      });
+  });
+
+  const previousRanks = new Map(previous.rankings.map(ranking => [ranking.team?.name, ranking.rank]));
+  next.rankings.forEach(ranking => {
+    const teamNumber = ranking.team?.name;
+    const before = previousRanks.get(teamNumber);
+    if (!teamNumbers.includes(teamNumber) || before === undefined || before === ranking.rank) return;
+    changes.push({
+      ...base,
+      key: `rank-${teamNumber}-${before}-${ranking.rank}-${next.fetchedAt}`,
+      type: 'rankChanged',
+      teamNumber,
+      title: `${teamNumber} ${ranking.rank < before ? 'moved up' : 'dropped'} to rank ${ranking.rank}`,
+      body: `Was ${before} · ${ranking.wins}-${ranking.losses}-${ranking.ties} · ${next.eventName}`,
+    });
+  });
+
+  const previousAwardWinners = new Set(
+    previous.awards.flatMap(award => award.teamWinners.map(winner => `${award.id}-${winner.team?.name}`))
+  );
+  next.awards.forEach(award => {
+    award.teamWinners
+      .map(winner => winner.team?.name)
+      .filter(teamNumber => teamNumbers.includes(teamNumber) && !previousAwardWinners.has(`${award.id}-${teamNumber}`))
+      .forEach(teamNumber => {
+        changes.push({
+          ...base,
+          key: `award-${award.id}-${teamNumber}`,
+          type: 'awardWon',
+          teamNumber,
+          title: `${teamNumber} won ${award.title}`,
+          body: next.eventName,
+        });
+      });
+  });
+
+  return changes;
+};
+
+export interface ScheduledMatchReminder {
+  key: string; // Same key as the matching upcomingMatch change
+  eventId: number;
+  teamNumber: string;
+  title: string;
+  body: string;
+  triggerAt: number; // Epoch ms
+}
+
+/**
+ * Upcoming match alerts worked out ahead of time from the schedule, for when
+ * the app is in the background and cannot poll. Each reminder fires at the
+ * scheduled time of the match that leaves the team `upcomingMatchThreshold`
+ * matches away, so it drifts when the event runs ahead of or behind schedule.
+ */
+export const getScheduledMatchReminders = (
+  snapshot: LiveEventSnapshot,
+  teamNumbers: string[],
+  upcomingMatchThreshold: number,
+  now: number
+): ScheduledMatchReminder[] => {
+  const unplayed = snapshot.matches
+    .filter(match => !isMatchPlayed(match, snapshot.matches))
+    .sort(compareMatchOrder);
+  const reminders: ScheduledMatchReminder[] = [];
+
+  teamNumbers.forEach(teamNumber => {
+    unplayed
+      .filter(match => getTeamNumbersInMatch(match).includes(teamNumber))
+      .forEach(match => {
+        const divisionQueue = unplayed.filter(other => other.division?.id === match.division?.id);
+        const index = divisionQueue.indexOf(match);
+        const triggerMatch = divisionQueue[Math.max(0, index - upcomingMatchThreshold)];
+        const triggerAt = triggerMatch.scheduled ? new Date(triggerMatch.scheduled).getTime() : NaN;
+        if (isNaN(triggerAt) || triggerAt <= now) return;
+
+        const alliance = getAllianceForTeam(match, teamNumber)?.color;
+        reminders.push({
+          key: `upcoming-${match.id}-${teamNumber}`,
+          eventId: snapshot.eventId,
+          teamNumber,
+          title: `${teamNumber}: ${match.name} ${describeMatchesAway(Math.min(index, upcomingMatchThreshold))}`,
+          body: [alliance ? `${alliance === 'red' ? 'Red' : 'Blue'} alliance` : null, match.field, snapshot.eventName, 'Based on the schedule']
+            .filter(Boolean).join(' · '),
+          triggerAt,
+        });
+      });
+  });
+
+  return reminders.sort((a, b) => a.triggerAt - b.triggerAt);
+};
+
+/**
+ * Compact fingerprint of the data screens display, used to skip updates when a
+ * poll returned nothing new
+ */
+export const getSnapshotSignature = (snapshot: LiveEventSnapshot): string =>
+  JSON.stringify([
+    snapshot.matches.map(match => [match.id, match.started, match.scheduled, match.alliances?.map(alliance => alliance.score)]),
+    snapshot.rankings.map(ranking => [ranking.team?.id, ranking.rank, ranking.wins, ranking.losses, ranking.ties]),
+    snapshot.skills.map(skill => [skill.team?.id, skill.type, skill.rank, skill.score]),
+    snapshot.awards.map(award => [award.id, award.teamWinners.map(winner => winner.team?.id)]),
+  ]);
+
+export const getLiveEventPollInterval = (
+  snapshot: LiveEventSnapshot,
+  teamNumbers: string[],
+  upcomingMatchThreshold: number
+): number => {
+  const teamUpNext = teamNumbers.some(teamNumber => {
+    const position = getQueuePosition(snapshot.matches, teamNumber);
+    return position !== null && position.matchesAway <= upcomingMatchThreshold;
+  });
+  if (teamUpNext) return LIVE_EVENT_POLL_INTERVALS.teamUpNext;
+
+  const matchesRunning = snapshot.matches.some(match =>
+    match.started && snapshot.fetchedAt - new Date(match.started).getTime() < RECENT_ACTIVITY_WINDOW
+  );
+  return matchesRunning ? LIVE_EVENT_POLL_INTERVALS.matchesRunning : LIVE_EVENT_POLL_INTERVALS.idle;
+};
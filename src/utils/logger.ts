@@ -64,7 +64,11 @@ export const MODULE_LOG_CONFIG = {
   robotEventsApi: false,
   apiRouter: false,
   gameManualService: false,
+  fixtureEventsAPI: false,
   recfEventsAPI: false,
+  pagination: false,
+  requestQueue: false,
+  responseCache: false,
   vrcDataAnalysisAPI: false,
 } as const;
 
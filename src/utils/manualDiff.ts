@@ -0,0 +1,170 @@
+/**
+ * Game manual diffing
+ *
+ * Compares two versions of a manual rule by rule, keyed by Rule.id. Rule text
+ * is compared without its {{FORMAT}} markers so restyling a word is not
+ * reported as a change. Modified rules keep a word-level diff of their text,
+ * trimmed to the words around each edit, so the changelog can show exactly
+ * what was reworded without storing every rule twice.
+ */
+
+import { GameManual, Rule, RuleChange, TextDiffSegment } from '../types/gameManual';
+
+// Unchanged words kept on each side of an edit
+const CONTEXT_WORDS = 12;
+
+// The word diff uses an n*m table; larger rewrites are shown as a single replacement
+const MAX_DIFF_CELLS = 250000;
+
+const stripMarkers = (text: string | undefined): string =>
+  text ? text.replace(/\{\{[^}]*\}\}/g, ' ').replace(/\s+/g, ' ').trim() : '';
+
+const getRuleText = (rule: Rule): string => stripMarkers(rule.completeText || rule.fullText || rule.description);
+
+const getRulesById = (manual: GameManual): Map<string, Rule> => {
+  const rules = new Map<string, Rule>();
+  manual.ruleGroups.forEach(group => group.rules.forEach(rule => rules.set(rule.id, rule)));
+  return rules;
+};
+
+/**
+ * Merge runs of words into segments. Each word after the first carries its
+ * leading space so segments can be rendered back to back.
+ */
+const toSegments = (ops: { type: TextDiffSegment['type']; word: string }[]): TextDiffSegment[] => {
+  const segments: TextDiffSegment[] = [];
+  ops.forEach((op, index) => {
+    const text = index === 0 ? op.word : ` ${op.word}`;
+    const last = segments[segments.length - 1];
+    if (last && last.type === op.type) {
+      last.text += text;
+    } else {
+      segments.push({ type: op.type, text });
+    }
+  });
+  return segments;
+};
+
+/**
+ * Shorten long unchanged runs to the words next to an edit
+ */
+const trimContext = (segments: TextDiffSegment[]): TextDiffSegment[] =>
+  segments.map((segment, index) => {
+    if (segment.type !== 'equal') return segment;
+    const words = segment.text.trim().split(' ');
+    const keepBefore = index > 0 ? CONTEXT_WORDS : 0;
+    const keepAfter = index < segments.length - 1 ? CONTEXT_WORDS : 0;
+    if (words.length <= keepBefore + keepAfter + 1) return segment;
+
+    const leading = segment.text.startsWith(' ') ? ' ' : '';
+    const kept = [...words.slice(0, keepBefore), '…', ...words.slice(words.length - keepAfter)];
+    return { type: 'equal', text: `${leading}${kept.join(' ')}` };
+  });
+
+/**
+ * Word-level diff of two texts
+ */
+export const diffWords = (before: string, after: string): TextDiffSegment[] => {
+  const a = before.split(/\s+/).filter(Boolean);
+  const b = after.split(/\s+/).filter(Boolean);
+
+  // Unchanged words at either end do not need the table
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const oldMiddle = a.slice(prefix, a.length - suffix);
+  const newMiddle = b.slice(prefix, b.length - suffix);
+  const middle: { type: TextDiffSegment['type']; word: string }[] = [];
+
+  if (oldMiddle.length * newMiddle.length > MAX_DIFF_CELLS) {
+    oldMiddle.forEach(word => middle.push({ type: 'removed', word }));
+    newMiddle.forEach(word => middle.push({ type: 'added', word }));
+  } else {
+    // Longest common subsequence lengths, filled from the end
+    const n = oldMiddle.length;
+    const m = newMiddle.length;
+    const lengths: Uint16Array[] = Array.from({ length: n + 1 }, () => new Uint16Array(m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i][j] = oldMiddle[i] === newMiddle[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (oldMiddle[i] === newMiddle[j]) {
+        middle.push({ type: 'equal', word: oldMiddle[i] });
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        middle.push({ type: 'removed', word: oldMiddle[i++] });
+      } else {
+        middle.push({ type: 'added', word: newMiddle[j++] });
+      }
+    }
+    while (i < n) middle.push({ type: 'removed', word: oldMiddle[i++] });
+    while (j < m) middle.push({ type: 'added', word: newMiddle[j++] });
+  }
+
+  return trimContext(toSegments([
+    ...a.slice(0, prefix).map(word => ({ type: 'equal' as const, word })),
+    ...middle,
+    ...a.slice(a.length - suffix).map(word => ({ type: 'equal' as const, word })),
+  ]));
+};
+
+/**
+ * Rules added, removed or modified between two versions of a manual, in the
+ * order they appear in the newer manual (removed rules last)
+ */
+export const diffManuals = (previous: GameManual, next: GameManual): RuleChange[] => {
+  const before = getRulesById(previous);
+  const after = getRulesById(next);
+  const changes: RuleChange[] = [];
+
+  after.forEach((rule, ruleId) => {
+    const old = before.get(ruleId);
+    if (!old) {
+      changes.push({ ruleId, rule: rule.rule, title: rule.title, type: 'added' });
+      return;
+    }
+
+    const changedFields: string[] = [];
+    if (old.rule !== rule.rule) changedFields.push('code');
+    if (stripMarkers(old.title) !== stripMarkers(rule.title)) changedFields.push('title');
+    const oldText = getRuleText(old);
+    const newText = getRuleText(rule);
+    if (oldText !== newText) changedFields.push('text');
+    if ((old.severity || null) !== (rule.severity || null)) changedFields.push('severity');
+
+    if (changedFields.length > 0) {
+      changes.push({
+        ruleId,
+        rule: rule.rule,
+        title: rule.title,
+        type: 'modified',
+        changedFields,
+        ...(changedFields.includes('text') ? { textDiff: diffWords(oldText, newText) } : {}),
+      });
+    }
+  });
+
+  before.forEach((rule, ruleId) => {
+    if (!after.has(ruleId)) {
+      changes.push({ ruleId, rule: rule.rule, title: rule.title, type: 'removed' });
+    }
+  });
+
+  return changes;
+};
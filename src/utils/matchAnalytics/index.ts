@@ -0,0 +1,6 @@
+// Main exports for the local match analytics system
+export * from './types';
+export * from './normalize';
+export * from './ratings';
+export * from './predictions';
+export * from './rankingProjection';
@@ -0,0 +1,89 @@
+import { Match } from '../../types/api';
+import { AnalyticsAlliance, AnalyticsMatch } from './types';
+
+// RobotEvents round numbers
+export const PRACTICE_ROUND = 1;
+export const QUALIFICATION_ROUND = 2;
+
+const toAlliance = (match: Match, color: 'red' | 'blue'): AnalyticsAlliance => {
+  const alliance = match.alliances?.find(a => a.color === color);
+  return {
+    teamIds: (alliance?.teams || [])
+      .filter(t => !t.sitting && t.team?.id)
+      .map(t => t.team.id),
+    score: alliance?.score ?? 0,
+  };
+};
+
+/**
+ * A match counts as played once it has been scored with a real result.
+ * Unplayed matches come back from the API as 0-0, so those are never treated as ties.
+ */
+const hasResult = (match: Match, red: AnalyticsAlliance, blue: AnalyticsAlliance): boolean => {
+  if (red.score > 0 || blue.score > 0) return true;
+  return match.scored === true && !!match.started;
+};
+
+export const toAnalyticsMatch = (match: Match): AnalyticsMatch => {
+  const red = toAlliance(match, 'red');
+  const blue = toAlliance(match, 'blue');
+
+  return {
+    id: match.id,
+    round: match.round,
+    instance: match.instance,
+    matchnum: match.matchnum,
+    scheduled: match.scheduled,
+    started: match.started,
+    played: hasResult(match, red, blue),
+    red,
+    blue,
+  };
+};
+
+/**
+ * Convert API matches to analytics matches, dropping practice rounds unless requested
+ * and any match without teams on both alliances.
+ */
+export const toAnalyticsMatches = (matches: Match[], includePractice: boolean = false): AnalyticsMatch[] => {
+  return matches
+    .filter(match => includePractice || match.round !== PRACTICE_ROUND)
+    .map(toAnalyticsMatch)
+    .filter(match => match.red.teamIds.length > 0 && match.blue.teamIds.length > 0);
+};
+
+/**
+ * Chronological order: actual start time, then scheduled time, then round/instance/match number
+ */
+export const sortMatchesChronologically = (matches: AnalyticsMatch[]): AnalyticsMatch[] => {
+  const timeOf = (match: AnalyticsMatch) => {
+    const time = match.started || match.scheduled;
+    return time ? new Date(time).getTime() : NaN;
+  };
+
+  return [...matches].sort((a, b) => {
+    const timeA = timeOf(a);
+    const timeB = timeOf(b);
+    if (!isNaN(timeA) && !isNaN(timeB) && timeA !== timeB) return timeA - timeB;
+    if (a.round !== b.round) return a.round - b.round;
+    if (a.instance !== b.instance) return a.instance - b.instance;
+    return a.matchnum - b.matchnum;
+  });
+};
+
+/**
+ * Team numbers keyed by team id, taken from the match data itself
+ */
+export const getTeamNumbers = (matches: Match[]): Record<number, string> => {
+  const numbers: Record<number, string> = {};
+  matches.forEach(match => {
+    match.alliances?.forEach(alliance => {
+      alliance.teams?.forEach(t => {
+        if (t.team?.id && t.team.name) {
+          numbers[t.team.id] = t.team.name;
+        }
+      });
+    });
+  });
+  return numbers;
+};
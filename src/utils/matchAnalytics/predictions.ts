@@ -0,0 +1,84 @@
+/**
+ * Match Predictions
+ *
+ * Win probabilities for unplayed matches from locally computed ratings. The power
+ * rating model gives a predicted margin, turned into a probability with the event's
+ * observed margin spread; the Elo model gives a probability from results alone.
+ * The two are averaged.
+ */
+
+import { Match } from '../../types/api';
+import { MatchAnalytics, MatchPrediction, PredictionConfidence } from './types';
+import { predictAllianceScore, eloWinProbability, DEFAULT_ELO } from './ratings';
+import { toAnalyticsMatch } from './normalize';
+
+// Abramowitz & Stegun 7.1.26 approximation of the error function
+const erf = (x: number): number => {
+  const sign = x < 0 ? -1 : 1;
+  const t = 1 / (1 + 0.3275911 * Math.abs(x));
+  const y = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return sign * y;
+};
+
+export const normalCdf = (x: number): number => 0.5 * (1 + erf(x / Math.SQRT2));
+
+/**
+ * Inverse of normalCdf by bisection (accurate to ~1e-6, only called once per match)
+ */
+export const inverseNormalCdf = (p: number): number => {
+  let low = -8;
+  let high = 8;
+  for (let i = 0; i < 50; i++) {
+    const mid = (low + high) / 2;
+    if (normalCdf(mid) < p) low = mid;
+    else high = mid;
+  }
+  return (low + high) / 2;
+};
+
+const getConfidence = (analytics: MatchAnalytics, teamIds: number[]): PredictionConfidence => {
+  const fewestMatches = Math.min(...teamIds.map(teamId => analytics.ratings[teamId]?.matchesPlayed ?? 0));
+  if (fewestMatches >= 4) return 'high';
+  if (fewestMatches >= 2) return 'medium';
+  return 'low';
+};
+
+/**
+ * Predict a match between two alliances of team ids.
+ * Returns null when no matches have been played yet.
+ */
+export const predictMatchOutcome = (
+  analytics: MatchAnalytics,
+  redTeamIds: number[],
+  blueTeamIds: number[]
+): MatchPrediction | null => {
+  if (analytics.matchesAnalyzed === 0 || redTeamIds.length === 0 || blueTeamIds.length === 0) {
+    return null;
+  }
+
+  const predictedRedScore = predictAllianceScore(analytics, redTeamIds, blueTeamIds);
+  const predictedBlueScore = predictAllianceScore(analytics, blueTeamIds, redTeamIds);
+  const powerProbability = normalCdf((predictedRedScore - predictedBlueScore) / analytics.marginStdDev);
+
+  const allianceElo = (teamIds: number[]) =>
+    teamIds.reduce((sum, teamId) => sum + (analytics.ratings[teamId]?.elo ?? DEFAULT_ELO), 0) / teamIds.length;
+  const eloProbability = eloWinProbability(allianceElo(redTeamIds), allianceElo(blueTeamIds));
+
+  const redWinProbability = (powerProbability + eloProbability) / 2;
+
+  return {
+    redWinProbability,
+    blueWinProbability: 1 - redWinProbability,
+    predictedRedScore: Math.max(0, predictedRedScore),
+    predictedBlueScore: Math.max(0, predictedBlueScore),
+    confidence: getConfidence(analytics, [...redTeamIds, ...blueTeamIds]),
+  };
+};
+
+/**
+ * Predict an API match (sitting teams are ignored)
+ */
+export const predictApiMatch = (analytics: MatchAnalytics, match: Match): MatchPrediction | null => {
+  const normalized = toAnalyticsMatch(match);
+  return predictMatchOutcome(analytics, normalized.red.teamIds, normalized.blue.teamIds);
+};
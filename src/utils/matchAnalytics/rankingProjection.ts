@@ -0,0 +1,214 @@
+/**
+ * Ranking Projection
+ *
+ * Monte Carlo simulation of the remaining qualification matches in a division.
+ * Each simulation draws a margin for every unplayed match so that the red alliance
+ * wins with the predicted probability, splits the predicted total score around that
+ * margin, and then re-ranks the division by WP, AP and SP:
+ *
+ * - WP: 2 for a win, 1 for a tie, 0 for a loss
+ * - AP: extrapolated from each team's current AP per match (autonomous results are not modelled)
+ * - SP: the losing alliance's score, awarded to every team in the match
+ *
+ * Remaining ties are broken randomly, which stands in for the manual's later
+ * tiebreakers (high score, random draw).
+ */
+
+import { Match } from '../../types/api';
+import { MatchAnalytics } from './types';
+import { QUALIFICATION_ROUND, toAnalyticsMatches } from './normalize';
+import { predictMatchOutcome, inverseNormalCdf } from './predictions';
+
+export const DEFAULT_SIMULATIONS = 1000;
+
+export interface RankingStanding {
+  teamId: number;
+  rank: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  wp: number;
+  ap: number;
+  sp: number;
+}
+
+export interface TeamRankProjection {
+  teamId: number;
+  currentRank: number;
+  remainingMatches: number;
+  expectedWp: number;
+  expectedAp: number;
+  expectedSp: number;
+  averageRank: number;
+  bestRank: number;
+  worstRank: number;
+  rankProbabilities: number[]; // Index 0 is the probability of finishing 1st
+}
+
+export interface RankingProjection {
+  teams: Record<number, TeamRankProjection>;
+  simulations: number;
+  remainingMatches: number;
+  teamCount: number;
+}
+
+export interface RankingProjectionOptions {
+  simulations?: number;
+  random?: () => number; // Injectable for reproducible projections
+}
+
+interface SimulatedMatch {
+  red: number[]; // Team indices
+  blue: number[];
+  meanMargin: number;
+  marginStdDev: number;
+  expectedTotal: number;
+}
+
+// Standard normal sample (Box-Muller)
+const sampleNormal = (random: () => number): number => {
+  const u = Math.max(random(), Number.EPSILON);
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+};
+
+/**
+ * Probability of finishing at or above `rank` (e.g., top 8, or inside an award rank cutoff)
+ */
+export const getTopNProbability = (projection: TeamRankProjection, rank: number): number => {
+  return projection.rankProbabilities
+    .slice(0, Math.max(0, rank))
+    .reduce((sum, probability) => sum + probability, 0);
+};
+
+/**
+ * Project final qualification rankings from current standings and the division's
+ * match list. Returns null when no qualification matches remain.
+ */
+export const projectRankings = (
+  standings: RankingStanding[],
+  matches: Match[],
+  analytics: MatchAnalytics,
+  options: RankingProjectionOptions = {}
+): RankingProjection | null => {
+  const simulations = options.simulations ?? DEFAULT_SIMULATIONS;
+  const random = options.random ?? Math.random;
+
+  const remaining = toAnalyticsMatches(matches)
+    .filter(match => match.round === QUALIFICATION_ROUND && !match.played);
+  if (remaining.length === 0) return null;
+
+  // Every team in the standings or on the remaining schedule gets an index
+  const teamIds: number[] = [];
+  const indexOf = new Map<number, number>();
+  const addTeam = (teamId: number) => {
+    if (!indexOf.has(teamId)) {
+      indexOf.set(teamId, teamIds.length);
+      teamIds.push(teamId);
+    }
+  };
+  standings.forEach(standing => addTeam(standing.teamId));
+  remaining.forEach(match => [...match.red.teamIds, ...match.blue.teamIds].forEach(addTeam));
+
+  const teamCount = teamIds.length;
+  const standingByTeam = new Map(standings.map(standing => [standing.teamId, standing]));
+  const remainingCount = new Array(teamCount).fill(0);
+
+  const simulatedMatches: SimulatedMatch[] = remaining.map(match => {
+    const red = match.red.teamIds.map(teamId => indexOf.get(teamId)!);
+    const blue = match.blue.teamIds.map(teamId => indexOf.get(teamId)!);
+    [...red, ...blue].forEach(index => { remainingCount[index]++; });
+
+    const prediction = predictMatchOutcome(analytics, match.red.teamIds, match.blue.teamIds);
+    const redWinProbability = Math.min(Math.max(prediction?.redWinProbability ?? 0.5, 0.001), 0.999);
+    const marginStdDev = analytics.marginStdDev || 1;
+
+    return {
+      red,
+      blue,
+      meanMargin: marginStdDev * inverseNormalCdf(redWinProbability),
+      marginStdDev,
+      expectedTotal: prediction
+        ? prediction.predictedRedScore + prediction.predictedBlueScore
+        : analytics.averageAllianceScore * 2,
+    };
+  });
+
+  // Current totals plus the AP each team is expected to add over its remaining matches
+  const baseWp = new Array(teamCount).fill(0);
+  const baseAp = new Array(teamCount).fill(0);
+  const baseSp = new Array(teamCount).fill(0);
+  teamIds.forEach((teamId, index) => {
+    const standing = standingByTeam.get(teamId);
+    if (!standing) return;
+    const played = standing.wins + standing.losses + standing.ties;
+    const apPerMatch = played > 0 ? standing.ap / played : 0;
+    baseWp[index] = standing.wp;
+    baseAp[index] = standing.ap + apPerMatch * remainingCount[index];
+    baseSp[index] = standing.sp;
+  });
+
+  const rankCounts = teamIds.map(() => new Array(teamCount).fill(0));
+  const totalWp = new Array(teamCount).fill(0);
+  const totalSp = new Array(teamCount).fill(0);
+
+  for (let simulation = 0; simulation < simulations; simulation++) {
+    const wp = [...baseWp];
+    const sp = [...baseSp];
+
+    simulatedMatches.forEach(match => {
+      const margin = Math.round(match.meanMargin + match.marginStdDev * sampleNormal(random));
+      const redScore = Math.max(0, Math.round((match.expectedTotal + margin) / 2));
+      const blueScore = Math.max(0, redScore - margin);
+      const losingScore = Math.min(redScore, blueScore);
+
+      const award = (teams: number[], own: number, opponent: number) => {
+        teams.forEach(index => {
+          wp[index] += own > opponent ? 2 : own === opponent ? 1 : 0;
+          sp[index] += losingScore;
+        });
+      };
+      award(match.red, redScore, blueScore);
+      award(match.blue, blueScore, redScore);
+    });
+
+    const tiebreak = teamIds.map(() => random());
+    const order = teamIds.map((_, index) => index).sort((a, b) =>
+      (wp[b] - wp[a]) || (baseAp[b] - baseAp[a]) || (sp[b] - sp[a]) || (tiebreak[a] - tiebreak[b])
+    );
+
+    order.forEach((index, position) => {
+      rankCounts[index][position]++;
+      totalWp[index] += wp[index];
+      totalSp[index] += sp[index];
+    });
+  }
+
+  const teams: Record<number, TeamRankProjection> = {};
+  teamIds.forEach((teamId, index) => {
+    const rankProbabilities = rankCounts[index].map(count => count / simulations);
+    const finishedRanks = rankProbabilities
+      .map((probability, position) => (probability > 0 ? position + 1 : 0))
+      .filter(rank => rank > 0);
+
+    teams[teamId] = {
+      teamId,
+      currentRank: standingByTeam.get(teamId)?.rank ?? 0,
+      remainingMatches: remainingCount[index],
+      expectedWp: totalWp[index] / simulations,
+      expectedAp: baseAp[index],
+      expectedSp: totalSp[index] / simulations,
+      averageRank: rankProbabilities.reduce((sum, probability, position) => sum + probability * (position + 1), 0),
+      bestRank: Math.min(...finishedRanks),
+      worstRank: Math.max(...finishedRanks),
+      rankProbabilities,
+    };
+  });
+
+  return {
+    teams,
+    simulations,
+    remainingMatches: remaining.length,
+    teamCount,
+  };
+};
@@ -0,0 +1,256 @@
+/**
+ * Team Ratings
+ *
+ * Computes OPR, DPR and CCWM by least squares over played matches: each alliance's
+ * score is modelled as the sum of its teams' contributions, so the model works the
+ * same for 2v2 (V5RC) and 1v1 (VURC, VAIRC) alliances. Ratings are shrunk toward
+ * an even share of the average alliance score, which keeps them stable early in an
+ * event when the system is underdetermined.
+ *
+ * Alongside the power ratings an Elo rating is updated match by match using only
+ * wins and losses, which captures teams that win close matches against strong
+ * opponents better than point totals do.
+ */
+
+import { Match } from '../../types/api';
+import { AnalyticsMatch, MatchAnalytics, MatchAnalyticsOptions, TeamRating } from './types';
+import { toAnalyticsMatches, sortMatchesChronologically, getTeamNumbers } from './normalize';
+
+export const DEFAULT_ELO = 1500;
+export const DEFAULT_ELO_K = 32;
+
+// Weight of the prior, in pseudo-matches per team
+const SHRINKAGE = 1;
+
+/**
+ * Solve A·x = b for several right-hand sides using Gaussian elimination with partial
+ * pivoting. A is square and symmetric positive definite here (normal equations plus
+ * shrinkage), so pivoting is only a numerical safeguard.
+ */
+const solveLinearSystem = (matrix: number[][], rhs: number[][]): number[][] => {
+  const n = matrix.length;
+  const columns = rhs[0]?.length ?? 0;
+  const a = matrix.map((row, i) => [...row, ...rhs[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (pivot !== col) [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    const pivotValue = a[col][col];
+    if (Math.abs(pivotValue) < 1e-12) continue;
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = a[row][col] / pivotValue;
+      if (factor === 0) continue;
+      for (let k = col; k < n + columns; k++) {
+        a[row][k] -= factor * a[col][k];
+      }
+    }
+  }
+
+  const solution = Array.from({ length: n }, () => new Array(columns).fill(0));
+  for (let row = n - 1; row >= 0; row--) {
+    for (let c = 0; c < columns; c++) {
+      let sum = a[row][n + c];
+      for (let k = row + 1; k < n; k++) {
+        sum -= a[row][k] * solution[k][c];
+      }
+      solution[row][c] = Math.abs(a[row][row]) < 1e-12 ? 0 : sum / a[row][row];
+    }
+  }
+  return solution;
+};
+
+/**
+ * Least squares OPR/DPR for every team that appears in a played match
+ */
+const calculatePowerRatings = (
+  played: AnalyticsMatch[],
+  teamIds: number[],
+  averageAllianceScore: number,
+  averageTeamsPerAlliance: number
+): Record<number, { opr: number; dpr: number }> => {
+  const index = new Map(teamIds.map((teamId, i) => [teamId, i]));
+  const n = teamIds.length;
+  const prior = averageTeamsPerAlliance > 0 ? averageAllianceScore / averageTeamsPerAlliance : 0;
+
+  // Normal equations (AᵀA + λI)·x = Aᵀb + λ·prior, one row of A per alliance per match
+  const normal = Array.from({ length: n }, () => new Array(n).fill(0));
+  const rhs = Array.from({ length: n }, () => [0, 0]);
+
+  const addRow = (teams: number[], ownScore: number, opponentScore: number) => {
+    const indices = teams.map(teamId => index.get(teamId)!);
+    indices.forEach(i => {
+      indices.forEach(j => { normal[i][j] += 1; });
+      rhs[i][0] += ownScore;
+      rhs[i][1] += opponentScore;
+    });
+  };
+
+  played.forEach(match => {
+    addRow(match.red.teamIds, match.red.score, match.blue.score);
+    addRow(match.blue.teamIds, match.blue.score, match.red.score);
+  });
+
+  for (let i = 0; i < n; i++) {
+    normal[i][i] += SHRINKAGE;
+    rhs[i][0] += SHRINKAGE * prior;
+    rhs[i][1] += SHRINKAGE * prior;
+  }
+
+  const solution = solveLinearSystem(normal, rhs);
+  const ratings: Record<number, { opr: number; dpr: number }> = {};
+  teamIds.forEach((teamId, i) => {
+    ratings[teamId] = { opr: solution[i][0], dpr: solution[i][1] };
+  });
+  return ratings;
+};
+
+/**
+ * Probability that an alliance rated `rating` beats one rated `opponentRating`
+ */
+export const eloWinProbability = (rating: number, opponentRating: number): number => {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+};
+
+const averageElo = (teamIds: number[], elo: Record<number, number>, initialElo: number): number => {
+  if (teamIds.length === 0) return initialElo;
+  return teamIds.reduce((sum, teamId) => sum + (elo[teamId] ?? initialElo), 0) / teamIds.length;
+};
+
+/**
+ * Sequential Elo over played matches in chronological order. Every team on an
+ * alliance moves by the alliance's full rating change.
+ */
+const calculateEloRatings = (
+  played: AnalyticsMatch[],
+  initialElo: number,
+  k: number
+): Record<number, number> => {
+  const elo: Record<number, number> = {};
+
+  sortMatchesChronologically(played).forEach(match => {
+    const redRating = averageElo(match.red.teamIds, elo, initialElo);
+    const blueRating = averageElo(match.blue.teamIds, elo, initialElo);
+    const expectedRed = eloWinProbability(redRating, blueRating);
+    const actualRed = match.red.score > match.blue.score ? 1 : match.red.score < match.blue.score ? 0 : 0.5;
+    const change = k * (actualRed - expectedRed);
+
+    match.red.teamIds.forEach(teamId => { elo[teamId] = (elo[teamId] ?? initialElo) + change; });
+    match.blue.teamIds.forEach(teamId => { elo[teamId] = (elo[teamId] ?? initialElo) - change; });
+  });
+
+  return elo;
+};
+
+/**
+ * Predicted alliance score: average of the alliance's offense and the opponents' defense
+ */
+export const predictAllianceScore = (
+  analytics: MatchAnalytics,
+  teamIds: number[],
+  opponentIds: number[]
+): number => {
+  const share = analytics.averageAllianceScore / Math.max(teamIds.length, 1);
+  const opponentShare = analytics.averageAllianceScore / Math.max(opponentIds.length, 1);
+  const offense = teamIds.reduce((sum, teamId) => sum + (analytics.ratings[teamId]?.opr ?? share), 0);
+  const defense = opponentIds.reduce((sum, teamId) => sum + (analytics.ratings[teamId]?.dpr ?? opponentShare), 0);
+  return (offense + defense) / 2;
+};
+
+/**
+ * Compute OPR, DPR, CCWM, Elo and win/loss records from API matches. Accepts the
+ * matches of a division (getEventDivisionMatches) or a team's history (getTeamMatches).
+ * Intended for head-to-head formats; cooperative 2v0 scores are shared by both
+ * alliances and produce meaningless DPR/CCWM values.
+ */
+export const calculateMatchAnalytics = (
+  matches: Match[],
+  options: MatchAnalyticsOptions = {}
+): MatchAnalytics => {
+  const initialElo = options.initialElo ?? DEFAULT_ELO;
+  const k = options.eloK ?? DEFAULT_ELO_K;
+  const teamNumbers = getTeamNumbers(matches);
+  const played = toAnalyticsMatches(matches, options.includePractice).filter(match => match.played);
+
+  const teamIds: number[] = [];
+  const seen = new Set<number>();
+  let scoreTotal = 0;
+  let teamsTotal = 0;
+
+  played.forEach(match => {
+    [match.red, match.blue].forEach(alliance => {
+      scoreTotal += alliance.score;
+      teamsTotal += alliance.teamIds.length;
+      alliance.teamIds.forEach(teamId => {
+        if (!seen.has(teamId)) {
+          seen.add(teamId);
+          teamIds.push(teamId);
+        }
+      });
+    });
+  });
+
+  const allianceCount = played.length * 2;
+  const averageAllianceScore = allianceCount > 0 ? scoreTotal / allianceCount : 0;
+  const averageTeamsPerAlliance = allianceCount > 0 ? teamsTotal / allianceCount : 0;
+
+  const powerRatings = calculatePowerRatings(played, teamIds, averageAllianceScore, averageTeamsPerAlliance);
+  const elo = calculateEloRatings(played, initialElo, k);
+
+  const ratings: Record<number, TeamRating> = {};
+  teamIds.forEach(teamId => {
+    const { opr, dpr } = powerRatings[teamId];
+    ratings[teamId] = {
+      teamId,
+      teamNumber: teamNumbers[teamId] || teamId.toString(),
+      matchesPlayed: 0,
+      wins: 0,
+      losses: 0,
+      ties: 0,
+      opr,
+      dpr,
+      ccwm: opr - dpr,
+      elo: elo[teamId] ?? initialElo,
+    };
+  });
+
+  played.forEach(match => {
+    const record = (teams: number[], own: number, opponent: number) => {
+      teams.forEach(teamId => {
+        const rating = ratings[teamId];
+        rating.matchesPlayed++;
+        if (own > opponent) rating.wins++;
+        else if (own < opponent) rating.losses++;
+        else rating.ties++;
+      });
+    };
+    record(match.red.teamIds, match.red.score, match.blue.score);
+    record(match.blue.teamIds, match.blue.score, match.red.score);
+  });
+
+  const analytics: MatchAnalytics = {
+    ratings,
+    matchesAnalyzed: played.length,
+    averageAllianceScore,
+    marginStdDev: 0,
+  };
+
+  // Residual spread of margins, floored so a perfect fit on few matches is not overconfident
+  if (played.length > 0) {
+    const squaredResiduals = played.reduce((sum, match) => {
+      const predictedMargin =
+        predictAllianceScore(analytics, match.red.teamIds, match.blue.teamIds) -
+        predictAllianceScore(analytics, match.blue.teamIds, match.red.teamIds);
+      const actualMargin = match.red.score - match.blue.score;
+      return sum + Math.pow(actualMargin - predictedMargin, 2);
+    }, 0);
+    analytics.marginStdDev = Math.sqrt(squaredResiduals / played.length);
+  }
+  analytics.marginStdDev = Math.max(analytics.marginStdDev, averageAllianceScore * 0.25, 1);
+
+  return analytics;
+};
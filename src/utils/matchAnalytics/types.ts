@@ -0,0 +1,60 @@
+/**
+ * Match analytics types
+ *
+ * Matches from RobotEvents are normalized into AnalyticsMatch before any rating is
+ * computed, so the same code handles division schedules (getEventDivisionMatches)
+ * and a team's season history (getTeamMatches).
+ */
+
+export interface AnalyticsAlliance {
+  teamIds: number[]; // Teams that played (sitting teams are excluded)
+  score: number;
+}
+
+export interface AnalyticsMatch {
+  id: number;
+  round: number;
+  instance: number;
+  matchnum: number;
+  scheduled?: string;
+  started?: string;
+  played: boolean; // Scored with a real result (0-0 placeholders are unplayed)
+  red: AnalyticsAlliance;
+  blue: AnalyticsAlliance;
+}
+
+export interface TeamRating {
+  teamId: number;
+  teamNumber: string;
+  matchesPlayed: number;
+  wins: number;
+  losses: number;
+  ties: number;
+  opr: number; // Offensive Power Rating: estimated points contributed per match
+  dpr: number; // Defensive Power Rating: estimated points allowed per match
+  ccwm: number; // Calculated Contribution to Winning Margin (OPR - DPR)
+  elo: number;
+}
+
+export interface MatchAnalytics {
+  ratings: Record<number, TeamRating>;
+  matchesAnalyzed: number;
+  averageAllianceScore: number;
+  marginStdDev: number; // Spread of actual margins around predicted margins
+}
+
+export type PredictionConfidence = 'low' | 'medium' | 'high';
+
+export interface MatchPrediction {
+  redWinProbability: number; // 0-1
+  blueWinProbability: number; // 0-1
+  predictedRedScore: number;
+  predictedBlueScore: number;
+  confidence: PredictionConfidence;
+}
+
+export interface MatchAnalyticsOptions {
+  includePractice?: boolean; // Practice matches are skipped by default
+  initialElo?: number;
+  eloK?: number;
+}
@@ -0,0 +1,186 @@
+/**
+ * Match start time estimates
+ *
+ * Events run behind, so a match's `scheduled` time is often stale by midday.
+ * These helpers learn how long a match actually takes from the `started` times
+ * of recent matches and project that forward onto the matches still to play.
+ *
+ * Matches are grouped into lanes: one per field within a division, or the whole
+ * division when the event does not assign fields. Each lane is estimated on its
+ * own, so multi-field and multi-division events advance independently.
+ */
+
+import { Match } from '../types/api';
+import { isMatchPlayed } from './eventUtils';
+import { compareMatchOrder } from './liveEvent';
+
+export type MatchTimeBasis =
+  | 'started' // The match is on the field
+  | 'cycle' // Projected from the learned cycle time
+  | 'schedule'; // Nothing has started in its lane yet, so the (adjusted) schedule is used
+
+export interface MatchTimeEstimate {
+  matchId: number;
+  estimatedStart: number; // Epoch ms
+  queueAt: number; // Epoch ms, when the team should head to queueing
+  cycleTime: number; // Learned time between matches in the lane, in ms
+  basis: MatchTimeBasis;
+}
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+// Used when a lane has neither started nor scheduled matches to learn from
+const DEFAULT_CYCLE_TIME = 5 * MINUTE;
+
+// How long before its start a team is expected to report to queueing
+export const QUEUE_LEAD_TIME = 10 * MINUTE;
+
+// Only the latest gaps are used so the estimate follows the event's current pace
+const MAX_CYCLE_SAMPLES = 8;
+
+// Gaps this many times longer than the typical gap are breaks (lunch, overnight)
+const BREAK_GAP_FACTOR = 3;
+
+const toTime = (value?: string): number | null => {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+/**
+ * Typical gap between consecutive times, ignoring breaks
+ */
+const getTypicalGap = (times: number[]): number | null => {
+  const gaps: number[] = [];
+  for (let i = 1; i < times.length; i++) {
+    const gap = times[i] - times[i - 1];
+    if (gap > 0) gaps.push(gap);
+  }
+
+  const recent = gaps.slice(-MAX_CYCLE_SAMPLES);
+  const typical = median(recent);
+  if (typical === null) return null;
+  return median(recent.filter(gap => gap <= typical * BREAK_GAP_FACTOR));
+};
+
+const getLaneKey = (match: Match): string => `${match.division?.id ?? 0}:${match.field || ''}`;
+
+/**
+ * Estimated start and queue times for every match that has not been played,
+ * keyed by match ID. Matches with no basis for an estimate are left out.
+ */
+export const estimateMatchTimes = (matches: Match[], now: number = Date.now()): Map<number, MatchTimeEstimate> => {
+  const estimates = new Map<number, MatchTimeEstimate>();
+
+  // How far behind (or ahead of) schedule each division is running
+  const divisionDelays = new Map<number, number>();
+  const delaySamples = new Map<number, { started: number; delay: number }[]>();
+  matches.forEach(match => {
+    const started = toTime(match.started);
+    const scheduled = toTime(match.scheduled);
+    if (started === null || scheduled === null) return;
+    const divisionId = match.division?.id ?? 0;
+    const samples = delaySamples.get(divisionId) || [];
+    samples.push({ started, delay: started - scheduled });
+    delaySamples.set(divisionId, samples);
+  });
+  delaySamples.forEach((samples, divisionId) => {
+    const recent = samples.sort((a, b) => a.started - b.started).slice(-MAX_CYCLE_SAMPLES);
+    divisionDelays.set(divisionId, median(recent.map(sample => sample.delay)) ?? 0);
+  });
+
+  const lanes = new Map<string, Match[]>();
+  matches.forEach(match => {
+    const key = getLaneKey(match);
+    lanes.set(key, [...(lanes.get(key) || []), match]);
+  });
+
+  lanes.forEach(laneMatches => {
+    const startedTimes = laneMatches
+      .map(match => toTime(match.started))
+      .filter((time): time is number => time !== null)
+      .sort((a, b) => a - b);
+    const scheduledTimes = laneMatches
+      .map(match => toTime(match.scheduled))
+      .filter((time): time is number => time !== null)
+      .sort((a, b) => a - b);
+
+    const cycleTime = getTypicalGap(startedTimes) ?? getTypicalGap(scheduledTimes) ?? DEFAULT_CYCLE_TIME;
+    const lastStarted = startedTimes.length > 0 ? startedTimes[startedTimes.length - 1] : null;
+
+    const waiting = laneMatches
+      .filter(match => !isMatchPlayed(match, matches))
+      .sort(compareMatchOrder);
+
+    let matchesAhead = 0;
+    waiting.forEach(match => {
+      const started = toTime(match.started);
+      const scheduled = toTime(match.scheduled);
+      const add = (estimatedStart: number, basis: MatchTimeBasis) => {
+        estimates.set(match.id, {
+          matchId: match.id,
+          estimatedStart,
+          queueAt: estimatedStart - QUEUE_LEAD_TIME,
+          cycleTime,
+          basis,
+        });
+      };
+
+      if (started !== null) {
+        add(started, 'started');
+        return;
+      }
+
+      // A schedule that is running early is trusted; one running late is not a floor
+      const delay = divisionDelays.get(match.division?.id ?? 0) ?? 0;
+      const scheduledFloor = scheduled !== null ? scheduled + Math.min(delay, 0) : null;
+
+      if (lastStarted === null) {
+        if (scheduled !== null) add(Math.max(scheduled + delay, now), 'schedule');
+        return;
+      }
+
+      const nextStart = Math.max(lastStarted + cycleTime, now);
+      const projected = nextStart + matchesAhead * cycleTime;
+      matchesAhead++;
+
+      // Matches after a break or on a later day cannot start before their slot
+      if (scheduledFloor !== null && scheduledFloor > projected) {
+        add(scheduledFloor, 'schedule');
+      } else {
+        add(projected, 'cycle');
+      }
+    });
+  });
+
+  return estimates;
+};
+
+const formatDuration = (ms: number): string => {
+  const minutes = Math.max(1, Math.round(ms / MINUTE));
+  if (minutes < 60) return `~${minutes} min`;
+  const hours = Math.floor(minutes / 60);
+  const remainder = minutes % 60;
+  return remainder > 0 ? `~${hours} hr ${remainder} min` : `~${hours} hr`;
+};
+
+/**
+ * Short countdown for a match card, e.g. "Queue in ~12 min"
+ */
+export const formatQueueCountdown = (estimate: MatchTimeEstimate, now: number = Date.now()): string => {
+  if (estimate.basis === 'started') return 'On field';
+  if (now >= estimate.estimatedStart) return 'Starting soon';
+  if (now >= estimate.queueAt) return `Queue now · starts in ${formatDuration(estimate.estimatedStart - now)}`;
+  return `Queue in ${formatDuration(estimate.queueAt - now)}`;
+};
+
+export const formatEstimatedStart = (estimate: MatchTimeEstimate): string =>
+  new Date(estimate.estimatedStart).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
@@ -0,0 +1,113 @@
+/**
+ * Local notifications
+ *
+ * Thin wrapper around expo-notifications for alerts raised on the device (no
+ * push server). Web has no support, so every call resolves quietly there.
+ */
+
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import { createLogger } from './logger';
+import { device } from './webCompatibility';
+
+const logger = createLogger('notifications');
+
+const LIVE_EVENT_CHANNEL_ID = 'live-event';
+
+let handlerConfigured = false;
+
+const configure = async () => {
+  if (handlerConfigured) return;
+  handlerConfigured = true;
+
+  // Show alerts as banners even while the app is open
+  Notifications.setNotificationHandler({
+    handleNotification: async () => ({
+      shouldShowBanner: true,
+      shouldShowList: true,
+      shouldPlaySound: true,
+      shouldSetBadge: false,
+    }),
+  });
+
+  if (Platform.OS === 'android') {
+    await Notifications.setNotificationChannelAsync(LIVE_EVENT_CHANNEL_ID, {
+      name: 'Live Event Alerts',
+      importance: Notifications.AndroidImportance.HIGH,
+    });
+  }
+};
+
+export const localNotifications = {
+  /**
+   * Ask for permission if it has not been decided yet
+   */
+  requestPermission: async (): Promise<boolean> => {
+    if (!device.supportsNotifications) return false;
+
+    try {
+      const current = await Notifications.getPermissionsAsync();
+      if (current.granted) return true;
+      if (!current.canAskAgain) return false;
+
+      const result = await Notifications.requestPermissionsAsync();
+      return result.granted;
+    } catch (error) {
+      logger.error('Failed to request notification permission:', error);
+      return false;
+    }
+  },
+
+  /**
+   * Show a notification immediately
+   */
+  present: async (title: string, body: string, data?: Record<string, unknown>): Promise<void> => {
+    if (!device.supportsNotifications) return;
+
+    try {
+      await configure();
+      await Notifications.scheduleNotificationAsync({
+        content: { title, body, data },
+        trigger: Platform.OS === 'android' ? { channelId: LIVE_EVENT_CHANNEL_ID } : null,
+      });
+    } catch (error) {
+      logger.error('Failed to present notification:', error);
+    }
+  },
+
+  /**
+   * Show a notification at a later time
+   * @returns Identifier for cancel(), or null if it could not be scheduled
+   */
+  scheduleAt: async (title: string, body: string, date: Date, data?: Record<string, unknown>): Promise<string | null> => {
+    if (!device.supportsNotifications) return null;
+
+    try {
+      await configure();
+      return await Notifications.scheduleNotificationAsync({
+        content: { title, body, data },
+        trigger: {
+          type: Notifications.SchedulableTriggerInputTypes.DATE,
+          date,
+          ...(Platform.OS === 'android' && { channelId: LIVE_EVENT_CHANNEL_ID }),
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to schedule notification:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Cancel notifications scheduled with scheduleAt() that have not fired yet
+   */
+  cancel: async (identifiers: string[]): Promise<void> => {
+    if (!device.supportsNotifications) return;
+
+    try {
+      await Promise.all(identifiers.map(identifier => Notifications.cancelScheduledNotificationAsync(identifier)));
+    } catch (error) {
+      logger.error('Failed to cancel scheduled notifications:', error);
+    }
+  },
+};
@@ -48,6 +48,7 @@ export interface CalculatorScreenConfig {
   screenName: string;
   displayName: string;
   description?: string;
+  params?: Record<string, any>;  // Route params (e.g., definitionId for the generic ScoreCalculator screen)
 }
 
 /**
@@ -57,41 +58,99 @@ export interface CalculatorScreenConfig {
 export const CALCULATOR_SCREENS: Record<Exclude<ScoreCalculatorType, null>, CalculatorScreenConfig[]> = {
   v5rc: [
     {
-      screenName: 'VEXv5ScoreCalculator',
+      screenName: 'ScoreCalculator',
       displayName: 'VEX V5 Score Calculator',
       description: 'Calculate match scores for VEX V5 competitions',
+      params: { definitionId: 'v5rc-2025-2026', title: 'VEX V5 Score Calculator' },
     },
   ],
   viqrc: [
-    
+    {
+      screenName: 'ScoreCalculator',
+      displayName: 'VEX IQ Score Calculator',
+      description: 'Calculate teamwork and skills scores for VEX IQ competitions',
+      params: { definitionId: 'viqrc-2025-2026', title: 'VEX IQ Score Calculator' },
+    },
   ],
   vurc: [
-    
+    {
+      screenName: 'ScoreCalculator',
+      displayName: 'VEX U Score Calculator',
+      description: 'Calculate match and skills scores for VEX U competitions',
+      params: { definitionId: 'vurc-2025-2026', title: 'VEX U Score Calculator' },
+    },
   ],
   vairc: [
-
+    {
+      screenName: 'ScoreCalculator',
+      displayName: 'VEX AI Skills Calculator',
+      description: 'Calculate robot skills scores for VEX AI competitions',
+      params: { definitionId: 'vairc-2025-2026', title: 'VEX AI Skills Calculator' },
+    },
   ],
   adc: [
     {
-      screenName: 'TeamworkScoreCalculator',
+      screenName: 'ScoreCalculator',
       displayName: 'Teamwork Match Calculator',
       description: 'Calculate teamwork match scores for Aerial Drone Competition',
+      params: { definitionId: 'adc-2025-2026', sheetId: 'teamwork', title: 'Teamwork Score Calculator' },
     },
     {
-      screenName: 'PilotingSkillsCalculator',
+      screenName: 'ScoreCalculator',
       displayName: 'Piloting Skills Calculator',
       description: 'Calculate piloting skills scores for Aerial Drone Competition',
+      params: { definitionId: 'adc-2025-2026', sheetId: 'pilotingSkills', title: 'Piloting Skills Calculator' },
     },
     {
-      screenName: 'AutonomousFlightSkillsCalculator',
+      screenName: 'ScoreCalculator',
       displayName: 'Autonomous Flight Calculator',
       description: 'Calculate autonomous flight scores for Aerial Drone Competition',
+      params: { definitionId: 'adc-2025-2026', sheetId: 'autonomousFlight', title: 'Autonomous Flight Calculator' },
     },
   ],
   vadc: [
   ],
 };
 
+/**
+ * Rounding used when turning an eligibility percentage into a rank cutoff
+ * - 'halfUp': .5 rounds up (V5RC, VIQRC)
+ * - 'halfToEven': .5 rounds to the nearest even number (ADC)
+ */
+export type EligibilityRounding = 'halfUp' | 'halfToEven';
+
+/**
+ * Award eligibility rules (Excellence Award / All-Around Champion)
+ *
+ * - awardName: Display name for the award
+ * - awardTitle: Text that identifies the award in RobotEvents award titles
+ * - isAllAroundChampion: The award is ADC's All-Around Champion rather than an Excellence
+ *   Award, which the awards screen lists under its own eligibility view
+ * - threshold: Fraction of ranked teams used for the qualifier and skills rank cutoffs
+ * - requiresProgrammingSkills / requiresDriverSkills: Score above zero required
+ * - requiresRankInPositiveProgrammingSkills: Must also rank within programmingSkillsRankThreshold
+ *   of teams with a programming score above zero
+ * - hasGradeSplitAwards: Events may split the award by grade (cutoffs are then per grade)
+ * - splitAwardGrades: Grades the award is split into when the event splits it
+ * - rounding: How cutoffs are rounded
+ * - programmingLabel / driverLabel: Program-specific names for the two skills types
+ */
+export interface EligibilityConfig {
+  awardName: string;
+  awardTitle: string;
+  isAllAroundChampion: boolean;
+  threshold: number;
+  requiresProgrammingSkills: boolean;
+  requiresDriverSkills: boolean;
+  requiresRankInPositiveProgrammingSkills: boolean;
+  programmingSkillsRankThreshold: number;
+  hasGradeSplitAwards: boolean;
+  splitAwardGrades?: GradeLevel[];
+  rounding: EligibilityRounding;
+  programmingLabel: string;
+  driverLabel: string;
+}
+
 /**
  * Program configuration interface
  *
@@ -133,6 +192,10 @@ export const CALCULATOR_SCREENS: Record<Exclude<ScoreCalculatorType, null>, Calc
  * - scoreCalculator: Which score calculator file to use (null if no calculator available)
  * - scoreCalculatorRequiresDev: If true, only show calculators when developer mode is enabled
  *
+ * AWARD ELIGIBILITY:
+ * - eligibility: Excellence / All-Around Champion eligibility rules (see EligibilityConfig),
+ *   or null if the program has no eligibility calculator
+ *
  * DEVELOPER / LIMITED MODE:
  * - devOnly: If true, only show program when developer mode is enabled
  * - limitedMode: If true, show limited dashboard with only calculators and game manual
@@ -171,6 +234,9 @@ export interface ProgramConfig {
   scoreCalculator: ScoreCalculatorType;
   scoreCalculatorRequiresDev: boolean;
 
+  // Award eligibility
+  eligibility: EligibilityConfig | null;
+
   // Developer / Limited Mode
   devOnly: boolean;
   limitedMode: boolean;
@@ -204,6 +270,21 @@ export const PROGRAM_CONFIGS: Record<ProgramType, ProgramConfig> = {
     hasTrueSkill: true,         // Enable TrueSkill rankings for V5RC
     scoreCalculator: 'v5rc',
     scoreCalculatorRequiresDev: true,
+    eligibility: {
+      awardName: 'Excellence Award',
+      awardTitle: 'Excellence Award',
+      isAllAroundChampion: false,
+      threshold: 0.4,
+      requiresProgrammingSkills: true,
+      requiresDriverSkills: true,
+      requiresRankInPositiveProgrammingSkills: true,
+      programmingSkillsRankThreshold: 0.4,
+      hasGradeSplitAwards: true,
+      splitAwardGrades: ['High School', 'Middle School'],
+      rounding: 'halfUp',
+      programmingLabel: 'Programming',
+      driverLabel: 'Driver',
+    },
     devOnly: false,
     limitedMode: false,
   },
@@ -222,13 +303,28 @@ export const PROGRAM_CONFIGS: Record<ProgramType, ProgramConfig> = {
     hasRankings: true,
     hasAwards: true,
     hasWorldSkills: true,
-    hasScoreCalculators: false,
+    hasScoreCalculators: true,
     hasDriverSkills: true,      // Driver Skills
     hasProgrammingSkills: true, // Programming Skills
     hasFinalistRankings: true,  // VEX IQ has finalist rankings
     hasTrueSkill: false,        // TrueSkill only available for V5RC
     scoreCalculator: 'viqrc',
     scoreCalculatorRequiresDev: true,
+    eligibility: {
+      awardName: 'Excellence Award',
+      awardTitle: 'Excellence Award',
+      isAllAroundChampion: false,
+      threshold: 0.4,
+      requiresProgrammingSkills: true,
+      requiresDriverSkills: true,
+      requiresRankInPositiveProgrammingSkills: true,
+      programmingSkillsRankThreshold: 0.4,
+      hasGradeSplitAwards: true,
+      splitAwardGrades: ['High School', 'Middle School', 'Elementary'],
+      rounding: 'halfUp',
+      programmingLabel: 'Programming',
+      driverLabel: 'Driver',
+    },
     devOnly: false,
     limitedMode: false,
   },
@@ -247,13 +343,14 @@ export const PROGRAM_CONFIGS: Record<ProgramType, ProgramConfig> = {
     hasRankings: true,
     hasAwards: true,
     hasWorldSkills: true,
-    hasScoreCalculators: false, // No calculators yet
+    hasScoreCalculators: true,
     hasDriverSkills: true,      // Driver Skills
     hasProgrammingSkills: true, // Programming Skills
     hasFinalistRankings: false,
     hasTrueSkill: false,        // TrueSkill only available for V5RC
     scoreCalculator: 'vurc',
     scoreCalculatorRequiresDev: true,
+    eligibility: null,
     devOnly: false,
     limitedMode: false,
   },
@@ -272,13 +369,14 @@ export const PROGRAM_CONFIGS: Record<ProgramType, ProgramConfig> = {
     hasRankings: true,
     hasAwards: true,
     hasWorldSkills: true,
-    hasScoreCalculators: false,
+    hasScoreCalculators: true,
     hasDriverSkills: false,
     hasProgrammingSkills: true,
     hasFinalistRankings: false,
     hasTrueSkill: false,        // TrueSkill only available for V5RC
     scoreCalculator: 'vairc',
     scoreCalculatorRequiresDev: true,
+    eligibility: null, // VEX AI has no Excellence Award
     devOnly: false,
     limitedMode: false,
   },
@@ -300,6 +398,20 @@ export const PROGRAM_CONFIGS: Record<ProgramType, ProgramConfig> = {
     hasScoreCalculators: true,
     scoreCalculator: 'adc',
     scoreCalculatorRequiresDev: false,
+    eligibility: {
+      awardName: 'All Around Champion',
+      awardTitle: 'All-Around Champion',
+      isAllAroundChampion: true,
+      threshold: 0.5,
+      requiresProgrammingSkills: true,
+      requiresDriverSkills: false,
+      requiresRankInPositiveProgrammingSkills: false,
+      programmingSkillsRankThreshold: 0.0,
+      hasGradeSplitAwards: false,
+      rounding: 'halfToEven',
+      programmingLabel: 'Auton',
+      driverLabel: 'Pilot',
+    },
     hasDriverSkills: true,
     hasProgrammingSkills: true,
     hasFinalistRankings: false,
@@ -330,6 +442,7 @@ export const PROGRAM_CONFIGS: Record<ProgramType, ProgramConfig> = {
     hasTrueSkill: false,        // TrueSkill only available for V5RC
     scoreCalculator: 'vadc',
     scoreCalculatorRequiresDev: true, // Available to all users
+    eligibility: null,
     devOnly: true,
     limitedMode: false,
   },
@@ -625,6 +738,24 @@ export const getLimitedModeMessage = (program: ProgramType | string): string | u
   return getProgramConfig(program).limitedModeMessage;
 };
 
+/**
+ * Get award eligibility rules for a program
+ * @param program Program name
+ * @returns Eligibility rules, or null if the program has no eligibility calculator
+ */
+export const getEligibilityConfig = (program: ProgramType | string): EligibilityConfig | null => {
+  return getProgramConfig(program).eligibility;
+};
+
+/**
+ * Check if a program supports award eligibility calculations
+ * @param program Program name
+ * @returns True if the program has eligibility rules configured
+ */
+export const programHasEligibility = (program: ProgramType | string): boolean => {
+  return getEligibilityConfig(program) !== null;
+};
+
 /**
  * Get API type for a program
  * @param program Program name
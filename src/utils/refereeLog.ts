@@ -0,0 +1,88 @@
+/**
+ * Referee violation log
+ *
+ * Violations are logged per match against a team and a game manual rule.
+ * Rules in the bundled manuals rarely carry a severity, so the referee picks
+ * Minor or Major for each entry. Logging a Major for a rule the same team
+ * already has a Minor for in that match, or escalating a Minor directly,
+ * links the Major to that Minor; those links are the escalation count.
+ */
+
+export type ViolationSeverity = 'minor' | 'major';
+
+export interface ViolationEntry {
+  id: string;
+  teamId: number;
+  teamNumber: string;
+  alliance: 'red' | 'blue';
+  ruleId: string; // Rule.id in the manual the entry was logged from
+  ruleCode: string; // e.g. "<SG1>"
+  ruleTitle: string;
+  severity: ViolationSeverity;
+  timestamp: number; // When the violation was logged (epoch ms)
+  escalatedFromId?: string; // Minor entry this Major escalated
+}
+
+export interface RefereeMatchTeam {
+  teamId: number;
+  teamNumber: string;
+  alliance: 'red' | 'blue';
+}
+
+export interface TeamViolationSummary extends RefereeMatchTeam {
+  minor: number;
+  major: number;
+  escalations: number;
+  ruleCodes: string[]; // Distinct rules violated, in the order first logged
+}
+
+/**
+ * The latest Minor for a team and rule that has not been escalated yet
+ */
+export const getEscalationSource = (
+  violations: ViolationEntry[],
+  teamId: number,
+  ruleId: string
+): ViolationEntry | null => {
+  const escalated = new Set(violations.map(entry => entry.escalatedFromId).filter(Boolean));
+  const candidates = violations.filter(entry =>
+    entry.teamId === teamId &&
+    entry.ruleId === ruleId &&
+    entry.severity === 'minor' &&
+    !escalated.has(entry.id)
+  );
+  return candidates.length > 0 ? candidates[candidates.length - 1] : null;
+};
+
+export const countEscalations = (violations: ViolationEntry[]): number =>
+  violations.filter(entry => entry.severity === 'major' && entry.escalatedFromId).length;
+
+/**
+ * Violation counts for every team in the match, red alliance first
+ */
+export const summarizeViolations = (
+  teams: RefereeMatchTeam[],
+  violations: ViolationEntry[]
+): TeamViolationSummary[] =>
+  [...teams]
+    .sort((a, b) => (a.alliance === b.alliance ? 0 : a.alliance === 'red' ? -1 : 1))
+    .map(team => {
+      const entries = violations.filter(entry => entry.teamId === team.teamId);
+      return {
+        ...team,
+        minor: entries.filter(entry => entry.severity === 'minor').length,
+        major: entries.filter(entry => entry.severity === 'major').length,
+        escalations: countEscalations(entries),
+        ruleCodes: Array.from(new Set(entries.map(entry => entry.ruleCode))),
+      };
+    });
+
+/**
+ * Time of a violation as an offset from the first entry in the match
+ * (e.g. "+1:05"), so entries can be lined up with a match recording
+ */
+export const formatViolationOffset = (violation: ViolationEntry, violations: ViolationEntry[]): string => {
+  const first = Math.min(...violations.map(entry => entry.timestamp));
+  const seconds = Math.max(0, Math.round((violation.timestamp - first) / 1000));
+  return `+${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
@@ -0,0 +1,143 @@
+/**
+ * Official Q&A parsing and search
+ *
+ * Q&A files are published alongside the manual JSONs but are edited by hand,
+ * so entries are validated one at a time and bad entries are dropped rather
+ * than failing the whole file. Rule references are normalized to the manual's
+ * bracketed codes ("<SG1>") and also picked up from the question and answer
+ * text, since answers often cite rules that were not tagged.
+ */
+
+import { QnAData, QnAEntry } from '../types/gameManual';
+import { stemWord } from './ruleSearch';
+
+const RULE_CODE_PATTERN = /<([A-Z]+\d+[a-z]?)>/g;
+const WORD_PATTERN = /[A-Za-z0-9]+/g;
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+/**
+ * Normalize "sg1", "SG1" or "<SG1>" to "<SG1>", keeping a lowercase suffix ("<R3d>")
+ */
+export const normalizeRuleCode = (code: string): string | null => {
+  const match = code.trim().replace(/^<|>$/g, '').match(/^([A-Za-z]+)(\d+)([a-z]?)$/);
+  return match ? `<${match[1].toUpperCase()}${match[2]}${match[3]}>` : null;
+};
+
+const parseEntry = (raw: any, program: string, season: string): QnAEntry | null => {
+  if (!raw || typeof raw !== 'object') return null;
+
+  const id = asString(raw.id) ?? (typeof raw.id === 'number' ? String(raw.id) : undefined);
+  const question = asString(raw.question);
+  if (!id || !question) return null;
+
+  const answer = asString(raw.answer) ?? null;
+  const ruleCodes = new Set<string>();
+  const tagged: unknown[] = Array.isArray(raw.ruleCodes) ? raw.ruleCodes : Array.isArray(raw.rules) ? raw.rules : [];
+  tagged.forEach(code => {
+    const normalized = typeof code === 'string' ? normalizeRuleCode(code) : null;
+    if (normalized) ruleCodes.add(normalized);
+  });
+  for (const match of `${question} ${answer || ''}`.matchAll(RULE_CODE_PATTERN)) {
+    ruleCodes.add(`<${match[1]}>`);
+  }
+
+  return {
+    id,
+    title: asString(raw.title) ?? question.split('\n')[0].slice(0, 120),
+    question,
+    answer,
+    askedDate: asString(raw.askedDate),
+    answeredDate: asString(raw.answeredDate),
+    url: asString(raw.url) ?? `https://www.robotevents.com/${program}/${season}/QA/${id}`,
+    ruleCodes: Array.from(ruleCodes),
+    fromManual: raw.fromManual === true || undefined,
+  };
+};
+
+const getEntryDate = (entry: QnAEntry): string => entry.answeredDate || entry.askedDate || '';
+
+/**
+ * Validate a Q&A file. Returns null when the file itself is unusable.
+ */
+export const parseQnAData = (raw: any, program: string, season: string): QnAData | null => {
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.entries)) return null;
+
+  const seen = new Set<string>();
+  const entries = (raw.entries as unknown[])
+    .map(entry => parseEntry(entry, program, season))
+    .filter((entry): entry is QnAEntry => {
+      if (!entry || seen.has(entry.id)) return false;
+      seen.add(entry.id);
+      return true;
+    })
+    .sort((a, b) => getEntryDate(b).localeCompare(getEntryDate(a)));
+
+  return {
+    program: asString(raw.program) ?? program,
+    season: asString(raw.season) ?? season,
+    version: asString(raw.version),
+    entries,
+  };
+};
+
+/**
+ * Q&A entries by the rule code they reference. Entries citing a sub-rule
+ * ("<R3d>") are listed under the base rule ("<R3>") as well.
+ */
+export const groupQnAByRule = (entries: QnAEntry[]): Map<string, QnAEntry[]> => {
+  const byRule = new Map<string, QnAEntry[]>();
+  const add = (code: string, entry: QnAEntry) => {
+    const list = byRule.get(code) || [];
+    if (!list.includes(entry)) list.push(entry);
+    byRule.set(code, list);
+  };
+
+  entries.forEach(entry => {
+    entry.ruleCodes.forEach(code => {
+      add(code, entry);
+      const baseCode = code.replace(/[a-z]+>$/, '>');
+      if (baseCode !== code) add(baseCode, entry);
+    });
+  });
+  return byRule;
+};
+
+const getStems = (text: string): string[] =>
+  (text.match(WORD_PATTERN) || []).map(word => stemWord(word.toLowerCase()));
+
+/**
+ * Filter entries to those matching every query word. A query that is a rule
+ * code lists the entries referencing that rule; otherwise entries matching in
+ * their title or question come before answer-only matches.
+ */
+export const searchQnA = (entries: QnAEntry[], query: string): QnAEntry[] => {
+  const trimmed = query.trim();
+  if (!trimmed) return entries;
+
+  const ruleCode = normalizeRuleCode(trimmed);
+  if (ruleCode) {
+    const byRule = groupQnAByRule(entries).get(ruleCode);
+    if (byRule) return byRule;
+  }
+
+  const queryStems = getStems(trimmed);
+  if (queryStems.length === 0) return [];
+  const matchesAll = (stems: string[]) =>
+    queryStems.every(queryStem => stems.some(stem => stem.startsWith(queryStem)));
+
+  const scored: { entry: QnAEntry; score: number }[] = [];
+  entries.forEach(entry => {
+    const questionStems = getStems(`${entry.id} ${entry.title} ${entry.question} ${entry.ruleCodes.join(' ')}`);
+    const allStems = [...questionStems, ...getStems(entry.answer || '')];
+    if (matchesAll(questionStems)) {
+      scored.push({ entry, score: 2 });
+    } else if (matchesAll(allStems)) {
+      scored.push({ entry, score: 1 });
+    }
+  });
+
+  // Stable sort keeps newest first within each score
+  return scored.sort((a, b) => b.score - a.score).map(({ entry }) => entry);
+};
@@ -0,0 +1,406 @@
+/**
+ * Game manual rule search
+ *
+ * Builds an inverted index over a manual's rule groups so searches stay fast as
+ * the user types. Rule text is stripped of its {{FORMAT}} markers, split into
+ * words and lightly stemmed, so "scoring", "scored" and "scores" all find each
+ * other. Query words that are not in the manual are matched by prefix (for the
+ * word still being typed) and by edit distance (for typos).
+ *
+ * Results are ranked in tiers: a rule code match first, then rules whose title
+ * contains every query word, then rules matching in their body text. Within a
+ * tier, rarer and more frequent words score higher.
+ */
+
+import { Rule, RuleGroup } from '../types/gameManual';
+
+export type RuleMatchField = 'code' | 'title' | 'body';
+
+export interface RuleSearchResult {
+  rule: Rule;
+  group: RuleGroup;
+  match: RuleMatchField;
+  score: number;
+  snippet: string; // Plain-text excerpt around the first match in the rule body, or ''
+  highlightTerms: string[]; // Lowercase words in the rule that matched the query
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+interface IndexedRule {
+  rule: Rule;
+  group: RuleGroup;
+  order: number; // Position in the manual, used to break ties
+  code: string; // Rule code without punctuation, e.g. "sg1"
+  title: string;
+  body: string; // Rule text without formatting markers
+}
+
+interface Posting {
+  doc: number;
+  title: number; // Occurrences in the title
+  category: number; // Occurrences in the category and tags
+  body: number; // Occurrences in the description and rule text
+}
+
+export interface RuleSearchIndex {
+  rules: IndexedRule[];
+  postings: Map<string, Posting[]>; // Keyed by stem
+  words: Map<string, string>; // Every word in the manual and its stem
+}
+
+// Tier weights keep every code match above every title match, and so on
+const TIER_SCORE: Record<'codeExact' | 'codePrefix' | 'title' | 'body', number> = {
+  codeExact: 4000,
+  codePrefix: 3000,
+  title: 2000,
+  body: 1000,
+};
+
+// How much a word found by prefix or typo tolerance counts against an exact match
+const PREFIX_MATCH_WEIGHT = 0.75;
+const TYPO_MATCH_WEIGHT = [1, 0.6, 0.4];
+
+const MIN_PREFIX_LENGTH = 3;
+const SNIPPET_BEFORE = 50;
+const SNIPPET_LENGTH = 160;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'if', 'in', 'is', 'it',
+  'of', 'on', 'or', 'that', 'the', 'their', 'this', 'to', 'was', 'with',
+]);
+
+const WORD_PATTERN = /[A-Za-z0-9]+(?:['’][A-Za-z]+)?/g;
+
+const stripMarkers = (text: string | undefined): string =>
+  text ? text.replace(/\{\{[^}]*\}\}/g, ' ').replace(/[ \t]+/g, ' ') : '';
+
+const compact = (text: string): string => text.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const normalizeWord = (word: string): string => word.toLowerCase().replace(/['’]s$/, '').replace(/['’]/g, '');
+
+const isConsonant = (char: string): boolean => /[b-df-hj-np-tv-z]/.test(char);
+
+/**
+ * Light suffix stripping. It does not need to produce real words, only the same
+ * stem for the common forms of a word used in the manuals.
+ */
+export const stemWord = (word: string): string => {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+
+  let stem = word;
+  if (stem.endsWith('ies') && stem.length > 4) {
+    stem = `${stem.slice(0, -3)}y`;
+  } else if (/(?:sses|xes|ches|shes|zes)$/.test(stem)) {
+    stem = stem.slice(0, -2);
+  } else if (stem.endsWith('s') && !/(?:ss|us|is)$/.test(stem)) {
+    stem = stem.slice(0, -1);
+  }
+
+  for (const suffix of ['ment', 'ing', 'ed', 'ly']) {
+    if (stem.endsWith(suffix) && stem.length - suffix.length >= 3) {
+      stem = stem.slice(0, -suffix.length);
+      // "stopped" -> "stop", but "called" stays "call"
+      const last = stem[stem.length - 1];
+      if ((suffix === 'ing' || suffix === 'ed') && last === stem[stem.length - 2] && isConsonant(last) && !'lsz'.includes(last)) {
+        stem = stem.slice(0, -1);
+      }
+      break;
+    }
+  }
+
+  if (stem.endsWith('e') && stem.length > 3) {
+    stem = stem.slice(0, -1);
+  }
+  return stem;
+};
+
+const tokenize = (text: string): string[] =>
+  (text.match(WORD_PATTERN) || []).map(normalizeWord).filter(Boolean);
+
+const countStems = (text: string, counts: Map<string, number>, words: Map<string, string>) => {
+  tokenize(text).forEach(word => {
+    if (STOP_WORDS.has(word)) return;
+    const stem = words.get(word) ?? stemWord(word);
+    words.set(word, stem);
+    counts.set(stem, (counts.get(stem) || 0) + 1);
+  });
+};
+
+export const buildRuleSearchIndex = (groups: RuleGroup[]): RuleSearchIndex => {
+  const rules: IndexedRule[] = [];
+  const postings = new Map<string, Posting[]>();
+  const words = new Map<string, string>();
+
+  groups.forEach(group => {
+    group.rules.forEach(rule => {
+      const doc = rules.length;
+      const body = stripMarkers(rule.completeText || rule.fullText || rule.description);
+      rules.push({
+        rule,
+        group,
+        order: doc,
+        code: compact(rule.rule),
+        title: stripMarkers(rule.title),
+        body,
+      });
+
+      const fields = {
+        title: new Map<string, number>(),
+        category: new Map<string, number>(),
+        body: new Map<string, number>(),
+      };
+      countStems(rule.title, fields.title, words);
+      countStems([rule.category, ...(rule.tags || [])].join(' '), fields.category, words);
+      // The description is usually the start of the rule text, so it only counts when there is no body
+      countStems(body || rule.description, fields.body, words);
+
+      const stems = new Set([...fields.title.keys(), ...fields.category.keys(), ...fields.body.keys()]);
+      stems.forEach(stem => {
+        const list = postings.get(stem) || [];
+        list.push({
+          doc,
+          title: fields.title.get(stem) || 0,
+          category: fields.category.get(stem) || 0,
+          body: fields.body.get(stem) || 0,
+        });
+        postings.set(stem, list);
+      });
+    });
+  });
+
+  return { rules, postings, words };
+};
+
+const indexCache = new WeakMap<RuleGroup[], RuleSearchIndex>();
+
+/**
+ * Index for a set of rule groups, built once per groups array
+ */
+export const getRuleSearchIndex = (groups: RuleGroup[]): RuleSearchIndex => {
+  let index = indexCache.get(groups);
+  if (!index) {
+    index = buildRuleSearchIndex(groups);
+    indexCache.set(groups, index);
+  }
+  return index;
+};
+
+/**
+ * Optimal string alignment distance, giving up once it exceeds `max`
+ */
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > max) return max + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const getMaxTypos = (word: string): number => (word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0);
+
+/**
+ * Indexed stems a query word can stand for, with how strongly each counts
+ */
+const expandTerm = (index: RuleSearchIndex, stem: string, word: string): Map<string, number> => {
+  const expansions = new Map<string, number>();
+  const exists = index.postings.has(stem);
+  if (exists) expansions.set(stem, 1);
+
+  // Typo tolerance is only for words the manual does not use. Words are compared
+  // before stemming, since a typo can stop the stemmer from recognising a suffix.
+  const maxTypos = exists ? 0 : getMaxTypos(word);
+  index.words.forEach((candidateStem, candidate) => {
+    if (candidateStem === stem) return;
+    let weight = 0;
+    if (word.length >= MIN_PREFIX_LENGTH && candidate.startsWith(word)) {
+      weight = PREFIX_MATCH_WEIGHT;
+    } else if (maxTypos > 0) {
+      const distance = editDistance(word, candidate, maxTypos);
+      if (distance <= maxTypos) weight = TYPO_MATCH_WEIGHT[distance];
+    }
+    if (weight > (expansions.get(candidateStem) || 0)) expansions.set(candidateStem, weight);
+  });
+  return expansions;
+};
+
+interface DocumentScore {
+  score: number;
+  termsMatched: number;
+  termsInTitle: number;
+  stems: Set<string>;
+}
+
+/**
+ * Plain-text excerpt around the first matching word, or the start of the body
+ */
+const buildSnippet = (body: string, stems: Set<string>): string => {
+  const text = body.replace(/\s+/g, ' ').trim();
+  if (!text) return '';
+
+  let matchStart = -1;
+  const pattern = new RegExp(WORD_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (stems.has(stemWord(normalizeWord(match[0])))) {
+      matchStart = match.index;
+      break;
+    }
+  }
+
+  let start = matchStart > SNIPPET_BEFORE ? matchStart - SNIPPET_BEFORE : 0;
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    start = space !== -1 && space < matchStart ? space + 1 : start;
+  }
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    end = space > start ? space : end;
+  }
+
+  return `${start > 0 ? '…' : ''}${text.slice(start, end)}${end < text.length ? '…' : ''}`;
+};
+
+const getHighlightTerms = (entry: IndexedRule, stems: Set<string>): string[] => {
+  const terms = new Set<string>();
+  tokenize(`${entry.title} ${entry.body}`).forEach(word => {
+    if (stems.has(stemWord(word))) terms.add(word);
+  });
+  return Array.from(terms);
+};
+
+/**
+ * Ranked rules matching the query. Every query word must match unless no rule
+ * matches them all, in which case rules matching any of them are returned.
+ */
+export const searchRuleIndex = (index: RuleSearchIndex, query: string, limit?: number): RuleSearchResult[] => {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  const compactQuery = compact(trimmed);
+  const phrase = trimmed.toLowerCase().replace(/\s+/g, ' ');
+
+  const allWords = tokenize(trimmed);
+  const words = allWords.some(word => !STOP_WORDS.has(word))
+    ? allWords.filter(word => !STOP_WORDS.has(word))
+    : allWords;
+  const terms = Array.from(new Set(words)).map(word => ({ word, stem: stemWord(word) }));
+
+  const scores = new Map<number, DocumentScore>();
+  terms.forEach(({ word, stem }) => {
+    const bestByDoc = new Map<number, { score: number; inTitle: boolean; stem: string }>();
+    expandTerm(index, stem, word).forEach((weight, candidate) => {
+      const postings = index.postings.get(candidate)!;
+      const idf = Math.log(1 + index.rules.length / postings.length);
+      postings.forEach(posting => {
+        const fieldScore =
+          (posting.title > 0 ? 3 : 0) +
+          (posting.category > 0 ? 1.5 : 0) +
+          (posting.body > 0 ? 1 + Math.log(posting.body) / 2 : 0);
+        const score = weight * idf * fieldScore;
+        const best = bestByDoc.get(posting.doc);
+        if (!best || score > best.score) {
+          bestByDoc.set(posting.doc, { score, inTitle: posting.title > 0, stem: candidate });
+        }
+      });
+    });
+
+    bestByDoc.forEach((best, doc) => {
+      const entry = scores.get(doc) || { score: 0, termsMatched: 0, termsInTitle: 0, stems: new Set<string>() };
+      entry.score += best.score;
+      entry.termsMatched++;
+      if (best.inTitle) entry.termsInTitle++;
+      entry.stems.add(best.stem);
+      scores.set(doc, entry);
+    });
+  });
+
+  const requireAll = Array.from(scores.values()).some(entry => entry.termsMatched === terms.length);
+
+  const results: { entry: IndexedRule; match: RuleMatchField; score: number; stems: Set<string> }[] = [];
+  index.rules.forEach((entry, doc) => {
+    const docScore = scores.get(doc);
+    const codeExact = compactQuery.length > 0 && entry.code === compactQuery;
+    const codePrefix = !codeExact && compactQuery.length >= 2 && entry.code.startsWith(compactQuery);
+
+    if (!codeExact && !codePrefix) {
+      if (!docScore || (requireAll && docScore.termsMatched < terms.length)) return;
+    }
+
+    let score = docScore ? docScore.score * (docScore.termsMatched / Math.max(terms.length, 1)) : 0;
+    if (phrase.includes(' ') && `${entry.title} ${entry.body}`.toLowerCase().includes(phrase)) {
+      score += 10;
+    }
+
+    let match: RuleMatchField = 'body';
+    if (codeExact) {
+      score += TIER_SCORE.codeExact;
+      match = 'code';
+    } else if (codePrefix) {
+      score += TIER_SCORE.codePrefix;
+      match = 'code';
+    } else if (docScore && docScore.termsInTitle === terms.length) {
+      score += TIER_SCORE.title;
+      match = 'title';
+    } else {
+      score += TIER_SCORE.body;
+    }
+
+    results.push({ entry, match, score, stems: docScore?.stems || new Set() });
+  });
+
+  results.sort((a, b) => b.score - a.score || a.entry.order - b.entry.order);
+
+  return results.slice(0, limit ?? results.length).map(({ entry, match, score, stems }) => ({
+    rule: entry.rule,
+    group: entry.group,
+    match,
+    score,
+    snippet: buildSnippet(entry.body, stems),
+    highlightTerms: getHighlightTerms(entry, stems),
+  }));
+};
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Split text into plain and highlighted runs for the given words
+ */
+export const splitHighlights = (text: string, terms: string[]): HighlightSegment[] => {
+  if (!text || terms.length === 0) return [{ text, highlighted: false }];
+
+  const pattern = new RegExp(
+    `\\b(?:${[...terms].sort((a, b) => b.length - a.length).map(escapeRegExp).join('|')})\\b`,
+    'gi'
+  );
+  const segments: HighlightSegment[] = [];
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) segments.push({ text: text.slice(lastIndex, match.index), highlighted: false });
+    segments.push({ text: match[0], highlighted: true });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < text.length) segments.push({ text: text.slice(lastIndex), highlighted: false });
+  return segments;
+};
@@ -0,0 +1,204 @@
+/**
+ * Score Calculator Engine
+ *
+ * Pure functions that evaluate a ScoreSheet definition against the values the user
+ * has entered. The screen keeps a ScoreSheetState per sheet and uses these helpers
+ * for scoring, limits and validation, so no game-specific math lives in the UI.
+ */
+
+import {
+  ScoreSheet,
+  ScoreSheetState,
+  ScoringElement,
+  ScoringBonus,
+  ScoringValue,
+  ScoringViolation,
+  SheetScore,
+} from '../../types/scoreCalculator';
+
+/**
+ * Get every element in a sheet, across all periods
+ */
+export const getSheetElements = (sheet: ScoreSheet): ScoringElement[] =>
+  sheet.periods.flatMap(period => period.elements);
+
+const findElement = (sheet: ScoreSheet, elementId: string): ScoringElement | undefined =>
+  getSheetElements(sheet).find(element => element.id === elementId);
+
+/**
+ * Default value for an element (0, off, or the default/first option)
+ */
+const getDefaultValue = (element: ScoringElement): ScoringValue => {
+  switch (element.type) {
+    case 'toggle':
+      return false;
+    case 'choice':
+      return element.defaultOption || element.options?.[0]?.id || '';
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Create the initial (empty) state for a sheet
+ */
+export const createInitialState = (sheet: ScoreSheet): ScoreSheetState => {
+  const state: ScoreSheetState = {};
+  getSheetElements(sheet).forEach(element => {
+    state[element.id] = getDefaultValue(element);
+  });
+  return state;
+};
+
+/**
+ * Read an element's value as a count (toggle on = 1, choices = 0)
+ */
+export const getCount = (state: ScoreSheetState, elementId: string): number => {
+  const value = state[elementId];
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return 0;
+};
+
+/**
+ * Points earned by a single element
+ */
+export const getElementPoints = (element: ScoringElement, value: ScoringValue | undefined): number => {
+  switch (element.type) {
+    case 'toggle':
+      return value === true ? element.points || 0 : 0;
+    case 'choice':
+      return element.options?.find(option => option.id === value)?.points || 0;
+    default: {
+      const count = typeof value === 'number' ? value : 0;
+      if (element.pointsTable) {
+        const index = Math.min(count, element.pointsTable.length - 1);
+        return element.pointsTable[Math.max(index, 0)];
+      }
+      return count * (element.points || 0);
+    }
+  }
+};
+
+const isBonusEarned = (bonus: ScoringBonus, state: ScoreSheetState): boolean =>
+  bonus.conditions.every(condition => {
+    if (condition.option !== undefined) {
+      return state[condition.element] === condition.option;
+    }
+    return getCount(state, condition.element) >= (condition.min ?? 1);
+  });
+
+/**
+ * Calculate a sheet's total score with a per-period breakdown
+ */
+export const calculateSheetScore = (sheet: ScoreSheet, state: ScoreSheetState): SheetScore => {
+  const periods = sheet.periods.map(period => {
+    const elementPoints = period.elements.reduce(
+      (sum, element) => sum + getElementPoints(element, state[element.id]),
+      0
+    );
+    const bonuses = (period.bonuses || [])
+      .filter(bonus => isBonusEarned(bonus, state))
+      .map(({ id, label, points }) => ({ id, label, points }));
+
+    return {
+      id: period.id,
+      label: period.label,
+      points: elementPoints + bonuses.reduce((sum, bonus) => sum + bonus.points, 0),
+      bonuses,
+    };
+  });
+
+  return {
+    total: periods.reduce((sum, period) => sum + period.points, 0),
+    periods,
+  };
+};
+
+/**
+ * Highest value a counter can currently be set to, taking shared limits into account
+ * @returns Maximum count, or undefined if the counter is unlimited
+ */
+export const getElementLimit = (
+  sheet: ScoreSheet,
+  state: ScoreSheetState,
+  elementId: string
+): number | undefined => {
+  let limit = findElement(sheet, elementId)?.max;
+
+  (sheet.constraints || []).forEach(constraint => {
+    if (constraint.type !== 'maxTotal' || !constraint.elements.includes(elementId)) return;
+
+    const sharedMax = constraint.maxElement !== undefined
+      ? getCount(state, constraint.maxElement)
+      : constraint.max;
+    if (sharedMax === undefined) return;
+
+    const usedByOthers = constraint.elements
+      .filter(id => id !== elementId)
+      .reduce((sum, id) => sum + getCount(state, id), 0);
+    const remaining = Math.max(sharedMax - usedByOthers, 0);
+    limit = limit === undefined ? remaining : Math.min(limit, remaining);
+  });
+
+  return limit;
+};
+
+/**
+ * Set an element's value, clamping counters to their current limit
+ * @returns New state (unchanged state object if the value was rejected)
+ */
+export const setElementValue = (
+  sheet: ScoreSheet,
+  state: ScoreSheetState,
+  elementId: string,
+  value: ScoringValue
+): ScoreSheetState => {
+  const element = findElement(sheet, elementId);
+  if (!element) return state;
+
+  let nextValue = value;
+  if (element.type === 'counter') {
+    const limit = getElementLimit(sheet, state, elementId);
+    const count = Math.max(typeof value === 'number' ? Math.floor(value) : 0, 0);
+    nextValue = limit === undefined ? count : Math.min(count, limit);
+  } else if (element.type === 'toggle') {
+    nextValue = value === true;
+  } else if (!element.options?.some(option => option.id === value)) {
+    return state;
+  }
+
+  if (state[elementId] === nextValue) return state;
+  return { ...state, [elementId]: nextValue };
+};
+
+/**
+ * Check a state against every element limit and sheet constraint.
+ * Values can go out of range when a constraint's maxElement is lowered.
+ */
+export const validateSheetState = (sheet: ScoreSheet, state: ScoreSheetState): ScoringViolation[] => {
+  const violations: ScoringViolation[] = [];
+
+  getSheetElements(sheet).forEach(element => {
+    if (element.type === 'counter' && element.max !== undefined && getCount(state, element.id) > element.max) {
+      violations.push({
+        elements: [element.id],
+        message: `${element.label} cannot exceed ${element.max}`,
+      });
+    }
+  });
+
+  (sheet.constraints || []).forEach(constraint => {
+    const sharedMax = constraint.maxElement !== undefined
+      ? getCount(state, constraint.maxElement)
+      : constraint.max;
+    if (sharedMax === undefined) return;
+
+    const total = constraint.elements.reduce((sum, id) => sum + getCount(state, id), 0);
+    if (total > sharedMax) {
+      violations.push({ elements: constraint.elements, message: constraint.message });
+    }
+  });
+
+  return violations;
+};
@@ -0,0 +1,3 @@
+// Main exports for the score calculator system
+export * from './engine';
+export * from './registry';
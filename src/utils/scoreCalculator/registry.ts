@@ -0,0 +1,84 @@
+/**
+ * Score Calculator Registry
+ *
+ * Bundled score calculator definitions, keyed by definition ID. To add a game:
+ * 1. Add a JSON definition to src/data/scoreCalculators (see types/scoreCalculator.ts),
+ *    defining elements shared between sheets once in its top-level `elements`
+ * 2. Register it in SCORE_CALCULATOR_DEFINITIONS, through resolveDefinition if it has shared elements
+ * 3. Point the program's CALCULATOR_SCREENS entry at the 'ScoreCalculator' screen
+ *    with { definitionId } (and optionally sheetId) params
+ */
+
+import {
+  ScoreCalculatorDefinition,
+  ScoreCalculatorSource,
+  ScoreSheet,
+  ScoringElement,
+} from '../../types/scoreCalculator';
+
+import V5RC_2025_2026 from '../../data/scoreCalculators/v5rc-2025-2026.json';
+import VIQRC_2025_2026 from '../../data/scoreCalculators/viqrc-2025-2026.json';
+import VAIRC_2025_2026 from '../../data/scoreCalculators/vairc-2025-2026.json';
+import ADC_2025_2026 from '../../data/scoreCalculators/adc-2025-2026.json';
+
+/**
+ * Replace shared element references with the elements they name
+ */
+const resolveDefinition = (source: ScoreCalculatorSource): ScoreCalculatorDefinition => {
+  const shared = new Map((source.elements || []).map(element => [element.id, element]));
+  const resolve = (element: ScoringElement | string): ScoringElement => {
+    if (typeof element !== 'string') return element;
+    const sharedElement = shared.get(element);
+    if (!sharedElement) {
+      throw new Error(`Score calculator ${source.id} references unknown element "${element}"`);
+    }
+    return sharedElement;
+  };
+
+  const { elements, ...definition } = source;
+  return {
+    ...definition,
+    sheets: source.sheets.map(sheet => ({
+      ...sheet,
+      periods: sheet.periods.map(period => ({ ...period, elements: period.elements.map(resolve) })),
+    })),
+  };
+};
+
+const V5RC_PUSH_BACK = V5RC_2025_2026 as ScoreCalculatorDefinition;
+
+const SCORE_CALCULATOR_DEFINITIONS: { [id: string]: ScoreCalculatorDefinition } = {
+  // 2025-2026 Season (Current)
+  'v5rc-2025-2026': V5RC_PUSH_BACK,
+  // VURC uses the V5RC scoring rules (<SC1>-<SC5>) and skills table (<RSC2>) unchanged.
+  // Its differences are not scored here: the Autonomous Win Point criteria (<VUG4>),
+  // Match Loads during both periods (<VUG3>) and two Robots in skills (<VURS3>).
+  'vurc-2025-2026': { ...V5RC_PUSH_BACK, id: 'vurc-2025-2026', program: 'VURC' },
+  // Skills only: the bundled manual has the VAIRC skills table (<VAIRS7>) but not the
+  // head-to-head point values for the Control Bonus (<VAISC1>) or 24" Robot Parking (<VAISC2>)
+  'vairc-2025-2026': VAIRC_2025_2026 as ScoreCalculatorDefinition,
+  'viqrc-2025-2026': resolveDefinition(VIQRC_2025_2026 as ScoreCalculatorSource),
+  'adc-2025-2026': ADC_2025_2026 as ScoreCalculatorDefinition,
+};
+
+/**
+ * Get a bundled score calculator definition
+ * @param definitionId Definition ID (e.g., "v5rc-2025-2026")
+ * @returns Definition, or null if none is bundled
+ */
+export const getScoreCalculatorDefinition = (definitionId: string): ScoreCalculatorDefinition | null => {
+  return SCORE_CALCULATOR_DEFINITIONS[definitionId] || null;
+};
+
+/**
+ * Get the sheets to show for a definition
+ * @param definition Score calculator definition
+ * @param sheetId Restrict to a single sheet (omit for all sheets)
+ */
+export const getDefinitionSheets = (
+  definition: ScoreCalculatorDefinition,
+  sheetId?: string
+): ScoreSheet[] => {
+  if (!sheetId) return definition.sheets;
+  return definition.sheets.filter(sheet => sheet.id === sheetId);
+};
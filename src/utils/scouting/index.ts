@@ -0,0 +1,3 @@
+// Main exports for the scouting template system
+export * from './templates';
+export * from './summary';
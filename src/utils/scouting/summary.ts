@@ -0,0 +1,169 @@
+/**
+ * Scouting Summaries
+ *
+ * Aggregates the structured scouting responses stored on match notes into per-team
+ * summaries: averages and ranges for numbers and ratings, "yes" rates for booleans,
+ * response counts for enums, and a trend over the event for everything but enums.
+ */
+
+import { TeamMatchNote } from '../../contexts/NotesContext';
+import {
+  ScoutingField,
+  ScoutingFieldSummary,
+  ScoutingTemplate,
+  ScoutingTrend,
+  ScoutingValue,
+  TeamScoutingSummary,
+} from '../../types/scouting';
+import { DEFAULT_RATING_SCALE } from './templates';
+
+// Minimum responses before a trend is reported
+const MIN_TREND_RESPONSES = 3;
+// Change across the event, as a share of the field's range, that counts as a trend
+const TREND_THRESHOLD = 0.15;
+
+/**
+ * Check if a note has any scouting responses
+ */
+export const hasScoutingData = (note: Pick<TeamMatchNote, 'scouting'>): boolean => {
+  return !!note.scouting && Object.keys(note.scouting.values).length > 0;
+};
+
+/**
+ * Direction of a series using the least squares slope across it
+ * @param values Responses in chronological order
+ * @param span Range of possible values, used to ignore small changes
+ */
+export const getTrend = (values: number[], span: number): ScoutingTrend => {
+  const n = values.length;
+  if (n < MIN_TREND_RESPONSES) return 'flat';
+
+  const meanX = (n - 1) / 2;
+  const meanY = values.reduce((sum, value) => sum + value, 0) / n;
+  let numerator = 0;
+  let denominator = 0;
+  values.forEach((value, index) => {
+    numerator += (index - meanX) * (value - meanY);
+    denominator += (index - meanX) ** 2;
+  });
+
+  const change = (numerator / denominator) * (n - 1);
+  if (Math.abs(change) < TREND_THRESHOLD * Math.max(span, 1)) return 'flat';
+  return change > 0 ? 'up' : 'down';
+};
+
+const isImproving = (field: ScoutingField, trend: ScoutingTrend): boolean | null => {
+  if (trend === 'flat') return null;
+  return (trend === 'up') !== !!field.lowerIsBetter;
+};
+
+const summarizeField = (field: ScoutingField, values: ScoutingValue[]): ScoutingFieldSummary => {
+  if (field.type === 'enum') {
+    const counts: Record<string, number> = {};
+    values.forEach(value => {
+      counts[String(value)] = (counts[String(value)] || 0) + 1;
+    });
+    const mostCommon = Object.entries(counts).sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+    return { fieldId: field.id, label: field.label, type: 'enum', count: values.length, counts, mostCommon };
+  }
+
+  if (field.type === 'boolean') {
+    const flags = values.map(value => value ? 1 : 0);
+    const trueCount = flags.reduce<number>((sum, flag) => sum + flag, 0);
+    const trend = getTrend(flags, 1);
+    return {
+      fieldId: field.id,
+      label: field.label,
+      type: 'boolean',
+      count: values.length,
+      trueCount,
+      rate: values.length > 0 ? trueCount / values.length : 0,
+      trend,
+      improving: isImproving(field, trend),
+    };
+  }
+
+  const numbers = values.filter((value): value is number => typeof value === 'number');
+  const min = numbers.length > 0 ? Math.min(...numbers) : 0;
+  const max = numbers.length > 0 ? Math.max(...numbers) : 0;
+  const span = field.type === 'rating'
+    ? (field.scale ?? DEFAULT_RATING_SCALE) - 1
+    : (field.max ?? max) - (field.min ?? 0);
+  const trend = getTrend(numbers, span);
+
+  return {
+    fieldId: field.id,
+    label: field.label,
+    type: field.type,
+    count: numbers.length,
+    average: numbers.length > 0 ? numbers.reduce((sum, value) => sum + value, 0) / numbers.length : 0,
+    min,
+    max,
+    trend,
+    improving: isImproving(field, trend),
+  };
+};
+
+/**
+ * Summarize one team's responses for a template
+ * @param notes The team's notes (only notes filled in with this template are used)
+ */
+export const summarizeTeamScouting = (
+  notes: TeamMatchNote[],
+  template: ScoutingTemplate
+): TeamScoutingSummary | null => {
+  const scouted = notes
+    .filter(note => note.scouting?.templateId === template.id && hasScoutingData(note))
+    .sort((a, b) => new Date(a.time).getTime() - new Date(b.time).getTime());
+  if (scouted.length === 0) return null;
+
+  const latest = scouted[scouted.length - 1];
+  return {
+    teamId: latest.teamId,
+    teamNumber: latest.teamNumber,
+    teamName: latest.teamName,
+    matchesScouted: scouted.length,
+    fields: template.fields.map(field => summarizeField(
+      field,
+      scouted
+        .map(note => note.scouting!.values[field.id])
+        .filter((value): value is ScoutingValue => value !== undefined)
+    )),
+  };
+};
+
+/**
+ * Summarize every scouted team in a set of notes (usually one event), by team number
+ */
+export const summarizeEventScouting = (
+  notes: TeamMatchNote[],
+  template: ScoutingTemplate
+): TeamScoutingSummary[] => {
+  const notesByTeam = new Map<number, TeamMatchNote[]>();
+  notes.forEach(note => {
+    const teamNotes = notesByTeam.get(note.teamId);
+    if (teamNotes) {
+      teamNotes.push(note);
+    } else {
+      notesByTeam.set(note.teamId, [note]);
+    }
+  });
+
+  return Array.from(notesByTeam.values())
+    .map(teamNotes => summarizeTeamScouting(teamNotes, template))
+    .filter((summary): summary is TeamScoutingSummary => summary !== null)
+    .sort((a, b) => a.teamNumber.localeCompare(b.teamNumber, undefined, { numeric: true }));
+};
+
+/**
+ * IDs of the templates used by a set of notes, most used first
+ */
+export const getUsedTemplateIds = (notes: TeamMatchNote[]): string[] => {
+  const counts: Record<string, number> = {};
+  notes.forEach(note => {
+    if (note.scouting && hasScoutingData(note)) {
+      counts[note.scouting.templateId] = (counts[note.scouting.templateId] || 0) + 1;
+    }
+  });
+  return Object.entries(counts).sort((a, b) => b[1] - a[1]).map(([templateId]) => templateId);
+};
@@ -0,0 +1,88 @@
+/**
+ * Scouting Template Registry
+ *
+ * Bundled scouting templates and helpers for working with template fields. To add
+ * a bundled template, add a JSON file to src/data/scoutingTemplates (see
+ * types/scouting.ts) and register it in BUILT_IN_SCOUTING_TEMPLATES.
+ */
+
+import { ScoutingField, ScoutingTemplate, ScoutingValue } from '../../types/scouting';
+
+import ROBOTICS_TEMPLATE from '../../data/scoutingTemplates/robotics.json';
+import VIQRC_TEMPLATE from '../../data/scoutingTemplates/viqrc.json';
+import DRONE_TEMPLATE from '../../data/scoutingTemplates/drone.json';
+
+export const BUILT_IN_SCOUTING_TEMPLATES: ScoutingTemplate[] = [
+  ROBOTICS_TEMPLATE as ScoutingTemplate,
+  VIQRC_TEMPLATE as ScoutingTemplate,
+  DRONE_TEMPLATE as ScoutingTemplate,
+];
+
+export const DEFAULT_RATING_SCALE = 5;
+
+/**
+ * Get the bundled templates for a program
+ * @param programShortName Program short name (e.g., "V5RC")
+ */
+export const getBuiltInScoutingTemplates = (programShortName: string): ScoutingTemplate[] => {
+  return BUILT_IN_SCOUTING_TEMPLATES.filter(template => template.programs.includes(programShortName));
+};
+
+/**
+ * Check that a value can be stored for a field, clamping numbers into range
+ * @returns The value to store, or undefined if it does not fit the field
+ */
+export const normalizeScoutingValue = (field: ScoutingField, value: ScoutingValue): ScoutingValue | undefined => {
+  switch (field.type) {
+    case 'number': {
+      if (typeof value !== 'number' || isNaN(value)) return undefined;
+      const min = field.min ?? 0;
+      const max = field.max ?? Infinity;
+      return Math.min(Math.max(Math.round(value), min), max);
+    }
+    case 'rating': {
+      if (typeof value !== 'number' || isNaN(value)) return undefined;
+      return Math.min(Math.max(Math.round(value), 1), field.scale ?? DEFAULT_RATING_SCALE);
+    }
+    case 'boolean':
+      return typeof value === 'boolean' ? value : undefined;
+    case 'enum':
+      return typeof value === 'string' && field.options?.some(option => option.id === value) ? value : undefined;
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Format a stored value for display (e.g., "4/5", "Yes", "Win Point")
+ */
+export const formatScoutingValue = (field: ScoutingField, value: ScoutingValue | undefined): string => {
+  if (value === undefined) return '-';
+  switch (field.type) {
+    case 'rating':
+      return `${value}/${field.scale ?? DEFAULT_RATING_SCALE}`;
+    case 'boolean':
+      return value ? 'Yes' : 'No';
+    case 'enum':
+      return field.options?.find(option => option.id === value)?.label ?? String(value);
+    default:
+      return String(value);
+  }
+};
+
+/**
+ * Create a field ID from its label that is unique within the template
+ */
+export const generateFieldId = (label: string, existingIds: string[]): string => {
+  const words = label.trim().toLowerCase().replace(/[^a-z0-9 ]/g, '').split(/\s+/).filter(Boolean);
+  const base = words
+    .map((word, index) => index === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1))
+    .join('') || 'field';
+
+  let id = base;
+  let suffix = 2;
+  while (existingIds.includes(id)) {
+    id = `${base}${suffix++}`;
+  }
+  return id;
+};
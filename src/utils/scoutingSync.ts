@@ -0,0 +1,360 @@
+/**
+ * SCOUTING SYNC UTILITIES
+ *
+ * Moves scouting data between devices without a server. A sync bundle holds a
+ * selection of match notes plus optional favorites and scouting templates. It is
+ * compressed with lz-string and either shared as a file or split across a
+ * sequence of QR codes that the receiving device scans.
+ *
+ * Imports are planned before they are applied: notes with the same id merge by
+ * updatedAt, while different notes for the same team in the same match (two
+ * scouts watching one robot) are conflicts the user resolves.
+ */
+
+import LZString from 'lz-string';
+import { TeamMatchNote } from '../contexts/NotesContext';
+import { FavoriteItem } from '../contexts/FavoritesContext';
+import { ScoutingTemplate, ScoutingValue } from '../types/scouting';
+
+export const SYNC_FORMAT = 'robonexus-sync';
+export const SYNC_VERSION = 1;
+
+// Characters of compressed payload per QR code; keeps codes small enough to scan off a phone screen
+export const QR_CHUNK_SIZE = 400;
+const QR_PREFIX = 'RNX';
+
+export interface SyncBundle {
+  format: typeof SYNC_FORMAT;
+  version: number;
+  createdAt: string; // ISO date string
+  notes: TeamMatchNote[];
+  favorites: FavoriteItem[];
+  templates: ScoutingTemplate[];
+}
+
+// Contents of a shared bundle file
+interface SyncFile {
+  format: typeof SYNC_FORMAT;
+  version: number;
+  payload: string; // Compressed bundle
+}
+
+export class SyncBundleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncBundleError';
+  }
+}
+
+/**
+ * Build a bundle for export. Photos are left out because image URIs only
+ * resolve on the device that took them.
+ */
+export const createSyncBundle = (contents: {
+  notes?: TeamMatchNote[];
+  favorites?: FavoriteItem[];
+  templates?: ScoutingTemplate[];
+}): SyncBundle => ({
+  format: SYNC_FORMAT,
+  version: SYNC_VERSION,
+  createdAt: new Date().toISOString(),
+  notes: (contents.notes || []).map(({ imageUri, ...note }) => note),
+  favorites: contents.favorites || [],
+  templates: (contents.templates || []).filter(template => !template.builtIn),
+});
+
+export const encodeSyncBundle = (bundle: SyncBundle): string => {
+  return LZString.compressToBase64(JSON.stringify(bundle));
+};
+
+export const decodeSyncBundle = (payload: string): SyncBundle => {
+  let bundle: any;
+  try {
+    const json = LZString.decompressFromBase64(payload.trim());
+    bundle = json ? JSON.parse(json) : null;
+  } catch (error) {
+    bundle = null;
+  }
+
+  if (!bundle || bundle.format !== SYNC_FORMAT) {
+    throw new SyncBundleError('This is not RoboNexus scouting data.');
+  }
+  if (typeof bundle.version !== 'number' || bundle.version > SYNC_VERSION) {
+    throw new SyncBundleError('This data was exported by a newer version of RoboNexus. Update the app to import it.');
+  }
+
+  return {
+    format: SYNC_FORMAT,
+    version: bundle.version,
+    createdAt: bundle.createdAt || new Date().toISOString(),
+    notes: Array.isArray(bundle.notes) ? bundle.notes : [],
+    favorites: Array.isArray(bundle.favorites) ? bundle.favorites : [],
+    templates: Array.isArray(bundle.templates) ? bundle.templates : [],
+  };
+};
+
+export const createSyncFileContent = (bundle: SyncBundle): string => {
+  const file: SyncFile = { format: SYNC_FORMAT, version: SYNC_VERSION, payload: encodeSyncBundle(bundle) };
+  return JSON.stringify(file);
+};
+
+/**
+ * Read a bundle from a shared file or pasted text (file JSON or a bare payload)
+ */
+export const parseSyncText = (text: string): SyncBundle => {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('{')) {
+    let file: Partial<SyncFile>;
+    try {
+      file = JSON.parse(trimmed);
+    } catch (error) {
+      throw new SyncBundleError('The file could not be read.');
+    }
+    if (file.format !== SYNC_FORMAT || typeof file.payload !== 'string') {
+      throw new SyncBundleError('This is not RoboNexus scouting data.');
+    }
+    return decodeSyncBundle(file.payload);
+  }
+  return decodeSyncBundle(trimmed);
+};
+
+// QR codes
+
+export interface QrChunk {
+  bundleId: string;
+  index: number; // 0-based
+  total: number;
+  data: string;
+}
+
+export interface QrScanProgress {
+  bundleId: string;
+  parts: (string | null)[];
+}
+
+/**
+ * Split a payload into QR code texts: RNX|<bundleId>|<index>|<total>|<data>
+ */
+export const splitPayloadForQr = (payload: string, chunkSize: number = QR_CHUNK_SIZE): string[] => {
+  const bundleId = Math.random().toString(36).substr(2, 6);
+  const total = Math.max(1, Math.ceil(payload.length / chunkSize));
+  return Array.from({ length: total }, (_, index) =>
+    [QR_PREFIX, bundleId, index, total, payload.slice(index * chunkSize, (index + 1) * chunkSize)].join('|')
+  );
+};
+
+export const parseQrChunk = (text: string): QrChunk | null => {
+  const parts = text.split('|');
+  if (parts.length !== 5 || parts[0] !== QR_PREFIX) return null;
+
+  const index = parseInt(parts[2], 10);
+  const total = parseInt(parts[3], 10);
+  if (isNaN(index) || isNaN(total) || total < 1 || index < 0 || index >= total) return null;
+
+  return { bundleId: parts[1], index, total, data: parts[4] };
+};
+
+/**
+ * Record a scanned chunk. Scanning a code from a different bundle starts over.
+ */
+export const collectQrChunk = (progress: QrScanProgress | null, chunk: QrChunk): QrScanProgress => {
+  const current = progress && progress.bundleId === chunk.bundleId && progress.parts.length === chunk.total
+    ? progress
+    : { bundleId: chunk.bundleId, parts: Array<string | null>(chunk.total).fill(null) };
+
+  if (current.parts[chunk.index] !== null) return current;
+  const parts = [...current.parts];
+  parts[chunk.index] = chunk.data;
+  return { bundleId: current.bundleId, parts };
+};
+
+export const getScannedCount = (progress: QrScanProgress | null): number => {
+  return progress ? progress.parts.filter(part => part !== null).length : 0;
+};
+
+/**
+ * Joined payload once every chunk has been scanned, otherwise null
+ */
+export const getCollectedPayload = (progress: QrScanProgress | null): string | null => {
+  if (!progress || progress.parts.some(part => part === null)) return null;
+  return progress.parts.join('');
+};
+
+// Merging
+
+export type NoteConflictChoice = 'local' | 'incoming' | 'combine';
+
+export interface NoteConflict {
+  key: string; // eventId-matchId-teamId
+  local: TeamMatchNote;
+  incoming: TeamMatchNote;
+}
+
+export interface NoteMergePlan {
+  added: TeamMatchNote[];
+  updated: TeamMatchNote[]; // Same id, incoming copy is newer
+  unchanged: number; // Identical, or the local copy is newer
+  conflicts: NoteConflict[];
+}
+
+export interface TemplateMergePlan {
+  added: ScoutingTemplate[];
+  updated: ScoutingTemplate[];
+  unchanged: number;
+}
+
+export interface FavoriteMergePlan {
+  added: FavoriteItem[];
+  unchanged: number;
+}
+
+export interface ImportPlan {
+  bundle: SyncBundle;
+  notes: NoteMergePlan;
+  templates: TemplateMergePlan;
+  favorites: FavoriteMergePlan;
+}
+
+const getNoteKey = (note: Pick<TeamMatchNote, 'eventId' | 'matchId' | 'teamId'>): string =>
+  `${note.eventId}-${note.matchId}-${note.teamId}`;
+
+// Text and scouting responses, with responses in a stable order so merged copies compare equal
+const getNoteContent = (note: TeamMatchNote): string =>
+  JSON.stringify([
+    note.note.trim(),
+    note.scouting?.templateId ?? null,
+    Object.entries(note.scouting?.values ?? {}).sort(([a], [b]) => a.localeCompare(b)),
+  ]);
+
+const isNewer = (a: { updatedAt?: string }, b: { updatedAt?: string }): boolean =>
+  new Date(a.updatedAt || 0).getTime() > new Date(b.updatedAt || 0).getTime();
+
+// Photos never travel in a bundle, so a note replaced by its incoming version keeps the local photo
+const keepLocalPhoto = (incoming: TeamMatchNote, local: TeamMatchNote): TeamMatchNote => ({
+  ...incoming,
+  imageUri: incoming.imageUri ?? local.imageUri,
+});
+
+export const planNoteMerge = (localNotes: TeamMatchNote[], incomingNotes: TeamMatchNote[]): NoteMergePlan => {
+  const byId = new Map(localNotes.map(note => [note.id, note]));
+  const byKey = new Map(localNotes.map(note => [getNoteKey(note), note]));
+  const plan: NoteMergePlan = { added: [], updated: [], unchanged: 0, conflicts: [] };
+
+  incomingNotes.forEach(incoming => {
+    const sameId = byId.get(incoming.id);
+    if (sameId) {
+      if (getNoteContent(sameId) !== getNoteContent(incoming) && isNewer(incoming, sameId)) {
+        plan.updated.push(keepLocalPhoto(incoming, sameId));
+      } else {
+        plan.unchanged++;
+      }
+      return;
+    }
+
+    const key = getNoteKey(incoming);
+    const sameMatch = byKey.get(key);
+    if (!sameMatch) {
+      plan.added.push(incoming);
+      byKey.set(key, incoming);
+    } else if (getNoteContent(combineNotes(sameMatch, incoming)) === getNoteContent(sameMatch)) {
+      // Identical, or already merged in by an earlier import
+      plan.unchanged++;
+    } else {
+      plan.conflicts.push({ key, local: sameMatch, incoming });
+    }
+  });
+
+  return plan;
+};
+
+/**
+ * Merge two notes for the same team and match: both texts are kept, and scouting
+ * responses from the newer note win where both answered the same field
+ */
+export const combineNotes = (local: TeamMatchNote, incoming: TeamMatchNote): TeamMatchNote => {
+  const localText = local.note.trim();
+  const incomingText = incoming.note.trim();
+  const note = localText.includes(incomingText)
+    ? localText
+    : incomingText.includes(localText) ? incomingText : `${localText}\n\n${incomingText}`;
+  const [older, newer] = isNewer(incoming, local) ? [local, incoming] : [incoming, local];
+
+  let scouting = newer.scouting || older.scouting;
+  if (local.scouting && incoming.scouting && local.scouting.templateId === incoming.scouting.templateId) {
+    const values: Record<string, ScoutingValue> = { ...older.scouting!.values, ...newer.scouting!.values };
+    scouting = { templateId: local.scouting.templateId, values };
+  }
+
+  return {
+    ...local,
+    note,
+    scouting,
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+/**
+ * Turn a plan and the user's conflict choices (keyed by incoming note id) into
+ * notes to save and notes to remove. Unresolved conflicts are combined.
+ */
+export const resolveNoteMerge = (
+  plan: NoteMergePlan,
+  choices: Record<string, NoteConflictChoice>
+): { upserts: TeamMatchNote[]; removedIds: string[] } => {
+  const upserts = [...plan.added, ...plan.updated];
+  const removedIds: string[] = [];
+
+  plan.conflicts.forEach(conflict => {
+    const choice = choices[conflict.incoming.id] || 'combine';
+    if (choice === 'incoming') {
+      removedIds.push(conflict.local.id);
+      upserts.push(keepLocalPhoto(conflict.incoming, conflict.local));
+    } else if (choice === 'combine') {
+      upserts.push(combineNotes(conflict.local, conflict.incoming));
+    }
+  });
+
+  return { upserts, removedIds };
+};
+
+export const planTemplateMerge = (
+  localTemplates: ScoutingTemplate[],
+  incomingTemplates: ScoutingTemplate[]
+): TemplateMergePlan => {
+  const byId = new Map(localTemplates.map(template => [template.id, template]));
+  const plan: TemplateMergePlan = { added: [], updated: [], unchanged: 0 };
+
+  incomingTemplates.forEach(incoming => {
+    if (incoming.builtIn) return;
+    const local = byId.get(incoming.id);
+    if (!local) {
+      plan.added.push(incoming);
+    } else if (isNewer(incoming, local)) {
+      plan.updated.push(incoming);
+    } else {
+      plan.unchanged++;
+    }
+  });
+
+  return plan;
+};
+
+// Favorites are only ever added; removing one on another device is not synced
+export const planFavoriteMerge = (
+  localFavorites: FavoriteItem[],
+  incomingFavorites: FavoriteItem[]
+): FavoriteMergePlan => {
+  const localIds = new Set(localFavorites.map(item => item.id));
+  const added = incomingFavorites.filter(item => !localIds.has(item.id));
+  return { added, unchanged: incomingFavorites.length - added.length };
+};
+
+export const planImport = (
+  bundle: SyncBundle,
+  local: { notes: TeamMatchNote[]; templates: ScoutingTemplate[]; favorites: FavoriteItem[] }
+): ImportPlan => ({
+  bundle,
+  notes: planNoteMerge(local.notes, bundle.notes),
+  templates: planTemplateMerge(local.templates, bundle.templates),
+  favorites: planFavoriteMerge(local.favorites, bundle.favorites),
+});
@@ -116,7 +116,70 @@ export const fileDownload = {
       // Native file handling would go here
       logger.debug('Native file download not implemented in this utility');
     }
-  }
+  },
+
+  /**
+   * Download a binary file (XLSX, PDF, etc.)
+   */
+  downloadBytes: (content: Uint8Array, filename: string, mimeType: string = 'application/octet-stream') => {
+    if (isWeb) {
+      const blob = new Blob([content as BlobPart], { type: mimeType });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+
+      link.href = url;
+      link.download = filename;
+      link.style.display = 'none';
+
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+
+      URL.revokeObjectURL(url);
+    } else {
+      logger.debug('Native file download not implemented in this utility');
+    }
+  },
+
+  /**
+   * Open the print dialog for an HTML document (browsers offer Save as PDF there).
+   * The document is printed from a hidden iframe so the app screen is not what gets printed.
+   */
+  printHTML: (html: string): Promise<void> => {
+    if (!isWeb) {
+      logger.debug('Native HTML printing not implemented in this utility');
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const frame = document.createElement('iframe');
+      frame.style.position = 'fixed';
+      frame.style.width = '0';
+      frame.style.height = '0';
+      frame.style.border = '0';
+      frame.style.visibility = 'hidden';
+
+      frame.onload = () => {
+        const frameWindow = frame.contentWindow;
+        if (!frameWindow) {
+          document.body.removeChild(frame);
+          reject(new Error('Unable to open the print preview'));
+          return;
+        }
+
+        // Removed once the dialog closes; print() may return before that in some browsers
+        frameWindow.addEventListener('afterprint', () => {
+          setTimeout(() => frame.parentNode && document.body.removeChild(frame), 0);
+        });
+        frameWindow.focus();
+        frameWindow.print();
+        resolve();
+      };
+
+      frame.srcdoc = html;
+      document.body.appendChild(frame);
+    });
+  },
 };
 
 /**
@@ -0,0 +1,69 @@
+/**
+ * RoboNexus Manual Q&A Extractor
+ *
+ * Builds the bundled Q&A files in src/data/qna from the "Significant Q&As"
+ * lists in the bundled game manuals. Each list item links an official Q&A and
+ * gives a one-line summary of the ruling, so the generated entries carry the
+ * summary, the RobotEvents link and the rules citing it - not the full question
+ * and answer. The output version is the manual version, so a fuller Q&A file
+ * published to GitHub with a newer version replaces it at runtime.
+ *
+ * Usage:
+ *   npm run qna:extract
+ *
+ * No dependencies - plain Node.js.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+const MANUAL_DIR = path.join(__dirname, '..', 'src', 'data', 'gameManuals');
+const QNA_DIR = path.join(__dirname, '..', 'src', 'data', 'qna');
+const SEASON = '2025-2026';
+const PROGRAMS = ['v5rc', 'vurc', 'vairc', 'viqrc'];
+
+// {{LINK:/V5RC/2025-2026/QA/2737}}Q&A 2737{{/LINK}} - Edge-case examples of scored and not scored Blocks
+const CITATION_PATTERN = /\{\{LINK:(\/[^/]+\/[^/]+\/QA\/(\d+))\}\}[^{]*\{\{\/LINK\}\}\s*-\s*([^\n]+)/g;
+const FORMATTING_PATTERN = /\{\{\/?[A-Z]+(?::[^}]*)?\}\}/g;
+
+function extractEntries(manual) {
+  const byId = new Map();
+
+  for (const group of manual.ruleGroups) {
+    for (const rule of group.rules) {
+      const text = rule.completeText || rule.fullText || '';
+      for (const [, link, id, summary] of text.matchAll(CITATION_PATTERN)) {
+        const title = summary.replace(FORMATTING_PATTERN, '').trim();
+        const entry = byId.get(id) || {
+          id,
+          title,
+          question: title,
+          answer: null,
+          url: `https://www.robotevents.com${link}`,
+          ruleCodes: [],
+          fromManual: true,
+        };
+        if (!entry.ruleCodes.includes(rule.rule)) entry.ruleCodes.push(rule.rule);
+        byId.set(id, entry);
+      }
+    }
+  }
+
+  // Newest Q&As have the highest numbers
+  return Array.from(byId.values()).sort((a, b) => Number(b.id) - Number(a.id));
+}
+
+for (const program of PROGRAMS) {
+  const filename = `${program}-${SEASON}.json`;
+  const manual = JSON.parse(fs.readFileSync(path.join(MANUAL_DIR, filename), 'utf8'));
+  const entries = extractEntries(manual);
+
+  const qna = {
+    program: program.toUpperCase(),
+    season: manual.season,
+    version: manual.version,
+    entries,
+  };
+  fs.writeFileSync(path.join(QNA_DIR, filename), `${JSON.stringify(qna, null, 2)}\n`);
+  console.log(`${filename}: ${entries.length} entries (manual v${manual.version})`);
+}